@@ -10,15 +10,34 @@ import DataGrid from '@components/DataGrid';
 import FilterBuilder, { buildNewFilter } from '@components/filter/FilterBuilder';
 import { DidYouMeanBanner } from '@components/DidYouMeanBanner';
 import PivotView from '@components/PivotView';
+import TimelineHistogram from '@components/TimelineHistogram';
 import ColumnsPanel from '@components/ColumnsPanel';
 import LabelsPanel from '@components/LabelsPanel';
 import OptionsPanel from '@components/options/OptionsPanel';
 import TagNotePanel from '@components/tagging/TagNotePanel';
+import SigmaPanel from '@components/sigma/SigmaPanel';
+import IocPanel from '@components/ioc/IocPanel';
+import DerivedColumnsPanel from '@components/derived/DerivedColumnsPanel';
+import ArchiveEntryPicker from '@components/archive/ArchiveEntryPicker';
+import LoadOptionsDialog from '@components/loading/LoadOptionsDialog';
+import ParseIssuesPanel from '@components/loading/ParseIssuesPanel';
+import WorkbookSheetPicker from '@components/loading/WorkbookSheetPicker';
+import DatabaseTablePicker from '@components/loading/DatabaseTablePicker';
 import LargeDatasetWarning from '@components/LargeDatasetWarning';
 import CapabilityGate from '@components/CapabilityGate';
 import CapabilityWarningBanner from '@components/CapabilityWarningBanner';
 import DiagnosticsToast from '@components/DiagnosticsToast';
-import { getDataWorker } from '@workers/dataWorkerProxy';
+import {
+  getDataWorker,
+  type ArchiveEntry,
+  type DatabaseTable
+} from '@workers/dataWorkerProxy';
+import { formatDatetimeValue } from '@workers/utils/timezone';
+import { collectDirectoryFiles } from '@workers/utils/caseSources';
+import { COMPRESSION_SNIFF_BYTES, sniffCompression } from '@workers/utils/detectCompression';
+import { detectSourceFormat, FORMAT_SNIFF_BYTES } from '@workers/utils/detectSourceFormat';
+import type { SourceEncoding } from '@workers/utils/detectEncoding';
+import type { CsvDialect, LogFormat } from '@workers/types';
 import { isDebugLoggingEnabled, logDebug } from '@utils/debugLog';
 import { getFontStack } from '@constants/fonts';
 import { summariseLabelFilters } from '@utils/labelFilters';
@@ -29,6 +48,14 @@ import {
   type CsvExportFormat
 } from '@utils/csvExport';
 import { saveBlobFile, saveJsonFile } from '@utils/fileAccess';
+import { XLSX_MIME_TYPE, buildXlsxBlob, toXlsxCellValue } from '@utils/xlsxExport';
+import {
+  ARROW_MIME_TYPE,
+  buildArrowBlob,
+  toArrowCellValue,
+  type ArrowExportColumn
+} from '@utils/arrowExport';
+import { buildTagCellValue } from '@utils/tagCells';
 import { buildTagExportFilename } from '@utils/tagExport';
 import { detectCapabilities, type CapabilityReport } from '@utils/capabilities';
 import { clearStoredData } from '@utils/clearStoredData';
@@ -39,6 +66,7 @@ import { useAutoFileLoader } from '@/hooks/useAutoFileLoader';
 import { formatBytes } from '@utils/formatBytes';
 import { reportAppError } from '@utils/diagnostics';
 import { isStoredDataFlushInProgress } from '@utils/persistenceReset';
+import type { SavedSqliteQuery } from '@utils/sqliteQueries';
 import { useDiagnosticsReporter } from '@/hooks/useDiagnosticsReporter';
 
 const formatTime = (timestamp: number): string => {
@@ -63,6 +91,9 @@ const formatCellValue = (value: unknown): string => {
 };
 
 const LARGE_DATASET_WARNING_BYTES = 600 * 1024 * 1024;
+const EMPTY_ARCHIVE_ENTRIES: ArchiveEntry[] = [];
+const EMPTY_SHEETS: string[] = [];
+const EMPTY_TABLES: DatabaseTable[] = [];
 
 interface AppShellProps {
   capabilityReport: CapabilityReport;
@@ -87,8 +118,13 @@ const AppShell = ({
   const interfaceFontSize = useSessionStore((state) => state.interfaceFontSize);
   const dataFontFamily = useSessionStore((state) => state.dataFontFamily);
   const dataFontSize = useSessionStore((state) => state.dataFontSize);
+  const displayTimeZone = useSessionStore((state) => state.displayTimeZone);
   const columnLayout = useSessionStore((state) => state.columnLayout);
   const setFileHandle = useSessionStore((state) => state.setFileHandle);
+  const setCaseFiles = useSessionStore((state) => state.setCaseFiles);
+  const setSourceEncoding = useSessionStore((state) => state.setSourceEncoding);
+  const setCsvDialect = useSessionStore((state) => state.setCsvDialect);
+  const setLogFormat = useSessionStore((state) => state.setLogFormat);
   const initializeColumnLayout = useSessionStore((state) => state.initializeColumnLayout);
   const startLoading = useDataStore((state) => state.startLoading);
   const setHeader = useDataStore((state) => state.setHeader);
@@ -101,6 +137,7 @@ const AppShell = ({
   const clearErrorDetails = useDataStore((state) => state.clearError);
   const matchedRows = useDataStore((state) => state.matchedRows);
   const totalRows = useDataStore((state) => state.totalRows);
+  const parseIssueCount = useDataStore((state) => state.parseIssueCount);
   const filterMatchedRows = useDataStore((state) => state.filterMatchedRows);
   const searchMatchedRows = useDataStore((state) => state.searchMatchedRows);
   const stats = useDataStore((state) => state.stats);
@@ -116,9 +153,27 @@ const AppShell = ({
   const { applyFilters } = useFilterSync({ bootstrap: true });
   const [searchTerm, setSearchTerm] = useState('');
   const [optionsOpen, setOptionsOpen] = useState(false);
+  const [loadOptionsOpen, setLoadOptionsOpen] = useState(false);
+  const [parseIssuesOpen, setParseIssuesOpen] = useState(false);
   const [columnsOpen, setColumnsOpen] = useState(false);
   const [labelsOpen, setLabelsOpen] = useState(false);
+  const [sigmaOpen, setSigmaOpen] = useState(false);
+  const [iocOpen, setIocOpen] = useState(false);
+  const [derivedOpen, setDerivedOpen] = useState(false);
+  const [archivePicker, setArchivePicker] = useState<{
+    handle: FileSystemFileHandle;
+    entries: ArchiveEntry[];
+  } | null>(null);
+  const [sheetPicker, setSheetPicker] = useState<{
+    handle: FileSystemFileHandle;
+    sheets: string[];
+  } | null>(null);
+  const [tablePicker, setTablePicker] = useState<{
+    handle: FileSystemFileHandle;
+    tables: DatabaseTable[];
+  } | null>(null);
   const [showPivot, setShowPivot] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
   const [isSidebarCollapsed, setSidebarCollapsed] = useState(true);
   const [noteEditor, setNoteEditor] = useState<{
     rowId: number;
@@ -294,14 +349,41 @@ const AppShell = ({
         });
       }
 
+      const {
+        caseFiles,
+        sourceTimeZones,
+        sourceEncoding,
+        csvDialect,
+        logFormat,
+        columnTypeOverrides,
+        derivedColumns
+      } = useSessionStore.getState();
+      const encoding = sourceEncoding ?? undefined;
+      const options = {
+        sourceTimeZones,
+        encoding,
+        ...csvDialect,
+        logFormat: logFormat ?? undefined,
+        columnTypeOverrides,
+        derivedColumns
+      };
+      const files = caseFiles[0]?.handle === handle ? caseFiles : [];
+
       setSearchTerm('');
       clearSearchResult();
-      startLoading(handle.name ?? 'Unknown file');
+      const part = files[0]?.sheet ?? files[0]?.table;
+      startLoading(
+        files.length > 1
+          ? `${files.length} files`
+          : (files[0]?.entry ??
+              (part != null ? `${handle.name}/${part}` : handle.name) ??
+              'Unknown file')
+      );
 
       try {
         const worker = getDataWorker();
         await worker.loadFile(
-          { handle },
+          files.length ? { files, ...options } : { handle, ...options },
           proxy({
             onStart: async ({ columns }) => {
               if (debugLoggingEnabled) {
@@ -397,6 +479,61 @@ const AppShell = ({
     }
   }, []);
 
+  const handleApplySourceTimeZones = useCallback(
+    async (sourceTimeZones: Record<string, string>) => {
+      useSessionStore.getState().setSourceTimeZones(sourceTimeZones);
+      if (!fileHandle) {
+        return;
+      }
+
+      // Epoch values are fixed at ingest time, so a zone change needs a re-parse.
+      setOptionsOpen(false);
+      try {
+        await loadSelectedFile(fileHandle);
+      } catch {
+        // loadSelectedFile already surfaced the failure.
+      }
+    },
+    [fileHandle, loadSelectedFile]
+  );
+
+  const handleApplySourceEncoding = useCallback(
+    async (encoding: SourceEncoding | null) => {
+      useSessionStore.getState().setSourceEncoding(encoding);
+      if (!fileHandle) {
+        return;
+      }
+
+      setOptionsOpen(false);
+      try {
+        await loadSelectedFile(fileHandle);
+      } catch {
+        // loadSelectedFile already surfaced the failure.
+      }
+    },
+    [fileHandle, loadSelectedFile]
+  );
+
+  const handleApplyLoadOptions = useCallback(
+    async (dialect: CsvDialect, logFormat: LogFormat | null) => {
+      const { setCsvDialect: applyDialect, setLogFormat: applyLogFormat } =
+        useSessionStore.getState();
+      applyDialect(dialect);
+      applyLogFormat(logFormat);
+      if (!fileHandle) {
+        return;
+      }
+
+      setLoadOptionsOpen(false);
+      try {
+        await loadSelectedFile(fileHandle);
+      } catch {
+        // loadSelectedFile already surfaced the failure.
+      }
+    },
+    [fileHandle, loadSelectedFile]
+  );
+
   const addFilterFromShortcut = useCallback((): boolean => {
     const newFilter = buildNewFilter({
       columns,
@@ -618,22 +755,68 @@ const AppShell = ({
         return;
       }
 
-      const [handle] = await openFilePicker({
+      const handles = await openFilePicker({
+        multiple: true,
         types: [
           {
-            description: 'Delimited text',
+            description:
+              'Delimited text, JSON Lines, Excel, Arrow, Parquet, event logs or SQLite databases',
             accept: {
               'text/csv': ['.csv'],
+              'text/plain': ['.log', '.txt'],
               'text/tab-separated-values': ['.tsv'],
-              'application/gzip': ['.csv.gz', '.tsv.gz']
+              'application/x-ndjson': ['.jsonl', '.ndjson'],
+              'application/gzip': ['.csv.gz', '.tsv.gz', '.jsonl.gz', '.ndjson.gz'],
+              'application/x-bzip2': ['.csv.bz2', '.tsv.bz2', '.jsonl.bz2', '.ndjson.bz2'],
+              'application/zstd': ['.csv.zst', '.tsv.zst', '.jsonl.zst', '.ndjson.zst'],
+              'application/zip': ['.zip'],
+              [XLSX_MIME_TYPE]: ['.xlsx'],
+              [ARROW_MIME_TYPE]: ['.arrow', '.feather'],
+              'application/vnd.apache.parquet': ['.parquet'],
+              'application/octet-stream': ['.evtx'],
+              'application/vnd.sqlite3': ['.sqlite', '.sqlite3', '.db']
             }
           }
         ]
       });
 
+      const [handle] = handles;
       if (handle) {
         setSearchTerm('');
         clearSearchResult();
+        // An encoding or dialect forced for the previous file rarely fits the next one.
+        setSourceEncoding(null);
+        setCsvDialect({});
+        setLogFormat(null);
+        if (handles.length === 1 && detectSourceFormat({ fileName: handle.name }) === 'xlsx') {
+          // Workbooks are zip packages too; only ask for a sheet when there is a choice.
+          const sheets = await getDataWorker().listWorkbookSheets(handle);
+          if (sheets.length > 1) {
+            setSheetPicker({ handle, sheets });
+            return;
+          }
+        } else if (handles.length === 1) {
+          const file = await handle.getFile();
+          const header = new Uint8Array(
+            await file
+              .slice(0, Math.max(COMPRESSION_SNIFF_BYTES, FORMAT_SNIFF_BYTES))
+              .arrayBuffer()
+          );
+          if (sniffCompression(header) === 'zip') {
+            // Archives open through the entry picker, which loads the chosen entries.
+            const entries = await getDataWorker().listArchiveEntries(handle);
+            setArchivePicker({ handle, entries });
+            return;
+          }
+          if (detectSourceFormat({ fileName: handle.name, header }) === 'sqlite') {
+            // Unlike workbooks, always ask: the picker also runs SQL queries.
+            const tables = await getDataWorker().listDatabaseTables(handle);
+            setTablePicker({ handle, tables });
+            return;
+          }
+        }
+        // Several files load together as one case with a __source column.
+        setCaseFiles(handles.length > 1 ? handles.map((entry) => ({ handle: entry })) : []);
         setFileHandle(handle);
       }
     } catch (error) {
@@ -645,7 +828,108 @@ const AppShell = ({
         );
       }
     }
-  }, [clearSearchResult, setFileHandle]);
+  }, [
+    clearSearchResult,
+    setCaseFiles,
+    setCsvDialect,
+    setFileHandle,
+    setLogFormat,
+    setSourceEncoding
+  ]);
+
+  const handleLoadArchiveEntries = useCallback(
+    (paths: string[]) => {
+      if (!archivePicker) {
+        return;
+      }
+      const { handle } = archivePicker;
+      setArchivePicker(null);
+      setCaseFiles(paths.map((path) => ({ handle, entry: path })));
+      setFileHandle(handle);
+    },
+    [archivePicker, setCaseFiles, setFileHandle]
+  );
+
+  const handleLoadWorkbookSheets = useCallback(
+    (sheets: string[]) => {
+      if (!sheetPicker) {
+        return;
+      }
+      const { handle } = sheetPicker;
+      setSheetPicker(null);
+      setCaseFiles(sheets.map((sheet) => ({ handle, sheet })));
+      setFileHandle(handle);
+    },
+    [setCaseFiles, setFileHandle, sheetPicker]
+  );
+
+  const handleLoadDatabaseTables = useCallback(
+    (tables: string[]) => {
+      if (!tablePicker) {
+        return;
+      }
+      const { handle } = tablePicker;
+      setTablePicker(null);
+      setCaseFiles(tables.map((table) => ({ handle, table })));
+      setFileHandle(handle);
+    },
+    [setCaseFiles, setFileHandle, tablePicker]
+  );
+
+  const handleLoadDatabaseQuery = useCallback(
+    ({ name, sql }: SavedSqliteQuery) => {
+      if (!tablePicker) {
+        return;
+      }
+      const { handle } = tablePicker;
+      setTablePicker(null);
+      setCaseFiles([{ handle, table: name, query: sql }]);
+      setFileHandle(handle);
+    },
+    [setCaseFiles, setFileHandle, tablePicker]
+  );
+
+  const handleOpenFolder = useCallback(async () => {
+    const openDirectoryPicker = window.showDirectoryPicker;
+    if (!openDirectoryPicker) {
+      reportAppError('Folder picker unavailable.', null, { operation: 'folder.open' });
+      return;
+    }
+
+    try {
+      const directory = await openDirectoryPicker({ mode: 'read' });
+      const files = await collectDirectoryFiles(directory);
+      if (!files.length) {
+        reportAppError(`No CSV or JSON Lines files found in "${directory.name}".`, null, {
+          operation: 'folder.open'
+        });
+        return;
+      }
+
+      setSearchTerm('');
+      clearSearchResult();
+      setSourceEncoding(null);
+      setCsvDialect({});
+      setLogFormat(null);
+      setCaseFiles(files);
+      setFileHandle(files[0]!.handle);
+    } catch (error) {
+      if ((error as DOMException)?.name !== 'AbortError') {
+        reportAppError(
+          error instanceof Error ? error.message : String(error),
+          error,
+          { operation: 'folder.open' }
+        );
+      }
+    }
+  }, [
+    clearSearchResult,
+    setCaseFiles,
+    setCsvDialect,
+    setFileHandle,
+    setLogFormat,
+    setSourceEncoding
+  ]);
 
   const handleSearchChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
     setSearchTerm(event.target.value);
@@ -685,7 +969,11 @@ const AppShell = ({
 
         const headers = allColumns.map((column) => column.headerName);
         const csvRows = allRows.map((row) =>
-          allColumns.map((column) => formatCellValue(row[column.key]))
+          allColumns.map((column) =>
+            column.type === 'datetime'
+              ? formatDatetimeValue(row[column.key], displayTimeZone)
+              : formatCellValue(row[column.key])
+          )
         );
         const csvContent = serializeToCsv(headers, csvRows);
         const { blob, extension, mimeType } = await buildCsvBlob(csvContent, format);
@@ -708,9 +996,128 @@ const AppShell = ({
         setExporting(false);
       }
     },
-    [fileHandle, matchedRows, allColumns, reportAppError]
+    [fileHandle, matchedRows, allColumns, displayTimeZone, reportAppError]
   );
 
+  /**
+   * The current view for the typed exports: every filtered row, the grid's
+   * columns in display order without hidden ones, and each row's tags and note.
+   */
+  const collectViewExport = useCallback(async () => {
+    const worker = getDataWorker();
+    const allRows: GridRow[] = [];
+    const rowCount = matchedRows ?? 0;
+    let offset = 0;
+    const chunkSize = 10000;
+
+    while (offset < rowCount) {
+      const limit = Math.min(chunkSize, rowCount - offset);
+      const result = await worker.fetchRows({ offset, limit });
+      allRows.push(...result.rows);
+      offset += limit;
+    }
+
+    // Mirror the grid: its column order, without hidden columns.
+    const baseOrder = columnLayout.order.length
+      ? columnLayout.order
+      : allColumns.map((column) => column.key);
+    const exportColumns = [
+      ...baseOrder,
+      ...allColumns.map((column) => column.key).filter((key) => !baseOrder.includes(key))
+    ]
+      .map((key) => allColumns.find((column) => column.key === key))
+      .filter((column): column is (typeof allColumns)[number] => Boolean(column))
+      .filter((column) => columnLayout.visibility[column.key] !== false);
+    const labelsById = new Map(tagLabels.map((label) => [label.id, label]));
+    const tags = allRows.map((row) => {
+      const tag = buildTagCellValue(row.__rowId, tagRecords, labelsById);
+      return {
+        labels: tag?.labels.map((label) => label.name).join('; ') ?? '',
+        note: tag?.note ?? ''
+      };
+    });
+
+    return { rows: allRows, exportColumns, tags };
+  }, [allColumns, columnLayout, matchedRows, tagLabels, tagRecords]);
+
+  const handleExportRowsXlsx = useCallback(async () => {
+    if (!fileHandle || matchedRows === null || matchedRows === 0) {
+      return;
+    }
+
+    setExportMenuOpen(false);
+    setExporting(true);
+
+    try {
+      const { rows, exportColumns, tags } = await collectViewExport();
+      const headers = [...exportColumns.map((column) => column.headerName), 'Tags', 'Notes'];
+      const xlsxRows = rows.map((row, index) => [
+        ...exportColumns.map((column) => toXlsxCellValue(row[column.key], column.type)),
+        tags[index]!.labels,
+        tags[index]!.note
+      ]);
+      const blob = await buildXlsxBlob(headers, xlsxRows, {
+        sheetName: fileHandle.name.replace(/\.[^/.]+$/, ''),
+        timeZone: displayTimeZone
+      });
+
+      await saveBlobFile({
+        suggestedName: generateExportFilename(fileHandle.name, '.xlsx'),
+        blob,
+        description: 'Excel workbook export',
+        mimeType: XLSX_MIME_TYPE,
+        extensions: ['.xlsx']
+      });
+    } catch (error) {
+      console.error('Failed to export Excel workbook', error);
+      reportAppError('Failed to export Excel workbook', error, {
+        operation: 'export.xlsx',
+        context: { matchedRows }
+      });
+    } finally {
+      setExporting(false);
+    }
+  }, [collectViewExport, displayTimeZone, fileHandle, matchedRows]);
+
+  const handleExportRowsArrow = useCallback(async () => {
+    if (!fileHandle || matchedRows === null || matchedRows === 0) {
+      return;
+    }
+
+    setExportMenuOpen(false);
+    setExporting(true);
+
+    try {
+      const { rows, exportColumns, tags } = await collectViewExport();
+      const columns: ArrowExportColumn[] = [
+        ...exportColumns.map((column) => ({ name: column.headerName, type: column.type })),
+        { name: 'Tags', type: 'string' },
+        { name: 'Notes', type: 'string' }
+      ];
+      const arrowRows = rows.map((row, index) => [
+        ...exportColumns.map((column) => toArrowCellValue(row[column.key], column.type)),
+        tags[index]!.labels || null,
+        tags[index]!.note || null
+      ]);
+
+      await saveBlobFile({
+        suggestedName: generateExportFilename(fileHandle.name, '.arrow'),
+        blob: buildArrowBlob(columns, arrowRows),
+        description: 'Arrow IPC export',
+        mimeType: ARROW_MIME_TYPE,
+        extensions: ['.arrow']
+      });
+    } catch (error) {
+      console.error('Failed to export Arrow file', error);
+      reportAppError('Failed to export Arrow file', error, {
+        operation: 'export.arrow',
+        context: { matchedRows }
+      });
+    } finally {
+      setExporting(false);
+    }
+  }, [collectViewExport, fileHandle, matchedRows]);
+
   const handleExportGrouping = useCallback(
     async (format: CsvExportFormat) => {
       if (groupingState.status !== 'ready' || groupingState.rows.length === 0) {
@@ -912,6 +1319,36 @@ const AppShell = ({
           >
             {loaderStatus === 'loading' ? 'Loading…' : 'Open File'}
           </button>
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-2 py-1 text-xs text-slate-300"
+            onClick={handleOpenFolder}
+            disabled={
+              !workerReady ||
+              loaderStatus === 'loading' ||
+              persistenceRestoring ||
+              persistenceReconnecting
+            }
+          >
+            Open Folder
+          </button>
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-2 py-1 text-xs text-slate-300"
+            onClick={() => setLoadOptionsOpen(true)}
+            disabled={!workerReady || loaderStatus === 'loading'}
+          >
+            Load Options
+          </button>
+          {parseIssueCount > 0 && (
+            <button
+              type="button"
+              className="rounded border border-amber-500/60 px-2 py-1 text-xs text-amber-200"
+              onClick={() => setParseIssuesOpen(true)}
+            >
+              Parse issues ({parseIssueCount.toLocaleString()})
+            </button>
+          )}
           <button
             type="button"
             className="rounded border border-slate-600 px-2 py-1 text-xs text-slate-300"
@@ -935,6 +1372,30 @@ const AppShell = ({
           >
             Labels
           </button>
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-2 py-1 text-xs text-slate-300"
+            onClick={() => setSigmaOpen(true)}
+            disabled={!workerReady}
+          >
+            Sigma
+          </button>
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-2 py-1 text-xs text-slate-300"
+            onClick={() => setIocOpen(true)}
+            disabled={!workerReady}
+          >
+            IOCs
+          </button>
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-2 py-1 text-xs text-slate-300"
+            onClick={() => setDerivedOpen(true)}
+            disabled={!workerReady}
+          >
+            Derived
+          </button>
           <div className="relative" ref={exportMenuRef}>
             <button
               type="button"
@@ -971,6 +1432,22 @@ const AppShell = ({
                     <span className="text-[10px] text-amber-400">Compression unavailable</span>
                   )}
                 </button>
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between px-3 py-2 text-xs text-slate-200 hover:bg-slate-900 disabled:opacity-50"
+                  onClick={handleExportRowsXlsx}
+                  disabled={!canExportRows || exporting}
+                >
+                  <span>.xlsx (visible columns, tags &amp; notes)</span>
+                </button>
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between px-3 py-2 text-xs text-slate-200 hover:bg-slate-900 disabled:opacity-50"
+                  onClick={handleExportRowsArrow}
+                  disabled={!canExportRows || exporting}
+                >
+                  <span>.arrow (visible columns, tags &amp; notes)</span>
+                </button>
                 <div className="border-b border-slate-800 px-3 py-2 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
                   Grouping
                 </div>
@@ -1015,6 +1492,15 @@ const AppShell = ({
           >
             {showPivot ? 'Show Grid' : 'Pivot View'}
           </button>
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-2 py-1 text-xs text-slate-300"
+            onClick={() => setShowTimeline((value) => !value)}
+            disabled={!workerReady || showPivot}
+            aria-pressed={showTimeline}
+          >
+            Timeline
+          </button>
           <button
             type="button"
             className="rounded border border-slate-600 px-2 py-1 text-xs text-slate-300"
@@ -1059,6 +1545,7 @@ const AppShell = ({
         </aside>
         <section className="flex flex-1 flex-col">
           <div className="flex-1 overflow-auto p-4">
+          {showTimeline && !showPivot && <TimelineHistogram />}
           <DidYouMeanBanner />
           <div className="h-full rounded border border-slate-800">
           {showPivot ? (
@@ -1077,8 +1564,38 @@ const AppShell = ({
         open={optionsOpen}
         onClose={() => setOptionsOpen(false)}
         onFlushStoredData={handleFlushStoredData}
+        onApplySourceTimeZones={handleApplySourceTimeZones}
+        onApplySourceEncoding={handleApplySourceEncoding}
       />
       <LabelsPanel open={labelsOpen} onClose={() => setLabelsOpen(false)} />
+      <SigmaPanel open={sigmaOpen} onClose={() => setSigmaOpen(false)} />
+      <IocPanel open={iocOpen} onClose={() => setIocOpen(false)} />
+      <DerivedColumnsPanel open={derivedOpen} onClose={() => setDerivedOpen(false)} />
+      <ArchiveEntryPicker
+        archiveName={archivePicker?.handle.name ?? null}
+        entries={archivePicker?.entries ?? EMPTY_ARCHIVE_ENTRIES}
+        onLoad={handleLoadArchiveEntries}
+        onCancel={() => setArchivePicker(null)}
+      />
+      <WorkbookSheetPicker
+        workbookName={sheetPicker?.handle.name ?? null}
+        sheets={sheetPicker?.sheets ?? EMPTY_SHEETS}
+        onLoad={handleLoadWorkbookSheets}
+        onCancel={() => setSheetPicker(null)}
+      />
+      <DatabaseTablePicker
+        databaseName={tablePicker?.handle.name ?? null}
+        tables={tablePicker?.tables ?? EMPTY_TABLES}
+        onLoad={handleLoadDatabaseTables}
+        onLoadQuery={handleLoadDatabaseQuery}
+        onCancel={() => setTablePicker(null)}
+      />
+      <LoadOptionsDialog
+        open={loadOptionsOpen}
+        onClose={() => setLoadOptionsOpen(false)}
+        onApply={handleApplyLoadOptions}
+      />
+      <ParseIssuesPanel open={parseIssuesOpen} onClose={() => setParseIssuesOpen(false)} />
       <ColumnsPanel open={columnsOpen} onClose={() => setColumnsOpen(false)} />
       <TagNotePanel
         open={noteEditor != null}
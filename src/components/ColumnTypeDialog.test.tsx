@@ -0,0 +1,109 @@
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import ColumnTypeDialog from './ColumnTypeDialog';
+
+const mockSetColumnTypeOverrides = vi.fn();
+
+vi.mock('@workers/dataWorkerProxy', () => {
+  return {
+    getDataWorker: () => ({
+      setColumnTypeOverrides: mockSetColumnTypeOverrides
+    })
+  };
+});
+
+const inference = (type: 'string' | 'datetime', examples: string[]) => ({
+  type,
+  confidence: 1,
+  samples: 2,
+  nullCount: 0,
+  examples
+});
+
+describe('ColumnTypeDialog', () => {
+  beforeEach(() => {
+    mockSetColumnTypeOverrides.mockReset();
+    mockSetColumnTypeOverrides.mockImplementation(async () => ({
+      columnTypes: { Id: 'string', Seen: 'datetime' },
+      columnInference: {
+        Id: inference('string', ['1700000000']),
+        Seen: inference('datetime', ['03.02.2024 10:00'])
+      },
+      derivedColumns: []
+    }));
+    useSessionStore.getState().clear();
+    useDataStore.getState().reset();
+    useDataStore.getState().complete({
+      datasetKey: 'dataset-1',
+      rowsParsed: 2,
+      bytesParsed: 64,
+      durationMs: 1,
+      columnTypes: { Id: 'datetime', Seen: 'string' },
+      columnInference: {
+        Id: inference('datetime', ['1700000000', '1700000001']),
+        Seen: inference('string', ['03.02.2024 10:00', 'n/a'])
+      }
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('previews a datetime format and saves the override for the dataset', async () => {
+    const onClose = vi.fn();
+    render(<ColumnTypeDialog column="Seen" onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Type'), { target: { value: 'datetime' } });
+    fireEvent.change(screen.getByLabelText('Interpret as'), { target: { value: 'format' } });
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: '%q' } });
+    expect(screen.getByText('Unknown datetime format directive "%q".')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Apply' })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: '%d.%m.%Y %H:%M' } });
+    expect(screen.getByText('2024-02-03T10:00:00Z')).toBeInTheDocument();
+    expect(screen.getByText('(empty)')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    const override = { type: 'datetime', datetimeFormat: '%d.%m.%Y %H:%M' };
+    expect(mockSetColumnTypeOverrides).toHaveBeenCalledWith({ Seen: override });
+    expect(useSessionStore.getState().columnTypeOverrides).toEqual({
+      'dataset-1': { Seen: override }
+    });
+    const seen = useDataStore.getState().columns.find((column) => column.key === 'Seen');
+    expect(seen?.type).toBe('datetime');
+  });
+
+  it('interprets a numeric column with a timestamp decoder', async () => {
+    render(<ColumnTypeDialog column="Id" asTimestamp onClose={vi.fn()} />);
+
+    expect(screen.getByLabelText('Type')).toHaveValue('datetime');
+    fireEvent.change(screen.getByLabelText('Interpret as'), { target: { value: 'cocoa' } });
+    expect(screen.getByText('2054-11-14T22:13:20Z')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    await waitFor(() =>
+      expect(mockSetColumnTypeOverrides).toHaveBeenCalledWith({
+        Id: { type: 'datetime', timestampDecoder: 'cocoa' }
+      })
+    );
+  });
+
+  it('returns a column to its inferred type', async () => {
+    useSessionStore.getState().setColumnTypeOverrides('dataset-1', { Id: { type: 'string' } });
+    render(<ColumnTypeDialog column="Id" onClose={vi.fn()} />);
+
+    expect(screen.getByLabelText('Type')).toHaveValue('string');
+    // Text converts to itself, so the value shows on both sides.
+    expect(screen.getAllByText('1700000001')).toHaveLength(2);
+    fireEvent.change(screen.getByLabelText('Type'), { target: { value: 'inferred' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    await waitFor(() => expect(mockSetColumnTypeOverrides).toHaveBeenCalledWith({}));
+    expect(useSessionStore.getState().columnTypeOverrides).toEqual({});
+  });
+});
@@ -0,0 +1,233 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { useColumnTypeOverrides } from '@/hooks/useColumnTypeOverrides';
+import { useDataStore } from '@state/dataStore';
+import type { ColumnType, ColumnTypeOverride } from '@workers/types';
+import {
+  coerceColumnBatch,
+  createStringColumnBatch,
+  formatColumnBatchCell
+} from '@workers/utils/columnBatchBuilders';
+import { listTimestampDecoders } from '@workers/utils/timestampDecoders';
+
+interface ColumnTypeDialogProps {
+  /** Parsed column to retype; the dialog is closed while null. */
+  column: string | null;
+  /** Starts on a date/time reading, for the "Interpret as timestamp…" action. */
+  asTimestamp?: boolean;
+  onClose: () => void;
+}
+
+type TypeChoice = ColumnType | 'inferred';
+
+/** How a date/time column is read: `detect`, `format` (strftime) or a decoder id. */
+type Reading = string;
+
+const readingOf = (override: ColumnTypeOverride | undefined): Reading =>
+  override?.timestampDecoder ?? (override?.datetimeFormat ? 'format' : 'detect');
+
+type Preview = { rows: [string, string][] } | { error: string };
+
+const TYPE_CHOICES: { value: TypeChoice; label: string }[] = [
+  { value: 'inferred', label: 'As inferred' },
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'datetime', label: 'Date/time' },
+  { value: 'boolean', label: 'Boolean' }
+];
+
+const buildOverride = (
+  choice: TypeChoice,
+  reading: Reading,
+  format: string
+): ColumnTypeOverride | null => {
+  if (choice === 'inferred') {
+    return null;
+  }
+  if (choice !== 'datetime' || reading === 'detect') {
+    return { type: choice };
+  }
+  if (reading !== 'format') {
+    return { type: choice, timestampDecoder: reading };
+  }
+  return format.trim() ? { type: choice, datetimeFormat: format.trim() } : { type: choice };
+};
+
+const buildPreview = (examples: readonly string[], override: ColumnTypeOverride): Preview => {
+  try {
+    const coerced = coerceColumnBatch(createStringColumnBatch([...examples]), override);
+    return {
+      rows: examples.map((value, index) => [value, formatColumnBatchCell(coerced, index)])
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const ColumnTypeDialog = ({
+  column,
+  asTimestamp = false,
+  onClose
+}: ColumnTypeDialogProps): JSX.Element | null => {
+  const { overrides, setColumnType } = useColumnTypeOverrides();
+  const gridColumn = useDataStore((state) =>
+    column == null ? undefined : state.columns.find((entry) => entry.key === column)
+  );
+  const [choice, setChoice] = useState<TypeChoice>('inferred');
+  const [reading, setReading] = useState<Reading>('detect');
+  const [format, setFormat] = useState('');
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Read when a column opens; applying changes the overrides while it is open.
+  const overridesRef = useRef(overrides);
+  overridesRef.current = overrides;
+
+  useEffect(() => {
+    if (column == null) {
+      return;
+    }
+    const current = overridesRef.current[column];
+    setChoice(asTimestamp ? 'datetime' : (current?.type ?? 'inferred'));
+    setReading(readingOf(current));
+    setFormat(current?.datetimeFormat ?? '');
+    setError(null);
+  }, [asTimestamp, column]);
+
+  const override = buildOverride(choice, reading, format);
+  const examples = gridColumn?.examples ?? [];
+  // Inference keeps a handful of examples, so the preview is cheap to rebuild.
+  const preview = override && examples.length ? buildPreview(examples, override) : null;
+
+  if (column == null) {
+    return null;
+  }
+
+  const handleApply = async () => {
+    if (applying || (preview && 'error' in preview)) {
+      return;
+    }
+    setApplying(true);
+    setError(null);
+    try {
+      await setColumnType(column, override);
+      onClose();
+    } catch (applyError) {
+      setError(applyError instanceof Error ? applyError.message : String(applyError));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[90vh] w-full max-w-xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Change type of {column}</h2>
+          <button
+            type="button"
+            className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-800"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </header>
+        <div className="flex flex-1 flex-col gap-3 overflow-auto px-4 py-3 text-xs text-slate-200">
+          <p className="text-slate-400">
+            Currently {gridColumn?.type ?? 'string'}
+            {overrides[column] ? ', set by hand' : ''}. The stored values are converted again
+            from the text that was read, so the file is not reloaded.
+          </p>
+          <label className="flex items-center justify-between gap-2">
+            Type
+            <select
+              className="w-72 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+              value={choice}
+              onChange={(event) => setChoice(event.target.value as TypeChoice)}
+            >
+              {TYPE_CHOICES.map((entry) => (
+                <option key={entry.value} value={entry.value}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {choice === 'datetime' && (
+            <label className="flex items-center justify-between gap-2">
+              Interpret as
+              <select
+                className="w-72 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+                value={reading}
+                onChange={(event) => setReading(event.target.value)}
+              >
+                <option value="detect">Detect from text</option>
+                <option value="format">strftime format</option>
+                {listTimestampDecoders().map((decoder) => (
+                  <option key={decoder.id} value={decoder.id}>
+                    {decoder.label}, e.g. {decoder.example}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {choice === 'datetime' && reading === 'format' && (
+            <>
+              <label className="flex items-center justify-between gap-2">
+                Format
+                <input
+                  className="w-72 rounded border border-slate-700 bg-slate-950 px-2 py-1 font-mono"
+                  value={format}
+                  placeholder="%Y-%m-%d %H:%M:%S"
+                  onChange={(event) => setFormat(event.target.value)}
+                />
+              </label>
+              <p className="text-slate-400">
+                strftime directives such as{' '}
+                <code className="font-mono">%d/%b/%Y:%H:%M:%S %z</code>;{' '}
+                <code className="font-mono">%s</code> and <code className="font-mono">%Q</code>{' '}
+                read epoch seconds and milliseconds.
+              </p>
+            </>
+          )}
+          {preview && 'error' in preview && <p className="text-rose-300">{preview.error}</p>}
+          {preview && 'rows' in preview && (
+            <div className="max-h-60 overflow-auto rounded border border-slate-800">
+              <table className="w-full text-left">
+                <thead className="sticky top-0 bg-slate-900 text-slate-400">
+                  <tr>
+                    <th className="px-2 py-1 font-normal">Text</th>
+                    <th className="px-2 py-1 font-normal">Converted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map(([value, converted], index) => (
+                    <tr key={index} className="border-t border-slate-800 font-mono">
+                      <td className="max-w-xs truncate px-2 py-1" title={value}>
+                        {value}
+                      </td>
+                      <td className="px-2 py-1">
+                        {converted || <span className="text-slate-500">(empty)</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+              onClick={() => void handleApply()}
+              disabled={applying || Boolean(preview && 'error' in preview)}
+            >
+              {applying ? 'Converting…' : 'Apply'}
+            </button>
+          </div>
+          {error && <p className="text-rose-300">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnTypeDialog;
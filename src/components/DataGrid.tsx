@@ -31,6 +31,7 @@ import { useTagStore } from '@state/tagStore';
 import type { FilterState, SessionSnapshot } from '@state/sessionStore';
 import { useSessionStore } from '@state/sessionStore';
 import { getDataWorker } from '@workers/dataWorkerProxy';
+import { formatDatetimeValue } from '@workers/utils/timezone';
 import { isDebugLoggingEnabled, logDebug } from '@utils/debugLog';
 import { buildTagCellValue, type TagCellValue, type TagLabelView } from '@utils/tagCells';
 import { renderMarkdownToSafeHtml } from '@utils/markdown';
@@ -38,6 +39,9 @@ import { useFilterSync } from '@/hooks/useFilterSync';
 import { useSortSync } from '@/hooks/useSortSync';
 import { TAG_COLUMN_ID, TAG_NO_LABEL_FILTER_VALUE } from '@workers/types';
 import { reportAppError } from '@utils/diagnostics';
+import FieldTransformDialog from './derived/FieldTransformDialog';
+import RegexExtractDialog from './derived/RegexExtractDialog';
+import ColumnTypeDialog from './ColumnTypeDialog';
 
 import 'ag-grid-community/styles/ag-grid.css';
 import 'ag-grid-community/styles/ag-theme-quartz.css';
@@ -127,6 +131,8 @@ const CELL_HORIZONTAL_PADDING_PX = 32;
 const MIN_COLUMN_WIDTH = 80;
 const MAX_COLUMN_WIDTH = 520;
 const DISTRIBUTION_SUPPORTED_TYPES = new Set<GridColumn['type']>(['string', 'boolean']);
+const ROW_FOCUS_RETRY_MS = 100;
+const ROW_FOCUS_MAX_ATTEMPTS = 20;
 
 export const computeMedianWidth = (samples: number[]): number => {
   if (!samples.length) {
@@ -467,6 +473,7 @@ const DataGrid = ({ status, onEditTagNote }: DataGridProps): JSX.Element => {
   const matchedRows = useDataStore((state) => state.matchedRows);
   const viewVersion = useDataStore((state) => state.viewVersion);
   const totalRows = useDataStore((state) => state.totalRows);
+  const rowFocusRequest = useDataStore((state) => state.rowFocusRequest);
   const setColumnValueDistributionLoading = useDataStore(
     (state) => state.setColumnValueDistributionLoading
   );
@@ -487,6 +494,17 @@ const DataGrid = ({ status, onEditTagNote }: DataGridProps): JSX.Element => {
   const { filters, applyFilters } = useFilterSync();
   const { sorts, applySorts } = useSortSync();
   const [contextMenu, setContextMenu] = useState<GridContextMenuState | null>(null);
+  const [regexExtractColumn, setRegexExtractColumn] = useState<string | null>(null);
+  const [fieldTransformColumn, setFieldTransformColumn] = useState<string | null>(null);
+  const [columnTypeTarget, setColumnTypeTarget] = useState<{
+    column: string;
+    asTimestamp: boolean;
+  } | null>(null);
+  const derivedColumnKeys = useDataStore((state) => state.derivedColumnKeys);
+  const datasetKey = useDataStore((state) => state.datasetKey);
+  const columnTypeOverrides = useSessionStore((state) =>
+    datasetKey ? state.columnTypeOverrides[datasetKey] : undefined
+  );
   const activeHeaderDistributionEntry = useDataStore((state) =>
     contextMenu?.kind === 'header'
       ? state.columnValueDistributions[contextMenu.columnId]
@@ -501,6 +519,7 @@ const DataGrid = ({ status, onEditTagNote }: DataGridProps): JSX.Element => {
   } | null>(null);
   const columnLayout = useSessionStore((state) => state.columnLayout);
   const setColumnLayout = useSessionStore((state) => state.setColumnLayout);
+  const displayTimeZone = useSessionStore((state) => state.displayTimeZone);
   const [gridApi, setGridApi] = useState<GridApi | null>(null);
   const [columnApi, setColumnApi] = useState<ColumnApi | null>(null);
   const [autoColumnWidths, setAutoColumnWidths] = useState<Record<string, number>>({});
@@ -700,6 +719,12 @@ const DataGrid = ({ status, onEditTagNote }: DataGridProps): JSX.Element => {
         field: column.key,
         headerName: column.headerName,
         cellDataType: mapColumnTypeToAgDataType(column.type),
+        ...(column.type === 'datetime'
+          ? {
+              valueFormatter: (params: { value: unknown }) =>
+                formatDatetimeValue(params.value, displayTimeZone)
+            }
+          : {}),
         sortable: true,
         filter: true,
         suppressHeaderMenuButton: true,
@@ -707,8 +732,9 @@ const DataGrid = ({ status, onEditTagNote }: DataGridProps): JSX.Element => {
         headerComponentParams: {
           openHeaderMenu: handleOpenHeaderMenu
         },
-        headerTooltip:
-          column.confidence > 0
+        headerTooltip: columnTypeOverrides?.[column.key]
+          ? `${column.type} • set by hand`
+          : column.confidence > 0
             ? `${column.type} • ${column.confidence}% confidence`
             : column.type,
         hide: columnLayout.visibility[column.key] === false,
@@ -726,6 +752,8 @@ const DataGrid = ({ status, onEditTagNote }: DataGridProps): JSX.Element => {
       })),
     [
       columnLayout.visibility,
+      columnTypeOverrides,
+      displayTimeZone,
       handleOpenHeaderMenu,
       mapColumnTypeToAgDataType,
       orderedColumns,
@@ -1238,6 +1266,43 @@ const DataGrid = ({ status, onEditTagNote }: DataGridProps): JSX.Element => {
     keyboardFocusedRowIdRef.current = keyboardFocusedRowId;
   }, [keyboardFocusedRowId]);
 
+  useEffect(() => {
+    if (!gridApi || !rowFocusRequest) {
+      return;
+    }
+
+    const { index } = rowFocusRequest;
+    const selectIndex = (): boolean => {
+      const node = gridApi.getDisplayedRowAtIndex(index);
+      if (!node?.data) {
+        return false;
+      }
+
+      gridApi.deselectAll();
+      node.setSelected(true, undefined, 'api');
+      setKeyboardFocusedRowId(node.data.__rowId ?? null);
+      return true;
+    };
+
+    gridApi.ensureIndexVisible(index, 'middle');
+    if (selectIndex()) {
+      return;
+    }
+
+    // The row's block is fetched after scrolling, so retry until it has loaded.
+    let attempts = 0;
+    const timer = window.setInterval(() => {
+      attempts += 1;
+      if (selectIndex() || attempts >= ROW_FOCUS_MAX_ATTEMPTS) {
+        window.clearInterval(timer);
+      }
+    }, ROW_FOCUS_RETRY_MS);
+
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [gridApi, rowFocusRequest]);
+
   useEffect(() => {
     if (!gridApi) {
       return;
@@ -1782,6 +1847,58 @@ const DataGrid = ({ status, onEditTagNote }: DataGridProps): JSX.Element => {
           >
             Hide column
           </button>
+          {headerColumn &&
+          headerColumn.key !== TAG_COLUMN_ID &&
+          !derivedColumnKeys.includes(headerColumn.key) ? (
+            <>
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 rounded px-2 py-1 text-left hover:bg-slate-800"
+                onClick={() => {
+                  setColumnTypeTarget({ column: contextMenu.columnId, asTimestamp: false });
+                  closeMenu();
+                }}
+              >
+                Change type…
+              </button>
+              {headerColumn.type === 'number' || headerColumn.type === 'string' ? (
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 rounded px-2 py-1 text-left hover:bg-slate-800"
+                  onClick={() => {
+                    setColumnTypeTarget({ column: contextMenu.columnId, asTimestamp: true });
+                    closeMenu();
+                  }}
+                >
+                  Interpret as timestamp…
+                </button>
+              ) : null}
+            </>
+          ) : null}
+          {headerColumn?.type === 'string' && headerColumn.key !== TAG_COLUMN_ID ? (
+            <>
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 rounded px-2 py-1 text-left hover:bg-slate-800"
+                onClick={() => {
+                  setRegexExtractColumn(contextMenu.columnId);
+                  closeMenu();
+                }}
+              >
+                Extract with regex…
+              </button>
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 rounded px-2 py-1 text-left hover:bg-slate-800"
+                onClick={() => {
+                  setFieldTransformColumn(contextMenu.columnId);
+                  closeMenu();
+                }}
+              >
+                Split / explode…
+              </button>
+            </>
+          ) : null}
           {supportsDistribution ? (
             <div className="mt-1 border-t border-slate-800 pt-1">
               <div className="flex items-center justify-between px-2 py-1">
@@ -2131,6 +2248,19 @@ const DataGrid = ({ status, onEditTagNote }: DataGridProps): JSX.Element => {
         </div>
       )}
       {renderContextMenu()}
+      <RegexExtractDialog
+        column={regexExtractColumn}
+        onClose={() => setRegexExtractColumn(null)}
+      />
+      <FieldTransformDialog
+        column={fieldTransformColumn}
+        onClose={() => setFieldTransformColumn(null)}
+      />
+      <ColumnTypeDialog
+        column={columnTypeTarget?.column ?? null}
+        asTimestamp={columnTypeTarget?.asTimestamp}
+        onClose={() => setColumnTypeTarget(null)}
+      />
     </div>
   );
 };
@@ -58,7 +58,9 @@ describe('DidYouMeanBanner', () => {
 
     vi.mocked(useFilterSync).mockReturnValue({
       filters,
-      applyFilters
+      filterGroups: [],
+      applyFilters,
+      applyExpression: vi.fn().mockResolvedValue(null)
     });
 
     render(<DidYouMeanBanner />);
@@ -74,10 +76,36 @@ describe('DidYouMeanBanner', () => {
     });
   });
 
+  it('replaces only the misspelt entry of an in-list filter', async () => {
+    const applyFilters = vi.fn().mockResolvedValue(undefined);
+    useDataStore.setState((state) => ({
+      ...state,
+      didYouMean: { ...baseDidYouMean, operator: 'in' }
+    }));
+    vi.mocked(useFilterSync).mockReturnValue({
+      filters: [createFilter({ operator: 'in', value: ['logout', 'login sucess'] })],
+      filterGroups: [],
+      applyFilters,
+      applyExpression: vi.fn().mockResolvedValue(null)
+    });
+
+    render(<DidYouMeanBanner />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'login success' }));
+
+    await waitFor(() => expect(applyFilters).toHaveBeenCalledTimes(1));
+    expect(applyFilters.mock.calls[0]![0][0]).toMatchObject({
+      value: ['logout', 'login success'],
+      rawValue: 'logout\nlogin success'
+    });
+  });
+
   it('does not render without any suggestions', () => {
     vi.mocked(useFilterSync).mockReturnValue({
       filters: [createFilter()],
-      applyFilters: vi.fn().mockResolvedValue(undefined)
+      filterGroups: [],
+      applyFilters: vi.fn().mockResolvedValue(undefined),
+      applyExpression: vi.fn().mockResolvedValue(null)
     });
     useDataStore.setState((state) => ({
       ...state,
@@ -16,11 +16,29 @@ const filterMatchesContext = (filter: FilterState, didYouMean: DidYouMeanInfo):
   if (filter.enabled === false) {
     return false;
   }
-  return (
-    filter.column === didYouMean.column &&
-    filter.operator === didYouMean.operator &&
-    normaliseValue(filter.value) === didYouMean.query
+  if (filter.column !== didYouMean.column || filter.operator !== didYouMean.operator) {
+    return false;
+  }
+  if (Array.isArray(filter.value)) {
+    return filter.value.some((value) => normaliseValue(value) === didYouMean.query);
+  }
+  return normaliseValue(filter.value) === didYouMean.query;
+};
+
+/** Swaps the misspelt value, or just the misspelt entry of an `in` list. */
+const replaceQueryValue = (
+  filter: FilterState,
+  didYouMean: DidYouMeanInfo,
+  suggestion: string
+): FilterState => {
+  if (!Array.isArray(filter.value)) {
+    return { ...filter, value: suggestion, enabled: true };
+  }
+
+  const values = filter.value.map((value) =>
+    normaliseValue(value) === didYouMean.query ? suggestion : value
   );
+  return { ...filter, value: values, rawValue: values.join('\n'), enabled: true };
 };
 
 export const DidYouMeanBanner = (): JSX.Element | null => {
@@ -46,11 +64,7 @@ export const DidYouMeanBanner = (): JSX.Element | null => {
           return filter;
         }
 
-        return {
-          ...filter,
-          value: suggestion,
-          enabled: true
-        };
+        return replaceQueryValue(filter, didYouMean, suggestion);
       });
 
       void applyFilters(nextFilters);
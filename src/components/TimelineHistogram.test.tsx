@@ -0,0 +1,107 @@
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import TimelineHistogram from './TimelineHistogram';
+
+const mockApplyFilter = vi.fn();
+const mockGetTimelineHistogram = vi.fn();
+
+vi.mock('@workers/dataWorkerProxy', () => ({
+  getDataWorker: () => ({
+    applyFilter: mockApplyFilter,
+    getTimelineHistogram: mockGetTimelineHistogram
+  })
+}));
+
+const HOUR = 3_600_000;
+const START = Date.UTC(2024, 0, 1);
+
+describe('TimelineHistogram', () => {
+  beforeEach(() => {
+    useSessionStore.getState().clear();
+    useDataStore.getState().reset();
+    useDataStore.setState((state) => ({
+      ...state,
+      status: 'ready',
+      totalRows: 10,
+      matchedRows: 10,
+      columns: [
+        { key: 'ts', headerName: 'Timestamp', type: 'datetime', confidence: 1, examples: [] },
+        { key: 'host', headerName: 'Host', type: 'string', confidence: 1, examples: [] }
+      ]
+    }));
+    mockApplyFilter.mockResolvedValue({ matchedRows: 3, totalRows: 10 });
+    mockGetTimelineHistogram.mockResolvedValue({
+      column: 'ts',
+      start: START,
+      end: START + 4 * HOUR,
+      bucketSizeMs: HOUR,
+      counts: [4, 0, 3, 3],
+      countedRows: 10,
+      nullRows: 0,
+      outOfRangeRows: 0
+    });
+    vi.spyOn(SVGElement.prototype, 'getBoundingClientRect').mockReturnValue({
+      left: 0,
+      width: 400,
+      top: 0,
+      height: 80,
+      right: 400,
+      bottom: 80,
+      x: 0,
+      y: 0,
+      toJSON: () => ({})
+    } as DOMRect);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    mockApplyFilter.mockReset();
+    mockGetTimelineHistogram.mockReset();
+  });
+
+  it('requests buckets for the first datetime column', async () => {
+    render(<TimelineHistogram />);
+
+    await waitFor(() => expect(screen.getAllByTestId('timeline-bucket')).toHaveLength(3));
+    expect(mockGetTimelineHistogram).toHaveBeenCalledWith(
+      expect.objectContaining({ column: 'ts', start: undefined, end: undefined })
+    );
+    expect(screen.getByText(/1h buckets/)).toBeInTheDocument();
+  });
+
+  it('turns a brush selection into a between filter and zooms into it', async () => {
+    render(<TimelineHistogram />);
+    await waitFor(() => expect(screen.getAllByTestId('timeline-bucket')).toHaveLength(3));
+
+    const chart = screen.getByRole('img', { name: /event density/i });
+    fireEvent.mouseDown(chart, { clientX: 210 });
+    fireEvent.mouseMove(chart, { clientX: 390 });
+    await act(async () => {
+      fireEvent.mouseUp(chart, { clientX: 390 });
+    });
+
+    const filters = useSessionStore.getState().filters;
+    expect(filters).toHaveLength(1);
+    expect(filters[0]).toMatchObject({
+      column: 'ts',
+      operator: 'between',
+      value: START + 2 * HOUR,
+      value2: START + 4 * HOUR - 1
+    });
+    expect(mockApplyFilter).toHaveBeenCalled();
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Zoom to selection' }));
+    });
+
+    await waitFor(() =>
+      expect(mockGetTimelineHistogram).toHaveBeenLastCalledWith(
+        expect.objectContaining({ start: START + 2 * HOUR, end: START + 4 * HOUR - 1 })
+      )
+    );
+    expect(screen.getByRole('button', { name: 'Zoom out' })).toBeEnabled();
+  });
+});
@@ -0,0 +1,336 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { MouseEvent as ReactMouseEvent } from 'react';
+
+import { useDataStore } from '@state/dataStore';
+import type { FilterState } from '@state/sessionStore';
+import { useSessionStore } from '@state/sessionStore';
+import { getDataWorker, type TimelineHistogramResult } from '@workers/dataWorkerProxy';
+import { formatDatetimeInZone } from '@workers/utils/timezone';
+import { useFilterSync } from '@/hooks/useFilterSync';
+
+const TARGET_BUCKETS = 120;
+
+interface TimelineWindow {
+  start: number;
+  end: number;
+}
+
+interface BrushState {
+  anchor: number;
+  current: number;
+}
+
+const BUCKET_LABELS: Array<[number, string]> = [
+  [365 * 86_400_000, 'y'],
+  [86_400_000, 'd'],
+  [3_600_000, 'h'],
+  [60_000, 'm'],
+  [1_000, 's']
+];
+
+const formatBucketSize = (sizeMs: number): string => {
+  for (const [unit, suffix] of BUCKET_LABELS) {
+    if (sizeMs >= unit && sizeMs % unit === 0) {
+      return `${sizeMs / unit}${suffix}`;
+    }
+  }
+  return `${sizeMs}ms`;
+};
+
+const findBetweenFilter = (filters: FilterState[], column: string): FilterState | undefined =>
+  filters.find((filter) => filter.column === column && filter.operator === 'between');
+
+const toWindow = (filter: FilterState | undefined): TimelineWindow | null => {
+  if (!filter || filter.enabled === false) {
+    return null;
+  }
+
+  const { value, value2 } = filter;
+  if (typeof value !== 'number' || typeof value2 !== 'number' || value2 < value) {
+    return null;
+  }
+
+  return { start: value, end: value2 };
+};
+
+const TimelineHistogram = (): JSX.Element => {
+  const columns = useDataStore((state) => state.columns);
+  const status = useDataStore((state) => state.status);
+  const viewVersion = useDataStore((state) => state.viewVersion);
+  const displayTimeZone = useSessionStore((state) => state.displayTimeZone);
+  const { filters, applyFilters } = useFilterSync();
+  const datetimeColumns = useMemo(
+    () => columns.filter((column) => column.type === 'datetime'),
+    [columns]
+  );
+  const [selectedColumn, setSelectedColumn] = useState<string | null>(null);
+  const activeColumn =
+    selectedColumn && datetimeColumns.some((column) => column.key === selectedColumn)
+      ? selectedColumn
+      : (datetimeColumns[0]?.key ?? null);
+  const [zoomStack, setZoomStack] = useState<TimelineWindow[]>([]);
+  const zoom = zoomStack[zoomStack.length - 1] ?? null;
+  const [histogram, setHistogram] = useState<TimelineHistogramResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [brush, setBrush] = useState<BrushState | null>(null);
+  const requestIdRef = useRef(0);
+  const chartRef = useRef<SVGSVGElement | null>(null);
+
+  useEffect(() => {
+    setZoomStack([]);
+  }, [activeColumn]);
+
+  useEffect(() => {
+    if (status !== 'ready' || !activeColumn) {
+      setHistogram(null);
+      return;
+    }
+
+    const requestId = requestIdRef.current + 1;
+    requestIdRef.current = requestId;
+    setLoading(true);
+
+    getDataWorker()
+      .getTimelineHistogram({
+        column: activeColumn,
+        start: zoom?.start,
+        end: zoom?.end,
+        targetBuckets: TARGET_BUCKETS
+      })
+      .then((result) => {
+        if (requestId === requestIdRef.current) {
+          setHistogram(result);
+          setError(null);
+        }
+      })
+      .catch((reason: unknown) => {
+        if (requestId === requestIdRef.current) {
+          setError(reason instanceof Error ? reason.message : 'Failed to build timeline');
+        }
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+        }
+      });
+  }, [activeColumn, status, viewVersion, zoom]);
+
+  const counts = histogram?.counts ?? [];
+  const maxCount = counts.reduce((max, count) => Math.max(max, count), 0);
+  const activeFilter = activeColumn ? findBetweenFilter(filters, activeColumn) : undefined;
+  const filterWindow = toWindow(activeFilter);
+
+  const bucketAt = useCallback(
+    (clientX: number): number | null => {
+      const chart = chartRef.current;
+      if (!chart || counts.length === 0) {
+        return null;
+      }
+
+      const rect = chart.getBoundingClientRect();
+      if (rect.width <= 0) {
+        return null;
+      }
+
+      const ratio = (clientX - rect.left) / rect.width;
+      return Math.min(counts.length - 1, Math.max(0, Math.floor(ratio * counts.length)));
+    },
+    [counts.length]
+  );
+
+  const handleMouseDown = (event: ReactMouseEvent<SVGSVGElement>) => {
+    const index = bucketAt(event.clientX);
+    if (index != null) {
+      setBrush({ anchor: index, current: index });
+    }
+  };
+
+  const handleMouseMove = (event: ReactMouseEvent<SVGSVGElement>) => {
+    if (!brush) {
+      return;
+    }
+
+    const index = bucketAt(event.clientX);
+    if (index != null && index !== brush.current) {
+      setBrush({ ...brush, current: index });
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (!brush || !histogram || !activeColumn) {
+      setBrush(null);
+      return;
+    }
+
+    const low = Math.min(brush.anchor, brush.current);
+    const high = Math.max(brush.anchor, brush.current);
+    setBrush(null);
+
+    // `between` is inclusive, so stop one millisecond before the next bucket.
+    const value = histogram.start + low * histogram.bucketSizeMs;
+    const value2 = histogram.start + (high + 1) * histogram.bucketSizeMs - 1;
+
+    const nextFilters = activeFilter
+      ? filters.map((filter) =>
+          filter.id === activeFilter.id
+            ? {
+                ...filter,
+                value,
+                value2,
+                rawValue: undefined,
+                rawValue2: undefined,
+                enabled: true
+              }
+            : filter
+        )
+      : [
+          ...filters,
+          {
+            id: crypto.randomUUID(),
+            column: activeColumn,
+            operator: 'between',
+            value,
+            value2,
+            enabled: true
+          }
+        ];
+
+    void applyFilters(nextFilters);
+  };
+
+  const handleZoomToSelection = () => {
+    if (filterWindow) {
+      setZoomStack((stack) => [...stack, filterWindow]);
+    }
+  };
+
+  const handleZoomOut = () => {
+    setZoomStack((stack) => stack.slice(0, -1));
+  };
+
+  const isBucketSelected = (index: number): boolean => {
+    if (brush) {
+      return (
+        index >= Math.min(brush.anchor, brush.current) &&
+        index <= Math.max(brush.anchor, brush.current)
+      );
+    }
+
+    if (!filterWindow || !histogram) {
+      return false;
+    }
+
+    const bucketStart = histogram.start + index * histogram.bucketSizeMs;
+    const bucketEnd = bucketStart + histogram.bucketSizeMs - 1;
+    return bucketEnd >= filterWindow.start && bucketStart <= filterWindow.end;
+  };
+
+  if (!datetimeColumns.length) {
+    return (
+      <div className="mb-2 rounded border border-slate-800 px-3 py-2 text-xs text-slate-500">
+        No datetime columns to plot.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-2 flex flex-col gap-2 rounded border border-slate-800 px-3 py-2 text-xs text-slate-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2">
+          <span className="text-slate-400">Timeline</span>
+          <select
+            aria-label="Timeline column"
+            className="rounded border border-slate-600 bg-slate-950 px-2 py-1"
+            value={activeColumn ?? ''}
+            onChange={(event) => setSelectedColumn(event.target.value)}
+          >
+            {datetimeColumns.map((column) => (
+              <option key={column.key} value={column.key}>
+                {column.headerName}
+              </option>
+            ))}
+          </select>
+        </label>
+        {histogram && histogram.bucketSizeMs > 0 && (
+          <span className="text-slate-500">
+            {formatBucketSize(histogram.bucketSizeMs)} buckets •{' '}
+            {histogram.countedRows.toLocaleString()} rows
+            {histogram.nullRows > 0 && ` • ${histogram.nullRows.toLocaleString()} without time`}
+          </span>
+        )}
+        {loading && <span className="text-slate-500">Updating…</span>}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-2 py-1 hover:bg-slate-800 disabled:opacity-50"
+            onClick={handleZoomToSelection}
+            disabled={!filterWindow}
+          >
+            Zoom to selection
+          </button>
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-2 py-1 hover:bg-slate-800 disabled:opacity-50"
+            onClick={handleZoomOut}
+            disabled={zoomStack.length === 0}
+          >
+            Zoom out
+          </button>
+        </div>
+      </div>
+      {error ? (
+        <p className="text-rose-300">{error}</p>
+      ) : (
+        <>
+          <svg
+            ref={chartRef}
+            role="img"
+            aria-label="Event density over time"
+            className="h-20 w-full cursor-crosshair select-none"
+            viewBox={`0 0 ${Math.max(1, counts.length)} 100`}
+            preserveAspectRatio="none"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => setBrush(null)}
+          >
+            <rect x={0} y={0} width={Math.max(1, counts.length)} height={100} fill="transparent" />
+            {histogram &&
+              counts.map((count, index) => {
+                if (count === 0) {
+                  return null;
+                }
+
+                const height = maxCount > 0 ? Math.max(2, (count / maxCount) * 100) : 0;
+                const bucketStart = histogram.start + index * histogram.bucketSizeMs;
+                return (
+                  <rect
+                    key={index}
+                    data-testid="timeline-bucket"
+                    x={index + 0.05}
+                    y={100 - height}
+                    width={0.9}
+                    height={height}
+                    className={isBucketSelected(index) ? 'fill-accent' : 'fill-slate-500'}
+                  >
+                    <title>
+                      {`${formatDatetimeInZone(bucketStart, displayTimeZone)} — ${count.toLocaleString()}`}
+                    </title>
+                  </rect>
+                );
+              })}
+          </svg>
+          {histogram && histogram.bucketSizeMs > 0 && (
+            <div className="flex justify-between text-[10px] text-slate-500">
+              <span>{formatDatetimeInZone(histogram.start, displayTimeZone)}</span>
+              <span>{formatDatetimeInZone(histogram.end, displayTimeZone)}</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimelineHistogram;
@@ -0,0 +1,46 @@
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { ArchiveEntry } from '@workers/dataWorkerProxy';
+import ArchiveEntryPicker from './ArchiveEntryPicker';
+
+const ENTRIES: ArchiveEntry[] = [
+  { path: 'EventLogs/logons.csv', size: 2048, compressedSize: 512, readable: true },
+  { path: 'procs.jsonl.gz', size: 100, compressedSize: 100, readable: true },
+  { path: 'README.txt', size: 10, compressedSize: 10, readable: true },
+  { path: 'secret.csv', size: 10, compressedSize: 10, readable: false }
+];
+
+describe('ArchiveEntryPicker', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('preselects loadable entries and reports the chosen paths', () => {
+    const onLoad = vi.fn();
+    render(
+      <ArchiveEntryPicker
+        archiveName="triage.zip"
+        entries={ENTRIES}
+        onLoad={onLoad}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText(/secret\.csv/)).toBeDisabled();
+    expect(screen.getByLabelText(/README\.txt/)).not.toBeChecked();
+
+    fireEvent.click(screen.getByLabelText(/procs\.jsonl\.gz/));
+    fireEvent.click(screen.getByRole('button', { name: 'Load entry' }));
+
+    expect(onLoad).toHaveBeenCalledWith(['EventLogs/logons.csv']);
+  });
+
+  it('renders nothing without an archive', () => {
+    const { container } = render(
+      <ArchiveEntryPicker archiveName={null} entries={[]} onLoad={vi.fn()} onCancel={vi.fn()} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+
+import { formatBytes } from '@utils/formatBytes';
+import type { ArchiveEntry } from '@workers/dataWorkerProxy';
+import { isIngestibleFileName } from '@workers/utils/caseSources';
+
+interface ArchiveEntryPickerProps {
+  /** Name of the archive being opened; the picker is hidden while null. */
+  archiveName: string | null;
+  entries: ArchiveEntry[];
+  onLoad: (paths: string[]) => void;
+  onCancel: () => void;
+}
+
+const ArchiveEntryPicker = ({
+  archiveName,
+  entries,
+  onLoad,
+  onCancel
+}: ArchiveEntryPickerProps): JSX.Element | null => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSelected(
+      entries
+        .filter((entry) => entry.readable && isIngestibleFileName(entry.path))
+        .map((entry) => entry.path)
+    );
+  }, [entries]);
+
+  if (archiveName == null) {
+    return null;
+  }
+
+  const toggleEntry = (path: string, checked: boolean) => {
+    setSelected((current) =>
+      checked ? [...current, path] : current.filter((candidate) => candidate !== path)
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[80vh] w-full max-w-2xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Open {archiveName}</h2>
+          <button
+            type="button"
+            className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-800"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+        </header>
+        <div className="flex flex-1 flex-col gap-2 overflow-auto px-4 py-3 text-xs text-slate-200">
+          <p className="text-slate-400">
+            Entries are read straight from the archive. Choosing several loads them as one
+            dataset with a <code>__source</code> column.
+          </p>
+          {entries.length === 0 ? (
+            <p className="text-slate-500">The archive has no files.</p>
+          ) : (
+            <ul className="flex flex-col gap-1">
+              {entries.map((entry) => (
+                <li key={entry.path}>
+                  <label
+                    className={`flex items-center gap-2 ${entry.readable ? '' : 'text-slate-500'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(entry.path)}
+                      disabled={!entry.readable}
+                      onChange={(event) => toggleEntry(entry.path, event.target.checked)}
+                    />
+                    <span className="flex-1 break-all font-mono">{entry.path}</span>
+                    <span className="text-slate-400">
+                      {entry.readable ? formatBytes(entry.size) : 'unsupported'}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <footer className="flex items-center justify-end gap-2 border-t border-slate-800 px-4 py-3 text-xs">
+          <button
+            type="button"
+            className="rounded bg-accent px-3 py-1 font-semibold text-slate-900 disabled:opacity-40"
+            onClick={() => onLoad(selected)}
+            disabled={selected.length === 0}
+          >
+            {selected.length > 1 ? `Load ${selected.length} entries` : 'Load entry'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveEntryPicker;
@@ -0,0 +1,106 @@
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { GridColumn } from '@state/dataStore';
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import DerivedColumnsPanel from './DerivedColumnsPanel';
+
+const mockSetDerivedColumns = vi.fn();
+const mockApplySorts = vi.fn();
+
+vi.mock('@workers/dataWorkerProxy', () => {
+  return {
+    getDataWorker: () => ({
+      setDerivedColumns: mockSetDerivedColumns,
+      applySorts: mockApplySorts
+    })
+  };
+});
+
+const columns: GridColumn[] = [
+  { key: 'User', headerName: 'User', type: 'string', confidence: 1, examples: [] },
+  { key: 'Bytes', headerName: 'Bytes', type: 'number', confidence: 1, examples: [] }
+];
+
+const fillRow = (index: number, name: string, expression: string) => {
+  fireEvent.change(screen.getByLabelText(`Column ${index} name`), { target: { value: name } });
+  fireEvent.change(screen.getByLabelText(`Column ${index} expression`), {
+    target: { value: expression }
+  });
+};
+
+describe('DerivedColumnsPanel', () => {
+  beforeEach(() => {
+    mockSetDerivedColumns.mockReset();
+    mockApplySorts.mockReset();
+    useSessionStore.getState().clear();
+    useDataStore.getState().reset();
+    useDataStore.setState((state) => ({
+      ...state,
+      columns,
+      status: 'ready',
+      totalRows: 10,
+      matchedRows: 10
+    }));
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('applies the definitions, reports each result and re-runs the sorts', async () => {
+    mockSetDerivedColumns.mockResolvedValue([
+      { name: 'user', type: 'string' },
+      { name: 'kb', error: 'Unknown column "Bites" at position 1.' }
+    ]);
+    mockApplySorts.mockResolvedValue({
+      rows: [],
+      totalRows: 10,
+      matchedRows: 10,
+      sorts: [{ column: 'user', direction: 'asc' }]
+    });
+    useSessionStore.getState().setSorts([{ column: 'user', direction: 'asc' }]);
+    render(<DerivedColumnsPanel open onClose={() => undefined} />);
+
+    fillRow(1, 'user', 'lower(User)');
+    fireEvent.click(screen.getByRole('button', { name: 'Add column' }));
+    fillRow(2, 'kb', 'Bites / 1024');
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    await waitFor(() => expect(screen.getByText('Applied 1 of 2 columns.')).toBeInTheDocument());
+    const definitions = [
+      { name: 'user', expression: 'lower(User)' },
+      { name: 'kb', expression: 'Bites / 1024' }
+    ];
+    expect(mockSetDerivedColumns).toHaveBeenCalledWith(definitions);
+    expect(screen.getByText('Unknown column "Bites" at position 1.')).toBeInTheDocument();
+    expect(useSessionStore.getState().derivedColumns).toEqual(definitions);
+    expect(useDataStore.getState().columns.map((column) => column.key)).toEqual([
+      'User',
+      'Bytes',
+      'user'
+    ]);
+    expect(mockApplySorts).toHaveBeenCalledWith({
+      sorts: [{ column: 'user', direction: 'asc' }],
+      offset: 0,
+      limit: 0
+    });
+  });
+
+  it('only saves the definitions while no dataset is loaded', async () => {
+    useDataStore.getState().reset();
+    render(<DerivedColumnsPanel open onClose={() => undefined} />);
+
+    fillRow(1, 'user', 'lower(User)');
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(
+      await screen.findByText('Saved; the columns are computed when the next file loads.')
+    ).toBeInTheDocument();
+    expect(mockSetDerivedColumns).not.toHaveBeenCalled();
+    expect(useSessionStore.getState().derivedColumns).toEqual([
+      { name: 'user', expression: 'lower(User)' }
+    ]);
+  });
+});
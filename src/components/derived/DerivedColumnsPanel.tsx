@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+
+import { useSessionStore } from '@state/sessionStore';
+import { useDerivedColumns } from '@/hooks/useDerivedColumns';
+import type { DerivedColumnDefinition } from '@workers/types';
+import type { DerivedColumnStatus } from '@workers/dataWorkerProxy';
+
+interface DerivedColumnsPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const EXAMPLES = [
+  'lower(User)',
+  "split(Path, '\\\\')[-1]",
+  'Bytes / 1024',
+  "concat(Src, ':', Port)"
+];
+
+const emptyDefinition = (): DerivedColumnDefinition => ({ name: '', expression: '' });
+
+const DerivedColumnsPanel = ({ open, onClose }: DerivedColumnsPanelProps): JSX.Element | null => {
+  const { derivedColumns: saved, applyDerivedColumns } = useDerivedColumns();
+  const [drafts, setDrafts] = useState<DerivedColumnDefinition[]>([]);
+  const [statuses, setStatuses] = useState<DerivedColumnStatus[]>([]);
+  const [applying, setApplying] = useState(false);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      const current = useSessionStore.getState().derivedColumns;
+      setDrafts(current.length ? current : [emptyDefinition()]);
+      setStatuses([]);
+      setFeedback(null);
+      setApplyError(null);
+    }
+  }, [open]);
+
+  if (!open) {
+    return null;
+  }
+
+  const updateDraft = (index: number, patch: Partial<DerivedColumnDefinition>) => {
+    setDrafts((current) =>
+      current.map((draft, candidate) => (candidate === index ? { ...draft, ...patch } : draft))
+    );
+    setStatuses([]);
+  };
+
+  const removeDraft = (index: number) => {
+    setDrafts((current) => current.filter((_, candidate) => candidate !== index));
+    setStatuses([]);
+  };
+
+  const handleApply = async () => {
+    const definitions = drafts
+      .map(({ name, expression }) => ({ name: name.trim(), expression: expression.trim() }))
+      .filter(({ name, expression }) => name || expression);
+
+    setFeedback(null);
+    setApplyError(null);
+    setDrafts(definitions.length ? definitions : [emptyDefinition()]);
+    setApplying(true);
+    try {
+      const result = await applyDerivedColumns(definitions);
+      setStatuses(result ?? []);
+      if (!result) {
+        setFeedback('Saved; the columns are computed when the next file loads.');
+        return;
+      }
+
+      const rejected = result.filter((status) => status.error).length;
+      setFeedback(
+        rejected
+          ? `Applied ${result.length - rejected} of ${result.length} columns.`
+          : `Applied ${result.length} column${result.length === 1 ? '' : 's'}.`
+      );
+    } catch (error) {
+      setApplyError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const statusFor = (name: string): DerivedColumnStatus | undefined =>
+    statuses.find((status) => status.name === name.trim());
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Derived columns</h2>
+          <button
+            type="button"
+            className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-800"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </header>
+        <div className="flex flex-1 flex-col gap-3 overflow-auto px-4 py-3 text-xs text-slate-200">
+          <p className="text-slate-400">
+            Each column is computed from the others when rows are read, e.g.{' '}
+            {EXAMPLES.map((example, index) => (
+              <span key={example}>
+                {index > 0 && ', '}
+                <code className="font-mono text-slate-300">{example}</code>
+              </span>
+            ))}
+            . Quote names with spaces in backticks. Later columns may use earlier ones.
+          </p>
+          <ul className="flex flex-col gap-2">
+            {drafts.map((draft, index) => {
+              const status = statusFor(draft.name);
+              return (
+                <li key={index} className="flex flex-col gap-1">
+                  <div className="flex items-center gap-2">
+                    <input
+                      aria-label={`Column ${index + 1} name`}
+                      placeholder="Name"
+                      className="w-40 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+                      value={draft.name}
+                      onChange={(event) => updateDraft(index, { name: event.target.value })}
+                    />
+                    <input
+                      aria-label={`Column ${index + 1} expression`}
+                      placeholder="Expression"
+                      spellCheck={false}
+                      className="flex-1 rounded border border-slate-700 bg-slate-950 px-2 py-1 font-mono"
+                      value={draft.expression}
+                      onChange={(event) => updateDraft(index, { expression: event.target.value })}
+                    />
+                    <button
+                      type="button"
+                      aria-label={`Remove column ${index + 1}`}
+                      className="rounded border border-slate-700 px-2 py-1 text-slate-300 hover:bg-slate-800"
+                      onClick={() => removeDraft(index)}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {status?.type && <p className="text-emerald-300">{status.type}</p>}
+                  {status?.error && <p className="text-rose-300">{status.error}</p>}
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex items-center justify-between gap-2">
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800"
+              onClick={() => setDrafts((current) => [...current, emptyDefinition()])}
+            >
+              Add column
+            </button>
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+              onClick={() => void handleApply()}
+              disabled={applying || (drafts.length === 0 && saved.length === 0)}
+            >
+              {applying ? 'Applying…' : 'Apply'}
+            </button>
+          </div>
+          {feedback && <p className="text-emerald-300">{feedback}</p>}
+          {applyError && <p className="text-rose-300">{applyError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DerivedColumnsPanel;
@@ -0,0 +1,96 @@
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import FieldTransformDialog from './FieldTransformDialog';
+
+const mockDiscoverFieldKeys = vi.fn();
+const mockSetDerivedColumns = vi.fn();
+
+vi.mock('@workers/dataWorkerProxy', () => {
+  return {
+    getDataWorker: () => ({
+      discoverFieldKeys: mockDiscoverFieldKeys,
+      setDerivedColumns: mockSetDerivedColumns
+    })
+  };
+});
+
+describe('FieldTransformDialog', () => {
+  beforeEach(() => {
+    mockDiscoverFieldKeys.mockReset();
+    mockSetDerivedColumns.mockReset();
+    mockDiscoverFieldKeys.mockImplementation(async ({ column, mode }) => ({
+      column,
+      sampledRows: 40,
+      keys:
+        mode === 'json'
+          ? [{ key: 'proc.pid', count: 12, example: '4' }]
+          : [
+              { key: 'User', count: 40, example: 'CORP\\bob' },
+              { key: 'LogonType', count: 31, example: '3' }
+            ]
+    }));
+    mockSetDerivedColumns.mockImplementation(async (definitions: { name: string }[]) =>
+      definitions.map(({ name }) => ({ name, type: 'string' }))
+    );
+    useSessionStore.getState().clear();
+    useDataStore.getState().reset();
+    useDataStore.setState((state) => ({ ...state, status: 'ready', totalRows: 40 }));
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('discovers keys and adds the chosen ones as derived columns', async () => {
+    const onClose = vi.fn();
+    render(<FieldTransformDialog column="PayloadData" onClose={onClose} />);
+
+    expect(await screen.findByText('Found 2 keys in 40 sampled rows.')).toBeInTheDocument();
+    expect(mockDiscoverFieldKeys).toHaveBeenCalledWith({
+      column: 'PayloadData',
+      mode: 'keyValue',
+      delimiter: ',',
+      pairSeparator: ';',
+      keyValueSeparator: '='
+    });
+    expect(screen.getByText('CORP\\bob')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Pair separator'), { target: { value: ', ' } });
+    fireEvent.change(screen.getByLabelText('Key/value separator'), { target: { value: ': ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Discover keys' }));
+    await waitFor(() => expect(mockDiscoverFieldKeys).toHaveBeenCalledTimes(2));
+    expect(mockDiscoverFieldKeys).toHaveBeenLastCalledWith(
+      expect.objectContaining({ pairSeparator: ', ', keyValueSeparator: ': ' })
+    );
+
+    fireEvent.click(await screen.findByLabelText('LogonType'));
+    fireEvent.click(screen.getByRole('button', { name: 'Add 1 column' }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(useSessionStore.getState().derivedColumns).toEqual([
+      {
+        name: 'PayloadData_LogonType',
+        expression: "kv(`PayloadData`, 'LogonType', ', ', ': ')"
+      }
+    ]);
+  });
+
+  it('rediscovers when the transform changes', async () => {
+    render(<FieldTransformDialog column="Doc" onClose={vi.fn()} />);
+    await screen.findByText('Found 2 keys in 40 sampled rows.');
+
+    fireEvent.change(screen.getByLabelText('Transform'), { target: { value: 'json' } });
+
+    expect(await screen.findByText('Found 1 key in 40 sampled rows.')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Select all' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Add 1 column' }));
+    await waitFor(() =>
+      expect(mockSetDerivedColumns).toHaveBeenCalledWith([
+        { name: 'Doc_proc.pid', expression: "json(`Doc`, 'proc.pid')" }
+      ])
+    );
+  });
+});
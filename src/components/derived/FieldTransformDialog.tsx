@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useDerivedColumns } from '@/hooks/useDerivedColumns';
+import { FIELD_TRANSFORM_MODES, buildFieldTransformColumns } from '@utils/fieldTransformColumns';
+import { getDataWorker, type DiscoverFieldKeysResult } from '@workers/dataWorkerProxy';
+import {
+  DEFAULT_DELIMITER,
+  DEFAULT_KEY_VALUE_SEPARATOR,
+  DEFAULT_PAIR_SEPARATOR
+} from '@workers/fieldTransforms';
+import type { FieldTransformMode, FieldTransformOptions } from '@workers/types';
+
+interface FieldTransformDialogProps {
+  /** Packed text column to split; the dialog is closed while null. */
+  column: string | null;
+  onClose: () => void;
+}
+
+const DEFAULT_OPTIONS: Required<FieldTransformOptions> = {
+  delimiter: DEFAULT_DELIMITER,
+  pairSeparator: DEFAULT_PAIR_SEPARATOR,
+  keyValueSeparator: DEFAULT_KEY_VALUE_SEPARATOR
+};
+
+const FieldTransformDialog = ({
+  column,
+  onClose
+}: FieldTransformDialogProps): JSX.Element | null => {
+  const { derivedColumns, applyDerivedColumns } = useDerivedColumns();
+  const [mode, setMode] = useState<FieldTransformMode>('keyValue');
+  const [options, setOptions] = useState(DEFAULT_OPTIONS);
+  const [prefix, setPrefix] = useState('');
+  const [discovery, setDiscovery] = useState<DiscoverFieldKeysResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [discovering, setDiscovering] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef(0);
+
+  const discover = useCallback(
+    async (target: string, nextMode: FieldTransformMode, nextOptions: FieldTransformOptions) => {
+      // Only the latest request may update the dialog.
+      const request = ++requestRef.current;
+      setDiscovering(true);
+      setError(null);
+      try {
+        const result = await getDataWorker().discoverFieldKeys({
+          column: target,
+          mode: nextMode,
+          ...nextOptions
+        });
+        if (request === requestRef.current) {
+          setDiscovery(result);
+          setSelected(new Set());
+        }
+      } catch (discoverError) {
+        if (request === requestRef.current) {
+          setDiscovery(null);
+          setError(discoverError instanceof Error ? discoverError.message : String(discoverError));
+        }
+      } finally {
+        if (request === requestRef.current) {
+          setDiscovering(false);
+        }
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (column == null) {
+      return;
+    }
+
+    setMode('keyValue');
+    setOptions(DEFAULT_OPTIONS);
+    setPrefix(`${column}_`);
+    setDiscovery(null);
+    void discover(column, 'keyValue', DEFAULT_OPTIONS);
+    return () => {
+      requestRef.current += 1;
+    };
+  }, [column, discover]);
+
+  if (column == null) {
+    return null;
+  }
+
+  const keys = discovery?.keys ?? [];
+  const chosen = keys.filter(({ key }) => selected.has(key)).map(({ key }) => key);
+
+  const handleMode = (nextMode: FieldTransformMode) => {
+    setMode(nextMode);
+    // Edited separators apply on "Discover keys"; a new transform rediscovers at once.
+    void discover(column, nextMode, options);
+  };
+
+  const toggleKey = (key: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (!next.delete(key)) {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!chosen.length || applying) {
+      return;
+    }
+
+    const columns = buildFieldTransformColumns(column, mode, options, chosen, prefix);
+    const names = new Set(columns.map((definition) => definition.name));
+    setApplying(true);
+    setError(null);
+    try {
+      const statuses = await applyDerivedColumns([
+        ...derivedColumns.filter((definition) => !names.has(definition.name)),
+        ...columns
+      ]);
+      const failure = statuses?.find((status) => names.has(status.name) && status.error);
+      if (failure) {
+        setError(`${failure.name}: ${failure.error}`);
+        return;
+      }
+      onClose();
+    } catch (applyError) {
+      setError(applyError instanceof Error ? applyError.message : String(applyError));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const optionInput = (label: string, name: keyof FieldTransformOptions) => (
+    <label className="flex items-center justify-between gap-2">
+      {label}
+      <input
+        className="w-72 rounded border border-slate-700 bg-slate-950 px-2 py-1 font-mono"
+        value={options[name]}
+        onChange={(event) => setOptions({ ...options, [name]: event.target.value })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Split {column}</h2>
+          <button
+            type="button"
+            className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-800"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </header>
+        <div className="flex flex-1 flex-col gap-3 overflow-auto px-4 py-3 text-xs text-slate-200">
+          <label className="flex items-center justify-between gap-2">
+            Transform
+            <select
+              className="w-72 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+              value={mode}
+              onChange={(event) => handleMode(event.target.value as FieldTransformMode)}
+            >
+              {FIELD_TRANSFORM_MODES.map((entry) => (
+                <option key={entry.mode} value={entry.mode}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {mode === 'delimiter' && optionInput('Delimiter', 'delimiter')}
+          {mode === 'keyValue' && (
+            <>
+              {optionInput('Pair separator', 'pairSeparator')}
+              {optionInput('Key/value separator', 'keyValueSeparator')}
+            </>
+          )}
+          {mode === 'json' && (
+            <p className="text-slate-400">
+              Nested fields are offered as dotted paths such as{' '}
+              <code className="font-mono">Event.Data.User</code>; arrays stay whole.
+            </p>
+          )}
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-slate-400">
+              {discovering
+                ? 'Sampling rows…'
+                : discovery &&
+                  `Found ${discovery.keys.length.toLocaleString()} ` +
+                    `key${discovery.keys.length === 1 ? '' : 's'} in ` +
+                    `${discovery.sampledRows.toLocaleString()} sampled rows.`}
+            </p>
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+              onClick={() => void discover(column, mode, options)}
+              disabled={discovering}
+            >
+              Discover keys
+            </button>
+          </div>
+          {keys.length > 0 && (
+            <section className="flex flex-col gap-2">
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  className="rounded border border-slate-700 px-2 py-0.5 text-slate-300 hover:bg-slate-800"
+                  onClick={() => setSelected(new Set(keys.map(({ key }) => key)))}
+                >
+                  Select all
+                </button>
+                <button
+                  type="button"
+                  className="rounded border border-slate-700 px-2 py-0.5 text-slate-300 hover:bg-slate-800"
+                  onClick={() => setSelected(new Set())}
+                >
+                  Clear
+                </button>
+              </div>
+              <div className="max-h-72 overflow-auto rounded border border-slate-800">
+                <table className="w-full text-left">
+                  <thead className="sticky top-0 bg-slate-900 text-slate-400">
+                    <tr>
+                      <th className="px-2 py-1 font-normal">Key</th>
+                      <th className="px-2 py-1 text-right font-normal">Rows</th>
+                      <th className="px-2 py-1 font-normal">Example</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {keys.map(({ key, count, example }) => (
+                      <tr key={key} className="border-t border-slate-800">
+                        <td className="px-2 py-1">
+                          <label className="flex items-center gap-2 font-mono">
+                            <input
+                              type="checkbox"
+                              checked={selected.has(key)}
+                              onChange={() => toggleKey(key)}
+                            />
+                            {key}
+                          </label>
+                        </td>
+                        <td className="px-2 py-1 text-right">{count.toLocaleString()}</td>
+                        <td className="max-w-xs truncate px-2 py-1 font-mono" title={example}>
+                          {example}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+          <label className="flex items-center justify-between gap-2">
+            Column name prefix
+            <input
+              className="w-72 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+              value={prefix}
+              onChange={(event) => setPrefix(event.target.value)}
+            />
+          </label>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+              onClick={() => void handleApply()}
+              disabled={!chosen.length || applying}
+            >
+              {applying
+                ? 'Adding…'
+                : `Add ${chosen.length} column${chosen.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+          {error && <p className="text-rose-300">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FieldTransformDialog;
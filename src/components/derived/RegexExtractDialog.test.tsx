@@ -0,0 +1,91 @@
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import RegexExtractDialog from './RegexExtractDialog';
+
+const mockFetchRows = vi.fn();
+const mockSetDerivedColumns = vi.fn();
+
+vi.mock('@workers/dataWorkerProxy', () => {
+  return {
+    getDataWorker: () => ({
+      fetchRows: mockFetchRows,
+      setDerivedColumns: mockSetDerivedColumns
+    })
+  };
+});
+
+const ROWS = [
+  { __rowId: 0, CommandLine: 'net use \\\\10.1.2.3\\c$ /user:CORP\\alice' },
+  { __rowId: 1, CommandLine: 'whoami' },
+  { __rowId: 2, CommandLine: 'ping 192.168.0.7' }
+];
+
+describe('RegexExtractDialog', () => {
+  beforeEach(() => {
+    mockFetchRows.mockReset();
+    mockSetDerivedColumns.mockReset();
+    mockFetchRows.mockResolvedValue({ rows: ROWS, totalRows: 3, matchedRows: 3 });
+    useSessionStore.getState().clear();
+    useSessionStore
+      .getState()
+      .setDerivedColumns([{ name: 'cmd', expression: 'lower(CommandLine)' }]);
+    useDataStore.getState().reset();
+    useDataStore.setState((state) => ({ ...state, status: 'ready', totalRows: 3 }));
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('previews a preset on sample rows and adds its groups as derived columns', async () => {
+    const onClose = vi.fn();
+    mockSetDerivedColumns.mockImplementation(async (definitions: { name: string }[]) =>
+      definitions.map(({ name }) => ({ name, type: 'string' }))
+    );
+    render(<RegexExtractDialog column="CommandLine" onClose={onClose} />);
+
+    expect(await screen.findByText('2 of 3 sample rows match.')).toBeInTheDocument();
+    expect(screen.getByText('10.1.2.3')).toBeInTheDocument();
+    expect(screen.getByText('192.168.0.7')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add 1 column' }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    const definitions = useSessionStore.getState().derivedColumns;
+    expect(definitions.map((definition) => definition.name)).toEqual([
+      'cmd',
+      'CommandLine_ipv4'
+    ]);
+    expect(definitions[1]!.expression).toMatch(/^extract\(`CommandLine`, '.+', 'ipv4'\)$/);
+    expect(mockSetDerivedColumns).toHaveBeenCalledWith(definitions);
+  });
+
+  it('reports invalid custom patterns and keeps the dialog open on worker errors', async () => {
+    mockSetDerivedColumns.mockResolvedValue([
+      { name: 'cmd', type: 'string' },
+      { name: 'CommandLine_user', error: 'A column named "CommandLine_user" already exists.' }
+    ]);
+    const onClose = vi.fn();
+    render(<RegexExtractDialog column="CommandLine" onClose={onClose} />);
+    await screen.findByText(/sample rows match/);
+
+    const pattern = screen.getByLabelText('Pattern');
+    fireEvent.change(pattern, { target: { value: '(?<user' } });
+    expect(screen.getByText(/Invalid regular expression/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Add 0 columns' })).toBeDisabled();
+
+    fireEvent.change(pattern, { target: { value: '/user:(?:\\w+\\\\)?(?<user>\\w+)' } });
+    expect(screen.getByText('alice')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Add 1 column' }));
+
+    expect(
+      await screen.findByText(
+        'CommandLine_user: A column named "CommandLine_user" already exists.'
+      )
+    ).toBeInTheDocument();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import { useDerivedColumns } from '@/hooks/useDerivedColumns';
+import {
+  REGEX_EXTRACT_PRESETS,
+  buildRegexExtractColumns,
+  previewRegexExtract
+} from '@utils/regexExtract';
+import { getDataWorker } from '@workers/dataWorkerProxy';
+import type { DerivedColumnDefinition } from '@workers/types';
+
+interface RegexExtractDialogProps {
+  /** Text column to extract from; the dialog is closed while null. */
+  column: string | null;
+  onClose: () => void;
+}
+
+const SAMPLE_ROWS = 200;
+const PREVIEW_ROWS = 8;
+
+interface PreviewRow {
+  value: string;
+  matches: Record<string, string | null>;
+}
+
+type Preview =
+  | { columns: DerivedColumnDefinition[]; rows: PreviewRow[]; matchedCount: number }
+  | { error: string };
+
+const buildPreview = (
+  column: string,
+  pattern: string,
+  prefix: string,
+  samples: string[]
+): Preview => {
+  try {
+    const columns = buildRegexExtractColumns(column, pattern, prefix);
+    const results = previewRegexExtract(column, columns, samples);
+    const rows = samples.map((value, index) => ({ value, matches: results[index]! }));
+    const hits = rows.filter((row) => Object.values(row.matches).some((match) => match != null));
+    const misses = rows.filter((row) => !hits.includes(row));
+    // Matching samples first, so a sparse pattern still shows what it finds.
+    return {
+      columns,
+      rows: [...hits, ...misses].slice(0, PREVIEW_ROWS),
+      matchedCount: hits.length
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const RegexExtractDialog = ({ column, onClose }: RegexExtractDialogProps): JSX.Element | null => {
+  const { derivedColumns, applyDerivedColumns } = useDerivedColumns();
+  const [presetName, setPresetName] = useState(REGEX_EXTRACT_PRESETS[0]!.name);
+  const [pattern, setPattern] = useState(REGEX_EXTRACT_PRESETS[0]!.pattern);
+  const [prefix, setPrefix] = useState('');
+  const [samples, setSamples] = useState<string[]>([]);
+  const [applying, setApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (column == null) {
+      return;
+    }
+
+    let cancelled = false;
+    setPrefix(`${column}_`);
+    setApplyError(null);
+    setSamples([]);
+    void getDataWorker()
+      .fetchRows({ offset: 0, limit: SAMPLE_ROWS })
+      .then(({ rows }) => {
+        if (!cancelled) {
+          setSamples(
+            rows
+              .map((row) => row[column])
+              .filter((value): value is string => typeof value === 'string' && value !== '')
+          );
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setApplyError(error instanceof Error ? error.message : String(error));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [column]);
+
+  const preview = useMemo(
+    () => (column == null || !pattern ? null : buildPreview(column, pattern, prefix, samples)),
+    [column, pattern, prefix, samples]
+  );
+
+  if (column == null) {
+    return null;
+  }
+
+  const ready = preview != null && !('error' in preview) ? preview : null;
+  const columnCount = ready?.columns.length ?? 0;
+
+  const handlePreset = (name: string) => {
+    setPresetName(name);
+    const preset = REGEX_EXTRACT_PRESETS.find((candidate) => candidate.name === name);
+    if (preset) {
+      setPattern(preset.pattern);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!ready || applying) {
+      return;
+    }
+
+    const names = new Set(ready.columns.map((definition) => definition.name));
+    setApplying(true);
+    setApplyError(null);
+    try {
+      const statuses = await applyDerivedColumns([
+        ...derivedColumns.filter((definition) => !names.has(definition.name)),
+        ...ready.columns
+      ]);
+      const failure = statuses?.find((status) => names.has(status.name) && status.error);
+      if (failure) {
+        setApplyError(`${failure.name}: ${failure.error}`);
+        return;
+      }
+      onClose();
+    } catch (error) {
+      setApplyError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Extract from {column}</h2>
+          <button
+            type="button"
+            className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-800"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </header>
+        <div className="flex flex-1 flex-col gap-3 overflow-auto px-4 py-3 text-xs text-slate-200">
+          <label className="flex items-center justify-between gap-2">
+            Preset
+            <select
+              className="w-72 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+              value={presetName}
+              onChange={(event) => handlePreset(event.target.value)}
+            >
+              {REGEX_EXTRACT_PRESETS.map((preset) => (
+                <option key={preset.name} value={preset.name}>
+                  {preset.name}
+                </option>
+              ))}
+              <option value="">Custom</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Pattern
+            <textarea
+              value={pattern}
+              spellCheck={false}
+              className="min-h-[4rem] rounded border border-slate-700 bg-slate-950 px-2 py-1 font-mono"
+              onChange={(event) => {
+                setPattern(event.target.value);
+                setPresetName('');
+              }}
+            />
+          </label>
+          <p className="text-slate-400">
+            Each named group such as <code className="font-mono">{'(?<user>\\w+)'}</code> becomes a
+            column holding its first match; a pattern without named groups yields the whole
+            match.
+          </p>
+          <label className="flex items-center justify-between gap-2">
+            Column name prefix
+            <input
+              className="w-72 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+              value={prefix}
+              onChange={(event) => setPrefix(event.target.value)}
+            />
+          </label>
+          {preview && 'error' in preview && <p className="text-rose-300">{preview.error}</p>}
+          {ready && (
+            <section className="flex flex-col gap-2">
+              <p className="text-slate-400">
+                {ready.matchedCount.toLocaleString()} of {samples.length.toLocaleString()}{' '}
+                sample rows match.
+              </p>
+              {ready.rows.length > 0 && (
+                <div className="max-h-72 overflow-auto rounded border border-slate-800">
+                  <table className="w-full text-left">
+                    <thead className="sticky top-0 bg-slate-900 text-slate-400">
+                      <tr>
+                        <th className="px-2 py-1 font-normal">{column}</th>
+                        {ready.columns.map((definition) => (
+                          <th key={definition.name} className="px-2 py-1 font-normal">
+                            {definition.name}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {ready.rows.map(({ value, matches }, index) => (
+                        <tr key={index} className="border-t border-slate-800">
+                          <td className="max-w-xs truncate px-2 py-1 font-mono" title={value}>
+                            {value}
+                          </td>
+                          {ready.columns.map((definition) => (
+                            <td key={definition.name} className="px-2 py-1 font-mono">
+                              {matches[definition.name] ?? '—'}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          )}
+          <div className="flex justify-end">
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+              onClick={() => void handleApply()}
+              disabled={!ready || applying}
+            >
+              {applying ? 'Adding…' : `Add ${columnCount} column${columnCount === 1 ? '' : 's'}`}
+            </button>
+          </div>
+          {applyError && <p className="text-rose-300">{applyError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegexExtractDialog;
@@ -1,4 +1,4 @@
-import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import type { GridColumn } from '@state/dataStore';
@@ -7,6 +7,7 @@ import type { FilterState } from '@state/sessionStore';
 import { useSessionStore } from '@state/sessionStore';
 import { useTagStore } from '@state/tagStore';
 import type { ColumnInference, LabelDefinition } from '@workers/types';
+import { TAG_COLUMN_ID } from '@workers/types';
 import FilterBuilder, { buildNewFilter } from './FilterBuilder';
 
 const mockApplyFilter = vi.fn();
@@ -270,6 +271,40 @@ describe('FilterBuilder value distributions', () => {
     expect(await screen.findByText('Too many unique values')).toBeInTheDocument();
   });
 
+  it('fills in-list filters from a pasted value list', async () => {
+    const filter: FilterState = {
+      id: 'f-6',
+      column: 'name',
+      operator: 'contains',
+      value: 'abc',
+      enabled: true
+    };
+    useSessionStore.setState((state) => ({ ...state, filters: [filter] }));
+
+    render(<FilterBuilder columns={[stringColumn]} />);
+
+    fireEvent.change(screen.getByDisplayValue('contains'), { target: { value: 'in' } });
+    await waitFor(() =>
+      expect(useSessionStore.getState().filters[0]).toMatchObject({ operator: 'in', value: ['abc'] })
+    );
+
+    fireEvent.change(screen.getByLabelText('Values'), {
+      target: { value: 'abc\nd41d8cd98f00b204\n\n9e107d9d372bb682' }
+    });
+    await waitFor(() =>
+      expect(useSessionStore.getState().filters[0]?.value).toEqual([
+        'abc',
+        'd41d8cd98f00b204',
+        '9e107d9d372bb682'
+      ])
+    );
+    expect(screen.getByText('3 values')).toBeInTheDocument();
+    expect(mockApplyFilter.mock.lastCall![0].expression).toMatchObject({
+      op: 'and',
+      predicates: [{ column: 'name', operator: 'in', value: expect.arrayContaining(['abc']) }]
+    });
+  });
+
   it('keeps unsupported operators on the existing text input path', () => {
     const filter: FilterState = {
       id: 'f-5',
@@ -287,3 +322,156 @@ describe('FilterBuilder value distributions', () => {
     expect(mockGetColumnValueDistribution).not.toHaveBeenCalled();
   });
 });
+
+describe('FilterBuilder query bar', () => {
+  beforeEach(() => {
+    resetStores();
+    mockApplyFilter.mockReset();
+    mockGetColumnValueDistribution.mockReset();
+    mockApplyFilter.mockResolvedValue({
+      rows: [],
+      matchedRows: 3,
+      totalRows: 100,
+      expression: null
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('mirrors builder filters and applies flat queries back to the builder', async () => {
+    useSessionStore.setState((state) => ({
+      ...state,
+      filters: [
+        { id: 'f-1', column: 'name', operator: 'contains', value: 'ali', enabled: true },
+        { id: 'f-2', column: TAG_COLUMN_ID, operator: 'eq', value: 'label-1', enabled: true }
+      ]
+    }));
+
+    render(<FilterBuilder columns={[stringColumn, booleanColumn]} />);
+
+    const input = screen.getByLabelText<HTMLInputElement>('Filter query');
+    expect(input.value).toBe('name contains "ali" AND __tag = "Important"');
+
+    fireEvent.change(input, { target: { value: 'name startsWith "bo" cs AND active = true' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => expect(useSessionStore.getState().filters).toHaveLength(2));
+    expect(useSessionStore.getState().filters[0]).toMatchObject({
+      column: 'name',
+      operator: 'startsWith',
+      value: 'bo',
+      caseSensitive: true
+    });
+    await waitFor(() =>
+      expect(screen.getByLabelText<HTMLInputElement>('Filter query').value).toBe(
+        'name startsWith "bo" cs AND active = true'
+      )
+    );
+  });
+
+  it('turns nested queries into builder groups and reports syntax errors', async () => {
+    render(<FilterBuilder columns={[stringColumn, booleanColumn]} />);
+
+    const input = screen.getByLabelText('Filter query');
+    fireEvent.change(input, { target: { value: 'name = "a" AND (active = true' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(
+      screen.getByText('Expected ")" but found end of query (at character 30)')
+    ).toBeInTheDocument();
+    expect(mockApplyFilter).not.toHaveBeenCalled();
+
+    fireEvent.change(input, {
+      target: { value: 'name = "a" AND (active = true OR name ~ /^b/i)' }
+    });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => expect(mockApplyFilter).toHaveBeenCalledTimes(1));
+    const { filters, filterGroups } = useSessionStore.getState();
+    expect(filterGroups).toEqual([{ id: expect.any(String), op: 'or' }]);
+    expect(filters.map((filter) => filter.groupId)).toEqual([
+      undefined,
+      filterGroups[0]!.id,
+      filterGroups[0]!.id
+    ]);
+    expect(mockApplyFilter.mock.calls[0]![0].expression).toMatchObject({
+      op: 'and',
+      predicates: [{ column: 'name' }, { id: filterGroups[0]!.id, op: 'or' }]
+    });
+    expect(await screen.findByRole('group', { name: 'Group 1' })).toBeInTheDocument();
+  });
+});
+
+describe('FilterBuilder groups', () => {
+  beforeEach(() => {
+    resetStores();
+    mockApplyFilter.mockReset();
+    mockGetColumnValueDistribution.mockReset();
+    mockApplyFilter.mockResolvedValue({
+      rows: [],
+      matchedRows: 3,
+      totalRows: 100,
+      expression: null,
+      predicateMatchCounts: { 'group-1': 7 }
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('edits, negates and reorders filters inside a group', async () => {
+    useSessionStore.setState((state) => ({
+      ...state,
+      filters: [
+        { id: 'f-1', column: 'name', operator: 'eq', value: 'a', enabled: true },
+        { id: 'f-2', column: 'name', operator: 'eq', value: 'b', enabled: true, groupId: 'group-1' },
+        { id: 'f-3', column: 'name', operator: 'eq', value: 'c', enabled: true, groupId: 'group-1' }
+      ],
+      filterGroups: [{ id: 'group-1', op: 'and' }]
+    }));
+
+    render(<FilterBuilder columns={[stringColumn]} />);
+
+    const group = screen.getByRole('group', { name: 'Group 1' });
+    fireEvent.change(within(group).getByLabelText('Group operator'), {
+      target: { value: 'or' }
+    });
+    await waitFor(() =>
+      expect(useSessionStore.getState().filterGroups[0]).toMatchObject({ op: 'or' })
+    );
+    expect(mockApplyFilter.mock.calls[0]![0].expression).toMatchObject({
+      op: 'and',
+      predicates: [
+        { id: 'f-1' },
+        { id: 'group-1', op: 'or', predicates: [{ id: 'f-2' }, { id: 'f-3' }] }
+      ]
+    });
+    expect(await within(group).findByText('Matches 7 rows')).toBeInTheDocument();
+
+    fireEvent.click(within(group).getByLabelText('Negate'));
+    await waitFor(() =>
+      expect(useSessionStore.getState().filterGroups[0]).toMatchObject({ negated: true })
+    );
+    expect(mockApplyFilter.mock.calls[1]![0].expression.predicates[1]).toMatchObject({
+      id: 'group-1',
+      op: 'not',
+      predicates: [{ op: 'or', predicates: [{ id: 'f-2' }, { id: 'f-3' }] }]
+    });
+
+    fireEvent.click(within(group).getAllByRole('button', { name: 'Move filter down' })[0]!);
+    await waitFor(() =>
+      expect(useSessionStore.getState().filters.map((filter) => filter.id)).toEqual([
+        'f-1',
+        'f-3',
+        'f-2'
+      ])
+    );
+
+    fireEvent.click(within(group).getByRole('button', { name: 'Remove group' }));
+    await waitFor(() => expect(useSessionStore.getState().filterGroups).toEqual([]));
+    expect(useSessionStore.getState().filters.map((filter) => filter.id)).toEqual(['f-1']);
+  });
+});
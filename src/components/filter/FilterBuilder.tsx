@@ -2,9 +2,10 @@ import { useEffect, useMemo, useState } from 'react';
 
 import { useFilterSync } from '@/hooks/useFilterSync';
 import { useDataStore, type GridColumn } from '@state/dataStore';
-import type { FilterState } from '@state/sessionStore';
+import type { FilterGroupState, FilterState } from '@state/sessionStore';
 import { useTagStore } from '@state/tagStore';
 import { reportAppError } from '@utils/diagnostics';
+import { parseFilterValueList } from '@utils/filterExpression';
 import { getDataWorker } from '@workers/dataWorkerProxy';
 import {
   TAG_COLUMN_ID,
@@ -12,6 +13,7 @@ import {
   type ColumnInference,
   type LabelDefinition
 } from '@workers/types';
+import FilterQueryBar from './FilterQueryBar';
 
 interface FilterBuilderProps {
   columns: GridColumn[];
@@ -20,7 +22,10 @@ interface FilterBuilderProps {
 type DistributionSortOrder = 'asc' | 'desc';
 
 const DISTRIBUTION_SUPPORTED_TYPES = new Set<GridColumn['type']>(['string', 'boolean']);
-const DISTRIBUTION_SUPPORTED_OPERATORS = new Set(['eq', 'neq']);
+const DISTRIBUTION_SUPPORTED_OPERATORS = new Set(['eq', 'neq', 'in', 'notIn']);
+const LIST_OPERATORS = new Set(['in', 'notIn']);
+const VALUELESS_OPERATORS = new Set(['isNull', 'isNotNull']);
+const LENGTH_OPERATORS = new Set(['lengthGt', 'lengthLt', 'lengthEq']);
 
 const formatDatetimeForInput = (value: unknown): string => {
   if (typeof value === 'number' && Number.isFinite(value)) {
@@ -118,6 +123,30 @@ const sortDistributionItems = (
     return left.value.localeCompare(right.value);
   });
 
+/** Group references that no longer resolve are treated as top level. */
+const resolveGroupId = (id: string | undefined, groupIds: Set<string>): string | undefined =>
+  id && groupIds.has(id) ? id : undefined;
+
+/** Swaps an item with its previous or next sibling; null when it is already at the edge. */
+const swapWithSibling = <T extends { id: string }>(
+  items: T[],
+  id: string,
+  direction: -1 | 1,
+  isSibling: (item: T) => boolean
+): T[] | null => {
+  const siblingIndexes = items.flatMap((item, index) => (isSibling(item) ? [index] : []));
+  const position = siblingIndexes.findIndex((index) => items[index]!.id === id);
+  const target = siblingIndexes[position + direction];
+  if (position === -1 || target == null) {
+    return null;
+  }
+
+  const source = siblingIndexes[position]!;
+  const next = [...items];
+  [next[source], next[target]] = [next[target]!, next[source]!];
+  return next;
+};
+
 interface BuildFilterParams {
   columns: GridColumn[];
   columnInference: Record<string, ColumnInference>;
@@ -163,7 +192,7 @@ export const buildNewFilter = ({
 };
 
 const FilterBuilder = ({ columns }: FilterBuilderProps): JSX.Element => {
-  const { filters, applyFilters } = useFilterSync();
+  const { filters, filterGroups, applyFilters } = useFilterSync();
   const columnInference = useDataStore((state) => state.columnInference);
   const filterMatchCounts = useDataStore((state) => state.filterPredicateMatchCounts);
   const loaderStatus = useDataStore((state) => state.status);
@@ -190,6 +219,11 @@ const FilterBuilder = ({ columns }: FilterBuilderProps): JSX.Element => {
     }
   }, [loadTags, tagStatus]);
 
+  const groupIds = useMemo(
+    () => new Set(filterGroups.map((group) => group.id)),
+    [filterGroups]
+  );
+
   const columnMap = useMemo(
     () => Object.fromEntries(columns.map((column) => [column.key, column])),
     [columns]
@@ -250,7 +284,7 @@ const FilterBuilder = ({ columns }: FilterBuilderProps): JSX.Element => {
     }
   }, [columnMap, columnValueDistributions, filters, loaderStatus]);
 
-  const handleAdd = () => {
+  const handleAdd = (groupId?: string) => {
     const newFilter = buildNewFilter({
       columns,
       columnInference,
@@ -259,9 +293,81 @@ const FilterBuilder = ({ columns }: FilterBuilderProps): JSX.Element => {
     if (!newFilter) {
       return;
     }
+    if (groupId) {
+      newFilter.groupId = groupId;
+    }
     void applyFilters([...filters, newFilter]);
   };
 
+  const handleAddGroup = (parentId?: string) => {
+    const group: FilterGroupState = {
+      id: crypto.randomUUID(),
+      op: 'and',
+      ...(parentId ? { parentId } : {})
+    };
+    void applyFilters(filters, [...filterGroups, group]);
+  };
+
+  const handleGroupChange = (id: string, updates: Partial<FilterGroupState>) => {
+    void applyFilters(
+      filters,
+      filterGroups.map((group) => (group.id === id ? { ...group, ...updates } : group))
+    );
+  };
+
+  const handleRemoveGroup = (id: string) => {
+    const removed = new Set([id]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const group of filterGroups) {
+        if (group.parentId && removed.has(group.parentId) && !removed.has(group.id)) {
+          removed.add(group.id);
+          grew = true;
+        }
+      }
+    }
+
+    void applyFilters(
+      filters.filter((filter) => !filter.groupId || !removed.has(filter.groupId)),
+      filterGroups.filter((group) => !removed.has(group.id))
+    );
+  };
+
+  const handleMoveFilter = (id: string, direction: -1 | 1) => {
+    const filter = filters.find((candidate) => candidate.id === id);
+    if (!filter) {
+      return;
+    }
+    const parentId = resolveGroupId(filter.groupId, groupIds);
+    const next = swapWithSibling(
+      filters,
+      id,
+      direction,
+      (candidate) => resolveGroupId(candidate.groupId, groupIds) === parentId
+    );
+    if (next) {
+      void applyFilters(next);
+    }
+  };
+
+  const handleMoveGroup = (id: string, direction: -1 | 1) => {
+    const group = filterGroups.find((candidate) => candidate.id === id);
+    if (!group) {
+      return;
+    }
+    const parentId = resolveGroupId(group.parentId, groupIds);
+    const next = swapWithSibling(
+      filterGroups,
+      id,
+      direction,
+      (candidate) => resolveGroupId(candidate.parentId, groupIds) === parentId
+    );
+    if (next) {
+      void applyFilters(filters, next);
+    }
+  };
+
   const handleRemove = (id: string) => {
     void applyFilters(filters.filter((filter) => filter.id !== id));
   };
@@ -274,6 +380,16 @@ const FilterBuilder = ({ columns }: FilterBuilderProps): JSX.Element => {
 
       const updated = { ...filter, ...updates };
 
+      // Carry the value across when switching between list and single-value operators.
+      const wantsList = updates.operator ? LIST_OPERATORS.has(updates.operator) : null;
+      if (wantsList != null && wantsList !== Array.isArray(filter.value)) {
+        const values = Array.isArray(filter.value)
+          ? filter.value
+          : parseFilterValueList(String(filter.value ?? ''));
+        updated.value = wantsList ? values : (values[0] ?? '');
+        updated.rawValue = undefined;
+      }
+
       if (filter.column === TAG_COLUMN_ID && updates.column && updates.column !== TAG_COLUMN_ID) {
         return {
           ...updated,
@@ -319,6 +435,18 @@ const FilterBuilder = ({ columns }: FilterBuilderProps): JSX.Element => {
     void applyFilters(next);
   };
 
+  const handleDistributionPick = (filter: FilterState, value: string) => {
+    if (!Array.isArray(filter.value)) {
+      handleChange(filter.id, { value });
+      return;
+    }
+
+    const values = filter.value.includes(value)
+      ? filter.value.filter((entry) => entry !== value)
+      : [...filter.value, value];
+    handleChange(filter.id, { value: values, rawValue: values.join('\n') });
+  };
+
   const onDatetimeChange =
     (filter: FilterState, field: 'value' | 'value2') =>
     (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -348,6 +476,454 @@ const FilterBuilder = ({ columns }: FilterBuilderProps): JSX.Element => {
       handleChange(filter.id, updates);
     };
 
+  const renderFilterCard = (filter: FilterState): JSX.Element => {
+    const matchCount = filterMatchCounts?.[filter.id];
+    const isEnabled = filter.enabled !== false;
+    const innerSectionClasses = isEnabled
+      ? 'flex flex-col gap-2'
+      : 'flex flex-col gap-2 opacity-60';
+    const column = columnMap[filter.column];
+    const isListFilter = LIST_OPERATORS.has(filter.operator);
+    const listValues = Array.isArray(filter.value) ? filter.value.map(String) : [];
+    const showValueDistribution = supportsValueDistribution(filter, column);
+    const distributionEntry = columnValueDistributions[filter.column];
+    const distributionResult = distributionEntry?.result;
+    const sortOrder =
+      distributionSort[filter.id] ?? distributionResult?.defaultSort ?? 'desc';
+    const sortedItems = distributionResult
+      ? sortDistributionItems(distributionResult.items, sortOrder)
+      : [];
+
+    return (
+      <div
+        key={filter.id}
+        className="flex flex-col gap-2 rounded border border-slate-700 p-2 text-xs text-slate-300"
+      >
+        <div className="flex flex-wrap items-center justify-between gap-2 text-[10px] uppercase tracking-wide text-slate-500">
+          <label className="flex items-center gap-1 text-slate-300">
+            <input
+              type="checkbox"
+              checked={isEnabled}
+              onChange={(event) =>
+                handleChange(filter.id, { enabled: event.target.checked })
+              }
+            />
+            Enabled
+          </label>
+          <span className="text-slate-500">
+            {isEnabled
+              ? matchCount != null
+                ? `Matches ${matchCount.toLocaleString()} rows`
+                : 'Awaiting results'
+              : 'Filter disabled'}
+          </span>
+        </div>
+        <div className={innerSectionClasses}>
+          <select
+            className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+            value={filter.column}
+            onChange={(event) => handleChange(filter.id, { column: event.target.value })}
+          >
+            {availableColumns.map((availableColumn) => (
+              <option key={availableColumn.value} value={availableColumn.value}>
+                {availableColumn.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+            value={filter.operator}
+            onChange={(event) => handleChange(filter.id, { operator: event.target.value })}
+          >
+            {filter.column === TAG_COLUMN_ID ? (
+              <>
+                <option value="eq">equals</option>
+                <option value="neq">not equals</option>
+              </>
+            ) : (
+              <>
+                <option value="contains">contains</option>
+                <option value="eq">equals</option>
+                <option value="neq">not equals</option>
+                <option value="startsWith">starts with</option>
+                <option value="matches">matches regex</option>
+                <option value="notMatches">not matches regex</option>
+                <option value="gt">greater than</option>
+                <option value="lt">less than</option>
+                <option value="between">between</option>
+                <option value="endsWith">ends with</option>
+                <option value="in">in list</option>
+                <option value="notIn">not in list</option>
+                <option value="isNull">is empty</option>
+                <option value="isNotNull">is not empty</option>
+                <option value="lengthGt">length greater than</option>
+                <option value="lengthLt">length less than</option>
+                <option value="lengthEq">length equals</option>
+              </>
+            )}
+          </select>
+        </div>
+        <div
+          className={`${
+            column?.type === 'datetime' && filter.operator === 'between'
+              ? 'flex flex-col gap-1'
+              : 'flex gap-2'
+          } ${isEnabled ? '' : 'opacity-60'}`}
+        >
+          {filter.column === TAG_COLUMN_ID ? (
+            <select
+              className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+              value={
+                typeof filter.value === 'string' && filter.value.length > 0
+                  ? filter.value
+                  : TAG_NO_LABEL_FILTER_VALUE
+              }
+              onChange={(event) => handleChange(filter.id, { value: event.target.value })}
+            >
+              <option value={TAG_NO_LABEL_FILTER_VALUE}>No label</option>
+              {tagLabels.map((label) => (
+                <option key={label.id} value={label.id}>
+                  {label.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <>
+              {VALUELESS_OPERATORS.has(filter.operator) ? null : isListFilter ? (
+                <div className="flex flex-1 flex-col gap-1">
+                  <textarea
+                    aria-label="Values"
+                    rows={4}
+                    className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5 font-mono"
+                    value={filter.rawValue ?? listValues.join('\n')}
+                    onChange={(event) =>
+                      handleChange(filter.id, {
+                        rawValue: event.target.value,
+                        value: parseFilterValueList(event.target.value)
+                      })
+                    }
+                    placeholder="Paste values, one per line or comma separated"
+                  />
+                  <span className="text-[10px] text-slate-500">
+                    {listValues.length.toLocaleString()} values
+                  </span>
+                </div>
+              ) : LENGTH_OPERATORS.has(filter.operator) ? (
+                <input
+                  type="number"
+                  min={0}
+                  aria-label="Length"
+                  className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+                  value={String(filter.value ?? '')}
+                  onChange={(event) => handleChange(filter.id, { value: event.target.value })}
+                  placeholder="Characters"
+                />
+              ) : column?.type === 'datetime' && filter.operator === 'between' ? (
+                <div className="flex items-center gap-2">
+                  <span className="w-12 text-xs text-slate-400">Start</span>
+                  <input
+                    type="text"
+                    className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+                    value={filter.rawValue ?? formatDatetimeForInput(filter.value)}
+                    onChange={onDatetimeChange(filter, 'value')}
+                    onBlur={onDatetimeBlur(filter, 'value')}
+                    placeholder="YYYY-MM-DDTHH:MM"
+                  />
+                </div>
+              ) : column?.type === 'datetime' ? (
+                <input
+                  type="text"
+                  className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+                  value={filter.rawValue ?? formatDatetimeForInput(filter.value)}
+                  onChange={onDatetimeChange(filter, 'value')}
+                  onBlur={onDatetimeBlur(filter, 'value')}
+                  placeholder="YYYY-MM-DDTHH:MM"
+                />
+              ) : (
+                <input
+                  className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+                  value={String(filter.value ?? '')}
+                  onChange={(event) =>
+                    handleChange(filter.id, { value: event.target.value })
+                  }
+                  placeholder="Value"
+                />
+              )}
+            </>
+          )}
+          {(filter.operator === 'between' || filter.operator === 'range') &&
+            filter.column !== TAG_COLUMN_ID && (
+              <>
+                {column?.type === 'datetime' && filter.operator === 'between' ? (
+                  <div className="flex items-center gap-2">
+                    <span className="w-12 text-xs text-slate-400">End</span>
+                    <input
+                      type="text"
+                      className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+                      value={filter.rawValue2 ?? formatDatetimeForInput(filter.value2)}
+                      onChange={onDatetimeChange(filter, 'value2')}
+                      onBlur={onDatetimeBlur(filter, 'value2')}
+                      placeholder="YYYY-MM-DDTHH:MM"
+                    />
+                  </div>
+                ) : column?.type === 'datetime' ? (
+                  <input
+                    type="text"
+                    className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+                    value={filter.rawValue2 ?? formatDatetimeForInput(filter.value2)}
+                    onChange={onDatetimeChange(filter, 'value2')}
+                    onBlur={onDatetimeBlur(filter, 'value2')}
+                    placeholder="YYYY-MM-DDTHH:MM"
+                  />
+                ) : (
+                  <input
+                    className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+                    value={String(filter.value2 ?? '')}
+                    onChange={(event) =>
+                      handleChange(filter.id, { value2: event.target.value })
+                    }
+                    placeholder="Value 2"
+                  />
+                )}
+              </>
+            )}
+        </div>
+        {showValueDistribution && (
+          <div className={`${isEnabled ? '' : 'opacity-60'} rounded border border-slate-800 bg-slate-950/70 p-2`}>
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <span className="text-[10px] uppercase tracking-wide text-slate-500">
+                Value counts
+              </span>
+              <button
+                type="button"
+                className="rounded border border-slate-700 px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-300"
+                onClick={() =>
+                  setDistributionSort((current) => ({
+                    ...current,
+                    [filter.id]: sortOrder === 'desc' ? 'asc' : 'desc'
+                  }))
+                }
+              >
+                {sortOrder === 'desc' ? 'Most common' : 'Least common'}
+              </button>
+            </div>
+            {distributionEntry?.status === 'loading' && (
+              <p className="text-xs text-slate-500">Loading value counts…</p>
+            )}
+            {distributionEntry?.status === 'error' && (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-amber-400">
+                  {distributionEntry.error ?? 'Failed to load value counts'}
+                </p>
+                <button
+                  type="button"
+                  className="rounded border border-slate-700 px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-300"
+                  onClick={() => void loadColumnValueDistribution(filter.column)}
+                >
+                  Retry
+                </button>
+              </div>
+            )}
+            {distributionEntry?.status === 'ready' &&
+              distributionResult?.skipped && (
+                <p className="text-xs text-slate-500">
+                  {distributionResult.skipReason ?? 'Too many unique values'}
+                </p>
+              )}
+            {distributionEntry?.status === 'ready' &&
+              !distributionResult?.skipped &&
+              sortedItems.length === 0 && (
+                <p className="text-xs text-slate-500">No repeated values found.</p>
+              )}
+            {distributionEntry?.status === 'ready' &&
+              !distributionResult?.skipped &&
+              sortedItems.length > 0 && (
+                <div className="max-h-40 space-y-1 overflow-auto">
+                  {sortedItems.map((item) => {
+                    const selected = Array.isArray(filter.value)
+                      ? filter.value.includes(item.value)
+                      : String(filter.value ?? '') === item.value;
+                    return (
+                      <button
+                        key={`${filter.column}:${item.value}`}
+                        type="button"
+                        className={`flex w-full items-center justify-between rounded border px-2 py-1 text-left ${
+                          selected
+                            ? 'border-cyan-500 bg-cyan-950/40 text-cyan-100'
+                            : 'border-slate-800 bg-slate-900 text-slate-200 hover:border-slate-700 hover:bg-slate-800'
+                        }`}
+                        onClick={() => handleDistributionPick(filter, item.value)}
+                      >
+                        <span className="truncate pr-3">{item.value || '(empty string)'}</span>
+                        <span className="shrink-0 text-[10px] text-slate-400">
+                          {item.count.toLocaleString()}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+          </div>
+        )}
+        <div className="flex items-center justify-between text-slate-500">
+          {filter.column !== TAG_COLUMN_ID ? (
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={Boolean(filter.caseSensitive)}
+                  onChange={(event) =>
+                    handleChange(filter.id, { caseSensitive: event.target.checked })
+                  }
+                />
+                Case sensitive
+              </label>
+            </div>
+          ) : (
+            <span className="text-[10px] uppercase tracking-wide text-slate-600">
+              Label filters use exact match
+            </span>
+          )}
+          <div className="flex items-center gap-1">
+            {filterGroups.length > 0 && (
+              <select
+                aria-label="Move filter to group"
+                className="rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+                value={resolveGroupId(filter.groupId, groupIds) ?? ''}
+                onChange={(event) =>
+                  handleChange(filter.id, { groupId: event.target.value || undefined })
+                }
+              >
+                <option value="">Top level</option>
+                {filterGroups.map((group, index) => (
+                  <option key={group.id} value={group.id}>
+                    Group {index + 1}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              type="button"
+              aria-label="Move filter up"
+              className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200"
+              onClick={() => handleMoveFilter(filter.id, -1)}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              aria-label="Move filter down"
+              className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200"
+              onClick={() => handleMoveFilter(filter.id, 1)}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              className="rounded border border-slate-600 px-1 py-0.5 text-xs text-red-300"
+              onClick={() => handleRemove(filter.id)}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderGroup = (group: FilterGroupState): JSX.Element => {
+    const index = filterGroups.indexOf(group);
+    const matchCount = filterMatchCounts?.[group.id];
+    return (
+      <div
+        key={group.id}
+        role="group"
+        aria-label={`Group ${index + 1}`}
+        className="flex flex-col gap-2 rounded border border-dashed border-slate-600 p-2 text-xs text-slate-300"
+      >
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] uppercase tracking-wide text-slate-500">
+              Group {index + 1}
+            </span>
+            <select
+              aria-label="Group operator"
+              className="rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
+              value={group.op}
+              onChange={(event) =>
+                handleGroupChange(group.id, { op: event.target.value === 'or' ? 'or' : 'and' })
+              }
+            >
+              <option value="and">AND</option>
+              <option value="or">OR</option>
+            </select>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={Boolean(group.negated)}
+                onChange={(event) => handleGroupChange(group.id, { negated: event.target.checked })}
+              />
+              Negate
+            </label>
+          </div>
+          <span className="text-[10px] uppercase tracking-wide text-slate-500">
+            {matchCount != null ? `Matches ${matchCount.toLocaleString()} rows` : 'Empty group'}
+          </span>
+        </div>
+        {renderChildren(group.id)}
+        <div className="flex flex-wrap items-center gap-1">
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200"
+            onClick={() => handleAdd(group.id)}
+          >
+            Add filter
+          </button>
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200"
+            onClick={() => handleAddGroup(group.id)}
+          >
+            Add group
+          </button>
+          <button
+            type="button"
+            aria-label="Move group up"
+            className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200"
+            onClick={() => handleMoveGroup(group.id, -1)}
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            aria-label="Move group down"
+            className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200"
+            onClick={() => handleMoveGroup(group.id, 1)}
+          >
+            ↓
+          </button>
+          <button
+            type="button"
+            className="ml-auto rounded border border-slate-600 px-1 py-0.5 text-xs text-red-300"
+            onClick={() => handleRemoveGroup(group.id)}
+          >
+            Remove group
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Within a parent, filters are listed before subgroups, each in array order.
+  const renderChildren = (parentId: string | undefined): JSX.Element[] => [
+    ...filters
+      .filter((filter) => resolveGroupId(filter.groupId, groupIds) === parentId)
+      .map(renderFilterCard),
+    ...filterGroups
+      .filter((group) => resolveGroupId(group.parentId, groupIds) === parentId)
+      .map(renderGroup)
+  ];
+
   if (columns.length === 0) {
     return (
       <div className="rounded border border-slate-700 p-2 text-sm text-slate-500">
@@ -360,298 +936,31 @@ const FilterBuilder = ({ columns }: FilterBuilderProps): JSX.Element => {
     <div className="flex flex-col gap-3">
       <div className="flex items-center justify-between">
         <h2 className="text-sm font-semibold text-slate-200">Filters</h2>
-        <button
-          type="button"
-          className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200"
-          onClick={handleAdd}
-        >
-          Add Filter
-        </button>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200"
+            onClick={() => handleAdd()}
+          >
+            Add Filter
+          </button>
+          <button
+            type="button"
+            className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200"
+            onClick={() => handleAddGroup()}
+          >
+            Add Group
+          </button>
+        </div>
       </div>
-      {filters.length === 0 ? (
+      <FilterQueryBar columns={columns} />
+      {filters.length === 0 && filterGroups.length === 0 ? (
         <div className="rounded border border-dashed border-slate-700 p-2 text-xs text-slate-500">
           No filters applied. Add one to narrow results.
         </div>
       ) : (
         <div className="flex flex-col gap-2">
-          {filters.map((filter) => {
-            const matchCount = filterMatchCounts?.[filter.id];
-            const isEnabled = filter.enabled !== false;
-            const innerSectionClasses = isEnabled
-              ? 'flex flex-col gap-2'
-              : 'flex flex-col gap-2 opacity-60';
-            const column = columnMap[filter.column];
-            const showValueDistribution = supportsValueDistribution(filter, column);
-            const distributionEntry = columnValueDistributions[filter.column];
-            const distributionResult = distributionEntry?.result;
-            const sortOrder =
-              distributionSort[filter.id] ?? distributionResult?.defaultSort ?? 'desc';
-            const sortedItems = distributionResult
-              ? sortDistributionItems(distributionResult.items, sortOrder)
-              : [];
-
-            return (
-              <div
-                key={filter.id}
-                className="flex flex-col gap-2 rounded border border-slate-700 p-2 text-xs text-slate-300"
-              >
-                <div className="flex flex-wrap items-center justify-between gap-2 text-[10px] uppercase tracking-wide text-slate-500">
-                  <label className="flex items-center gap-1 text-slate-300">
-                    <input
-                      type="checkbox"
-                      checked={isEnabled}
-                      onChange={(event) =>
-                        handleChange(filter.id, { enabled: event.target.checked })
-                      }
-                    />
-                    Enabled
-                  </label>
-                  <span className="text-slate-500">
-                    {isEnabled
-                      ? matchCount != null
-                        ? `Matches ${matchCount.toLocaleString()} rows`
-                        : 'Awaiting results'
-                      : 'Filter disabled'}
-                  </span>
-                </div>
-                <div className={innerSectionClasses}>
-                  <select
-                    className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
-                    value={filter.column}
-                    onChange={(event) => handleChange(filter.id, { column: event.target.value })}
-                  >
-                    {availableColumns.map((availableColumn) => (
-                      <option key={availableColumn.value} value={availableColumn.value}>
-                        {availableColumn.label}
-                      </option>
-                    ))}
-                  </select>
-                  <select
-                    className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
-                    value={filter.operator}
-                    onChange={(event) => handleChange(filter.id, { operator: event.target.value })}
-                  >
-                    {filter.column === TAG_COLUMN_ID ? (
-                      <>
-                        <option value="eq">equals</option>
-                        <option value="neq">not equals</option>
-                      </>
-                    ) : (
-                      <>
-                        <option value="contains">contains</option>
-                        <option value="eq">equals</option>
-                        <option value="neq">not equals</option>
-                        <option value="startsWith">starts with</option>
-                        <option value="matches">matches regex</option>
-                        <option value="notMatches">not matches regex</option>
-                        <option value="gt">greater than</option>
-                        <option value="lt">less than</option>
-                        <option value="between">between</option>
-                      </>
-                    )}
-                  </select>
-                </div>
-                <div
-                  className={`${
-                    column?.type === 'datetime' && filter.operator === 'between'
-                      ? 'flex flex-col gap-1'
-                      : 'flex gap-2'
-                  } ${isEnabled ? '' : 'opacity-60'}`}
-                >
-                  {filter.column === TAG_COLUMN_ID ? (
-                    <select
-                      className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
-                      value={
-                        typeof filter.value === 'string' && filter.value.length > 0
-                          ? filter.value
-                          : TAG_NO_LABEL_FILTER_VALUE
-                      }
-                      onChange={(event) => handleChange(filter.id, { value: event.target.value })}
-                    >
-                      <option value={TAG_NO_LABEL_FILTER_VALUE}>No label</option>
-                      {tagLabels.map((label) => (
-                        <option key={label.id} value={label.id}>
-                          {label.name}
-                        </option>
-                      ))}
-                    </select>
-                  ) : (
-                    <>
-                      {column?.type === 'datetime' && filter.operator === 'between' ? (
-                        <div className="flex items-center gap-2">
-                          <span className="w-12 text-xs text-slate-400">Start</span>
-                          <input
-                            type="text"
-                            className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
-                            value={filter.rawValue ?? formatDatetimeForInput(filter.value)}
-                            onChange={onDatetimeChange(filter, 'value')}
-                            onBlur={onDatetimeBlur(filter, 'value')}
-                            placeholder="YYYY-MM-DDTHH:MM"
-                          />
-                        </div>
-                      ) : column?.type === 'datetime' ? (
-                        <input
-                          type="text"
-                          className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
-                          value={filter.rawValue ?? formatDatetimeForInput(filter.value)}
-                          onChange={onDatetimeChange(filter, 'value')}
-                          onBlur={onDatetimeBlur(filter, 'value')}
-                          placeholder="YYYY-MM-DDTHH:MM"
-                        />
-                      ) : (
-                        <input
-                          className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
-                          value={String(filter.value ?? '')}
-                          onChange={(event) =>
-                            handleChange(filter.id, { value: event.target.value })
-                          }
-                          placeholder="Value"
-                        />
-                      )}
-                    </>
-                  )}
-                  {(filter.operator === 'between' || filter.operator === 'range') &&
-                    filter.column !== TAG_COLUMN_ID && (
-                      <>
-                        {column?.type === 'datetime' && filter.operator === 'between' ? (
-                          <div className="flex items-center gap-2">
-                            <span className="w-12 text-xs text-slate-400">End</span>
-                            <input
-                              type="text"
-                              className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
-                              value={filter.rawValue2 ?? formatDatetimeForInput(filter.value2)}
-                              onChange={onDatetimeChange(filter, 'value2')}
-                              onBlur={onDatetimeBlur(filter, 'value2')}
-                              placeholder="YYYY-MM-DDTHH:MM"
-                            />
-                          </div>
-                        ) : column?.type === 'datetime' ? (
-                          <input
-                            type="text"
-                            className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
-                            value={filter.rawValue2 ?? formatDatetimeForInput(filter.value2)}
-                            onChange={onDatetimeChange(filter, 'value2')}
-                            onBlur={onDatetimeBlur(filter, 'value2')}
-                            placeholder="YYYY-MM-DDTHH:MM"
-                          />
-                        ) : (
-                          <input
-                            className="flex-1 rounded border border-slate-600 bg-slate-900 px-1 py-0.5"
-                            value={String(filter.value2 ?? '')}
-                            onChange={(event) =>
-                              handleChange(filter.id, { value2: event.target.value })
-                            }
-                            placeholder="Value 2"
-                          />
-                        )}
-                      </>
-                    )}
-                </div>
-                {showValueDistribution && (
-                  <div className={`${isEnabled ? '' : 'opacity-60'} rounded border border-slate-800 bg-slate-950/70 p-2`}>
-                    <div className="mb-2 flex items-center justify-between gap-2">
-                      <span className="text-[10px] uppercase tracking-wide text-slate-500">
-                        Value counts
-                      </span>
-                      <button
-                        type="button"
-                        className="rounded border border-slate-700 px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-300"
-                        onClick={() =>
-                          setDistributionSort((current) => ({
-                            ...current,
-                            [filter.id]: sortOrder === 'desc' ? 'asc' : 'desc'
-                          }))
-                        }
-                      >
-                        {sortOrder === 'desc' ? 'Most common' : 'Least common'}
-                      </button>
-                    </div>
-                    {distributionEntry?.status === 'loading' && (
-                      <p className="text-xs text-slate-500">Loading value counts…</p>
-                    )}
-                    {distributionEntry?.status === 'error' && (
-                      <div className="flex items-center justify-between gap-2">
-                        <p className="text-xs text-amber-400">
-                          {distributionEntry.error ?? 'Failed to load value counts'}
-                        </p>
-                        <button
-                          type="button"
-                          className="rounded border border-slate-700 px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-300"
-                          onClick={() => void loadColumnValueDistribution(filter.column)}
-                        >
-                          Retry
-                        </button>
-                      </div>
-                    )}
-                    {distributionEntry?.status === 'ready' &&
-                      distributionResult?.skipped && (
-                        <p className="text-xs text-slate-500">
-                          {distributionResult.skipReason ?? 'Too many unique values'}
-                        </p>
-                      )}
-                    {distributionEntry?.status === 'ready' &&
-                      !distributionResult?.skipped &&
-                      sortedItems.length === 0 && (
-                        <p className="text-xs text-slate-500">No repeated values found.</p>
-                      )}
-                    {distributionEntry?.status === 'ready' &&
-                      !distributionResult?.skipped &&
-                      sortedItems.length > 0 && (
-                        <div className="max-h-40 space-y-1 overflow-auto">
-                          {sortedItems.map((item) => {
-                            const selected = String(filter.value ?? '') === item.value;
-                            return (
-                              <button
-                                key={`${filter.column}:${item.value}`}
-                                type="button"
-                                className={`flex w-full items-center justify-between rounded border px-2 py-1 text-left ${
-                                  selected
-                                    ? 'border-cyan-500 bg-cyan-950/40 text-cyan-100'
-                                    : 'border-slate-800 bg-slate-900 text-slate-200 hover:border-slate-700 hover:bg-slate-800'
-                                }`}
-                                onClick={() => handleChange(filter.id, { value: item.value })}
-                              >
-                                <span className="truncate pr-3">{item.value || '(empty string)'}</span>
-                                <span className="shrink-0 text-[10px] text-slate-400">
-                                  {item.count.toLocaleString()}
-                                </span>
-                              </button>
-                            );
-                          })}
-                        </div>
-                      )}
-                  </div>
-                )}
-                <div className="flex items-center justify-between text-slate-500">
-                  {filter.column !== TAG_COLUMN_ID ? (
-                    <div className="flex items-center gap-3">
-                      <label className="flex items-center gap-1">
-                        <input
-                          type="checkbox"
-                          checked={Boolean(filter.caseSensitive)}
-                          onChange={(event) =>
-                            handleChange(filter.id, { caseSensitive: event.target.checked })
-                          }
-                        />
-                        Case sensitive
-                      </label>
-                    </div>
-                  ) : (
-                    <span className="text-[10px] uppercase tracking-wide text-slate-600">
-                      Label filters use exact match
-                    </span>
-                  )}
-                  <button
-                    type="button"
-                    className="rounded border border-slate-600 px-1 py-0.5 text-xs text-red-300"
-                    onClick={() => handleRemove(filter.id)}
-                  >
-                    Remove
-                  </button>
-                </div>
-              </div>
-            );
-          })}
+          {renderChildren(undefined)}
         </div>
       )}
     </div>
@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+
+import { useFilterSync } from '@/hooks/useFilterSync';
+import type { GridColumn } from '@state/dataStore';
+import { useTagStore } from '@state/tagStore';
+import { buildFilterExpression, filterNodeToBuilderState } from '@utils/filterExpression';
+import { parseFilterQuery, printFilterQuery, type FilterQueryError } from '@utils/filterQuery';
+import type { ColumnType } from '@workers/types';
+
+interface FilterQueryBarProps {
+  columns: GridColumn[];
+}
+
+const FilterQueryBar = ({ columns }: FilterQueryBarProps): JSX.Element => {
+  const { filters, filterGroups, applyFilters } = useFilterSync();
+  const tagLabels = useTagStore((state) => state.labels);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<FilterQueryError | null>(null);
+
+  const queryOptions = useMemo(() => {
+    const columnTypes: Record<string, ColumnType> = {};
+    for (const column of columns) {
+      columnTypes[column.key] = column.type;
+    }
+    return { columnTypes, labels: tagLabels };
+  }, [columns, tagLabels]);
+
+  const printed = useMemo(
+    () => printFilterQuery(buildFilterExpression(filters, filterGroups), queryOptions),
+    [filterGroups, filters, queryOptions]
+  );
+
+  // Builder edits win over an unsubmitted query.
+  useEffect(() => {
+    setDraft(null);
+    setError(null);
+  }, [printed]);
+
+  const text = draft ?? printed;
+
+  const handleApply = async () => {
+    const result = parseFilterQuery(text, queryOptions);
+    if (result.error) {
+      setError(result.error);
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(result.error.position, result.error.position);
+      return;
+    }
+
+    setError(null);
+    const next = filterNodeToBuilderState(result.expression);
+    // Disabled filters never reach the query text, so keep them at the top level.
+    const disabled = filters
+      .filter((filter) => filter.enabled === false)
+      .map((filter) => ({ ...filter, groupId: undefined }));
+    setDraft(null);
+    await applyFilters([...next.filters, ...disabled], next.groups);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      void handleApply();
+    } else if (event.key === 'Escape') {
+      setDraft(null);
+      setError(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex gap-1">
+        <input
+          ref={inputRef}
+          aria-label="Filter query"
+          className={`min-w-0 flex-1 rounded border bg-slate-900 px-1 py-0.5 font-mono text-xs text-slate-200 ${
+            error ? 'border-rose-500' : 'border-slate-600'
+          }`}
+          value={text}
+          spellCheck={false}
+          placeholder='EventID = 4624 AND (User ~ /adm/i OR Host startsWith "DC")'
+          onChange={(event) => {
+            setDraft(event.target.value);
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+        />
+        <button
+          type="button"
+          className="rounded border border-slate-600 px-1 py-0.5 text-xs text-slate-200 disabled:opacity-50"
+          onClick={() => void handleApply()}
+          disabled={draft == null}
+        >
+          Apply
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-rose-300">
+          {error.message} (at character {error.position + 1})
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FilterQueryBar;
@@ -0,0 +1,167 @@
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { GridColumn } from '@state/dataStore';
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import { useTagStore } from '@state/tagStore';
+import type { FilterNode, LabelDefinition } from '@workers/types';
+import IocPanel from './IocPanel';
+
+const mockMatchIocs = vi.fn();
+const mockApplyFilter = vi.fn();
+const mockRunRulePack = vi.fn();
+const mockUpdateLabel = vi.fn();
+
+vi.mock('@workers/dataWorkerProxy', () => {
+  return {
+    getDataWorker: () => ({
+      matchIocs: mockMatchIocs,
+      applyFilter: mockApplyFilter,
+      runRulePack: mockRunRulePack,
+      updateLabel: mockUpdateLabel
+    })
+  };
+});
+
+const columns: GridColumn[] = [
+  { key: 'src', headerName: 'src', type: 'string', confidence: 1, examples: [] },
+  { key: 'dst', headerName: 'dst', type: 'string', confidence: 1, examples: [] },
+  { key: 'time', headerName: 'time', type: 'datetime', confidence: 1, examples: [] },
+  { key: 'port', headerName: 'port', type: 'number', confidence: 1, examples: [] }
+];
+
+const REPORT = {
+  totalRows: 10,
+  scannedColumns: ['dst'],
+  matchedRows: 3,
+  hits: [
+    {
+      indicator: 'evil.example',
+      matchedRows: 3,
+      columns: ['dst'],
+      firstSeen: Date.UTC(2024, 0, 1),
+      lastSeen: Date.UTC(2024, 0, 2)
+    }
+  ]
+};
+
+const matchList = async (text: string) => {
+  fireEvent.change(screen.getByLabelText('Indicators'), { target: { value: text } });
+  fireEvent.click(screen.getByLabelText('dst'));
+  fireEvent.click(screen.getByRole('button', { name: 'Match indicators' }));
+  await waitFor(() => expect(screen.getByText(/1 of 2 indicators hit/)).toBeInTheDocument());
+};
+
+describe('IocPanel', () => {
+  beforeEach(() => {
+    mockMatchIocs.mockReset();
+    mockApplyFilter.mockReset();
+    mockRunRulePack.mockReset();
+    mockUpdateLabel.mockReset();
+    useSessionStore.getState().clear();
+    useSessionStore.setState({ displayTimeZone: 'UTC' });
+    useTagStore.getState().reset();
+    useDataStore.getState().reset();
+    useDataStore.setState((state) => ({
+      ...state,
+      columns,
+      status: 'ready',
+      totalRows: 10,
+      matchedRows: 10
+    }));
+    mockMatchIocs.mockResolvedValue(REPORT);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('matches the parsed list and reports hits with first and last seen', async () => {
+    render(<IocPanel open onClose={() => undefined} />);
+
+    fireEvent.change(screen.getByLabelText('Indicators'), {
+      target: { value: 'evil[.]example\n203.0.113.7' }
+    });
+    expect(screen.getByText('2 indicators (1 domain, 1 ipv4)')).toBeInTheDocument();
+
+    await matchList('evil[.]example\n203.0.113.7');
+
+    expect(mockMatchIocs).toHaveBeenCalledWith({
+      indicators: ['evil.example', '203.0.113.7'],
+      columns: ['dst'],
+      timeColumn: 'time',
+      caseSensitive: false
+    });
+    const row = screen.getByText('evil.example').closest('tr')!;
+    expect(within(row).getByText('domain')).toBeInTheDocument();
+    expect(within(row).getByText(/2024-01-01/)).toBeInTheDocument();
+    expect(within(row).getByText(/2024-01-02/)).toBeInTheDocument();
+  });
+
+  it('adds hit rows to the filters as an OR group', async () => {
+    mockApplyFilter.mockImplementation(async ({ expression }: { expression: FilterNode }) => ({
+      rows: [],
+      totalRows: 10,
+      matchedRows: 3,
+      expression
+    }));
+    render(<IocPanel open onClose={() => undefined} />);
+    await matchList('evil.example\n203.0.113.7');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter hit rows' }));
+
+    await waitFor(() => expect(useSessionStore.getState().filterGroups).toHaveLength(1));
+    const [group] = useSessionStore.getState().filterGroups;
+    expect(group).toMatchObject({ op: 'or' });
+    expect(useSessionStore.getState().filters).toEqual([
+      expect.objectContaining({
+        column: 'dst',
+        operator: 'in',
+        value: ['evil.example'],
+        groupId: group!.id
+      })
+    ]);
+    expect(mockApplyFilter).toHaveBeenCalled();
+  });
+
+  it('tags hit rows with a new label', async () => {
+    const label: LabelDefinition = {
+      id: 'label-ioc',
+      name: 'IOC match',
+      color: '#8899ff',
+      createdAt: 1,
+      updatedAt: 1
+    };
+    mockUpdateLabel.mockResolvedValue(label);
+    mockRunRulePack.mockResolvedValue({
+      totalRows: 10,
+      rules: [{ id: 'ioc-list', name: 'IOC match', matchedRows: 3, labelId: 'label-ioc' }],
+      updated: { 4: { labelIds: ['label-ioc'], updatedAt: 2 } }
+    });
+    render(<IocPanel open onClose={() => undefined} />);
+    await matchList('evil.example\n203.0.113.7');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Tag hit rows' }));
+
+    await waitFor(() =>
+      expect(screen.getByText('Tagged 3 rows with "IOC match".')).toBeInTheDocument()
+    );
+    expect(mockRunRulePack).toHaveBeenCalledWith({
+      rules: [
+        {
+          id: 'ioc-list',
+          name: 'IOC match',
+          expression: {
+            op: 'or',
+            predicates: [
+              { column: 'dst', operator: 'in', value: ['evil.example'], caseSensitive: false }
+            ]
+          },
+          labelId: 'label-ioc'
+        }
+      ]
+    });
+    expect(useTagStore.getState().tags[4]?.labelIds).toEqual(['label-ioc']);
+  });
+});
@@ -0,0 +1,369 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import { useTagStore } from '@state/tagStore';
+import { useFilterSync } from '@/hooks/useFilterSync';
+import {
+  buildIocHitExpression,
+  buildIocHitFilters,
+  parseIocList,
+  type IocType
+} from '@utils/iocList';
+import { getDataWorker, type MatchIocsResult } from '@workers/dataWorkerProxy';
+import { formatDatetimeInZone } from '@workers/utils/timezone';
+
+interface IocPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const DEFAULT_LABEL_NAME = 'IOC match';
+
+const PLACEHOLDER = [
+  'One indicator per line, or a CSV with an "indicator" column',
+  '203.0.113[.]7',
+  'evil.example',
+  'd41d8cd98f00b204e9800998ecf8427e'
+].join('\n');
+
+const IocPanel = ({ open, onClose }: IocPanelProps): JSX.Element | null => {
+  const columns = useDataStore((state) => state.columns);
+  const displayTimeZone = useSessionStore((state) => state.displayTimeZone);
+  const labels = useTagStore((state) => state.labels);
+  const upsertLabel = useTagStore((state) => state.upsertLabel);
+  const runRulePack = useTagStore((state) => state.runRulePack);
+  const { filters, filterGroups, applyFilters } = useFilterSync();
+  const [source, setSource] = useState('');
+  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+  const [timeColumn, setTimeColumn] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [labelName, setLabelName] = useState(DEFAULT_LABEL_NAME);
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<MatchIocsResult | null>(null);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const indicators = useMemo(() => parseIocList(source), [source]);
+  const typeCounts = useMemo(() => {
+    const counts = new Map<IocType, number>();
+    for (const indicator of indicators) {
+      counts.set(indicator.type, (counts.get(indicator.type) ?? 0) + 1);
+    }
+    return Array.from(counts);
+  }, [indicators]);
+  const typeByValue = useMemo(
+    () => new Map(indicators.map((indicator) => [indicator.value, indicator.type])),
+    [indicators]
+  );
+
+  const stringColumns = useMemo(
+    () => columns.filter((column) => column.type === 'string'),
+    [columns]
+  );
+  const datetimeColumns = useMemo(
+    () => columns.filter((column) => column.type === 'datetime'),
+    [columns]
+  );
+
+  useEffect(() => {
+    setSelectedColumns((current) =>
+      current.filter((key) => stringColumns.some((column) => column.key === key))
+    );
+    setTimeColumn((current) =>
+      datetimeColumns.some((column) => column.key === current)
+        ? current
+        : (datetimeColumns[0]?.key ?? '')
+    );
+  }, [datetimeColumns, stringColumns]);
+
+  useEffect(() => {
+    if (open) {
+      setFeedback(null);
+      setRunError(null);
+    }
+  }, [open]);
+
+  if (!open) {
+    return null;
+  }
+
+  const handleImport = async () => {
+    if (!('showOpenFilePicker' in window)) {
+      alert('File System Access API is not supported in this browser.');
+      return;
+    }
+
+    try {
+      const openFilePicker = window.showOpenFilePicker!;
+      const [handle] = await openFilePicker({
+        types: [
+          {
+            description: 'Indicator lists',
+            accept: { 'text/plain': ['.txt', '.csv', '.tsv', '.ioc'] }
+          }
+        ]
+      });
+      const file = await handle.getFile();
+      setSource(await file.text());
+      setReport(null);
+      setFeedback(null);
+      setRunError(null);
+    } catch (error) {
+      if ((error as DOMException)?.name !== 'AbortError') {
+        setRunError(error instanceof Error ? error.message : 'Failed to read the indicator file.');
+      }
+    }
+  };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelectedColumns((current) =>
+      checked ? [...current, key] : current.filter((candidate) => candidate !== key)
+    );
+  };
+
+  const handleMatch = async () => {
+    if (!indicators.length || running) {
+      return;
+    }
+
+    setRunning(true);
+    setReport(null);
+    setFeedback(null);
+    setRunError(null);
+
+    try {
+      const result = await getDataWorker().matchIocs({
+        indicators: indicators.map((indicator) => indicator.value),
+        columns: selectedColumns,
+        timeColumn: timeColumn || null,
+        caseSensitive
+      });
+      setReport(result);
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleFilterHits = async () => {
+    const hitFilters = report ? buildIocHitFilters(report.hits, caseSensitive) : null;
+    if (!hitFilters) {
+      return;
+    }
+
+    await applyFilters(
+      [...filters, ...hitFilters.filters],
+      [...filterGroups, hitFilters.group]
+    );
+    setFeedback('Added an IOC hit group to the filters.');
+  };
+
+  const handleTagHits = async () => {
+    const expression = report ? buildIocHitExpression(report.hits, caseSensitive) : null;
+    const name = labelName.trim() || DEFAULT_LABEL_NAME;
+    if (!expression || running) {
+      return;
+    }
+
+    setRunning(true);
+    setFeedback(null);
+    setRunError(null);
+    try {
+      const label =
+        labels.find((candidate) => candidate.name === name) ??
+        (await upsertLabel({ name, description: 'Rows matching an IOC list' }));
+      if (!label) {
+        throw new Error('Failed to create the IOC label.');
+      }
+
+      const tagged = await runRulePack({
+        rules: [{ id: 'ioc-list', name, expression, labelId: label.id }]
+      });
+      if (!tagged) {
+        throw new Error('Failed to tag matching rows.');
+      }
+      const taggedRows = tagged.rules[0]?.matchedRows ?? 0;
+      setFeedback(`Tagged ${taggedRows.toLocaleString()} rows with "${label.name}".`);
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const formatSeen = (value: number | null): string =>
+    value == null ? '—' : formatDatetimeInZone(value, displayTimeZone);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">IOC matching</h2>
+          <div className="flex gap-2 text-xs">
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800"
+              onClick={handleImport}
+            >
+              Import list
+            </button>
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800"
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-4 overflow-auto px-4 py-3 text-sm text-slate-200">
+          <div className="grid gap-4 md:grid-cols-[3fr_2fr]">
+            <section className="flex flex-col gap-2">
+              <label className="flex flex-1 flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+                Indicators
+                <textarea
+                  value={source}
+                  spellCheck={false}
+                  placeholder={PLACEHOLDER}
+                  className="min-h-[14rem] flex-1 rounded border border-slate-700 bg-slate-950 px-2 py-1 font-mono text-xs normal-case tracking-normal text-slate-100"
+                  onChange={(event) => {
+                    setSource(event.target.value);
+                    setReport(null);
+                  }}
+                />
+              </label>
+              <p className="text-xs text-slate-400">
+                {indicators.length.toLocaleString()} indicators
+                {typeCounts.length > 0 &&
+                  ` (${typeCounts.map(([type, count]) => `${count} ${type}`).join(', ')})`}
+              </p>
+            </section>
+            <section className="flex flex-col gap-3 text-xs">
+              <div className="flex flex-col gap-1">
+                <h3 className="uppercase tracking-wide text-slate-400">Match against</h3>
+                <p className="text-slate-500">
+                  Whole cell values are compared. Leave every box clear to search all text
+                  columns.
+                </p>
+                <div className="flex max-h-40 flex-col gap-1 overflow-auto">
+                  {stringColumns.map((column) => (
+                    <label key={column.key} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedColumns.includes(column.key)}
+                        onChange={(event) => toggleColumn(column.key, event.target.checked)}
+                      />
+                      {column.headerName}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="flex items-center justify-between gap-2">
+                First/last seen from
+                <select
+                  className="w-40 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+                  value={timeColumn}
+                  onChange={(event) => setTimeColumn(event.target.value)}
+                >
+                  <option value="">None</option>
+                  {datetimeColumns.map((column) => (
+                    <option key={column.key} value={column.key}>
+                      {column.headerName}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={caseSensitive}
+                  onChange={(event) => setCaseSensitive(event.target.checked)}
+                />
+                Case sensitive
+              </label>
+              <button
+                type="button"
+                className="rounded border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+                onClick={handleMatch}
+                disabled={!indicators.length || running || stringColumns.length === 0}
+              >
+                {running ? 'Matching…' : 'Match indicators'}
+              </button>
+            </section>
+          </div>
+          {report && (
+            <section className="flex flex-col gap-2 text-xs">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-slate-300">
+                  {report.hits.length.toLocaleString()} of {indicators.length.toLocaleString()}{' '}
+                  indicators hit {report.matchedRows.toLocaleString()} of{' '}
+                  {report.totalRows.toLocaleString()} rows.
+                </p>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    className="rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+                    onClick={() => void handleFilterHits()}
+                    disabled={report.hits.length === 0}
+                  >
+                    Filter hit rows
+                  </button>
+                  <input
+                    aria-label="Label name"
+                    className="w-32 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+                    value={labelName}
+                    onChange={(event) => setLabelName(event.target.value)}
+                  />
+                  <button
+                    type="button"
+                    className="rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+                    onClick={() => void handleTagHits()}
+                    disabled={report.hits.length === 0 || running}
+                  >
+                    Tag hit rows
+                  </button>
+                </div>
+              </div>
+              {report.hits.length > 0 && (
+                <div className="max-h-72 overflow-auto rounded border border-slate-800">
+                  <table className="w-full text-left">
+                    <thead className="sticky top-0 bg-slate-900 text-slate-400">
+                      <tr>
+                        <th className="px-2 py-1 font-normal">Indicator</th>
+                        <th className="px-2 py-1 font-normal">Type</th>
+                        <th className="px-2 py-1 text-right font-normal">Rows</th>
+                        <th className="px-2 py-1 font-normal">Columns</th>
+                        <th className="px-2 py-1 font-normal">First seen</th>
+                        <th className="px-2 py-1 font-normal">Last seen</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.hits.map((hit) => (
+                        <tr key={hit.indicator} className="border-t border-slate-800">
+                          <td className="px-2 py-1 font-mono">{hit.indicator}</td>
+                          <td className="px-2 py-1">{typeByValue.get(hit.indicator) ?? 'other'}</td>
+                          <td className="px-2 py-1 text-right">
+                            {hit.matchedRows.toLocaleString()}
+                          </td>
+                          <td className="px-2 py-1">{hit.columns.join(', ')}</td>
+                          <td className="px-2 py-1">{formatSeen(hit.firstSeen)}</td>
+                          <td className="px-2 py-1">{formatSeen(hit.lastSeen)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          )}
+          {feedback && <p className="text-xs text-emerald-300">{feedback}</p>}
+          {runError && <p className="text-xs text-rose-300">{runError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IocPanel;
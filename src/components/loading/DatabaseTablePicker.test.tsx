@@ -0,0 +1,91 @@
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { loadSavedSqliteQueries } from '@utils/sqliteQueries';
+import type { DatabaseTable } from '@workers/dataWorkerProxy';
+
+import DatabaseTablePicker from './DatabaseTablePicker';
+
+const TABLES: DatabaseTable[] = [
+  { name: 'meta', kind: 'table', columns: ['key', 'value'], readable: false },
+  { name: 'urls', kind: 'table', columns: ['id', 'url', 'title'], readable: true },
+  { name: 'visits', kind: 'table', columns: ['id', 'url', 'visit_time'], readable: true },
+  { name: 'recent', kind: 'view', columns: ['url', 'visit_time'], readable: true }
+];
+
+describe('DatabaseTablePicker', () => {
+  afterEach(() => {
+    cleanup();
+    window.localStorage.clear();
+  });
+
+  it('preselects the first readable table and disables unreadable ones', () => {
+    const onLoad = vi.fn();
+    render(
+      <DatabaseTablePicker
+        databaseName="History"
+        tables={TABLES}
+        onLoad={onLoad}
+        onLoadQuery={vi.fn()}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText(/meta/)).toBeDisabled();
+    expect(screen.getByText('view')).toBeInTheDocument();
+    expect(screen.getByLabelText(/urls/)).toBeChecked();
+    expect(screen.getByText('id, url, visit_time')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText(/visits/));
+    fireEvent.click(screen.getByRole('button', { name: 'Load 2 tables' }));
+
+    expect(onLoad).toHaveBeenCalledWith(['urls', 'visits']);
+  });
+
+  it('saves a query by name and loads its result', () => {
+    const onLoadQuery = vi.fn();
+    render(
+      <DatabaseTablePicker
+        databaseName="History"
+        tables={TABLES}
+        onLoad={vi.fn()}
+        onLoadQuery={onLoadQuery}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Load query' })).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Query name'), { target: { value: ' Top sites ' } });
+    fireEvent.change(screen.getByLabelText('SELECT statement'), {
+      target: { value: 'SELECT url FROM urls ORDER BY visit_count DESC' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save query' }));
+    expect(loadSavedSqliteQueries()).toEqual([
+      { name: 'Top sites', sql: 'SELECT url FROM urls ORDER BY visit_count DESC' }
+    ]);
+    expect(screen.getByLabelText('Saved queries')).toHaveValue('Top sites');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Load query' }));
+    expect(onLoadQuery).toHaveBeenCalledWith({
+      name: 'Top sites',
+      sql: 'SELECT url FROM urls ORDER BY visit_count DESC'
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete saved query' }));
+    expect(loadSavedSqliteQueries()).toEqual([]);
+  });
+
+  it('renders nothing without a database', () => {
+    const { container } = render(
+      <DatabaseTablePicker
+        databaseName={null}
+        tables={[]}
+        onLoad={vi.fn()}
+        onLoadQuery={vi.fn()}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+
+import {
+  deleteSavedSqliteQuery,
+  loadSavedSqliteQueries,
+  saveSqliteQuery,
+  type SavedSqliteQuery
+} from '@utils/sqliteQueries';
+import type { DatabaseTable } from '@workers/dataWorkerProxy';
+
+interface DatabaseTablePickerProps {
+  /** Name of the database being opened; the picker is hidden while null. */
+  databaseName: string | null;
+  tables: DatabaseTable[];
+  onLoad: (tables: string[]) => void;
+  /** Loads the result of a SELECT, named like a table. */
+  onLoadQuery: (query: SavedSqliteQuery) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_QUERY: SavedSqliteQuery = { name: '', sql: '' };
+
+const DatabaseTablePicker = ({
+  databaseName,
+  tables,
+  onLoad,
+  onLoadQuery,
+  onCancel
+}: DatabaseTablePickerProps): JSX.Element | null => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [savedQueries, setSavedQueries] = useState<SavedSqliteQuery[]>([]);
+  const [queryChoice, setQueryChoice] = useState('');
+  const [queryDraft, setQueryDraft] = useState<SavedSqliteQuery>(EMPTY_QUERY);
+
+  useEffect(() => {
+    const first = tables.find((table) => table.readable);
+    setSelected(first ? [first.name] : []);
+    setSavedQueries(loadSavedSqliteQueries());
+    setQueryChoice('');
+    setQueryDraft(EMPTY_QUERY);
+  }, [tables]);
+
+  if (databaseName == null) {
+    return null;
+  }
+
+  const query = { name: queryDraft.name.trim(), sql: queryDraft.sql.trim() };
+  const canRunQuery = query.name.length > 0 && query.sql.length > 0;
+
+  const chooseQuery = (name: string) => {
+    setQueryChoice(name);
+    setQueryDraft(savedQueries.find((saved) => saved.name === name) ?? EMPTY_QUERY);
+  };
+
+  const handleSaveQuery = () => {
+    setSavedQueries(saveSqliteQuery(query));
+    setQueryChoice(query.name);
+  };
+
+  const handleDeleteQuery = () => {
+    setSavedQueries(deleteSavedSqliteQuery(queryChoice));
+    setQueryChoice('');
+  };
+
+  const toggleTable = (name: string, checked: boolean) => {
+    // Keep schema order so merged loads are stable.
+    setSelected((current) =>
+      tables
+        .map((table) => table.name)
+        .filter((candidate) => (candidate === name ? checked : current.includes(candidate)))
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[80vh] w-full max-w-2xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Open {databaseName}</h2>
+          <button
+            type="button"
+            className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-800"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+        </header>
+        <div className="flex flex-1 flex-col gap-2 overflow-auto px-4 py-3 text-xs text-slate-200">
+          <p className="text-slate-400">
+            Choose the table or view to load. Choosing several loads them as one dataset with a{' '}
+            <code>__source</code> column.
+          </p>
+          {tables.length === 0 ? (
+            <p className="text-slate-500">The database has no tables or views.</p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {tables.map((table) => (
+                <li key={table.name}>
+                  <label
+                    className={`flex items-center gap-2 ${table.readable ? '' : 'text-slate-500'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(table.name)}
+                      disabled={!table.readable}
+                      onChange={(event) => toggleTable(table.name, event.target.checked)}
+                    />
+                    <span className="flex-1 break-all font-mono">{table.name}</span>
+                    {table.kind === 'view' && <span className="text-slate-400">view</span>}
+                    {!table.readable && <span className="text-slate-400">WITHOUT ROWID</span>}
+                  </label>
+                  <p className="ml-6 break-all text-slate-500">{table.columns.join(', ')}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+          <section className="mt-2 flex flex-col gap-2 border-t border-slate-800 pt-3">
+            <h3 className="font-semibold text-slate-100">SQL query</h3>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex flex-col gap-1">
+                <span className="text-slate-400">Saved queries</span>
+                <select
+                  className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                  value={queryChoice}
+                  onChange={(event) => chooseQuery(event.target.value)}
+                >
+                  <option value="">New query…</option>
+                  {savedQueries.map((saved) => (
+                    <option key={saved.name} value={saved.name}>
+                      {saved.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-slate-400">Query name</span>
+                <input
+                  className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                  value={queryDraft.name}
+                  placeholder="e.g. Top sites"
+                  onChange={(event) =>
+                    setQueryDraft((current) => ({ ...current, name: event.target.value }))
+                  }
+                />
+              </label>
+            </div>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">SELECT statement</span>
+              <textarea
+                className="rounded border border-slate-600 bg-slate-950 px-2 py-1 font-mono text-sm"
+                rows={4}
+                spellCheck={false}
+                value={queryDraft.sql}
+                placeholder="SELECT url, title, visit_count FROM urls ORDER BY visit_count DESC"
+                onChange={(event) =>
+                  setQueryDraft((current) => ({ ...current, sql: event.target.value }))
+                }
+              />
+            </label>
+            <span className="text-slate-500">
+              The query runs on a copy of the database held in memory; the name labels the
+              dataset like a table name.
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                className="rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+                onClick={handleSaveQuery}
+                disabled={!canRunQuery}
+              >
+                Save query
+              </button>
+              {queryChoice !== '' && (
+                <button
+                  type="button"
+                  className="rounded border border-slate-700 px-2 py-1 text-rose-300 hover:bg-slate-800"
+                  onClick={handleDeleteQuery}
+                >
+                  Delete saved query
+                </button>
+              )}
+              <button
+                type="button"
+                className="ml-auto rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+                onClick={() => onLoadQuery(query)}
+                disabled={!canRunQuery}
+              >
+                Load query
+              </button>
+            </div>
+          </section>
+        </div>
+        <footer className="flex items-center justify-end gap-2 border-t border-slate-800 px-4 py-3 text-xs">
+          <button
+            type="button"
+            className="rounded bg-accent px-3 py-1 font-semibold text-slate-900 disabled:opacity-40"
+            onClick={() => onLoad(selected)}
+            disabled={selected.length === 0}
+          >
+            {selected.length > 1 ? `Load ${selected.length} tables` : 'Load table'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default DatabaseTablePicker;
@@ -0,0 +1,105 @@
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { useSessionStore } from '@state/sessionStore';
+import { LOG_FORMAT_PRESETS, loadSavedLogFormats } from '@utils/logFormats';
+import LoadOptionsDialog from './LoadOptionsDialog';
+
+const mockPreviewFile = vi.fn();
+
+vi.mock('@workers/dataWorkerProxy', () => {
+  return {
+    getDataWorker: () => ({
+      previewFile: mockPreviewFile
+    })
+  };
+});
+
+const handle = { kind: 'file', name: 'events.txt' } as unknown as FileSystemFileHandle;
+
+describe('LoadOptionsDialog', () => {
+  beforeEach(() => {
+    mockPreviewFile.mockReset();
+    mockPreviewFile.mockImplementation(async (request: { hasHeader?: boolean }) => ({
+      format: 'delimited',
+      encoding: 'utf-8',
+      columns: request.hasHeader === false ? ['column_1', 'column_2'] : ['dc01', '4624'],
+      rows: request.hasHeader === false ? [['dc01', '4624']] : []
+    }));
+    useSessionStore.setState({
+      fileHandle: handle,
+      caseFiles: [],
+      sourceEncoding: null,
+      csvDialect: {},
+      logFormat: null
+    });
+    window.localStorage.clear();
+  });
+
+  it('previews the draft dialect and applies the changed settings', async () => {
+    const apply = vi.fn().mockResolvedValue(undefined);
+
+    render(<LoadOptionsDialog open onClose={() => {}} onApply={apply} />);
+
+    await waitFor(() => expect(screen.getByText('dc01')).toBeInTheDocument());
+    const applyButton = screen.getByRole('button', { name: 'Apply and reload' });
+    expect(applyButton).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Delimiter'), { target: { value: '|' } });
+    fireEvent.click(screen.getByLabelText('First row is a header'));
+
+    await waitFor(() => expect(screen.getByText('column_1')).toBeInTheDocument());
+    expect(mockPreviewFile).toHaveBeenLastCalledWith({
+      handle,
+      entry: undefined,
+      encoding: undefined,
+      delimiter: '|',
+      hasHeader: false
+    });
+
+    await act(async () => {
+      fireEvent.click(applyButton);
+    });
+
+    expect(apply).toHaveBeenCalledWith({ delimiter: '|', hasHeader: false }, null);
+  });
+
+  it('reads the file with a chosen log format and saves edited formats', async () => {
+    const apply = vi.fn().mockResolvedValue(undefined);
+    const nginxError = LOG_FORMAT_PRESETS.find((preset) => preset.name === 'Nginx error')!;
+
+    render(<LoadOptionsDialog open onClose={() => {}} onApply={apply} />);
+
+    await waitFor(() => expect(screen.getByText('dc01')).toBeInTheDocument());
+    fireEvent.change(screen.getByLabelText('Read as'), {
+      target: { value: 'preset:Nginx error' }
+    });
+
+    expect(screen.queryByLabelText('Delimiter')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Pattern')).toHaveValue(nginxError.pattern);
+    await waitFor(() =>
+      expect(mockPreviewFile).toHaveBeenLastCalledWith(
+        expect.objectContaining({ logFormat: nginxError })
+      )
+    );
+
+    fireEvent.change(screen.getByLabelText('Format name'), { target: { value: 'App log' } });
+    fireEvent.change(screen.getByLabelText('Pattern'), {
+      target: { value: '^(?<time>\\S+) (?<message>.*)$' }
+    });
+    expect(screen.getByLabelText('Read as')).toHaveValue('custom');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save format' }));
+    const appLog = { name: 'App log', pattern: '^(?<time>\\S+) (?<message>.*)$' };
+    expect(loadSavedLogFormats()).toEqual([appLog]);
+    expect(screen.getByLabelText('Read as')).toHaveValue('saved:App log');
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Apply and reload' }));
+    });
+    expect(apply).toHaveBeenCalledWith({}, appLog);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete saved format' }));
+    expect(loadSavedLogFormats()).toEqual([]);
+  });
+});
@@ -0,0 +1,481 @@
+import { useEffect, useState } from 'react';
+
+import { useSessionStore } from '@state/sessionStore';
+import {
+  LOG_FORMAT_PRESETS,
+  deleteSavedLogFormat,
+  loadSavedLogFormats,
+  saveLogFormat
+} from '@utils/logFormats';
+import { getDataWorker, type PreviewFileResult } from '@workers/dataWorkerProxy';
+import type { CsvDialect, Delimiter, LogFormat } from '@workers/types';
+
+interface LoadOptionsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Stores the dialect and log format and re-ingests the current file with them. */
+  onApply: (dialect: CsvDialect, logFormat: LogFormat | null) => Promise<void>;
+}
+
+const PREVIEW_DEBOUNCE_MS = 250;
+
+const DELIMITER_OPTIONS: Array<{ value: Delimiter | ''; label: string }> = [
+  { value: '', label: 'Auto-detect' },
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+  { value: '|', label: 'Pipe' }
+];
+
+const CUSTOM_LOG_FORMAT: LogFormat = { name: 'Custom', pattern: '' };
+
+const sameLogFormat = (left: LogFormat, right: LogFormat): boolean =>
+  left.name === right.name &&
+  left.pattern === right.pattern &&
+  (left.commentPrefix ?? '') === (right.commentPrefix ?? '');
+
+/** Select value naming where a log format came from: a preset, a saved format or neither. */
+const logFormatChoice = (format: LogFormat | null, saved: LogFormat[]): string => {
+  if (!format) {
+    return '';
+  }
+  if (LOG_FORMAT_PRESETS.some((preset) => sameLogFormat(preset, format))) {
+    return `preset:${format.name}`;
+  }
+  if (saved.some((entry) => sameLogFormat(entry, format))) {
+    return `saved:${format.name}`;
+  }
+  return 'custom';
+};
+
+const normaliseLogFormat = (format: LogFormat | null): LogFormat | null =>
+  format && {
+    name: format.name.trim() || CUSTOM_LOG_FORMAT.name,
+    pattern: format.pattern,
+    ...(format.commentPrefix ? { commentPrefix: format.commentPrefix } : {})
+  };
+
+/** Drops settings left at their defaults so stored dialects stay minimal. */
+const normaliseDialect = (dialect: CsvDialect): CsvDialect => {
+  const normalised: CsvDialect = {};
+  if (dialect.delimiter) {
+    normalised.delimiter = dialect.delimiter;
+  }
+  if (dialect.quoteChar != null && dialect.quoteChar !== '"') {
+    normalised.quoteChar = dialect.quoteChar;
+  }
+  if (dialect.escapeChar && dialect.escapeChar !== (dialect.quoteChar ?? '"')) {
+    normalised.escapeChar = dialect.escapeChar;
+  }
+  if (dialect.commentPrefix) {
+    normalised.commentPrefix = dialect.commentPrefix;
+  }
+  if (dialect.skipLines && dialect.skipLines > 0) {
+    normalised.skipLines = dialect.skipLines;
+  }
+  if (dialect.hasHeader === false) {
+    normalised.hasHeader = false;
+  }
+  return normalised;
+};
+
+const LoadOptionsDialog = ({
+  open,
+  onClose,
+  onApply
+}: LoadOptionsDialogProps): JSX.Element | null => {
+  const fileHandle = useSessionStore((state) => state.fileHandle);
+  const caseFiles = useSessionStore((state) => state.caseFiles);
+  const sourceEncoding = useSessionStore((state) => state.sourceEncoding);
+  const csvDialect = useSessionStore((state) => state.csvDialect);
+  const logFormat = useSessionStore((state) => state.logFormat);
+  const [draft, setDraft] = useState<CsvDialect>({});
+  const [logDraft, setLogDraft] = useState<LogFormat | null>(null);
+  const [logChoice, setLogChoice] = useState('');
+  const [savedFormats, setSavedFormats] = useState<LogFormat[]>([]);
+  const [preview, setPreview] = useState<PreviewFileResult | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+  const source = caseFiles[0]?.handle === fileHandle ? caseFiles[0] : undefined;
+  const entry = source?.entry;
+  const sheet = source?.sheet;
+  const table = source?.table;
+  const query = source?.query;
+
+  useEffect(() => {
+    if (open) {
+      const state = useSessionStore.getState();
+      const saved = loadSavedLogFormats();
+      setDraft(state.csvDialect);
+      setLogDraft(state.logFormat);
+      setLogChoice(logFormatChoice(state.logFormat, saved));
+      setSavedFormats(saved);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !fileHandle) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      getDataWorker()
+        .previewFile({
+          handle: fileHandle,
+          entry,
+          sheet,
+          table,
+          query,
+          encoding: sourceEncoding ?? undefined,
+          ...normaliseDialect(draft),
+          logFormat: normaliseLogFormat(logDraft) ?? undefined
+        })
+        .then((result) => {
+          if (!cancelled) {
+            setPreview(result);
+            setPreviewError(null);
+          }
+        })
+        .catch((error: unknown) => {
+          if (!cancelled) {
+            setPreview(null);
+            setPreviewError(error instanceof Error ? error.message : String(error));
+          }
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [draft, entry, fileHandle, logDraft, open, query, sheet, sourceEncoding, table]);
+
+  if (!open) {
+    return null;
+  }
+
+  const updateDraft = (patch: Partial<CsvDialect>) => {
+    setDraft((current) => ({ ...current, ...patch }));
+  };
+
+  const updateLogDraft = (patch: Partial<LogFormat>) => {
+    setLogDraft((current) => ({ ...(current ?? CUSTOM_LOG_FORMAT), ...patch }));
+    setLogChoice('custom');
+  };
+
+  const chooseLogFormat = (choice: string) => {
+    const [kind, ...rest] = choice.split(':');
+    const name = rest.join(':');
+    const options = kind === 'preset' ? LOG_FORMAT_PRESETS : savedFormats;
+    setLogChoice(choice);
+    if (!choice) {
+      setLogDraft(null);
+    } else if (choice === 'custom') {
+      setLogDraft((current) => current ?? CUSTOM_LOG_FORMAT);
+    } else {
+      setLogDraft(options.find((format) => format.name === name) ?? null);
+    }
+  };
+
+  const normalisedDraft = normaliseDialect(draft);
+  const normalisedLogDraft = normaliseLogFormat(logDraft);
+  const dirty =
+    JSON.stringify(normalisedDraft) !== JSON.stringify(normaliseDialect(csvDialect)) ||
+    JSON.stringify(normalisedLogDraft) !== JSON.stringify(normaliseLogFormat(logFormat));
+  const quoteChar = draft.quoteChar ?? '"';
+  const savedChoice = logChoice.startsWith('saved:') ? logChoice.slice('saved:'.length) : null;
+  const canSave =
+    normalisedLogDraft != null &&
+    normalisedLogDraft.pattern.length > 0 &&
+    !LOG_FORMAT_PRESETS.some((preset) => preset.name === normalisedLogDraft.name);
+
+  const handleSaveLogFormat = () => {
+    if (!normalisedLogDraft || !canSave) {
+      return;
+    }
+    setSavedFormats(saveLogFormat(normalisedLogDraft));
+    setLogDraft(normalisedLogDraft);
+    setLogChoice(`saved:${normalisedLogDraft.name}`);
+  };
+
+  const handleDeleteLogFormat = () => {
+    if (savedChoice == null) {
+      return;
+    }
+    setSavedFormats(deleteSavedLogFormat(savedChoice));
+    setLogChoice('custom');
+  };
+
+  const handleApply = async () => {
+    if (applying) {
+      return;
+    }
+    setApplying(true);
+    try {
+      await onApply(normalisedDraft, normalisedLogDraft);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Load options</h2>
+          <button
+            type="button"
+            className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-800"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </header>
+        <div className="grid grid-cols-3 gap-3 border-b border-slate-800 px-4 py-3 text-xs text-slate-300">
+          <label className="flex flex-col gap-1">
+            <span className="text-slate-400">Read as</span>
+            <select
+              className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+              value={logChoice}
+              onChange={(event) => chooseLogFormat(event.target.value)}
+            >
+              <option value="">Detect from file</option>
+              <optgroup label="Log formats">
+                {LOG_FORMAT_PRESETS.map((preset) => (
+                  <option key={preset.name} value={`preset:${preset.name}`}>
+                    {preset.name}
+                  </option>
+                ))}
+              </optgroup>
+              {savedFormats.length > 0 && (
+                <optgroup label="Saved formats">
+                  {savedFormats.map((format) => (
+                    <option key={format.name} value={`saved:${format.name}`}>
+                      {format.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              <option value="custom">Custom log format…</option>
+            </select>
+          </label>
+          {logDraft && (
+            <>
+              <label className="flex flex-col gap-1">
+                <span className="text-slate-400">Format name</span>
+                <input
+                  className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                  value={logDraft.name}
+                  onChange={(event) => updateLogDraft({ name: event.target.value })}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-slate-400">Comment prefix</span>
+                <input
+                  className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                  value={logDraft.commentPrefix ?? ''}
+                  placeholder="e.g. #"
+                  onChange={(event) => updateLogDraft({ commentPrefix: event.target.value })}
+                />
+              </label>
+              <div className="col-span-3 flex flex-col gap-1">
+                <label className="flex flex-col gap-1">
+                  <span className="text-slate-400">Pattern</span>
+                  <textarea
+                    className="rounded border border-slate-600 bg-slate-950 px-2 py-1 font-mono text-sm"
+                    rows={3}
+                    spellCheck={false}
+                    value={logDraft.pattern}
+                    placeholder="^(?<time>\S+) (?<level>\w+) (?<message>.*)$"
+                    onChange={(event) => updateLogDraft({ pattern: event.target.value })}
+                  />
+                </label>
+                <span className="text-slate-500">
+                  Named groups become columns; unnamed groups are numbered when there are none.
+                </span>
+              </div>
+              <div className="col-span-3 flex gap-2">
+                <button
+                  type="button"
+                  className="rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+                  onClick={handleSaveLogFormat}
+                  disabled={!canSave}
+                >
+                  Save format
+                </button>
+                {savedChoice != null && (
+                  <button
+                    type="button"
+                    className="rounded border border-slate-700 px-2 py-1 text-rose-300 hover:bg-slate-800"
+                    onClick={handleDeleteLogFormat}
+                  >
+                    Delete saved format
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+        {!logDraft && (
+          <div className="grid grid-cols-3 gap-3 border-b border-slate-800 px-4 py-3 text-xs text-slate-300">
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Delimiter</span>
+              <select
+                className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                value={draft.delimiter ?? ''}
+                onChange={(event) =>
+                  updateDraft({
+                    delimiter: (event.target.value || undefined) as Delimiter | undefined
+                  })
+                }
+              >
+                {DELIMITER_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Quote character</span>
+              <input
+                className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                maxLength={1}
+                value={quoteChar}
+                placeholder="none"
+                onChange={(event) => updateDraft({ quoteChar: event.target.value })}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Escapes</span>
+              <select
+                className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                value={draft.escapeChar === '\\' ? 'backslash' : 'double'}
+                onChange={(event) =>
+                  updateDraft({
+                    escapeChar: event.target.value === 'backslash' ? '\\' : undefined
+                  })
+                }
+              >
+                <option value="double">Doubled quotes</option>
+                <option value="backslash">Backslash</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Comment prefix</span>
+              <input
+                className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                value={draft.commentPrefix ?? ''}
+                placeholder="e.g. #"
+                onChange={(event) => updateDraft({ commentPrefix: event.target.value })}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Lines to skip</span>
+              <input
+                type="number"
+                min={0}
+                className="rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                value={draft.skipLines ?? 0}
+                onChange={(event) =>
+                  updateDraft({
+                    skipLines: Math.max(0, Number.parseInt(event.target.value, 10) || 0)
+                  })
+                }
+              />
+            </label>
+            <label className="flex items-center gap-2 self-end pb-1">
+              <input
+                type="checkbox"
+                checked={draft.hasHeader ?? true}
+                onChange={(event) => updateDraft({ hasHeader: event.target.checked })}
+              />
+              <span>First row is a header</span>
+            </label>
+          </div>
+        )}
+        <div className="flex flex-1 flex-col gap-2 overflow-auto px-4 py-3 text-xs text-slate-200">
+          {!fileHandle ? (
+            <p className="text-slate-500">Open a file to preview these options.</p>
+          ) : previewError ? (
+            <p className="text-rose-300">{previewError}</p>
+          ) : !preview ? (
+            <p className="text-slate-500">Loading preview…</p>
+          ) : (
+            <>
+              {preview.format === 'jsonl' && (
+                <p className="text-slate-400">
+                  JSON Lines files ignore these options; they apply to delimited text.
+                </p>
+              )}
+              {preview.format === 'xlsx' && (
+                <p className="text-slate-400">
+                  Excel workbooks only use the lines to skip and the header setting.
+                </p>
+              )}
+              {(preview.format === 'arrow' || preview.format === 'parquet') && (
+                <p className="text-slate-400">
+                  {preview.format === 'arrow' ? 'Arrow' : 'Parquet'} files carry their own
+                  schema and column types; these options do not apply.
+                </p>
+              )}
+              {preview.format === 'log' && (
+                <p className="text-slate-400">
+                  Lines the format does not match are kept whole in the _raw column and listed
+                  as parse issues.
+                </p>
+              )}
+              {preview.format === 'evtx' && (
+                <p className="text-slate-400">
+                  Windows event logs are binary records; these options do not apply.
+                </p>
+              )}
+              {preview.format === 'sqlite' && (
+                <p className="text-slate-400">
+                  SQLite tables carry declared column types; these options do not apply.
+                </p>
+              )}
+              <table className="w-full border-collapse text-left font-mono">
+                <thead>
+                  <tr>
+                    {preview.columns.map((column) => (
+                      <th key={column} className="border-b border-slate-700 px-2 py-1 text-slate-400">
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="odd:bg-slate-800/40">
+                      {row.map((cell, cellIndex) => (
+                        <td key={cellIndex} className="max-w-xs truncate px-2 py-1" title={cell}>
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+        <footer className="flex items-center justify-end gap-2 border-t border-slate-800 px-4 py-3 text-xs">
+          <button
+            type="button"
+            className="rounded bg-accent px-3 py-1 font-semibold text-slate-900 disabled:opacity-40"
+            onClick={handleApply}
+            disabled={!fileHandle || !dirty || applying}
+          >
+            {applying ? 'Reloading…' : 'Apply and reload'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default LoadOptionsDialog;
@@ -0,0 +1,69 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { useDataStore } from '@state/dataStore';
+import ParseIssuesPanel from './ParseIssuesPanel';
+
+const mockGetParseIssues = vi.fn();
+const mockLocateRow = vi.fn();
+
+vi.mock('@workers/dataWorkerProxy', () => {
+  return {
+    getDataWorker: () => ({
+      getParseIssues: mockGetParseIssues,
+      locateRow: mockLocateRow
+    })
+  };
+});
+
+describe('ParseIssuesPanel', () => {
+  beforeEach(() => {
+    mockGetParseIssues.mockReset();
+    mockLocateRow.mockReset();
+    mockGetParseIssues.mockResolvedValue({
+      totalIssues: 2,
+      issues: [
+        {
+          kind: 'extraFields',
+          rowIndex: 41,
+          byteOffset: 1_337,
+          expectedFields: 3,
+          actualFields: 4,
+          snippet: 'dc02,bob,logon,extra'
+        },
+        {
+          kind: 'unterminatedQuote',
+          rowIndex: 99,
+          byteOffset: 4_096,
+          expectedFields: 3,
+          actualFields: 2,
+          snippet: 'ws18,dave'
+        }
+      ]
+    });
+    useDataStore.setState({ parseIssueCount: 2, rowFocusRequest: null });
+  });
+
+  it('lists issues and jumps to a row visible in the current view', async () => {
+    mockLocateRow.mockImplementation(async (rowId: number) => (rowId === 41 ? 7 : null));
+    const onClose = vi.fn();
+
+    render(<ParseIssuesPanel open onClose={onClose} />);
+
+    await waitFor(() => expect(screen.getByText('dc02,bob,logon,extra')).toBeInTheDocument());
+    expect(screen.getByText('Too many fields')).toBeInTheDocument();
+    expect(screen.getByText('Unterminated quote')).toBeInTheDocument();
+
+    const [first, second] = screen.getAllByRole('button', { name: 'Jump to row' });
+    fireEvent.click(second!);
+    await waitFor(() =>
+      expect(screen.getByText('Row 100 is hidden by the current view.')).toBeInTheDocument()
+    );
+    expect(onClose).not.toHaveBeenCalled();
+
+    fireEvent.click(first!);
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(mockLocateRow).toHaveBeenLastCalledWith(41);
+    expect(useDataStore.getState().rowFocusRequest?.index).toBe(7);
+  });
+});
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+
+import { useDataStore } from '@state/dataStore';
+import { getDataWorker, type ParseIssueReport } from '@workers/dataWorkerProxy';
+import type { ParseIssue, ParseIssueKind } from '@workers/types';
+
+interface ParseIssuesPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ISSUE_LABELS: Record<ParseIssueKind, string> = {
+  extraFields: 'Too many fields',
+  missingFields: 'Too few fields',
+  unterminatedQuote: 'Unterminated quote',
+  unmatchedLine: 'No format match'
+};
+
+const ParseIssuesPanel = ({ open, onClose }: ParseIssuesPanelProps): JSX.Element | null => {
+  const parseIssueCount = useDataStore((state) => state.parseIssueCount);
+  const requestRowFocus = useDataStore((state) => state.requestRowFocus);
+  const [report, setReport] = useState<ParseIssueReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    let cancelled = false;
+    setError(null);
+    getDataWorker()
+      .getParseIssues()
+      .then((result) => {
+        if (!cancelled) {
+          setReport(result);
+        }
+      })
+      .catch((reason: unknown) => {
+        if (!cancelled) {
+          setError(reason instanceof Error ? reason.message : String(reason));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, parseIssueCount]);
+
+  if (!open) {
+    return null;
+  }
+
+  const handleJump = async (issue: ParseIssue) => {
+    try {
+      const index = await getDataWorker().locateRow(issue.rowIndex);
+      if (index == null) {
+        setError(`Row ${(issue.rowIndex + 1).toLocaleString()} is hidden by the current view.`);
+        return;
+      }
+      requestRowFocus(index);
+      onClose();
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    }
+  };
+
+  const issues = report?.issues ?? [];
+  const showSource = issues.some((issue) => issue.source);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[90vh] w-full max-w-5xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Parse issues</h2>
+          <button
+            type="button"
+            className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-800"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </header>
+        <div className="flex flex-1 flex-col gap-2 overflow-auto px-4 py-3 text-xs text-slate-200">
+          {error && <p className="text-rose-300">{error}</p>}
+          {report && report.totalIssues === 0 && (
+            <p className="text-slate-500">No malformed rows were found in the loaded data.</p>
+          )}
+          {report && report.totalIssues > 0 && (
+            <>
+              <p className="text-slate-300">
+                {report.totalIssues.toLocaleString()} rows did not match the header and were
+                loaded as parsed: missing fields are empty and extra fields are dropped.
+                {report.totalIssues > issues.length &&
+                  ` Only the first ${issues.length.toLocaleString()} are listed.`}
+              </p>
+              <table className="w-full text-left">
+                <thead className="sticky top-0 bg-slate-900 text-slate-400">
+                  <tr>
+                    <th className="px-2 py-1 text-right font-normal">Row</th>
+                    {showSource && <th className="px-2 py-1 font-normal">File</th>}
+                    <th className="px-2 py-1 text-right font-normal">Byte offset</th>
+                    <th className="px-2 py-1 font-normal">Problem</th>
+                    <th className="px-2 py-1 text-right font-normal">Fields</th>
+                    <th className="px-2 py-1 font-normal">Content</th>
+                    <th className="px-2 py-1" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {issues.map((issue) => (
+                    <tr key={issue.rowIndex} className="border-t border-slate-800">
+                      <td className="px-2 py-1 text-right">
+                        {(issue.rowIndex + 1).toLocaleString()}
+                      </td>
+                      {showSource && <td className="px-2 py-1">{issue.source ?? ''}</td>}
+                      <td className="px-2 py-1 text-right font-mono">
+                        {issue.byteOffset.toLocaleString()}
+                      </td>
+                      <td className="px-2 py-1">{ISSUE_LABELS[issue.kind]}</td>
+                      <td className="px-2 py-1 text-right">
+                        {issue.actualFields} / {issue.expectedFields}
+                      </td>
+                      <td className="max-w-md truncate px-2 py-1 font-mono" title={issue.snippet}>
+                        {issue.snippet}
+                      </td>
+                      <td className="px-2 py-1 text-right">
+                        <button
+                          type="button"
+                          className="rounded border border-slate-700 px-2 py-0.5 text-slate-200 hover:bg-slate-800"
+                          onClick={() => void handleJump(issue)}
+                        >
+                          Jump to row
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParseIssuesPanel;
@@ -0,0 +1,41 @@
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import WorkbookSheetPicker from './WorkbookSheetPicker';
+
+const SHEETS = ['Logons', 'Processes', 'Services'];
+
+describe('WorkbookSheetPicker', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('preselects the first sheet and reports the chosen sheets in workbook order', () => {
+    const onLoad = vi.fn();
+    render(
+      <WorkbookSheetPicker
+        workbookName="triage.xlsx"
+        sheets={SHEETS}
+        onLoad={onLoad}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText('Logons')).toBeChecked();
+    expect(screen.getByLabelText('Services')).not.toBeChecked();
+
+    fireEvent.click(screen.getByLabelText('Services'));
+    fireEvent.click(screen.getByLabelText('Processes'));
+    fireEvent.click(screen.getByRole('button', { name: 'Load 3 sheets' }));
+
+    expect(onLoad).toHaveBeenCalledWith(['Logons', 'Processes', 'Services']);
+  });
+
+  it('renders nothing without a workbook', () => {
+    const { container } = render(
+      <WorkbookSheetPicker workbookName={null} sheets={[]} onLoad={vi.fn()} onCancel={vi.fn()} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
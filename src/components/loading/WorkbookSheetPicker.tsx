@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+
+interface WorkbookSheetPickerProps {
+  /** Name of the workbook being opened; the picker is hidden while null. */
+  workbookName: string | null;
+  sheets: string[];
+  onLoad: (sheets: string[]) => void;
+  onCancel: () => void;
+}
+
+const WorkbookSheetPicker = ({
+  workbookName,
+  sheets,
+  onLoad,
+  onCancel
+}: WorkbookSheetPickerProps): JSX.Element | null => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSelected(sheets.slice(0, 1));
+  }, [sheets]);
+
+  if (workbookName == null) {
+    return null;
+  }
+
+  const toggleSheet = (sheet: string, checked: boolean) => {
+    // Keep workbook order so merged loads are stable.
+    setSelected((current) =>
+      sheets.filter((candidate) =>
+        candidate === sheet ? checked : current.includes(candidate)
+      )
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[80vh] w-full max-w-md flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Open {workbookName}</h2>
+          <button
+            type="button"
+            className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-800"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+        </header>
+        <div className="flex flex-1 flex-col gap-2 overflow-auto px-4 py-3 text-xs text-slate-200">
+          <p className="text-slate-400">
+            Choose the worksheet to load. Choosing several loads them as one dataset with a{' '}
+            <code>__source</code> column.
+          </p>
+          <ul className="flex flex-col gap-1">
+            {sheets.map((sheet) => (
+              <li key={sheet}>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(sheet)}
+                    onChange={(event) => toggleSheet(sheet, event.target.checked)}
+                  />
+                  <span className="flex-1 break-all">{sheet}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <footer className="flex items-center justify-end gap-2 border-t border-slate-800 px-4 py-3 text-xs">
+          <button
+            type="button"
+            className="rounded bg-accent px-3 py-1 font-semibold text-slate-900 disabled:opacity-40"
+            onClick={() => onLoad(selected)}
+            disabled={selected.length === 0}
+          >
+            {selected.length > 1 ? `Load ${selected.length} sheets` : 'Load sheet'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default WorkbookSheetPicker;
@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { act, fireEvent, render, screen } from '@testing-library/react';
 
 import OptionsPanel from './OptionsPanel';
+import { useDataStore } from '@state/dataStore';
 import { useSessionStore } from '@state/sessionStore';
 import {
   DEFAULT_FONT_ID,
@@ -15,8 +16,12 @@ describe('OptionsPanel', () => {
       interfaceFontFamily: DEFAULT_FONT_ID,
       interfaceFontSize: DEFAULT_FONT_SIZE,
       dataFontFamily: DEFAULT_FONT_ID,
-      dataFontSize: DEFAULT_FONT_SIZE
+      dataFontSize: DEFAULT_FONT_SIZE,
+      sourceTimeZones: {},
+      sourceEncoding: null,
+      displayTimeZone: 'UTC'
     });
+    useDataStore.setState({ columns: [], encoding: null, fileName: null });
   });
 
   it('renders font options when open', () => {
@@ -73,4 +78,68 @@ describe('OptionsPanel', () => {
 
     expect(flush).toHaveBeenCalledTimes(1);
   });
+
+  it('updates the display zone and applies per-column source zones', async () => {
+    useDataStore.setState({
+      columns: [
+        { key: 'ts', headerName: 'ts', type: 'datetime', confidence: 1, examples: [] },
+        { key: 'host', headerName: 'host', type: 'string', confidence: 1, examples: [] }
+      ]
+    });
+    const apply = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <OptionsPanel
+        open
+        onClose={() => {}}
+        onFlushStoredData={async () => {}}
+        onApplySourceTimeZones={apply}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText(/display time zone/i), {
+      target: { value: 'Europe/Paris' }
+    });
+    expect(useSessionStore.getState().displayTimeZone).toBe('Europe/Paris');
+
+    expect(screen.queryByLabelText(/source time zone for host/i)).not.toBeInTheDocument();
+    const applyButton = screen.getByRole('button', { name: 'Apply and reload' });
+    expect(applyButton).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText(/source time zone for ts/i), {
+      target: { value: 'America/New_York' }
+    });
+    await act(async () => {
+      fireEvent.click(applyButton);
+    });
+
+    expect(apply).toHaveBeenCalledWith({ ts: 'America/New_York' });
+  });
+
+  it('shows the detected encoding and reloads with an override', async () => {
+    useDataStore.setState({ encoding: 'utf-16le', fileName: 'services.csv' });
+    const apply = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <OptionsPanel
+        open
+        onClose={() => {}}
+        onFlushStoredData={async () => {}}
+        onApplySourceEncoding={apply}
+      />
+    );
+
+    expect(screen.getByText('services.csv was read as UTF-16LE (detected).')).toBeInTheDocument();
+    const reload = screen.getByRole('button', { name: 'Reload with encoding' });
+    expect(reload).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText(/source encoding/i), {
+      target: { value: 'windows-1252' }
+    });
+    await act(async () => {
+      fireEvent.click(reload);
+    });
+
+    expect(apply).toHaveBeenCalledWith('windows-1252');
+  });
 });
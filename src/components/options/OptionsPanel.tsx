@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
 
 import {
@@ -7,18 +7,35 @@ import {
   getFontOption,
   getFontStack
 } from '@constants/fonts';
+import { useDataStore } from '@state/dataStore';
 import { useSessionStore } from '@state/sessionStore';
+import { UTC_TIME_ZONE, isUtcTimeZone, listTimeZones } from '@workers/utils/timezone';
+import {
+  ENCODING_LABELS,
+  SOURCE_ENCODINGS,
+  type SourceEncoding
+} from '@workers/utils/detectEncoding';
 
 interface OptionsPanelProps {
   open: boolean;
   onClose: () => void;
   onFlushStoredData: () => Promise<void>;
+  onApplySourceTimeZones?: (sourceTimeZones: Record<string, string>) => Promise<void>;
+  /** Re-ingests the current file with a forced encoding, or detection when null. */
+  onApplySourceEncoding?: (encoding: SourceEncoding | null) => Promise<void>;
 }
 
+const AUTO_ENCODING = 'auto';
+
+const normaliseSourceTimeZones = (zones: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(zones).filter(([, zone]) => !isUtcTimeZone(zone)));
+
 const OptionsPanel = ({
   open,
   onClose,
-  onFlushStoredData
+  onFlushStoredData,
+  onApplySourceTimeZones,
+  onApplySourceEncoding
 }: OptionsPanelProps): JSX.Element | null => {
   const interfaceFontFamily = useSessionStore((state) => state.interfaceFontFamily);
   const interfaceFontSize = useSessionStore((state) => state.interfaceFontSize);
@@ -28,6 +45,22 @@ const OptionsPanel = ({
   const setInterfaceFontSize = useSessionStore((state) => state.setInterfaceFontSize);
   const setDataFontFamily = useSessionStore((state) => state.setDataFontFamily);
   const setDataFontSize = useSessionStore((state) => state.setDataFontSize);
+  const displayTimeZone = useSessionStore((state) => state.displayTimeZone);
+  const setDisplayTimeZone = useSessionStore((state) => state.setDisplayTimeZone);
+  const sourceTimeZones = useSessionStore((state) => state.sourceTimeZones);
+  const sourceEncoding = useSessionStore((state) => state.sourceEncoding);
+  const columns = useDataStore((state) => state.columns);
+  const loadedEncoding = useDataStore((state) => state.encoding);
+  const fileName = useDataStore((state) => state.fileName);
+  const timeZones = useMemo(() => listTimeZones(), []);
+  const datetimeColumns = useMemo(
+    () => columns.filter((column) => column.type === 'datetime'),
+    [columns]
+  );
+  const [draftSourceTimeZones, setDraftSourceTimeZones] = useState<Record<string, string>>({});
+  const [applyingTimeZones, setApplyingTimeZones] = useState(false);
+  const [draftEncoding, setDraftEncoding] = useState<SourceEncoding | null>(null);
+  const [applyingEncoding, setApplyingEncoding] = useState(false);
   const [flushState, setFlushState] = useState<'idle' | 'pending' | 'done'>('idle');
   const [flushError, setFlushError] = useState<string | null>(null);
 
@@ -52,6 +85,8 @@ const OptionsPanel = ({
     if (open) {
       setFlushState('idle');
       setFlushError(null);
+      setDraftSourceTimeZones(useSessionStore.getState().sourceTimeZones);
+      setDraftEncoding(useSessionStore.getState().sourceEncoding);
     }
   }, [open]);
 
@@ -77,6 +112,40 @@ const OptionsPanel = ({
     setDataFontSize(clampFontSize(Number.isFinite(parsed) ? parsed : NaN));
   };
 
+  const handleSourceTimeZoneChange = (column: string, value: string) => {
+    setDraftSourceTimeZones((current) => ({ ...current, [column]: value }));
+  };
+
+  const normalisedDraft = normaliseSourceTimeZones(draftSourceTimeZones);
+  const sourceTimeZonesDirty =
+    JSON.stringify(normalisedDraft) !== JSON.stringify(normaliseSourceTimeZones(sourceTimeZones));
+
+  const handleApplySourceTimeZones = async () => {
+    if (!onApplySourceTimeZones || applyingTimeZones) {
+      return;
+    }
+
+    setApplyingTimeZones(true);
+    try {
+      await onApplySourceTimeZones(normalisedDraft);
+    } finally {
+      setApplyingTimeZones(false);
+    }
+  };
+
+  const handleApplySourceEncoding = async () => {
+    if (!onApplySourceEncoding || applyingEncoding) {
+      return;
+    }
+
+    setApplyingEncoding(true);
+    try {
+      await onApplySourceEncoding(draftEncoding);
+    } finally {
+      setApplyingEncoding(false);
+    }
+  };
+
   const handleFlushStoredData = async () => {
     if (flushState === 'pending') {
       return;
@@ -94,6 +163,11 @@ const OptionsPanel = ({
     }
   };
 
+  const encodingNote = loadedEncoding
+    ? `${fileName ?? 'The current file'} was read as ${ENCODING_LABELS[loadedEncoding]}` +
+      `${sourceEncoding ? '' : ' (detected)'}.`
+    : 'Detected from the byte order mark or the first bytes of each file.';
+
   const activeInterfaceFont = getFontOption(interfaceFontFamily);
   const activeDataFont = getFontOption(dataFontFamily);
 
@@ -105,7 +179,7 @@ const OptionsPanel = ({
       onClick={onClose}
     >
       <div
-        className="flex w-full max-w-lg flex-col gap-4 rounded-lg border border-slate-700 bg-slate-900 p-6 text-sm text-slate-200 shadow-2xl"
+        className="flex max-h-[90vh] w-full max-w-lg flex-col gap-4 overflow-y-auto rounded-lg border border-slate-700 bg-slate-900 p-6 text-sm text-slate-200 shadow-2xl"
         onClick={(event) => event.stopPropagation()}
       >
         <header className="flex items-center justify-between">
@@ -213,6 +287,118 @@ const OptionsPanel = ({
             </div>
           </div>
 
+          <div className="flex flex-col gap-3 border-t border-slate-800 pt-4">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+              Time zones
+            </h3>
+            <label className="flex flex-col gap-2">
+              <span className="text-xs text-slate-400">Display time zone</span>
+              <select
+                className="rounded border border-slate-600 bg-slate-950 px-3 py-2 text-sm"
+                value={displayTimeZone}
+                onChange={(event) => setDisplayTimeZone(event.target.value)}
+              >
+                {timeZones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500">
+                Datetime cells and exports are rendered in this zone.
+              </p>
+            </label>
+            <div className="flex flex-col gap-2">
+              <span className="text-xs text-slate-400">Source time zones</span>
+              {datetimeColumns.length === 0 ? (
+                <p className="text-xs text-slate-500">
+                  Load a file with datetime columns to set the zone of timestamps without an
+                  offset.
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-slate-500">
+                    Timestamps without an explicit offset are read in this zone (UTC by default).
+                  </p>
+                  {datetimeColumns.map((column) => (
+                    <label
+                      key={column.key}
+                      className="flex items-center justify-between gap-2 text-xs text-slate-300"
+                    >
+                      <span className="truncate" title={column.headerName}>
+                        {column.headerName}
+                      </span>
+                      <select
+                        aria-label={`Source time zone for ${column.headerName}`}
+                        className="w-56 rounded border border-slate-600 bg-slate-950 px-2 py-1 text-sm"
+                        value={draftSourceTimeZones[column.key] ?? UTC_TIME_ZONE}
+                        onChange={(event) =>
+                          handleSourceTimeZoneChange(column.key, event.target.value)
+                        }
+                      >
+                        {timeZones.map((zone) => (
+                          <option key={zone} value={zone}>
+                            {zone}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                  {onApplySourceTimeZones && (
+                    <button
+                      type="button"
+                      className="self-end rounded border border-slate-600 px-3 py-2 text-xs font-semibold text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                      onClick={handleApplySourceTimeZones}
+                      disabled={!sourceTimeZonesDirty || applyingTimeZones}
+                    >
+                      {applyingTimeZones ? 'Reloading…' : 'Apply and reload'}
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3 border-t border-slate-800 pt-4">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+              Text encoding
+            </h3>
+            <label className="flex flex-col gap-2">
+              <span className="text-xs text-slate-400">Source encoding</span>
+              <select
+                className="rounded border border-slate-600 bg-slate-950 px-3 py-2 text-sm"
+                value={draftEncoding ?? AUTO_ENCODING}
+                onChange={(event) =>
+                  setDraftEncoding(
+                    event.target.value === AUTO_ENCODING
+                      ? null
+                      : (event.target.value as SourceEncoding)
+                  )
+                }
+              >
+                <option value={AUTO_ENCODING}>Auto-detect</option>
+                {SOURCE_ENCODINGS.map((encoding) => (
+                  <option key={encoding} value={encoding}>
+                    {ENCODING_LABELS[encoding]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500">
+                {encodingNote}
+              </p>
+            </label>
+            {onApplySourceEncoding && (
+              <button
+                type="button"
+                className="self-end rounded border border-slate-600 px-3 py-2 text-xs font-semibold text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                onClick={handleApplySourceEncoding}
+                disabled={draftEncoding === sourceEncoding || applyingEncoding}
+              >
+                {applyingEncoding ? 'Reloading…' : 'Reload with encoding'}
+              </button>
+            )}
+          </div>
+
           <div className="flex flex-col gap-3 border-t border-rose-900/60 pt-4">
             <h3 className="text-xs font-semibold uppercase tracking-wide text-rose-300">
               Stored data
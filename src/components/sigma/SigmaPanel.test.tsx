@@ -0,0 +1,143 @@
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { GridColumn } from '@state/dataStore';
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import { useTagStore } from '@state/tagStore';
+import type { FilterNode, LabelDefinition } from '@workers/types';
+import SigmaPanel from './SigmaPanel';
+
+const mockApplyFilter = vi.fn();
+const mockRunRulePack = vi.fn();
+const mockUpdateLabel = vi.fn();
+
+vi.mock('@workers/dataWorkerProxy', () => {
+  return {
+    getDataWorker: () => ({
+      applyFilter: mockApplyFilter,
+      runRulePack: mockRunRulePack,
+      updateLabel: mockUpdateLabel
+    })
+  };
+});
+
+const columns: GridColumn[] = [
+  { key: 'Image', headerName: 'Image', type: 'string', confidence: 1, examples: [] },
+  { key: 'process.command_line', headerName: 'process.command_line', type: 'string', confidence: 1, examples: [] },
+  { key: 'pid', headerName: 'pid', type: 'number', confidence: 1, examples: [] }
+];
+
+const RULE = [
+  'title: Whoami Execution',
+  'id: 11111111-2222-3333-4444-555555555555',
+  'detection:',
+  '  selection:',
+  '    Image|endswith: \\whoami.exe',
+  '    CommandLine|contains: /all',
+  '  condition: selection'
+].join('\n');
+
+describe('SigmaPanel', () => {
+  beforeEach(() => {
+    mockApplyFilter.mockReset();
+    mockRunRulePack.mockReset();
+    mockUpdateLabel.mockReset();
+    useSessionStore.getState().clear();
+    useTagStore.getState().reset();
+    useDataStore.getState().reset();
+    useDataStore.setState((state) => ({
+      ...state,
+      columns,
+      status: 'ready',
+      totalRows: 10,
+      matchedRows: 10
+    }));
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('suggests field mappings and requires every field to be mapped', () => {
+    render(<SigmaPanel open onClose={() => undefined} />);
+
+    fireEvent.change(screen.getByLabelText('Rule YAML'), { target: { value: RULE } });
+
+    expect(screen.getByLabelText<HTMLSelectElement>('Column for Image').value).toBe('Image');
+    expect(screen.getByLabelText<HTMLSelectElement>('Column for CommandLine').value).toBe('');
+    expect(screen.getByRole('button', { name: 'Run rule' })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Column for CommandLine'), {
+      target: { value: 'process.command_line' }
+    });
+    expect(screen.getByRole('button', { name: 'Run rule' })).toBeEnabled();
+  });
+
+  it('reports parse errors for unsupported rules', () => {
+    render(<SigmaPanel open onClose={() => undefined} />);
+
+    fireEvent.change(screen.getByLabelText('Rule YAML'), {
+      target: {
+        value: 'title: Bad\ndetection:\n  selection:\n    Image|base64offset: x\n  condition: selection'
+      }
+    });
+
+    expect(screen.getByText(/Unsupported Sigma modifier "base64offset"/)).toBeInTheDocument();
+  });
+
+  it('applies the compiled rule and tags matching rows', async () => {
+    const label: LabelDefinition = {
+      id: 'label-sigma',
+      name: 'Whoami Execution',
+      color: '#8899ff',
+      createdAt: 1,
+      updatedAt: 1
+    };
+    mockApplyFilter.mockImplementation(async ({ expression }: { expression: FilterNode }) => ({
+      rows: [],
+      totalRows: 10,
+      matchedRows: 2,
+      expression
+    }));
+    mockUpdateLabel.mockResolvedValue(label);
+    mockRunRulePack.mockResolvedValue({
+      totalRows: 10,
+      rules: [],
+      updated: {
+        3: { labelIds: ['label-sigma'], updatedAt: 2 },
+        7: { labelIds: ['label-sigma'], updatedAt: 2 }
+      }
+    });
+
+    render(<SigmaPanel open onClose={() => undefined} />);
+
+    fireEvent.change(screen.getByLabelText('Rule YAML'), { target: { value: RULE } });
+    fireEvent.change(screen.getByLabelText('Column for CommandLine'), {
+      target: { value: 'process.command_line' }
+    });
+    fireEvent.click(screen.getByLabelText('Tag matches with a label named after the rule'));
+    fireEvent.click(screen.getByRole('button', { name: 'Run rule' }));
+
+    await waitFor(() =>
+      expect(screen.getByText(/2 rows match "Whoami Execution"/)).toBeInTheDocument()
+    );
+
+    const { expression } = mockApplyFilter.mock.calls[0]![0] as { expression: FilterNode };
+    expect(expression).toMatchObject({ op: 'and' });
+    expect(JSON.stringify(expression)).toContain('process.command_line');
+    expect(mockRunRulePack).toHaveBeenCalledWith({
+      rules: [
+        {
+          id: '11111111-2222-3333-4444-555555555555',
+          name: 'Whoami Execution',
+          expression,
+          labelId: 'label-sigma'
+        }
+      ]
+    });
+    expect(useTagStore.getState().tags[7]?.labelIds).toEqual(['label-sigma']);
+    expect(useSessionStore.getState().filters).toEqual([]);
+    expect(useDataStore.getState().matchedRows).toBe(2);
+  });
+});
@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import { useDataStore } from '@state/dataStore';
+import { useTagStore } from '@state/tagStore';
+import type { ColumnType } from '@workers/types';
+import { useFilterSync } from '@/hooks/useFilterSync';
+import {
+  compileSigmaRule,
+  parseSigmaRule,
+  suggestSigmaFieldMapping,
+  type SigmaRule
+} from '@utils/sigmaRule';
+
+interface SigmaPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SigmaPanel = ({ open, onClose }: SigmaPanelProps): JSX.Element | null => {
+  const columns = useDataStore((state) => state.columns);
+  const labels = useTagStore((state) => state.labels);
+  const upsertLabel = useTagStore((state) => state.upsertLabel);
+  const runRulePack = useTagStore((state) => state.runRulePack);
+  const { applyExpression } = useFilterSync();
+  const [source, setSource] = useState('');
+  const [fieldMapping, setFieldMapping] = useState<Record<string, string>>({});
+  const [autoTag, setAutoTag] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const parsed = useMemo((): { rule: SigmaRule | null; error: string | null } => {
+    if (!source.trim()) {
+      return { rule: null, error: null };
+    }
+    try {
+      return { rule: parseSigmaRule(source), error: null };
+    } catch (error) {
+      return { rule: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [source]);
+  const rule = parsed.rule;
+
+  const columnKeys = useMemo(() => columns.map((column) => column.key), [columns]);
+
+  useEffect(() => {
+    if (!rule) {
+      return;
+    }
+    // Keep manual choices for fields that are still referenced.
+    setFieldMapping((current) => {
+      const suggested = suggestSigmaFieldMapping(rule.fields, columnKeys);
+      const next: Record<string, string> = {};
+      for (const field of rule.fields) {
+        const mapped = current[field] ?? suggested[field];
+        if (mapped && columnKeys.includes(mapped)) {
+          next[field] = mapped;
+        }
+      }
+      return next;
+    });
+  }, [columnKeys, rule]);
+
+  useEffect(() => {
+    if (open) {
+      setFeedback(null);
+      setRunError(null);
+    }
+  }, [open]);
+
+  if (!open) {
+    return null;
+  }
+
+  const unmappedFields = rule ? rule.fields.filter((field) => !fieldMapping[field]) : [];
+
+  const handleImport = async () => {
+    if (!('showOpenFilePicker' in window)) {
+      alert('File System Access API is not supported in this browser.');
+      return;
+    }
+
+    try {
+      const openFilePicker = window.showOpenFilePicker!;
+      const [handle] = await openFilePicker({
+        types: [
+          {
+            description: 'Sigma rules',
+            accept: { 'application/x-yaml': ['.yml', '.yaml'] }
+          }
+        ]
+      });
+      const file = await handle.getFile();
+      setSource(await file.text());
+      setFeedback(null);
+      setRunError(null);
+    } catch (error) {
+      if ((error as DOMException)?.name !== 'AbortError') {
+        setRunError(error instanceof Error ? error.message : 'Failed to read the rule file.');
+      }
+    }
+  };
+
+  const handleRun = async () => {
+    if (!rule || running) {
+      return;
+    }
+
+    setRunning(true);
+    setFeedback(null);
+    setRunError(null);
+
+    try {
+      const columnTypes: Record<string, ColumnType> = {};
+      for (const column of columns) {
+        columnTypes[column.key] = column.type;
+      }
+      const expression = compileSigmaRule(rule, {
+        fieldMapping,
+        columnTypes,
+        keywordColumns: columns
+          .filter((column) => column.type === 'string')
+          .map((column) => column.key)
+      });
+
+      const response = await applyExpression(expression);
+      if (!response) {
+        return;
+      }
+
+      const matchPlural = response.matchedRows === 1 ? 'row matches' : 'rows match';
+      let message = `${response.matchedRows.toLocaleString()} ${matchPlural} "${rule.title}".`;
+
+      if (autoTag && response.matchedRows > 0) {
+        const label =
+          labels.find((candidate) => candidate.name === rule.title) ??
+          (await upsertLabel({
+            name: rule.title,
+            description: rule.id ? `Sigma rule ${rule.id}` : 'Sigma rule'
+          }));
+        if (!label) {
+          throw new Error('Failed to create the rule label.');
+        }
+
+        const tagged = await runRulePack({
+          rules: [{ id: rule.id ?? rule.title, name: rule.title, expression, labelId: label.id }]
+        });
+        if (!tagged) {
+          throw new Error('Failed to tag matching rows.');
+        }
+        message += ` Tagged with "${label.name}".`;
+      }
+
+      setFeedback(message);
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded border border-slate-700 bg-slate-900 shadow-xl">
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <h2 className="text-sm font-semibold text-slate-100">Sigma rule</h2>
+          <div className="flex gap-2 text-xs">
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800"
+              onClick={handleImport}
+            >
+              Import .yml
+            </button>
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-800"
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
+        </header>
+        <div className="grid flex-1 gap-4 overflow-auto px-4 py-3 text-sm text-slate-200 md:grid-cols-[3fr_2fr]">
+          <section className="flex flex-col gap-2">
+            <label className="flex flex-1 flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+              Rule YAML
+              <textarea
+                value={source}
+                spellCheck={false}
+                placeholder={'title: ...\ndetection:\n  selection:\n    Image|endswith: \\whoami.exe\n  condition: selection'}
+                className="min-h-[18rem] flex-1 rounded border border-slate-700 bg-slate-950 px-2 py-1 font-mono text-xs normal-case tracking-normal text-slate-100"
+                onChange={(event) => setSource(event.target.value)}
+              />
+            </label>
+            {parsed.error && <p className="text-xs text-rose-300">{parsed.error}</p>}
+            {rule && (
+              <p className="text-xs text-slate-400">
+                {rule.title}
+                {rule.level ? ` • ${rule.level}` : ''} • {rule.conditions.join(' | ')}
+              </p>
+            )}
+          </section>
+          <section className="flex flex-col gap-3">
+            <div className="flex flex-col gap-2">
+              <h3 className="text-xs uppercase tracking-wide text-slate-400">Field mapping</h3>
+              {!rule || rule.fields.length === 0 ? (
+                <p className="text-xs text-slate-500">Fields referenced by the rule appear here.</p>
+              ) : (
+                rule.fields.map((field) => (
+                  <label key={field} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate font-mono" title={field}>
+                      {field}
+                    </span>
+                    <select
+                      aria-label={`Column for ${field}`}
+                      className="w-40 rounded border border-slate-700 bg-slate-950 px-2 py-1"
+                      value={fieldMapping[field] ?? ''}
+                      onChange={(event) =>
+                        setFieldMapping((current) => ({ ...current, [field]: event.target.value }))
+                      }
+                    >
+                      <option value="">Unmapped</option>
+                      {columns.map((column) => (
+                        <option key={column.key} value={column.key}>
+                          {column.headerName}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={autoTag}
+                onChange={(event) => setAutoTag(event.target.checked)}
+              />
+              Tag matches with a label named after the rule
+            </label>
+            <button
+              type="button"
+              className="rounded border border-slate-700 px-3 py-1 text-xs text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+              onClick={handleRun}
+              disabled={!rule || running || unmappedFields.length > 0 || columns.length === 0}
+            >
+              {running ? 'Running…' : 'Run rule'}
+            </button>
+            {unmappedFields.length > 0 && (
+              <p className="text-xs text-amber-300">Map {unmappedFields.join(', ')} to run.</p>
+            )}
+            {feedback && <p className="text-xs text-emerald-300">{feedback}</p>}
+            {runError && <p className="text-xs text-rose-300">{runError}</p>}
+            <p className="text-xs text-slate-500">
+              Rule results replace the current filter view; editing filters restores them.
+            </p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SigmaPanel;
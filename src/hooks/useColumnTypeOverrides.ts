@@ -0,0 +1,59 @@
+import { useCallback } from 'react';
+
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import { useRefreshView } from '@/hooks/useRefreshView';
+import { getDataWorker } from '@workers/dataWorkerProxy';
+import type { ColumnTypeOverride } from '@workers/types';
+
+const NO_OVERRIDES: Record<string, ColumnTypeOverride> = {};
+
+export interface UseColumnTypeOverridesResult {
+  /** Overrides of the loaded dataset. */
+  overrides: Record<string, ColumnTypeOverride>;
+  /**
+   * Re-coerces one column as `override`, or back to its inferred type when
+   * null, saves the dataset's overrides with the session and refreshes the view.
+   */
+  setColumnType: (column: string, override: ColumnTypeOverride | null) => Promise<void>;
+}
+
+export const useColumnTypeOverrides = (): UseColumnTypeOverridesResult => {
+  const datasetKey = useDataStore((state) => state.datasetKey);
+  const overrides = useSessionStore((state) =>
+    datasetKey ? (state.columnTypeOverrides[datasetKey] ?? NO_OVERRIDES) : NO_OVERRIDES
+  );
+  const setColumnTypeOverrides = useSessionStore((state) => state.setColumnTypeOverrides);
+  const setColumnTypes = useDataStore((state) => state.setColumnTypes);
+  const setGridDerivedColumns = useDataStore((state) => state.setDerivedColumns);
+  const refreshView = useRefreshView();
+
+  const setColumnType = useCallback(
+    async (column: string, override: ColumnTypeOverride | null) => {
+      if (!datasetKey) {
+        throw new Error('No dataset loaded');
+      }
+
+      const next = { ...overrides };
+      delete next[column];
+      if (override) {
+        next[column] = override;
+      }
+      const result = await getDataWorker().setColumnTypeOverrides(next);
+      setColumnTypeOverrides(datasetKey, next);
+      setColumnTypes(result.columnTypes, result.columnInference);
+      setGridDerivedColumns(result.derivedColumns);
+      await refreshView();
+    },
+    [
+      datasetKey,
+      overrides,
+      refreshView,
+      setColumnTypeOverrides,
+      setColumnTypes,
+      setGridDerivedColumns
+    ]
+  );
+
+  return { overrides, setColumnType };
+};
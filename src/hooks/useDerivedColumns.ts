@@ -0,0 +1,43 @@
+import { useCallback } from 'react';
+
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import { useRefreshView } from '@/hooks/useRefreshView';
+import { getDataWorker, type DerivedColumnStatus } from '@workers/dataWorkerProxy';
+import type { DerivedColumnDefinition } from '@workers/types';
+
+export interface UseDerivedColumnsResult {
+  derivedColumns: DerivedColumnDefinition[];
+  /**
+   * Saves the definitions with the session and, when a dataset is loaded,
+   * installs them in the worker and refreshes the filtered and sorted view.
+   * Resolves to the per-column results, or null when nothing is loaded yet.
+   */
+  applyDerivedColumns: (
+    definitions: DerivedColumnDefinition[]
+  ) => Promise<DerivedColumnStatus[] | null>;
+}
+
+export const useDerivedColumns = (): UseDerivedColumnsResult => {
+  const derivedColumns = useSessionStore((state) => state.derivedColumns);
+  const setDerivedColumns = useSessionStore((state) => state.setDerivedColumns);
+  const setGridDerivedColumns = useDataStore((state) => state.setDerivedColumns);
+  const refreshView = useRefreshView();
+
+  const applyDerivedColumns = useCallback(
+    async (definitions: DerivedColumnDefinition[]) => {
+      setDerivedColumns(definitions);
+      if (useDataStore.getState().status !== 'ready') {
+        return null;
+      }
+
+      const statuses = await getDataWorker().setDerivedColumns(definitions);
+      setGridDerivedColumns(statuses);
+      await refreshView();
+      return statuses;
+    },
+    [refreshView, setDerivedColumns, setGridDerivedColumns]
+  );
+
+  return { derivedColumns, applyDerivedColumns };
+};
@@ -1,15 +1,28 @@
 import { useCallback, useEffect, useRef } from 'react';
 
 import { useDataStore } from '@state/dataStore';
-import { useSessionStore, type FilterState } from '@state/sessionStore';
-import { getDataWorker, type ApplyFilterRequest } from '@workers/dataWorkerProxy';
+import { useSessionStore, type FilterGroupState, type FilterState } from '@state/sessionStore';
+import {
+  getDataWorker,
+  type ApplyFilterRequest,
+  type ApplyFilterResult
+} from '@workers/dataWorkerProxy';
+import type { FilterNode } from '@workers/types';
 import { buildFilterExpression } from '@utils/filterExpression';
 import { reportAppError } from '@utils/diagnostics';
 import { isDebugLoggingEnabled, logDebug } from '@utils/debugLog';
 
 export interface UseFilterSyncResult {
   filters: FilterState[];
-  applyFilters: (nextFilters: FilterState[]) => Promise<void>;
+  filterGroups: FilterGroupState[];
+  /** Applies the filters; the current groups are kept unless `nextGroups` is given. */
+  applyFilters: (nextFilters: FilterState[], nextGroups?: FilterGroupState[]) => Promise<void>;
+  /**
+   * Runs an ad-hoc expression that is not part of the session (e.g. a
+   * compiled detection rule). Session filters are left untouched, so the next
+   * `applyFilters` call replaces the result.
+   */
+  applyExpression: (expression: FilterNode) => Promise<ApplyFilterResult | null>;
 }
 
 interface UseFilterSyncOptions {
@@ -21,7 +34,9 @@ export const useFilterSync = (
 ): UseFilterSyncResult => {
   const { bootstrap = false } = options;
   const filters = useSessionStore((state) => state.filters);
+  const filterGroups = useSessionStore((state) => state.filterGroups);
   const setFilters = useSessionStore((state) => state.setFilters);
+  const setFilterGroups = useSessionStore((state) => state.setFilterGroups);
   const setFilterSummary = useDataStore((state) => state.setFilterSummary);
   const setDidYouMean = useDataStore((state) => state.setDidYouMean);
   const clearFilterSummary = useDataStore((state) => state.clearFilterSummary);
@@ -34,12 +49,60 @@ export const useFilterSync = (
   const requestIdRef = useRef(0);
   const debugLoggingEnabled = isDebugLoggingEnabled();
 
+  const runExpression = useCallback(
+    async (expression: FilterNode, requestId: number): Promise<ApplyFilterResult | null> => {
+      const request: ApplyFilterRequest = {
+        expression,
+        offset: 0,
+        limit: 0
+      };
+
+      const response = await getDataWorker().applyFilter(request);
+      if (requestId !== requestIdRef.current) {
+        return null;
+      }
+
+      if (debugLoggingEnabled) {
+        logDebug('filters', 'applyFilters response', {
+          matchedRows: response.matchedRows,
+          totalRows: response.totalRows,
+          didYouMean: response.didYouMean ?? null,
+          predicateMatchCounts: response.predicateMatchCounts ?? null
+        });
+      }
+
+      setFilterSummary({
+        matchedRows: response.matchedRows,
+        totalRows: response.totalRows,
+        didYouMean: response.didYouMean,
+        filterMatchCounts: response.predicateMatchCounts ?? undefined
+      });
+      clearSearchResult();
+      setMatchedRowCount(response.matchedRows);
+      setDidYouMean(response.didYouMean ?? null);
+      bumpViewVersion();
+      return response;
+    },
+    [
+      bumpViewVersion,
+      clearSearchResult,
+      debugLoggingEnabled,
+      setDidYouMean,
+      setFilterSummary,
+      setMatchedRowCount
+    ]
+  );
+
   const applyFilters = useCallback(
-    async (nextFilters: FilterState[]) => {
+    async (nextFilters: FilterState[], nextGroups?: FilterGroupState[]) => {
       const requestId = requestIdRef.current + 1;
       requestIdRef.current = requestId;
       let filtersToApply = nextFilters;
+      const groupsToApply = nextGroups ?? useSessionStore.getState().filterGroups;
       setFilters(filtersToApply);
+      if (nextGroups) {
+        setFilterGroups(nextGroups);
+      }
 
       try {
         if (debugLoggingEnabled) {
@@ -58,7 +121,7 @@ export const useFilterSync = (
 
         const worker = getDataWorker();
 
-        const expression = buildFilterExpression(filtersToApply);
+        const expression = buildFilterExpression(filtersToApply, groupsToApply);
 
         if (!expression) {
           const response = await worker.applyFilter({
@@ -82,42 +145,13 @@ export const useFilterSync = (
           return;
         }
 
-        const request: ApplyFilterRequest = {
-          expression,
-          offset: 0,
-          limit: 0
-        };
-
-        const response = await worker.applyFilter(request);
-        if (requestId !== requestIdRef.current) {
-          return;
-        }
-
-        if (debugLoggingEnabled) {
-          logDebug('filters', 'applyFilters response', {
-            matchedRows: response.matchedRows,
-            totalRows: response.totalRows,
-            didYouMean: response.didYouMean ?? null,
-            predicateMatchCounts: response.predicateMatchCounts ?? null
-          });
-        }
-
-        setFilterSummary({
-          matchedRows: response.matchedRows,
-          totalRows: response.totalRows,
-          didYouMean: response.didYouMean,
-          filterMatchCounts: response.predicateMatchCounts ?? undefined
-        });
-        clearSearchResult();
-        setMatchedRowCount(response.matchedRows);
-        setDidYouMean(response.didYouMean ?? null);
-        bumpViewVersion();
+        await runExpression(expression, requestId);
       } catch (error) {
         console.error('Failed to apply filter', error);
         reportAppError('Failed to apply filter', error, {
           operation: 'filters.apply',
           context: { filterCount: filtersToApply.length },
-          retry: () => applyFilters(filtersToApply)
+          retry: () => applyFilters(filtersToApply, groupsToApply)
         });
       }
     },
@@ -126,13 +160,33 @@ export const useFilterSync = (
       clearFilterSummary,
       clearSearchResult,
       debugLoggingEnabled,
+      runExpression,
       setDidYouMean,
-      setFilterSummary,
+      setFilterGroups,
       setFilters,
       setMatchedRowCount
     ]
   );
 
+  const applyExpression = useCallback(
+    async (expression: FilterNode): Promise<ApplyFilterResult | null> => {
+      const requestId = requestIdRef.current + 1;
+      requestIdRef.current = requestId;
+
+      try {
+        return await runExpression(expression, requestId);
+      } catch (error) {
+        console.error('Failed to apply filter expression', error);
+        reportAppError('Failed to apply filter expression', error, {
+          operation: 'filters.applyExpression',
+          retry: () => applyExpression(expression)
+        });
+        return null;
+      }
+    },
+    [runExpression]
+  );
+
   useEffect(() => {
     if (!bootstrap) {
       bootstrapAppliedRef.current = false;
@@ -170,5 +224,5 @@ export const useFilterSync = (
     void applyFilters(filters);
   }, [applyFilters, bootstrap, debugLoggingEnabled, filters, loaderStatus, totalRows]);
 
-  return { filters, applyFilters };
+  return { filters, filterGroups, applyFilters, applyExpression };
 };
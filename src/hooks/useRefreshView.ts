@@ -0,0 +1,31 @@
+import { useCallback } from 'react';
+
+import { useDataStore } from '@state/dataStore';
+import { useSessionStore } from '@state/sessionStore';
+import { useFilterSync } from '@/hooks/useFilterSync';
+import { getDataWorker } from '@workers/dataWorkerProxy';
+
+/**
+ * Re-runs the session's filters and sorts against changed column values, then
+ * redraws the grid. Filtered and sorted row orders are computed once, so they
+ * go stale when the worker changes what a column holds.
+ */
+export const useRefreshView = (): (() => Promise<void>) => {
+  const setSorts = useSessionStore((state) => state.setSorts);
+  const setMatchedRowCount = useDataStore((state) => state.setMatchedRowCount);
+  const bumpViewVersion = useDataStore((state) => state.bumpViewVersion);
+  const { applyFilters } = useFilterSync();
+
+  return useCallback(async () => {
+    const { filters, filterGroups, sorts } = useSessionStore.getState();
+    if (filters.length) {
+      await applyFilters(filters, filterGroups);
+    }
+    if (sorts.length) {
+      const response = await getDataWorker().applySorts({ sorts, offset: 0, limit: 0 });
+      setMatchedRowCount(response.matchedRows ?? null);
+      setSorts(response.sorts);
+    }
+    bumpViewVersion();
+  }, [applyFilters, bumpViewVersion, setMatchedRowCount, setSorts]);
+};
@@ -25,6 +25,7 @@ const buildSnapshot = (
 ): SessionSnapshot => ({
   fileHandle: handle,
   filters: [],
+  filterGroups: [],
   sorts: [],
   groups: [],
   groupAggregations: [],
@@ -37,6 +38,13 @@ const buildSnapshot = (
   interfaceFontSize: 14,
   dataFontFamily: 'system',
   dataFontSize: 14,
+  sourceTimeZones: {},
+  sourceEncoding: null,
+  csvDialect: {},
+  logFormat: null,
+  derivedColumns: [],
+  columnTypeOverrides: {},
+  displayTimeZone: 'UTC',
   labels: [],
   tags: {},
   updatedAt: 123
@@ -145,4 +145,56 @@ describe('useDataStore matched row fallbacks', () => {
       completedColumns: 0
     });
   });
+
+  it('counts parse issues in the completion message until the next load', () => {
+    useDataStore.getState().complete({ ...summaryPayload, parseIssueCount: 3 });
+
+    expect(useDataStore.getState().parseIssueCount).toBe(3);
+    expect(useDataStore.getState().message).toBe('Loaded 100 rows in 0.5s · 3 parse issues');
+
+    useDataStore.getState().startLoading('next.csv');
+    expect(useDataStore.getState().parseIssueCount).toBe(0);
+  });
+
+  it('appends derived columns after the parsed ones and swaps them on redefinition', () => {
+    useDataStore.getState().startLoading('derived.csv');
+    useDataStore.getState().setHeader(['alpha']);
+    useDataStore.getState().complete({
+      ...summaryPayload,
+      columnTypes: { alpha: 'string', alpha_len: 'number' },
+      derivedColumns: [
+        { name: 'alpha_len', type: 'number' },
+        { name: 'broken', error: 'Unknown column "beta" at position 7.' }
+      ]
+    });
+
+    expect(useDataStore.getState().columns.map((column) => [column.key, column.type])).toEqual([
+      ['alpha', 'string'],
+      ['alpha_len', 'number']
+    ]);
+
+    useDataStore.getState().setDerivedColumns([{ name: 'alpha_upper', type: 'string' }]);
+
+    expect(useDataStore.getState().columns.map((column) => column.key)).toEqual([
+      'alpha',
+      'alpha_upper'
+    ]);
+    expect(useDataStore.getState().derivedColumnKeys).toEqual(['alpha_upper']);
+  });
+
+  it('retypes parsed columns and drops their cached value distributions', () => {
+    useDataStore.getState().startLoading('types.csv');
+    useDataStore.getState().setHeader(['alpha']);
+    useDataStore.getState().complete({ ...summaryPayload, datasetKey: 'dataset-1' });
+    useDataStore.getState().setColumnValueDistributionLoading('alpha');
+
+    const inference = { ...summaryPayload.columnInference.alpha, type: 'number' as const };
+    useDataStore.getState().setColumnTypes({ alpha: 'number' }, { alpha: inference });
+
+    const state = useDataStore.getState();
+    expect(state.datasetKey).toBe('dataset-1');
+    expect(state.columns[0]).toMatchObject({ key: 'alpha', type: 'number', confidence: 90 });
+    expect(state.columnInference.alpha?.type).toBe('number');
+    expect(state.columnValueDistributions.alpha).toBeUndefined();
+  });
 });
@@ -2,7 +2,11 @@ import { createWithEqualityFn } from 'zustand/traditional';
 
 import type { ColumnInference, ColumnType, GroupingResult, RowBatch } from '@workers/types';
 import type { DidYouMeanInfo } from '@workers/didYouMean';
-import type { ColumnValueDistributionResult } from '@workers/workerApiTypes';
+import type {
+  ColumnValueDistributionResult,
+  DerivedColumnStatus
+} from '@workers/workerApiTypes';
+import { ENCODING_LABELS, type SourceEncoding } from '@workers/utils/detectEncoding';
 import { isDebugLoggingEnabled, logDebug } from '@utils/debugLog';
 import { formatBytes } from '@utils/formatBytes';
 
@@ -35,8 +39,18 @@ export interface ValueFrequencyIndexingState {
 
 export interface DataState {
   fileName: string | null;
+  /** Worker key of the loaded dataset; per-dataset settings are saved under it. */
+  datasetKey: string | null;
   columns: GridColumn[];
   columnInference: Record<string, ColumnInference>;
+  /** Keys of the expression columns appended after the parsed ones. */
+  derivedColumnKeys: string[];
+  /** Encoding the loaded data was read with; null while loading or when files differ. */
+  encoding: SourceEncoding | null;
+  /** Rows the parser flagged as malformed in the last load. */
+  parseIssueCount: number;
+  /** Latest request for the grid to scroll to and select a row by view index. */
+  rowFocusRequest: { index: number; nonce: number } | null;
   status: LoaderStatus;
   message: string | null;
   errorDetails: {
@@ -67,12 +81,23 @@ export interface DataState {
   setHeader: (header: string[]) => void;
   reportProgress: (progress: { rowsParsed: number; bytesParsed: number }) => void;
   complete: (summary: {
+    datasetKey?: string;
     rowsParsed: number;
     bytesParsed: number;
     durationMs: number;
     columnTypes: Record<string, ColumnType>;
     columnInference: Record<string, ColumnInference>;
+    encoding?: SourceEncoding;
+    parseIssueCount?: number;
+    derivedColumns?: DerivedColumnStatus[];
   }) => void;
+  /** Swaps the derived grid columns for the ones the worker accepted. */
+  setDerivedColumns: (statuses: DerivedColumnStatus[]) => void;
+  /** Updates the parsed columns after the worker re-coerced some of them. */
+  setColumnTypes: (
+    columnTypes: Record<string, ColumnType>,
+    columnInference: Record<string, ColumnInference>
+  ) => void;
   setError: (message: string, details?: unknown) => void;
   clearError: () => void;
   setFilterSummary: (payload: {
@@ -92,6 +117,7 @@ export interface DataState {
   completeValueFrequencyIndexing: () => void;
   setDidYouMean: (didYouMean: DidYouMeanInfo | null) => void;
   bumpViewVersion: () => void;
+  requestRowFocus: (index: number) => void;
   setSearchResult: (payload: { totalRows: number; matchedRows: number }) => void;
   clearSearchResult: () => void;
   setGroupingLoading: () => void;
@@ -101,10 +127,18 @@ export interface DataState {
   reset: () => void;
 }
 
+const formatParseIssues = (count: number): string =>
+  count > 0 ? ` · ${count.toLocaleString()} parse issue${count === 1 ? '' : 's'}` : '';
+
 const confidenceLabel = (inference: ColumnInference): number => {
   return Math.round(Math.min(1, Math.max(0, inference.confidence)) * 100);
 };
 
+const derivedGridColumns = (statuses: DerivedColumnStatus[] | undefined): GridColumn[] =>
+  (statuses ?? []).flatMap(({ name, type }) =>
+    type ? [{ key: name, headerName: name, type, confidence: 100, examples: [] }] : []
+  );
+
 const buildErrorDetails = (message: string, details?: unknown) => {
   if (!details) {
     return {
@@ -149,8 +183,13 @@ const initialValueFrequencyIndexingState = (): ValueFrequencyIndexingState => ({
 
 export const useDataStore = createWithEqualityFn<DataState>()((set) => ({
   fileName: null,
+  datasetKey: null,
   columns: [],
   columnInference: {},
+  derivedColumnKeys: [],
+  encoding: null,
+  parseIssueCount: 0,
+  rowFocusRequest: null,
   status: 'idle',
   message: null,
   errorDetails: null,
@@ -168,8 +207,13 @@ export const useDataStore = createWithEqualityFn<DataState>()((set) => ({
   startLoading: (fileName) =>
     set((state) => ({
       fileName,
+      datasetKey: null,
       columns: [],
       columnInference: {},
+      derivedColumnKeys: [],
+      encoding: null,
+      parseIssueCount: 0,
+      rowFocusRequest: null,
       status: 'loading',
       message: null,
       errorDetails: null,
@@ -233,7 +277,9 @@ export const useDataStore = createWithEqualityFn<DataState>()((set) => ({
           currentColumnCount: state.columns.length
         });
       }
-      const updatedColumns =
+      const derivedColumns = derivedGridColumns(summary.derivedColumns);
+      const derivedKeys = new Set(derivedColumns.map((column) => column.key));
+      const parsedColumns =
         state.columns.length > 0
           ? state.columns.map((column) => {
               const type = summary.columnTypes[column.key];
@@ -250,17 +296,21 @@ export const useDataStore = createWithEqualityFn<DataState>()((set) => ({
                 examples: inference.examples
               };
             })
-          : Object.keys(summary.columnTypes).map((key) => {
-              const type = summary.columnTypes[key]!;
-              const inference = summary.columnInference[key]!;
-              return {
-                key,
-                headerName: key,
-                type,
-                confidence: confidenceLabel(inference),
-                examples: inference.examples
-              };
-            });
+          : Object.keys(summary.columnTypes)
+              .filter((key) => !derivedKeys.has(key))
+              .map((key) => {
+                const type = summary.columnTypes[key]!;
+                const inference = summary.columnInference[key]!;
+                return {
+                  key,
+                  headerName: key,
+                  type,
+                  confidence: confidenceLabel(inference),
+                  examples: inference.examples
+                };
+              });
+
+      const updatedColumns = [...parsedColumns, ...derivedColumns];
 
       const matchedRows =
         state.searchMatchedRows != null
@@ -273,7 +323,9 @@ export const useDataStore = createWithEqualityFn<DataState>()((set) => ({
         status: 'ready' as LoaderStatus,
         message: `Loaded ${summary.rowsParsed.toLocaleString()} rows in ${(summary.durationMs / 1000).toFixed(
           1
-        )}s`,
+        )}s${summary.encoding ? ` (${ENCODING_LABELS[summary.encoding]})` : ''}${formatParseIssues(
+          summary.parseIssueCount ?? 0
+        )}`,
         stats: {
           rowsParsed: summary.rowsParsed,
           bytesParsed: summary.bytesParsed,
@@ -281,8 +333,12 @@ export const useDataStore = createWithEqualityFn<DataState>()((set) => ({
         },
         totalRows: summary.rowsParsed,
         matchedRows,
+        datasetKey: summary.datasetKey ?? null,
         columns: updatedColumns,
         columnInference: summary.columnInference,
+        derivedColumnKeys: [...derivedKeys],
+        encoding: summary.encoding ?? null,
+        parseIssueCount: summary.parseIssueCount ?? 0,
         columnValueDistributions: {},
         valueFrequencyIndexing: initialValueFrequencyIndexingState()
       };
@@ -298,6 +354,43 @@ export const useDataStore = createWithEqualityFn<DataState>()((set) => ({
 
       return nextState;
     }),
+  setDerivedColumns: (statuses) =>
+    set((state) => {
+      const previous = new Set(state.derivedColumnKeys);
+      const derivedColumns = derivedGridColumns(statuses);
+      const columnValueDistributions = { ...state.columnValueDistributions };
+      for (const key of [...previous, ...derivedColumns.map((column) => column.key)]) {
+        delete columnValueDistributions[key];
+      }
+      return {
+        columns: [
+          ...state.columns.filter((column) => !previous.has(column.key)),
+          ...derivedColumns
+        ],
+        derivedColumnKeys: derivedColumns.map((column) => column.key),
+        columnValueDistributions
+      };
+    }),
+  setColumnTypes: (columnTypes, columnInference) =>
+    set((state) => {
+      const derived = new Set(state.derivedColumnKeys);
+      const columnValueDistributions = { ...state.columnValueDistributions };
+      const columns = state.columns.map((column) => {
+        const type = columnTypes[column.key];
+        const inference = columnInference[column.key];
+        if (derived.has(column.key) || !type || !inference || type === column.type) {
+          return column;
+        }
+        delete columnValueDistributions[column.key];
+        return {
+          ...column,
+          type,
+          confidence: confidenceLabel(inference),
+          examples: inference.examples
+        };
+      });
+      return { columns, columnInference, columnValueDistributions };
+    }),
   setError: (message, details) =>
     set((state) => {
       if (isDebugLoggingEnabled()) {
@@ -414,6 +507,10 @@ export const useDataStore = createWithEqualityFn<DataState>()((set) => ({
     set((state) => ({
       viewVersion: state.viewVersion + 1
     })),
+  requestRowFocus: (index) =>
+    set((state) => ({
+      rowFocusRequest: { index, nonce: (state.rowFocusRequest?.nonce ?? 0) + 1 }
+    })),
   setSearchResult: ({ totalRows, matchedRows }) =>
     set((state) => ({
       matchedRows,
@@ -468,8 +565,13 @@ export const useDataStore = createWithEqualityFn<DataState>()((set) => ({
   reset: () =>
     set((state) => ({
       fileName: null,
+      datasetKey: null,
       columns: [],
       columnInference: {},
+      derivedColumnKeys: [],
+      encoding: null,
+      parseIssueCount: 0,
+      rowFocusRequest: null,
       status: 'idle',
       message: null,
       errorDetails: null,
@@ -39,6 +39,7 @@ const buildSnapshot = (): SessionSnapshot => ({
       enabled: true
     }
   ],
+  filterGroups: [],
   sorts: [{ column: 'timestamp', direction: 'desc' }],
   groups: ['user'],
   groupAggregations: sampleAggregations,
@@ -55,6 +56,13 @@ const buildSnapshot = (): SessionSnapshot => ({
   interfaceFontSize: 14,
   dataFontFamily: 'jetbrains-mono',
   dataFontSize: 12,
+  sourceTimeZones: { timestamp: 'America/New_York' },
+  sourceEncoding: 'utf-16le',
+  csvDialect: { commentPrefix: '#', hasHeader: false },
+  logFormat: { name: 'Audit', pattern: '^(?<time>\\S+) (?<message>.*)$', commentPrefix: '#' },
+  derivedColumns: [{ name: 'user_lower', expression: 'lower(user)' }],
+  columnTypeOverrides: { 'dataset-1': { pid: { type: 'string' } } },
+  displayTimeZone: 'Europe/Paris',
   labels: sampleLabels,
   tags: sampleTags,
   updatedAt: 123456789
@@ -75,6 +83,29 @@ describe('sessionStore', () => {
     expect(state.groupAggregations).toEqual(sampleAggregations);
     expect(state.labels).toEqual(sampleLabels);
     expect(state.tags).toEqual(sampleTags);
+    expect(state.sourceTimeZones).toEqual({ timestamp: 'America/New_York' });
+    expect(state.displayTimeZone).toBe('Europe/Paris');
+    expect(state.derivedColumns).toEqual([{ name: 'user_lower', expression: 'lower(user)' }]);
+    expect(state.columnTypeOverrides).toEqual({ 'dataset-1': { pid: { type: 'string' } } });
+  });
+
+  it('defaults derived columns for snapshots saved before they existed', () => {
+    const legacy: Partial<SessionSnapshot> = buildSnapshot();
+    delete legacy.derivedColumns;
+    useSessionStore.getState().hydrate(legacy as SessionSnapshot);
+
+    expect(useSessionStore.getState().derivedColumns).toEqual([]);
+  });
+
+  it('keeps column type overrides per dataset and drops empty ones', () => {
+    const { setColumnTypeOverrides } = useSessionStore.getState();
+    setColumnTypeOverrides('a', { id: { type: 'string' } });
+    setColumnTypeOverrides('b', { seen: { type: 'datetime', datetimeFormat: '%d.%m.%Y' } });
+    setColumnTypeOverrides('a', {});
+
+    expect(useSessionStore.getState().columnTypeOverrides).toEqual({
+      b: { seen: { type: 'datetime', datetimeFormat: '%d.%m.%Y' } }
+    });
   });
 
   it('produces serialisable snapshot via helper', () => {
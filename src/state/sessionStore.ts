@@ -1,7 +1,18 @@
 import { createWithEqualityFn } from 'zustand/traditional';
 
 import { DATA_DEFAULT_FONT_ID, DEFAULT_FONT_ID, DEFAULT_FONT_SIZE } from '@constants/fonts';
-import type { ColumnInference, GroupAggregationDefinition, LabelDefinition, TagRecord } from '@workers/types';
+import type {
+  ColumnInference,
+  ColumnTypeOverride,
+  CsvDialect,
+  DerivedColumnDefinition,
+  GroupAggregationDefinition,
+  LabelDefinition,
+  LogFormat,
+  TagRecord
+} from '@workers/types';
+import type { CaseFile } from '@workers/workerApiTypes';
+import type { SourceEncoding } from '@workers/utils/detectEncoding';
 
 export interface ColumnLayoutState {
   order: string[];
@@ -18,11 +29,22 @@ export interface FilterState {
   rawValue2?: string;
   caseSensitive?: boolean;
   enabled?: boolean;
+  /** Owning {@link FilterGroupState}; filters without one sit at the top level. */
+  groupId?: string;
+}
+
+export interface FilterGroupState {
+  id: string;
+  /** Enclosing group; omitted for groups at the top level. */
+  parentId?: string;
+  op: 'and' | 'or';
+  negated?: boolean;
 }
 
 export interface SessionSnapshot {
   fileHandle: FileSystemFileHandle | null;
   filters: FilterState[];
+  filterGroups: FilterGroupState[];
   sorts: { column: string; direction: 'asc' | 'desc' }[];
   groups: string[];
   groupAggregations: GroupAggregationDefinition[];
@@ -32,14 +54,34 @@ export interface SessionSnapshot {
   interfaceFontSize: number;
   dataFontFamily: string;
   dataFontSize: number;
+  /** Source zone per column for naive timestamps; columns not listed are read as UTC. */
+  sourceTimeZones: Record<string, string>;
+  /** Text encoding forced on the next load; null detects it from the file. */
+  sourceEncoding: SourceEncoding | null;
+  /** Quoting, comment and header settings for delimited files; empty uses the defaults. */
+  csvDialect: CsvDialect;
+  /** Reads the file as a plain-text log split by this format; null parses it by type. */
+  logFormat: LogFormat | null;
+  /** Expression columns recomputed by the worker after every load. */
+  derivedColumns: DerivedColumnDefinition[];
+  /** Column types chosen by hand, per dataset key; reapplied when that dataset loads. */
+  columnTypeOverrides: Record<string, Record<string, ColumnTypeOverride>>;
+  displayTimeZone: string;
   labels: LabelDefinition[];
   tags: Record<number, TagRecord>;
   updatedAt: number;
 }
 
 interface SessionStore extends SessionSnapshot {
+  /**
+   * Every file of a multi-file load, led by `fileHandle`; empty for single
+   * files. Kept out of snapshots, so a case is reopened rather than restored.
+   */
+  caseFiles: CaseFile[];
   setFileHandle: (handle: FileSystemFileHandle | null) => void;
+  setCaseFiles: (files: CaseFile[]) => void;
   setFilters: (filters: FilterState[]) => void;
+  setFilterGroups: (filterGroups: FilterGroupState[]) => void;
   setSorts: (sorts: SessionSnapshot['sorts']) => void;
   setGroups: (groups: string[]) => void;
   setGroupAggregations: (aggregations: GroupAggregationDefinition[]) => void;
@@ -50,6 +92,13 @@ interface SessionStore extends SessionSnapshot {
   setInterfaceFontSize: (value: number) => void;
   setDataFontFamily: (value: string) => void;
   setDataFontSize: (value: number) => void;
+  setSourceTimeZones: (value: Record<string, string>) => void;
+  setSourceEncoding: (value: SourceEncoding | null) => void;
+  setCsvDialect: (value: CsvDialect) => void;
+  setLogFormat: (value: LogFormat | null) => void;
+  setDerivedColumns: (value: DerivedColumnDefinition[]) => void;
+  setColumnTypeOverrides: (datasetKey: string, value: Record<string, ColumnTypeOverride>) => void;
+  setDisplayTimeZone: (value: string) => void;
   setLabels: (labels: LabelDefinition[]) => void;
   setTags: (tags: Record<number, TagRecord>) => void;
   touch: () => void;
@@ -65,6 +114,7 @@ const defaultColumnLayout: ColumnLayoutState = {
 const initialState: SessionSnapshot = {
   fileHandle: null,
   filters: [],
+  filterGroups: [],
   sorts: [],
   groups: [],
   groupAggregations: [
@@ -79,6 +129,13 @@ const initialState: SessionSnapshot = {
   interfaceFontSize: DEFAULT_FONT_SIZE,
   dataFontFamily: DATA_DEFAULT_FONT_ID,
   dataFontSize: DEFAULT_FONT_SIZE,
+  sourceTimeZones: {},
+  sourceEncoding: null,
+  csvDialect: {},
+  logFormat: null,
+  derivedColumns: [],
+  columnTypeOverrides: {},
+  displayTimeZone: 'UTC',
   labels: [],
   tags: {},
   updatedAt: Date.now()
@@ -86,8 +143,11 @@ const initialState: SessionSnapshot = {
 
 export const useSessionStore = createWithEqualityFn<SessionStore>()((set) => ({
   ...initialState,
+  caseFiles: [],
   setFileHandle: (fileHandle) => set(() => ({ fileHandle, updatedAt: Date.now() })),
+  setCaseFiles: (caseFiles) => set(() => ({ caseFiles })),
   setFilters: (filters) => set(() => ({ filters, updatedAt: Date.now() })),
+  setFilterGroups: (filterGroups) => set(() => ({ filterGroups, updatedAt: Date.now() })),
   setSorts: (sorts) => set(() => ({ sorts, updatedAt: Date.now() })),
   setGroups: (groups) => set(() => ({ groups, updatedAt: Date.now() })),
   setGroupAggregations: (groupAggregations) =>
@@ -117,14 +177,38 @@ export const useSessionStore = createWithEqualityFn<SessionStore>()((set) => ({
   setDataFontFamily: (dataFontFamily) =>
     set(() => ({ dataFontFamily, updatedAt: Date.now() })),
   setDataFontSize: (dataFontSize) => set(() => ({ dataFontSize, updatedAt: Date.now() })),
+  setSourceTimeZones: (sourceTimeZones) =>
+    set(() => ({ sourceTimeZones, updatedAt: Date.now() })),
+  setSourceEncoding: (sourceEncoding) => set(() => ({ sourceEncoding, updatedAt: Date.now() })),
+  setCsvDialect: (csvDialect) => set(() => ({ csvDialect, updatedAt: Date.now() })),
+  setLogFormat: (logFormat) => set(() => ({ logFormat, updatedAt: Date.now() })),
+  setDerivedColumns: (derivedColumns) => set(() => ({ derivedColumns, updatedAt: Date.now() })),
+  setColumnTypeOverrides: (datasetKey, value) =>
+    set((state) => {
+      const columnTypeOverrides = { ...state.columnTypeOverrides };
+      delete columnTypeOverrides[datasetKey];
+      if (Object.keys(value).length) {
+        columnTypeOverrides[datasetKey] = value;
+      }
+      return { columnTypeOverrides, updatedAt: Date.now() };
+    }),
+  setDisplayTimeZone: (displayTimeZone) =>
+    set(() => ({ displayTimeZone, updatedAt: Date.now() })),
   setLabels: (labels) => set(() => ({ labels, updatedAt: Date.now() })),
   setTags: (tags) => set(() => ({ tags, updatedAt: Date.now() })),
   touch: () => set(() => ({ updatedAt: Date.now() })),
-  clear: () => set(() => ({ ...initialState, updatedAt: Date.now() })),
+  clear: () => set(() => ({ ...initialState, caseFiles: [], updatedAt: Date.now() })),
   hydrate: (snapshot) =>
     set((state) => ({
       ...state,
       ...snapshot,
+      // Snapshots saved before filter groups existed leave the field out.
+      filterGroups: snapshot.filterGroups ?? [],
+      sourceEncoding: snapshot.sourceEncoding ?? null,
+      csvDialect: snapshot.csvDialect ?? {},
+      logFormat: snapshot.logFormat ?? null,
+      derivedColumns: snapshot.derivedColumns ?? [],
+      columnTypeOverrides: snapshot.columnTypeOverrides ?? {},
       updatedAt: snapshot.updatedAt ?? Date.now()
     }))
 }));
@@ -132,6 +216,7 @@ export const useSessionStore = createWithEqualityFn<SessionStore>()((set) => ({
 const buildSnapshot = (state: SessionStore): SessionSnapshot => ({
   fileHandle: state.fileHandle,
   filters: state.filters,
+  filterGroups: state.filterGroups,
   sorts: state.sorts,
   groups: state.groups,
   groupAggregations: state.groupAggregations,
@@ -141,6 +226,13 @@ const buildSnapshot = (state: SessionStore): SessionSnapshot => ({
   interfaceFontSize: state.interfaceFontSize,
   dataFontFamily: state.dataFontFamily,
   dataFontSize: state.dataFontSize,
+  sourceTimeZones: state.sourceTimeZones,
+  sourceEncoding: state.sourceEncoding,
+  csvDialect: state.csvDialect,
+  logFormat: state.logFormat,
+  derivedColumns: state.derivedColumns,
+  columnTypeOverrides: state.columnTypeOverrides,
+  displayTimeZone: state.displayTimeZone,
   labels: state.labels,
   tags: state.tags,
   updatedAt: state.updatedAt
@@ -9,7 +9,9 @@ import type {
 import {
   getDataWorker,
   type TagRowsResponse,
-  type ExportTagsResponse
+  type ExportTagsResponse,
+  type RunRulePackRequest,
+  type RunRulePackResult
 } from '@workers/dataWorkerProxy';
 
 type TagStatus = 'idle' | 'loading' | 'ready' | 'error';
@@ -26,6 +28,7 @@ interface TagState {
   load: () => Promise<void>;
   applyTag: (request: TagRowsRequest) => Promise<TagRowsResponse | null>;
   clearTag: (rowIds: number[]) => Promise<TagRowsResponse | null>;
+  runRulePack: (request: RunRulePackRequest) => Promise<RunRulePackResult | null>;
   upsertLabel: (input: PartialLabelInput) => Promise<LabelDefinition | null>;
   deleteLabel: (labelId: string) => Promise<boolean>;
   exportTags: () => Promise<ExportTagsResponse | null>;
@@ -120,6 +123,38 @@ export const useTagStore = createWithEqualityFn<TagState>()((set, get) => ({
       return null;
     }
   },
+  async runRulePack(request) {
+    try {
+      const worker = getDataWorker();
+      const response = await worker.runRulePack(request);
+      set((state) => {
+        const nextTags: Record<number, TagRecord> = { ...state.tags };
+        for (const [rowId, record] of Object.entries(response.updated)) {
+          const numericRowId = Number(rowId);
+          if (!Number.isFinite(numericRowId)) {
+            continue;
+          }
+
+          nextTags[numericRowId] = {
+            ...record,
+            labelIds: Array.isArray(record.labelIds) ? record.labelIds : []
+          };
+        }
+
+        return {
+          tags: nextTags,
+          status: 'ready'
+        };
+      });
+      return response;
+    } catch (error) {
+      set({
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  },
   async upsertLabel(input) {
     try {
       const worker = getDataWorker();
@@ -14,6 +14,9 @@ interface OpenFilePickerOptions {
 declare global {
   interface Window {
     showOpenFilePicker?: (options?: OpenFilePickerOptions) => Promise<FileSystemFileHandle[]>;
+    showDirectoryPicker?: (options?: {
+      mode?: 'read' | 'readwrite';
+    }) => Promise<FileSystemDirectoryHandle>;
   }
 
   interface FileSystemFileHandle {
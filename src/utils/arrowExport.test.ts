@@ -0,0 +1,79 @@
+// @vitest-environment node
+
+import { describe, expect, it } from 'vitest';
+
+import { parseArrowFile } from '@workers/arrowParser';
+import type { RowBatch } from '@workers/types';
+import { materializeRowBatch } from '@workers/utils/materializeRowBatch';
+import { ARROW_MIME_TYPE, buildArrowBlob, toArrowCellValue } from './arrowExport';
+
+const readBack = async (blob: Blob): Promise<RowBatch[]> => {
+  const batches: RowBatch[] = [];
+  await parseArrowFile(blob, {
+    onBatch: (batch) => {
+      batches.push(batch);
+    }
+  });
+  return batches;
+};
+
+describe('toArrowCellValue', () => {
+  it('keeps typed values and turns blanks and unreadable cells into nulls', () => {
+    expect(toArrowCellValue('2024-01-01T00:00:01Z', 'datetime')).toBe(1_704_067_201_000);
+    expect(toArrowCellValue('not a date', 'datetime')).toBeNull();
+    expect(toArrowCellValue('4624', 'number')).toBe(4624);
+    expect(toArrowCellValue('n/a', 'number')).toBeNull();
+    expect(toArrowCellValue('false', 'boolean')).toBe(false);
+    expect(toArrowCellValue('', 'string')).toBeNull();
+    expect(toArrowCellValue({ id: 1 }, 'string')).toBe('{"id":1}');
+  });
+});
+
+describe('buildArrowBlob', () => {
+  const columns = [
+    { name: 'time', type: 'datetime' as const },
+    { name: 'host', type: 'string' as const },
+    { name: 'event', type: 'number' as const },
+    { name: 'elevated', type: 'boolean' as const }
+  ];
+
+  it('round-trips column types, values and nulls', async () => {
+    const blob = buildArrowBlob(columns, [
+      [1_704_067_200_000, 'dc01', 4624, true],
+      [null, 'ws17 ✓', 4625.5, false],
+      [1_704_067_201_500, null, null, null]
+    ]);
+
+    expect(blob.type).toBe(ARROW_MIME_TYPE);
+    const batches = await readBack(blob);
+    expect(batches).toHaveLength(1);
+    expect(batches[0]!.columnTypes).toEqual({
+      time: 'datetime',
+      host: 'string',
+      event: 'number',
+      elevated: 'boolean'
+    });
+    expect(materializeRowBatch(batches[0]!).rows).toMatchObject([
+      { time: '2024-01-01T00:00:00Z', host: 'dc01', event: 4624, elevated: true },
+      { time: null, host: 'ws17 ✓', event: 4625.5, elevated: false },
+      { time: '2024-01-01T00:00:01.500Z', host: '', event: null, elevated: null }
+    ]);
+  });
+
+  it('lays out the file with its magic, footer and 8-byte aligned messages', async () => {
+    const bytes = new Uint8Array(await buildArrowBlob(columns, [[0, 'a', 1, true]]).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const text = (start: number, end: number) =>
+      new TextDecoder().decode(bytes.subarray(start, end));
+
+    expect(text(0, 8)).toBe('ARROW1\0\0');
+    expect(text(bytes.length - 6, bytes.length)).toBe('ARROW1');
+    expect(view.getUint32(8, true)).toBe(0xffffffff);
+    expect(view.getInt32(12, true) % 8).toBe(0);
+  });
+
+  it('writes an empty table with its schema', async () => {
+    const batches = await readBack(buildArrowBlob(columns, []));
+    expect(batches).toEqual([]);
+  });
+});
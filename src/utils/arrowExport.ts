@@ -0,0 +1,256 @@
+import type { ColumnType } from '@workers/types';
+import { encodeFlatBuffer, flatTable, scalar, type FlatField, type FlatTable } from './flatBuffers';
+
+export const ARROW_MIME_TYPE = 'application/vnd.apache.arrow.file';
+
+/** Datetimes are epoch milliseconds. */
+export type ArrowCellValue = string | number | boolean | null | undefined;
+
+export interface ArrowExportColumn {
+  name: string;
+  type: ColumnType;
+}
+
+/** Rows per record batch; keeps 32-bit string offsets far from overflowing. */
+const ARROW_BATCH_ROWS = 65_536;
+const METADATA_VERSION_V5 = 4;
+const MESSAGE_SCHEMA = 1;
+const MESSAGE_RECORD_BATCH = 3;
+const CONTINUATION = 0xffffffff;
+const MAGIC = new TextEncoder().encode('ARROW1');
+
+/** `Type` union ids from Schema.fbs. */
+const TYPE_IDS: Record<ColumnType, number> = {
+  string: 5,
+  number: 3,
+  boolean: 6,
+  datetime: 10
+};
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Converts a grid cell into the value written to the file: datetimes (UTC ISO
+ * strings or epoch millis) become epoch millis, numbers and booleans keep
+ * their type and anything unreadable is written as null.
+ */
+export const toArrowCellValue = (value: unknown, type: ColumnType): ArrowCellValue => {
+  if (value == null || value === '') {
+    return null;
+  }
+  switch (type) {
+    case 'datetime': {
+      const epochMs = typeof value === 'number' ? value : Date.parse(String(value));
+      return Number.isFinite(epochMs) ? epochMs : null;
+    }
+    case 'number': {
+      const numeric = typeof value === 'number' ? value : Number(value);
+      return Number.isNaN(numeric) && typeof value !== 'number' ? null : numeric;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      return value === 'true' ? true : value === 'false' ? false : null;
+    default:
+      return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+};
+
+/** Packs pairs of 64-bit integers (field nodes, buffers) into struct vector bytes. */
+const int64Structs = (values: number[][]): FlatField => {
+  const bytes = new Uint8Array(values.length * 16);
+  const view = new DataView(bytes.buffer);
+  values.forEach((pair, index) => {
+    view.setBigInt64(index * 16, BigInt(pair[0]!), true);
+    view.setBigInt64(index * 16 + 8, BigInt(pair[1]!), true);
+  });
+  return { kind: 'structs', bytes, count: values.length };
+};
+
+const buildSchema = (columns: ArrowExportColumn[]): FlatTable =>
+  flatTable(
+    // Little-endian.
+    scalar(2, 0),
+    {
+      kind: 'tables',
+      items: columns.map(({ name, type }) =>
+        flatTable(
+          { kind: 'string', value: name },
+          // Nullable.
+          scalar(1, 1),
+          scalar(1, TYPE_IDS[type]),
+          type === 'number'
+            ? // Double precision.
+              flatTable(scalar(2, 2))
+            : type === 'datetime'
+              ? // Millisecond timestamps in UTC.
+                flatTable(scalar(2, 1), { kind: 'string', value: 'UTC' })
+              : flatTable(),
+          null,
+          { kind: 'tables', items: [] }
+        )
+      )
+    }
+  );
+
+/** Wraps metadata as an encapsulated IPC message: marker, length, flatbuffer, padding. */
+const encapsulate = (metadata: Uint8Array): Uint8Array => {
+  const paddedLength = Math.ceil((metadata.length + 8) / 8) * 8;
+  const message = new Uint8Array(paddedLength);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, CONTINUATION, true);
+  view.setInt32(4, paddedLength - 8, true);
+  message.set(metadata, 8);
+  return message;
+};
+
+const buildMessage = (headerType: number, header: FlatTable, bodyLength: number): Uint8Array =>
+  encapsulate(
+    encodeFlatBuffer(
+      flatTable(
+        scalar(2, METADATA_VERSION_V5),
+        scalar(1, headerType),
+        header,
+        scalar(8, bodyLength)
+      )
+    )
+  );
+
+const padTo8 = (length: number): number => Math.ceil(length / 8) * 8;
+
+/** Validity or boolean bitmap, least significant bit first. */
+const buildBitmap = (length: number, isSet: (index: number) => boolean): Uint8Array => {
+  const bitmap = new Uint8Array(Math.ceil(length / 8));
+  for (let index = 0; index < length; index += 1) {
+    if (isSet(index)) {
+      bitmap[index >>> 3]! |= 1 << (index & 7);
+    }
+  }
+  return bitmap;
+};
+
+const encodeColumnBuffers = (
+  values: ArrowCellValue[],
+  type: ColumnType
+): { nullCount: number; buffers: Uint8Array[] } => {
+  const length = values.length;
+  const nullCount = values.reduce<number>((count, value) => count + (value == null ? 1 : 0), 0);
+  // An empty validity buffer means every value is set.
+  const validity = nullCount
+    ? buildBitmap(length, (index) => values[index] != null)
+    : new Uint8Array(0);
+
+  if (type === 'string') {
+    const encoded = values.map((value) => textEncoder.encode(value == null ? '' : String(value)));
+    const offsets = new Int32Array(length + 1);
+    encoded.forEach((bytes, index) => {
+      offsets[index + 1] = offsets[index]! + bytes.length;
+    });
+    const data = new Uint8Array(offsets[length]!);
+    encoded.forEach((bytes, index) => data.set(bytes, offsets[index]!));
+    return { nullCount, buffers: [validity, new Uint8Array(offsets.buffer), data] };
+  }
+  if (type === 'boolean') {
+    const data = buildBitmap(length, (index) => values[index] === true);
+    return { nullCount, buffers: [validity, data] };
+  }
+  if (type === 'datetime') {
+    const data = new BigInt64Array(length);
+    values.forEach((value, index) => {
+      data[index] = value == null ? 0n : BigInt(Math.round(Number(value)));
+    });
+    return { nullCount, buffers: [validity, new Uint8Array(data.buffer)] };
+  }
+  const data = Float64Array.from(values, (value) => (value == null ? 0 : Number(value)));
+  return { nullCount, buffers: [validity, new Uint8Array(data.buffer)] };
+};
+
+/** Encodes rows as one record batch message followed by its 8-byte aligned body. */
+const buildRecordBatch = (columns: ArrowExportColumn[], rows: ArrowCellValue[][]) => {
+  const nodes: number[][] = [];
+  const bufferLayout: number[][] = [];
+  const bodyParts: Uint8Array[] = [];
+  let bodyLength = 0;
+
+  columns.forEach(({ type }, columnIndex) => {
+    const { nullCount, buffers } = encodeColumnBuffers(
+      rows.map((row) => row[columnIndex]),
+      type
+    );
+    nodes.push([rows.length, nullCount]);
+    for (const buffer of buffers) {
+      bufferLayout.push([bodyLength, buffer.length]);
+      const padded = new Uint8Array(padTo8(buffer.length));
+      padded.set(buffer);
+      bodyParts.push(padded);
+      bodyLength += padded.length;
+    }
+  });
+
+  const header = flatTable(
+    scalar(8, rows.length),
+    int64Structs(nodes),
+    int64Structs(bufferLayout)
+  );
+  return {
+    metadata: buildMessage(MESSAGE_RECORD_BATCH, header, bodyLength),
+    bodyParts,
+    bodyLength
+  };
+};
+
+/**
+ * Writes an Arrow IPC file, readable by `pyarrow.ipc.open_file`,
+ * `pandas.read_feather` and Polars. Column types map one to one: strings to
+ * Utf8, numbers to Float64, booleans to Bool and datetimes to millisecond
+ * timestamps in UTC.
+ */
+export const buildArrowBlob = (columns: ArrowExportColumn[], rows: ArrowCellValue[][]): Blob => {
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  const push = (part: Uint8Array) => {
+    parts.push(part);
+    size += part.length;
+  };
+
+  // Magic padded to 8 bytes.
+  push(Uint8Array.of(...MAGIC, 0, 0));
+  const schema = buildSchema(columns);
+  push(buildMessage(MESSAGE_SCHEMA, schema, 0));
+
+  const blocks: number[][] = [];
+  for (let start = 0; start < rows.length; start += ARROW_BATCH_ROWS) {
+    const batch = buildRecordBatch(columns, rows.slice(start, start + ARROW_BATCH_ROWS));
+    blocks.push([size, batch.metadata.length, batch.bodyLength]);
+    push(batch.metadata);
+    batch.bodyParts.forEach(push);
+  }
+
+  // End-of-stream marker.
+  push(Uint8Array.of(0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0));
+
+  const blockBytes = new Uint8Array(blocks.length * 24);
+  const blockView = new DataView(blockBytes.buffer);
+  blocks.forEach(([offset, metaDataLength, bodyLength], index) => {
+    blockView.setBigInt64(index * 24, BigInt(offset!), true);
+    blockView.setInt32(index * 24 + 8, metaDataLength!, true);
+    blockView.setBigInt64(index * 24 + 16, BigInt(bodyLength!), true);
+  });
+  const footer = encodeFlatBuffer(
+    flatTable(
+      scalar(2, METADATA_VERSION_V5),
+      schema,
+      { kind: 'structs', bytes: new Uint8Array(0), count: 0 },
+      { kind: 'structs', bytes: blockBytes, count: blocks.length }
+    )
+  );
+  push(footer);
+
+  const trailer = new Uint8Array(10);
+  new DataView(trailer.buffer).setInt32(0, footer.length, true);
+  trailer.set(MAGIC, 4);
+  push(trailer);
+
+  return new Blob(parts as BlobPart[], { type: ARROW_MIME_TYPE });
+};
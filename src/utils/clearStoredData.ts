@@ -1,6 +1,7 @@
 import { THEME_STORAGE_KEY } from '@state/appStore';
 import { supportsOpfs } from './capabilities';
 import { DEBUG_STORAGE_KEY, setDebugLoggingEnabled } from './debugLog';
+import { LOG_FORMATS_STORAGE_KEY } from './logFormats';
 import { SESSION_RETENTION_LAST_ACTIVE_BY_FILE_STORAGE_KEY } from './persistenceRetention';
 import { markStoredDataFlushInProgress } from './persistenceReset';
 import { clearActiveFileHandle } from './sessionHandleStore';
@@ -9,7 +10,8 @@ const OPFS_DIRECTORIES = ['sessions', 'row-cache', 'row-index', 'annotations'] a
 const LOCAL_STORAGE_KEYS = [
   THEME_STORAGE_KEY,
   DEBUG_STORAGE_KEY,
-  SESSION_RETENTION_LAST_ACTIVE_BY_FILE_STORAGE_KEY
+  SESSION_RETENTION_LAST_ACTIVE_BY_FILE_STORAGE_KEY,
+  LOG_FORMATS_STORAGE_KEY
 ] as const;
 
 const toErrorMessage = (error: unknown): string =>
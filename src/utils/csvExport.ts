@@ -41,7 +41,7 @@ export const buildCsvBlob = async (
 
 export function generateExportFilename(
   originalFilename: string,
-  extension: CsvExtension = '.csv'
+  extension: CsvExtension | '.xlsx' | '.arrow' = '.csv'
 ): string {
   const baseName = originalFilename.replace(/\.[^/.]+$/, '');
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
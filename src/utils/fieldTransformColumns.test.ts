@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { compileExpression } from '@workers/expressionEngine';
+import { buildFieldTransformColumns } from './fieldTransformColumns';
+
+describe('fieldTransformColumns', () => {
+  it('builds one split, kv or json column per chosen key', () => {
+    expect(
+      buildFieldTransformColumns('Tags', 'delimiter', { delimiter: '|' }, ['1', '3'], 't_')
+    ).toEqual([
+      { name: 't_1', expression: "trim(split(`Tags`, '|')[0])" },
+      { name: 't_3', expression: "trim(split(`Tags`, '|')[2])" }
+    ]);
+    expect(buildFieldTransformColumns('Payload', 'keyValue', {}, ['User'], '')).toEqual([
+      { name: 'User', expression: "kv(`Payload`, 'User')" }
+    ]);
+    expect(
+      buildFieldTransformColumns(
+        'Payload Data',
+        'keyValue',
+        { pairSeparator: ', ', keyValueSeparator: ': ' },
+        ["Logon's Type"],
+        'p_'
+      )
+    ).toEqual([
+      { name: "p_Logon's Type", expression: "kv(`Payload Data`, 'Logon\\'s Type', ', ', ': ')" }
+    ]);
+    expect(buildFieldTransformColumns('doc', 'json', {}, ['proc.pid'], 'doc.')).toEqual([
+      { name: 'doc.proc.pid', expression: "json(`doc`, 'proc.pid')" }
+    ]);
+  });
+
+  it('builds expressions that read the values back', () => {
+    const [column] = buildFieldTransformColumns('Tags', 'delimiter', {}, ['2'], '');
+    const { evaluate } = compileExpression(column!.expression, { Tags: 'string' });
+    expect(evaluate({ __rowId: 0, Tags: 'a, b ,c' })).toBe('b');
+    expect(evaluate({ __rowId: 1, Tags: 'a' })).toBeNull();
+  });
+});
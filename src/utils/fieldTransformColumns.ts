@@ -0,0 +1,67 @@
+import { quoteExpressionColumn, quoteExpressionString } from '@workers/expressionEngine';
+import {
+  DEFAULT_DELIMITER,
+  DEFAULT_KEY_VALUE_SEPARATOR,
+  DEFAULT_PAIR_SEPARATOR
+} from '@workers/fieldTransforms';
+import type {
+  DerivedColumnDefinition,
+  FieldTransformMode,
+  FieldTransformOptions
+} from '@workers/types';
+
+/**
+ * Split and explode transforms of a packed text column. Each chosen key
+ * becomes a derived column computed with `split`, `kv` or `json`, so the
+ * columns are saved with the session like hand-written expressions.
+ */
+
+export const FIELD_TRANSFORM_MODES: ReadonlyArray<{ mode: FieldTransformMode; label: string }> = [
+  { mode: 'delimiter', label: 'Split by delimiter' },
+  { mode: 'keyValue', label: 'Key/value pairs' },
+  { mode: 'json', label: 'JSON paths' }
+];
+
+const fieldExpression = (
+  source: string,
+  mode: FieldTransformMode,
+  options: FieldTransformOptions,
+  key: string
+): string => {
+  if (mode === 'delimiter') {
+    const delimiter = quoteExpressionString(options.delimiter || DEFAULT_DELIMITER);
+    return `trim(split(${source}, ${delimiter})[${Number(key) - 1}])`;
+  }
+  if (mode === 'json') {
+    return `json(${source}, ${quoteExpressionString(key)})`;
+  }
+  const pairSeparator = options.pairSeparator || DEFAULT_PAIR_SEPARATOR;
+  const keyValueSeparator = options.keyValueSeparator || DEFAULT_KEY_VALUE_SEPARATOR;
+  const args = [source, quoteExpressionString(key)];
+  // The defaults are left out so the common case reads `kv(Payload, 'User')`.
+  if (
+    pairSeparator !== DEFAULT_PAIR_SEPARATOR ||
+    keyValueSeparator !== DEFAULT_KEY_VALUE_SEPARATOR
+  ) {
+    args.push(quoteExpressionString(pairSeparator), quoteExpressionString(keyValueSeparator));
+  }
+  return `kv(${args.join(', ')})`;
+};
+
+/**
+ * One derived column per key, called `<prefix><key>`: 1-based list positions
+ * for `delimiter`, pair keys for `keyValue` and dotted paths for `json`.
+ */
+export const buildFieldTransformColumns = (
+  column: string,
+  mode: FieldTransformMode,
+  options: FieldTransformOptions,
+  keys: string[],
+  prefix: string
+): DerivedColumnDefinition[] => {
+  const source = quoteExpressionColumn(column);
+  return keys.map((key) => ({
+    name: `${prefix}${key}`,
+    expression: fieldExpression(source, mode, options, key)
+  }));
+};
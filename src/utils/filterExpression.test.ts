@@ -1,7 +1,12 @@
 import { describe, expect, it } from 'vitest';
 
-import { buildFilterExpression, isFilterComplete } from './filterExpression';
-import type { FilterExpression, FilterPredicate } from '@workers/types';
+import {
+  buildFilterExpression,
+  filterNodeToBuilderState,
+  isFilterComplete,
+  parseFilterValueList
+} from './filterExpression';
+import type { FilterExpression, FilterNode, FilterPredicate } from '@workers/types';
 import { TAG_COLUMN_ID, TAG_NO_LABEL_FILTER_VALUE } from '@workers/types';
 
 describe('buildFilterExpression', () => {
@@ -246,4 +251,189 @@ describe('buildFilterExpression', () => {
       })
     ).toBe(true);
   });
+
+  it('checks list, empty-value and length operators by their own rules', () => {
+    const base = { id: '1', column: 'hash' };
+    expect(isFilterComplete({ ...base, operator: 'isNull', value: '' })).toBe(true);
+    expect(isFilterComplete({ ...base, operator: 'in', value: ['abc'] })).toBe(true);
+    expect(isFilterComplete({ ...base, operator: 'in', value: [' '] })).toBe(false);
+    expect(isFilterComplete({ ...base, operator: 'notIn', value: 'abc' })).toBe(false);
+    expect(isFilterComplete({ ...base, operator: 'lengthGt', value: '32' })).toBe(true);
+    expect(isFilterComplete({ ...base, operator: 'lengthEq', value: 'x' })).toBe(false);
+  });
+});
+
+describe('parseFilterValueList', () => {
+  it('splits pasted values on lines and commas, dropping blanks and repeats', () => {
+    expect(parseFilterValueList('a1b2\r\n\n c3d4 ,e5f6\na1b2,')).toEqual(['a1b2', 'c3d4', 'e5f6']);
+  });
+});
+
+const stripIds = (node: FilterNode | null): FilterNode | null => {
+  if (!node) {
+    return null;
+  }
+  if ('op' in node) {
+    return { op: node.op, predicates: node.predicates.map((child) => stripIds(child)!) };
+  }
+  const predicate = { ...node };
+  delete predicate.id;
+  return predicate;
+};
+
+describe('grouped filter expressions', () => {
+  const base = { caseSensitive: false, enabled: true };
+
+  it('compiles nested groups without merging their equalities', () => {
+    const expression = buildFilterExpression(
+      [
+        { ...base, id: '1', column: 'name', operator: 'eq', value: 'Alice' },
+        { ...base, id: '2', column: 'name', operator: 'eq', value: 'Bob', groupId: 'g1' },
+        { ...base, id: '3', column: 'age', operator: 'gt', value: 30, groupId: 'g2' },
+        { ...base, id: '4', column: 'city', operator: 'eq', value: 'Oslo', groupId: 'missing' }
+      ],
+      [
+        { id: 'g1', op: 'or' },
+        { id: 'g2', op: 'and', parentId: 'g1' },
+        { id: 'empty', op: 'and' }
+      ]
+    );
+
+    expect(expression).toEqual({
+      op: 'and',
+      predicates: [
+        expect.objectContaining({ id: '1', column: 'name', value: 'Alice' }),
+        expect.objectContaining({ id: '4', column: 'city', value: 'Oslo' }),
+        {
+          id: 'g1',
+          op: 'or',
+          predicates: [
+            expect.objectContaining({ id: '2', value: 'Bob' }),
+            { id: 'g2', op: 'and', predicates: [expect.objectContaining({ id: '3' })] }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('wraps negated groups in a not node that keeps the group id', () => {
+    const expression = buildFilterExpression(
+      [
+        { ...base, id: '1', column: 'image', operator: 'contains', value: 'svchost', groupId: 'g1' },
+        { ...base, id: '2', column: 'path', operator: 'contains', value: 'System32', groupId: 'g1' }
+      ],
+      [{ id: 'g1', op: 'and', negated: true }]
+    );
+
+    expect(expression).toEqual({
+      op: 'and',
+      predicates: [
+        {
+          id: 'g1',
+          op: 'not',
+          predicates: [
+            {
+              op: 'and',
+              predicates: [
+                expect.objectContaining({ id: '1', operator: 'contains' }),
+                expect.objectContaining({ id: '2', operator: 'contains' })
+              ]
+            }
+          ]
+        }
+      ]
+    });
+  });
+});
+
+describe('filterNodeToBuilderState', () => {
+  it('restores builder filters from the trees buildFilterExpression produces', () => {
+    const filters = [
+      { id: '1', column: 'name', operator: 'eq', value: 'Alice', caseSensitive: false, enabled: true },
+      { id: '2', column: 'name', operator: 'eq', value: 'Bob', caseSensitive: false, enabled: true },
+      {
+        id: '3',
+        column: TAG_COLUMN_ID,
+        operator: 'eq',
+        value: TAG_NO_LABEL_FILTER_VALUE,
+        caseSensitive: false,
+        enabled: true
+      }
+    ];
+
+    const state = filterNodeToBuilderState(buildFilterExpression(filters));
+
+    expect(state.groups).toEqual([]);
+    expect(state.filters.map((filter) => filter.id).sort()).toEqual(['1', '2', '3']);
+    expect(state.filters.find((filter) => filter.id === '3')?.value).toBe(
+      TAG_NO_LABEL_FILTER_VALUE
+    );
+    expect(filterNodeToBuilderState(null)).toEqual({ filters: [], groups: [] });
+  });
+
+  it('turns nested expressions into groups that compile back to the same tree', () => {
+    const expression: FilterNode = {
+      op: 'and',
+      predicates: [
+        { column: 'city', operator: 'eq', value: 'Oslo', caseSensitive: false },
+        {
+          op: 'or',
+          predicates: [
+            { column: 'name', operator: 'eq', value: 'Alice', caseSensitive: false },
+            { column: 'age', operator: 'gt', value: 3, caseSensitive: false }
+          ]
+        }
+      ]
+    };
+
+    const state = filterNodeToBuilderState(expression);
+
+    expect(state.groups).toHaveLength(1);
+    expect(state.groups[0]).toMatchObject({ op: 'or' });
+    expect(state.filters.filter((filter) => filter.groupId === state.groups[0]!.id)).toHaveLength(
+      2
+    );
+    expect(stripIds(buildFilterExpression(state.filters, state.groups))).toEqual(expression);
+  });
+
+  it('restores negated groups from not nodes', () => {
+    const expression: FilterNode = {
+      op: 'not',
+      predicates: [
+        {
+          op: 'or',
+          predicates: [
+            { column: 'name', operator: 'eq', value: 'Alice', caseSensitive: false },
+            { column: 'age', operator: 'gt', value: 3, caseSensitive: false }
+          ]
+        }
+      ]
+    };
+
+    const state = filterNodeToBuilderState(expression);
+
+    expect(state.groups).toEqual([{ id: expect.any(String), op: 'or', negated: true }]);
+    expect(stripIds(buildFilterExpression(state.filters, state.groups))).toEqual({
+      op: 'and',
+      predicates: [expression]
+    });
+  });
+
+  it('wraps top-level equalities on one column so they are not ORed together', () => {
+    const expression: FilterNode = {
+      op: 'and',
+      predicates: [
+        { column: 'name', operator: 'eq', value: 'Alice', caseSensitive: false },
+        { column: 'name', operator: 'eq', value: 'Bob', caseSensitive: false }
+      ]
+    };
+
+    const state = filterNodeToBuilderState(expression);
+
+    expect(state.groups).toEqual([{ id: expect.any(String), op: 'and' }]);
+    expect(stripIds(buildFilterExpression(state.filters, state.groups))).toEqual({
+      op: 'and',
+      predicates: [expression]
+    });
+  });
 });
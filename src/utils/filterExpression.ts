@@ -4,7 +4,7 @@ import {
   type FilterNode,
   type FilterPredicate
 } from '@workers/types';
-import type { FilterState } from '@state/sessionStore';
+import type { FilterGroupState, FilterState } from '@state/sessionStore';
 
 const isBlankValue = (value: unknown): boolean => {
   if (value == null) {
@@ -33,10 +33,21 @@ export const isFilterComplete = (filter: FilterState): boolean => {
     case 'between':
     case 'range':
       return !isBlankValue(filter.value) || !isBlankValue(filter.value2);
+    case 'isNull':
+    case 'isNotNull':
+      return true;
+    case 'in':
+    case 'notIn':
+      return Array.isArray(filter.value) && filter.value.some((value) => !isBlankValue(value));
+    case 'lengthGt':
+    case 'lengthLt':
+    case 'lengthEq':
+      return !isBlankValue(filter.value) && Number.isFinite(Number(filter.value));
     case 'eq':
     case 'neq':
     case 'contains':
     case 'startsWith':
+    case 'endsWith':
     case 'matches':
     case 'notMatches':
     case 'gt':
@@ -47,32 +58,41 @@ export const isFilterComplete = (filter: FilterState): boolean => {
   }
 };
 
-export const buildFilterExpression = (filters: FilterState[]): FilterNode | null => {
-  const activeFilters = filters.filter(isFilterComplete);
-  if (!activeFilters.length) {
-    return null;
-  }
+/**
+ * Splits pasted text into `in`/`notIn` values: one per line or comma, trimmed,
+ * with blanks and repeats dropped.
+ */
+export const parseFilterValueList = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(/[\r\n,]+/)
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0)
+  )
+];
 
-  const predicates: FilterPredicate[] = activeFilters.map((predicate) => {
-    const operator = predicate.operator as FilterPredicate['operator'];
-    let value = predicate.value;
+const toPredicate = (filter: FilterState): FilterPredicate => {
+  const operator = filter.operator as FilterPredicate['operator'];
+  let value = filter.value;
 
-    if (predicate.column === TAG_COLUMN_ID) {
-      if (value === TAG_NO_LABEL_FILTER_VALUE) {
-        value = null;
-      }
+  if (filter.column === TAG_COLUMN_ID) {
+    if (value === TAG_NO_LABEL_FILTER_VALUE) {
+      value = null;
     }
+  }
 
-    return {
-      id: predicate.id,
-      column: predicate.column,
-      operator,
-      value,
-      value2: predicate.value2,
-      caseSensitive: Boolean(predicate.caseSensitive)
-    };
-  });
+  return {
+    id: filter.id,
+    column: filter.column,
+    operator,
+    value,
+    value2: filter.value2,
+    caseSensitive: Boolean(filter.caseSensitive)
+  };
+};
 
+/** Top-level predicates keep the original behaviour of ORing equalities on one column. */
+const groupTopLevelPredicates = (predicates: FilterPredicate[]): FilterNode[] => {
   const groupedPredicates: FilterNode[] = [];
   const groupedEqPredicates = new Map<string, FilterPredicate[]>();
 
@@ -101,8 +121,172 @@ export const buildFilterExpression = (filters: FilterState[]): FilterNode | null
     });
   }
 
+  return groupedPredicates;
+};
+
+export const buildFilterExpression = (
+  filters: FilterState[],
+  groups: FilterGroupState[] = []
+): FilterNode | null => {
+  const groupIds = new Set(groups.map((group) => group.id));
+  const activeFilters = filters.filter(isFilterComplete);
+
+  // Dangling references fall back to the top level rather than vanishing.
+  const parentOf = (filter: FilterState): string | undefined =>
+    filter.groupId && groupIds.has(filter.groupId) ? filter.groupId : undefined;
+  const groupParentOf = (group: FilterGroupState): string | undefined =>
+    group.parentId && groupIds.has(group.parentId) ? group.parentId : undefined;
+
+  const buildGroup = (group: FilterGroupState, visited: Set<string>): FilterNode | null => {
+    if (visited.has(group.id)) {
+      return null;
+    }
+    visited.add(group.id);
+
+    const children: FilterNode[] = [
+      ...activeFilters.filter((filter) => parentOf(filter) === group.id).map(toPredicate),
+      ...groups
+        .filter((child) => groupParentOf(child) === group.id)
+        .map((child) => buildGroup(child, visited))
+        .filter((node): node is FilterNode => node != null)
+    ];
+    if (!children.length) {
+      return null;
+    }
+
+    if (group.negated) {
+      return { id: group.id, op: 'not', predicates: [{ op: group.op, predicates: children }] };
+    }
+    return { id: group.id, op: group.op, predicates: children };
+  };
+
+  const visited = new Set<string>();
+  const topLevel: FilterNode[] = [
+    ...groupTopLevelPredicates(
+      activeFilters.filter((filter) => parentOf(filter) === undefined).map(toPredicate)
+    ),
+    ...groups
+      .filter((group) => groupParentOf(group) === undefined)
+      .map((group) => buildGroup(group, visited))
+      .filter((node): node is FilterNode => node != null)
+  ];
+  if (!topLevel.length) {
+    return null;
+  }
+
   return {
     op: 'and',
-    predicates: groupedPredicates
+    predicates: topLevel
   };
 };
+
+const isGroupableEq = (node: FilterNode): node is FilterPredicate =>
+  !('op' in node) && node.operator === 'eq' && node.column !== TAG_COLUMN_ID;
+
+const eqGroupKey = (predicate: FilterPredicate): string =>
+  `${predicate.column}::${predicate.caseSensitive ? '1' : '0'}`;
+
+export interface FilterBuilderState {
+  filters: FilterState[];
+  groups: FilterGroupState[];
+}
+
+/**
+ * Inverse of {@link buildFilterExpression}: turns a tree back into builder
+ * filters and groups. Top-level equalities on one column that
+ * `buildFilterExpression` would OR together are wrapped in an explicit AND
+ * group so the tree keeps its meaning.
+ */
+export const filterNodeToBuilderState = (expression: FilterNode | null): FilterBuilderState => {
+  const state: FilterBuilderState = { filters: [], groups: [] };
+  if (!expression) {
+    return state;
+  }
+
+  const addFilter = (predicate: FilterPredicate, groupId?: string) => {
+    state.filters.push({
+      id: predicate.id ?? crypto.randomUUID(),
+      column: predicate.column,
+      operator: predicate.operator,
+      value:
+        predicate.column === TAG_COLUMN_ID && predicate.value == null
+          ? TAG_NO_LABEL_FILTER_VALUE
+          : predicate.value,
+      value2: predicate.value2,
+      caseSensitive: Boolean(predicate.caseSensitive),
+      enabled: true,
+      ...(groupId ? { groupId } : {})
+    });
+  };
+
+  const addGroup = (node: FilterNode, parentId?: string) => {
+    if (!('op' in node)) {
+      addFilter(node, parentId);
+      return;
+    }
+
+    // NOT over a single AND/OR becomes that group with the negate flag set.
+    const inner = node.op === 'not' && node.predicates.length === 1 ? node.predicates[0]! : null;
+    const unwrapped = inner && 'op' in inner && inner.op !== 'not' && !inner.id ? inner : null;
+    const source = unwrapped ?? node;
+    const op = source.op === 'or' ? 'or' : 'and';
+
+    const id = node.id ?? crypto.randomUUID();
+    state.groups.push({
+      id,
+      op,
+      ...(node.op === 'not' ? { negated: true } : {}),
+      ...(parentId ? { parentId } : {})
+    });
+    for (const child of source.predicates) {
+      addGroup(child, id);
+    }
+  };
+
+  const topLevel =
+    'op' in expression && expression.op === 'and' && !expression.id
+      ? expression.predicates
+      : [expression];
+
+  // Equalities that would be merged into one OR must not share a column.
+  const eqKeyUses = new Map<string, number>();
+  const eqGroupKeyOf = (node: FilterNode): string | null => {
+    if (isGroupableEq(node)) {
+      return eqGroupKey(node);
+    }
+    if (
+      'op' in node &&
+      node.op === 'or' &&
+      !node.id &&
+      node.predicates.length > 0 &&
+      node.predicates.every(isGroupableEq)
+    ) {
+      const keys = new Set((node.predicates as FilterPredicate[]).map(eqGroupKey));
+      return keys.size === 1 ? [...keys][0]! : null;
+    }
+    return null;
+  };
+  for (const node of topLevel) {
+    const key = eqGroupKeyOf(node);
+    if (key) {
+      eqKeyUses.set(key, (eqKeyUses.get(key) ?? 0) + 1);
+    }
+  }
+
+  if ([...eqKeyUses.values()].some((count) => count > 1)) {
+    addGroup({ op: 'and', predicates: topLevel });
+    return state;
+  }
+
+  for (const node of topLevel) {
+    if (eqGroupKeyOf(node) && 'op' in node) {
+      for (const predicate of node.predicates as FilterPredicate[]) {
+        addFilter(predicate);
+      }
+    } else {
+      addGroup(node);
+    }
+  }
+
+  return state;
+};
@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseFilterQuery, printFilterQuery } from './filterQuery';
+import { buildFilterExpression } from './filterExpression';
+import type { FilterNode, LabelDefinition } from '@workers/types';
+import { TAG_COLUMN_ID, TAG_NO_LABEL_FILTER_VALUE } from '@workers/types';
+
+const columnTypes = {
+  EventID: 'number',
+  User: 'string',
+  Host: 'string',
+  'Event Time': 'datetime',
+  elevated: 'boolean'
+} as const;
+
+const labels: LabelDefinition[] = [
+  { id: 'label-1', name: 'Lateral movement', color: '#f00', createdAt: 1, updatedAt: 1 }
+];
+
+const parse = (source: string): FilterNode | null => {
+  const result = parseFilterQuery(source, { columnTypes, labels });
+  if (result.error) {
+    throw new Error(`${result.error.message} @${result.error.position}`);
+  }
+  return result.expression;
+};
+
+describe('parseFilterQuery', () => {
+  it('parses AND/OR precedence, regex literals and keyword operators', () => {
+    expect(parse('EventID = 4624 AND (User ~ /adm/i OR Host startsWith "DC")')).toEqual({
+      op: 'and',
+      predicates: [
+        { column: 'EventID', operator: 'eq', value: 4624, caseSensitive: false },
+        {
+          op: 'or',
+          predicates: [
+            { column: 'User', operator: 'matches', value: 'adm', caseSensitive: false },
+            { column: 'Host', operator: 'startsWith', value: 'DC', caseSensitive: false }
+          ]
+        }
+      ]
+    });
+
+    expect(parse('User = "a" OR User = "b" and elevated = true')).toEqual({
+      op: 'or',
+      predicates: [
+        { column: 'User', operator: 'eq', value: 'a', caseSensitive: false },
+        {
+          op: 'and',
+          predicates: [
+            { column: 'User', operator: 'eq', value: 'b', caseSensitive: false },
+            { column: 'elevated', operator: 'eq', value: true, caseSensitive: false }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('parses NOT as a prefix that binds tighter than AND', () => {
+    expect(parse('NOT (Host = "svchost" AND User contains "system") AND EventID = 1')).toEqual({
+      op: 'and',
+      predicates: [
+        {
+          op: 'not',
+          predicates: [
+            {
+              op: 'and',
+              predicates: [
+                { column: 'Host', operator: 'eq', value: 'svchost', caseSensitive: false },
+                { column: 'User', operator: 'contains', value: 'system', caseSensitive: false }
+              ]
+            }
+          ]
+        },
+        { column: 'EventID', operator: 'eq', value: 1, caseSensitive: false }
+      ]
+    });
+    expect(parse('not not EventID = 1')).toEqual({
+      op: 'not',
+      predicates: [
+        {
+          op: 'not',
+          predicates: [{ column: 'EventID', operator: 'eq', value: 1, caseSensitive: false }]
+        }
+      ]
+    });
+  });
+
+  it('handles case sensitivity, ranges, datetimes and labels', () => {
+    expect(parse('User contains "Admin" cs')).toMatchObject({ caseSensitive: true });
+    expect(parse('User !~ /^svc_\\/x/')).toEqual({
+      column: 'User',
+      operator: 'notMatches',
+      value: '^svc_/x',
+      caseSensitive: true
+    });
+    expect(parse('`Event Time` between "2024-01-01T00:00:00Z" and 2024-01-02T00:00:00Z')).toEqual({
+      column: 'Event Time',
+      operator: 'between',
+      value: Date.UTC(2024, 0, 1),
+      value2: Date.UTC(2024, 0, 2),
+      caseSensitive: false
+    });
+    expect(parse('__tag = "lateral movement" AND __tag != null')).toEqual({
+      op: 'and',
+      predicates: [
+        { column: TAG_COLUMN_ID, operator: 'eq', value: 'label-1', caseSensitive: false },
+        { column: TAG_COLUMN_ID, operator: 'neq', value: null, caseSensitive: false }
+      ]
+    });
+    expect(parse('   ')).toBeNull();
+  });
+
+  it('parses list, empty-value and length operators', () => {
+    expect(parse('Host in ("DC01", \'dc02\', 3) cs AND User isNotNull')).toEqual({
+      op: 'and',
+      predicates: [
+        { column: 'Host', operator: 'in', value: ['DC01', 'dc02', 3], caseSensitive: true },
+        { column: 'User', operator: 'isNotNull', value: null, caseSensitive: false }
+      ]
+    });
+    expect(parse('User lengthGt 20 OR User endsWith "$"')).toEqual({
+      op: 'or',
+      predicates: [
+        { column: 'User', operator: 'lengthGt', value: 20, caseSensitive: false },
+        { column: 'User', operator: 'endsWith', value: '$', caseSensitive: false }
+      ]
+    });
+    expect(parseFilterQuery('Host in ("a" "b")').error).toEqual({
+      message: 'Expected "," or ")" but found ""b""',
+      position: 13
+    });
+    expect(parseFilterQuery('User lengthEq "x"').error?.message).toBe(
+      'Expected a length but found ""x""'
+    );
+  });
+
+  it('reports errors with their position in the query', () => {
+    expect(parseFilterQuery('EventID = 1 AND (User = "x"', { columnTypes }).error).toEqual({
+      message: 'Expected ")" but found end of query',
+      position: 27
+    });
+    expect(parseFilterQuery('Missing = 1', { columnTypes }).error).toEqual({
+      message: 'Unknown column "Missing"',
+      position: 0
+    });
+    expect(parseFilterQuery('User ~ /a/g').error?.position).toBe(10);
+    expect(parseFilterQuery('__tag contains "x"').error?.message).toBe(
+      'Label filters only support = and !='
+    );
+    expect(parseFilterQuery('__tag = "Unknown"', { labels }).error?.message).toBe(
+      'Unknown label "Unknown"'
+    );
+    expect(parseFilterQuery('EventID 4624').error).toEqual({
+      message: 'Expected an operator but found "4624"',
+      position: 8
+    });
+  });
+});
+
+describe('printFilterQuery', () => {
+  it('round-trips every operator and nested group shape', () => {
+    const expression: FilterNode = {
+      op: 'and',
+      predicates: [
+        { column: 'EventID', operator: 'neq', value: 4625, caseSensitive: false },
+        { column: 'EventID', operator: 'gt', value: 10, caseSensitive: false },
+        { column: 'EventID', operator: 'lt', value: -1.5, caseSensitive: false },
+        { column: 'EventID', operator: 'range', value: 1, value2: null, caseSensitive: false },
+        { column: 'User', operator: 'regex', value: 'a/b\\d', caseSensitive: false },
+        { column: 'User', operator: 'contains', value: 'say "hi"', caseSensitive: true },
+        { column: 'User', operator: 'notIn', value: ['a', 'b'], caseSensitive: false },
+        { column: 'Host', operator: 'isNull', value: null, caseSensitive: false },
+        { column: 'Host', operator: 'lengthLt', value: 4, caseSensitive: false },
+        {
+          op: 'or',
+          predicates: [
+            {
+              op: 'and',
+              predicates: [
+                { column: 'Host', operator: 'startsWith', value: 'DC', caseSensitive: false },
+                { column: 'elevated', operator: 'eq', value: false, caseSensitive: false }
+              ]
+            },
+            { column: 'Host', operator: 'matches', value: 'srv', caseSensitive: true }
+          ]
+        },
+        {
+          column: 'Event Time',
+          operator: 'between',
+          value: Date.UTC(2024, 0, 1),
+          value2: Date.UTC(2024, 0, 2),
+          caseSensitive: false
+        },
+        { column: TAG_COLUMN_ID, operator: 'eq', value: 'label-1', caseSensitive: false },
+        {
+          op: 'not',
+          predicates: [
+            {
+              op: 'or',
+              predicates: [
+                { column: 'User', operator: 'eq', value: 'svc', caseSensitive: false },
+                { column: 'elevated', operator: 'eq', value: true, caseSensitive: false }
+              ]
+            }
+          ]
+        }
+      ]
+    };
+
+    const text = printFilterQuery(expression, { columnTypes, labels });
+    expect(text).toContain('NOT (User = "svc" OR elevated = true)');
+    expect(text).toContain('User regex /a\\/b\\d/i');
+    expect(text).toContain('User notIn ("a", "b") AND Host isNull AND Host lengthLt 4');
+    expect(text).toContain('((Host startsWith "DC" AND elevated = false) OR Host ~ /srv/)');
+    expect(text).toContain('`Event Time` between "2024-01-01T00:00:00.000Z" AND');
+    expect(text).toContain('__tag = "Lateral movement"');
+    expect(parse(text)).toEqual(expression);
+  });
+
+  it('prints builder filters so they parse back to the same tree', () => {
+    const expression = buildFilterExpression([
+      { id: '1', column: 'User', operator: 'eq', value: 'alice' },
+      { id: '2', column: 'User', operator: 'eq', value: 'bob' },
+      { id: '3', column: TAG_COLUMN_ID, operator: 'neq', value: TAG_NO_LABEL_FILTER_VALUE }
+    ]);
+
+    const text = printFilterQuery(expression, { columnTypes, labels });
+    expect(text).toBe('__tag != null AND (User = "alice" OR User = "bob")');
+    expect(parse(text)).toEqual({
+      op: 'and',
+      predicates: [
+        { column: TAG_COLUMN_ID, operator: 'neq', value: null, caseSensitive: false },
+        {
+          op: 'or',
+          predicates: [
+            { column: 'User', operator: 'eq', value: 'alice', caseSensitive: false },
+            { column: 'User', operator: 'eq', value: 'bob', caseSensitive: false }
+          ]
+        }
+      ]
+    });
+  });
+});
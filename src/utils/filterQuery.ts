@@ -0,0 +1,626 @@
+import {
+  TAG_COLUMN_ID,
+  TAG_NO_LABEL_FILTER_VALUE,
+  type ColumnType,
+  type FilterNode,
+  type FilterOperator,
+  type FilterPredicate,
+  type LabelDefinition
+} from '@workers/types';
+
+/**
+ * Text syntax for filter trees, e.g.
+ * `EventID = 4624 AND (User ~ /adm/i OR Host startsWith "DC")`.
+ *
+ * - `AND` binds tighter than `OR`; parentheses keep their grouping so a
+ *   printed tree parses back to the same shape.
+ * - `NOT` negates the predicate or parenthesised group that follows it.
+ * - `in`/`notIn` take a parenthesised, comma-separated list; `isNull` and
+ *   `isNotNull` take no value.
+ * - Regex literals carry case sensitivity through the `i` flag; other string
+ *   predicates are case-insensitive unless followed by `cs`.
+ * - Columns that are not plain identifiers are written in backticks.
+ * - `__tag = "Label name"` filters by label; `__tag = null` matches unlabelled rows.
+ */
+
+export interface FilterQueryOptions {
+  /** Enables unknown-column errors and ISO datetime values when provided. */
+  columnTypes?: Record<string, ColumnType>;
+  /** Resolves `__tag` values by label name and prints names instead of ids. */
+  labels?: LabelDefinition[];
+}
+
+export interface FilterQueryError {
+  message: string;
+  /** Zero-based offset into the query text. */
+  position: number;
+}
+
+export type FilterQueryParseResult =
+  | { expression: FilterNode | null; error: null }
+  | { expression: null; error: FilterQueryError };
+
+type TokenType = 'lparen' | 'rparen' | 'comma' | 'symbol' | 'string' | 'regex' | 'ident' | 'word' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+  /** Decoded string contents, identifier name or regex source. */
+  value: string;
+  flags?: string;
+}
+
+const SYMBOL_OPERATORS: Record<string, FilterOperator> = {
+  '=': 'eq',
+  '==': 'eq',
+  '!=': 'neq',
+  '>': 'gt',
+  '<': 'lt',
+  '~': 'matches',
+  '!~': 'notMatches'
+};
+
+const KEYWORD_OPERATORS: Record<string, FilterOperator> = {
+  contains: 'contains',
+  startswith: 'startsWith',
+  endswith: 'endsWith',
+  regex: 'regex',
+  matches: 'matches',
+  notmatches: 'notMatches',
+  between: 'between',
+  range: 'range',
+  in: 'in',
+  notin: 'notIn',
+  isnull: 'isNull',
+  isnotnull: 'isNotNull',
+  lengthgt: 'lengthGt',
+  lengthlt: 'lengthLt',
+  lengtheq: 'lengthEq'
+};
+
+const PRINTED_OPERATORS: Record<FilterOperator, string> = {
+  eq: '=',
+  neq: '!=',
+  gt: '>',
+  lt: '<',
+  contains: 'contains',
+  startsWith: 'startsWith',
+  regex: 'regex',
+  matches: '~',
+  notMatches: '!~',
+  between: 'between',
+  range: 'range',
+  endsWith: 'endsWith',
+  in: 'in',
+  notIn: 'notIn',
+  isNull: 'isNull',
+  isNotNull: 'isNotNull',
+  lengthGt: 'lengthGt',
+  lengthLt: 'lengthLt',
+  lengthEq: 'lengthEq'
+};
+
+const REGEX_OPERATORS = new Set<FilterOperator>(['regex', 'matches', 'notMatches']);
+const RANGE_OPERATORS = new Set<FilterOperator>(['between', 'range']);
+const LIST_OPERATORS = new Set<FilterOperator>(['in', 'notIn']);
+const VALUELESS_OPERATORS = new Set<FilterOperator>(['isNull', 'isNotNull']);
+const LENGTH_OPERATORS = new Set<FilterOperator>(['lengthGt', 'lengthLt', 'lengthEq']);
+const RESERVED_WORDS = new Set([
+  'and',
+  'or',
+  'not',
+  'cs',
+  'true',
+  'false',
+  'null',
+  ...Object.keys(KEYWORD_OPERATORS)
+]);
+const BARE_COLUMN_PATTERN = /^[\p{L}_@$][\p{L}\p{N}_.@$-]*$/u;
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const WORD_BREAK = /[\s(),"'`/=!<>~]/;
+
+// Annotated so control flow treats calls as terminating.
+const fail: (message: string, position: number) => never = (message, position) => {
+  throw Object.assign(new Error(message), { position });
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const readQuoted = (quote: string): Token => {
+    const start = index;
+    let value = '';
+    index += 1;
+    while (index < source.length && source[index] !== quote) {
+      if (source[index] === '\\' && index + 1 < source.length) {
+        const escape = source[index + 1]!;
+        if (quote === '"') {
+          try {
+            const sequence = escape === 'u' ? source.slice(index + 1, index + 6) : escape;
+            value += JSON.parse(`"\\${sequence}"`);
+          } catch {
+            fail(`Invalid escape "\\${escape}"`, index);
+          }
+          index += escape === 'u' ? 6 : 2;
+        } else {
+          value += escape;
+          index += 2;
+        }
+        continue;
+      }
+      value += source[index];
+      index += 1;
+    }
+    if (index >= source.length) {
+      fail('Unterminated string', start);
+    }
+    index += 1;
+    return { type: 'string', text: source.slice(start, index), position: start, value };
+  };
+
+  const readRegex = (): Token => {
+    const start = index;
+    let value = '';
+    let inClass = false;
+    index += 1;
+    while (index < source.length && (inClass || source[index] !== '/')) {
+      const char = source[index]!;
+      if (char === '\\' && index + 1 < source.length) {
+        const next = source[index + 1]!;
+        value += next === '/' ? '/' : `\\${next}`;
+        index += 2;
+        continue;
+      }
+      if (char === '[') {
+        inClass = true;
+      } else if (char === ']') {
+        inClass = false;
+      }
+      value += char;
+      index += 1;
+    }
+    if (index >= source.length) {
+      fail('Unterminated regular expression', start);
+    }
+    index += 1;
+    const flagsStart = index;
+    while (index < source.length && /[a-z]/i.test(source[index]!)) {
+      index += 1;
+    }
+    const flags = source.slice(flagsStart, index);
+    if (flags !== '' && flags !== 'i') {
+      fail(`Unsupported regex flags "${flags}"; only "i" is allowed`, flagsStart);
+    }
+    return { type: 'regex', text: source.slice(start, index), position: start, value, flags };
+  };
+
+  while (index < source.length) {
+    const char = source[index]!;
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    const position = index;
+    if (char === '(' || char === ')' || char === ',') {
+      const type = char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma';
+      tokens.push({ type, text: char, position, value: char });
+      index += 1;
+    } else if (char === '"' || char === "'") {
+      tokens.push(readQuoted(char));
+    } else if (char === '/') {
+      tokens.push(readRegex());
+    } else if (char === '`') {
+      const end = source.indexOf('`', index + 1);
+      if (end < 0) {
+        fail('Unterminated column name', position);
+      }
+      index = end + 1;
+      tokens.push({
+        type: 'ident',
+        text: source.slice(position, index),
+        position,
+        value: source.slice(position + 1, end)
+      });
+    } else if ('=!<>~'.includes(char)) {
+      const pair = source.slice(index, index + 2);
+      const text = pair in SYMBOL_OPERATORS ? pair : char;
+      if (!(text in SYMBOL_OPERATORS)) {
+        fail(`Unexpected "${char}"`, position);
+      }
+      tokens.push({ type: 'symbol', text, position, value: text });
+      index += text.length;
+    } else {
+      while (index < source.length && !WORD_BREAK.test(source[index]!)) {
+        index += 1;
+      }
+      const text = source.slice(position, index);
+      tokens.push({ type: 'word', text, position, value: text });
+    }
+  }
+
+  tokens.push({ type: 'eof', text: '', position: source.length, value: '' });
+  return tokens;
+};
+
+const isKeyword = (token: Token, keyword: string): boolean =>
+  token.type === 'word' && token.value.toLowerCase() === keyword;
+
+const describeToken = (token: Token): string =>
+  token.type === 'eof' ? 'end of query' : `"${token.text}"`;
+
+class QueryParser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly options: FilterQueryOptions
+  ) {}
+
+  parse(): FilterNode | null {
+    if (this.peek().type === 'eof') {
+      return null;
+    }
+
+    const node = this.parseOr();
+    const trailing = this.peek();
+    if (trailing.type !== 'eof') {
+      fail(
+        `Expected AND, OR or end of query but found ${describeToken(trailing)}`,
+        trailing.position
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]!;
+    if (token.type !== 'eof') {
+      this.index += 1;
+    }
+    return token;
+  }
+
+  private parseOr(): FilterNode {
+    const nodes = [this.parseAnd()];
+    while (isKeyword(this.peek(), 'or')) {
+      this.next();
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0]! : { op: 'or', predicates: nodes };
+  }
+
+  private parseAnd(): FilterNode {
+    const nodes = [this.parseNot()];
+    while (isKeyword(this.peek(), 'and')) {
+      this.next();
+      nodes.push(this.parseNot());
+    }
+    return nodes.length === 1 ? nodes[0]! : { op: 'and', predicates: nodes };
+  }
+
+  private parseNot(): FilterNode {
+    if (isKeyword(this.peek(), 'not')) {
+      this.next();
+      return { op: 'not', predicates: [this.parseNot()] };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.peek();
+    if (token.type === 'lparen') {
+      this.next();
+      const node = this.parseOr();
+      const closing = this.next();
+      if (closing.type !== 'rparen') {
+        fail(`Expected ")" but found ${describeToken(closing)}`, closing.position);
+      }
+      return node;
+    }
+    return this.parsePredicate();
+  }
+
+  private parseColumn(): Token {
+    const token = this.next();
+    if (token.type === 'ident') {
+      return token;
+    }
+    if (
+      token.type === 'word' &&
+      BARE_COLUMN_PATTERN.test(token.value) &&
+      !RESERVED_WORDS.has(token.value.toLowerCase())
+    ) {
+      return token;
+    }
+    fail(`Expected a column name but found ${describeToken(token)}`, token.position);
+  }
+
+  private parseOperator(): FilterOperator {
+    const token = this.next();
+    if (token.type === 'symbol') {
+      return SYMBOL_OPERATORS[token.value]!;
+    }
+    const keyword =
+      token.type === 'word' ? KEYWORD_OPERATORS[token.value.toLowerCase()] : undefined;
+    if (keyword) {
+      return keyword;
+    }
+    fail(`Expected an operator but found ${describeToken(token)}`, token.position);
+  }
+
+  private parseValue(column: string): { value: unknown; token: Token } {
+    const token = this.next();
+    let value: unknown;
+    switch (token.type) {
+      case 'string':
+      case 'regex':
+        value = token.value;
+        break;
+      case 'word': {
+        const lowered = token.value.toLowerCase();
+        if (RESERVED_WORDS.has(lowered) && !['true', 'false', 'null'].includes(lowered)) {
+          fail(`Expected a value but found ${describeToken(token)}`, token.position);
+        }
+        value =
+          lowered === 'true'
+            ? true
+            : lowered === 'false'
+              ? false
+              : lowered === 'null'
+                ? null
+                : NUMBER_PATTERN.test(token.value)
+                  ? Number(token.value)
+                  : token.value;
+        break;
+      }
+      default:
+        fail(`Expected a value but found ${describeToken(token)}`, token.position);
+    }
+
+    if (
+      typeof value === 'string' &&
+      value !== '' &&
+      token.type !== 'regex' &&
+      this.options.columnTypes?.[column] === 'datetime'
+    ) {
+      const timestamp = Date.parse(value);
+      if (!Number.isFinite(timestamp)) {
+        fail(`Invalid datetime ${describeToken(token)}`, token.position);
+      }
+      value = timestamp;
+    }
+
+    return { value, token };
+  }
+
+  private resolveLabel(value: unknown, token: Token): string | null {
+    if (value == null || value === TAG_NO_LABEL_FILTER_VALUE) {
+      return null;
+    }
+
+    const text = String(value);
+    const labels = this.options.labels;
+    if (!labels) {
+      return text;
+    }
+
+    const match =
+      labels.find((label) => label.name === text) ??
+      labels.find((label) => label.id === text) ??
+      labels.find((label) => label.name.toLowerCase() === text.toLowerCase());
+    if (!match) {
+      fail(`Unknown label "${text}"`, token.position);
+    }
+    return match.id;
+  }
+
+  private parsePredicate(): FilterPredicate {
+    const columnToken = this.parseColumn();
+    const column = columnToken.value;
+    const columnTypes = this.options.columnTypes;
+    if (columnTypes && column !== TAG_COLUMN_ID && !(column in columnTypes)) {
+      fail(`Unknown column "${column}"`, columnToken.position);
+    }
+
+    const operatorToken = this.peek();
+    const operator = this.parseOperator();
+
+    if (column === TAG_COLUMN_ID) {
+      if (operator !== 'eq' && operator !== 'neq') {
+        fail('Label filters only support = and !=', operatorToken.position);
+      }
+      const { value, token } = this.parseValue(column);
+      return {
+        column,
+        operator,
+        value: this.resolveLabel(value, token),
+        caseSensitive: false
+      };
+    }
+
+    if (VALUELESS_OPERATORS.has(operator)) {
+      return { column, operator, value: null, caseSensitive: false };
+    }
+
+    if (LIST_OPERATORS.has(operator)) {
+      const values = this.parseValueList(column);
+      return { column, operator, value: values, caseSensitive: this.parseCaseSuffix(false) };
+    }
+
+    const first = this.parseValue(column);
+    if (LENGTH_OPERATORS.has(operator) && typeof first.value !== 'number') {
+      fail(`Expected a length but found ${describeToken(first.token)}`, first.token.position);
+    }
+    if (RANGE_OPERATORS.has(operator)) {
+      const separator = this.next();
+      if (!isKeyword(separator, 'and')) {
+        fail(
+          `Expected AND between range bounds but found ${describeToken(separator)}`,
+          separator.position
+        );
+      }
+      const second = this.parseValue(column);
+      return { column, operator, value: first.value, value2: second.value, caseSensitive: false };
+    }
+
+    const caseSensitive = this.parseCaseSuffix(
+      first.token.type === 'regex' ? first.token.flags !== 'i' : false
+    );
+    return { column, operator, value: first.value, caseSensitive };
+  }
+
+  private parseCaseSuffix(fallback: boolean): boolean {
+    if (isKeyword(this.peek(), 'cs')) {
+      this.next();
+      return true;
+    }
+    return fallback;
+  }
+
+  private parseValueList(column: string): unknown[] {
+    const opening = this.next();
+    if (opening.type !== 'lparen') {
+      fail(`Expected "(" but found ${describeToken(opening)}`, opening.position);
+    }
+
+    const values = [this.parseValue(column).value];
+    while (this.peek().type === 'comma') {
+      this.next();
+      values.push(this.parseValue(column).value);
+    }
+
+    const closing = this.next();
+    if (closing.type !== 'rparen') {
+      fail(`Expected "," or ")" but found ${describeToken(closing)}`, closing.position);
+    }
+    return values;
+  }
+}
+
+export const parseFilterQuery = (
+  source: string,
+  options: FilterQueryOptions = {}
+): FilterQueryParseResult => {
+  try {
+    return { expression: new QueryParser(tokenize(source), options).parse(), error: null };
+  } catch (error) {
+    const position = (error as { position?: unknown }).position;
+    if (error instanceof Error && typeof position === 'number') {
+      return { expression: null, error: { message: error.message, position } };
+    }
+    throw error;
+  }
+};
+
+const printColumn = (column: string): string =>
+  column === TAG_COLUMN_ID ||
+  (BARE_COLUMN_PATTERN.test(column) && !RESERVED_WORDS.has(column.toLowerCase()))
+    ? column
+    : `\`${column}\``;
+
+const printRegex = (pattern: string, caseSensitive: boolean): string => {
+  let body = '';
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index]!;
+    if (char === '\\' && index + 1 < pattern.length) {
+      body += char + pattern[index + 1];
+      index += 1;
+    } else {
+      body += char === '/' ? '\\/' : char;
+    }
+  }
+  return `/${body}/${caseSensitive ? '' : 'i'}`;
+};
+
+const printValue = (value: unknown, columnType: ColumnType | undefined): string => {
+  if (value == null || value === '') {
+    return value === '' ? '""' : 'null';
+  }
+  if (typeof value === 'number') {
+    if (columnType === 'datetime' && Number.isFinite(value)) {
+      return JSON.stringify(new Date(value).toISOString());
+    }
+    return Number.isFinite(value) ? String(value) : 'null';
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(String(value));
+};
+
+const printPredicate = (predicate: FilterPredicate, options: FilterQueryOptions): string => {
+  const column = printColumn(predicate.column);
+  const operator = PRINTED_OPERATORS[predicate.operator] ?? predicate.operator;
+
+  if (predicate.column === TAG_COLUMN_ID) {
+    const labelId =
+      predicate.value == null || predicate.value === TAG_NO_LABEL_FILTER_VALUE
+        ? null
+        : String(predicate.value);
+    const name = options.labels?.find((label) => label.id === labelId)?.name ?? labelId;
+    return `${column} ${operator} ${name == null ? 'null' : JSON.stringify(name)}`;
+  }
+
+  const columnType = options.columnTypes?.[predicate.column];
+  if (VALUELESS_OPERATORS.has(predicate.operator)) {
+    return `${column} ${operator}`;
+  }
+
+  if (LIST_OPERATORS.has(predicate.operator)) {
+    const values = Array.isArray(predicate.value) ? predicate.value : [predicate.value];
+    const suffix =
+      predicate.caseSensitive && values.some((value) => typeof value === 'string') ? ' cs' : '';
+    const list = values.map((value) => printValue(value, columnType)).join(', ');
+    return `${column} ${operator} (${list})${suffix}`;
+  }
+
+  if (RANGE_OPERATORS.has(predicate.operator)) {
+    return `${column} ${operator} ${printValue(predicate.value, columnType)} AND ${printValue(
+      predicate.value2,
+      columnType
+    )}`;
+  }
+
+  if (REGEX_OPERATORS.has(predicate.operator) && typeof predicate.value === 'string') {
+    return `${column} ${operator} ${printRegex(predicate.value, Boolean(predicate.caseSensitive))}`;
+  }
+
+  const suffix = predicate.caseSensitive && typeof predicate.value === 'string' ? ' cs' : '';
+  return `${column} ${operator} ${printValue(predicate.value, columnType)}${suffix}`;
+};
+
+const printNode = (node: FilterNode, options: FilterQueryOptions, nested: boolean): string => {
+  if (!('op' in node)) {
+    return printPredicate(node, options);
+  }
+
+  const parts = node.predicates.map((child) => printNode(child, options, true)).filter(Boolean);
+  if (node.op === 'not') {
+    if (!parts.length) {
+      return '';
+    }
+    return parts.length === 1 ? `NOT ${parts[0]}` : `NOT (${parts.join(' AND ')})`;
+  }
+  if (parts.length <= 1) {
+    return parts[0] ?? '';
+  }
+
+  const text = parts.join(` ${node.op.toUpperCase()} `);
+  return nested ? `(${text})` : text;
+};
+
+/**
+ * Renders a filter tree in the query syntax. Groups with a single child
+ * print as that child, so they parse back without the wrapper.
+ */
+export const printFilterQuery = (
+  expression: FilterNode | null,
+  options: FilterQueryOptions = {}
+): string => (expression ? printNode(expression, options, false) : '');
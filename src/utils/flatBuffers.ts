@@ -0,0 +1,152 @@
+/**
+ * Minimal FlatBuffers encoding for the Arrow IPC metadata tables, described
+ * as plain objects instead of generated builder code.
+ */
+
+const textEncoder = new TextEncoder();
+
+export type FlatField =
+  | { kind: 'scalar'; size: 1 | 2 | 4 | 8; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'table'; fields: Array<FlatField | null> }
+  | { kind: 'tables'; items: FlatTable[] }
+  /** Pre-encoded structs; every struct written here is 8-byte aligned. */
+  | { kind: 'structs'; bytes: Uint8Array; count: number };
+
+export type FlatTable = Extract<FlatField, { kind: 'table' }>;
+
+export const scalar = (size: 1 | 2 | 4 | 8, value: number): FlatField => ({
+  kind: 'scalar',
+  size,
+  value
+});
+
+export const flatTable = (...fields: Array<FlatField | null>): FlatTable => ({
+  kind: 'table',
+  fields
+});
+
+/**
+ * Minimal FlatBuffers encoder for the handful of Arrow metadata tables. It
+ * writes front to back: each table is preceded by its own vtable and
+ * followed by the objects it references, so every offset points forward.
+ */
+export const encodeFlatBuffer = (root: FlatTable): Uint8Array => {
+  let bytes = new Uint8Array(1024);
+  let view = new DataView(bytes.buffer);
+  let size = 0;
+
+  const reserve = (extra: number) => {
+    if (size + extra <= bytes.length) {
+      return;
+    }
+    const grown = new Uint8Array(Math.max(size + extra, bytes.length * 2));
+    grown.set(bytes);
+    bytes = grown;
+    view = new DataView(bytes.buffer);
+  };
+  const alignTo = (alignment: number, remainder = 0) => {
+    const padding = (alignment + remainder - (size % alignment)) % alignment;
+    reserve(padding);
+    size += padding;
+  };
+
+  const writeTable = (table: FlatTable): number => {
+    const slots = table.fields
+      .map((field, index) => ({
+        field,
+        index,
+        width: field == null ? 0 : field.kind === 'scalar' ? field.size : 4
+      }))
+      .filter((slot): slot is { field: FlatField; index: number; width: number } => !!slot.field)
+      .sort((left, right) => right.width - left.width);
+    // Widest first after the 4-byte vtable offset keeps every field aligned.
+    const fieldOffsets = new Map<number, number>();
+    let inlineSize = 4;
+    for (const slot of slots) {
+      fieldOffsets.set(slot.index, inlineSize);
+      inlineSize += slot.width;
+    }
+
+    const vtableSize = 4 + table.fields.length * 2;
+    alignTo(2);
+    const vtable = size;
+    reserve(vtableSize);
+    size += vtableSize;
+    const wide = slots.some((slot) => slot.width === 8);
+    alignTo(wide ? 8 : 4, wide ? 4 : 0);
+    const position = size;
+    reserve(inlineSize);
+    size += inlineSize;
+
+    view.setUint16(vtable, vtableSize, true);
+    view.setUint16(vtable + 2, inlineSize, true);
+    table.fields.forEach((_, index) => {
+      view.setUint16(vtable + 4 + index * 2, fieldOffsets.get(index) ?? 0, true);
+    });
+    view.setInt32(position, position - vtable, true);
+
+    for (const { field, index } of slots) {
+      const at = position + fieldOffsets.get(index)!;
+      if (field.kind !== 'scalar') {
+        const target = writeObject(field);
+        view.setUint32(at, target - at, true);
+      } else if (field.size === 8) {
+        view.setBigInt64(at, BigInt(field.value), true);
+      } else if (field.size === 4) {
+        view.setInt32(at, field.value, true);
+      } else if (field.size === 2) {
+        view.setInt16(at, field.value, true);
+      } else {
+        view.setUint8(at, field.value);
+      }
+    }
+    return position;
+  };
+
+  const writeObject = (field: Exclude<FlatField, { kind: 'scalar' }>): number => {
+    if (field.kind === 'table') {
+      return writeTable(field);
+    }
+    if (field.kind === 'string') {
+      const encoded = textEncoder.encode(field.value);
+      alignTo(4);
+      const position = size;
+      // Length, bytes and the trailing NUL FlatBuffers strings carry.
+      reserve(encoded.length + 5);
+      view.setUint32(position, encoded.length, true);
+      bytes.set(encoded, position + 4);
+      size += encoded.length + 5;
+      return position;
+    }
+    if (field.kind === 'structs') {
+      alignTo(8, 4);
+      const position = size;
+      reserve(field.bytes.length + 4);
+      view.setUint32(position, field.count, true);
+      bytes.set(field.bytes, position + 4);
+      size += field.bytes.length + 4;
+      return position;
+    }
+
+    alignTo(4);
+    const position = size;
+    reserve(4 + field.items.length * 4);
+    view.setUint32(position, field.items.length, true);
+    size += 4 + field.items.length * 4;
+    field.items.forEach((item, index) => {
+      const target = writeTable(item);
+      const slot = position + 4 + index * 4;
+      view.setUint32(slot, target - slot, true);
+    });
+    return position;
+  };
+
+  // The buffer opens with the offset of its root table.
+  reserve(4);
+  size = 4;
+  view.setUint32(0, writeTable(root), true);
+  alignTo(8);
+  return bytes.slice(0, size);
+};
+
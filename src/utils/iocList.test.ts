@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildIocHitExpression,
+  buildIocHitFilters,
+  classifyIoc,
+  parseIocList,
+  refangIoc
+} from './iocList';
+
+describe('parseIocList', () => {
+  it('reads plain lists, refangs values and drops comments and repeats', () => {
+    const text = [
+      '\uFEFF# feed export',
+      'hxxps://evil[.]example/path',
+      '',
+      '203.0.113[.]7',
+      '// analyst note',
+      'd41d8cd98f00b204e9800998ecf8427e',
+      'admin[at]evil.example',
+      '203.0.113.7'
+    ].join('\r\n');
+
+    expect(parseIocList(text)).toEqual([
+      { value: 'https://evil.example/path', type: 'url' },
+      { value: '203.0.113.7', type: 'ipv4' },
+      { value: 'd41d8cd98f00b204e9800998ecf8427e', type: 'md5' },
+      { value: 'admin@evil.example', type: 'email' }
+    ]);
+  });
+
+  it('uses the indicator column of a CSV export', () => {
+    const text = [
+      'first_seen,"Indicator",confidence',
+      '2024-01-01,"evil.example",80',
+      '2024-01-02,2001:db8::1,90'
+    ].join('\n');
+
+    expect(parseIocList(text)).toEqual([
+      { value: 'evil.example', type: 'domain' },
+      { value: '2001:db8::1', type: 'ipv6' }
+    ]);
+  });
+
+  it('picks the first indicator-like cell when there is no header', () => {
+    expect(parseIocList('high\tevil.example\tnote')).toEqual([
+      { value: 'evil.example', type: 'domain' }
+    ]);
+  });
+});
+
+describe('classifyIoc and refangIoc', () => {
+  it('classifies hashes by length and leaves unknown values as other', () => {
+    expect(classifyIoc('a'.repeat(40))).toBe('sha1');
+    expect(classifyIoc('A'.repeat(64))).toBe('sha256');
+    expect(classifyIoc('mimikatz.exe')).toBe('domain');
+    expect(classifyIoc('not an indicator')).toBe('other');
+    expect(refangIoc(' fxp://files{.}example[:]21 ')).toBe('ftp://files.example:21');
+  });
+});
+
+describe('buildIocHitExpression', () => {
+  const hits = [
+    {
+      indicator: 'evil.example',
+      matchedRows: 2,
+      columns: ['src', 'dst'],
+      firstSeen: null,
+      lastSeen: null
+    },
+    { indicator: '203.0.113.7', matchedRows: 1, columns: ['src'], firstSeen: null, lastSeen: null }
+  ];
+
+  it('ORs one list predicate per column with hits', () => {
+    expect(buildIocHitExpression(hits)).toEqual({
+      op: 'or',
+      predicates: [
+        {
+          column: 'src',
+          operator: 'in',
+          value: ['evil.example', '203.0.113.7'],
+          caseSensitive: false
+        },
+        { column: 'dst', operator: 'in', value: ['evil.example'], caseSensitive: false }
+      ]
+    });
+    expect(buildIocHitExpression([])).toBeNull();
+  });
+
+  it('builds an OR group of list filters for the builder', () => {
+    const result = buildIocHitFilters(hits, true);
+
+    expect(result?.group).toMatchObject({ op: 'or' });
+    expect(result?.filters).toEqual([
+      expect.objectContaining({
+        column: 'src',
+        operator: 'in',
+        rawValue: 'evil.example\n203.0.113.7',
+        caseSensitive: true,
+        groupId: result?.group.id
+      }),
+      expect.objectContaining({ column: 'dst', value: ['evil.example'], groupId: result?.group.id })
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import type { FilterGroupState, FilterState } from '@state/sessionStore';
+import type { IocHit } from '@workers/dataWorkerProxy';
+import type { FilterNode } from '@workers/types';
+
+/**
+ * Reader for indicator-of-compromise lists: plain text (one indicator per
+ * line) or CSV/TSV exports from threat-intel feeds. Defanged notation such as
+ * `evil[.]com` or `hxxp://` is restored so it can match raw log values.
+ */
+
+export type IocType =
+  | 'ipv4'
+  | 'ipv6'
+  | 'md5'
+  | 'sha1'
+  | 'sha256'
+  | 'url'
+  | 'email'
+  | 'domain'
+  | 'other';
+
+export interface IocIndicator {
+  value: string;
+  type: IocType;
+}
+
+const HEADER_NAMES = new Set(['indicator', 'ioc', 'value', 'observable', 'indicator_value']);
+
+const TYPE_PATTERNS: Array<[IocType, RegExp]> = [
+  ['ipv4', /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/],
+  ['ipv6', /^(?=.*:.*:)[0-9a-f:]+(?:%\w+)?$/i],
+  ['md5', /^[0-9a-f]{32}$/i],
+  ['sha1', /^[0-9a-f]{40}$/i],
+  ['sha256', /^[0-9a-f]{64}$/i],
+  ['url', /^[a-z][a-z0-9+.-]*:\/\/\S+$/i],
+  ['email', /^[^@\s]+@[^@\s]+\.[^@\s]+$/],
+  ['domain', /^(?=.{1,253}$)(?:[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i]
+];
+
+export const classifyIoc = (value: string): IocType =>
+  TYPE_PATTERNS.find(([, pattern]) => pattern.test(value))?.[0] ?? 'other';
+
+export const refangIoc = (value: string): string =>
+  value
+    .trim()
+    .replace(/[[({]\.[\])}]/g, '.')
+    .replace(/[[({]:[\])}]/g, ':')
+    .replace(/[[({]@[\])}]|\[at\]/gi, '@')
+    .replace(/^hxxp(s?)/i, 'http$1')
+    .replace(/^fxp/i, 'ftp');
+
+const splitCells = (line: string): string[] =>
+  line.split(/[,\t;]/).map((cell) => cell.trim().replace(/^(["'])(.*)\1$/, '$2').trim());
+
+/**
+ * Extracts indicators from a list file. A header row naming an `indicator`,
+ * `ioc`, `value` or `observable` column selects that column; otherwise the
+ * first cell of each line that looks like an indicator is used. Blank lines,
+ * `#` comments and repeats are dropped.
+ */
+export const parseIocList = (text: string): IocIndicator[] => {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#') && !line.startsWith('//'));
+
+  let columnIndex: number | null = null;
+  const headerIndex = lines.length
+    ? splitCells(lines[0]!).findIndex((cell) => HEADER_NAMES.has(cell.toLowerCase()))
+    : -1;
+  if (headerIndex >= 0) {
+    columnIndex = headerIndex;
+    lines.shift();
+  }
+
+  const seen = new Set<string>();
+  const indicators: IocIndicator[] = [];
+  for (const line of lines) {
+    const cells = splitCells(line).map(refangIoc);
+    const value =
+      columnIndex != null
+        ? cells[columnIndex]
+        : (cells.find((cell) => classifyIoc(cell) !== 'other') ?? cells[0]);
+    if (!value || seen.has(value)) {
+      continue;
+    }
+    seen.add(value);
+    indicators.push({ value, type: classifyIoc(value) });
+  }
+
+  return indicators;
+};
+
+/** One `in` predicate per column that had hits, ORed together. */
+export const buildIocHitExpression = (
+  hits: IocHit[],
+  caseSensitive = false
+): FilterNode | null => {
+  const valuesByColumn = new Map<string, string[]>();
+  for (const hit of hits) {
+    for (const column of hit.columns) {
+      const values = valuesByColumn.get(column) ?? [];
+      values.push(hit.indicator);
+      valuesByColumn.set(column, values);
+    }
+  }
+  if (!valuesByColumn.size) {
+    return null;
+  }
+
+  return {
+    op: 'or',
+    predicates: Array.from(valuesByColumn, ([column, values]) => ({
+      column,
+      operator: 'in' as const,
+      value: values,
+      caseSensitive
+    }))
+  };
+};
+
+/** The same hit filter as builder state: an OR group of `in` filters. */
+export const buildIocHitFilters = (
+  hits: IocHit[],
+  caseSensitive = false
+): { group: FilterGroupState; filters: FilterState[] } | null => {
+  const expression = buildIocHitExpression(hits, caseSensitive);
+  if (!expression || !('op' in expression)) {
+    return null;
+  }
+
+  const group: FilterGroupState = { id: crypto.randomUUID(), op: 'or' };
+  const filters = expression.predicates.flatMap((predicate): FilterState[] =>
+    'op' in predicate
+      ? []
+      : [
+          {
+            id: crypto.randomUUID(),
+            column: predicate.column,
+            operator: predicate.operator,
+            value: predicate.value,
+            rawValue: (predicate.value as string[]).join('\n'),
+            caseSensitive,
+            enabled: true,
+            groupId: group.id
+          }
+        ]
+  );
+  return { group, filters };
+};
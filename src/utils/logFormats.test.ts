@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  LOG_FORMAT_PRESETS,
+  deleteSavedLogFormat,
+  loadSavedLogFormats,
+  saveLogFormat
+} from './logFormats';
+
+const SAMPLES: Record<string, { line: string; groups: Record<string, string | undefined> }> = {
+  'Syslog (RFC 3164)': {
+    line: 'Mar  1 08:15:30 web01 nginx: worker process exited',
+    groups: { timestamp: 'Mar  1 08:15:30', program: 'nginx', pid: undefined }
+  },
+  'Syslog (RFC 5424)': {
+    line:
+      '<165>1 2003-10-11T22:14:15.003Z mymachine.example.com evntslog - ID47 ' +
+      '[exampleSDID@32473 iut="3" eventSource="Application"] An application event',
+    groups: {
+      priority: '165',
+      app: 'evntslog',
+      msgId: 'ID47',
+      structuredData: '[exampleSDID@32473 iut="3" eventSource="Application"]',
+      message: 'An application event'
+    }
+  },
+  'Apache combined': {
+    line:
+      '127.0.0.1 - frank [10/Oct/2000:13:55:36 -0700] "GET /apache_pb.gif HTTP/1.0" 200 2326 ' +
+      '"http://www.example.com/start.html" "Mozilla/4.08 [en] (Win98; I ;Nav)"',
+    groups: { user: 'frank', path: '/apache_pb.gif', status: '200', bytes: '2326' }
+  },
+  'Nginx access': {
+    line:
+      '10.0.0.7 - - [01/Mar/2024:08:15:30 +0000] "POST /login HTTP/1.1" 302 0 "-" ' +
+      '"curl/8.0" "203.0.113.9"',
+    groups: { method: 'POST', status: '302', userAgent: 'curl/8.0', forwardedFor: '203.0.113.9' }
+  },
+  'Nginx error': {
+    line:
+      '2024/03/01 08:15:30 [error] 812#812: *17 open() "/srv/www/favicon.ico" failed ' +
+      '(2: No such file or directory)',
+    groups: { level: 'error', pid: '812', connection: '17' }
+  },
+  'IIS W3C': {
+    line: '2024-03-01 08:15:30 10.0.0.5 GET /index.html - 443 - 10.0.0.7 Mozilla/5.0 - 200 0 0 15',
+    groups: { uriStem: '/index.html', serverPort: '443', status: '200', timeTaken: '15' }
+  }
+};
+
+describe('LOG_FORMAT_PRESETS', () => {
+  it.each(LOG_FORMAT_PRESETS.map((format) => [format.name, format] as const))(
+    'matches a typical %s line',
+    (name, format) => {
+      const sample = SAMPLES[name]!;
+      const match = new RegExp(format.pattern).exec(sample.line);
+      expect(match?.groups).toMatchObject(sample.groups);
+    }
+  );
+});
+
+describe('saved log formats', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('saves, replaces and deletes formats by name', () => {
+    saveLogFormat({ name: 'App', pattern: '^(?<message>.*)$' });
+    saveLogFormat({ name: 'Audit', pattern: '^(?<time>\\S+) (.*)$', commentPrefix: ';' });
+    expect(saveLogFormat({ name: 'App', pattern: '^(?<level>\\w+) (?<message>.*)$' })).toEqual([
+      { name: 'Audit', pattern: '^(?<time>\\S+) (.*)$', commentPrefix: ';' },
+      { name: 'App', pattern: '^(?<level>\\w+) (?<message>.*)$' }
+    ]);
+
+    expect(deleteSavedLogFormat('Audit')).toEqual([
+      { name: 'App', pattern: '^(?<level>\\w+) (?<message>.*)$' }
+    ]);
+    expect(loadSavedLogFormats()).toHaveLength(1);
+  });
+
+  it('ignores unreadable storage', () => {
+    window.localStorage.setItem('wlx:log-formats', '[{"name":"App"},"x"');
+    expect(loadSavedLogFormats()).toEqual([]);
+    window.localStorage.setItem('wlx:log-formats', '[{"name":"App"},{"name":"B","pattern":"(x)"}]');
+    expect(loadSavedLogFormats()).toEqual([{ name: 'B', pattern: '(x)' }]);
+  });
+});
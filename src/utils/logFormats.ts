@@ -0,0 +1,137 @@
+import type { LogFormat } from '@workers/types';
+
+export const LOG_FORMATS_STORAGE_KEY = 'wlx:log-formats';
+
+/** Joins the per-field patterns of a space-separated log line. */
+const fields = (...parts: string[]): string => parts.join(' ');
+
+/** A double-quoted field that may contain backslash-escaped quotes. */
+const quoted = (name: string): string => String.raw`"(?<${name}>(?:[^"\\]|\\.)*)"`;
+const REQUEST_LINE = String.raw`"(?:(?<method>[A-Z]+) (?<path>\S+)(?: (?<protocol>[^"]+))?|-)"`;
+
+/** Built-in formats offered in the load dialog; saved formats are listed after them. */
+export const LOG_FORMAT_PRESETS: readonly LogFormat[] = [
+  {
+    name: 'Syslog (RFC 3164)',
+    pattern: fields(
+      String.raw`^(?:<(?<priority>\d{1,3})>)?(?<timestamp>[A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2})`,
+      String.raw`(?<host>\S+)`,
+      String.raw`(?<program>[^\s:\[]+)(?:\[(?<pid>\d+)\])?:`,
+      String.raw`(?<message>.*)$`
+    )
+  },
+  {
+    name: 'Syslog (RFC 5424)',
+    pattern: fields(
+      String.raw`^<(?<priority>\d{1,3})>(?<version>\d{1,2})`,
+      String.raw`(?<timestamp>\S+)`,
+      String.raw`(?<host>\S+)`,
+      String.raw`(?<app>\S+)`,
+      String.raw`(?<procId>\S+)`,
+      String.raw`(?<msgId>\S+)`,
+      String.raw`(?<structuredData>-|(?:\[(?:[^\]\\]|\\.)*\])+)(?: (?<message>.*))?$`
+    )
+  },
+  {
+    name: 'Apache combined',
+    pattern: fields(
+      String.raw`^(?<clientIp>\S+)`,
+      String.raw`(?<ident>\S+)`,
+      String.raw`(?<user>\S+)`,
+      String.raw`\[(?<time>[^\]]+)\]`,
+      REQUEST_LINE,
+      String.raw`(?<status>\d{3})`,
+      String.raw`(?<bytes>\d+|-)`,
+      quoted('referer'),
+      `${quoted('userAgent')}$`
+    )
+  },
+  {
+    name: 'Nginx access',
+    pattern: fields(
+      String.raw`^(?<clientIp>\S+) -`,
+      String.raw`(?<user>\S+)`,
+      String.raw`\[(?<time>[^\]]+)\]`,
+      REQUEST_LINE,
+      String.raw`(?<status>\d{3})`,
+      String.raw`(?<bytes>\d+)`,
+      quoted('referer'),
+      `${quoted('userAgent')}(?: "(?<forwardedFor>[^"]*)")?$`
+    )
+  },
+  {
+    name: 'Nginx error',
+    pattern: fields(
+      String.raw`^(?<time>\d{4}/\d{2}/\d{2} \d{2}:\d{2}:\d{2})`,
+      String.raw`\[(?<level>[a-z]+)\]`,
+      String.raw`(?<pid>\d+)#(?<tid>\d+):`,
+      String.raw`(?:\*(?<connection>\d+) )?(?<message>.*)$`
+    )
+  },
+  {
+    // The default field set; `#` lines are W3C directives.
+    name: 'IIS W3C',
+    pattern: fields(
+      String.raw`^(?<time>\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})`,
+      String.raw`(?<serverIp>\S+)`,
+      String.raw`(?<method>\S+)`,
+      String.raw`(?<uriStem>\S+)`,
+      String.raw`(?<uriQuery>\S+)`,
+      String.raw`(?<serverPort>\d+)`,
+      String.raw`(?<username>\S+)`,
+      String.raw`(?<clientIp>\S+)`,
+      String.raw`(?<userAgent>\S+)`,
+      String.raw`(?<referer>\S+)`,
+      String.raw`(?<status>\d+)`,
+      String.raw`(?<substatus>\d+)`,
+      String.raw`(?<win32Status>\d+)`,
+      String.raw`(?<timeTaken>\d+)$`
+    ),
+    commentPrefix: '#'
+  }
+];
+
+const isLogFormat = (value: unknown): value is LogFormat => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const { name, pattern, commentPrefix } = value as Record<string, unknown>;
+  return (
+    typeof name === 'string' &&
+    typeof pattern === 'string' &&
+    (commentPrefix === undefined || typeof commentPrefix === 'string')
+  );
+};
+
+/** Formats the user saved from the load dialog; unreadable entries are ignored. */
+export const loadSavedLogFormats = (): LogFormat[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const stored: unknown = JSON.parse(
+      window.localStorage.getItem(LOG_FORMATS_STORAGE_KEY) ?? '[]'
+    );
+    return Array.isArray(stored) ? stored.filter(isLogFormat) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeLogFormats = (formats: LogFormat[]): LogFormat[] => {
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(LOG_FORMATS_STORAGE_KEY, JSON.stringify(formats));
+  }
+  return formats;
+};
+
+/** Saves a format, replacing any saved format of the same name. */
+export const saveLogFormat = (format: LogFormat): LogFormat[] =>
+  storeLogFormats([
+    ...loadSavedLogFormats().filter((saved) => saved.name !== format.name),
+    format
+  ]);
+
+export const deleteSavedLogFormat = (name: string): LogFormat[] =>
+  storeLogFormats(loadSavedLogFormats().filter((saved) => saved.name !== name));
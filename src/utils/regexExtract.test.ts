@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  REGEX_EXTRACT_PRESETS,
+  buildRegexExtractColumns,
+  captureGroupNames,
+  previewRegexExtract
+} from './regexExtract';
+
+const preset = (name: string): string =>
+  REGEX_EXTRACT_PRESETS.find((candidate) => candidate.name.startsWith(name))!.pattern;
+
+const extractFirst = (name: string, value: string): Record<string, string | null> => {
+  const columns = buildRegexExtractColumns('text', preset(name), '');
+  return previewRegexExtract('text', columns, [value])[0]!;
+};
+
+describe('regexExtract', () => {
+  it('builds one extract() column per named group, or one for the whole match', () => {
+    expect(buildRegexExtractColumns('Command Line', 'user=(?<user>\\w+)', 'cmd_')).toEqual([
+      {
+        name: 'cmd_user',
+        expression: "extract(`Command Line`, 'user=(?<user>\\\\w+)', 'user')"
+      }
+    ]);
+    expect(buildRegexExtractColumns('msg', "it's \\d+", 'msg_')).toEqual([
+      { name: 'msg_match', expression: "extract(`msg`, 'it\\'s \\\\d+')" }
+    ]);
+    expect(captureGroupNames(preset('File hashes'))).toEqual(['sha256', 'sha1', 'md5']);
+    expect(() => captureGroupNames('(?<open>')).toThrow();
+  });
+
+  it('previews each preset on typical log values', () => {
+    expect(extractFirst('IPv4', 'Accepted from 10.0.0.256 and 192.168.1.20:445')).toEqual({
+      ipv4: '192.168.1.20'
+    });
+    expect(extractFirst('IPv6', 'src=fe80::1c2b:3cff:fe4d%eth0 at 12:30:45')).toEqual({
+      ipv6: 'fe80::1c2b:3cff:fe4d'
+    });
+    expect(extractFirst('URL', 'GET "https://evil.example/a?b=1" 200')).toEqual({
+      url: 'https://evil.example/a?b=1'
+    });
+    expect(extractFirst('Email', 'mail from <Alice.Smith@corp.example.org>')).toEqual({
+      email: 'Alice.Smith@corp.example.org'
+    });
+    expect(extractFirst('Domain', 'query evil.example.com type A')).toEqual({
+      domain: 'evil.example.com'
+    });
+    expect(
+      extractFirst('File hashes', `MD5=${'a'.repeat(32)},SHA256=${'B'.repeat(64)}`)
+    ).toEqual({ sha256: 'B'.repeat(64), sha1: null, md5: 'a'.repeat(32) });
+    expect(
+      extractFirst('Windows path', '"C:\\Program Files\\Tool\\run.exe" -c \\\\srv\\share\\x.ps1')
+    ).toEqual({ path: 'C:\\Program Files\\Tool\\run.exe' });
+  });
+});
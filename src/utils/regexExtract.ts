@@ -0,0 +1,110 @@
+import {
+  compileExpression,
+  quoteExpressionColumn,
+  quoteExpressionString
+} from '@workers/expressionEngine';
+import type { DerivedColumnDefinition } from '@workers/types';
+
+/**
+ * Regex extraction from a text column: every named capture group of a pattern
+ * becomes a derived column computed by the worker with `extract()`, so the
+ * columns are saved with the session like hand-written expressions.
+ */
+
+export interface RegexExtractPreset {
+  name: string;
+  pattern: string;
+}
+
+const OCTET = String.raw`(?:25[0-5]|2[0-4]\d|1?\d?\d)`;
+const HEXTET = '[0-9A-Fa-f]{1,4}';
+const PATH_PART = String.raw`[^\\/:*?"<>|\r\n]`;
+/** The file name ends at whitespace; directories may contain spaces. */
+const PATH_END = String.raw`[^\\/:*?"<>|\s]`;
+
+/** Built-in patterns offered by the extract dialog. */
+export const REGEX_EXTRACT_PRESETS: readonly RegexExtractPreset[] = [
+  {
+    name: 'IPv4 address',
+    pattern: String.raw`(?<ipv4>\b(?:${OCTET}\.){3}${OCTET}\b)`
+  },
+  {
+    name: 'IPv6 address',
+    pattern:
+      String.raw`(?<![0-9A-Fa-f:])(?<ipv6>(?:${HEXTET}:){7}${HEXTET}` +
+      String.raw`|(?:${HEXTET}:){1,7}:(?:${HEXTET}(?::${HEXTET}){0,5})?` +
+      String.raw`|::${HEXTET}(?::${HEXTET}){0,6})(?![0-9A-Fa-f:])`
+  },
+  {
+    name: 'URL',
+    pattern: String.raw`(?<url>\b(?:https?|ftp)://[^\s"'<>]+)`
+  },
+  {
+    name: 'Domain',
+    pattern:
+      String.raw`(?<domain>\b(?:[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?\.)+` +
+      String.raw`[A-Za-z]{2,63}\b)`
+  },
+  {
+    name: 'Email address',
+    pattern: String.raw`(?<email>\b[A-Za-z0-9._%+-]+@(?:[A-Za-z0-9-]+\.)+[A-Za-z]{2,63}\b)`
+  },
+  {
+    name: 'File hashes (MD5, SHA-1, SHA-256)',
+    pattern:
+      String.raw`\b(?:(?<sha256>[0-9A-Fa-f]{64})|(?<sha1>[0-9A-Fa-f]{40})` +
+      String.raw`|(?<md5>[0-9A-Fa-f]{32}))\b`
+  },
+  {
+    name: 'Windows path',
+    pattern: String.raw`(?<path>(?:\b[A-Za-z]:|\\\\[^\\\s"]+)\\(?:${PATH_PART}+\\)*${PATH_END}*)`
+  }
+];
+
+/** Named capture groups of `pattern` in source order; throws when the pattern is invalid. */
+export const captureGroupNames = (pattern: string): string[] => {
+  // The empty alternative always matches, listing every group.
+  const match = new RegExp(`(?:${pattern})|`).exec('')!;
+  return Object.keys(match.groups ?? {});
+};
+
+/**
+ * One derived column per named group, called `<prefix><group>`; a pattern
+ * without named groups yields a single `<prefix>match` column holding the
+ * whole match.
+ */
+export const buildRegexExtractColumns = (
+  column: string,
+  pattern: string,
+  prefix: string
+): DerivedColumnDefinition[] => {
+  const source = `${quoteExpressionColumn(column)}, ${quoteExpressionString(pattern)}`;
+  const groups = captureGroupNames(pattern);
+  if (!groups.length) {
+    return [{ name: `${prefix}match`, expression: `extract(${source})` }];
+  }
+  return groups.map((group) => ({
+    name: `${prefix}${group}`,
+    expression: `extract(${source}, ${quoteExpressionString(group)})`
+  }));
+};
+
+/**
+ * Evaluates the extract columns over sample values of `column` with the
+ * worker's expression engine, one record of column name to match per value.
+ */
+export const previewRegexExtract = (
+  column: string,
+  definitions: DerivedColumnDefinition[],
+  values: string[]
+): Array<Record<string, string | null>> => {
+  const compiled = definitions.map(({ name, expression }) => ({
+    name,
+    evaluate: compileExpression(expression, { [column]: 'string' }).evaluate
+  }));
+  return values.map((value) =>
+    Object.fromEntries(
+      compiled.map(({ name, evaluate }) => [name, evaluate({ [column]: value }) as string | null])
+    )
+  );
+};
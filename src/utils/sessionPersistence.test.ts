@@ -139,6 +139,7 @@ const buildSessionEnvelope = (updatedAt: number): string =>
     snapshot: {
       fileHandle: null,
       filters: [],
+      filterGroups: [],
       sorts: [],
       groups: [],
       groupAggregations: [],
@@ -151,6 +152,10 @@ const buildSessionEnvelope = (updatedAt: number): string =>
       interfaceFontSize: 14,
       dataFontFamily: 'system',
       dataFontSize: 14,
+      sourceTimeZones: {},
+      sourceEncoding: null,
+      csvDialect: {},
+      displayTimeZone: 'UTC',
       labels: [],
       tags: {},
       updatedAt
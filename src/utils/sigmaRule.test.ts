@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+
+import { evaluateFilterOnRows } from '@workers/filterEngine';
+import type { ColumnType } from '@workers/types';
+import type { MaterializedRow } from '@workers/utils/materializeRowBatch';
+import { compileSigmaRule, parseSigmaRule, suggestSigmaFieldMapping } from './sigmaRule';
+
+const RULE = `
+title: Recon via whoami or net
+id: 0b7a3c1e-1111-4222-8333-944455556666
+level: medium
+detection:
+  selection_img:
+    Image|endswith:
+      - '\\whoami.exe'
+      - '\\net.exe'
+  selection_cli:
+    CommandLine|contains|all:
+      - ' user'
+      - ' /domain'
+  filter_admin:
+    User: 'ADMIN*'
+  condition: 1 of selection* and not filter_admin
+`;
+
+const columnTypes: Record<string, ColumnType> = {
+  'process.image': 'string',
+  command_line: 'string',
+  user: 'string',
+  event_id: 'number'
+};
+
+const rows: MaterializedRow[] = [
+  { __rowId: 0, 'process.image': 'C:\\Windows\\System32\\whoami.exe', command_line: 'whoami', user: 'alice', event_id: 1 },
+  { __rowId: 1, 'process.image': 'C:\\Windows\\System32\\NET.EXE', command_line: 'net', user: 'admin_bob', event_id: 1 },
+  { __rowId: 2, 'process.image': 'C:\\Tools\\x.exe', command_line: 'x.exe user  /domain', user: 'carol', event_id: 1 },
+  { __rowId: 3, 'process.image': 'C:\\Tools\\x.exe', command_line: 'x.exe user', user: 'dave', event_id: 4688 }
+];
+
+const matchingRowIds = (ruleSource: string, fieldMapping: Record<string, string>): number[] => {
+  const expression = compileSigmaRule(parseSigmaRule(ruleSource), {
+    fieldMapping,
+    columnTypes,
+    keywordColumns: ['command_line']
+  });
+  const { matches } = evaluateFilterOnRows(rows, columnTypes, expression);
+  return rows.filter((_row, index) => matches[index] === 1).map((row) => row.__rowId);
+};
+
+describe('parseSigmaRule', () => {
+  it('extracts metadata, searches and referenced fields', () => {
+    const rule = parseSigmaRule(RULE);
+
+    expect(rule.title).toBe('Recon via whoami or net');
+    expect(rule.level).toBe('medium');
+    expect(rule.conditions).toEqual(['1 of selection* and not filter_admin']);
+    expect(rule.fields).toEqual(['Image', 'CommandLine', 'User']);
+    expect(rule.searches.selection_cli).toEqual({
+      kind: 'fields',
+      alternatives: [
+        [{ field: 'CommandLine', modifiers: ['contains', 'all'], values: [' user', ' /domain'] }]
+      ]
+    });
+  });
+
+  it('rejects unsupported modifiers and aggregations', () => {
+    expect(() =>
+      parseSigmaRule('detection:\n  sel:\n    a|base64: x\n  condition: sel')
+    ).toThrow(/modifier "base64"/);
+    expect(() =>
+      compileSigmaRule(parseSigmaRule('detection:\n  sel:\n    a: x\n  condition: sel | count() > 5'), {
+        fieldMapping: { a: 'user' },
+        columnTypes
+      })
+    ).toThrow(/aggregation/);
+  });
+});
+
+describe('suggestSigmaFieldMapping', () => {
+  it('matches by name or trailing dotted segment', () => {
+    expect(
+      suggestSigmaFieldMapping(['Image', 'CommandLine', 'User', 'Missing'], Object.keys(columnTypes))
+    ).toEqual({ Image: 'process.image', User: 'user' });
+  });
+});
+
+describe('compileSigmaRule', () => {
+  const mapping = { Image: 'process.image', CommandLine: 'command_line', User: 'user' };
+
+  it('evaluates modifiers, quantifiers and negation', () => {
+    expect(matchingRowIds(RULE, mapping)).toEqual([0, 2]);
+  });
+
+  it('compares numbers natively and supports keyword and regex searches', () => {
+    const rule = `
+title: mixed
+detection:
+  event:
+    EventID: 4688
+  keywords:
+    - 'user'
+  pattern:
+    User|re: '^(alice|carol)$'
+  condition: (event and keywords) or all of pattern
+`;
+    expect(matchingRowIds(rule, { ...mapping, EventID: 'event_id' })).toEqual([0, 2, 3]);
+  });
+
+  it('requires every field to be mapped', () => {
+    expect(() => matchingRowIds(RULE, { Image: 'process.image' })).toThrow(
+      /"CommandLine" is not mapped/
+    );
+  });
+});
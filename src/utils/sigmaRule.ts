@@ -0,0 +1,423 @@
+import type { ColumnType, FilterNode, FilterPredicate } from '@workers/types';
+import { parseYaml, type YamlValue } from './yamlSubset';
+
+type SigmaScalar = string | number | boolean | null;
+
+export interface SigmaFieldClause {
+  field: string;
+  modifiers: string[];
+  values: SigmaScalar[];
+}
+
+export type SigmaSearch =
+  | { kind: 'fields'; alternatives: SigmaFieldClause[][] }
+  | { kind: 'keywords'; values: SigmaScalar[] };
+
+export interface SigmaRule {
+  title: string;
+  id?: string;
+  description?: string;
+  level?: string;
+  searches: Record<string, SigmaSearch>;
+  conditions: string[];
+  /** Every field referenced by the detection, in first-seen order. */
+  fields: string[];
+}
+
+export interface CompileSigmaOptions {
+  /** Sigma field name → dataset column. */
+  fieldMapping: Record<string, string>;
+  columnTypes: Record<string, ColumnType>;
+  /** Columns searched by keyword (list-style) selections. */
+  keywordColumns?: string[];
+}
+
+const SUPPORTED_MODIFIERS = new Set(['contains', 'startswith', 'endswith', 're', 'all', 'cased']);
+
+const isRecord = (value: YamlValue | undefined): value is { [key: string]: YamlValue } =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+const toScalar = (value: YamlValue, context: string): SigmaScalar => {
+  if (value != null && typeof value === 'object') {
+    throw new Error(`Sigma ${context} must be a scalar or a list of scalars`);
+  }
+  return value;
+};
+
+const toScalarList = (value: YamlValue, context: string): SigmaScalar[] =>
+  Array.isArray(value) ? value.map((item) => toScalar(item, context)) : [toScalar(value, context)];
+
+const parseFieldMap = (map: { [key: string]: YamlValue }, search: string): SigmaFieldClause[] =>
+  Object.entries(map).map(([key, value]) => {
+    const [field = '', ...modifiers] = key.split('|');
+    for (const modifier of modifiers) {
+      if (!SUPPORTED_MODIFIERS.has(modifier)) {
+        throw new Error(`Unsupported Sigma modifier "${modifier}" in ${search}`);
+      }
+    }
+    return {
+      field,
+      modifiers,
+      values: toScalarList(value, `value for ${key}`)
+    };
+  });
+
+const parseSearch = (name: string, value: YamlValue): SigmaSearch => {
+  if (isRecord(value)) {
+    return { kind: 'fields', alternatives: [parseFieldMap(value, name)] };
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(isRecord)) {
+      return {
+        kind: 'fields',
+        alternatives: value.map((entry) => parseFieldMap(entry as { [key: string]: YamlValue }, name))
+      };
+    }
+    return { kind: 'keywords', values: toScalarList(value, `keyword in ${name}`) };
+  }
+
+  return { kind: 'keywords', values: [toScalar(value, `keyword in ${name}`)] };
+};
+
+export const parseSigmaRule = (source: string): SigmaRule => {
+  const document = parseYaml(source);
+  if (!isRecord(document)) {
+    throw new Error('Sigma rule must be a YAML mapping');
+  }
+
+  const detection = document.detection;
+  if (!isRecord(detection)) {
+    throw new Error('Sigma rule is missing a detection section');
+  }
+
+  const rawCondition = detection.condition;
+  const conditions = (Array.isArray(rawCondition) ? rawCondition : [rawCondition])
+    .filter((condition): condition is string => typeof condition === 'string')
+    .map((condition) => condition.trim())
+    .filter((condition) => condition.length > 0);
+  if (!conditions.length) {
+    throw new Error('Sigma detection has no condition');
+  }
+
+  const searches: Record<string, SigmaSearch> = {};
+  const fields: string[] = [];
+  for (const [name, value] of Object.entries(detection)) {
+    if (name === 'condition' || name === 'timeframe') {
+      continue;
+    }
+    const search = parseSearch(name, value);
+    searches[name] = search;
+    if (search.kind === 'fields') {
+      for (const clause of search.alternatives.flat()) {
+        if (!fields.includes(clause.field)) {
+          fields.push(clause.field);
+        }
+      }
+    }
+  }
+
+  const optionalString = (value: YamlValue | undefined): string | undefined =>
+    typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+
+  return {
+    title: optionalString(document.title) ?? 'Untitled Sigma rule',
+    id: optionalString(document.id),
+    description: optionalString(document.description),
+    level: optionalString(document.level),
+    searches,
+    conditions,
+    fields
+  };
+};
+
+/**
+ * Maps Sigma field names to columns by case-insensitive name, falling back to
+ * the last dotted segment (`process.Image` matches `Image`).
+ */
+export const suggestSigmaFieldMapping = (
+  fields: string[],
+  columns: string[]
+): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+  for (const field of fields) {
+    const lower = field.toLowerCase();
+    const exact = columns.find((column) => column.toLowerCase() === lower);
+    const suffix =
+      exact ??
+      columns.find((column) => column.toLowerCase().split('.').pop() === lower.split('.').pop());
+    if (suffix) {
+      mapping[field] = suffix;
+    }
+  }
+  return mapping;
+};
+
+// ---------------------------------------------------------------------------
+// Condition parsing
+
+type ConditionNode =
+  | { kind: 'ref'; name: string }
+  | { kind: 'quantified'; quantifier: 'one' | 'all'; pattern: string }
+  | { kind: 'not'; child: ConditionNode }
+  | { kind: 'and' | 'or'; children: ConditionNode[] };
+
+const tokenizeCondition = (condition: string): string[] => {
+  if (condition.includes('|')) {
+    throw new Error('Sigma aggregation conditions (using "|") are not supported');
+  }
+  return condition.match(/\(|\)|[^\s()]+/g) ?? [];
+};
+
+const parseCondition = (condition: string): ConditionNode => {
+  const tokens = tokenizeCondition(condition);
+  let position = 0;
+
+  const peek = (): string | undefined => tokens[position];
+  const next = (): string => {
+    const token = tokens[position];
+    if (token == null) {
+      throw new Error(`Unexpected end of Sigma condition "${condition}"`);
+    }
+    position += 1;
+    return token;
+  };
+
+  const parseOr = (): ConditionNode => {
+    const children = [parseAnd()];
+    while (peek()?.toLowerCase() === 'or') {
+      position += 1;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0]! : { kind: 'or', children };
+  };
+
+  const parseAnd = (): ConditionNode => {
+    const children = [parseNot()];
+    while (peek()?.toLowerCase() === 'and') {
+      position += 1;
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0]! : { kind: 'and', children };
+  };
+
+  const parseNot = (): ConditionNode => {
+    if (peek()?.toLowerCase() === 'not') {
+      position += 1;
+      return { kind: 'not', child: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ConditionNode => {
+    const token = next();
+    if (token === '(') {
+      const inner = parseOr();
+      if (next() !== ')') {
+        throw new Error(`Missing ")" in Sigma condition "${condition}"`);
+      }
+      return inner;
+    }
+
+    const lower = token.toLowerCase();
+    if ((lower === '1' || lower === 'any' || lower === 'all') && peek()?.toLowerCase() === 'of') {
+      position += 1;
+      return {
+        kind: 'quantified',
+        quantifier: lower === 'all' ? 'all' : 'one',
+        pattern: next()
+      };
+    }
+
+    if (['and', 'or', ')', 'of'].includes(lower)) {
+      throw new Error(`Unexpected "${token}" in Sigma condition "${condition}"`);
+    }
+
+    return { kind: 'ref', name: token };
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" in Sigma condition "${condition}"`);
+  }
+  return node;
+};
+
+// ---------------------------------------------------------------------------
+// Compilation
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface SigmaPattern {
+  literal: string;
+  regexBody: string;
+  hasWildcards: boolean;
+}
+
+/** Resolves Sigma escapes: `\*`, `\?` and `\\` are literal, `*`/`?` are wildcards. */
+const parseSigmaPattern = (value: string): SigmaPattern => {
+  let literal = '';
+  let regexBody = '';
+  let hasWildcards = false;
+
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index]!;
+    const following = value[index + 1];
+    if (char === '\\' && following != null && '*?\\'.includes(following)) {
+      literal += following;
+      regexBody += escapeRegex(following);
+      index += 1;
+      continue;
+    }
+    if (char === '*' || char === '?') {
+      hasWildcards = true;
+      regexBody += char === '*' ? '.*' : '.';
+      continue;
+    }
+    literal += char;
+    regexBody += escapeRegex(char);
+  }
+
+  return { literal, regexBody, hasWildcards };
+};
+
+const joinNodes = (op: 'and' | 'or', nodes: FilterNode[]): FilterNode => {
+  if (nodes.length === 1) {
+    return nodes[0]!;
+  }
+  return { op, predicates: nodes };
+};
+
+const wildcardToRegex = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.split('*').map(escapeRegex).join('.*')}$`);
+
+export const compileSigmaRule = (rule: SigmaRule, options: CompileSigmaOptions): FilterNode => {
+  let predicateCounter = 0;
+  const nextId = (): string => {
+    predicateCounter += 1;
+    return `sigma-${predicateCounter}`;
+  };
+
+  const compileValue = (
+    column: string,
+    modifiers: string[],
+    value: SigmaScalar
+  ): FilterPredicate => {
+    const columnType = options.columnTypes[column] ?? 'string';
+    const cased = modifiers.includes('cased');
+    const textModifiers = modifiers.filter((modifier) => modifier !== 'all' && modifier !== 'cased');
+
+    if (value == null) {
+      return { id: nextId(), column, operator: 'eq', value: '', caseSensitive: false };
+    }
+
+    if (
+      textModifiers.length === 0 &&
+      ((typeof value === 'number' && columnType === 'number') ||
+        (typeof value === 'boolean' && columnType === 'boolean'))
+    ) {
+      return { id: nextId(), column, operator: 'eq', value };
+    }
+
+    const text = String(value);
+    if (textModifiers.includes('re')) {
+      return { id: nextId(), column, operator: 'regex', value: text, caseSensitive: true };
+    }
+
+    const contains = textModifiers.includes('contains');
+    const startsWith = textModifiers.includes('startswith');
+    const endsWith = textModifiers.includes('endswith');
+    const pattern = parseSigmaPattern(text);
+
+    if (!pattern.hasWildcards && !endsWith) {
+      return {
+        id: nextId(),
+        column,
+        operator: contains ? 'contains' : startsWith ? 'startsWith' : 'eq',
+        value: pattern.literal,
+        caseSensitive: cased
+      };
+    }
+
+    const anchorStart = !contains && !endsWith;
+    const anchorEnd = !contains && !startsWith;
+    return {
+      id: nextId(),
+      column,
+      operator: 'regex',
+      value: `${anchorStart ? '^' : ''}${pattern.regexBody}${anchorEnd ? '$' : ''}`,
+      caseSensitive: cased
+    };
+  };
+
+  const compileClause = (clause: SigmaFieldClause): FilterNode => {
+    const column = options.fieldMapping[clause.field];
+    if (!column) {
+      throw new Error(`Sigma field "${clause.field}" is not mapped to a column`);
+    }
+    if (!clause.values.length) {
+      throw new Error(`Sigma field "${clause.field}" has no values`);
+    }
+
+    const nodes = clause.values.map((value) => compileValue(column, clause.modifiers, value));
+    return joinNodes(clause.modifiers.includes('all') ? 'and' : 'or', nodes);
+  };
+
+  const compileSearch = (name: string): FilterNode => {
+    const search = rule.searches[name];
+    if (!search) {
+      throw new Error(`Sigma condition references unknown search "${name}"`);
+    }
+
+    if (search.kind === 'fields') {
+      return joinNodes(
+        'or',
+        search.alternatives.map((clauses) => joinNodes('and', clauses.map(compileClause)))
+      );
+    }
+
+    const keywordColumns = options.keywordColumns ?? [];
+    if (!keywordColumns.length) {
+      throw new Error(`Sigma keyword search "${name}" needs at least one text column`);
+    }
+    return joinNodes(
+      'or',
+      search.values.flatMap((value) =>
+        keywordColumns.map((column) => compileValue(column, ['contains'], value))
+      )
+    );
+  };
+
+  const resolvePattern = (pattern: string): string[] => {
+    const names = Object.keys(rule.searches);
+    if (pattern === 'them') {
+      return names.filter((name) => !name.startsWith('_'));
+    }
+    const matcher = wildcardToRegex(pattern);
+    return names.filter((name) => matcher.test(name));
+  };
+
+  const compileCondition = (node: ConditionNode): FilterNode => {
+    switch (node.kind) {
+      case 'ref':
+        return compileSearch(node.name);
+      case 'quantified': {
+        const names = resolvePattern(node.pattern);
+        if (!names.length) {
+          throw new Error(`Sigma condition "${node.pattern}" matches no searches`);
+        }
+        return joinNodes(node.quantifier === 'all' ? 'and' : 'or', names.map(compileSearch));
+      }
+      case 'not':
+        return { op: 'not', predicates: [compileCondition(node.child)] };
+      case 'and':
+      case 'or':
+        return joinNodes(node.kind, node.children.map(compileCondition));
+    }
+  };
+
+  return joinNodes(
+    'or',
+    rule.conditions.map((condition) => compileCondition(parseCondition(condition)))
+  );
+};
@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  deleteSavedSqliteQuery,
+  loadSavedSqliteQueries,
+  saveSqliteQuery
+} from './sqliteQueries';
+
+describe('saved SQLite queries', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('saves, replaces and deletes queries by name', () => {
+    saveSqliteQuery({ name: 'Top sites', sql: 'SELECT url FROM urls' });
+    saveSqliteQuery({ name: 'Downloads', sql: 'SELECT target_path FROM downloads' });
+    expect(
+      saveSqliteQuery({ name: 'Top sites', sql: 'SELECT url FROM urls ORDER BY visit_count DESC' })
+    ).toEqual([
+      { name: 'Downloads', sql: 'SELECT target_path FROM downloads' },
+      { name: 'Top sites', sql: 'SELECT url FROM urls ORDER BY visit_count DESC' }
+    ]);
+
+    expect(deleteSavedSqliteQuery('Downloads')).toEqual([
+      { name: 'Top sites', sql: 'SELECT url FROM urls ORDER BY visit_count DESC' }
+    ]);
+    expect(loadSavedSqliteQueries()).toHaveLength(1);
+  });
+
+  it('ignores unreadable storage', () => {
+    window.localStorage.setItem('wlx:sqlite-queries', '[{"name":"A"},"x"');
+    expect(loadSavedSqliteQueries()).toEqual([]);
+    window.localStorage.setItem(
+      'wlx:sqlite-queries',
+      '[{"name":"A"},{"name":"B","sql":"SELECT 1"}]'
+    );
+    expect(loadSavedSqliteQueries()).toEqual([{ name: 'B', sql: 'SELECT 1' }]);
+  });
+});
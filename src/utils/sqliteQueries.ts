@@ -0,0 +1,48 @@
+export const SQLITE_QUERIES_STORAGE_KEY = 'wlx:sqlite-queries';
+
+/** A SELECT the analyst saved by name in the database picker, offered for every database. */
+export interface SavedSqliteQuery {
+  name: string;
+  sql: string;
+}
+
+const isSavedQuery = (value: unknown): value is SavedSqliteQuery => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const { name, sql } = value as Record<string, unknown>;
+  return typeof name === 'string' && typeof sql === 'string';
+};
+
+/** Queries the user saved from the database picker; unreadable entries are ignored. */
+export const loadSavedSqliteQueries = (): SavedSqliteQuery[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const stored: unknown = JSON.parse(
+      window.localStorage.getItem(SQLITE_QUERIES_STORAGE_KEY) ?? '[]'
+    );
+    return Array.isArray(stored) ? stored.filter(isSavedQuery) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeSqliteQueries = (queries: SavedSqliteQuery[]): SavedSqliteQuery[] => {
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(SQLITE_QUERIES_STORAGE_KEY, JSON.stringify(queries));
+  }
+  return queries;
+};
+
+/** Saves a query, replacing any saved query of the same name. */
+export const saveSqliteQuery = (query: SavedSqliteQuery): SavedSqliteQuery[] =>
+  storeSqliteQueries([
+    ...loadSavedSqliteQueries().filter((saved) => saved.name !== query.name),
+    query
+  ]);
+
+export const deleteSavedSqliteQuery = (name: string): SavedSqliteQuery[] =>
+  storeSqliteQueries(loadSavedSqliteQueries().filter((saved) => saved.name !== name));
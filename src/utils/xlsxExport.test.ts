@@ -0,0 +1,97 @@
+// @vitest-environment node
+
+import { crc32 } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+
+import { listXlsxSheets, parseXlsxWorkbook } from '@workers/xlsxParser';
+import { openZipEntryStream, readZipEntries } from '@workers/utils/zipArchive';
+import { XLSX_MAX_ROWS, XLSX_MIME_TYPE, buildXlsxBlob, toXlsxCellValue } from './xlsxExport';
+
+const readEntryBytes = async (archive: Blob, path: string): Promise<Uint8Array> => {
+  const entry = (await readZipEntries(archive)).find((candidate) => candidate.path === path)!;
+  return new Uint8Array(await new Response(await openZipEntryStream(archive, entry)).arrayBuffer());
+};
+
+/** CRC-32 values recorded in the central directory, keyed by entry path. */
+const readCentralCrcs = async (archive: Blob): Promise<Record<string, number>> => {
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const crcs: Record<string, number> = {};
+  for (let offset = 0; offset + 46 <= bytes.length; offset += 1) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      continue;
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    crcs[name] = view.getUint32(offset + 16, true);
+  }
+  return crcs;
+};
+
+describe('buildXlsxBlob', () => {
+  it('writes a workbook that reads back with types, escapes and display-zone dates', async () => {
+    const workbook = await buildXlsxBlob(
+      ['host', 'when', 'count', 'admin', 'message'],
+      [
+        ['dc01', new Date(Date.UTC(2024, 0, 1, 12, 0, 0, 250)), 3, true, 'a < b & "c"'],
+        ['ws17', null, -1.5, false, 'bell\u0001 and _x0041_ literal'],
+        ['ws18', new Date(Date.UTC(2024, 6, 1, 12)), undefined, undefined, '']
+      ],
+      { sheetName: 'Case [1]', timeZone: 'Europe/Paris' }
+    );
+    expect(workbook.type).toBe(XLSX_MIME_TYPE);
+
+    expect(await listXlsxSheets(workbook)).toEqual([
+      { name: 'Case _1_', path: 'xl/worksheets/sheet1.xml' }
+    ]);
+
+    const headers: string[][] = [];
+    const rows: string[][] = [];
+    await parseXlsxWorkbook(workbook, {
+      onHeader: (header) => {
+        headers.push(header);
+      },
+      onRow: (row) => {
+        rows.push(row);
+      },
+      onBatch: () => {}
+    });
+
+    expect(headers).toEqual([['host', 'when', 'count', 'admin', 'message']]);
+    expect(rows).toEqual([
+      ['dc01', '2024-01-01 13:00:00.250', '3', 'true', 'a < b & "c"'],
+      ['ws17', '', '-1.5', 'false', 'bell\u0001 and _x0041_ literal'],
+      ['ws18', '2024-07-01 14:00:00', '', '', '']
+    ]);
+
+    const sheetXml = new TextDecoder().decode(
+      await readEntryBytes(workbook, 'xl/worksheets/sheet1.xml')
+    );
+    expect(sheetXml).toContain('<c s="1" r="A1" t="inlineStr">');
+    expect(sheetXml).toContain('state="frozen"');
+
+    const crcs = await readCentralCrcs(workbook);
+    expect(Object.keys(crcs)).toHaveLength(6);
+    for (const [path, crc] of Object.entries(crcs)) {
+      expect(crc32(await readEntryBytes(workbook, path))).toBe(crc);
+    }
+  });
+
+  it('converts grid values by column type', () => {
+    expect(toXlsxCellValue('2024-01-01T12:00:00Z', 'datetime')).toEqual(
+      new Date(Date.UTC(2024, 0, 1, 12))
+    );
+    expect(toXlsxCellValue('not a date', 'datetime')).toBe('not a date');
+    expect(toXlsxCellValue(4624, 'number')).toBe(4624);
+    expect(toXlsxCellValue(false, 'boolean')).toBe(false);
+    expect(toXlsxCellValue('', 'string')).toBeNull();
+  });
+
+  it('refuses views longer than an Excel sheet', async () => {
+    const rows = new Array<string[]>(XLSX_MAX_ROWS).fill([]);
+
+    await expect(buildXlsxBlob(['id'], rows)).rejects.toThrow(
+      /Excel sheets hold at most 1,048,575 data rows/
+    );
+  });
+});
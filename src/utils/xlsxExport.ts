@@ -0,0 +1,376 @@
+import type { ColumnType } from '@workers/types';
+import { getTimeZoneOffsetMs } from '@workers/utils/timezone';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxExportOptions {
+  sheetName?: string;
+  /** Zone whose wall clock Date cells show; Excel stores no offset. Defaults to UTC. */
+  timeZone?: string;
+}
+
+/** Rows per sheet, header included. */
+export const XLSX_MAX_ROWS = 1_048_576;
+const XLSX_MAX_CELL_TEXT = 32_767;
+const MAX_ZIP_SIZE = 0xffffffff;
+const MS_PER_DAY = 86_400_000;
+/** Serial number of 1970-01-01; serials below 61 hit Excel's fictitious 29 February 1900. */
+const UNIX_EPOCH_SERIAL = 25_569;
+const FIRST_RELIABLE_SERIAL = 61;
+/** Rows serialised into one string before encoding, to bound intermediate strings. */
+const ROWS_PER_CHUNK = 1_000;
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/** Cell style indexes defined in {@link STYLES_XML}. */
+const HEADER_STYLE = 1;
+const DATETIME_STYLE = 2;
+
+const CONTENT_TYPES_XML =
+  `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ' +
+  'ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ' +
+  'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ' +
+  'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ' +
+  'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELATIONSHIPS_XML =
+  `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+  `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  '</Relationships>';
+
+const WORKBOOK_RELATIONSHIPS_XML =
+  `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+  `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  `<Relationship Id="rId2" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>` +
+  '</Relationships>';
+
+const STYLES_XML =
+  `${XML_DECLARATION}<styleSheet xmlns="${SPREADSHEET_NS}">` +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss.000"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs></styleSheet>';
+
+/**
+ * Converts a grid cell into the value written to the sheet: datetimes (UTC ISO
+ * strings or epoch millis) become dates, numbers and booleans keep their type.
+ */
+export const toXlsxCellValue = (value: unknown, type: ColumnType): XlsxCellValue => {
+  if (value == null || value === '') {
+    return null;
+  }
+  if (type === 'datetime' && (typeof value === 'string' || typeof value === 'number')) {
+    const epochMs = typeof value === 'number' ? value : Date.parse(value);
+    return Number.isFinite(epochMs) ? new Date(epochMs) : String(value);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) {
+    return value;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/** XML 1.0 cannot carry control characters other than tab and newlines, nor U+FFFE/U+FFFF. */
+const isInvalidXmlCharCode = (code: number): boolean =>
+  (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) ||
+  code === 0xfffe ||
+  code === 0xffff;
+
+/** Writes characters XML cannot carry as Excel's `_xHHHH_` escape. */
+const escapeInvalidXmlChars = (text: string): string => {
+  let escaped = '';
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index);
+    escaped += isInvalidXmlCharCode(code)
+      ? `_x${code.toString(16).toUpperCase().padStart(4, '0')}_`
+      : text[index];
+  }
+  return escaped;
+};
+
+const escapeXml = (text: string): string =>
+  escapeInvalidXmlChars(
+    text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      // Keep literal _xHHHH_ text from being read back as an escape.
+      .replace(/_(x[0-9a-f]{4}_)/gi, '_x005F_$1')
+  );
+
+/** Column letters for a zero-based index: 0 → A, 26 → AA. */
+const columnName = (index: number): string => {
+  let name = '';
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    name = String.fromCharCode(65 + ((value - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/** Sheet names are at most 31 characters and may not contain `[]:*?/\`. */
+const sanitizeSheetName = (name: string): string =>
+  name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31).trim() || 'Sheet1';
+
+const toDateSerial = (date: Date, timeZone: string | undefined): number | null => {
+  const epochMs = date.getTime();
+  if (!Number.isFinite(epochMs)) {
+    return null;
+  }
+  const wallClockMs = epochMs + (timeZone ? getTimeZoneOffsetMs(timeZone, epochMs) : 0);
+  const serial = wallClockMs / MS_PER_DAY + UNIX_EPOCH_SERIAL;
+  return serial >= FIRST_RELIABLE_SERIAL ? serial : null;
+};
+
+const serializeCell = (
+  ref: string,
+  value: XlsxCellValue,
+  timeZone: string | undefined
+): string => {
+  if (value == null || value === '') {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value)
+      ? `<c r="${ref}"><v>${value}</v></c>`
+      : serializeCell(ref, String(value), timeZone);
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (value instanceof Date) {
+    const serial = toDateSerial(value, timeZone);
+    return serial == null
+      ? serializeCell(ref, Number.isFinite(value.getTime()) ? value.toISOString() : '', timeZone)
+      : `<c r="${ref}" s="${DATETIME_STYLE}"><v>${serial}</v></c>`;
+  }
+  // Excel refuses to open cells over its text limit, so long values are cut.
+  const text = escapeXml(value.slice(0, XLSX_MAX_CELL_TEXT));
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+};
+
+const serializeRow = (
+  rowNumber: number,
+  cells: XlsxCellValue[],
+  columnRefs: string[],
+  timeZone: string | undefined,
+  style?: number
+): string => {
+  let xml = `<row r="${rowNumber}">`;
+  for (let index = 0; index < cells.length; index += 1) {
+    const ref = `${columnRefs[index] ?? columnName(index)}${rowNumber}`;
+    const cell = serializeCell(ref, cells[index], timeZone);
+    xml += style != null && cell ? cell.replace('<c ', `<c s="${style}" `) : cell;
+  }
+  return `${xml}</row>`;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc32 = (crc: number, bytes: Uint8Array): number => {
+  let value = crc;
+  for (let index = 0; index < bytes.length; index += 1) {
+    value = CRC_TABLE[(value ^ bytes[index]!) & 0xff]! ^ (value >>> 8);
+  }
+  return value;
+};
+
+interface ZipSource {
+  path: string;
+  chunks: Uint8Array[];
+}
+
+const createDeflateStream = (): CompressionStream | null => {
+  if (typeof CompressionStream === 'undefined') {
+    return null;
+  }
+  try {
+    return new CompressionStream('deflate-raw' as CompressionFormat);
+  } catch {
+    // Older engines only know gzip and deflate; those entries are stored.
+    return null;
+  }
+};
+
+const toDosDateTime = (date: Date): { time: number; day: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  day: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Packs files into a zip archive, deflating them when the browser supports
+ * raw deflate streams. Zip64 is not written, so the archive must stay under 4 GB.
+ */
+const buildZip = async (sources: ZipSource[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, day } = toDosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const centrals: BlobPart[] = [];
+  let directorySize = 0;
+  let offset = 0;
+
+  for (const { path, chunks } of sources) {
+    const name = encoder.encode(path);
+    let crc = 0xffffffff;
+    let size = 0;
+    for (const chunk of chunks) {
+      crc = updateCrc32(crc, chunk);
+      size += chunk.length;
+    }
+    crc = (crc ^ 0xffffffff) >>> 0;
+
+    const deflate = createDeflateStream();
+    let payload = chunks as BlobPart[];
+    let method = 0;
+    let compressedSize = size;
+    if (deflate) {
+      const source = new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach((chunk) => controller.enqueue(chunk));
+          controller.close();
+        }
+      });
+      const compressed = new Uint8Array(
+        await new Response(
+          source.pipeThrough(deflate as unknown as TransformStream<Uint8Array, Uint8Array>)
+        ).arrayBuffer()
+      );
+      if (compressed.length < size) {
+        payload = [compressed];
+        method = 8;
+        compressedSize = compressed.length;
+      }
+    }
+
+    const header = (signatureSize: number) => {
+      const bytes = new Uint8Array(signatureSize + name.length);
+      bytes.set(name, signatureSize);
+      return [bytes, new DataView(bytes.buffer)] as const;
+    };
+
+    const [local, localView] = header(30);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, 0x0800, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, day, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, compressedSize, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+
+    const [central, centralView] = header(46);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, day, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, compressedSize, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+
+    parts.push(local, ...payload);
+    centrals.push(central);
+    directorySize += central.length;
+    offset += local.length + compressedSize;
+    if (offset > MAX_ZIP_SIZE || size > MAX_ZIP_SIZE) {
+      throw new Error('The export is too large for an .xlsx file; narrow the rows or columns.');
+    }
+  }
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, sources.length, true);
+  endView.setUint16(10, sources.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centrals, end], { type: XLSX_MIME_TYPE });
+};
+
+/**
+ * Writes a single-sheet `.xlsx` workbook. Strings are stored inline, numbers
+ * and booleans keep their types, and Date cells become date serials showing
+ * the wall clock of `timeZone`. The header row is bold and frozen.
+ */
+export const buildXlsxBlob = async (
+  headers: string[],
+  rows: XlsxCellValue[][],
+  { sheetName = 'Sheet1', timeZone }: XlsxExportOptions = {}
+): Promise<Blob> => {
+  if (rows.length + 1 > XLSX_MAX_ROWS) {
+    throw new Error(
+      `Excel sheets hold at most ${(XLSX_MAX_ROWS - 1).toLocaleString()} data rows; ` +
+        `narrow the view to export ${rows.length.toLocaleString()} rows.`
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const columnCount = rows.reduce((count, row) => Math.max(count, row.length), headers.length);
+  const columnRefs = Array.from({ length: columnCount }, (_, index) => columnName(index));
+  const sheetChunks: Uint8Array[] = [
+    encoder.encode(
+      `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+        '<sheetViews><sheetView workbookViewId="0">' +
+        '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+        '</sheetView></sheetViews><sheetData>' +
+        serializeRow(1, headers, columnRefs, timeZone, HEADER_STYLE)
+    )
+  ];
+  for (let start = 0; start < rows.length; start += ROWS_PER_CHUNK) {
+    let xml = '';
+    const end = Math.min(rows.length, start + ROWS_PER_CHUNK);
+    for (let index = start; index < end; index += 1) {
+      xml += serializeRow(index + 2, rows[index]!, columnRefs, timeZone);
+    }
+    sheetChunks.push(encoder.encode(xml));
+  }
+  sheetChunks.push(encoder.encode('</sheetData></worksheet>'));
+
+  const workbookXml =
+    `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets>` +
+    `<sheet name="${escapeXml(sanitizeSheetName(sheetName))}" sheetId="1" r:id="rId1"/>` +
+    '</sheets></workbook>';
+
+  return buildZip([
+    { path: '[Content_Types].xml', chunks: [encoder.encode(CONTENT_TYPES_XML)] },
+    { path: '_rels/.rels', chunks: [encoder.encode(ROOT_RELATIONSHIPS_XML)] },
+    { path: 'xl/workbook.xml', chunks: [encoder.encode(workbookXml)] },
+    { path: 'xl/_rels/workbook.xml.rels', chunks: [encoder.encode(WORKBOOK_RELATIONSHIPS_XML)] },
+    { path: 'xl/styles.xml', chunks: [encoder.encode(STYLES_XML)] },
+    { path: 'xl/worksheets/sheet1.xml', chunks: sheetChunks }
+  ]);
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseYaml } from './yamlSubset';
+
+describe('parseYaml', () => {
+  it('reads nested mappings, sequences and scalars', () => {
+    const source = [
+      '# leading comment',
+      'title: Suspicious "whoami" # trailing comment',
+      'id: 5f1b2c3d',
+      'tags:',
+      '  - attack.discovery',
+      "  - 'attack.t1033'",
+      'logsource:',
+      '  product: windows',
+      '  category: process_creation',
+      'detection:',
+      '  selection:',
+      '    EventID: 4688',
+      '    Image|endswith:',
+      '    - \\whoami.exe',
+      '    - "\\\\quser.exe"',
+      '  filter: [a, "b c", 3]',
+      '  enabled: true',
+      '  empty:',
+      '  condition: selection and not filter'
+    ].join('\n');
+
+    expect(parseYaml(source)).toEqual({
+      title: 'Suspicious "whoami"',
+      id: '5f1b2c3d',
+      tags: ['attack.discovery', 'attack.t1033'],
+      logsource: { product: 'windows', category: 'process_creation' },
+      detection: {
+        selection: {
+          EventID: 4688,
+          'Image|endswith': ['\\whoami.exe', '\\quser.exe']
+        },
+        filter: ['a', 'b c', 3],
+        enabled: true,
+        empty: null,
+        condition: 'selection and not filter'
+      }
+    });
+  });
+
+  it('reads mappings nested inside sequences', () => {
+    const source = [
+      'selection:',
+      '  - CommandLine|contains: mimikatz',
+      '    User: SYSTEM',
+      '  - Image: C:\\Tools\\pd.exe'
+    ].join('\n');
+
+    expect(parseYaml(source)).toEqual({
+      selection: [
+        { 'CommandLine|contains': 'mimikatz', User: 'SYSTEM' },
+        { Image: 'C:\\Tools\\pd.exe' }
+      ]
+    });
+  });
+
+  it('reads literal and folded block scalars', () => {
+    const source = [
+      'description: |',
+      '  First line',
+      '    indented',
+      'summary: >-',
+      '  folded',
+      '  text',
+      'level: high'
+    ].join('\n');
+
+    expect(parseYaml(source)).toEqual({
+      description: 'First line\n  indented\n',
+      summary: 'folded text',
+      level: 'high'
+    });
+  });
+
+  it('reports the line of malformed content', () => {
+    expect(() => parseYaml('a: 1\n  b: 2')).toThrow(/line 2/);
+    expect(() => parseYaml("a: 'open")).toThrow(/unterminated/);
+  });
+});
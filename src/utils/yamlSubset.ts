@@ -0,0 +1,361 @@
+/**
+ * Minimal block-style YAML reader covering what detection rules use: nested
+ * mappings, sequences (including mappings inside sequences), quoted and plain
+ * scalars, flow sequences, and `|`/`>` block scalars. Anchors, tags, flow
+ * mappings and multi-document streams are not supported.
+ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+  indent: number;
+  content: string;
+  lineNumber: number;
+}
+
+const fail = (message: string, lineNumber: number): never => {
+  throw new Error(`YAML line ${lineNumber}: ${message}`);
+};
+
+/** Strips a trailing `# comment` that is not inside quotes. */
+const stripComment = (text: string): string => {
+  let quote: '"' | "'" | null = null;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (index === 0 || /\s/.test(text[index - 1]!))) {
+      return text.slice(0, index).trimEnd();
+    }
+  }
+
+  return text.trimEnd();
+};
+
+/** Index of the `:` separating a mapping key from its value, or -1. */
+const findKeySeparator = (text: string): number => {
+  let quote: '"' | "'" | null = null;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if ((char === '"' || char === "'") && index === 0) {
+      quote = char;
+    } else if (char === ':' && (index === text.length - 1 || text[index + 1] === ' ')) {
+      return index;
+    }
+  }
+
+  return -1;
+};
+
+const isSequenceItem = (content: string): boolean => content === '-' || content.startsWith('- ');
+
+const unquoteDouble = (body: string): string =>
+  body.replace(/\\(["\\/bfnrt]|u[0-9a-fA-F]{4})/g, (_match, escape: string) => {
+    switch (escape[0]) {
+      case 'b':
+        return '\b';
+      case 'f':
+        return '\f';
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 't':
+        return '\t';
+      case 'u':
+        return String.fromCharCode(Number.parseInt(escape.slice(1), 16));
+      default:
+        return escape;
+    }
+  });
+
+const splitFlowItems = (body: string): string[] => {
+  const items: string[] = [];
+  let quote: '"' | "'" | null = null;
+  let current = '';
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index]!;
+    if (quote) {
+      current += char;
+      if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim().length > 0) {
+    items.push(current.trim());
+  }
+  return items;
+};
+
+export const parseYamlScalar = (raw: string, lineNumber = 0): YamlValue => {
+  const text = raw.trim();
+
+  if (text.startsWith('"')) {
+    if (text.length < 2 || !text.endsWith('"')) {
+      fail('unterminated double-quoted string', lineNumber);
+    }
+    return unquoteDouble(text.slice(1, -1));
+  }
+
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'")) {
+      fail('unterminated single-quoted string', lineNumber);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      fail('unterminated flow sequence', lineNumber);
+    }
+    return splitFlowItems(text.slice(1, -1)).map((item) => parseYamlScalar(item, lineNumber));
+  }
+
+  if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  if (/^[-+]?\d+$/.test(text)) {
+    return Number.parseInt(text, 10);
+  }
+  if (/^[-+]?(\d+\.\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) {
+    return Number.parseFloat(text);
+  }
+
+  return text;
+};
+
+const tokenize = (source: string): Array<YamlLine | null> => {
+  const lines: Array<YamlLine | null> = [];
+  const rawLines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  for (let index = 0; index < rawLines.length; index += 1) {
+    const raw = rawLines[index]!;
+    if (raw.includes('\t') && /^\s*\t/.test(raw)) {
+      fail('tabs are not allowed for indentation', index + 1);
+    }
+
+    const indent = raw.length - raw.trimStart().length;
+    const content = raw.trim();
+    if (index === 0 && content === '---') {
+      lines.push(null);
+      continue;
+    }
+    if (content === '---' || content === '...') {
+      // Only the first document is read.
+      break;
+    }
+
+    lines.push(content.length === 0 ? null : { indent, content: raw.slice(indent), lineNumber: index + 1 });
+  }
+
+  return lines;
+};
+
+class YamlReader {
+  private readonly lines: Array<YamlLine | null>;
+  private index = 0;
+
+  constructor(source: string) {
+    this.lines = tokenize(source);
+  }
+
+  read(): YamlValue {
+    const first = this.peek();
+    if (!first) {
+      return null;
+    }
+
+    const value = this.parseBlock(first.indent);
+    const trailing = this.peek();
+    if (trailing) {
+      fail('unexpected content', trailing.lineNumber);
+    }
+    return value;
+  }
+
+  /** Next significant line, skipping blanks and comment-only lines. */
+  private peek(): YamlLine | null {
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line && stripComment(line.content).length > 0) {
+        return line;
+      }
+      this.index += 1;
+    }
+    return null;
+  }
+
+  private parseBlock(indent: number): YamlValue {
+    const line = this.peek();
+    if (!line) {
+      return null;
+    }
+
+    if (isSequenceItem(stripComment(line.content))) {
+      return this.parseSequence(indent);
+    }
+
+    if (findKeySeparator(stripComment(line.content)) < 0) {
+      this.index += 1;
+      return parseYamlScalar(stripComment(line.content), line.lineNumber);
+    }
+
+    return this.parseMapping(indent);
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      const content = stripComment(line.content);
+      if (!isSequenceItem(content)) {
+        break;
+      }
+
+      const rest = content.slice(1).trimStart();
+      if (rest.length === 0) {
+        this.index += 1;
+        const next = this.peek();
+        items.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+        continue;
+      }
+
+      const offset = line.content.length - line.content.slice(1).trimStart().length;
+      if (findKeySeparator(rest) >= 0 && !rest.startsWith('[')) {
+        // `- key: value` opens a mapping aligned with the text after the dash.
+        this.lines[this.index] = {
+          indent: indent + offset,
+          content: line.content.slice(offset),
+          lineNumber: line.lineNumber
+        };
+        items.push(this.parseMapping(indent + offset));
+        continue;
+      }
+
+      this.index += 1;
+      items.push(parseYamlScalar(rest, line.lineNumber));
+    }
+
+    return items;
+  }
+
+  private parseMapping(indent: number): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {};
+
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      const content = stripComment(line.content);
+      if (isSequenceItem(content)) {
+        break;
+      }
+
+      const separator = findKeySeparator(content);
+      if (separator < 0) {
+        fail('expected "key: value"', line.lineNumber);
+      }
+
+      const keyValue = parseYamlScalar(content.slice(0, separator), line.lineNumber);
+      const key = keyValue == null ? '' : String(keyValue);
+      const rest = content.slice(separator + 1).trim();
+      this.index += 1;
+
+      if (rest === '|' || rest === '>' || /^[|>][-+]?$/.test(rest)) {
+        mapping[key] = this.readBlockScalar(indent, rest);
+        continue;
+      }
+
+      if (rest.length > 0) {
+        mapping[key] = parseYamlScalar(rest, line.lineNumber);
+        continue;
+      }
+
+      const next = this.peek();
+      if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(stripComment(next.content))))) {
+        mapping[key] = this.parseBlock(next.indent);
+      } else {
+        mapping[key] = null;
+      }
+    }
+
+    const stray = this.peek();
+    if (stray && stray.indent > indent) {
+      fail('unexpected indentation', stray.lineNumber);
+    }
+
+    return mapping;
+  }
+
+  private readBlockScalar(parentIndent: number, header: string): string {
+    const folded = header.startsWith('>');
+    const chomp = header.slice(1);
+    const collected: string[] = [];
+    let blockIndent: number | null = null;
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (!line) {
+        collected.push('');
+        this.index += 1;
+        continue;
+      }
+      if (line.indent <= parentIndent) {
+        break;
+      }
+      blockIndent ??= line.indent;
+      collected.push(' '.repeat(Math.max(0, line.indent - blockIndent)) + line.content);
+      this.index += 1;
+    }
+
+    while (collected.length > 0 && collected[collected.length - 1] === '') {
+      collected.pop();
+    }
+
+    const text = folded
+      ? collected.reduce(
+          (folded, line) =>
+            line === ''
+              ? `${folded}\n`
+              : `${folded}${folded.length > 0 && !folded.endsWith('\n') ? ' ' : ''}${line}`,
+          ''
+        )
+      : collected.join('\n');
+    return chomp === '-' ? text : `${text}\n`;
+  }
+}
+
+export const parseYaml = (source: string): YamlValue => new YamlReader(source).read();
@@ -0,0 +1,183 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+
+import { flatTable, scalar, type FlatTable } from '@utils/flatBuffers';
+
+import { parseArrowFile, type ArrowParserOptions } from './arrowParser';
+import { buildArrowFixture, type ArrowFixtureBatch } from './test/arrowFixture';
+import type { RowBatch } from './types';
+import { materializeRowBatch } from './utils/materializeRowBatch';
+
+const toBlob = (bytes: Uint8Array): Blob => new NodeBlob([bytes]) as unknown as Blob;
+
+const collect = async (file: Blob, options?: ArrowParserOptions) => {
+  const batches: RowBatch[] = [];
+  const rows: string[][] = [];
+  await parseArrowFile(
+    file,
+    {
+      onBatch: (batch) => {
+        batches.push(batch);
+      },
+      onRow: (row) => {
+        rows.push(row);
+      }
+    },
+    options
+  );
+  return { batches, rows, records: batches.flatMap((batch) => materializeRowBatch(batch).rows) };
+};
+
+const field = (
+  name: string,
+  typeId: number,
+  type: FlatTable,
+  dictionary: FlatTable | null = null
+): FlatTable =>
+  flatTable(
+    { kind: 'string', value: name },
+    scalar(1, 1),
+    scalar(1, typeId),
+    type,
+    dictionary,
+    { kind: 'tables', items: [] }
+  );
+
+const bytesOf = (view: ArrayBufferView): Uint8Array =>
+  new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+
+const strings = (values: string[]): ArrowFixtureBatch => {
+  const encoded = new TextEncoder().encode(values.join(''));
+  const offsets = new Int32Array(values.length + 1);
+  values.forEach((value, index) => {
+    offsets[index + 1] = offsets[index]! + value.length;
+  });
+  return {
+    length: values.length,
+    nodes: [[values.length, 0]],
+    buffers: [new Uint8Array(0), bytesOf(offsets), encoded]
+  };
+};
+
+const FIELDS = [
+  // Utf8 values behind int8 dictionary indices.
+  field('host', 5, flatTable(), flatTable(scalar(8, 7), flatTable(scalar(4, 8), scalar(1, 1)))),
+  // Int64
+  field('event', 2, flatTable(scalar(4, 64), scalar(1, 1))),
+  // Timestamp(NANOSECOND) without a time zone.
+  field('local', 10, flatTable(scalar(2, 3))),
+  // Date32
+  field('day', 8, flatTable(scalar(2, 0))),
+  // Float32
+  field('ratio', 3, flatTable(scalar(2, 1)))
+];
+
+const LOCAL_NINE_AM = BigInt(Date.UTC(2024, 6, 1, 9)) * 1_000_000n;
+
+const BATCHES: ArrowFixtureBatch[] = [
+  {
+    length: 3,
+    nodes: [
+      [3, 1],
+      [3, 0],
+      [3, 0],
+      [3, 1],
+      [3, 0]
+    ],
+    buffers: [
+      Uint8Array.of(0b011),
+      Uint8Array.of(1, 0, 0),
+      new Uint8Array(0),
+      bytesOf(BigInt64Array.of(4624n, 4625n, 4688n)),
+      new Uint8Array(0),
+      bytesOf(BigInt64Array.of(LOCAL_NINE_AM, LOCAL_NINE_AM + 1_500_000_000n, 0n)),
+      Uint8Array.of(0b101),
+      bytesOf(Int32Array.of(19_723, 0, 19_724)),
+      new Uint8Array(0),
+      bytesOf(Float32Array.of(0.5, -2, 1.25))
+    ]
+  },
+  {
+    length: 1,
+    nodes: [
+      [1, 0],
+      [1, 0],
+      [1, 0],
+      [1, 0],
+      [1, 0]
+    ],
+    buffers: [
+      new Uint8Array(0),
+      Uint8Array.of(2),
+      new Uint8Array(0),
+      bytesOf(BigInt64Array.of(-1n)),
+      new Uint8Array(0),
+      bytesOf(BigInt64Array.of(LOCAL_NINE_AM)),
+      new Uint8Array(0),
+      bytesOf(Int32Array.of(19_723)),
+      new Uint8Array(0),
+      bytesOf(Float32Array.of(0))
+    ]
+  }
+];
+
+const DICTIONARIES = [
+  { id: 7, batch: strings(['dc01', 'ws17']) },
+  { id: 7, batch: strings(['fs02']), isDelta: true }
+];
+
+describe('arrowParser', () => {
+  it.each([
+    ['uncompressed', false],
+    ['LZ4-compressed', true]
+  ])('reads %s record batches with dictionaries and declared types', async (_, lz4) => {
+    const { batches, rows, records } = await collect(
+      toBlob(
+        buildArrowFixture({ fields: FIELDS, dictionaries: DICTIONARIES, batches: BATCHES, lz4 })
+      )
+    );
+
+    expect(records).toMatchObject([
+      { host: 'ws17', event: 4624, local: '2024-07-01T09:00:00Z', day: '2024-01-01T00:00:00Z' },
+      { host: 'dc01', event: 4625, local: '2024-07-01T09:00:01.500Z', day: null, ratio: -2 },
+      { host: '', event: 4688, day: '2024-01-02T00:00:00Z', ratio: 1.25 },
+      { host: 'fs02', event: -1 }
+    ]);
+    expect(rows[0]).toEqual([
+      'ws17',
+      '4624',
+      '2024-07-01T09:00:00Z',
+      '2024-01-01T00:00:00Z',
+      '0.5'
+    ]);
+    expect(batches.at(-1)!.columnTypes).toEqual({
+      host: 'string',
+      event: 'number',
+      local: 'datetime',
+      day: 'datetime',
+      ratio: 'number'
+    });
+    expect(batches.at(-1)!.stats).toMatchObject({ rowsParsed: 4, eof: true });
+  });
+
+  it('reads zone-less timestamps in the configured source time zone', async () => {
+    const { records } = await collect(
+      toBlob(buildArrowFixture({ fields: FIELDS, dictionaries: DICTIONARIES, batches: BATCHES })),
+      { sourceTimeZones: { local: 'Europe/Berlin' }, rowLimit: 1 }
+    );
+
+    expect(records).toEqual([expect.objectContaining({ local: '2024-07-01T07:00:00Z' })]);
+  });
+
+  it('rejects IPC streams, foreign files and nested columns', async () => {
+    await expect(
+      collect(toBlob(Uint8Array.of(0xff, 0xff, 0xff, 0xff, 8, 0, 0, 0, 0, 0, 0, 0)))
+    ).rejects.toThrow('Arrow IPC streams are not supported');
+    await expect(collect(toBlob(new TextEncoder().encode('time,host\n')))).rejects.toThrow(
+      'Not an Arrow IPC file: the ARROW1 magic is missing.'
+    );
+    await expect(
+      collect(toBlob(buildArrowFixture({ fields: [field('tags', 12, flatTable())], batches: [] })))
+    ).rejects.toThrow('Arrow column "tags" has an unsupported type (List).');
+  });
+});
@@ -0,0 +1,659 @@
+import type { ParserCallbacks } from './csvParser';
+import {
+  emitColumnarChunks,
+  type ColumnarChunk,
+  type ColumnarField,
+  type ColumnarParserOptions
+} from './columnarSource';
+import type { ColumnBatch, ColumnType } from './types';
+import { createColumnBatchBuilder, createStringColumnBatch } from './utils/columnBatchBuilders';
+import { decompressLz4Frame } from './utils/lz4';
+import { ZstdDecoder } from './utils/zstd';
+
+/**
+ * Reader for the Arrow IPC file format (`.arrow`, Feather v2). The footer
+ * lists every record batch, so batches are read from the file one at a time
+ * instead of loading it whole. Flat columns of the common primitive, string
+ * and dictionary-encoded types are supported; nested types are rejected.
+ */
+
+export type ArrowParserOptions = ColumnarParserOptions;
+
+type ArrowType =
+  | { kind: 'null' | 'bool' }
+  | { kind: 'int'; bitWidth: number; signed: boolean }
+  | { kind: 'float'; precision: number }
+  | { kind: 'decimal'; scale: number; bitWidth: number }
+  | { kind: 'utf8' | 'binary'; large: boolean }
+  | { kind: 'fixedBinary'; byteWidth: number }
+  | { kind: 'date'; unit: number }
+  | { kind: 'timestamp'; unit: number; timeZone: string | null }
+  | { kind: 'time' | 'duration'; unit: number; bitWidth: number };
+
+interface ArrowField {
+  name: string;
+  type: ArrowType;
+  /** Set when the column holds indices into a dictionary batch. */
+  dictionary: { id: number; indexType: ArrowType } | null;
+}
+
+interface Block {
+  offset: number;
+  /** Length of the message prefix, flatbuffer and padding before the body. */
+  metaDataLength: number;
+  bodyLength: number;
+}
+
+interface RecordBatchLayout {
+  length: number;
+  nodes: Array<{ length: number; nullCount: number }>;
+  buffers: Array<{ offset: number; length: number }>;
+  /** Body compression codec, or null for uncompressed buffers. */
+  codec: number | null;
+}
+
+interface FlatTable {
+  view: DataView;
+  position: number;
+  vtable: number;
+  vtableSize: number;
+}
+
+const MAGIC = 'ARROW1';
+/** Footer length and trailing magic. */
+const TRAILER_LENGTH = 10;
+const CONTINUATION = 0xffffffff;
+const MESSAGE_DICTIONARY_BATCH = 2;
+const MESSAGE_RECORD_BATCH = 3;
+const CODEC_LZ4_FRAME = 0;
+const CODEC_ZSTD = 1;
+const MS_PER_DAY = 86_400_000;
+/** Milliseconds per SECOND, MILLISECOND, MICROSECOND and NANOSECOND. */
+const UNIT_TO_MS = [1_000, 1, 1e-3, 1e-6];
+/** Union ids of the `Type` table in Schema.fbs, for error messages. */
+const TYPE_NAMES = [
+  'NONE', 'Null', 'Int', 'FloatingPoint', 'Binary', 'Utf8', 'Bool', 'Decimal', 'Date', 'Time',
+  'Timestamp', 'Interval', 'List', 'Struct', 'Union', 'FixedSizeBinary', 'FixedSizeList', 'Map',
+  'Duration', 'LargeBinary', 'LargeUtf8', 'LargeList', 'RunEndEncoded', 'BinaryView', 'Utf8View',
+  'ListView', 'LargeListView'
+];
+
+const textDecoder = new TextDecoder();
+
+const corrupt = (reason: string): Error => new Error(`Corrupt Arrow file: ${reason}.`);
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const toDataView = (bytes: Uint8Array): DataView =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const readTable = (view: DataView, position: number): FlatTable => {
+  const vtable = position - view.getInt32(position, true);
+  return { view, position, vtable, vtableSize: view.getUint16(vtable, true) };
+};
+
+const readRoot = (view: DataView): FlatTable => readTable(view, view.getUint32(0, true));
+
+/** Absolute position of a table field, or null when it holds its default. */
+const fieldPosition = (table: FlatTable | null, field: number): number | null => {
+  const entry = 4 + field * 2;
+  if (!table || entry >= table.vtableSize) {
+    return null;
+  }
+  const offset = table.view.getUint16(table.vtable + entry, true);
+  return offset === 0 ? null : table.position + offset;
+};
+
+const readUint8 = (table: FlatTable | null, field: number, fallback = 0): number => {
+  const position = fieldPosition(table, field);
+  return position == null ? fallback : table!.view.getUint8(position);
+};
+
+const readInt16 = (table: FlatTable | null, field: number, fallback = 0): number => {
+  const position = fieldPosition(table, field);
+  return position == null ? fallback : table!.view.getInt16(position, true);
+};
+
+const readInt32 = (table: FlatTable | null, field: number, fallback = 0): number => {
+  const position = fieldPosition(table, field);
+  return position == null ? fallback : table!.view.getInt32(position, true);
+};
+
+const readInt64 = (table: FlatTable | null, field: number): number => {
+  const position = fieldPosition(table, field);
+  return position == null ? 0 : Number(table!.view.getBigInt64(position, true));
+};
+
+/** Follows an offset field to the object it points at. */
+const readReference = (table: FlatTable | null, field: number): number | null => {
+  const position = fieldPosition(table, field);
+  return position == null ? null : position + table!.view.getUint32(position, true);
+};
+
+const readSubTable = (table: FlatTable | null, field: number): FlatTable | null => {
+  const position = readReference(table, field);
+  return position == null ? null : readTable(table!.view, position);
+};
+
+const readString = (table: FlatTable | null, field: number): string | null => {
+  const position = readReference(table, field);
+  if (position == null) {
+    return null;
+  }
+  const { view } = table!;
+  const length = view.getUint32(position, true);
+  return textDecoder.decode(
+    new Uint8Array(view.buffer, view.byteOffset + position + 4, length)
+  );
+};
+
+/** Start of the elements and element count of a vector field. */
+const readVector = (
+  table: FlatTable | null,
+  field: number
+): { start: number; length: number } => {
+  const position = readReference(table, field);
+  return position == null
+    ? { start: 0, length: 0 }
+    : { start: position + 4, length: table!.view.getUint32(position, true) };
+};
+
+const readTableVector = (table: FlatTable, field: number): FlatTable[] => {
+  const { start, length } = readVector(table, field);
+  return Array.from({ length }, (_, index) => {
+    const slot = start + index * 4;
+    return readTable(table.view, slot + table.view.getUint32(slot, true));
+  });
+};
+
+const readBlocks = (table: FlatTable, field: number): Block[] => {
+  const { start, length } = readVector(table, field);
+  return Array.from({ length }, (_, index) => {
+    const position = start + index * 24;
+    return {
+      offset: Number(table.view.getBigInt64(position, true)),
+      metaDataLength: table.view.getInt32(position + 8, true),
+      bodyLength: Number(table.view.getBigInt64(position + 16, true))
+    };
+  });
+};
+
+/** Dictionary indices are signed 32-bit integers unless the schema says otherwise. */
+const DEFAULT_INDEX_TYPE: ArrowType = { kind: 'int', bitWidth: 32, signed: true };
+
+const readIntType = (spec: FlatTable | null): ArrowType => ({
+  kind: 'int',
+  bitWidth: readInt32(spec, 0),
+  signed: readUint8(spec, 1) === 1
+});
+
+const readType = (field: FlatTable, name: string): ArrowType => {
+  const typeId = readUint8(field, 2);
+  const spec = readSubTable(field, 3);
+  switch (typeId) {
+    case 1:
+      return { kind: 'null' };
+    case 2:
+      return readIntType(spec);
+    case 3:
+      return { kind: 'float', precision: readInt16(spec, 0) };
+    case 4:
+    case 19:
+      return { kind: 'binary', large: typeId === 19 };
+    case 5:
+    case 20:
+      return { kind: 'utf8', large: typeId === 20 };
+    case 6:
+      return { kind: 'bool' };
+    case 7:
+      return { kind: 'decimal', scale: readInt32(spec, 1), bitWidth: readInt32(spec, 2, 128) };
+    case 8:
+      return { kind: 'date', unit: readInt16(spec, 0, 1) };
+    case 9:
+      return { kind: 'time', unit: readInt16(spec, 0, 1), bitWidth: readInt32(spec, 1, 32) };
+    case 10:
+      return { kind: 'timestamp', unit: readInt16(spec, 0), timeZone: readString(spec, 1) || null };
+    case 15:
+      return { kind: 'fixedBinary', byteWidth: readInt32(spec, 0) };
+    case 18:
+      return { kind: 'duration', unit: readInt16(spec, 0, 1), bitWidth: 64 };
+    default:
+      throw new Error(
+        `Arrow column "${name}" has an unsupported type (${TYPE_NAMES[typeId] ?? typeId}).`
+      );
+  }
+};
+
+const readField = (field: FlatTable): ArrowField => {
+  const name = readString(field, 0) ?? '';
+  const encoding = readSubTable(field, 4);
+  const indexType = readSubTable(encoding, 1);
+  return {
+    name,
+    type: readType(field, name),
+    dictionary: encoding
+      ? {
+          id: readInt64(encoding, 0),
+          indexType: indexType ? readIntType(indexType) : DEFAULT_INDEX_TYPE
+        }
+      : null
+  };
+};
+
+const toColumnarField = ({ name, type }: ArrowField): ColumnarField => {
+  let columnType: ColumnType = 'string';
+  if (type.kind === 'bool') {
+    columnType = 'boolean';
+  } else if (type.kind === 'date' || type.kind === 'timestamp') {
+    columnType = 'datetime';
+  } else if (['int', 'float', 'decimal', 'time', 'duration'].includes(type.kind)) {
+    columnType = 'number';
+  }
+  return { name, type: columnType, naive: type.kind === 'timestamp' && type.timeZone == null };
+};
+
+const readRecordBatchLayout = (table: FlatTable | null): RecordBatchLayout => {
+  if (!table) {
+    throw corrupt('record batch metadata is missing');
+  }
+  const nodes = readVector(table, 1);
+  const buffers = readVector(table, 2);
+  const compression = readSubTable(table, 3);
+  return {
+    length: readInt64(table, 0),
+    nodes: Array.from({ length: nodes.length }, (_, index) => ({
+      length: Number(table.view.getBigInt64(nodes.start + index * 16, true)),
+      nullCount: Number(table.view.getBigInt64(nodes.start + index * 16 + 8, true))
+    })),
+    buffers: Array.from({ length: buffers.length }, (_, index) => ({
+      offset: Number(table.view.getBigInt64(buffers.start + index * 16, true)),
+      length: Number(table.view.getBigInt64(buffers.start + index * 16 + 8, true))
+    })),
+    codec: compression ? readUint8(compression, 0) : null
+  };
+};
+
+/** Reads one encapsulated message: its header table and body bytes. */
+const readMessage = async (
+  file: Blob,
+  block: Block
+): Promise<{ headerType: number; header: FlatTable | null; body: Uint8Array }> => {
+  const bytes = await readBytes(
+    file,
+    block.offset,
+    block.offset + block.metaDataLength + block.bodyLength
+  );
+  if (bytes.length < block.metaDataLength + block.bodyLength) {
+    throw corrupt('a record batch runs past the end of the file');
+  }
+  // Files written before Arrow 0.15 have no continuation marker.
+  const start = toDataView(bytes).getUint32(0, true) === CONTINUATION ? 8 : 4;
+  const message = readRoot(toDataView(bytes.subarray(start, block.metaDataLength)));
+  return {
+    headerType: readUint8(message, 1),
+    header: readSubTable(message, 2),
+    body: bytes.subarray(block.metaDataLength)
+  };
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const merged = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return merged;
+};
+
+/** Compressed buffers start with their decoded length; -1 marks one stored as is. */
+const decompressBuffer = (bytes: Uint8Array, codec: number): Uint8Array => {
+  const decodedLength = Number(toDataView(bytes).getBigInt64(0, true));
+  const payload = bytes.subarray(8);
+  if (decodedLength === -1) {
+    return payload;
+  }
+  if (codec === CODEC_LZ4_FRAME) {
+    return decompressLz4Frame(payload, decodedLength);
+  }
+  if (codec === CODEC_ZSTD) {
+    const decoder = new ZstdDecoder();
+    const blocks = decoder.push(payload);
+    decoder.finish();
+    return concatBytes(blocks);
+  }
+  throw new Error(`Arrow body compression codec ${codec} is not supported.`);
+};
+
+const createBufferReader = (layout: RecordBatchLayout, body: Uint8Array) => {
+  let nodeIndex = 0;
+  let bufferIndex = 0;
+  return {
+    nextNode() {
+      const node = layout.nodes[nodeIndex++];
+      if (!node) {
+        throw corrupt('a record batch has fewer field nodes than the schema');
+      }
+      return node;
+    },
+    nextBuffer(): Uint8Array {
+      const buffer = layout.buffers[bufferIndex++];
+      if (!buffer || buffer.offset + buffer.length > body.length) {
+        throw corrupt('a record batch buffer is missing or out of range');
+      }
+      const bytes = body.subarray(buffer.offset, buffer.offset + buffer.length);
+      return layout.codec == null || bytes.length === 0
+        ? bytes
+        : decompressBuffer(bytes, layout.codec);
+    }
+  };
+};
+
+type BufferReader = ReturnType<typeof createBufferReader>;
+
+const byteWidth = (type: ArrowType): number => {
+  switch (type.kind) {
+    case 'float':
+      return [2, 4, 8][type.precision] ?? 8;
+    case 'date':
+      return type.unit === 0 ? 4 : 8;
+    case 'timestamp':
+      return 8;
+    case 'int':
+    case 'decimal':
+    case 'time':
+    case 'duration':
+      return type.bitWidth / 8;
+    default:
+      return 0;
+  }
+};
+
+const decodeHalfFloat = (bits: number): number => {
+  const exponent = (bits >>> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (fraction / 1024);
+  }
+  if (exponent === 31) {
+    return fraction ? Number.NaN : sign * Number.POSITIVE_INFINITY;
+  }
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+};
+
+/** Little-endian two's complement integer of any width, for decimals. */
+const readWideInteger = (view: DataView, position: number, width: number): bigint => {
+  let value = 0n;
+  for (let index = width - 1; index >= 0; index -= 1) {
+    value = (value << 8n) | BigInt(view.getUint8(position + index));
+  }
+  return view.getInt8(position + width - 1) < 0 ? value - (1n << BigInt(width * 8)) : value;
+};
+
+const readInteger = (view: DataView, position: number, bitWidth: number, signed: boolean) => {
+  switch (bitWidth) {
+    case 8:
+      return signed ? view.getInt8(position) : view.getUint8(position);
+    case 16:
+      return signed ? view.getInt16(position, true) : view.getUint16(position, true);
+    case 32:
+      return signed ? view.getInt32(position, true) : view.getUint32(position, true);
+    default:
+      return Number(
+        signed ? view.getBigInt64(position, true) : view.getBigUint64(position, true)
+      );
+  }
+};
+
+const readNumber = (view: DataView, position: number, type: ArrowType): number => {
+  switch (type.kind) {
+    case 'int':
+      return readInteger(view, position, type.bitWidth, type.signed);
+    case 'float':
+      if (type.precision === 0) {
+        return decodeHalfFloat(view.getUint16(position, true));
+      }
+      return type.precision === 1
+        ? view.getFloat32(position, true)
+        : view.getFloat64(position, true);
+    case 'decimal':
+      return Number(readWideInteger(view, position, type.bitWidth / 8)) / 10 ** type.scale;
+    case 'date':
+      return type.unit === 0
+        ? view.getInt32(position, true) * MS_PER_DAY
+        : Number(view.getBigInt64(position, true));
+    case 'timestamp':
+      return Number(view.getBigInt64(position, true)) * UNIT_TO_MS[type.unit]!;
+    case 'time':
+    case 'duration':
+      return readInteger(view, position, type.bitWidth, true) * UNIT_TO_MS[type.unit]!;
+    default:
+      return Number.NaN;
+  }
+};
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const decodeColumn = (
+  type: ArrowType,
+  { length, nullCount }: { length: number; nullCount: number },
+  reader: BufferReader
+): ColumnBatch => {
+  if (type.kind === 'null') {
+    return createStringColumnBatch(new Array<string>(length).fill(''));
+  }
+
+  const validity = reader.nextBuffer();
+  const isValid = (index: number): boolean =>
+    nullCount === 0 ||
+    validity.length === 0 ||
+    ((validity[index >>> 3]! >>> (index & 7)) & 1) === 1;
+
+  if (type.kind === 'utf8' || type.kind === 'binary') {
+    const offsetView = toDataView(reader.nextBuffer());
+    const data = reader.nextBuffer();
+    const offsets = new Uint32Array(length + 1);
+    for (let index = 0; index <= length; index += 1) {
+      offsets[index] = type.large
+        ? Number(offsetView.getBigInt64(index * 8, true))
+        : offsetView.getInt32(index * 4, true);
+    }
+    if (type.kind === 'binary') {
+      return createStringColumnBatch(
+        Array.from({ length }, (_, index) =>
+          isValid(index) ? toHex(data.subarray(offsets[index], offsets[index + 1])) : ''
+        )
+      );
+    }
+    const base = offsets[0]!;
+    const column: ColumnBatch = {
+      type: 'string',
+      data: data.slice(base, offsets[length]).buffer,
+      offsets: offsets.map((offset) => offset - base)
+    };
+    if (nullCount === 0) {
+      return column;
+    }
+    // Null slots may still span bytes; rebuild so they read as empty.
+    const builder = createColumnBatchBuilder('string', length);
+    for (let index = 0; index < length; index += 1) {
+      if (isValid(index)) {
+        builder.appendFrom(column, index);
+      } else {
+        builder.appendNull();
+      }
+    }
+    return builder.finish();
+  }
+
+  const data = reader.nextBuffer();
+  if (type.kind === 'fixedBinary') {
+    return createStringColumnBatch(
+      Array.from({ length }, (_, index) =>
+        isValid(index)
+          ? toHex(data.subarray(index * type.byteWidth, (index + 1) * type.byteWidth))
+          : ''
+      )
+    );
+  }
+
+  const nullMask = new Uint8Array(length);
+  for (let index = 0; index < length; index += 1) {
+    nullMask[index] = isValid(index) ? 0 : 1;
+  }
+  const mask = nullCount > 0 ? nullMask : undefined;
+
+  if (type.kind === 'bool') {
+    const values = new Uint8Array(length);
+    for (let index = 0; index < length; index += 1) {
+      values[index] = (data[index >>> 3]! >>> (index & 7)) & 1;
+    }
+    return { type: 'boolean', data: values, nullMask: mask };
+  }
+
+  const view = toDataView(data);
+  const width = byteWidth(type);
+  const values = new Float64Array(length);
+  for (let index = 0; index < length; index += 1) {
+    if (!nullMask[index]) {
+      values[index] = readNumber(view, index * width, type);
+    }
+  }
+  const columnType = type.kind === 'date' || type.kind === 'timestamp' ? 'datetime' : 'number';
+  return { type: columnType, data: values, nullMask: mask };
+};
+
+/** Resolves dictionary indices into the values they point at. */
+const gatherDictionary = (indices: ColumnBatch, dictionary: ColumnBatch): ColumnBatch => {
+  const { data, nullMask } = indices as Extract<ColumnBatch, { type: 'number' }>;
+  const builder = createColumnBatchBuilder(dictionary.type, data.length);
+  for (let index = 0; index < data.length; index += 1) {
+    if (nullMask?.[index] === 1) {
+      builder.appendNull();
+    } else {
+      builder.appendFrom(dictionary, data[index]!);
+    }
+  }
+  return builder.finish();
+};
+
+const decodeField = (
+  field: ArrowField,
+  reader: BufferReader,
+  dictionaries: Map<number, ColumnBatch>
+): ColumnBatch => {
+  const node = reader.nextNode();
+  if (!field.dictionary) {
+    return decodeColumn(field.type, node, reader);
+  }
+  const dictionary = dictionaries.get(field.dictionary.id);
+  if (!dictionary) {
+    throw corrupt(`dictionary ${field.dictionary.id} of "${field.name}" is missing`);
+  }
+  return gatherDictionary(decodeColumn(field.dictionary.indexType, node, reader), dictionary);
+};
+
+const appendColumns = (left: ColumnBatch, right: ColumnBatch, rightLength: number) => {
+  const leftLength = left.type === 'string' ? left.offsets.length - 1 : left.data.length;
+  const builder = createColumnBatchBuilder(left.type, leftLength + rightLength);
+  for (let index = 0; index < leftLength; index += 1) {
+    builder.appendFrom(left, index);
+  }
+  for (let index = 0; index < rightLength; index += 1) {
+    builder.appendFrom(right, index);
+  }
+  return builder.finish();
+};
+
+const readFooter = async (file: Blob) => {
+  const head = await readBytes(file, 0, 8);
+  if (head.length >= 4 && toDataView(head).getUint32(0, true) === CONTINUATION) {
+    throw new Error(
+      'Arrow IPC streams are not supported; write the data in the Arrow file format instead.'
+    );
+  }
+  const tail = await readBytes(file, Math.max(0, file.size - TRAILER_LENGTH), file.size);
+  if (
+    file.size < 8 + TRAILER_LENGTH ||
+    textDecoder.decode(head.subarray(0, MAGIC.length)) !== MAGIC ||
+    textDecoder.decode(tail.subarray(4)) !== MAGIC
+  ) {
+    throw new Error('Not an Arrow IPC file: the ARROW1 magic is missing.');
+  }
+
+  const footerLength = toDataView(tail).getInt32(0, true);
+  const footerStart = file.size - TRAILER_LENGTH - footerLength;
+  if (footerLength <= 0 || footerStart < 8) {
+    throw corrupt('the footer length is out of range');
+  }
+  const footerBytes = await readBytes(file, footerStart, footerStart + footerLength);
+  const footer = readRoot(toDataView(footerBytes));
+  const schema = readSubTable(footer, 1);
+  if (!schema) {
+    throw corrupt('the schema is missing');
+  }
+  if (readInt16(schema, 0) !== 0) {
+    throw new Error('Big-endian Arrow files are not supported.');
+  }
+  return {
+    fields: readTableVector(schema, 1).map(readField),
+    dictionaryBlocks: readBlocks(footer, 2),
+    recordBatchBlocks: readBlocks(footer, 3)
+  };
+};
+
+/**
+ * Streams the record batches of an Arrow IPC file into row batches, keeping
+ * each column's declared type.
+ */
+export const parseArrowFile = async (
+  file: Blob,
+  callbacks: ParserCallbacks,
+  options: ArrowParserOptions = {}
+): Promise<void> => {
+  const { fields, dictionaryBlocks, recordBatchBlocks } = await readFooter(file);
+
+  const dictionaries = new Map<number, ColumnBatch>();
+  for (const block of dictionaryBlocks) {
+    const message = await readMessage(file, block);
+    if (message.headerType !== MESSAGE_DICTIONARY_BATCH) {
+      throw corrupt('a dictionary block does not hold a dictionary batch');
+    }
+    const id = readInt64(message.header, 0);
+    const field = fields.find((candidate) => candidate.dictionary?.id === id);
+    if (!field) {
+      continue;
+    }
+    const layout = readRecordBatchLayout(readSubTable(message.header, 1));
+    const reader = createBufferReader(layout, message.body);
+    const values = decodeColumn(field.type, reader.nextNode(), reader);
+    const existing = dictionaries.get(id);
+    const isDelta = readUint8(message.header, 2) === 1;
+    dictionaries.set(
+      id,
+      isDelta && existing ? appendColumns(existing, values, layout.length) : values
+    );
+  }
+
+  async function* readRecordBatches(): AsyncGenerator<ColumnarChunk> {
+    for (const block of recordBatchBlocks) {
+      const message = await readMessage(file, block);
+      if (message.headerType !== MESSAGE_RECORD_BATCH) {
+        throw corrupt('a record batch block does not hold a record batch');
+      }
+      const layout = readRecordBatchLayout(message.header);
+      const reader = createBufferReader(layout, message.body);
+      yield {
+        rowCount: layout.length,
+        columns: fields.map((field) => decodeField(field, reader, dictionaries)),
+        byteOffset: block.offset,
+        bytesParsed: block.offset + block.metaDataLength + block.bodyLength
+      };
+    }
+  }
+
+  await emitColumnarChunks(fields.map(toColumnarField), readRecordBatches(), callbacks, options);
+};
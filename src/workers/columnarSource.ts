@@ -0,0 +1,177 @@
+import { dedupeHeader, type ParserCallbacks, type ParserOptions } from './csvParser';
+import type { ColumnBatch, ColumnInference, ColumnType, RowBatch } from './types';
+import { formatColumnBatchCell, sliceColumnBatch } from './utils/columnBatchBuilders';
+import { zonedWallClockToEpoch } from './utils/timezone';
+
+/**
+ * Shared tail of the Arrow and Parquet readers. Those formats carry their own
+ * schema, so columns arrive already typed and are only cut into batches here;
+ * nothing is re-inferred from text, which keeps declared types intact.
+ */
+
+export interface ColumnarField {
+  name: string;
+  type: ColumnType;
+  /** Timestamps stored as wall-clock time without a zone; read in the column's source zone. */
+  naive?: boolean;
+}
+
+export interface ColumnarChunk {
+  rowCount: number;
+  /** One batch per field, each `rowCount` rows long. */
+  columns: ColumnBatch[];
+  /** Where the chunk starts in the source file; recorded as its checkpoint. */
+  byteOffset: number;
+  /** Source bytes read once the chunk is stored. */
+  bytesParsed: number;
+}
+
+export type ColumnarParserOptions = Pick<
+  ParserOptions,
+  'batchSize' | 'checkpointInterval' | 'sourceTimeZones'
+> & {
+  /** Stops after this many rows; used for previews. */
+  rowLimit?: number;
+};
+
+const DEFAULT_BATCH_SIZE = 10_000;
+const MAX_EXAMPLES = 5;
+
+const isNullCell = (column: ColumnBatch, index: number): boolean =>
+  column.type === 'string'
+    ? column.offsets[index] === column.offsets[index + 1]
+    : column.nullMask?.[index] === 1;
+
+const toSourceZone = (column: ColumnBatch, timeZone: string): ColumnBatch =>
+  column.type === 'datetime'
+    ? {
+        ...column,
+        data: column.data.map((value) =>
+          Number.isFinite(value) ? zonedWallClockToEpoch(value, timeZone) : value
+        )
+      }
+    : column;
+
+const updateInference = (inference: ColumnInference, column: ColumnBatch, rowCount: number) => {
+  const examples = inference.examples as string[];
+  inference.samples += rowCount;
+  for (let index = 0; index < rowCount; index += 1) {
+    if (isNullCell(column, index)) {
+      inference.nullCount += 1;
+      continue;
+    }
+    if (column.type === 'datetime') {
+      const value = column.data[index]!;
+      inference.minDatetime = Math.min(inference.minDatetime ?? value, value);
+      inference.maxDatetime = Math.max(inference.maxDatetime ?? value, value);
+    }
+    if (examples.length < MAX_EXAMPLES) {
+      const example = formatColumnBatchCell(column, index).trim();
+      if (example && !examples.includes(example)) {
+        examples.push(example);
+      }
+    }
+  }
+};
+
+/**
+ * Cuts typed chunks (record batches, row groups) into {@link RowBatch}es of
+ * `batchSize` rows and reports them through the usual parser callbacks.
+ */
+export const emitColumnarChunks = async (
+  fields: ColumnarField[],
+  chunks: AsyncIterable<ColumnarChunk>,
+  callbacks: ParserCallbacks,
+  options: ColumnarParserOptions = {}
+): Promise<void> => {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const checkpointInterval = options.checkpointInterval ?? 50_000;
+  const rowLimit = options.rowLimit ?? Number.POSITIVE_INFINITY;
+  const sourceTimeZones = options.sourceTimeZones ?? {};
+  // Both formats store text as UTF-8.
+  await callbacks.onEncoding?.('utf-8');
+
+  const header = dedupeHeader(fields.map((field) => field.name));
+  await callbacks.onHeader?.(header.slice());
+  const inference = fields.map(
+    ({ type }): ColumnInference => ({
+      type,
+      confidence: 1,
+      samples: 0,
+      nullCount: 0,
+      examples: []
+    })
+  );
+
+  let totalRows = 0;
+  // Held back one step so the last batch can be flagged as the end of the file.
+  let pending: RowBatch | null = null;
+
+  for await (const chunk of chunks) {
+    if (totalRows >= rowLimit) {
+      break;
+    }
+    if (checkpointInterval > 0 && callbacks.onCheckpoint) {
+      await callbacks.onCheckpoint({ rowIndex: totalRows, byteOffset: chunk.byteOffset });
+    }
+
+    const columns = chunk.columns.map((column, index) => {
+      const timeZone = sourceTimeZones[header[index]!];
+      return fields[index]!.naive && timeZone ? toSourceZone(column, timeZone) : column;
+    });
+    const rowCount = Math.min(chunk.rowCount, rowLimit - totalRows);
+    const chunkBytes = chunk.bytesParsed - chunk.byteOffset;
+
+    for (let start = 0; start < rowCount; start += batchSize) {
+      const end = Math.min(rowCount, start + batchSize);
+      const batchColumns =
+        start === 0 && end === chunk.rowCount
+          ? columns
+          : columns.map((column) => sliceColumnBatch(column, start, end));
+
+      if (callbacks.onRow) {
+        for (let index = 0; index < end - start; index += 1) {
+          callbacks.onRow(batchColumns.map((column) => formatColumnBatchCell(column, index)));
+        }
+      }
+
+      const rowIds = new Uint32Array(end - start);
+      for (let index = 0; index < rowIds.length; index += 1) {
+        rowIds[index] = totalRows + index;
+      }
+      totalRows += rowIds.length;
+
+      const batch: RowBatch = {
+        rowIds,
+        columns: {},
+        columnTypes: {},
+        columnInference: {},
+        stats: {
+          rowsParsed: totalRows,
+          // Large chunks report progress in proportion to the rows already cut.
+          bytesParsed: chunk.byteOffset + Math.round((chunkBytes * end) / chunk.rowCount),
+          eof: false
+        }
+      };
+      header.forEach((name, index) => {
+        updateInference(inference[index]!, batchColumns[index]!, rowIds.length);
+        batch.columns[name] = batchColumns[index]!;
+        batch.columnTypes[name] = fields[index]!.type;
+        batch.columnInference[name] = {
+          ...inference[index]!,
+          examples: inference[index]!.examples.slice()
+        };
+      });
+
+      if (pending) {
+        await callbacks.onBatch(pending);
+      }
+      pending = batch;
+    }
+  }
+
+  if (pending) {
+    pending.stats.eof = true;
+    await callbacks.onBatch(pending);
+  }
+};
@@ -0,0 +1,124 @@
+import type { DataWorkerStateController } from '../state/dataWorkerState';
+import type { ColumnBatch, ColumnTypeOverride } from '../types';
+import { coerceColumnBatch, createDatetimeParser } from '../utils/columnBatchBuilders';
+
+export interface ColumnTypeController {
+  /**
+   * Replaces the dataset's type overrides and re-coerces the stored batches of
+   * every column whose type changes; see `DataWorkerApi.setColumnTypeOverrides`.
+   */
+  apply(overrides: Record<string, ColumnTypeOverride>): Promise<void>;
+}
+
+export interface ColumnTypeControllerDeps {
+  state: DataWorkerStateController;
+}
+
+const sameOverride = (left?: ColumnTypeOverride, right?: ColumnTypeOverride): boolean =>
+  left?.type === right?.type &&
+  (left?.datetimeFormat || '') === (right?.datetimeFormat || '') &&
+  (left?.timestampDecoder || '') === (right?.timestampDecoder || '');
+
+interface DatetimeRange {
+  min?: number;
+  max?: number;
+}
+
+const extendRange = (range: DatetimeRange, column: ColumnBatch): void => {
+  if (column.type !== 'datetime') {
+    return;
+  }
+  column.data.forEach((value, index) => {
+    if (column.nullMask?.[index] === 1 || !Number.isFinite(value)) {
+      return;
+    }
+    range.min = range.min == null ? value : Math.min(range.min, value);
+    range.max = range.max == null ? value : Math.max(range.max, value);
+  });
+};
+
+export const createColumnTypeController = ({
+  state
+}: ColumnTypeControllerDeps): ColumnTypeController => {
+  const apply = async (overrides: Record<string, ColumnTypeOverride>): Promise<void> => {
+    const { batchStore, header, columnTypeOverrides, inferredColumnInference, sourceTimeZones } =
+      state.dataset;
+    if (!batchStore) {
+      throw new Error('No dataset loaded');
+    }
+
+    for (const [column, override] of Object.entries(overrides)) {
+      if (!header.includes(column)) {
+        throw new Error(`Unknown column "${column}".`);
+      }
+      if (override.type === 'datetime') {
+        createDatetimeParser(override);
+      }
+    }
+
+    // Columns whose override is new, changed or dropped; dropped ones return
+    // to the type the parser inferred.
+    const targets = new Map<string, ColumnTypeOverride>();
+    const named = new Set([...Object.keys(columnTypeOverrides), ...Object.keys(overrides)]);
+    for (const column of named) {
+      if (sameOverride(columnTypeOverrides[column], overrides[column])) {
+        continue;
+      }
+      const inferred = inferredColumnInference[column] ?? state.dataset.columnInference[column];
+      targets.set(
+        column,
+        overrides[column] ?? {
+          type: inferred?.type ?? 'string',
+          timestampDecoder: inferred?.timestampDecoder
+        }
+      );
+    }
+
+    const ranges = new Map<string, DatetimeRange>();
+    if (targets.size) {
+      await batchStore.rewriteBatches((batch) => {
+        const columns = { ...batch.columns };
+        for (const [column, target] of targets) {
+          const stored = columns[column];
+          if (!stored) {
+            continue;
+          }
+          const coerced = coerceColumnBatch(stored, target, sourceTimeZones[column]);
+          columns[column] = coerced;
+          if (!ranges.has(column)) {
+            ranges.set(column, {});
+          }
+          extendRange(ranges.get(column)!, coerced);
+        }
+        return { ...batch, columns };
+      });
+    }
+
+    state.updateDataset((dataset) => {
+      for (const [column, target] of targets) {
+        const inferred =
+          dataset.inferredColumnInference[column] ?? dataset.columnInference[column]!;
+        if (overrides[column]) {
+          const range = ranges.get(column);
+          dataset.inferredColumnInference[column] = inferred;
+          dataset.columnInference[column] = {
+            ...inferred,
+            type: target.type,
+            confidence: 1,
+            minDatetime: range?.min,
+            maxDatetime: range?.max,
+            timestampDecoder: target.timestampDecoder
+          };
+        } else {
+          delete dataset.inferredColumnInference[column];
+          dataset.columnInference[column] = inferred;
+        }
+        dataset.columnTypes[column] = target.type;
+        dataset.columnValueDistributionCache.delete(column);
+      }
+      dataset.columnTypeOverrides = { ...overrides };
+    });
+  };
+
+  return { apply };
+};
@@ -0,0 +1,61 @@
+import { compileExpression } from '../expressionEngine';
+import type { DerivedColumn } from '../rowBatchStore';
+import type { DataWorkerStateController } from '../state/dataWorkerState';
+import type { ColumnType, DerivedColumnDefinition } from '../types';
+import type { DerivedColumnStatus } from '../workerApiTypes';
+
+export interface DerivedColumnController {
+  /** Replaces the dataset's derived columns; see `DataWorkerApi.setDerivedColumns`. */
+  apply(definitions: DerivedColumnDefinition[]): DerivedColumnStatus[];
+  /** Recompiles the current definitions, e.g. after a column changed type. */
+  refresh(): DerivedColumnStatus[];
+}
+
+export interface DerivedColumnControllerDeps {
+  state: DataWorkerStateController;
+}
+
+export const createDerivedColumnController = ({
+  state
+}: DerivedColumnControllerDeps): DerivedColumnController => {
+  const apply = (definitions: DerivedColumnDefinition[]): DerivedColumnStatus[] => {
+    const previous = new Set(state.dataset.derivedColumns.map((column) => column.name));
+    const columnTypes: Record<string, ColumnType> = Object.fromEntries(
+      Object.entries(state.dataset.columnTypes).filter(([name]) => !previous.has(name))
+    );
+
+    const installed: DerivedColumn[] = [];
+    const statuses = definitions.map(({ name, expression }): DerivedColumnStatus => {
+      const trimmed = name.trim();
+      try {
+        if (!trimmed) {
+          throw new Error('The column needs a name.');
+        }
+        if (columnTypes[trimmed] != null) {
+          throw new Error(`A column named "${trimmed}" already exists.`);
+        }
+        const compiled = compileExpression(expression, columnTypes);
+        // Later definitions can build on this one.
+        columnTypes[trimmed] = compiled.type;
+        installed.push({ name: trimmed, evaluate: compiled.evaluate });
+        return { name: trimmed, type: compiled.type };
+      } catch (error) {
+        return { name: trimmed, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    state.dataset.batchStore?.setDerivedColumns(installed);
+    state.updateDataset((dataset) => {
+      dataset.columnTypes = columnTypes;
+      dataset.derivedColumns = statuses.filter((status) => status.type != null);
+      dataset.derivedColumnDefinitions = definitions;
+      // Cached value counts of redefined or removed columns are stale.
+      for (const name of [...previous, ...installed.map((column) => column.name)]) {
+        dataset.columnValueDistributionCache.delete(name);
+      }
+    });
+    return statuses;
+  };
+
+  return { apply, refresh: () => apply(state.dataset.derivedColumnDefinitions) };
+};
@@ -2,6 +2,8 @@ import { describe, expect, it, vi } from 'vitest';
 
 import { createIngestionPipeline } from './ingestionPipeline';
 import { createDataWorkerState } from '../state/dataWorkerState';
+import { createDerivedColumnController } from './derivedColumnController';
+import { createColumnTypeController } from './columnTypeController';
 import type { RowBatchStore } from '../rowBatchStore';
 import type { LoadFileRequest } from '../workerApiTypes';
 
@@ -35,7 +37,11 @@ describe('ingestionPipeline', () => {
       };
     });
 
-    const pipeline = createIngestionPipeline({ state });
+    const pipeline = createIngestionPipeline({
+      state,
+      derivedColumnController: createDerivedColumnController({ state }),
+      columnTypeController: createColumnTypeController({ state })
+    });
     await pipeline.clear();
 
     expect(batchStore.clear).toHaveBeenCalledTimes(1);
@@ -46,7 +52,11 @@ describe('ingestionPipeline', () => {
 
   it('throws when no file handle is provided', async () => {
     const state = createDataWorkerState();
-    const pipeline = createIngestionPipeline({ state });
+    const pipeline = createIngestionPipeline({
+      state,
+      derivedColumnController: createDerivedColumnController({ state }),
+      columnTypeController: createColumnTypeController({ state })
+    });
     await expect(
       pipeline.run({} as LoadFileRequest, {} as any)
     ).rejects.toThrow('A file handle must be provided to loadFile.');
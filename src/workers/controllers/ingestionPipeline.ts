@@ -1,17 +1,66 @@
-import { parseDelimitedStream, type ParserOptions } from '../csvParser';
-import { buildDatasetStorageKey, createDatasetFingerprint } from '../datasetFingerprint';
-import { detectCompression } from '../utils/detectCompression';
+import { parseDelimitedStream, type ParserCallbacks, type ParserOptions } from '../csvParser';
+import { parseJsonLinesStream } from '../jsonLinesParser';
+import { parseXlsxWorkbook } from '../xlsxParser';
+import { parseArrowFile } from '../arrowParser';
+import { parseParquetFile } from '../parquetParser';
+import { parseEvtxFile } from '../evtxParser';
+import { parseLogFormatStream } from '../logFormatParser';
+import { parseSqliteDatabase } from '../sqliteParser';
+import {
+  buildDatasetStorageKey,
+  createDatasetFingerprint,
+  type DatasetFingerprint
+} from '../datasetFingerprint';
+import {
+  COMPRESSION_SNIFF_BYTES,
+  detectCompression,
+  type CompressionKind
+} from '../utils/detectCompression';
+import {
+  FORMAT_SNIFF_BYTES,
+  detectSourceFormat,
+  type SourceFormat
+} from '../utils/detectSourceFormat';
+import { decompressStream } from '../utils/decompressStream';
+import {
+  buildCaseFingerprint,
+  collectDirectoryFiles,
+  isIngestibleFileName
+} from '../utils/caseSources';
+import {
+  isReadableZipEntry,
+  openZipEntryStream,
+  readZipEntries,
+  type ZipEntry
+} from '../utils/zipArchive';
+import { createStringColumnBatch } from '../utils/columnBatchBuilders';
+import { mergeColumnInference } from '../typeInference';
 import { RowBatchStore } from '../rowBatchStore';
-import { RowIndexStore } from '../rowIndexStore';
+import { RowIndexStore, type RowIndexRecorder } from '../rowIndexStore';
 import { startPerformanceMeasure } from '../utils/performanceMarks';
 import { logDebug } from '../../utils/debugLog';
 import type { DataWorkerStateController } from '../state/dataWorkerState';
+import type { TaggingStoreSegment } from '../taggingStore';
+import type { ColumnTypeController } from './columnTypeController';
+import type { DerivedColumnController } from './derivedColumnController';
 import type {
+  CaseFile,
   LoadFileCallbacks,
   LoadFileRequest,
-  LoadCompleteSummary
+  LoadCompleteSummary,
+  LoadedSource,
+  PreviewFileRequest,
+  PreviewFileResult
 } from '../workerApiTypes';
-import type { ColumnInference, ColumnType } from '../types';
+import { SOURCE_COLUMN_ID } from '../types';
+import type { ColumnInference, ColumnType, LogFormat, ParseIssue, RowBatch } from '../types';
+import type { SourceEncoding } from '../utils/detectEncoding';
+
+/** Parse issues kept for the report; later ones are only counted. */
+const PARSE_ISSUE_LIMIT = 1_000;
+const PREVIEW_ROW_LIMIT = 20;
+/** Decompressed bytes read for a preview; enough for the first rows of most files. */
+const PREVIEW_BYTE_LIMIT = 256 * 1024;
 
 const now = (): number => (typeof performance !== 'undefined' ? performance.now() : Date.now());
 
@@ -22,17 +71,237 @@ const roundMs = (value: number): number => {
   return Math.round(value * 100) / 100;
 };
 
+const resolveSourceFiles = async ({
+  handle,
+  entry,
+  sheet,
+  table,
+  query,
+  files,
+  directory
+}: LoadFileRequest): Promise<CaseFile[]> => {
+  if (files?.length) {
+    return files;
+  }
+
+  if (directory) {
+    const collected = await collectDirectoryFiles(directory);
+    if (!collected.length) {
+      throw new Error(`No CSV or JSON Lines files found in "${directory.name}".`);
+    }
+    return collected;
+  }
+
+  return handle ? [{ handle, entry, sheet, table, query }] : [];
+};
+
+/** Finds the requested entry, or the archive's only loadable one. */
+const resolveZipEntry = async (file: File, path: string | undefined): Promise<ZipEntry> => {
+  const entries = await readZipEntries(file);
+  if (path != null) {
+    const entry = entries.find((candidate) => candidate.path === path);
+    if (!entry) {
+      throw new Error(`"${path}" was not found in "${file.name}".`);
+    }
+    return entry;
+  }
+
+  const candidates = entries.filter(
+    (entry) => isReadableZipEntry(entry) && isIngestibleFileName(entry.path)
+  );
+  if (candidates.length !== 1) {
+    throw new Error(
+      candidates.length
+        ? `"${file.name}" holds several files; choose which entries to load.`
+        : `No CSV or JSON Lines files found in "${file.name}".`
+    );
+  }
+  return candidates[0]!;
+};
+
+interface IngestSource {
+  handle: FileSystemFileHandle;
+  file: File;
+  /** Name used for format and compression detection; the entry path inside a zip. */
+  fileName: string;
+  compression: CompressionKind;
+  zipEntry: ZipEntry | null;
+  /** Worksheet to read when the file is an Excel workbook. */
+  sheet?: string;
+  /** Table to read when the file is a SQLite database. */
+  table?: string;
+  /** Query to run instead of reading `table`. */
+  query?: string;
+  /** Leading bytes of an uncompressed file, used to recognise binary formats. */
+  header?: Uint8Array;
+  /** Value written to `__source` for multi-file loads. */
+  name: string;
+  fingerprint: DatasetFingerprint;
+}
+
+const describeSource = async (source: CaseFile): Promise<IngestSource> => {
+  const file = await source.handle.getFile();
+  const fileName = file.name ?? source.handle.name;
+  const header = new Uint8Array(
+    await file.slice(0, Math.max(COMPRESSION_SNIFF_BYTES, FORMAT_SNIFF_BYTES)).arrayBuffer()
+  );
+  const compression = detectCompression({ fileName, mimeType: file.type, header });
+  // A workbook is a zip package too, but its parser reads the parts itself.
+  if (compression === 'zip' && detectSourceFormat({ fileName, mimeType: file.type }) === 'xlsx') {
+    // Sheets are keyed by workbook and name so each keeps its own tags.
+    const sheetName = source.sheet != null ? `${fileName}/${source.sheet}` : fileName;
+    return {
+      handle: source.handle,
+      file,
+      fileName,
+      compression: null,
+      zipEntry: null,
+      sheet: source.sheet,
+      name: source.name ?? sheetName,
+      fingerprint: { ...createDatasetFingerprint(file, source.handle), fileName: sheetName }
+    };
+  }
+  if (compression !== 'zip') {
+    const fingerprint = createDatasetFingerprint(file, source.handle);
+    // Database tables are keyed like sheets.
+    const tableName = source.table != null ? `${fileName}/${source.table}` : null;
+    return {
+      handle: source.handle,
+      file,
+      fileName,
+      compression,
+      zipEntry: null,
+      table: source.table,
+      query: source.query,
+      header: compression ? undefined : header,
+      name: source.name ?? tableName ?? fileName,
+      fingerprint: tableName ? { ...fingerprint, fileName: tableName } : fingerprint
+    };
+  }
+
+  // Entries are keyed by archive and path so each keeps its own tags.
+  const zipEntry = await resolveZipEntry(file, source.entry);
+  const entryName = `${fileName}/${zipEntry.path}`;
+  return {
+    handle: source.handle,
+    file,
+    fileName: zipEntry.path,
+    compression: detectCompression({ fileName: zipEntry.path }),
+    zipEntry,
+    name: source.name ?? entryName,
+    fingerprint: {
+      fileName: entryName,
+      fileSize: zipEntry.size,
+      lastModified: zipEntry.lastModified
+    }
+  };
+};
+
+const detectIngestSourceFormat = ({
+  file,
+  fileName,
+  zipEntry,
+  header
+}: IngestSource): SourceFormat =>
+  detectSourceFormat({ fileName, mimeType: zipEntry ? undefined : file.type, header });
+
+/** Streams the decompressed bytes of a file or zip entry. */
+const openSourceStream = async ({
+  file,
+  fileName,
+  compression,
+  zipEntry
+}: IngestSource): Promise<ReadableStream<Uint8Array>> => {
+  const stream = zipEntry ? await openZipEntryStream(file, zipEntry) : file.stream();
+  if (!compression) {
+    return stream;
+  }
+  if (compression === 'zip') {
+    throw new Error(`"${fileName}" is a zip archive inside an archive; extract it first.`);
+  }
+  return decompressStream(stream, compression);
+};
+
+/** Binary formats whose readers take a Blob instead of a byte stream. */
+const RANDOM_ACCESS_PARSERS = {
+  arrow: parseArrowFile,
+  parquet: parseParquetFile,
+  evtx: parseEvtxFile,
+  sqlite: parseSqliteDatabase
+};
+
+const isRandomAccessFormat = (
+  format: SourceFormat
+): format is keyof typeof RANDOM_ACCESS_PARSERS => format in RANDOM_ACCESS_PARSERS;
+
+const requireLogFormat = (logFormat: LogFormat | undefined): LogFormat => {
+  if (!logFormat) {
+    throw new Error('Choose a log format to read the file as a log.');
+  }
+  return logFormat;
+};
+
+/**
+ * Arrow and Parquet readers seek to the footer, EVTX is read chunk by chunk
+ * and SQLite page by page, so a compressed file or zip entry is decompressed
+ * into memory first.
+ */
+const openRandomAccessSource = async (source: IngestSource): Promise<Blob> =>
+  source.compression || source.zipEntry
+    ? new Response(await openSourceStream(source)).blob()
+    : source.file;
+
+/**
+ * Moves a batch parsed from one file of a multi-file load into the merged row
+ * space and prepends the `__source` column naming that file.
+ */
+const rebaseCaseBatch = (
+  batch: RowBatch,
+  { name, rowOffset, byteOffset }: { name: string; rowOffset: number; byteOffset: number }
+): RowBatch => {
+  const rowCount = batch.rowIds.length;
+  const sourceInference: ColumnInference = {
+    type: 'string',
+    confidence: 1,
+    samples: batch.stats.rowsParsed,
+    nullCount: 0,
+    examples: [name]
+  };
+
+  return {
+    rowIds: batch.rowIds.map((rowId) => rowId + rowOffset),
+    columns: {
+      [SOURCE_COLUMN_ID]: createStringColumnBatch(new Array<string>(rowCount).fill(name)),
+      ...batch.columns
+    },
+    columnTypes: { [SOURCE_COLUMN_ID]: 'string', ...batch.columnTypes },
+    columnInference: { [SOURCE_COLUMN_ID]: sourceInference, ...batch.columnInference },
+    stats: {
+      rowsParsed: rowOffset + batch.stats.rowsParsed,
+      bytesParsed: byteOffset + batch.stats.bytesParsed,
+      eof: batch.stats.eof
+    }
+  };
+};
+
 export interface IngestionPipeline {
   init(): Promise<void>;
   clear(): Promise<void>;
   run(request: LoadFileRequest, callbacks: LoadFileCallbacks): Promise<void>;
+  preview(request: PreviewFileRequest): Promise<PreviewFileResult>;
 }
 
 interface IngestionDeps {
   state: DataWorkerStateController;
+  derivedColumnController: DerivedColumnController;
+  columnTypeController: ColumnTypeController;
 }
 
-export const createIngestionPipeline = ({ state }: IngestionDeps): IngestionPipeline => {
+export const createIngestionPipeline = ({
+  state,
+  derivedColumnController,
+  columnTypeController
+}: IngestionDeps): IngestionPipeline => {
   const init = async (): Promise<void> => {
     // No-op for now
   };
@@ -50,12 +319,31 @@ export const createIngestionPipeline = ({ state }: IngestionDeps): IngestionPipe
   };
 
   const run = async (
-    { handle, delimiter, batchSize, encoding, checkpointInterval }: LoadFileRequest,
+    request: LoadFileRequest,
     callbacks: LoadFileCallbacks
   ): Promise<void> => {
+    const {
+      format,
+      logFormat,
+      delimiter,
+      quoteChar,
+      escapeChar,
+      commentPrefix,
+      skipLines,
+      hasHeader,
+      batchSize,
+      encoding,
+      checkpointInterval,
+      sourceTimeZones,
+      columnTypeOverrides,
+      derivedColumns
+    } = request;
+    const sourceFiles = await resolveSourceFiles(request);
+    const handle = sourceFiles[0]?.handle;
     if (!handle) {
       throw new Error('A file handle must be provided to loadFile.');
     }
+    const isCase = sourceFiles.length > 1;
 
     await state.persistTaggingNow();
     state.resetTagging();
@@ -86,15 +374,21 @@ export const createIngestionPipeline = ({ state }: IngestionDeps): IngestionPipe
     }
 
     const fileStart = now();
-    const file = await handle.getFile();
-    const fingerprint = createDatasetFingerprint(file, handle);
+    const sources = await Promise.all(sourceFiles.map(describeSource));
     debugLog('handle.getFile resolved', {
       durationMs: roundMs(now() - fileStart),
-      name: file.name ?? handle.name ?? 'unknown',
-      size: file.size,
-      type: file.type
+      files: sources.map(({ file, fileName, compression, zipEntry }) => ({
+        name: fileName ?? 'unknown',
+        size: zipEntry?.size ?? file.size,
+        type: file.type,
+        compression: compression ?? 'none',
+        archive: zipEntry ? file.name : undefined
+      }))
     });
 
+    const fingerprint = isCase
+      ? buildCaseFingerprint(sources.map((source) => source.fingerprint))
+      : sources[0]!.fingerprint;
     datasetKey = buildDatasetStorageKey(fingerprint);
     const batchStoreStart = now();
     const batchStore = await RowBatchStore.create(datasetKey);
@@ -105,41 +399,27 @@ export const createIngestionPipeline = ({ state }: IngestionDeps): IngestionPipe
       datasetKey,
       fileHandle: handle
     });
-
-    await state.hydrateTaggingStore(fingerprint);
-
-    const compression = detectCompression({
-      fileName: file.name ?? handle.name,
-      mimeType: file.type
+    state.updateDataset((dataset) => {
+      dataset.sourceTimeZones = sourceTimeZones ?? {};
     });
-    debugLog('Compression detected', { compression: compression ?? 'none' });
-
-    let stream: ReadableStream<Uint8Array> = file.stream();
 
-    if (compression === 'gzip') {
-      if (typeof DecompressionStream === 'undefined') {
-        throw new Error('This browser does not support gzip decompression.');
-      }
-
-      try {
-        stream = stream.pipeThrough(new DecompressionStream('gzip') as any);
-        debugLog('Applied gzip DecompressionStream');
-      } catch (error) {
-        throw new Error(
-          error instanceof Error
-            ? `Failed to decompress gzip stream: ${error.message}`
-            : 'Failed to decompress gzip stream'
-        );
-      }
+    // Multi-file tags are keyed per file, which needs each file's row range.
+    if (!isCase) {
+      await state.hydrateTaggingStore(fingerprint);
     }
 
-    const reader = stream.getReader();
     const targetCheckpointInterval = checkpointInterval ?? 50_000;
     const parserOptions: ParserOptions = {
       delimiter,
+      quoteChar,
+      escapeChar,
+      commentPrefix,
+      skipLines,
+      hasHeader,
       batchSize,
       encoding,
-      checkpointInterval: targetCheckpointInterval
+      checkpointInterval: targetCheckpointInterval,
+      sourceTimeZones
     };
 
     const startTime = now();
@@ -164,117 +444,223 @@ export const createIngestionPipeline = ({ state }: IngestionDeps): IngestionPipe
     let totalReadMs = 0;
     let longestReadMs = 0;
 
-    const indexStoreStart = now();
-    const indexStore = await RowIndexStore.create(handle, {
-      checkpointInterval: targetCheckpointInterval
-    });
-    debugLog('RowIndexStore.create completed', { durationMs: roundMs(now() - indexStoreStart) });
+    // Columns in first-seen order across every file; `__source` leads for cases.
+    const header: string[] = isCase ? [SOURCE_COLUMN_ID] : [];
+    const headerColumns = new Set(header);
+    // Inference folded over the files already parsed, and their row count.
+    let caseInference: Record<string, ColumnInference> = {};
+    const loadedSources: LoadedSource[] = [];
+    const sourceEncodings: SourceEncoding[] = [];
+    const parseIssues: ParseIssue[] = [];
+    let parseIssueCount = 0;
+    let indexStore: RowIndexRecorder | null = null;
+
+    const ingestSource = async (loadSource: (typeof sources)[number]) => {
+      const { handle: sourceHandle, name } = loadSource;
+      const rowOffset = finalRows;
+      const byteOffset = finalBytes;
+      const sourceFormat = format ?? (logFormat ? 'log' : detectIngestSourceFormat(loadSource));
+      debugLog('Source format resolved', {
+        source: name,
+        format: sourceFormat,
+        explicit: Boolean(format)
+      });
 
-    const source: AsyncIterable<Uint8Array> = {
-      async *[Symbol.asyncIterator]() {
-        try {
-          while (true) {
-            const readStart = now();
-            const { value, done } = await reader.read();
-            const readDuration = now() - readStart;
+      debugLog('Compression detected', {
+        compression: loadSource.compression ?? 'none',
+        zipEntry: loadSource.zipEntry?.path
+      });
 
-            if (done) {
-              return;
-            }
+      // Checkpoints stay file-local so each file's index can seek on its own.
+      const indexStoreStart = now();
+      indexStore = await RowIndexStore.create(sourceHandle, {
+        checkpointInterval: targetCheckpointInterval
+      });
+      const sourceIndexStore = indexStore;
+      debugLog('RowIndexStore.create completed', {
+        durationMs: roundMs(now() - indexStoreStart)
+      });
 
-            if (value) {
-              chunkCount += 1;
-              totalReadMs += readDuration;
-              if (readDuration > longestReadMs) {
-                longestReadMs = readDuration;
+      // Opened on first read: workbooks are read part by part instead.
+      const source: AsyncIterable<Uint8Array> = {
+        async *[Symbol.asyncIterator]() {
+          const reader = (await openSourceStream(loadSource)).getReader();
+          try {
+            while (true) {
+              const readStart = now();
+              const { value, done } = await reader.read();
+              const readDuration = now() - readStart;
+
+              if (done) {
+                return;
               }
 
-              if (debugEnabled && readDuration >= slowBatchThreshold) {
-                debugLog('Slow chunk read', {
-                  chunkIndex: chunkCount,
-                  readDurationMs: roundMs(readDuration)
-                });
-              }
+              if (value) {
+                chunkCount += 1;
+                totalReadMs += readDuration;
+                if (readDuration > longestReadMs) {
+                  longestReadMs = readDuration;
+                }
 
-              yield value;
+                if (debugEnabled && readDuration >= slowBatchThreshold) {
+                  debugLog('Slow chunk read', {
+                    chunkIndex: chunkCount,
+                    readDurationMs: roundMs(readDuration)
+                  });
+                }
+
+                yield value;
+              }
             }
+          } finally {
+            reader.releaseLock();
           }
-        } finally {
-          reader.releaseLock();
         }
-      }
-    };
+      };
 
-    try {
-      debugLog('Starting parseDelimitedStream', {
+      const parseStream = async (parserCallbacks: ParserCallbacks): Promise<void> => {
+        if (sourceFormat === 'xlsx') {
+          return parseXlsxWorkbook(loadSource.file, parserCallbacks, {
+            ...parserOptions,
+            sheet: loadSource.sheet
+          });
+        }
+        if (isRandomAccessFormat(sourceFormat)) {
+          const file = await openRandomAccessSource(loadSource);
+          return RANDOM_ACCESS_PARSERS[sourceFormat](file, parserCallbacks, {
+            ...parserOptions,
+            table: loadSource.table,
+            query: loadSource.query
+          });
+        }
+        if (sourceFormat === 'log') {
+          return parseLogFormatStream(source, parserCallbacks, {
+            ...parserOptions,
+            logFormat: requireLogFormat(logFormat)
+          });
+        }
+        return sourceFormat === 'jsonl'
+          ? parseJsonLinesStream(source, parserCallbacks, parserOptions)
+          : parseDelimitedStream(source, parserCallbacks, parserOptions);
+      };
+
+      debugLog('Starting parser', {
+        source: name,
+        format: sourceFormat,
+        logFormat: logFormat?.name,
         delimiter: delimiter ?? 'auto',
         batchSize: batchSize ?? 'default',
-        encoding: encoding ?? 'utf-8',
+        encoding: encoding ?? 'auto',
         checkpointInterval: targetCheckpointInterval
       });
       const parseStartTime = now();
       const parseMeasure = startPerformanceMeasure('csv-parse');
+      let sourceRows = 0;
+      let sourceBytes = 0;
+      let sourceEncoding: SourceEncoding = encoding ?? 'utf-8';
 
       try {
-        await parseDelimitedStream(
-          source,
-          {
-            onHeader: async (header) => {
-              state.updateDataset((dataset) => {
-                dataset.header = header;
+        await parseStream({
+          onEncoding: (resolved) => {
+            sourceEncoding = resolved;
+            debugLog('Source encoding resolved', {
+              source: name,
+              encoding: resolved,
+              explicit: Boolean(encoding)
+            });
+          },
+          onParseIssue: (issue) => {
+            parseIssueCount += 1;
+            if (parseIssues.length < PARSE_ISSUE_LIMIT) {
+              parseIssues.push(
+                isCase ? { ...issue, rowIndex: rowOffset + issue.rowIndex, source: name } : issue
+              );
+            }
+          },
+          onHeader: async (sourceHeader) => {
+            const added = sourceHeader.filter((column) => !headerColumns.has(column));
+            if (!added.length) {
+              return;
+            }
+            for (const column of added) {
+              headerColumns.add(column);
+              header.push(column);
+            }
+
+            state.updateDataset((dataset) => {
+              dataset.header = header.slice();
+            });
+            if (callbacks.onStart) {
+              const callbackStart = now();
+              await callbacks.onStart({ columns: header.slice() });
+              const duration = now() - callbackStart;
+              debugLog('onStart callback completed', {
+                durationMs: roundMs(duration),
+                columnCount: header.length
               });
-              if (callbacks.onStart) {
-                const callbackStart = now();
-                await callbacks.onStart({ columns: header });
-                const duration = now() - callbackStart;
-                debugLog('onStart callback completed', {
-                  durationMs: roundMs(duration),
-                  columnCount: header.length
-                });
-              } else {
-                debugLog('No onStart callback provided', { columnCount: header.length });
-              }
-            },
-            onBatch: async (batch) => {
-              finalRows = batch.stats.rowsParsed;
-              finalBytes = batch.stats.bytesParsed;
-              storedBatches += 1;
-
-              const rowsInBatch = Math.max(0, finalRows - previousRowsParsed);
-              const bytesInBatch = Math.max(0, finalBytes - previousBytesParsed);
-              previousRowsParsed = finalRows;
-              previousBytesParsed = finalBytes;
-
-              const storeStart = now();
-              await batchStore.storeBatch(batch);
-              const storeDuration = now() - storeStart;
-              totalStoreDurationMs += storeDuration;
-              if (storeDuration > longestStoreDurationMs) {
-                longestStoreDurationMs = storeDuration;
-              }
+            } else {
+              debugLog('No onStart callback provided', { columnCount: header.length });
+            }
+          },
+          onBatch: async (parsedBatch) => {
+            sourceRows = parsedBatch.stats.rowsParsed;
+            sourceBytes = parsedBatch.stats.bytesParsed;
+            const batch = isCase
+              ? rebaseCaseBatch(parsedBatch, { name, rowOffset, byteOffset })
+              : parsedBatch;
+            finalRows = batch.stats.rowsParsed;
+            finalBytes = batch.stats.bytesParsed;
+            storedBatches += 1;
+
+            const rowsInBatch = Math.max(0, finalRows - previousRowsParsed);
+            const bytesInBatch = Math.max(0, finalBytes - previousBytesParsed);
+            previousRowsParsed = finalRows;
+            previousBytesParsed = finalBytes;
+
+            const storeStart = now();
+            await batchStore.storeBatch(batch);
+            const storeDuration = now() - storeStart;
+            totalStoreDurationMs += storeDuration;
+            if (storeDuration > longestStoreDurationMs) {
+              longestStoreDurationMs = storeDuration;
+            }
 
-              const shouldLogBatch =
-                storeDuration >= slowBatchThreshold ||
-                storedBatches <= 5 ||
-                storedBatches % 50 === 0;
+            const shouldLogBatch =
+              storeDuration >= slowBatchThreshold ||
+              storedBatches <= 5 ||
+              storedBatches % 50 === 0;
 
-              if (storeDuration >= slowBatchThreshold) {
-                slowStoreBatchCount += 1;
-              }
+            if (storeDuration >= slowBatchThreshold) {
+              slowStoreBatchCount += 1;
+            }
 
-              if (shouldLogBatch) {
-                debugLog('Stored batch', {
-                  batchesStored: storedBatches,
-                  rowsInBatch,
-                  cumulativeRowsParsed: finalRows,
-                  cumulativeBytesParsed: finalBytes,
-                  storeDurationMs: roundMs(storeDuration),
-                  slowStore: storeDuration >= slowBatchThreshold,
-                  bytesInBatch
-                });
-              }
+            if (shouldLogBatch) {
+              debugLog('Stored batch', {
+                batchesStored: storedBatches,
+                rowsInBatch,
+                cumulativeRowsParsed: finalRows,
+                cumulativeBytesParsed: finalBytes,
+                storeDurationMs: roundMs(storeDuration),
+                slowStore: storeDuration >= slowBatchThreshold,
+                bytesInBatch
+              });
+            }
 
-              state.updateDataset((dataset) => {
+            state.updateDataset((dataset) => {
+              if (isCase) {
+                dataset.columnInference = mergeColumnInference(
+                  caseInference,
+                  rowOffset,
+                  batch.columnInference,
+                  sourceRows
+                );
+                dataset.columnTypes = Object.fromEntries(
+                  Object.entries(dataset.columnInference).map(([column, inference]) => [
+                    column,
+                    inference.type
+                  ])
+                );
+              } else {
                 dataset.columnTypes = {
                   ...dataset.columnTypes,
                   ...batch.columnTypes
@@ -283,79 +669,146 @@ export const createIngestionPipeline = ({ state }: IngestionDeps): IngestionPipe
                   ...dataset.columnInference,
                   ...batch.columnInference
                 } as Record<string, ColumnInference>;
-                dataset.totalRows = finalRows;
-                dataset.bytesParsed = finalBytes;
-              });
-
-              if (callbacks.onProgress) {
-                const payload = {
-                  rowsParsed: finalRows,
-                  bytesParsed: finalBytes,
-                  batchesStored: storedBatches
-                };
-                const progressStart = now();
-                await callbacks.onProgress(payload);
-                const progressDuration = now() - progressStart;
-                totalProgressCallbackMs += progressDuration;
-                if (progressDuration > longestProgressCallbackMs) {
-                  longestProgressCallbackMs = progressDuration;
-                }
-
-                if (progressDuration >= slowBatchThreshold) {
-                  debugLog('Slow onProgress callback detected', {
-                    durationMs: roundMs(progressDuration),
-                    batchesStored: storedBatches
-                  });
-                }
               }
-            },
-            onCheckpoint: async ({ rowIndex, byteOffset }) => {
-              const checkpointStart = now();
-              indexStore.record({ rowIndex, byteOffset });
-              const checkpointDuration = now() - checkpointStart;
-              checkpointCount += 1;
-              totalCheckpointMs += checkpointDuration;
-
-              if (checkpointDuration > longestCheckpointMs) {
-                longestCheckpointMs = checkpointDuration;
+              dataset.totalRows = finalRows;
+              dataset.bytesParsed = finalBytes;
+            });
+
+            if (callbacks.onProgress) {
+              const payload = {
+                rowsParsed: finalRows,
+                bytesParsed: finalBytes,
+                batchesStored: storedBatches
+              };
+              const progressStart = now();
+              await callbacks.onProgress(payload);
+              const progressDuration = now() - progressStart;
+              totalProgressCallbackMs += progressDuration;
+              if (progressDuration > longestProgressCallbackMs) {
+                longestProgressCallbackMs = progressDuration;
               }
 
-              if (checkpointDuration >= slowBatchThreshold) {
-                debugLog('Slow checkpoint record detected', {
-                  rowIndex,
-                  byteOffset,
-                  checkpointDurationMs: roundMs(checkpointDuration)
+              if (progressDuration >= slowBatchThreshold) {
+                debugLog('Slow onProgress callback detected', {
+                  durationMs: roundMs(progressDuration),
+                  batchesStored: storedBatches
                 });
               }
             }
           },
-          parserOptions
-        );
+          onCheckpoint: async ({ rowIndex, byteOffset: checkpointOffset }) => {
+            const checkpointStart = now();
+            sourceIndexStore.record({ rowIndex, byteOffset: checkpointOffset });
+            const checkpointDuration = now() - checkpointStart;
+            checkpointCount += 1;
+            totalCheckpointMs += checkpointDuration;
+
+            if (checkpointDuration > longestCheckpointMs) {
+              longestCheckpointMs = checkpointDuration;
+            }
+
+            if (checkpointDuration >= slowBatchThreshold) {
+              debugLog('Slow checkpoint record detected', {
+                rowIndex,
+                byteOffset: checkpointOffset,
+                checkpointDurationMs: roundMs(checkpointDuration)
+              });
+            }
+          }
+        });
       } finally {
         parseMeasure?.();
       }
 
-      debugLog('parseDelimitedStream completed', {
+      debugLog('Parser completed', {
+        source: name,
+        format: sourceFormat,
         durationMs: roundMs(now() - parseStartTime),
         storedBatches,
-        rowsParsed: finalRows,
-        bytesParsed: finalBytes
+        rowsParsed: sourceRows,
+        bytesParsed: sourceBytes,
+        parseIssueCount
+      });
+
+      sourceEncodings.push(sourceEncoding);
+      if (isCase) {
+        caseInference = state.dataset.columnInference;
+        loadedSources.push({
+          name,
+          rowStart: rowOffset,
+          rowCount: sourceRows,
+          bytesParsed: sourceBytes,
+          encoding: sourceEncoding
+        });
+      }
+
+      const finalizeStart = now();
+      await sourceIndexStore.finalize({ rowCount: sourceRows, bytesParsed: sourceBytes });
+      indexStore = null;
+      debugLog('RowIndexStore.finalize completed', {
+        durationMs: roundMs(now() - finalizeStart),
+        rowCount: sourceRows,
+        bytesParsed: sourceBytes
       });
+    };
+
+    try {
+      for (const source of sources) {
+        await ingestSource(source);
+      }
 
       state.updateDataset((dataset) => {
         dataset.totalRows = finalRows;
         dataset.bytesParsed = finalBytes;
+        dataset.sources = loadedSources;
+        dataset.parseIssues = parseIssues;
+        dataset.parseIssueCount = parseIssueCount;
       });
 
+      if (isCase) {
+        const segments: TaggingStoreSegment[] = loadedSources.map((loaded, index) => ({
+          fingerprint: sources[index]!.fingerprint,
+          rowStart: loaded.rowStart,
+          rowCount: loaded.rowCount
+        }));
+        await state.hydrateTaggingStore(segments);
+      }
+
+      // Overrides saved for columns this file no longer has are left out.
+      const savedOverrides = columnTypeOverrides?.[datasetKey] ?? {};
+      const header = state.dataset.header;
+      const overrides = Object.fromEntries(
+        Object.entries(savedOverrides).filter(([column]) => header.includes(column))
+      );
+      if (Object.keys(overrides).length) {
+        await columnTypeController.apply(overrides);
+      }
+
+      // Installed before onComplete so filters restored on completion can use them.
+      const derivedColumnStatuses = derivedColumns?.length
+        ? derivedColumnController.apply(derivedColumns)
+        : undefined;
+
       if (callbacks.onComplete) {
         const endTime = now();
         const summary: LoadCompleteSummary = {
+          datasetKey,
           rowsParsed: finalRows,
           bytesParsed: finalBytes,
           durationMs: endTime - startTime,
           columnTypes: state.dataset.columnTypes,
-          columnInference: state.dataset.columnInference
+          columnInference: state.dataset.columnInference,
+          parseIssueCount
         };
+        if (derivedColumnStatuses) {
+          summary.derivedColumns = derivedColumnStatuses;
+        }
+        if (sourceEncodings.every((candidate) => candidate === sourceEncodings[0])) {
+          summary.encoding = sourceEncodings[0];
+        }
+        if (isCase) {
+          summary.sources = loadedSources;
+        }
         const completeStart = now();
         await callbacks.onComplete(summary);
         const completeDuration = now() - completeStart;
@@ -371,16 +824,9 @@ export const createIngestionPipeline = ({ state }: IngestionDeps): IngestionPipe
         }
       }
 
-      const finalizeStart = now();
-      await indexStore.finalize({ rowCount: finalRows, bytesParsed: finalBytes });
-      debugLog('RowIndexStore.finalize completed', {
-        durationMs: roundMs(now() - finalizeStart),
-        rowCount: finalRows,
-        bytesParsed: finalBytes
-      });
-
       debugLog('Load complete summary', {
         totalDurationMs: roundMs(now() - startTime),
+        sourceCount: sources.length,
         rowsParsed: finalRows,
         bytesParsed: finalBytes,
         storedBatches,
@@ -404,7 +850,7 @@ export const createIngestionPipeline = ({ state }: IngestionDeps): IngestionPipe
       debugLog('loadFile encountered error', {
         message: error instanceof Error ? error.message : String(error)
       });
-      await indexStore.abort();
+      await (indexStore as RowIndexRecorder | null)?.abort();
       if (callbacks.onError) {
         const normalised =
           error instanceof Error
@@ -419,9 +865,103 @@ export const createIngestionPipeline = ({ state }: IngestionDeps): IngestionPipe
     }
   };
 
+  const preview = async ({
+    handle,
+    entry,
+    sheet,
+    table,
+    query,
+    format,
+    logFormat,
+    rowLimit = PREVIEW_ROW_LIMIT,
+    ...options
+  }: PreviewFileRequest): Promise<PreviewFileResult> => {
+    const source = await describeSource({ handle, entry, sheet, table, query });
+    const sourceFormat = format ?? (logFormat ? 'log' : detectIngestSourceFormat(source));
+    let truncated = false;
+    const head: AsyncIterable<Uint8Array> = {
+      async *[Symbol.asyncIterator]() {
+        const reader = (await openSourceStream(source)).getReader();
+        let remaining = PREVIEW_BYTE_LIMIT;
+        try {
+          while (true) {
+            const { value, done } = await reader.read();
+            if (done) {
+              return;
+            }
+            if (value.byteLength >= remaining) {
+              truncated = true;
+              yield value.subarray(0, remaining);
+              return;
+            }
+            remaining -= value.byteLength;
+            yield value;
+          }
+        } finally {
+          await reader.cancel();
+        }
+      }
+    };
+
+    let columns: string[] = [];
+    let encoding: SourceEncoding = options.encoding ?? 'utf-8';
+    const rows: string[][] = [];
+    const previewCallbacks: ParserCallbacks = {
+      onEncoding: (resolved) => {
+        encoding = resolved;
+      },
+      onHeader: (header) => {
+        columns = header;
+      },
+      onRow: (cells) => {
+        rows.push(cells);
+      },
+      onBatch: () => {}
+    };
+    const parserOptions: ParserOptions = { ...options, checkpointInterval: 0 };
+    if (sourceFormat === 'xlsx') {
+      await parseXlsxWorkbook(source.file, previewCallbacks, {
+        ...parserOptions,
+        sheet: source.sheet,
+        rowLimit
+      });
+    } else if (isRandomAccessFormat(sourceFormat)) {
+      const parseFile = RANDOM_ACCESS_PARSERS[sourceFormat];
+      await parseFile(await openRandomAccessSource(source), previewCallbacks, {
+        ...parserOptions,
+        table: source.table,
+        query: source.query,
+        rowLimit
+      });
+    } else if (sourceFormat === 'log') {
+      await parseLogFormatStream(head, previewCallbacks, {
+        ...parserOptions,
+        logFormat: requireLogFormat(logFormat)
+      });
+    } else if (sourceFormat === 'jsonl') {
+      await parseJsonLinesStream(head, previewCallbacks, parserOptions);
+    } else {
+      await parseDelimitedStream(head, previewCallbacks, parserOptions);
+    }
+
+    // The last row may have been cut off by the byte limit.
+    if (truncated) {
+      rows.pop();
+    }
+    return {
+      format: sourceFormat,
+      encoding,
+      columns,
+      rows: rows
+        .slice(0, rowLimit)
+        .map((cells) => columns.map((_, index) => cells[index] ?? ''))
+    };
+  };
+
   return {
     init,
     clear,
-    run
+    run,
+    preview
   };
 };
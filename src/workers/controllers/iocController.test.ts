@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import { createIocController } from './iocController';
+import { createDataWorkerState } from '../state/dataWorkerState';
+import type { RowBatchStore } from '../rowBatchStore';
+import type { MaterializedRow } from '../utils/materializeRowBatch';
+
+const createBatchStore = (batches: MaterializedRow[][]): RowBatchStore =>
+  ({
+    async *iterateMaterializedBatches() {
+      let rowStart = 0;
+      for (const [index, rows] of batches.entries()) {
+        yield { index, rowStart, rows };
+        rowStart += rows.length;
+      }
+    }
+  }) as unknown as RowBatchStore;
+
+const createState = () => {
+  const state = createDataWorkerState();
+  state.updateDataset((dataset) => {
+    dataset.totalRows = 4;
+    dataset.columnTypes = { src: 'string', dst: 'string', time: 'datetime', port: 'number' };
+    dataset.batchStore = createBatchStore([
+      [
+        { __rowId: 0, src: '10.0.0.1', dst: 'Evil.example', time: 3000, port: 443 },
+        { __rowId: 1, src: 'evil.example', dst: 'evil.example', time: 1000, port: 80 }
+      ],
+      [
+        { __rowId: 2, src: '10.0.0.2', dst: 'good.example', time: 2000, port: 443 },
+        { __rowId: 3, src: '203.0.113.7', dst: null, time: null, port: 22 }
+      ]
+    ]);
+  });
+  return state;
+};
+
+describe('iocController', () => {
+  it('reports hits per indicator across all string columns', async () => {
+    const controller = createIocController({ state: createState() });
+
+    const result = await controller.match({
+      indicators: ['evil.example', '203.0.113.7', 'missing.example'],
+      timeColumn: 'time'
+    });
+
+    expect(result).toEqual({
+      totalRows: 4,
+      scannedColumns: ['src', 'dst'],
+      matchedRows: 3,
+      hits: [
+        {
+          indicator: 'evil.example',
+          matchedRows: 2,
+          columns: ['src', 'dst'],
+          firstSeen: 1000,
+          lastSeen: 3000
+        },
+        {
+          indicator: '203.0.113.7',
+          matchedRows: 1,
+          columns: ['src'],
+          firstSeen: null,
+          lastSeen: null
+        }
+      ]
+    });
+  });
+
+  it('limits the scan to the requested columns and honours case sensitivity', async () => {
+    const controller = createIocController({ state: createState() });
+
+    const result = await controller.match({
+      indicators: ['Evil.example', '443'],
+      columns: ['dst', 'unknown'],
+      caseSensitive: true
+    });
+
+    expect(result.scannedColumns).toEqual(['dst']);
+    expect(result.matchedRows).toBe(1);
+    expect(result.hits).toEqual([
+      {
+        indicator: 'Evil.example',
+        matchedRows: 1,
+        columns: ['dst'],
+        firstSeen: null,
+        lastSeen: null
+      }
+    ]);
+  });
+
+  it('returns an empty report when no dataset is loaded', async () => {
+    const controller = createIocController({ state: createDataWorkerState() });
+
+    await expect(controller.match({ indicators: ['x'] })).resolves.toEqual({
+      totalRows: 0,
+      scannedColumns: [],
+      matchedRows: 0,
+      hits: []
+    });
+  });
+});
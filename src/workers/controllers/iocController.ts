@@ -0,0 +1,123 @@
+import { startPerformanceMeasure } from '../utils/performanceMarks';
+import { normalizeString } from '../utils/stringUtils';
+import type { DataWorkerStateController } from '../state/dataWorkerState';
+import type { IocHit, MatchIocsRequest, MatchIocsResult } from '../workerApiTypes';
+
+export interface IocController {
+  match(request: MatchIocsRequest): Promise<MatchIocsResult>;
+}
+
+export interface IocControllerDeps {
+  state: DataWorkerStateController;
+}
+
+const toTimestamp = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Date.parse(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+export const createIocController = ({ state }: IocControllerDeps): IocController => {
+  const match = async ({
+    indicators,
+    columns,
+    timeColumn,
+    caseSensitive = false
+  }: MatchIocsRequest): Promise<MatchIocsResult> => {
+    const columnTypes = state.dataset.columnTypes;
+    const scannedColumns = columns?.length
+      ? columns.filter((column) => column in columnTypes)
+      : Object.keys(columnTypes).filter((column) => columnTypes[column] === 'string');
+
+    // Cells are compared whole, normalised the same way as the `in` filter
+    // operator, so the hit report and a follow-up filter agree.
+    const lookup = new Map<string, string>();
+    for (const indicator of indicators) {
+      const key = normalizeString(indicator, caseSensitive);
+      if (key && !lookup.has(key)) {
+        lookup.set(key, indicator);
+      }
+    }
+
+    const hits = new Map<string, IocHit & { columnSet: Set<string> }>();
+    let matchedRows = 0;
+    const measure = startPerformanceMeasure('worker-ioc-match');
+    try {
+      const batchStore = state.dataset.batchStore;
+      if (batchStore && lookup.size > 0 && scannedColumns.length > 0) {
+        for await (const { rows } of batchStore.iterateMaterializedBatches()) {
+          for (const row of rows) {
+            let rowHits: Set<string> | null = null;
+            for (const column of scannedColumns) {
+              const value = row[column];
+              if (value == null || value === '') {
+                continue;
+              }
+
+              const indicator = lookup.get(normalizeString(String(value), caseSensitive));
+              if (indicator === undefined) {
+                continue;
+              }
+
+              let hit = hits.get(indicator);
+              if (!hit) {
+                hit = {
+                  indicator,
+                  matchedRows: 0,
+                  columns: [],
+                  columnSet: new Set(),
+                  firstSeen: null,
+                  lastSeen: null
+                };
+                hits.set(indicator, hit);
+              }
+              hit.columnSet.add(column);
+
+              // A row counts once per indicator even if several columns hold it.
+              rowHits ??= new Set();
+              if (rowHits.has(indicator)) {
+                continue;
+              }
+              rowHits.add(indicator);
+              hit.matchedRows += 1;
+
+              const seenAt = timeColumn ? toTimestamp(row[timeColumn]) : null;
+              if (seenAt != null) {
+                hit.firstSeen = hit.firstSeen == null ? seenAt : Math.min(hit.firstSeen, seenAt);
+                hit.lastSeen = hit.lastSeen == null ? seenAt : Math.max(hit.lastSeen, seenAt);
+              }
+            }
+
+            if (rowHits) {
+              matchedRows += 1;
+            }
+          }
+        }
+      }
+    } finally {
+      measure?.();
+    }
+
+    return {
+      totalRows: state.dataset.totalRows,
+      scannedColumns,
+      matchedRows,
+      hits: Array.from(hits.values(), ({ columnSet, ...hit }) => ({
+        ...hit,
+        columns: scannedColumns.filter((column) => columnSet.has(column))
+      })).sort(
+        (left, right) =>
+          right.matchedRows - left.matchedRows || left.indicator.localeCompare(right.indicator)
+      )
+    };
+  };
+
+  return {
+    match
+  };
+};
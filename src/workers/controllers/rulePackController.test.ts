@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import { createRulePackController } from './rulePackController';
+import { createTaggingController } from './taggingController';
+import { createDataWorkerState } from '../state/dataWorkerState';
+import type { RowBatchStore } from '../rowBatchStore';
+import type { MaterializedRow } from '../utils/materializeRowBatch';
+import { TAG_COLUMN_ID, TAG_NO_LABEL_FILTER_VALUE } from '../types';
+
+const createBatchStore = (batches: MaterializedRow[][]): RowBatchStore =>
+  ({
+    async *iterateMaterializedBatches() {
+      let rowStart = 0;
+      for (const [index, rows] of batches.entries()) {
+        yield { index, rowStart, rows };
+        rowStart += rows.length;
+      }
+    }
+  }) as unknown as RowBatchStore;
+
+describe('rulePackController', () => {
+  it('evaluates every rule against the tagging state from before the run', async () => {
+    const state = createDataWorkerState();
+    state.updateDataset((dataset) => {
+      dataset.totalRows = 3;
+      dataset.columnTypes = { user: 'string' };
+      dataset.batchStore = createBatchStore([
+        [
+          { __rowId: 0, user: 'root' },
+          { __rowId: 1, user: 'alice' }
+        ],
+        [{ __rowId: 2, user: 'root' }]
+      ]);
+    });
+    state.updateTagging((tagging) => {
+      tagging.labels = [{ id: 'root', name: 'Root', color: '#fff', createdAt: 1, updatedAt: 1 }];
+    });
+
+    const controller = createRulePackController({
+      state,
+      taggingController: createTaggingController(state)
+    });
+    const result = await controller.run({
+      rules: [
+        {
+          id: 'root-user',
+          name: 'Root user',
+          expression: { column: 'user', operator: 'eq', value: 'root' },
+          labelId: 'root'
+        },
+        {
+          id: 'untagged',
+          name: 'Untagged',
+          expression: { column: TAG_COLUMN_ID, operator: 'eq', value: TAG_NO_LABEL_FILTER_VALUE }
+        }
+      ]
+    });
+
+    expect(result.rules).toEqual([
+      { id: 'root-user', name: 'Root user', matchedRows: 2, labelId: 'root' },
+      { id: 'untagged', name: 'Untagged', matchedRows: 3, labelId: null }
+    ]);
+    expect(Object.keys(state.tagging.tags)).toEqual(['0', '2']);
+    expect(state.tagging.dirty).toBe(true);
+  });
+
+  it('reports zero hits when no dataset is loaded', async () => {
+    const state = createDataWorkerState();
+    const controller = createRulePackController({
+      state,
+      taggingController: createTaggingController(state)
+    });
+
+    const result = await controller.run({
+      rules: [{ id: 'any', name: 'Any', expression: { column: 'a', operator: 'eq', value: 'x' } }]
+    });
+
+    expect(result).toEqual({
+      totalRows: 0,
+      rules: [{ id: 'any', name: 'Any', matchedRows: 0, labelId: null }],
+      updated: {}
+    });
+  });
+});
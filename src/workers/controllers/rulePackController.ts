@@ -0,0 +1,98 @@
+import { evaluateFilterOnRows } from '../filterEngine';
+import { startPerformanceMeasure } from '../utils/performanceMarks';
+import type { DataWorkerStateController } from '../state/dataWorkerState';
+import type { TaggingController } from './taggingController';
+import type { RunRulePackRequest, RunRulePackResult } from '../workerApiTypes';
+
+export interface RulePackController {
+  run(request: RunRulePackRequest): Promise<RunRulePackResult>;
+}
+
+export interface RulePackControllerDeps {
+  state: DataWorkerStateController;
+  taggingController: TaggingController;
+}
+
+export const createRulePackController = ({
+  state,
+  taggingController
+}: RulePackControllerDeps): RulePackController => {
+  const run = async ({ rules }: RunRulePackRequest): Promise<RunRulePackResult> => {
+    const knownLabels = new Set(state.tagging.labels.map((label) => label.id));
+    for (const rule of rules) {
+      if (rule.labelId && !knownLabels.has(rule.labelId)) {
+        throw new Error(`Rule "${rule.name}" references unknown label "${rule.labelId}"`);
+      }
+    }
+
+    const measure = startPerformanceMeasure('worker-rule-pack');
+    try {
+      const totalRows = state.dataset.totalRows;
+      const matchedCounts = new Array<number>(rules.length).fill(0);
+      const hitRowIds: number[][] = rules.map(() => []);
+      const batchStore = state.dataset.batchStore;
+
+      if (batchStore && rules.length > 0) {
+        // Tags are applied after the scan so every rule sees the same
+        // pre-run tagging state, whatever its position in the pack.
+        const context = { tags: state.tagging.tags };
+        for await (const { rows } of batchStore.iterateMaterializedBatches()) {
+          for (let ruleIndex = 0; ruleIndex < rules.length; ruleIndex += 1) {
+            const rule = rules[ruleIndex]!;
+            const { matches, matchedCount } = evaluateFilterOnRows(
+              rows,
+              state.dataset.columnTypes,
+              rule.expression,
+              context
+            );
+            matchedCounts[ruleIndex] += matchedCount;
+
+            if (!rule.labelId || matchedCount === 0) {
+              continue;
+            }
+
+            const hits = hitRowIds[ruleIndex]!;
+            for (let idx = 0; idx < matches.length; idx += 1) {
+              if (matches[idx] === 1) {
+                hits.push(rows[idx]!.__rowId);
+              }
+            }
+          }
+        }
+      }
+
+      const updated: RunRulePackResult['updated'] = {};
+      for (let ruleIndex = 0; ruleIndex < rules.length; ruleIndex += 1) {
+        const labelId = rules[ruleIndex]!.labelId;
+        const rowIds = hitRowIds[ruleIndex]!;
+        if (!labelId || rowIds.length === 0) {
+          continue;
+        }
+
+        const response = await taggingController.tagRows({
+          rowIds,
+          labelIds: [labelId],
+          mode: 'append'
+        });
+        Object.assign(updated, response.updated);
+      }
+
+      return {
+        totalRows,
+        rules: rules.map((rule, ruleIndex) => ({
+          id: rule.id,
+          name: rule.name,
+          matchedRows: matchedCounts[ruleIndex]!,
+          labelId: rule.labelId ?? null
+        })),
+        updated
+      };
+    } finally {
+      measure?.();
+    }
+  };
+
+  return {
+    run
+  };
+};
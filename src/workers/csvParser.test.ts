@@ -5,6 +5,7 @@ import { materializeRowBatch } from './utils/materializeRowBatch';
 import type {
   ColumnBatch,
   NumberColumnBatch,
+  ParseIssue,
   RowBatch,
   StringColumnBatch
 } from './types';
@@ -158,4 +159,234 @@ describe('parseDelimitedStream', () => {
     expect(materialized.map((row) => row.city)).toEqual(['Montréal', '東京']);
     expect(materialized.map((row) => row.note)).toEqual(['emoji 🚀', 'café crème']);
   });
+
+  it('strips a BOM that arrives split across chunks', async () => {
+    const bytes = Uint8Array.of(0xef, 0xbb, 0xbf, ...textEncoder.encode('dc01,alice\nws17,bob\n'));
+    const batches: RowBatch[] = [];
+    const checkpoints: number[] = [];
+    await parseDelimitedStream(
+      {
+        async *[Symbol.asyncIterator]() {
+          yield bytes.subarray(0, 1);
+          yield bytes.subarray(1, 2);
+          yield bytes.subarray(2);
+        }
+      },
+      {
+        onBatch: (batch) => {
+          batches.push(batch);
+        },
+        onCheckpoint: ({ byteOffset }) => {
+          checkpoints.push(byteOffset);
+        }
+      },
+      { hasHeader: false, checkpointInterval: 1 }
+    );
+
+    expect(decodeStringColumn(batches[0]!.columns.column_1)).toEqual(['dc01', 'ws17']);
+    expect(checkpoints).toEqual([3, 3 + 'dc01,alice\n'.length]);
+  });
+
+  it('detects UTF-16LE and Windows-1252 and checkpoints at source byte offsets', async () => {
+    const header = '\uFEFF"Id","Name"\r\n';
+    const first = '"4","Montréal"\r\n';
+    const text = `${header}${first}"5","東京 🚀"\r\n`;
+    const bytes = new Uint8Array(text.length * 2);
+    for (let index = 0; index < text.length; index += 1) {
+      bytes[index * 2] = text.charCodeAt(index) & 0xff;
+      bytes[index * 2 + 1] = text.charCodeAt(index) >> 8;
+    }
+    const fromBytes = (input: Uint8Array, chunkSize: number): AsyncIterable<Uint8Array> => ({
+      async *[Symbol.asyncIterator]() {
+        for (let offset = 0; offset < input.byteLength; offset += chunkSize) {
+          yield input.subarray(offset, offset + chunkSize);
+        }
+      }
+    });
+
+    const encodings: string[] = [];
+    const checkpoints: Array<{ rowIndex: number; byteOffset: number }> = [];
+    const batches: RowBatch[] = [];
+    await parseDelimitedStream(
+      fromBytes(bytes, 7),
+      {
+        onEncoding: (encoding) => {
+          encodings.push(encoding);
+        },
+        onBatch: (batch) => {
+          batches.push(batch);
+        },
+        onCheckpoint: (checkpoint) => {
+          checkpoints.push(checkpoint);
+        }
+      },
+      { checkpointInterval: 1 }
+    );
+
+    expect(encodings).toEqual(['utf-16le']);
+    expect(materializeRowBatch(batches[0]!).rows.map((row) => row.Name)).toEqual([
+      'Montréal',
+      '東京 🚀'
+    ]);
+    expect(checkpoints).toEqual([
+      { rowIndex: 0, byteOffset: header.length * 2 },
+      { rowIndex: 1, byteOffset: (header.length + first.length) * 2 }
+    ]);
+    expect(batches[0]!.stats.bytesParsed).toBe(bytes.byteLength);
+
+    const legacyBatches: RowBatch[] = [];
+    const legacyCheckpoints: number[] = [];
+    await parseDelimitedStream(
+      fromBytes(Uint8Array.of(0x63, 0x69, 0x74, 0x79, 0x0a, 0x63, 0x61, 0x66, 0xe9, 0x0a), 4),
+      {
+        onEncoding: (encoding) => {
+          encodings.push(encoding);
+        },
+        onBatch: (batch) => {
+          legacyBatches.push(batch);
+        },
+        onCheckpoint: ({ byteOffset }) => {
+          legacyCheckpoints.push(byteOffset);
+        }
+      },
+      { checkpointInterval: 1 }
+    );
+
+    expect(encodings[1]).toBe('windows-1252');
+    expect(materializeRowBatch(legacyBatches[0]!).rows[0]!.city).toBe('café');
+    expect(legacyCheckpoints).toEqual([5]);
+  });
+
+  it('reports rows with the wrong field count and unterminated quotes', async () => {
+    const header = 'host,user,action\n';
+    const short = 'dc01,alice\n';
+    const long = 'dc02,bob,logon,extra\n';
+    const issues: ParseIssue[] = [];
+    const batches: RowBatch[] = [];
+    await parseDelimitedStream(
+      iterableFromStrings([`${header}${short}ws17,carol,logoff\n${long}`, 'ws18,"dave,logon\n']),
+      {
+        onBatch: (batch) => {
+          batches.push(batch);
+        },
+        onParseIssue: (issue) => {
+          issues.push(issue);
+        }
+      }
+    );
+
+    expect(issues).toEqual([
+      {
+        kind: 'missingFields',
+        rowIndex: 0,
+        byteOffset: header.length,
+        expectedFields: 3,
+        actualFields: 2,
+        snippet: 'dc01,alice'
+      },
+      {
+        kind: 'extraFields',
+        rowIndex: 2,
+        byteOffset: header.length + short.length + 'ws17,carol,logoff\n'.length,
+        expectedFields: 3,
+        actualFields: 4,
+        snippet: 'dc02,bob,logon,extra'
+      },
+      {
+        kind: 'unterminatedQuote',
+        rowIndex: 3,
+        byteOffset: header.length + short.length + 'ws17,carol,logoff\n'.length + long.length,
+        expectedFields: 3,
+        actualFields: 2,
+        snippet: 'ws18,dave,logon\n'
+      }
+    ]);
+    expect(materializeRowBatch(batches[0]!).rows[2]).toMatchObject({
+      host: 'dc02',
+      action: 'logon'
+    });
+  });
+
+  it('keeps blank lines as rows without reporting them as issues', async () => {
+    const issues: ParseIssue[] = [];
+    const checkpoints: number[] = [];
+    const batches: RowBatch[] = [];
+    await parseDelimitedStream(
+      iterableFromStrings(['host,user\n\ndc01,alice\r\n\r\n', 'ws17,bob\n\n']),
+      {
+        onBatch: (batch) => {
+          batches.push(batch);
+        },
+        onParseIssue: (issue) => {
+          issues.push(issue);
+        },
+        onCheckpoint: ({ byteOffset }) => {
+          checkpoints.push(byteOffset);
+        }
+      },
+      { checkpointInterval: 1 }
+    );
+
+    expect(issues).toEqual([]);
+    expect(materializeRowBatch(batches[0]!).rows).toMatchObject([
+      { __rowId: 0, host: '', user: '' },
+      { __rowId: 1, host: 'dc01', user: 'alice' },
+      { __rowId: 2, host: '', user: '' },
+      { __rowId: 3, host: 'ws17', user: 'bob' },
+      { __rowId: 4, host: '', user: '' }
+    ]);
+    expect(checkpoints).toEqual([
+      'host,user\n'.length,
+      'host,user\n\n'.length,
+      'host,user\n\ndc01,alice\r\n'.length,
+      'host,user\n\ndc01,alice\r\n\r\n'.length,
+      'host,user\n\ndc01,alice\r\n\r\nws17,bob\n'.length
+    ]);
+  });
+
+  it('skips preamble and comment lines, honours custom quotes and escapes', async () => {
+    const preamble = 'Exported 2024-03-01\r\nsource: edr\r\n';
+    const header = '#fields\r\npath|note\r\n';
+    const first = "'C:\\\\Temp|x'|it\\'s\r\n";
+    const checkpoints: number[] = [];
+    const batches: RowBatch[] = [];
+    await parseDelimitedStream(
+      iterableFromStrings([`${preamble}${header}${first}# trailing comment\n'b'|`, 'c\n']),
+      {
+        onBatch: (batch) => {
+          batches.push(batch);
+        },
+        onCheckpoint: ({ byteOffset }) => {
+          checkpoints.push(byteOffset);
+        }
+      },
+      {
+        delimiter: '|',
+        quoteChar: "'",
+        escapeChar: '\\',
+        commentPrefix: '#',
+        skipLines: 2,
+        checkpointInterval: 1
+      }
+    );
+
+    expect(materializeRowBatch(batches[0]!).rows).toMatchObject([
+      { path: 'C:\\Temp|x', note: "it's" },
+      { path: 'b', note: 'c' }
+    ]);
+    expect(checkpoints).toEqual([
+      textEncoder.encode(`${preamble}${header}`).byteLength,
+      textEncoder.encode(`${preamble}${header}${first}# trailing comment\n`).byteLength
+    ]);
+
+    const { header: generated, batches: headerless } = await collectBatches(
+      ['4,System\n88,smss.exe\n'],
+      { hasHeader: false }
+    );
+    expect(generated).toEqual(['column_1', 'column_2']);
+    expect(materializeRowBatch(headerless[0]!).rows).toMatchObject([
+      { column_2: 'System' },
+      { column_2: 'smss.exe' }
+    ]);
+  });
 });
@@ -1,30 +1,34 @@
-import type {
-  BooleanColumnBatch,
-  ColumnBatch,
-  ColumnInference,
-  ColumnType,
-  DatetimeColumnBatch,
-  Delimiter,
-  NumberColumnBatch,
-  RowBatch,
-  StringColumnBatch
-} from './types';
-import { TypeInferencer, analyzeValue } from './typeInference';
-
-export interface ParserOptions {
-  delimiter?: Delimiter;
+import type { CsvDialect, Delimiter, ParseIssue, RowBatch } from './types';
+import { TypeInferencer } from './typeInference';
+import { buildColumnsFromBuilders } from './utils/columnBatchBuilders';
+import {
+  encodedByteLength,
+  resolveSourceEncoding,
+  type SourceEncoding
+} from './utils/detectEncoding';
+
+export interface ParserOptions extends CsvDialect {
   batchSize?: number;
-  encoding?: string;
+  /** Text encoding of the source; detected from its first bytes when omitted. */
+  encoding?: SourceEncoding;
   checkpointInterval?: number;
+  /** Per-column zones for naive timestamps; columns not listed are read as UTC. */
+  sourceTimeZones?: Record<string, string>;
 }
 
 export interface ParserCallbacks {
+  onEncoding?: (encoding: SourceEncoding) => void | Promise<void>;
   onHeader?: (header: string[]) => void | Promise<void>;
+  /** Raw cells of each data row in header order, before type conversion. */
+  onRow?: (cells: string[]) => void;
   onBatch: (batch: RowBatch) => void | Promise<void>;
   onCheckpoint?: (payload: { rowIndex: number; byteOffset: number }) => void | Promise<void>;
+  /** Rows whose field count differs from the header, or whose quote never closes. */
+  onParseIssue?: (issue: ParseIssue) => void;
 }
 
 const DEFAULT_BATCH_SIZE = 10_000;
+const ISSUE_SNIPPET_LENGTH = 120;
 
 interface InternalState {
   header: string[] | null;
@@ -35,7 +39,15 @@ interface InternalState {
   semicolonCount: number;
   inQuotes: boolean;
   quoteEscapePending: boolean;
+  escapePending: boolean;
   skipNextLF: boolean;
+  /** Set until the first character of a row, where comment lines are recognised. */
+  atRowStart: boolean;
+  /** Row start characters held back while they still match the comment prefix. */
+  commentProbe: string;
+  /** Why the rest of the current line is ignored, if it is. */
+  skippingLine: 'preamble' | 'comment' | null;
+  preambleLinesLeft: number;
   fieldBuffer: string;
   currentRow: string[];
   columnBuilders: string[][];
@@ -55,7 +67,12 @@ const createInitialState = (): InternalState => ({
   semicolonCount: 0,
   inQuotes: false,
   quoteEscapePending: false,
+  escapePending: false,
   skipNextLF: false,
+  atRowStart: true,
+  commentProbe: '',
+  skippingLine: null,
+  preambleLinesLeft: 0,
   fieldBuffer: '',
   currentRow: [],
   columnBuilders: [],
@@ -80,181 +97,8 @@ const ensureColumnBuilders = (state: InternalState): void => {
   }
 };
 
-const textEncoder = new TextEncoder();
-
-const utf8ByteLength = (codePoint: number): number => {
-  if (codePoint <= 0x7f) {
-    return 1;
-  }
-  if (codePoint <= 0x7ff) {
-    return 2;
-  }
-  if (codePoint <= 0xffff) {
-    return 3;
-  }
-  return 4;
-};
-
-const createStringColumnBatch = (values: string[]): StringColumnBatch => {
-  const encodedValues: Uint8Array[] = new Array(values.length);
-  const offsets = new Uint32Array(values.length + 1);
-  let byteOffset = 0;
-
-  for (let index = 0; index < values.length; index += 1) {
-    const encoded = textEncoder.encode(values[index] ?? '');
-    encodedValues[index] = encoded;
-    byteOffset += encoded.byteLength;
-    offsets[index + 1] = byteOffset;
-  }
-
-  const data = new ArrayBuffer(byteOffset);
-  const dataView = new Uint8Array(data);
-
-  let writeOffset = 0;
-  for (const encoded of encodedValues) {
-    dataView.set(encoded, writeOffset);
-    writeOffset += encoded.byteLength;
-  }
-
-  return {
-    type: 'string',
-    data,
-    offsets
-  };
-};
-
-const createBooleanColumnBatch = (values: string[]): BooleanColumnBatch => {
-  const data = new Uint8Array(values.length);
-  const nullMask = new Uint8Array(values.length);
-  let hasNull = false;
-
-  for (let index = 0; index < values.length; index += 1) {
-    const analysis = analyzeValue(values[index] ?? '');
-    if (analysis.kind === 'null') {
-      nullMask[index] = 1;
-      hasNull = true;
-      continue;
-    }
-
-    if (analysis.kind === 'boolean') {
-      data[index] = analysis.booleanValue ? 1 : 0;
-    } else {
-      nullMask[index] = 1;
-      hasNull = true;
-    }
-  }
-
-  return {
-    type: 'boolean',
-    data,
-    nullMask: hasNull ? nullMask : undefined
-  };
-};
-
-const createNumberColumnBatch = (values: string[]): NumberColumnBatch => {
-  const data = new Float64Array(values.length);
-  const nullMask = new Uint8Array(values.length);
-  let hasNull = false;
-
-  for (let index = 0; index < values.length; index += 1) {
-    const analysis = analyzeValue(values[index] ?? '');
-    if (analysis.kind === 'null') {
-      nullMask[index] = 1;
-      hasNull = true;
-      continue;
-    }
-
-    if (analysis.kind === 'number') {
-      data[index] = analysis.numberValue ?? Number.NaN;
-    } else {
-      nullMask[index] = 1;
-      hasNull = true;
-    }
-  }
-
-  return {
-    type: 'number',
-    data,
-    nullMask: hasNull ? nullMask : undefined
-  };
-};
-
-const createDatetimeColumnBatch = (values: string[]): DatetimeColumnBatch => {
-  const data = new Float64Array(values.length);
-  const nullMask = new Uint8Array(values.length);
-  let hasNull = false;
-
-  for (let index = 0; index < values.length; index += 1) {
-    const analysis = analyzeValue(values[index] ?? '');
-    if (analysis.kind === 'null') {
-      nullMask[index] = 1;
-      hasNull = true;
-      continue;
-    }
-
-    if (analysis.kind === 'datetime') {
-      data[index] = analysis.datetimeValue ?? Number.NaN;
-    } else if (analysis.kind === 'number') {
-      data[index] = analysis.numberValue ?? Number.NaN;
-    } else {
-      nullMask[index] = 1;
-      hasNull = true;
-    }
-  }
-
-  return {
-    type: 'datetime',
-    data,
-    nullMask: hasNull ? nullMask : undefined
-  };
-};
-
-const buildColumnsFromBuilders = (
-  header: string[],
-  columnValues: string[][],
-  inferencer: TypeInferencer | null
-): {
-  columns: Record<string, ColumnBatch>;
-  columnTypes: Record<string, ColumnType>;
-  columnInference: Record<string, ColumnInference>;
-} => {
-  const columnTypes: Record<string, ColumnType> = {};
-  const columns: Record<string, ColumnBatch> = {};
-  const columnInference: Record<string, ColumnInference> = {};
-
-  for (let colIndex = 0; colIndex < header.length; colIndex += 1) {
-    const columnName = header[colIndex];
-    const values = columnValues[colIndex] ?? [];
-    const inference = inferencer ? inferencer.resolve(columnName) : null;
-    const targetType = inference?.type ?? 'string';
-
-    let column: ColumnBatch;
-    if (targetType === 'number') {
-      column = createNumberColumnBatch(values);
-    } else if (targetType === 'boolean') {
-      column = createBooleanColumnBatch(values);
-    } else if (targetType === 'datetime') {
-      column = createDatetimeColumnBatch(values);
-    } else {
-      column = createStringColumnBatch(values);
-    }
-
-    columns[columnName] = column;
-    columnTypes[columnName] = targetType;
-    columnInference[columnName] =
-      inference ?? {
-        type: 'string',
-        confidence: targetType === 'string' ? 1 : 0,
-        samples: 0,
-        nullCount: 0,
-        examples: []
-      };
-  }
-
-  return { columns, columnTypes, columnInference };
-};
-
-const dedupeHeader = (cells: string[]): string[] => {
+/** Trims header cells, names blank ones `column_N` and suffixes duplicates. */
+export const dedupeHeader = (cells: string[]): string[] => {
   const seen = new Map<string, number>();
   return cells.map((raw, index) => {
     const base = raw && raw.trim().length > 0 ? raw.trim() : `column_${index + 1}`;
@@ -288,8 +132,20 @@ export const parseDelimitedStream = async (
   const state = createInitialState();
   const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
   const checkpointInterval = options.checkpointInterval ?? 50_000;
-  const decoder = new TextDecoder(options.encoding ?? 'utf-8');
-  let chunkIndex = 0;
+  const { encoding, chunks } = await resolveSourceEncoding(source, options.encoding);
+  await callbacks.onEncoding?.(encoding);
+  // The BOM is kept so its bytes are counted before the first row's offset.
+  const decoder = new TextDecoder(encoding, { ignoreBOM: true });
+  // A partial BOM in a short first chunk decodes to nothing, so look for it in the first text.
+  let decodedText = false;
+  const quoteChar = options.quoteChar ?? '"';
+  const escapeChar = options.escapeChar ?? quoteChar;
+  // A distinct escape character escapes anything after it, inside quotes or not.
+  const prefixEscapes = escapeChar.length > 0 && escapeChar !== quoteChar;
+  const commentPrefix = options.commentPrefix ?? '';
+  const hasHeader = options.hasHeader ?? true;
+  state.preambleLinesLeft = Math.max(0, Math.floor(options.skipLines ?? 0));
+  state.skippingLine = state.preambleLinesLeft > 0 ? 'preamble' : null;
 
   const resolveDelimiterIfNeeded = (): void => {
     if (state.delimiterResolved) {
@@ -335,7 +191,8 @@ export const parseDelimitedStream = async (
     const { columns, columnTypes, columnInference } = buildColumnsFromBuilders(
       state.header,
       state.columnBuilders,
-      state.inferencer
+      state.inferencer,
+      options.sourceTimeZones
     );
     state.totalRows += rowCount;
 
@@ -355,21 +212,64 @@ export const parseDelimitedStream = async (
     await callbacks.onBatch(batch);
   };
 
-  const emitRow = async (): Promise<void> => {
+  const reportIssue = (
+    rowCells: string[],
+    rowIndex: number,
+    byteOffset: number,
+    unterminatedQuote: boolean
+  ): void => {
+    const expectedFields = state.header?.length ?? 0;
+    if (!callbacks.onParseIssue || (!unterminatedQuote && rowCells.length === expectedFields)) {
+      return;
+    }
+    // Blank lines stay rows so row ids line up with the file, but they are not malformed.
+    if (!unterminatedQuote && rowCells.length === 1 && rowCells[0] === '') {
+      return;
+    }
+
+    const snippet = rowCells.join(state.delimiter);
+    callbacks.onParseIssue({
+      kind: unterminatedQuote
+        ? 'unterminatedQuote'
+        : rowCells.length > expectedFields
+          ? 'extraFields'
+          : 'missingFields',
+      rowIndex,
+      byteOffset,
+      expectedFields,
+      actualFields: rowCells.length,
+      snippet:
+        snippet.length > ISSUE_SNIPPET_LENGTH
+          ? `${snippet.slice(0, ISSUE_SNIPPET_LENGTH)}…`
+          : snippet
+    });
+  };
+
+  /** `unterminatedQuote` flags a final row whose quoted field ran to the end of the file. */
+  const emitRow = async (unterminatedQuote = false): Promise<void> => {
     const rowCells = state.currentRow;
     state.currentRow = [];
 
+    state.atRowStart = true;
+
     if (!state.header) {
-      state.header = dedupeHeader(rowCells);
+      // Headerless files take their width from the first row, which is kept as data.
+      state.header = hasHeader
+        ? dedupeHeader(rowCells)
+        : rowCells.map((_, index) => `column_${index + 1}`);
       state.delimiterResolved = true;
-      state.inferencer = new TypeInferencer(state.header);
+      state.inferencer = new TypeInferencer(state.header, {
+        sourceTimeZones: options.sourceTimeZones
+      });
       resetColumnBuilders(state);
-      state.currentRowStartOffset = state.totalBytes;
 
       if (callbacks.onHeader) {
         await callbacks.onHeader(state.header);
       }
-      return;
+      if (hasHeader) {
+        state.currentRowStartOffset = state.totalBytes;
+        return;
+      }
     }
 
     if (state.pendingRowCount >= batchSize) {
@@ -377,6 +277,7 @@ export const parseDelimitedStream = async (
     }
 
     const normalized = normalizeRow(rowCells, state.header.length);
+    callbacks.onRow?.(normalized);
     state.inferencer?.updateRow(normalized);
     ensureColumnBuilders(state);
     for (let columnIndex = 0; columnIndex < state.header.length; columnIndex += 1) {
@@ -389,6 +290,7 @@ export const parseDelimitedStream = async (
 
     const rowIndex = state.totalRows + state.pendingRowCount - 1;
     const rowStartOffset = state.currentRowStartOffset;
+    reportIssue(rowCells, rowIndex, rowStartOffset, unterminatedQuote);
 
     if (checkpointInterval > 0 && callbacks.onCheckpoint && rowIndex % checkpointInterval === 0) {
       await callbacks.onCheckpoint({ rowIndex, byteOffset: rowStartOffset });
@@ -408,10 +310,16 @@ export const parseDelimitedStream = async (
   };
 
   const processChar = (char: string): Promise<void> | void => {
+    if (state.escapePending) {
+      state.fieldBuffer += char;
+      state.escapePending = false;
+      return;
+    }
+
     if (state.inQuotes) {
       if (state.quoteEscapePending) {
-        if (char === '"') {
-          state.fieldBuffer += '"';
+        if (char === quoteChar) {
+          state.fieldBuffer += quoteChar;
           state.quoteEscapePending = false;
           return;
         }
@@ -420,7 +328,12 @@ export const parseDelimitedStream = async (
         state.quoteEscapePending = false;
         // fall through to process the char outside quotes
       } else {
-        if (char === '"') {
+        if (prefixEscapes && char === escapeChar) {
+          state.escapePending = true;
+          return;
+        }
+
+        if (char === quoteChar) {
           state.quoteEscapePending = true;
           return;
         }
@@ -430,6 +343,11 @@ export const parseDelimitedStream = async (
       }
     }
 
+    if (prefixEscapes && char === escapeChar) {
+      state.escapePending = true;
+      return;
+    }
+
     if (!state.delimiterResolved && (char === '\n' || char === '\r')) {
       resolveDelimiterIfNeeded();
     }
@@ -442,7 +360,7 @@ export const parseDelimitedStream = async (
       state.semicolonCount += 1;
     }
 
-    if (char === '"') {
+    if (char === quoteChar) {
       state.inQuotes = true;
       state.quoteEscapePending = false;
       return;
@@ -468,57 +386,99 @@ export const parseDelimitedStream = async (
     state.fieldBuffer += char;
   };
 
+  const replayChars = async (chars: string): Promise<void> => {
+    for (const held of chars) {
+      await processChar(held);
+    }
+  };
+
+  /** Drops preamble and comment lines before handing characters to the row parser. */
+  const dispatchChar = (char: string): Promise<void> | void => {
+    if (state.skippingLine) {
+      if (char !== '\n' && char !== '\r') {
+        return;
+      }
+      if (state.skippingLine === 'preamble') {
+        state.preambleLinesLeft -= 1;
+      }
+      state.skippingLine = state.preambleLinesLeft > 0 ? 'preamble' : null;
+      state.skipNextLF = char === '\r';
+      state.currentRowStartOffset = state.totalBytes;
+      return;
+    }
+
+    if (state.atRowStart && commentPrefix) {
+      const probe = state.commentProbe + char;
+      if (commentPrefix.startsWith(probe)) {
+        state.commentProbe = probe === commentPrefix ? '' : probe;
+        if (probe === commentPrefix) {
+          state.skippingLine = 'comment';
+        }
+        return;
+      }
+
+      // Not a comment after all: replay the held characters as row content.
+      state.commentProbe = '';
+      state.atRowStart = false;
+      return replayChars(probe);
+    }
+
+    state.atRowStart = false;
+    return processChar(char);
+  };
+
   const processText = async (text: string, isFirstChunk: boolean): Promise<void> => {
     if (isFirstChunk && text.charCodeAt(0) === 0xfeff) {
       text = text.slice(1);
-      state.totalBytes += 3;
-      state.currentRowStartOffset = 3;
+      state.totalBytes += encodedByteLength(0xfeff, encoding);
+      state.currentRowStartOffset = state.totalBytes;
     }
 
     for (let index = 0; index < text.length;) {
       const codePoint = text.codePointAt(index)!;
       const char = String.fromCodePoint(codePoint);
-      const byteLength = utf8ByteLength(codePoint);
+      const byteLength = encodedByteLength(codePoint, encoding);
       index += char.length;
 
       state.totalBytes += byteLength;
 
-      if (!state.delimiterResolved && (char === '\n' || char === '\r')) {
-        resolveDelimiterIfNeeded();
-      }
-
       if (state.skipNextLF) {
         if (char === '\n') {
           state.skipNextLF = false;
+          // The next row starts after the LF of a CRLF pair.
+          state.currentRowStartOffset = state.totalBytes;
           continue;
         }
 
         state.skipNextLF = false;
       }
 
-      const maybePromise = processChar(char);
+      const maybePromise = dispatchChar(char);
       if (maybePromise) {
         await maybePromise;
       }
     }
   };
 
-  for await (const chunk of source) {
-    let text = decoder.decode(chunk, { stream: true });
+  for await (const chunk of chunks) {
+    const text = decoder.decode(chunk, { stream: true });
     if (text.length > 0) {
-      await processText(text, chunkIndex === 0);
+      await processText(text, !decodedText);
+      decodedText = true;
     }
-    chunkIndex += 1;
   }
 
   const tail = decoder.decode();
   if (tail.length > 0) {
-    await processText(tail, chunkIndex === 0);
+    await processText(tail, !decodedText);
   }
 
-  if (state.fieldBuffer.length > 0 || state.currentRow.length > 0) {
+  await replayChars(state.commentProbe);
+
+  const unterminatedQuote = state.inQuotes && !state.quoteEscapePending;
+  if (state.fieldBuffer.length > 0 || state.currentRow.length > 0 || unterminatedQuote) {
     pushField();
-    await emitRow();
+    await emitRow(unterminatedQuote);
   }
 
   await flushBatch(true);
@@ -1,3 +1,4 @@
+import { gzipSync } from 'node:zlib';
 import { describe, expect, it, vi } from 'vitest';
 
 import { createDataWorkerApi } from './dataWorker.worker';
@@ -6,6 +7,23 @@ import { RowBatchStore } from './rowBatchStore';
 import type { LoadCompleteSummary } from './workerApiTypes';
 import type { FilterNode } from './types';
 import { createMockFileHandle } from './test/mockFileHandle';
+import { buildZipFixture } from './test/zipFixture';
+import { buildXlsxFixture, worksheetXml } from './test/xlsxFixture';
+import { buildParquetFixture, PARQUET_TYPES } from './test/parquetFixture';
+import {
+  buildEvtxFixture,
+  evtxFiletime,
+  evtxString,
+  evtxUInt16,
+  type EvtxFixtureElement
+} from './test/evtxFixture';
+import { buildSqliteFixture } from './test/sqliteFixture';
+import {
+  EVENTS_CSV,
+  EVENTS_CSV_BZ2,
+  EVENTS_CSV_ZST,
+  fromBase64
+} from './test/compressedFixtures';
 
 describe('createDatasetFingerprint', () => {
   it('derives fingerprint metadata from file properties', () => {
@@ -92,6 +110,606 @@ describe('dataWorkerApi integration harness', () => {
     expect(events.complete?.columnInference.age.type).toBe('number');
   });
 
+  it('loads JSON Lines content with flattened nested keys', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      '{"EventID":4624,"Host":{"Name":"DC01"}}\n{"EventID":4625,"Host":{"Name":"WS7"},"User":"bob"}\n',
+      { name: 'events.jsonl', type: '' }
+    );
+    const { events, callbacks } = buildCallbacks();
+
+    await worker.loadFile({ handle }, callbacks);
+
+    const snapshot = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(snapshot.totalRows).toBe(2);
+    expect(snapshot.rows.map((row) => row['Host.Name'])).toEqual(['DC01', 'WS7']);
+    expect(snapshot.rows.map((row) => row.User)).toEqual(['', 'bob']);
+    expect(events.columns).toEqual(['EventID', 'Host.Name', 'User']);
+    expect(events.complete?.columnTypes.EventID).toBe('number');
+  });
+
+  it('merges several files into one dataset with a __source column', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const files = [
+      {
+        handle: createMockFileHandle('host,user\nDC01,alice\nWS7,bob\n', { name: 'logons.csv' }),
+        name: 'host-a/logons.csv'
+      },
+      {
+        handle: createMockFileHandle(
+          '{"host":"DC01","pid":4}\n{"host":"SRV2","pid":88,"user":"carol"}\n',
+          { name: 'procs.jsonl', type: '' }
+        )
+      }
+    ];
+    const { events, callbacks } = buildCallbacks();
+
+    await worker.loadFile({ files, batchSize: 1 }, callbacks);
+
+    expect(events.columns).toEqual(['__source', 'host', 'user', 'pid']);
+    expect(events.complete?.rowsParsed).toBe(4);
+    expect(events.complete?.sources).toEqual([
+      expect.objectContaining({ name: 'host-a/logons.csv', rowStart: 0, rowCount: 2 }),
+      expect.objectContaining({ name: 'procs.jsonl', rowStart: 2, rowCount: 2 })
+    ]);
+    expect(events.complete?.columnTypes).toMatchObject({ __source: 'string', pid: 'number' });
+    expect(events.complete?.columnInference.pid?.nullCount).toBe(2);
+
+    const snapshot = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(snapshot.rows.map((row) => [row.__rowId, row.__source, row.host])).toEqual([
+      [0, 'host-a/logons.csv', 'DC01'],
+      [1, 'host-a/logons.csv', 'WS7'],
+      [2, 'procs.jsonl', 'DC01'],
+      [3, 'procs.jsonl', 'SRV2']
+    ]);
+
+    const filtered = await worker.applyFilter({
+      expression: { column: 'host', operator: 'eq', value: 'DC01' },
+      offset: 0,
+      limit: 10
+    });
+    expect(filtered.rows.map((row) => row.__source)).toEqual(['host-a/logons.csv', 'procs.jsonl']);
+
+    await worker.applySorts({
+      sorts: [{ column: '__source', direction: 'desc' }],
+      offset: 0,
+      limit: 0
+    });
+    const sorted = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(sorted.rows.map((row) => [row.__source, row.pid])).toEqual([
+      ['procs.jsonl', 4],
+      ['host-a/logons.csv', undefined]
+    ]);
+
+    await worker.tagRows({ rowIds: [3], note: 'pivot' });
+    expect((await worker.loadTags()).tags[3]?.note).toBe('pivot');
+  });
+
+  it('loads every supported file below a directory handle', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const directory = (name: string, entries: Array<[string, FileSystemHandle]>) =>
+      ({
+        kind: 'directory',
+        name,
+        async *entries() {
+          yield* entries;
+        }
+      }) as unknown as FileSystemDirectoryHandle;
+    const root = directory('kape', [
+      ['notes.txt', createMockFileHandle('ignored', { name: 'notes.txt' })],
+      [
+        'HOST2',
+        directory('HOST2', [
+          ['mft.csv', createMockFileHandle('path\nC:\\b\n', { name: 'mft.csv' })]
+        ])
+      ],
+      ['amcache.csv', createMockFileHandle('path\nC:\\a\n', { name: 'amcache.csv' })]
+    ]);
+    const { events, callbacks } = buildCallbacks();
+
+    await worker.loadFile({ directory: root }, callbacks);
+
+    const snapshot = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(snapshot.rows.map((row) => [row.__source, row.path])).toEqual([
+      ['HOST2/mft.csv', 'C:\\b'],
+      ['amcache.csv', 'C:\\a']
+    ]);
+    expect(events.complete?.sources?.map((source) => source.name)).toEqual([
+      'HOST2/mft.csv',
+      'amcache.csv'
+    ]);
+
+    await expect(
+      worker.loadFile({ directory: directory('empty', []) }, {})
+    ).rejects.toThrow('No CSV or JSON Lines files found in "empty".');
+  });
+
+  it('lists zip entries and loads one or several of them', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      buildZipFixture([
+        { path: 'triage/logons.csv', contents: 'host,user\nDC01,alice\n' },
+        { path: 'triage/procs.jsonl', contents: '{"host":"WS7","pid":4}\n', method: 0 },
+        { path: 'readme.txt', contents: 'collected by KAPE', method: 14 }
+      ]),
+      { name: 'HOST1.zip', type: 'application/zip' }
+    );
+
+    expect(await worker.listArchiveEntries(handle)).toEqual([
+      { path: 'triage/logons.csv', size: 21, compressedSize: expect.any(Number), readable: true },
+      { path: 'triage/procs.jsonl', size: 23, compressedSize: 23, readable: true },
+      { path: 'readme.txt', size: 17, compressedSize: 17, readable: false }
+    ]);
+
+    const { events, callbacks } = buildCallbacks();
+    await worker.loadFile({ handle, entry: 'triage/logons.csv' }, callbacks);
+    expect(events.columns).toEqual(['host', 'user']);
+    expect((await worker.fetchRows({ offset: 0, limit: 10 })).rows.map((row) => row.user)).toEqual(
+      ['alice']
+    );
+
+    await expect(worker.loadFile({ handle }, {})).rejects.toThrow(
+      '"HOST1.zip" holds several files; choose which entries to load.'
+    );
+
+    const both = buildCallbacks();
+    await worker.loadFile(
+      {
+        files: [
+          { handle, entry: 'triage/logons.csv' },
+          { handle, entry: 'triage/procs.jsonl' }
+        ]
+      },
+      both.callbacks
+    );
+    const snapshot = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(snapshot.rows.map((row) => [row.__source, row.host])).toEqual([
+      ['HOST1.zip/triage/logons.csv', 'DC01'],
+      ['HOST1.zip/triage/procs.jsonl', 'WS7']
+    ]);
+  });
+
+  it('lists workbook sheets and loads one or several of them', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const inlineRow = (...cells: string[]) =>
+      `<row>${cells.map((cell) => `<c t="inlineStr"><is><t>${cell}</t></is></c>`).join('')}` +
+      '</row>';
+    const handle = createMockFileHandle(
+      buildXlsxFixture({
+        styles:
+          '<styleSheet><cellXfs><xf numFmtId="0"/><xf numFmtId="22"/></cellXfs></styleSheet>',
+        sheets: [
+          {
+            name: 'Logons',
+            xml: worksheetXml(
+              inlineRow('host', 'when') +
+                '<row><c t="inlineStr"><is><t>dc01</t></is></c><c s="1"><v>45292.75</v></c></row>'
+            )
+          },
+          {
+            name: 'Processes',
+            xml: worksheetXml(inlineRow('host', 'image') + inlineRow('ws17', 'cmd.exe'))
+          }
+        ]
+      }),
+      { name: 'triage.xlsx' }
+    );
+
+    expect(await worker.listWorkbookSheets(handle)).toEqual(['Logons', 'Processes']);
+
+    const first = buildCallbacks();
+    await worker.loadFile({ handle }, first.callbacks);
+    expect(first.events.columns).toEqual(['host', 'when']);
+    expect(first.events.complete?.columnTypes).toMatchObject({ when: 'datetime' });
+    expect((await worker.fetchRows({ offset: 0, limit: 10 })).rows).toMatchObject([
+      { host: 'dc01', when: '2024-01-01T18:00:00Z' }
+    ]);
+
+    const both = buildCallbacks();
+    await worker.loadFile(
+      {
+        files: [
+          { handle, sheet: 'Logons' },
+          { handle, sheet: 'Processes' }
+        ]
+      },
+      both.callbacks
+    );
+    const snapshot = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(snapshot.rows.map((row) => [row.__source, row.host, row.image ?? null])).toEqual([
+      ['triage.xlsx/Logons', 'dc01', null],
+      ['triage.xlsx/Processes', 'ws17', 'cmd.exe']
+    ]);
+
+    await expect(worker.loadFile({ handle, sheet: 'Missing' }, {})).rejects.toThrow(
+      'Sheet "Missing" was not found in the workbook.'
+    );
+  });
+
+  it('sniffs compression from magic bytes and decodes gzip, bzip2 and zstd', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const sources = [
+      createMockFileHandle(new Uint8Array(gzipSync(EVENTS_CSV)), { name: 'events.csv' }),
+      createMockFileHandle(fromBase64(EVENTS_CSV_BZ2), { name: 'events.csv.bz2' }),
+      createMockFileHandle(fromBase64(EVENTS_CSV_ZST), { name: 'events.bin', type: '' })
+    ];
+
+    for (const handle of sources) {
+      const { events, callbacks } = buildCallbacks();
+      await worker.loadFile({ handle }, callbacks);
+
+      expect(events.columns).toEqual(['time', 'host', 'event']);
+      expect(events.complete?.rowsParsed).toBe(200);
+      const [first] = (await worker.fetchRows({ offset: 0, limit: 1 })).rows;
+      expect(first).toMatchObject({ host: 'WS01', event: 4624 });
+    }
+  });
+
+  it('previews and loads Parquet files, compressed or not, with their declared types', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const parquet = createMockFileHandle(
+      buildParquetFixture({
+        codec: 'snappy',
+        columns: [
+          {
+            name: 'host',
+            physicalType: PARQUET_TYPES.BYTE_ARRAY,
+            // UTF8
+            convertedType: 0,
+            values: ['dc01', 'ws17']
+          },
+          { name: 'event', physicalType: PARQUET_TYPES.INT32, values: [4624, 4625] }
+        ]
+      }),
+      // Recognised from its PAR1 signature.
+      { name: 'part-00000', type: '' }
+    );
+    expect(await worker.previewFile({ handle: parquet, rowLimit: 1 })).toEqual({
+      format: 'parquet',
+      encoding: 'utf-8',
+      columns: ['host', 'event'],
+      rows: [['dc01', '4624']]
+    });
+    const fromParquet = buildCallbacks();
+    await worker.loadFile({ handle: parquet }, fromParquet.callbacks);
+    expect(fromParquet.events.complete).toMatchObject({
+      rowsParsed: 2,
+      columnTypes: { host: 'string', event: 'number' }
+    });
+
+    const compressed = createMockFileHandle(
+      new Uint8Array(
+        gzipSync(
+          buildParquetFixture({
+            columns: [
+              {
+                name: 'time',
+                physicalType: PARQUET_TYPES.INT64,
+                // TIMESTAMP_MILLIS
+                convertedType: 9,
+                values: [1_704_067_200_000]
+              },
+              { name: 'elevated', physicalType: PARQUET_TYPES.BOOLEAN, values: [true] }
+            ]
+          })
+        )
+      ),
+      { name: 'view.parquet.gz' }
+    );
+    const fromCompressed = buildCallbacks();
+    await worker.loadFile({ handle: compressed }, fromCompressed.callbacks);
+    expect(fromCompressed.events.complete?.columnTypes).toEqual({
+      time: 'datetime',
+      elevated: 'boolean'
+    });
+    expect((await worker.fetchRows({ offset: 0, limit: 1 })).rows[0]).toMatchObject({
+      time: '2024-01-01T00:00:00Z',
+      elevated: true
+    });
+  });
+
+  it('previews and loads Windows event logs, compressed or not', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const event: EvtxFixtureElement = {
+      name: 'Event',
+      children: [
+        {
+          name: 'System',
+          children: [
+            { name: 'EventID', children: [{ substitution: 0 }] },
+            { name: 'TimeCreated', attributes: [['SystemTime', { substitution: 1 }]] },
+            { name: 'Computer', children: [{ substitution: 2 }] }
+          ]
+        },
+        {
+          name: 'EventData',
+          children: [
+            { name: 'Data', attributes: [['Name', 'ServiceName']], children: [{ substitution: 3 }] }
+          ]
+        }
+      ]
+    };
+    const log = buildEvtxFixture({
+      chunks: [
+        [
+          {
+            id: 1,
+            template: event,
+            values: [
+              evtxUInt16(7045),
+              evtxFiletime(1_704_067_200_000),
+              evtxString('dc01'),
+              evtxString('PSEXESVC')
+            ]
+          },
+          {
+            id: 2,
+            template: event,
+            values: [
+              evtxUInt16(7036),
+              evtxFiletime(1_704_067_201_000),
+              evtxString('dc01'),
+              evtxString('Spooler')
+            ]
+          }
+        ]
+      ]
+    });
+
+    const handle = createMockFileHandle(log, { name: 'System.evtx' });
+    expect(await worker.previewFile({ handle, rowLimit: 1 })).toEqual({
+      format: 'evtx',
+      encoding: 'utf-8',
+      columns: ['EventID', 'TimeCreated', 'Computer', 'ServiceName'],
+      rows: [['7045', '2024-01-01T00:00:00.0000000Z', 'dc01', 'PSEXESVC']]
+    });
+
+    const compressed = createMockFileHandle(new Uint8Array(gzipSync(log)), {
+      name: 'System.evtx.gz'
+    });
+    const { callbacks, events } = buildCallbacks();
+    await worker.loadFile({ handle: compressed }, callbacks);
+    expect(events.complete).toMatchObject({
+      rowsParsed: 2,
+      columnTypes: { EventID: 'number', TimeCreated: 'datetime', ServiceName: 'string' }
+    });
+    expect((await worker.fetchRows({ offset: 1, limit: 1 })).rows[0]).toMatchObject({
+      EventID: 7036,
+      TimeCreated: '2024-01-01T00:00:01Z',
+      ServiceName: 'Spooler'
+    });
+  });
+
+  it('splits plain-text logs with a chosen log format', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const text = [
+      '2024/03/01 08:15:30 [error] 812#812: *17 upstream timed out',
+      '2024/03/01 08:15:31 [warn] 812#812: *18 client sent invalid header',
+      'PHP message: stack trace follows'
+    ].join('\n');
+    const handle = createMockFileHandle(text, { name: 'error.log' });
+    const logFormat = {
+      name: 'Nginx error',
+      pattern: '^(?<time>\\S+ \\S+) \\[(?<level>\\w+)\\] \\d+#\\d+: (?<message>.*)$'
+    };
+
+    expect(await worker.previewFile({ handle, logFormat, rowLimit: 1 })).toEqual({
+      format: 'log',
+      encoding: 'utf-8',
+      columns: ['time', 'level', 'message', '_raw'],
+      rows: [['2024/03/01 08:15:30', 'error', '*17 upstream timed out', '']]
+    });
+
+    const { callbacks, events } = buildCallbacks();
+    await worker.loadFile({ handle, logFormat }, callbacks);
+    expect(events.complete).toMatchObject({ rowsParsed: 3, parseIssueCount: 1 });
+    expect((await worker.fetchRows({ offset: 1, limit: 2 })).rows).toMatchObject([
+      { level: 'warn', _raw: '' },
+      { level: '', _raw: 'PHP message: stack trace follows' }
+    ]);
+  });
+
+  it('lists SQLite tables and views and loads one or several of them', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      buildSqliteFixture({
+        tables: [
+          {
+            name: 'urls',
+            sql: 'CREATE TABLE urls(id INTEGER PRIMARY KEY, url LONGVARCHAR, visit_count INTEGER)',
+            rows: [
+              [null, 'https://example.com/', 3],
+              [null, 'https://example.org/login', 1]
+            ]
+          },
+          {
+            name: 'downloads',
+            sql: 'CREATE TABLE downloads(id INTEGER PRIMARY KEY, target_path LONGVARCHAR)',
+            rows: [[null, 'C:\\Users\\ana\\Downloads\\setup.exe']]
+          },
+          {
+            name: 'meta',
+            sql: 'CREATE TABLE meta(key LONGVARCHAR PRIMARY KEY, value) WITHOUT ROWID',
+            rows: []
+          }
+        ],
+        views: [
+          {
+            name: 'popular',
+            sql: 'CREATE VIEW popular AS SELECT url, visit_count FROM urls WHERE visit_count > 1'
+          }
+        ]
+      }),
+      { name: 'History' }
+    );
+
+    expect(await worker.listDatabaseTables(handle)).toEqual([
+      { name: 'urls', kind: 'table', columns: ['id', 'url', 'visit_count'], readable: true },
+      { name: 'downloads', kind: 'table', columns: ['id', 'target_path'], readable: true },
+      { name: 'meta', kind: 'table', columns: ['key', 'value'], readable: false },
+      { name: 'popular', kind: 'view', columns: ['url', 'visit_count'], readable: true }
+    ]);
+
+    expect(await worker.previewFile({ handle, table: 'urls', rowLimit: 1 })).toEqual({
+      format: 'sqlite',
+      encoding: 'utf-8',
+      columns: ['id', 'url', 'visit_count'],
+      rows: [['1', 'https://example.com/', '3']]
+    });
+
+    const both = buildCallbacks();
+    await worker.loadFile(
+      {
+        files: [
+          { handle, table: 'urls' },
+          { handle, table: 'downloads' }
+        ]
+      },
+      both.callbacks
+    );
+    expect(both.events.complete?.columnTypes).toMatchObject({ visit_count: 'number' });
+    const snapshot = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(snapshot.rows.map((row) => [row.__source, row.id, row.url ?? null])).toEqual([
+      ['History/urls', 1, 'https://example.com/'],
+      ['History/urls', 2, 'https://example.org/login'],
+      ['History/downloads', 1, null]
+    ]);
+
+    await expect(worker.loadFile({ handle, table: 'meta' }, {})).rejects.toThrow(
+      'Table "meta" is declared WITHOUT ROWID, which is not supported.'
+    );
+
+    const query = 'SELECT url, visit_count FROM urls ORDER BY visit_count';
+    expect(
+      await worker.previewFile({ handle, table: 'By visits', query, rowLimit: 1 })
+    ).toMatchObject({ columns: ['url', 'visit_count'], rows: [['https://example.org/login', '1']] });
+
+    const queried = buildCallbacks();
+    await worker.loadFile(
+      {
+        files: [
+          { handle, table: 'popular' },
+          { handle, table: 'By visits', query }
+        ]
+      },
+      queried.callbacks
+    );
+    expect(queried.events.complete?.columnTypes).toMatchObject({ visit_count: 'number' });
+    const results = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(results.rows.map((row) => [row.__source, row.url, row.visit_count])).toEqual([
+      ['History/popular', 'https://example.com/', 3],
+      ['History/By visits', 'https://example.org/login', 1],
+      ['History/By visits', 'https://example.com/', 3]
+    ]);
+  });
+
+  it('reports the detected encoding and honours an override', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    // PowerShell Export-Csv output: UTF-16LE with a byte order mark.
+    const text = '\uFEFF"Name","Status"\r\n"Spooler","Running"\r\n';
+    const handle = createMockFileHandle(new Uint8Array(Buffer.from(text, 'utf16le')), {
+      name: 'services.csv'
+    });
+
+    const detected = buildCallbacks();
+    await worker.loadFile({ handle }, detected.callbacks);
+    expect(detected.events.complete?.encoding).toBe('utf-16le');
+    expect((await worker.fetchRows({ offset: 0, limit: 1 })).rows[0]).toMatchObject({
+      Name: 'Spooler',
+      Status: 'Running'
+    });
+
+    const forced = buildCallbacks();
+    await worker.loadFile({ handle, encoding: 'windows-1252' }, forced.callbacks);
+    expect(forced.events.complete?.encoding).toBe('windows-1252');
+  });
+
+  it('previews a file under a CSV dialect and loads with the same options', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      '# generated by collector\ndc01|4624|logon\nws17|4625|"failed"\n',
+      { name: 'events.txt' }
+    );
+    const dialect = { delimiter: '|' as const, commentPrefix: '#', hasHeader: false };
+
+    const preview = await worker.previewFile({ handle, ...dialect, rowLimit: 1 });
+    expect(preview).toEqual({
+      format: 'delimited',
+      encoding: 'utf-8',
+      columns: ['column_1', 'column_2', 'column_3'],
+      rows: [['dc01', '4624', 'logon']]
+    });
+
+    const { events, callbacks } = buildCallbacks();
+    await worker.loadFile({ handle, ...dialect }, callbacks);
+    expect(events.complete?.rowsParsed).toBe(2);
+    expect((await worker.fetchRows({ offset: 1, limit: 1 })).rows[0]).toMatchObject({
+      column_1: 'ws17',
+      column_3: 'failed'
+    });
+  });
+
+  it('collects parse issues per file and locates their rows in the current view', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const files = [
+      { handle: createMockFileHandle('host,user\ndc01,alice\n', { name: 'a.csv' }) },
+      { handle: createMockFileHandle('host,user\nws17,bob\nws18\n', { name: 'b.csv' }) }
+    ];
+    const { events, callbacks } = buildCallbacks();
+    await worker.loadFile({ files }, callbacks);
+
+    expect(events.complete?.parseIssueCount).toBe(1);
+    expect(await worker.getParseIssues()).toEqual({
+      totalIssues: 1,
+      issues: [
+        {
+          kind: 'missingFields',
+          rowIndex: 2,
+          byteOffset: 'host,user\nws17,bob\n'.length,
+          expectedFields: 2,
+          actualFields: 1,
+          snippet: 'ws18',
+          source: 'b.csv'
+        }
+      ]
+    });
+    expect(await worker.locateRow(2)).toBe(2);
+
+    await worker.applyFilter({
+      expression: { column: 'host', operator: 'startsWith', value: 'ws' },
+      offset: 0,
+      limit: 10
+    });
+    expect(await worker.locateRow(2)).toBe(1);
+    expect(await worker.locateRow(0)).toBeNull();
+  });
+
   it('applies filters and updates subsequent fetchRows calls', async () => {
     const worker = createDataWorkerApi();
     await worker.init({});
@@ -199,6 +817,344 @@ describe('dataWorkerApi integration harness', () => {
     expect(searchWindow.rows.map((row) => row.name)).toEqual(['Alice', 'Dave']);
   });
 
+  it('computes derived columns that filters, sorts, grouping and search can use', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      [
+        'User,Path,Bytes',
+        'CORP\\Alice,C:\\Windows\\cmd.exe,2048',
+        'corp\\bob,C:\\Tools\\psexec.exe,512',
+        'CORP\\Bob,C:\\Windows\\cmd.exe,4096'
+      ].join('\n')
+    );
+    const { events, callbacks } = buildCallbacks();
+    await worker.loadFile(
+      {
+        handle,
+        derivedColumns: [
+          { name: 'user', expression: 'lower(User)' },
+          { name: 'image', expression: "split(Path, '\\\\')[-1]" },
+          { name: 'kb', expression: 'Bytes / 1024' },
+          { name: 'broken', expression: 'upper(Bytes)' }
+        ]
+      },
+      callbacks
+    );
+
+    expect(events.complete?.columnTypes).toMatchObject({ user: 'string', kb: 'number' });
+    expect(events.complete?.derivedColumns).toEqual([
+      { name: 'user', type: 'string' },
+      { name: 'image', type: 'string' },
+      { name: 'kb', type: 'number' },
+      { name: 'broken', error: 'Argument 1 of upper() must be a string, got a number.' }
+    ]);
+
+    const filtered = await worker.applyFilter({
+      expression: { column: 'user', operator: 'eq', value: 'corp\\bob' },
+      offset: 0,
+      limit: 10
+    });
+    expect(filtered.rows.map((row) => row.image)).toEqual(['psexec.exe', 'cmd.exe']);
+
+    await worker.applySorts({ sorts: [{ column: 'kb', direction: 'asc' }], offset: 0, limit: 0 });
+    const sorted = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(sorted.rows.map((row) => row.kb)).toEqual([0.5, 4]);
+
+    await worker.applyFilter({ expression: null, offset: 0, limit: 0 });
+    const grouped = await worker.groupBy({
+      groupBy: 'image',
+      aggregations: [{ operator: 'sum', column: 'kb', alias: 'kb' }]
+    });
+    expect(grouped.rows.map((row) => [row.key, row.aggregates.kb])).toEqual([
+      ['cmd.exe', 6],
+      ['psexec.exe', 0.5]
+    ]);
+
+    const search = await worker.globalSearch({
+      query: 'psexec',
+      columns: ['image'],
+      caseSensitive: false
+    });
+    expect(search.matchedRows).toBe(1);
+
+    const statuses = await worker.setDerivedColumns([
+      { name: 'image', expression: 'upper(image)' },
+      { name: 'User', expression: 'lower(User)' }
+    ]);
+    expect(statuses).toEqual([
+      { name: 'image', error: 'Unknown column "image" at position 7.' },
+      { name: 'User', error: 'A column named "User" already exists.' }
+    ]);
+    const cleared = await worker.fetchRows({ offset: 0, limit: 1 });
+    expect(Object.keys(cleared.rows[0] ?? {})).not.toContain('user');
+  });
+
+  it('discovers field keys from sampled rows and explodes them into columns', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      ['Host,Payload', 'a,Pid=4;User=bob', 'b,', 'c,User=eve;Image=cmd.exe'].join('\n')
+    );
+    const { callbacks } = buildCallbacks();
+    await worker.loadFile({ handle }, callbacks);
+
+    const discovered = await worker.discoverFieldKeys({ column: 'Payload', mode: 'keyValue' });
+    expect(discovered).toEqual({
+      column: 'Payload',
+      sampledRows: 3,
+      keys: [
+        { key: 'Pid', count: 1, example: '4' },
+        { key: 'User', count: 2, example: 'bob' },
+        { key: 'Image', count: 1, example: 'cmd.exe' }
+      ]
+    });
+    const sampled = await worker.discoverFieldKeys({
+      column: 'Payload',
+      mode: 'keyValue',
+      sampleRows: 1
+    });
+    expect(sampled.keys.map(({ key }) => key)).toEqual(['Pid', 'User']);
+    await expect(worker.discoverFieldKeys({ column: 'Nope', mode: 'json' })).rejects.toThrow(
+      'Unknown column "Nope".'
+    );
+
+    await worker.setDerivedColumns([{ name: 'user', expression: "kv(Payload, 'User')" }]);
+    const filtered = await worker.applyFilter({
+      expression: { column: 'user', operator: 'eq', value: 'eve' },
+      offset: 0,
+      limit: 10
+    });
+    expect(filtered.rows.map((row) => row.Host)).toEqual(['c']);
+  });
+
+  it('re-coerces overridden columns from their text and reapplies saved overrides', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      ['Id,Seen', '1700000000,03.02.2024 10:00', '1700000001,04.02.2024 11:30'].join('\n')
+    );
+    const { events, callbacks } = buildCallbacks();
+    await worker.loadFile(
+      { handle, derivedColumns: [{ name: 'id', expression: 'lower(Id)' }] },
+      callbacks
+    );
+    // Read as month.day by Date.parse; only the format gets 3 February.
+    expect(events.complete?.columnTypes).toMatchObject({ Id: 'datetime', Seen: 'datetime' });
+    expect(events.complete?.derivedColumns?.[0]?.error).toBeDefined();
+    const inferredSeen = { ...events.complete!.columnInference.Seen };
+
+    const result = await worker.setColumnTypeOverrides({
+      Id: { type: 'string' },
+      Seen: { type: 'datetime', datetimeFormat: '%d.%m.%Y %H:%M' }
+    });
+    expect(result.columnTypes).toMatchObject({ Id: 'string', Seen: 'datetime', id: 'string' });
+    expect(result.columnInference.Seen).toMatchObject({
+      type: 'datetime',
+      confidence: 1,
+      minDatetime: Date.UTC(2024, 1, 3, 10),
+      maxDatetime: Date.UTC(2024, 1, 4, 11, 30)
+    });
+    expect(result.derivedColumns).toEqual([{ name: 'id', type: 'string' }]);
+
+    const filtered = await worker.applyFilter({
+      expression: { column: 'Id', operator: 'eq', value: '1700000001' },
+      offset: 0,
+      limit: 10
+    });
+    expect(filtered.rows.map((row) => [row.Id, row.Seen])).toEqual([
+      ['1700000001', '2024-02-04T11:30:00Z']
+    ]);
+    await worker.applyFilter({ expression: null, offset: 0, limit: 0 });
+
+    await expect(worker.setColumnTypeOverrides({ Nope: { type: 'number' } })).rejects.toThrow(
+      'Unknown column "Nope".'
+    );
+    await expect(
+      worker.setColumnTypeOverrides({ Seen: { type: 'datetime', datetimeFormat: '%q' } })
+    ).rejects.toThrow('Unknown datetime format directive "%q".');
+
+    await worker.setColumnTypeOverrides({ Id: { type: 'string' }, Seen: { type: 'string' } });
+    const rows = await worker.fetchRows({ offset: 0, limit: 1 });
+    expect(rows.rows[0]?.Seen).toBe('03.02.2024 10:00');
+    const reverted = await worker.setColumnTypeOverrides({ Id: { type: 'string' } });
+    expect(reverted.columnTypes).toMatchObject({ Id: 'string', Seen: 'datetime' });
+    expect(reverted.columnInference.Seen).toEqual(inferredSeen);
+
+    const datasetKey = events.complete!.datasetKey;
+    const reload = buildCallbacks();
+    await worker.loadFile(
+      {
+        handle,
+        columnTypeOverrides: {
+          [datasetKey]: { Id: { type: 'string' }, Gone: { type: 'number' } }
+        }
+      },
+      reload.callbacks
+    );
+    expect(reload.events.complete?.datasetKey).toBe(datasetKey);
+    expect(reload.events.complete?.columnTypes).toMatchObject({ Id: 'string' });
+    const reloaded = await worker.fetchRows({ offset: 0, limit: 1 });
+    expect(reloaded.rows[0]?.Id).toBe('1700000000');
+  });
+
+  it('reads forensic timestamp encodings as datetimes that sort and histogram', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      [
+        'Created,Visited,Modified,EventId',
+        '133514298000000000,13351429800000000,728649000,1706956200000000000',
+        '133514334000000000,13351433400000000,728652600,1706956200000000001',
+        '133514262000000000,13351426200000000,728645400,1706956200000000002'
+      ].join('\n')
+    );
+    const { events, callbacks } = buildCallbacks();
+    await worker.loadFile({ handle }, callbacks);
+    expect(events.complete?.columnTypes).toEqual({
+      Created: 'datetime',
+      Visited: 'datetime',
+      Modified: 'number',
+      EventId: 'number'
+    });
+    expect(events.complete?.columnInference.Created).toMatchObject({
+      minDatetime: Date.UTC(2024, 1, 3, 9, 30),
+      maxDatetime: Date.UTC(2024, 1, 3, 11, 30)
+    });
+
+    const result = await worker.setColumnTypeOverrides({
+      Modified: { type: 'datetime', timestampDecoder: 'cocoa' }
+    });
+    expect(result.columnInference.Modified).toMatchObject({
+      minDatetime: Date.UTC(2024, 1, 3, 9, 30),
+      maxDatetime: Date.UTC(2024, 1, 3, 11, 30)
+    });
+
+    await worker.applySorts({
+      sorts: [{ column: 'Modified', direction: 'asc' }],
+      offset: 0,
+      limit: 0
+    });
+    const sorted = await worker.fetchRows({ offset: 0, limit: 10 });
+    expect(sorted.rows.map((row) => [row.Created, row.Modified])).toEqual([
+      ['2024-02-03T09:30:00Z', '2024-02-03T09:30:00Z'],
+      ['2024-02-03T10:30:00Z', '2024-02-03T10:30:00Z'],
+      ['2024-02-03T11:30:00Z', '2024-02-03T11:30:00Z']
+    ]);
+
+    const histogram = await worker.getTimelineHistogram({ column: 'Modified', targetBuckets: 2 });
+    expect(histogram.start).toBe(Date.UTC(2024, 1, 3, 9));
+    expect(histogram.counts.reduce((sum, count) => sum + count, 0)).toBe(3);
+
+    await expect(
+      worker.setColumnTypeOverrides({ Modified: { type: 'datetime', timestampDecoder: 'nope' } })
+    ).rejects.toThrow('Unknown timestamp decoder "nope".');
+
+    await worker.setColumnTypeOverrides({ Created: { type: 'string' } });
+    const reverted = await worker.setColumnTypeOverrides({});
+    expect(reverted.columnInference.Created).toMatchObject({
+      type: 'datetime',
+      timestampDecoder: 'filetime'
+    });
+    const rows = await worker.fetchRows({ offset: 0, limit: 1 });
+    expect(rows.rows[0]?.Created).toBe('2024-02-03T09:30:00Z');
+  });
+
+  it('buckets datetime values over the active filter set', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      [
+        'ts,host',
+        '2024-01-01T00:10:00Z,alpha',
+        '2024-01-01T00:20:00Z,beta',
+        '2024-01-01T01:05:00Z,alpha',
+        '2024-01-01T03:59:00Z,alpha',
+        ',alpha'
+      ].join('\n') + '\n'
+    );
+    await worker.loadFile({ handle }, {});
+
+    const full = await worker.getTimelineHistogram({ column: 'ts', targetBuckets: 4 });
+    expect(full.bucketSizeMs).toBe(3_600_000);
+    expect(full.start).toBe(Date.UTC(2024, 0, 1, 0));
+    expect(full.counts).toEqual([2, 1, 0, 1]);
+    expect(full.nullRows).toBe(1);
+
+    await worker.applyFilter({
+      expression: { column: 'host', operator: 'eq', value: 'alpha', id: 'host-alpha' },
+      offset: 0,
+      limit: 0
+    });
+
+    const filtered = await worker.getTimelineHistogram({
+      column: 'ts',
+      start: Date.UTC(2024, 0, 1, 0),
+      end: Date.UTC(2024, 0, 1, 1, 30),
+      targetBuckets: 10
+    });
+    expect(filtered.bucketSizeMs).toBe(900_000);
+    expect(filtered.countedRows).toBe(2);
+    expect(filtered.outOfRangeRows).toBe(1);
+    expect(filtered.counts.reduce((sum, count) => sum + count, 0)).toBe(2);
+  });
+
+  it('runs a rule pack in one pass and appends each rule label to its hits', async () => {
+    const worker = createDataWorkerApi();
+    await worker.init({});
+
+    const handle = createMockFileHandle(
+      'host,process\nalpha,whoami.exe\nbeta,cmd.exe\nalpha,powershell.exe\ngamma,whoami.exe\n'
+    );
+    await worker.loadFile({ handle }, {});
+    await worker.updateLabel({
+      label: { id: 'recon', name: 'Recon', color: '#f00', createdAt: 1, updatedAt: 1 }
+    });
+
+    const result = await worker.runRulePack({
+      rules: [
+        {
+          id: 'whoami',
+          name: 'Whoami',
+          expression: { column: 'process', operator: 'eq', value: 'whoami.exe' },
+          labelId: 'recon'
+        },
+        {
+          id: 'alpha',
+          name: 'Alpha host',
+          expression: { column: 'host', operator: 'eq', value: 'alpha' }
+        }
+      ]
+    });
+
+    expect(result.totalRows).toBe(4);
+    expect(result.rules.map((rule) => rule.matchedRows)).toEqual([2, 2]);
+    expect(Object.keys(result.updated).map(Number)).toEqual([0, 3]);
+
+    const snapshot = await worker.loadTags();
+    expect(snapshot.tags[0]?.labelIds).toEqual(['recon']);
+    expect(snapshot.tags[3]?.labelIds).toEqual(['recon']);
+    expect(snapshot.tags[2]).toBeUndefined();
+
+    await expect(
+      worker.runRulePack({
+        rules: [
+          {
+            id: 'bad',
+            name: 'Bad',
+            expression: { column: 'host', operator: 'eq', value: 'beta' },
+            labelId: 'missing'
+          }
+        ]
+      })
+    ).rejects.toThrow('Rule "Bad" references unknown label "missing"');
+  });
+
   it('returns column value distributions for repeated string values', async () => {
     const worker = createDataWorkerApi();
     await worker.init({});
@@ -2,7 +2,15 @@ import { expose } from 'comlink';
 
 import type { MaterializedRow } from './utils/materializeRowBatch';
 import { RowIndexStore, findNearestCheckpoint } from './rowIndexStore';
+import { isReadableZipEntry, readZipEntries } from './utils/zipArchive';
+import { listXlsxSheets } from './xlsxParser';
+import { listSqliteTables } from './sqliteParser';
 import { groupMaterializedRows, normaliseGroupColumns } from './groupEngine';
+import {
+  accumulateTimelineRows,
+  createTimelineAccumulator,
+  resolveTimelineLayout
+} from './timelineEngine';
 import { RowBatchStore } from './rowBatchStore';
 import type { GroupingRequest, GroupingResult } from './types';
 import { isDebugLoggingEnabled, logDebug, setDebugLoggingEnabled } from '../utils/debugLog';
@@ -12,6 +20,11 @@ import { createFilterController } from './controllers/filterController';
 import { createSortController } from './controllers/sortController';
 import { createSearchController } from './controllers/searchController';
 import { createTaggingController } from './controllers/taggingController';
+import { createRulePackController } from './controllers/rulePackController';
+import { createIocController } from './controllers/iocController';
+import { createDerivedColumnController } from './controllers/derivedColumnController';
+import { createColumnTypeController } from './controllers/columnTypeController';
+import { discoverFieldKeys } from './fieldTransforms';
 import type {
   WorkerInitOptions,
   LoadFileRequest,
@@ -24,6 +37,14 @@ import type {
   ApplyFilterResult,
   ColumnValueDistributionRequest,
   ColumnValueDistributionResult,
+  DiscoverFieldKeysRequest,
+  DiscoverFieldKeysResult,
+  TimelineHistogramRequest,
+  TimelineHistogramResult,
+  RunRulePackRequest,
+  RunRulePackResult,
+  MatchIocsRequest,
+  MatchIocsResult,
   FetchRowsRequest,
   FetchRowsResult,
   DataWorkerApi,
@@ -240,7 +261,98 @@ export const createDataWorkerApi = (): DataWorkerApi => {
     }
   };
 
-  const ingestionPipeline = createIngestionPipeline({ state });
+  const getTimelineHistogram = async ({
+    column,
+    start,
+    end,
+    targetBuckets
+  }: TimelineHistogramRequest): Promise<TimelineHistogramResult> => {
+    const inference = state.dataset.columnInference[column];
+    const rangeStart = start ?? inference?.minDatetime;
+    const rangeEnd = end ?? inference?.maxDatetime;
+    const batchStore = state.dataset.batchStore;
+
+    if (!batchStore || rangeStart == null || rangeEnd == null) {
+      return {
+        column,
+        start: rangeStart ?? 0,
+        end: rangeEnd ?? 0,
+        bucketSizeMs: 0,
+        counts: [],
+        countedRows: 0,
+        nullRows: 0,
+        outOfRangeRows: 0
+      };
+    }
+
+    const layout = resolveTimelineLayout(rangeStart, rangeEnd, targetBuckets);
+    const accumulator = createTimelineAccumulator(layout);
+
+    // Sorting only permutes the filter/search set, so membership is what counts.
+    const activeOrder = getActiveRowOrder();
+    let includeRow: ((row: MaterializedRow) => boolean) | undefined;
+    if (activeOrder) {
+      const activeMask = new Uint8Array(state.dataset.totalRows);
+      for (let index = 0; index < activeOrder.length; index += 1) {
+        activeMask[activeOrder[index]!] = 1;
+      }
+      includeRow = (row) => activeMask[row.__rowId] === 1;
+    }
+
+    if (!activeOrder || activeOrder.length > 0) {
+      for await (const { rows } of batchStore.iterateMaterializedBatches()) {
+        accumulateTimelineRows(accumulator, rows, column, includeRow);
+      }
+    }
+
+    return {
+      column,
+      start: layout.start,
+      end: layout.end,
+      bucketSizeMs: layout.bucketSizeMs,
+      counts: Array.from(accumulator.counts),
+      countedRows: accumulator.countedRows,
+      nullRows: accumulator.nullRows,
+      outOfRangeRows: accumulator.outOfRangeRows
+    };
+  };
+
+  const getFieldKeys = async ({
+    column,
+    mode,
+    sampleRows = 5_000,
+    ...options
+  }: DiscoverFieldKeysRequest): Promise<DiscoverFieldKeysResult> => {
+    const batchStore = ensureBatchStore();
+    if (state.dataset.columnTypes[column] == null) {
+      throw new Error(`Unknown column "${column}".`);
+    }
+
+    const values: string[] = [];
+    let sampledRows = 0;
+    for await (const { rows } of batchStore.iterateMaterializedBatches()) {
+      for (const row of rows.slice(0, sampleRows - sampledRows)) {
+        const value = row[column];
+        if (typeof value === 'string' && value !== '') {
+          values.push(value);
+        }
+      }
+      sampledRows += Math.min(rows.length, sampleRows - sampledRows);
+      if (sampledRows >= sampleRows) {
+        break;
+      }
+    }
+
+    return { column, sampledRows, keys: discoverFieldKeys(values, mode, options) };
+  };
+
+  const derivedColumnController = createDerivedColumnController({ state });
+  const columnTypeController = createColumnTypeController({ state });
+  const ingestionPipeline = createIngestionPipeline({
+    state,
+    derivedColumnController,
+    columnTypeController
+  });
   const filterController = createFilterController({
     state,
     materializeViewWindow
@@ -254,6 +366,13 @@ export const createDataWorkerApi = (): DataWorkerApi => {
     state
   });
   const taggingController = createTaggingController(state);
+  const rulePackController = createRulePackController({
+    state,
+    taggingController
+  });
+  const iocController = createIocController({
+    state
+  });
 
 
 
@@ -289,6 +408,60 @@ export const createDataWorkerApi = (): DataWorkerApi => {
       taggingController.clear();
       await ingestionPipeline.run(request, callbacks);
     },
+    async listArchiveEntries(handle) {
+      const entries = await readZipEntries(await handle.getFile());
+      return entries.map((entry) => ({
+        path: entry.path,
+        size: entry.size,
+        compressedSize: entry.compressedSize,
+        readable: isReadableZipEntry(entry)
+      }));
+    },
+    async listWorkbookSheets(handle) {
+      const sheets = await listXlsxSheets(await handle.getFile());
+      return sheets.map((sheet) => sheet.name);
+    },
+    async listDatabaseTables(handle) {
+      const tables = await listSqliteTables(await handle.getFile());
+      return tables.map((table) => ({
+        name: table.name,
+        kind: table.kind,
+        columns: table.columns.map((column) => column.name),
+        readable: !table.withoutRowid
+      }));
+    },
+    async previewFile(request) {
+      return ingestionPipeline.preview(request);
+    },
+    async setDerivedColumns(definitions) {
+      return derivedColumnController.apply(definitions);
+    },
+    async setColumnTypeOverrides(overrides) {
+      await columnTypeController.apply(overrides);
+      const derivedColumns = derivedColumnController.refresh();
+      return {
+        columnTypes: state.dataset.columnTypes,
+        columnInference: state.dataset.columnInference,
+        derivedColumns
+      };
+    },
+    async discoverFieldKeys(request) {
+      return getFieldKeys(request);
+    },
+    async getParseIssues() {
+      return {
+        issues: state.dataset.parseIssues.slice(),
+        totalIssues: state.dataset.parseIssueCount
+      };
+    },
+    async locateRow(rowId) {
+      const order = getActiveRowOrder();
+      if (!order) {
+        return rowId >= 0 && rowId < state.dataset.totalRows ? rowId : null;
+      }
+      const index = order.indexOf(rowId);
+      return index === -1 ? null : index;
+    },
     async loadRowIndex(handle) {
       return RowIndexStore.load(handle);
     },
@@ -328,6 +501,17 @@ export const createDataWorkerApi = (): DataWorkerApi => {
     ): Promise<ColumnValueDistributionResult> {
       return getColumnValueDistribution(request);
     },
+    async getTimelineHistogram(
+      request: TimelineHistogramRequest
+    ): Promise<TimelineHistogramResult> {
+      return getTimelineHistogram(request);
+    },
+    async runRulePack(request: RunRulePackRequest): Promise<RunRulePackResult> {
+      return rulePackController.run(request);
+    },
+    async matchIocs(request: MatchIocsRequest): Promise<MatchIocsResult> {
+      return iocController.match(request);
+    },
     async fetchRows({ offset, limit }: FetchRowsRequest): Promise<FetchRowsResult> {
       if (isDebugLoggingEnabled()) {
         logDebug('data-worker', 'fetchRows request', {
@@ -19,8 +19,19 @@ export const getDataWorker = (): Remote<DataWorkerApi> => {
 export type DataWorkerRemote = Remote<DataWorkerApi>;
 
 export type {
+  ArchiveEntry,
+  CaseFile,
+  DatabaseTable,
+  DerivedColumnStatus,
+  DiscoverFieldKeysRequest,
+  DiscoverFieldKeysResult,
   LoadFileCallbacks,
   LoadFileRequest,
+  LoadedSource,
+  ParseIssueReport,
+  SetColumnTypeOverridesResult,
+  PreviewFileRequest,
+  PreviewFileResult,
   SeekRowsRequest,
   SeekRowsResult,
   ApplySortRequest,
@@ -29,6 +40,15 @@ export type {
   ApplyFilterResult,
   ColumnValueDistributionRequest,
   ColumnValueDistributionResult,
+  TimelineHistogramRequest,
+  TimelineHistogramResult,
+  RulePackRule,
+  RulePackRuleResult,
+  RunRulePackRequest,
+  RunRulePackResult,
+  IocHit,
+  MatchIocsRequest,
+  MatchIocsResult,
   FetchRowsRequest,
   FetchRowsResult,
   ClearSearchRequest,
@@ -45,3 +65,5 @@ export type {
   LoadCompleteSummary,
   GlobalSearchResult
 } from './workerApiTypes';
+
+export type { DiscoveredFieldKey } from './fieldTransforms';
@@ -1,17 +1,15 @@
 import { describe, expect, it } from 'vitest';
 
 import { suggestDidYouMean } from './didYouMean';
+import type { RowBatchStore } from './rowBatchStore';
 import type { FilterNode } from './types';
 
-const createBatchStore = (
-  rows: Array<Record<string, unknown>>
-): {
-  iterateMaterializedBatches: () => AsyncGenerator<{ rowStart: number; rows: Array<Record<string, unknown>> }>;
-} => ({
-  async *iterateMaterializedBatches() {
-    yield { rowStart: 0, rows };
-  }
-});
+const createBatchStore = (rows: Array<Record<string, unknown>>): RowBatchStore =>
+  ({
+    async *iterateMaterializedBatches() {
+      yield { rowStart: 0, rows };
+    }
+  }) as unknown as RowBatchStore;
 
 describe('suggestDidYouMean', () => {
   it('suggests close exact values for string equality predicates', async () => {
@@ -19,7 +17,7 @@ describe('suggestDidYouMean', () => {
       batchStore: createBatchStore([
         { message: 'login success' },
         { message: 'payment complete' }
-      ]) as any,
+      ]),
       expression: {
         column: 'message',
         operator: 'eq',
@@ -47,7 +45,7 @@ describe('suggestDidYouMean', () => {
 
     await expect(
       suggestDidYouMean({
-        batchStore: createBatchStore([{ message: 'login success', count: 42 }]) as any,
+        batchStore: createBatchStore([{ message: 'login success', count: 42 }]),
         expression: neqExpression,
         columnTypes: { message: 'string' }
       })
@@ -55,10 +53,38 @@ describe('suggestDidYouMean', () => {
 
     await expect(
       suggestDidYouMean({
-        batchStore: createBatchStore([{ message: 'login success', count: 42 }]) as any,
+        batchStore: createBatchStore([{ message: 'login success', count: 42 }]),
         expression: numericExpression,
         columnTypes: { count: 'number' }
       })
     ).resolves.toBeUndefined();
   });
+
+  it('skips equality predicates under a not node', async () => {
+    await expect(
+      suggestDidYouMean({
+        batchStore: createBatchStore([{ message: 'login success' }]),
+        expression: {
+          op: 'not',
+          predicates: [{ column: 'message', operator: 'eq', value: 'login sucess' }]
+        },
+        columnTypes: { message: 'string' }
+      })
+    ).resolves.toBeUndefined();
+  });
+
+  it('checks in-list entries one at a time', async () => {
+    const suggestion = await suggestDidYouMean({
+      batchStore: createBatchStore([{ host: 'workstation-01' }, { host: 'server-02' }]),
+      expression: { column: 'host', operator: 'in', value: ['unknown', 'server-2'] },
+      columnTypes: { host: 'string' }
+    });
+
+    expect(suggestion).toEqual({
+      column: 'host',
+      operator: 'in',
+      query: 'server-2',
+      suggestions: ['server-02']
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import type { RowBatchStore } from './rowBatchStore';
-import type { ColumnType, FilterNode, FilterPredicate } from './types';
+import type { ColumnType, FilterExpression, FilterNode, FilterPredicate } from './types';
 import { TAG_COLUMN_ID } from './types';
 import { damerauLevenshtein } from './utils/levenshtein';
 import { normalizeString } from './utils/stringUtils';
@@ -17,8 +17,10 @@ interface SuggestionCandidate {
   occurrences: number;
 }
 
-const isExpression = (node: FilterNode): node is Extract<FilterNode, { op: 'and' | 'or' }> =>
-  'op' in node;
+const isExpression = (node: FilterNode): node is FilterExpression => 'op' in node;
+
+/** Each `in` entry costs a full scan, so only the first few are checked. */
+const MAX_LIST_ENTRIES_CHECKED = 5;
 
 const determineMaxDistance = (value: string): number => {
   const trimmed = value.trim();
@@ -37,22 +39,34 @@ const collectSuggestionPredicates = (
   predicates: FilterPredicate[] = []
 ): FilterPredicate[] => {
   if (isExpression(node)) {
+    // A misspelt value under NOT excludes nothing, so it cannot explain an empty result.
+    if (node.op === 'not') {
+      return predicates;
+    }
     for (const predicate of node.predicates) {
       collectSuggestionPredicates(predicate, columnTypes, predicates);
     }
     return predicates;
   }
 
-  if (
-    node.column !== TAG_COLUMN_ID &&
-    node.operator === 'eq' &&
-    typeof node.value === 'string' &&
-    node.value.trim().length > 0 &&
-    (columnTypes[node.column] ?? 'string') === 'string'
-  ) {
+  if (node.column === TAG_COLUMN_ID || (columnTypes[node.column] ?? 'string') !== 'string') {
+    return predicates;
+  }
+
+  if (node.operator === 'eq' && typeof node.value === 'string' && node.value.trim().length > 0) {
     predicates.push(node);
   }
 
+  // Probe list entries one at a time; a suggestion replaces just that entry.
+  if (node.operator === 'in' && Array.isArray(node.value)) {
+    const entries = node.value.filter(
+      (entry): entry is string => typeof entry === 'string' && entry.trim().length > 0
+    );
+    for (const entry of entries.slice(0, MAX_LIST_ENTRIES_CHECKED)) {
+      predicates.push({ ...node, value: entry });
+    }
+  }
+
   return predicates;
 };
 
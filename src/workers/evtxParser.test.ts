@@ -0,0 +1,323 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+
+import { parseEvtxFile, type EvtxParserOptions } from './evtxParser';
+import {
+  buildEvtxFixture,
+  evtxBinXml,
+  evtxFiletime,
+  evtxGuid,
+  evtxHexInt64,
+  evtxNull,
+  evtxSid,
+  evtxString,
+  evtxStringArray,
+  evtxUInt16,
+  evtxUInt32,
+  evtxUInt64,
+  evtxUInt8,
+  type EvtxFixtureElement,
+  type EvtxFixtureRecord
+} from './test/evtxFixture';
+import type { RowBatch } from './types';
+import { materializeRowBatch } from './utils/materializeRowBatch';
+
+const toBlob = (bytes: Uint8Array): Blob => new NodeBlob([bytes]) as unknown as Blob;
+
+const collect = async (file: Blob, options?: EvtxParserOptions) => {
+  const headers: string[][] = [];
+  const batches: RowBatch[] = [];
+  const rows: string[][] = [];
+  const checkpoints: Array<{ rowIndex: number; byteOffset: number }> = [];
+  await parseEvtxFile(
+    file,
+    {
+      onHeader: (header) => {
+        headers.push(header);
+      },
+      onBatch: (batch) => {
+        batches.push(batch);
+      },
+      onRow: (row) => {
+        rows.push(row);
+      },
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(checkpoint);
+      }
+    },
+    options
+  );
+  return {
+    headers,
+    batches,
+    rows,
+    checkpoints,
+    records: batches.flatMap((batch) => materializeRowBatch(batch).rows)
+  };
+};
+
+const sub = (substitution: number) => ({ substitution });
+
+const SECURITY_EVENT: EvtxFixtureElement = {
+  name: 'Event',
+  attributes: [['xmlns', 'http://schemas.microsoft.com/win/2004/08/events/event']],
+  children: [
+    {
+      name: 'System',
+      children: [
+        { name: 'Provider', attributes: [['Name', sub(0)], ['Guid', sub(1)]] },
+        { name: 'EventID', children: [sub(2)] },
+        { name: 'Version', children: [sub(3)] },
+        { name: 'Level', children: [sub(4)] },
+        { name: 'Keywords', children: [sub(5)] },
+        { name: 'TimeCreated', attributes: [['SystemTime', sub(6)]] },
+        { name: 'EventRecordID', children: [sub(7)] },
+        { name: 'Correlation', attributes: [['ActivityID', sub(8)]] },
+        { name: 'Execution', attributes: [['ProcessID', sub(9)], ['ThreadID', sub(10)]] },
+        { name: 'Channel', children: ['Security'] },
+        { name: 'Computer', children: [sub(11)] },
+        { name: 'Security', attributes: [['UserID', sub(12)]] }
+      ]
+    },
+    {
+      name: 'EventData',
+      children: [
+        { name: 'Data', attributes: [['Name', 'TargetUserName']], children: [sub(13)] },
+        { name: 'Data', attributes: [['Name', 'LogonType']], children: [sub(14)] },
+        { name: 'Data', attributes: [['Name', 'IpAddress']], children: [sub(15)] },
+        { name: 'Data', attributes: [['Name', 'Computer']], children: [sub(16)] }
+      ]
+    }
+  ]
+};
+
+const SHORT_SYSTEM: EvtxFixtureElement = {
+  name: 'System',
+  children: [
+    { name: 'Provider', attributes: [['Name', sub(0)]] },
+    { name: 'EventID', children: [sub(1)] },
+    { name: 'TimeCreated', attributes: [['SystemTime', sub(2)]] },
+    { name: 'EventRecordID', children: [sub(3)] },
+    { name: 'Channel', children: [sub(4)] },
+    { name: 'Computer', children: [sub(5)] }
+  ]
+};
+
+// UserData arrives as an embedded BinXML value rather than in the template.
+const LOG_CLEARED_EVENT: EvtxFixtureElement = {
+  name: 'Event',
+  children: [SHORT_SYSTEM, sub(6)]
+};
+
+const APPLICATION_EVENT: EvtxFixtureElement = {
+  name: 'Event',
+  children: [
+    SHORT_SYSTEM,
+    {
+      name: 'EventData',
+      children: [
+        { name: 'Data', children: [sub(6)] },
+        { name: 'Data', children: [sub(7)] },
+        { name: 'Binary', children: [sub(8)] }
+      ]
+    }
+  ]
+};
+
+const AUDITING_GUID = Uint8Array.of(
+  0x25, 0x96, 0x84, 0x54, 0x78, 0x54, 0x94, 0x49, 0xa5, 0xba, 0x3e, 0x3b, 0x03, 0x28, 0xc3, 0x0d
+);
+const LOGON_TIME = Date.UTC(2024, 2, 1, 8, 15, 30, 123);
+const FIRST_RECORD_ID = 1041;
+
+const logon = (
+  id: number,
+  user: string,
+  logonType: number,
+  ipAddress: string,
+  activity = false
+): EvtxFixtureRecord => ({
+  id,
+  template: SECURITY_EVENT,
+  values: [
+    evtxString('Microsoft-Windows-Security-Auditing'),
+    evtxGuid(AUDITING_GUID),
+    evtxUInt16(4624),
+    evtxUInt8(2),
+    evtxUInt8(4),
+    evtxHexInt64(0x8020000000000000n),
+    evtxFiletime(LOGON_TIME + (id - FIRST_RECORD_ID) * 1000, 4567),
+    evtxUInt64(BigInt(id)),
+    activity ? evtxGuid(AUDITING_GUID.slice().reverse()) : evtxNull(),
+    evtxUInt32(628),
+    evtxUInt32(4120),
+    evtxString('dc01.corp.local'),
+    evtxSid('S-1-5-21-3623811015-3361044348-30300820-1013'),
+    evtxString(user),
+    evtxUInt32(logonType),
+    evtxString(ipAddress),
+    evtxString('ws17')
+  ]
+});
+
+const shortSystem = (id: number, provider: string, eventId: number, channel: string) => [
+  evtxString(provider),
+  evtxUInt16(eventId),
+  evtxFiletime(Date.UTC(2024, 2, 2, 12)),
+  evtxUInt64(BigInt(id)),
+  evtxString(channel),
+  evtxString('dc01.corp.local')
+];
+
+const FIXTURE = buildEvtxFixture({
+  chunks: [
+    [
+      logon(1041, 'alice', 2, '-'),
+      logon(1042, 'bob', 3, '10.0.0.7', true),
+      logon(1043, 'svc_backup', 10, '10.0.0.9')
+    ],
+    null,
+    [
+      {
+        id: 1044,
+        template: LOG_CLEARED_EVENT,
+        values: [
+          ...shortSystem(1044, 'Microsoft-Windows-Eventlog', 1102, 'Security'),
+          evtxBinXml({
+            name: 'UserData',
+            children: [
+              {
+                name: 'LogFileCleared',
+                attributes: [['xmlns', 'http://manifests.microsoft.com/win/2004/08/windows/e']],
+                children: [
+                  { name: 'SubjectUserName', children: ['admin'] },
+                  { name: 'SubjectDomainName', children: ['CORP'] }
+                ]
+              }
+            ]
+          })
+        ]
+      },
+      {
+        id: 1045,
+        template: APPLICATION_EVENT,
+        values: [
+          ...shortSystem(1045, 'Application Error', 1000, 'Application'),
+          evtxString('backup.exe'),
+          evtxStringArray(['C:\\Tools', 'D:\\Backup']),
+          { type: 0x0e, bytes: Uint8Array.of(0xde, 0xad, 0xbe, 0xef) }
+        ]
+      }
+    ]
+  ]
+});
+
+describe('evtxParser', () => {
+  it('turns System fields and EventData into typed columns', async () => {
+    const { headers, batches, rows, records } = await collect(toBlob(FIXTURE));
+
+    expect(headers.at(-1)).toEqual([
+      'Provider',
+      'Provider.Guid',
+      'EventID',
+      'Version',
+      'Level',
+      'Keywords',
+      'TimeCreated',
+      'EventRecordID',
+      'ProcessID',
+      'ThreadID',
+      'Channel',
+      'Computer',
+      'UserID',
+      'TargetUserName',
+      'LogonType',
+      'IpAddress',
+      'EventData.Computer',
+      'ActivityID',
+      'SubjectUserName',
+      'SubjectDomainName',
+      'Data.1',
+      'Data.2',
+      'Binary'
+    ]);
+    expect(rows[0]!.slice(0, 13)).toEqual([
+      'Microsoft-Windows-Security-Auditing',
+      '{54849625-5478-4994-A5BA-3E3B0328C30D}',
+      '4624',
+      '2',
+      '4',
+      '0x8020000000000000',
+      '2024-03-01T08:15:30.1234567Z',
+      '1041',
+      '628',
+      '4120',
+      'Security',
+      'dc01.corp.local',
+      'S-1-5-21-3623811015-3361044348-30300820-1013'
+    ]);
+    expect(records).toMatchObject([
+      {
+        TimeCreated: '2024-03-01T08:15:30.123Z',
+        EventID: 4624,
+        TargetUserName: 'alice',
+        LogonType: 2,
+        IpAddress: '-',
+        Computer: 'dc01.corp.local',
+        'EventData.Computer': 'ws17',
+        ActivityID: ''
+      },
+      {
+        TargetUserName: 'bob',
+        ActivityID: '{0328C30D-3E3B-A5BA-4994-547854849625}'
+      },
+      { EventRecordID: 1043, LogonType: 10 },
+      {
+        Provider: 'Microsoft-Windows-Eventlog',
+        EventID: 1102,
+        TimeCreated: '2024-03-02T12:00:00Z',
+        SubjectUserName: 'admin',
+        SubjectDomainName: 'CORP',
+        TargetUserName: ''
+      },
+      {
+        Provider: 'Application Error',
+        Channel: 'Application',
+        'Data.1': 'backup.exe',
+        'Data.2': 'C:\\Tools, D:\\Backup',
+        Binary: 'DEADBEEF'
+      }
+    ]);
+    expect(batches.at(-1)!.columnTypes).toMatchObject({
+      EventID: 'number',
+      TimeCreated: 'datetime',
+      Channel: 'string',
+      UserID: 'string'
+    });
+    expect(batches.at(-1)!.stats).toMatchObject({ rowsParsed: 5, eof: true });
+  });
+
+  it('checkpoints record offsets and stops at the row limit', async () => {
+    const full = await collect(toBlob(FIXTURE), { checkpointInterval: 3 });
+    expect(full.checkpoints).toEqual([
+      { rowIndex: 0, byteOffset: 4096 + 512 },
+      { rowIndex: 3, byteOffset: 4096 + 2 * 65_536 + 512 }
+    ]);
+
+    const limited = await collect(toBlob(FIXTURE), { rowLimit: 2, batchSize: 1 });
+    expect(limited.batches.map((batch) => Array.from(batch.rowIds))).toEqual([[0], [1]]);
+    expect(limited.rows).toHaveLength(2);
+  });
+
+  it('rejects foreign files and damaged records', async () => {
+    await expect(collect(toBlob(new TextEncoder().encode('time,host\n')))).rejects.toThrow(
+      'Not an EVTX file: the ElfFile signature is missing.'
+    );
+
+    const damaged = FIXTURE.slice();
+    damaged[4096 + 512] = 0;
+    await expect(collect(toBlob(damaged))).rejects.toThrow(
+      'Corrupt EVTX file: invalid event record header at offset 4608.'
+    );
+  });
+});
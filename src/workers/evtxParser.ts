@@ -0,0 +1,664 @@
+import type { ParserCallbacks } from './csvParser';
+import { createRecordBatcher, type RecordBatcherOptions } from './recordSource';
+
+/**
+ * Windows XML Event Log (`.evtx`) reader. The file is a 4 KiB header followed
+ * by 64 KiB chunks; each chunk holds event records whose body is BinXML, a
+ * tokenised XML in which names and templates are stored once per chunk and
+ * referenced by offset. Each event becomes one row: System fields keep their
+ * usual names (`TimeCreated`, `EventID`, `Computer`, …) and EventData /
+ * UserData values become columns named after their fields.
+ */
+
+export type EvtxParserOptions = RecordBatcherOptions & {
+  /** Stops after this many events; used for previews. */
+  rowLimit?: number;
+};
+
+interface XmlElement {
+  name: string;
+  attributes: Array<[name: string, value: XmlNode[]]>;
+  children: XmlNode[];
+}
+
+/** Placeholder in a template body, filled from the record's values. */
+interface Substitution {
+  index: number;
+}
+
+type XmlNode = string | XmlElement | Substitution;
+
+/** Text, embedded BinXML elements, or nothing for a null value. */
+type SubstitutionValue = string | XmlElement[] | null;
+
+interface EvtxRecord {
+  byteOffset: number;
+  nodes: XmlNode[];
+}
+
+const FILE_SIGNATURE = 'ElfFile\0';
+const CHUNK_SIGNATURE = 'ElfChnk\0';
+const DEFAULT_HEADER_BLOCK_SIZE = 4096;
+const CHUNK_SIZE = 0x10000;
+const CHUNK_HEADER_SIZE = 512;
+const RECORD_SIGNATURE = 0x00002a2a;
+// Signature, size, record id and written time precede the BinXML body.
+const RECORD_HEADER_SIZE = 24;
+const TEMPLATE_HEADER_SIZE = 24;
+const FILETIME_UNIX_EPOCH_SECONDS = 11_644_473_600n;
+const ARRAY_FLAG = 0x80;
+const MORE_FLAG = 0x40;
+
+const TOKEN = {
+  endOfFragment: 0x00,
+  openStartElement: 0x01,
+  closeStartElement: 0x02,
+  closeEmptyElement: 0x03,
+  endElement: 0x04,
+  value: 0x05,
+  attribute: 0x06,
+  cdata: 0x07,
+  charRef: 0x08,
+  entityRef: 0x09,
+  piTarget: 0x0a,
+  piData: 0x0b,
+  templateInstance: 0x0c,
+  normalSubstitution: 0x0d,
+  optionalSubstitution: 0x0e,
+  fragmentHeader: 0x0f
+} as const;
+
+const VALUE_TYPE = {
+  null: 0x00,
+  string: 0x01,
+  ansiString: 0x02,
+  int8: 0x03,
+  uint8: 0x04,
+  int16: 0x05,
+  uint16: 0x06,
+  int32: 0x07,
+  uint32: 0x08,
+  int64: 0x09,
+  uint64: 0x0a,
+  real32: 0x0b,
+  real64: 0x0c,
+  bool: 0x0d,
+  binary: 0x0e,
+  guid: 0x0f,
+  sizeT: 0x10,
+  filetime: 0x11,
+  systemtime: 0x12,
+  sid: 0x13,
+  hexInt32: 0x14,
+  hexInt64: 0x15,
+  binXml: 0x21
+} as const;
+
+/** Element sizes of fixed-width types, used to split arrays of them. */
+const VALUE_SIZES: Record<number, number> = {
+  [VALUE_TYPE.int8]: 1,
+  [VALUE_TYPE.uint8]: 1,
+  [VALUE_TYPE.int16]: 2,
+  [VALUE_TYPE.uint16]: 2,
+  [VALUE_TYPE.int32]: 4,
+  [VALUE_TYPE.uint32]: 4,
+  [VALUE_TYPE.int64]: 8,
+  [VALUE_TYPE.uint64]: 8,
+  [VALUE_TYPE.real32]: 4,
+  [VALUE_TYPE.real64]: 8,
+  [VALUE_TYPE.bool]: 4,
+  [VALUE_TYPE.guid]: 16,
+  [VALUE_TYPE.filetime]: 8,
+  [VALUE_TYPE.systemtime]: 16,
+  [VALUE_TYPE.hexInt32]: 4,
+  [VALUE_TYPE.hexInt64]: 8
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** System attributes better known by a short name than `Element.Attribute`. */
+const SYSTEM_ATTRIBUTE_COLUMNS: Record<string, string> = {
+  'Provider.Name': 'Provider',
+  'TimeCreated.SystemTime': 'TimeCreated',
+  'Correlation.ActivityID': 'ActivityID',
+  'Correlation.RelatedActivityID': 'RelatedActivityID',
+  'Execution.ProcessID': 'ProcessID',
+  'Execution.ThreadID': 'ThreadID',
+  'Security.UserID': 'UserID'
+};
+
+const utf16Decoder = new TextDecoder('utf-16le');
+const ansiDecoder = new TextDecoder('windows-1252');
+
+const startsWithText = (bytes: Uint8Array, text: string): boolean =>
+  bytes.length >= text.length &&
+  Array.from(text).every((char, index) => bytes[index] === char.charCodeAt(0));
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const stripNuls = (text: string): string => text.replace(/\0+$/, '');
+
+/** FILETIME (100 ns ticks since 1601) as ISO-8601 with all seven fraction digits. */
+const formatFiletime = (ticks: bigint): string => {
+  if (ticks === 0n) {
+    return '';
+  }
+  const seconds = ticks / 10_000_000n - FILETIME_UNIX_EPOCH_SECONDS;
+  const date = new Date(Number(seconds) * 1000);
+  if (Number.isNaN(date.getTime()) || date.getUTCFullYear() > 9999) {
+    return ticks.toString();
+  }
+  const fraction = (ticks % 10_000_000n).toString().padStart(7, '0');
+  return `${date.toISOString().slice(0, 19)}.${fraction}Z`;
+};
+
+const isSubstitution = (node: XmlNode): node is Substitution =>
+  typeof node === 'object' && 'index' in node;
+
+const isElement = (node: XmlNode): node is XmlElement =>
+  typeof node === 'object' && 'name' in node;
+
+const childElements = (element: XmlElement): XmlElement[] => element.children.filter(isElement);
+
+const textOf = (nodes: XmlNode[]): string =>
+  nodes.filter((node): node is string => typeof node === 'string').join('');
+
+/** Replaces a template's substitutions with one record's values. */
+const fillTemplate = (nodes: XmlNode[], values: SubstitutionValue[]): XmlNode[] =>
+  nodes.flatMap((node): XmlNode[] => {
+    if (typeof node === 'string') {
+      return [node];
+    }
+    if (isSubstitution(node)) {
+      const value = values[node.index];
+      if (value == null) {
+        return [];
+      }
+      return typeof value === 'string' ? [value] : value;
+    }
+    return [
+      {
+        name: node.name,
+        attributes: node.attributes
+          .map(([name, value]): [string, XmlNode[]] => [name, fillTemplate(value, values)])
+          // Attributes fed only by null values are left out, as Event Viewer does.
+          .filter(([, value]) => value.length > 0),
+        children: fillTemplate(node.children, values)
+      }
+    ];
+  });
+
+const createChunkReader = (chunk: Uint8Array, chunkOffset: number) => {
+  const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  const names = new Map<number, string>();
+  const templates = new Map<number, XmlNode[]>();
+  const cursor = { pos: 0 };
+
+  const corrupt = (message: string, offset: number): Error =>
+    new Error(`Corrupt EVTX file: ${message} at offset ${chunkOffset + offset}.`);
+
+  const byte = (): number => {
+    const value = view.getUint8(cursor.pos);
+    cursor.pos += 1;
+    return value;
+  };
+  const uint16 = (): number => {
+    const value = view.getUint16(cursor.pos, true);
+    cursor.pos += 2;
+    return value;
+  };
+  const uint32 = (): number => {
+    const value = view.getUint32(cursor.pos, true);
+    cursor.pos += 4;
+    return value;
+  };
+  const utf16 = (charCount: number): string => {
+    const start = cursor.pos;
+    cursor.pos += charCount * 2;
+    if (cursor.pos > chunk.length) {
+      throw corrupt('text runs past the chunk', start);
+    }
+    return utf16Decoder.decode(chunk.subarray(start, cursor.pos));
+  };
+
+  const readName = (offset: number): string => {
+    const cached = names.get(offset);
+    if (cached != null) {
+      return cached;
+    }
+    // Next-name offset and hash come before the length-prefixed UTF-16 text.
+    const name = utf16Decoder.decode(
+      chunk.subarray(offset + 8, offset + 8 + view.getUint16(offset + 6, true) * 2)
+    );
+    names.set(offset, name);
+    return name;
+  };
+
+  /** A name is stored inline the first time it is used and referenced afterwards. */
+  const readNameReference = (): string => {
+    const offset = uint32();
+    if (offset === cursor.pos) {
+      cursor.pos += 10 + view.getUint16(offset + 6, true) * 2;
+    }
+    return readName(offset);
+  };
+
+  const decodeScalar = (type: number, start: number, size: number): string => {
+    const bytes = chunk.subarray(start, start + size);
+    switch (type) {
+      case VALUE_TYPE.string:
+        return stripNuls(utf16Decoder.decode(bytes));
+      case VALUE_TYPE.ansiString:
+        return stripNuls(ansiDecoder.decode(bytes));
+      case VALUE_TYPE.int8:
+        return String(view.getInt8(start));
+      case VALUE_TYPE.uint8:
+        return String(view.getUint8(start));
+      case VALUE_TYPE.int16:
+        return String(view.getInt16(start, true));
+      case VALUE_TYPE.uint16:
+        return String(view.getUint16(start, true));
+      case VALUE_TYPE.int32:
+        return String(view.getInt32(start, true));
+      case VALUE_TYPE.uint32:
+        return String(view.getUint32(start, true));
+      case VALUE_TYPE.int64:
+        return String(view.getBigInt64(start, true));
+      case VALUE_TYPE.uint64:
+        return String(view.getBigUint64(start, true));
+      case VALUE_TYPE.real32:
+        return String(view.getFloat32(start, true));
+      case VALUE_TYPE.real64:
+        return String(view.getFloat64(start, true));
+      case VALUE_TYPE.bool:
+        return bytes.some((value) => value !== 0) ? 'true' : 'false';
+      case VALUE_TYPE.binary:
+        return toHex(bytes).toUpperCase();
+      case VALUE_TYPE.guid: {
+        const data1 = view.getUint32(start, true).toString(16).padStart(8, '0');
+        const data2 = view.getUint16(start + 4, true).toString(16).padStart(4, '0');
+        const data3 = view.getUint16(start + 6, true).toString(16).padStart(4, '0');
+        const data4 = toHex(bytes.subarray(8, 10));
+        const data5 = toHex(bytes.subarray(10, 16));
+        return `{${data1}-${data2}-${data3}-${data4}-${data5}}`.toUpperCase();
+      }
+      case VALUE_TYPE.hexInt32:
+        return `0x${view.getUint32(start, true).toString(16)}`;
+      case VALUE_TYPE.sizeT:
+      case VALUE_TYPE.hexInt64:
+        return size === 4
+          ? `0x${view.getUint32(start, true).toString(16)}`
+          : `0x${view.getBigUint64(start, true).toString(16)}`;
+      case VALUE_TYPE.filetime:
+        return formatFiletime(view.getBigUint64(start, true));
+      case VALUE_TYPE.systemtime: {
+        const part = (index: number) => view.getUint16(start + index * 2, true);
+        // Year, month, day of week, day, hour, minute, second, milliseconds.
+        const date = new Date(
+          Date.UTC(part(0), part(1) - 1, part(3), part(4), part(5), part(6), part(7))
+        );
+        return part(0) === 0 || Number.isNaN(date.getTime()) ? '' : date.toISOString();
+      }
+      case VALUE_TYPE.sid: {
+        const subAuthorityCount = bytes[1] ?? 0;
+        let authority = 0;
+        for (let index = 2; index < 8; index += 1) {
+          authority = authority * 256 + (bytes[index] ?? 0);
+        }
+        const subAuthorities = Array.from({ length: subAuthorityCount }, (_, index) =>
+          view.getUint32(start + 8 + index * 4, true)
+        );
+        return ['S', bytes[0] ?? 0, authority, ...subAuthorities].join('-');
+      }
+      default:
+        return toHex(bytes).toUpperCase();
+    }
+  };
+
+  const decodeValue = (type: number, start: number, size: number): SubstitutionValue => {
+    if (type === VALUE_TYPE.null || size === 0) {
+      return null;
+    }
+    if (type === VALUE_TYPE.binXml) {
+      return parseFragment(start, start + size, true).filter(isElement);
+    }
+    if ((type & ARRAY_FLAG) === 0) {
+      return decodeScalar(type, start, size);
+    }
+
+    const itemType = type & ~ARRAY_FLAG;
+    if (itemType === VALUE_TYPE.string) {
+      return utf16Decoder
+        .decode(chunk.subarray(start, start + size))
+        .split('\0')
+        .filter((item) => item.length > 0)
+        .join(', ');
+    }
+    const itemSize = VALUE_SIZES[itemType];
+    if (!itemSize) {
+      return decodeScalar(VALUE_TYPE.binary, start, size);
+    }
+    const items: string[] = [];
+    for (let offset = start; offset + itemSize <= start + size; offset += itemSize) {
+      items.push(decodeScalar(itemType, offset, itemSize));
+    }
+    return items.join(', ');
+  };
+
+  const readTemplateBody = (definitionOffset: number): XmlNode[] => {
+    const cached = templates.get(definitionOffset);
+    if (cached) {
+      return cached;
+    }
+    // Guards against a template that refers to itself.
+    templates.set(definitionOffset, []);
+    const start = definitionOffset + TEMPLATE_HEADER_SIZE;
+    const body = parseFragment(start, start + view.getUint32(definitionOffset + 20, true), false);
+    templates.set(definitionOffset, body);
+    return body;
+  };
+
+  const readTemplateInstance = (): XmlNode[] => {
+    cursor.pos += 6; // token, unknown byte, template id
+    const definitionOffset = uint32();
+    if (definitionOffset === cursor.pos) {
+      cursor.pos += TEMPLATE_HEADER_SIZE + view.getUint32(definitionOffset + 20, true);
+    }
+    const body = readTemplateBody(definitionOffset);
+
+    const descriptors = Array.from({ length: uint32() }, () => {
+      const size = uint16();
+      const type = byte();
+      cursor.pos += 1;
+      return { size, type };
+    });
+    const values = descriptors.map(({ size, type }) => {
+      const value = decodeValue(type, cursor.pos, size);
+      cursor.pos += size;
+      return value;
+    });
+    return fillTemplate(body, values);
+  };
+
+  /** Reads a text-like token, or returns undefined when the next token is not one. */
+  const readContent = (): XmlNode | undefined => {
+    const start = cursor.pos;
+    const token = view.getUint8(start) & ~MORE_FLAG;
+    switch (token) {
+      case TOKEN.value: {
+        cursor.pos += 1;
+        const type = byte();
+        if (type !== VALUE_TYPE.string) {
+          throw corrupt(`unsupported BinXML value type 0x${type.toString(16)}`, start);
+        }
+        return utf16(uint16());
+      }
+      case TOKEN.normalSubstitution:
+      case TOKEN.optionalSubstitution: {
+        cursor.pos += 1;
+        const index = uint16();
+        cursor.pos += 1; // declared value type
+        return { index };
+      }
+      case TOKEN.cdata:
+        cursor.pos += 1;
+        return utf16(uint16());
+      case TOKEN.charRef:
+        cursor.pos += 1;
+        return String.fromCharCode(uint16());
+      case TOKEN.entityRef: {
+        cursor.pos += 1;
+        const name = readNameReference();
+        return ENTITIES[name] ?? `&${name};`;
+      }
+      case TOKEN.piTarget:
+        cursor.pos += 1;
+        readNameReference();
+        return '';
+      case TOKEN.piData:
+        cursor.pos += 1;
+        utf16(uint16());
+        return '';
+      default:
+        return undefined;
+    }
+  };
+
+  const readElement = (embedded: boolean): XmlElement => {
+    const token = byte();
+    // Elements inside a BinXML value carry no dependency identifier.
+    cursor.pos += embedded ? 4 : 6;
+    const element: XmlElement = { name: readNameReference(), attributes: [], children: [] };
+    if (token & MORE_FLAG) {
+      cursor.pos += 4; // attribute list size
+    }
+
+    while ((view.getUint8(cursor.pos) & ~MORE_FLAG) === TOKEN.attribute) {
+      cursor.pos += 1;
+      const name = readNameReference();
+      const value: XmlNode[] = [];
+      for (let node = readContent(); node !== undefined; node = readContent()) {
+        value.push(node);
+      }
+      element.attributes.push([name, value]);
+    }
+
+    const closeOffset = cursor.pos;
+    const close = byte();
+    if (close === TOKEN.closeEmptyElement) {
+      return element;
+    }
+    if (close !== TOKEN.closeStartElement) {
+      throw corrupt(`unexpected BinXML token 0x${close.toString(16)}`, closeOffset);
+    }
+
+    while (view.getUint8(cursor.pos) !== TOKEN.endElement) {
+      const childOffset = cursor.pos;
+      const childToken = view.getUint8(childOffset);
+      if ((childToken & ~MORE_FLAG) === TOKEN.openStartElement) {
+        element.children.push(readElement(embedded));
+      } else if (childToken === TOKEN.templateInstance) {
+        element.children.push(...readTemplateInstance());
+      } else {
+        const content = readContent();
+        if (content === undefined) {
+          throw corrupt(`unexpected BinXML token 0x${childToken.toString(16)}`, childOffset);
+        }
+        element.children.push(content);
+      }
+    }
+    cursor.pos += 1;
+    return element;
+  };
+
+  function parseFragment(start: number, end: number, embedded: boolean): XmlNode[] {
+    const saved = cursor.pos;
+    cursor.pos = start;
+    const nodes: XmlNode[] = [];
+    while (cursor.pos < end) {
+      const tokenOffset = cursor.pos;
+      const token = view.getUint8(tokenOffset);
+      if (token === TOKEN.endOfFragment) {
+        break;
+      }
+      if (token === TOKEN.fragmentHeader) {
+        cursor.pos += 4;
+      } else if (token === TOKEN.templateInstance) {
+        nodes.push(...readTemplateInstance());
+      } else if ((token & ~MORE_FLAG) === TOKEN.openStartElement) {
+        nodes.push(readElement(embedded));
+      } else {
+        throw corrupt(`unexpected BinXML token 0x${token.toString(16)}`, tokenOffset);
+      }
+    }
+    cursor.pos = saved;
+    return nodes;
+  }
+
+  function* readRecords(): Generator<EvtxRecord> {
+    // Records end where the chunk's free space begins.
+    const end = Math.min(view.getUint32(48, true), chunk.length);
+    let offset = CHUNK_HEADER_SIZE;
+    while (offset + RECORD_HEADER_SIZE <= end) {
+      const size = view.getUint32(offset + 4, true);
+      if (
+        view.getUint32(offset, true) !== RECORD_SIGNATURE ||
+        size < RECORD_HEADER_SIZE + 4 ||
+        offset + size > end
+      ) {
+        throw corrupt('invalid event record header', offset);
+      }
+      let nodes: XmlNode[];
+      try {
+        nodes = parseFragment(offset + RECORD_HEADER_SIZE, offset + size - 4, false);
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw corrupt('event record runs past its chunk', offset);
+        }
+        throw error;
+      }
+      yield { byteOffset: chunkOffset + offset, nodes };
+      offset += size;
+    }
+  }
+
+  return { readRecords };
+};
+
+/** Keeps the first column under its own name and qualifies later ones that collide. */
+const setField = (
+  record: Record<string, string>,
+  name: string,
+  value: string,
+  section: string
+): void => {
+  record[name in record ? `${section}.${name}` : name] = value;
+};
+
+/** Flattens leaves into dotted paths (`Parent.Child`, `Element.Attribute`). */
+const flattenLeaves = (
+  element: XmlElement,
+  path: string,
+  record: Record<string, string>,
+  section: string
+): void => {
+  for (const [name, value] of element.attributes) {
+    if (!name.startsWith('xmlns')) {
+      setField(record, `${path}.${name}`, textOf(value), section);
+    }
+  }
+  const children = childElements(element);
+  if (children.length === 0) {
+    const text = textOf(element.children);
+    if (text || element.attributes.length === 0) {
+      setField(record, path, text, section);
+    }
+    return;
+  }
+  for (const child of children) {
+    flattenLeaves(child, `${path}.${child.name}`, record, section);
+  }
+};
+
+const flattenSystem = (system: XmlElement, record: Record<string, string>): void => {
+  for (const child of childElements(system)) {
+    const text = textOf(child.children);
+    if (text) {
+      record[child.name] = text;
+    }
+    for (const [name, value] of child.attributes) {
+      const key = `${child.name}.${name}`;
+      record[SYSTEM_ATTRIBUTE_COLUMNS[key] ?? key] = textOf(value);
+    }
+  }
+};
+
+const flattenEventData = (eventData: XmlElement, record: Record<string, string>): void => {
+  let unnamed = 0;
+  for (const child of childElements(eventData)) {
+    const name = child.attributes.find(([attribute]) => attribute === 'Name');
+    if (name) {
+      setField(record, textOf(name[1]), textOf(child.children), 'EventData');
+    } else if (child.name === 'Data') {
+      unnamed += 1;
+      setField(record, `Data.${unnamed}`, textOf(child.children), 'EventData');
+    } else {
+      flattenLeaves(child, child.name, record, 'EventData');
+    }
+  }
+};
+
+/** Turns one `<Event>` into a flat record of column name → text. */
+const flattenEvent = (nodes: XmlNode[]): Record<string, string> => {
+  const record: Record<string, string> = {};
+  const event = nodes.find(isElement);
+  if (!event) {
+    return record;
+  }
+
+  for (const section of childElements(event)) {
+    if (section.name === 'System') {
+      flattenSystem(section, record);
+    } else if (section.name === 'EventData') {
+      flattenEventData(section, record);
+    } else if (section.name === 'UserData') {
+      // UserData wraps its fields in one provider-specific element.
+      for (const wrapper of childElements(section)) {
+        const fields = childElements(wrapper);
+        if (fields.length === 0) {
+          flattenLeaves(wrapper, wrapper.name, record, 'UserData');
+        }
+        for (const field of fields) {
+          flattenLeaves(field, field.name, record, 'UserData');
+        }
+      }
+    } else {
+      flattenLeaves(section, section.name, record, section.name);
+    }
+  }
+  return record;
+};
+
+/**
+ * Reads the chunks of an EVTX file in order and streams one row per event
+ * record into the same columnar {@link RowBatch} format as the text parsers.
+ * Zero-filled chunks that a pre-allocated log has not used yet are skipped.
+ */
+export const parseEvtxFile = async (
+  file: Blob,
+  callbacks: ParserCallbacks,
+  options: EvtxParserOptions = {}
+): Promise<void> => {
+  const rowLimit = options.rowLimit ?? Number.POSITIVE_INFINITY;
+  const header = new Uint8Array(await file.slice(0, DEFAULT_HEADER_BLOCK_SIZE).arrayBuffer());
+  if (!startsWithText(header, FILE_SIGNATURE)) {
+    throw new Error('Not an EVTX file: the ElfFile signature is missing.');
+  }
+  const headerBlockSize =
+    new DataView(header.buffer).getUint16(40, true) || DEFAULT_HEADER_BLOCK_SIZE;
+  const batcher = createRecordBatcher(callbacks, options);
+
+  for (
+    let chunkOffset = headerBlockSize;
+    chunkOffset + CHUNK_SIZE <= file.size && batcher.rowCount() < rowLimit;
+    chunkOffset += CHUNK_SIZE
+  ) {
+    const chunk = new Uint8Array(
+      await file.slice(chunkOffset, chunkOffset + CHUNK_SIZE).arrayBuffer()
+    );
+    batcher.setBytesParsed(chunkOffset + CHUNK_SIZE);
+    if (!startsWithText(chunk, CHUNK_SIGNATURE)) {
+      continue;
+    }
+
+    for (const { byteOffset, nodes } of createChunkReader(chunk, chunkOffset).readRecords()) {
+      await batcher.addRecord(flattenEvent(nodes), byteOffset);
+      if (batcher.rowCount() >= rowLimit) {
+        break;
+      }
+    }
+  }
+
+  await batcher.finish();
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+
+import { compileExpression } from './expressionEngine';
+import type { ColumnType } from './types';
+
+const COLUMN_TYPES: Record<string, ColumnType> = {
+  User: 'string',
+  Path: 'string',
+  Bytes: 'number',
+  Src: 'string',
+  Port: 'number',
+  Time: 'datetime',
+  Elevated: 'boolean',
+  'Source IP': 'string',
+  'event.code': 'number'
+};
+
+const ROW = {
+  __rowId: 0,
+  User: 'CORP\\Alice',
+  Path: 'C:\\Windows\\System32\\cmd.exe',
+  Bytes: 3072,
+  Src: '10.0.0.5',
+  Port: 443,
+  Time: '2024-03-01T08:15:30Z',
+  Elevated: true,
+  'Source IP': '192.0.2.7',
+  'event.code': 4688
+};
+
+const evaluate = (expression: string, row: Record<string, unknown> = ROW) => {
+  const compiled = compileExpression(expression, COLUMN_TYPES);
+  return { type: compiled.type, value: compiled.evaluate(row) };
+};
+
+describe('compileExpression', () => {
+  it('evaluates the common derivations with their result types', () => {
+    expect(evaluate('lower(User)')).toEqual({ type: 'string', value: 'corp\\alice' });
+    expect(evaluate("split(Path, '\\\\')[-1]")).toEqual({ type: 'string', value: 'cmd.exe' });
+    expect(evaluate('Bytes / 1024')).toEqual({ type: 'number', value: 3 });
+    expect(evaluate("concat(Src, ':', Port)")).toEqual({ type: 'string', value: '10.0.0.5:443' });
+    expect(evaluate('`Source IP`')).toEqual({ type: 'string', value: '192.0.2.7' });
+    expect(evaluate('event.code = 4688 and not Port = 80')).toEqual({
+      type: 'boolean',
+      value: true
+    });
+  });
+
+  it('follows operator precedence and the function set', () => {
+    expect(evaluate('1 + 2 * 3 - -4 % 3').value).toBe(8);
+    expect(evaluate('(Bytes + 1024) / 2').value).toBe(2048);
+    expect(evaluate('round(Bytes / 1000, 1)').value).toBe(3.1);
+    expect(evaluate('substr(Path, -7, 3)').value).toBe('cmd');
+    expect(evaluate("replace(Path, '\\\\', '/')").value).toBe('C:/Windows/System32/cmd.exe');
+    expect(evaluate("if(Elevated, 'admin', 'user')").value).toBe('admin');
+    expect(evaluate("coalesce(Src, 'unknown')", { ...ROW, Src: '' }).value).toBe('unknown');
+    expect(evaluate("number('42') + length(User)").value).toBe(52);
+    expect(evaluate('STARTSWITH(upper(User), "CORP")').value).toBe(true);
+    expect(evaluate("split(Path, '\\\\')[9]").value).toBeNull();
+  });
+
+  it('reads and writes datetimes as ISO strings', () => {
+    expect(evaluate('hour(Time) * 60 + minute(Time)').value).toBe(495);
+    expect(evaluate("Time > '2024-03-01' and Time < '2024-03-01 09:00'").value).toBe(true);
+    expect(evaluate("datetime('2024-03-01 10:00:00')")).toEqual({
+      type: 'datetime',
+      value: '2024-03-01T10:00:00Z'
+    });
+    expect(evaluate("concat('at ', Time)").value).toBe('at 2024-03-01T08:15:30Z');
+  });
+
+  it('extracts regex matches and capture groups', () => {
+    const sha256 = 'ab'.repeat(32);
+    const row = { ...ROW, User: `MD5=0cc175b9c0f1b6a831c399e269772661,SHA256=${sha256}` };
+    const hashes = "'\\\\b(?:(?<md5>[0-9a-f]{32})|(?<sha256>[0-9a-f]{64}))\\\\b'";
+    expect(evaluate("extract(Path, '[a-z]+\\\\.exe')").value).toBe('cmd.exe');
+    expect(evaluate("extract(Path, '^(\\\\w):', 1)").value).toBe('C');
+    expect(evaluate(`extract(User, ${hashes}, 'sha256')`, row)).toEqual({
+      type: 'string',
+      value: sha256
+    });
+    expect(evaluate("extract(Src, '\\\\d+\\\\.\\\\d+$', 0)").value).toBe('0.5');
+    expect(evaluate("extract(User, 'nothing')").value).toBeNull();
+
+    const fails = (expression: string) => () => compileExpression(expression, COLUMN_TYPES);
+    expect(fails("extract(User, '(?<user>')")).toThrow(
+      'Invalid pattern for extract() at position 1:'
+    );
+    expect(fails("extract(User, '(?<user>\\\\w+)', 'name')")).toThrow(
+      'The pattern of extract() at position 1 has no group "name".'
+    );
+    expect(fails("extract(User, '(\\\\w+)', 2)")).toThrow('has no group "2"');
+  });
+
+  it('reads key/value pairs and JSON paths', () => {
+    const pairs = { ...ROW, User: 'Image=C:\\cmd.exe;User="CORP\\bob";Pid=42' };
+    expect(evaluate("kv(User, 'User')", pairs)).toEqual({ type: 'string', value: 'CORP\\bob' });
+    expect(evaluate("kv(User, 'Missing')", pairs).value).toBeNull();
+    const payload = { ...ROW, User: 'Target: x, Logon: 3' };
+    expect(evaluate("kv(User, 'Logon', ', ', ': ')", payload).value).toBe('3');
+
+    const document = { ...ROW, User: '{"proc":{"pid":4,"args":["-c","ls"]},"ok":true}' };
+    expect(evaluate("json(User, 'proc.pid')", document).value).toBe('4');
+    expect(evaluate("json(User, 'proc.args.1')", document).value).toBe('ls');
+    expect(evaluate("json(User, 'proc.args')", document).value).toBe('["-c","ls"]');
+    expect(evaluate("json(User, 'ok')", document).value).toBe('true');
+    expect(evaluate("json(User, 'proc')").value).toBeNull();
+  });
+
+  it('propagates nulls through operators and functions', () => {
+    const row = { ...ROW, Bytes: null, Time: null };
+    expect(evaluate('Bytes / 1024', row).value).toBeNull();
+    expect(evaluate('Bytes / 0').value).toBeNull();
+    expect(evaluate('year(Time)', row).value).toBeNull();
+    expect(evaluate("concat(User, '@', Bytes)", row).value).toBe('CORP\\Alice@');
+    expect(evaluate('Bytes = null', row).value).toBe(true);
+  });
+
+  it('rejects unknown names, type errors and malformed input with positions', () => {
+    const fails = (expression: string) => () => compileExpression(expression, COLUMN_TYPES);
+
+    expect(fails('lower(Usr)')).toThrow('Unknown column "Usr" at position 7.');
+    expect(fails('lowercase(User)')).toThrow('Unknown function "lowercase" at position 1.');
+    expect(fails('User / 2')).toThrow(
+      '"/" needs number operands at position 6, got string and number.'
+    );
+    expect(fails('Port = Src')).toThrow('Cannot compare number with string at position 6.');
+    expect(fails("Time > 'soon'")).toThrow('"soon" at position 6 is not a date.');
+    expect(fails('lower(Bytes)')).toThrow('Argument 1 of lower() must be a string, got a number.');
+    expect(fails("split(Path, '\\\\')")).toThrow('The expression returns a list');
+    expect(fails('substr(Path)')).toThrow('substr() takes 2 to 3 arguments, got 1.');
+    expect(fails('Path[0]')).toThrow('Only lists can be indexed, at position 5');
+    expect(fails("concat(User, 'x'")).toThrow(
+      'Expected ")" but found end of expression at position 17.'
+    );
+    expect(fails("'open")).toThrow('Unterminated string at position 1.');
+    expect(fails('Bytes $ 2')).toThrow('Unexpected character "$" at position 7.');
+    expect(fails('  ')).toThrow('The expression is empty.');
+  });
+});
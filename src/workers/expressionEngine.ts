@@ -0,0 +1,821 @@
+import type { ColumnType } from './types';
+import { parseDatetimeInZone } from './utils/timezone';
+import { readJsonField, readKeyValueField } from './fieldTransforms';
+
+/**
+ * Expressions computing a derived column from the other columns of a row, e.g.
+ * `lower(User)`, `split(Path, '\\')[-1]`, `Bytes / 1024` or
+ * `concat(Src, ':', Port)`.
+ *
+ * Columns are referenced by bare name (`User`, `event.code`) or in backticks
+ * (`` `Source IP` ``); strings use single or double quotes with backslash
+ * escapes. Operators are `+ - * / %` on numbers, `= != < <= > >=` between
+ * values of one type, and `and`, `or`, `not` on booleans. Functions are listed
+ * in {@link EXPRESSION_FUNCTIONS}.
+ *
+ * Expressions are type-checked once against the column types, then compiled to
+ * closures; nulls propagate through operators and most functions.
+ */
+
+/** Types of intermediate values; lists only live between `split` and an index. */
+type ValueType = ColumnType | 'list' | 'null';
+
+/** Runtime values. Datetimes are epoch milliseconds until they become a cell. */
+type Value = string | number | boolean | string[] | null;
+
+type Evaluator = (row: Record<string, unknown>) => Value;
+
+interface Typed {
+  type: ValueType;
+  evaluate: Evaluator;
+  /** Set for literals, so comparisons can read a date string against a datetime. */
+  literal?: Value;
+}
+
+type TokenKind = 'number' | 'string' | 'identifier' | 'column' | 'operator' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  /** 1-based character position, as reported in errors. */
+  position: number;
+}
+
+type Node =
+  | { kind: 'literal'; value: Value; type: ValueType; position: number }
+  | { kind: 'column'; name: string; position: number }
+  | { kind: 'unary'; operator: string; operand: Node; position: number }
+  | { kind: 'binary'; operator: string; left: Node; right: Node; position: number }
+  | { kind: 'call'; name: string; args: Node[]; position: number }
+  | { kind: 'index'; target: Node; index: Node; position: number };
+
+export interface CompiledExpression {
+  type: ColumnType;
+  /** Columns the expression reads. */
+  columns: string[];
+  /** Computes the cell for a materialized row; datetimes come out as ISO strings. */
+  evaluate: (row: Record<string, unknown>) => unknown;
+}
+
+// Two-character operators first, so `<=` is not read as `<` then `=`.
+const OPERATORS = [
+  '==', '!=', '<>', '<=', '>=', '&&', '||', '<', '>', '=', '+', '-', '*', '/', '%', '!'
+];
+const PUNCTUATION = '()[],';
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_.]/;
+const NUMBER_PATTERN = /^\d+(\.\d+)?([eE][+-]?\d+)?/;
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '0': '\0' };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index]!;
+    const position = index + 1;
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(source.slice(index));
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position });
+      index += number[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === '`') {
+      let text = '';
+      let cursor = index + 1;
+      for (;;) {
+        const next = source[cursor];
+        if (next == null) {
+          const what = char === '`' ? 'column name' : 'string';
+          throw new Error(`Unterminated ${what} at position ${position}.`);
+        }
+        if (next === char) {
+          break;
+        }
+        if (next === '\\' && char !== '`') {
+          const escaped = source[cursor + 1];
+          if (escaped == null) {
+            throw new Error(`Unterminated string at position ${position}.`);
+          }
+          text += ESCAPES[escaped] ?? escaped;
+          cursor += 2;
+          continue;
+        }
+        text += next;
+        cursor += 1;
+      }
+      tokens.push({ kind: char === '`' ? 'column' : 'string', text, position });
+      index = cursor + 1;
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      let cursor = index + 1;
+      while (cursor < source.length && IDENTIFIER_PART.test(source[cursor]!)) {
+        cursor += 1;
+      }
+      tokens.push({ kind: 'identifier', text: source.slice(index, cursor), position });
+      index = cursor;
+      continue;
+    }
+
+    const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index));
+    if (operator || PUNCTUATION.includes(char)) {
+      const text = operator ?? char;
+      tokens.push({ kind: 'operator', text, position });
+      index += text.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${char}" at position ${position}.`);
+  }
+
+  tokens.push({ kind: 'end', text: '', position: source.length + 1 });
+  return tokens;
+};
+
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+const COMPARISONS = new Set(['=', '==', '!=', '<>', '<', '<=', '>', '>=']);
+
+const describeToken = (token: Token): string =>
+  token.kind === 'end' ? 'end of expression' : `"${token.text}"`;
+
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let cursor = 0;
+
+  const peek = (): Token => tokens[cursor]!;
+  const advance = (): Token => tokens[cursor++]!;
+  /** Operator text of the next token, with `and`/`or`/`not` mapped to their symbols. */
+  const peekOperator = (): string | null => {
+    const token = peek();
+    if (token.kind === 'operator') {
+      return token.text;
+    }
+    if (token.kind === 'identifier') {
+      return KEYWORD_OPERATORS[token.text.toLowerCase()] ?? null;
+    }
+    return null;
+  };
+  const expect = (text: string) => {
+    const token = advance();
+    if (token.kind !== 'operator' || token.text !== text) {
+      throw new Error(
+        `Expected "${text}" but found ${describeToken(token)} at position ${token.position}.`
+      );
+    }
+  };
+
+  const parseBinary = (operators: string[], next: () => Node) => (): Node => {
+    let left = next();
+    for (;;) {
+      const operator = peekOperator();
+      if (operator == null || !operators.includes(operator)) {
+        return left;
+      }
+      const { position } = advance();
+      left = { kind: 'binary', operator, left, right: next(), position };
+    }
+  };
+
+  const parsePrimary = (): Node => {
+    const token = advance();
+    const { position } = token;
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.text), type: 'number', position };
+      case 'string':
+        return { kind: 'literal', value: token.text, type: 'string', position };
+      case 'column':
+        return { kind: 'column', name: token.text, position };
+      case 'identifier': {
+        const lower = token.text.toLowerCase();
+        if (lower === 'true' || lower === 'false') {
+          return { kind: 'literal', value: lower === 'true', type: 'boolean', position };
+        }
+        if (lower === 'null') {
+          return { kind: 'literal', value: null, type: 'null', position };
+        }
+        if (peek().kind === 'operator' && peek().text === '(') {
+          advance();
+          const args: Node[] = [];
+          if (!(peek().kind === 'operator' && peek().text === ')')) {
+            args.push(parseOr());
+            while (peek().kind === 'operator' && peek().text === ',') {
+              advance();
+              args.push(parseOr());
+            }
+          }
+          expect(')');
+          return { kind: 'call', name: lower, args, position };
+        }
+        return { kind: 'column', name: token.text, position };
+      }
+      case 'operator':
+        if (token.text === '(') {
+          const inner = parseOr();
+          expect(')');
+          return inner;
+        }
+        break;
+      default:
+        break;
+    }
+    throw new Error(`Unexpected ${describeToken(token)} at position ${token.position}.`);
+  };
+
+  const parsePostfix = (): Node => {
+    let node = parsePrimary();
+    while (peek().kind === 'operator' && peek().text === '[') {
+      const { position } = advance();
+      const index = parseOr();
+      expect(']');
+      node = { kind: 'index', target: node, index, position };
+    }
+    return node;
+  };
+
+  const parseUnary = (): Node => {
+    if (peekOperator() === '-') {
+      const { position } = advance();
+      return { kind: 'unary', operator: '-', operand: parseUnary(), position };
+    }
+    return parsePostfix();
+  };
+
+  const parseMultiplicative = parseBinary(['*', '/', '%'], parseUnary);
+  const parseAdditive = parseBinary(['+', '-'], parseMultiplicative);
+  const parseComparison = parseBinary([...COMPARISONS], parseAdditive);
+  // `not` binds looser than comparisons, so `not Port = 443` negates the comparison.
+  const parseNot = (): Node => {
+    if (peekOperator() === '!') {
+      const { position } = advance();
+      return { kind: 'unary', operator: '!', operand: parseNot(), position };
+    }
+    return parseComparison();
+  };
+  const parseAnd = parseBinary(['&&'], parseNot);
+  const parseOr: () => Node = parseBinary(['||'], parseAnd);
+
+  if (peek().kind === 'end') {
+    throw new Error('The expression is empty.');
+  }
+  const root = parseOr();
+  if (peek().kind !== 'end') {
+    const token = peek();
+    throw new Error(`Unexpected ${describeToken(token)} at position ${token.position}.`);
+  }
+  return root;
+};
+
+interface FunctionDefinition {
+  /** Parameter types; `any` accepts every type but lists. */
+  params: Array<ValueType | 'any'>;
+  /** Parameters at the end that may be left out. */
+  optional?: number;
+  /** The last parameter repeats. */
+  variadic?: boolean;
+  /** Result type, or a function of the argument types for generic functions. */
+  returns: ValueType | ((args: ValueType[], position: number) => ValueType);
+  /** Called with null arguments too; other functions return null for any null argument. */
+  acceptsNull?: boolean;
+  /** Checks literal arguments once, when the expression is compiled. */
+  validate?: (literals: Array<Value | undefined>, position: number) => void;
+  run: (args: Value[], types: ValueType[]) => Value;
+}
+
+const sameType = (name: string) => (args: ValueType[], position: number): ValueType => {
+  const types = [...new Set(args.filter((type) => type !== 'null'))];
+  if (types.length > 1) {
+    throw new Error(
+      `${name}() needs values of one type at position ${position}, got ${types.join(' and ')}.`
+    );
+  }
+  return types[0] ?? 'null';
+};
+
+const formatDatetime = (epochMs: number): string | null => {
+  const date = new Date(epochMs);
+  return Number.isFinite(date.getTime()) ? date.toISOString().replace('.000', '') : null;
+};
+
+const toText = (value: Value, type: ValueType): string => {
+  if (value == null) {
+    return '';
+  }
+  if (type === 'datetime') {
+    return formatDatetime(value as number) ?? '';
+  }
+  return String(value);
+};
+
+const finiteOrNull = (value: number): number | null => (Number.isFinite(value) ? value : null);
+
+const regexCache = new Map<string, RegExp>();
+
+const compileRegex = (pattern: string): RegExp => {
+  let regex = regexCache.get(pattern);
+  if (!regex) {
+    // Patterns read from columns could grow the cache without bound.
+    if (regexCache.size >= 64) {
+      regexCache.clear();
+    }
+    regex = new RegExp(pattern, 'g');
+    regexCache.set(pattern, regex);
+  }
+  return regex;
+};
+
+/** The first match where `group` took part; the whole match when no group is given. */
+const extractMatch = (text: string, pattern: string, group: string | number | null): Value => {
+  let regex: RegExp;
+  try {
+    regex = compileRegex(pattern);
+  } catch {
+    return null;
+  }
+  for (const match of text.matchAll(regex)) {
+    const value =
+      group == null
+        ? match[0]
+        : typeof group === 'number'
+          ? match[Math.trunc(group)]
+          : match.groups?.[group];
+    if (value != null) {
+      return value;
+    }
+  }
+  return null;
+};
+
+const utcPart = (read: (date: Date) => number): FunctionDefinition => ({
+  params: ['datetime'],
+  returns: 'number',
+  run: ([value]) => read(new Date(value as number))
+});
+
+/** Functions by lower-case name; calls are matched case-insensitively. */
+export const EXPRESSION_FUNCTIONS: Record<string, FunctionDefinition> = {
+  lower: {
+    params: ['string'],
+    returns: 'string',
+    run: ([value]) => (value as string).toLowerCase()
+  },
+  upper: {
+    params: ['string'],
+    returns: 'string',
+    run: ([value]) => (value as string).toUpperCase()
+  },
+  trim: { params: ['string'], returns: 'string', run: ([value]) => (value as string).trim() },
+  length: { params: ['string'], returns: 'number', run: ([value]) => (value as string).length },
+  concat: {
+    params: ['any'],
+    variadic: true,
+    acceptsNull: true,
+    returns: 'string',
+    run: (args, types) => args.map((value, index) => toText(value, types[index]!)).join('')
+  },
+  split: {
+    params: ['string', 'string'],
+    returns: 'list',
+    run: ([value, separator]) => (value as string).split(separator as string)
+  },
+  substr: {
+    params: ['string', 'number', 'number'],
+    optional: 1,
+    returns: 'string',
+    run: ([value, start, length]) => {
+      const text = value as string;
+      // Negative starts count from the end, like list indexes.
+      const offset = Math.trunc(start as number);
+      const from = offset < 0 ? Math.max(0, text.length + offset) : offset;
+      return length == null
+        ? text.slice(from)
+        : text.slice(from, from + Math.max(0, Math.trunc(length as number)));
+    }
+  },
+  replace: {
+    params: ['string', 'string', 'string'],
+    returns: 'string',
+    run: ([value, search, replacement]) =>
+      (search as string).length === 0
+        ? (value as string)
+        : (value as string).split(search as string).join(replacement as string)
+  },
+  contains: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    run: ([value, search]) => (value as string).includes(search as string)
+  },
+  startswith: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    run: ([value, search]) => (value as string).startsWith(search as string)
+  },
+  endswith: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    run: ([value, search]) => (value as string).endsWith(search as string)
+  },
+  coalesce: {
+    params: ['any'],
+    variadic: true,
+    acceptsNull: true,
+    returns: sameType('coalesce'),
+    run: (args) => args.find((value) => value != null && value !== '') ?? null
+  },
+  if: {
+    params: ['boolean', 'any', 'any'],
+    acceptsNull: true,
+    returns: (args, position) => sameType('if')(args.slice(1), position),
+    run: ([condition, whenTrue, whenFalse]) => (condition === true ? whenTrue! : whenFalse!)
+  },
+  abs: { params: ['number'], returns: 'number', run: ([value]) => Math.abs(value as number) },
+  floor: { params: ['number'], returns: 'number', run: ([value]) => Math.floor(value as number) },
+  ceil: { params: ['number'], returns: 'number', run: ([value]) => Math.ceil(value as number) },
+  round: {
+    params: ['number', 'number'],
+    optional: 1,
+    returns: 'number',
+    run: ([value, digits]) => {
+      const factor = 10 ** ((digits as number | null) ?? 0);
+      return Math.round((value as number) * factor) / factor;
+    }
+  },
+  number: {
+    params: ['any'],
+    returns: 'number',
+    run: ([value], [type]) => {
+      if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+      }
+      if (type === 'string') {
+        const text = (value as string).trim();
+        return text.length === 0 ? null : finiteOrNull(Number(text));
+      }
+      return value;
+    }
+  },
+  string: {
+    params: ['any'],
+    returns: 'string',
+    run: ([value], [type]) => toText(value, type!)
+  },
+  datetime: {
+    params: ['string'],
+    returns: 'datetime',
+    run: ([value]) => finiteOrNull(parseDatetimeInZone(value as string))
+  },
+  extract: {
+    params: ['string', 'string', 'any'],
+    optional: 1,
+    returns: ([, , group]) => {
+      if (group === 'boolean' || group === 'datetime') {
+        throw new Error(
+          `Argument 3 of extract() must be a group name or number, got a ${group}.`
+        );
+      }
+      return 'string';
+    },
+    validate: ([, pattern, group], position) => {
+      if (typeof pattern !== 'string') {
+        return;
+      }
+      let groups: RegExpExecArray;
+      try {
+        // The empty alternative always matches, listing every group as undefined.
+        groups = new RegExp(`(?:${pattern})|`).exec('')!;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid pattern for extract() at position ${position}: ${reason}`);
+      }
+      const known =
+        typeof group === 'number'
+          ? group >= 0 && group < groups.length
+          : typeof group !== 'string' || (groups.groups != null && group in groups.groups);
+      if (!known) {
+        throw new Error(
+          `The pattern of extract() at position ${position} has no group "${group}".`
+        );
+      }
+    },
+    run: ([value, pattern, group]) =>
+      extractMatch(value as string, pattern as string, (group ?? null) as string | number | null)
+  },
+  kv: {
+    params: ['string', 'string', 'string', 'string'],
+    optional: 2,
+    returns: 'string',
+    run: ([value, key, pairSeparator, keyValueSeparator]) =>
+      readKeyValueField(
+        value as string,
+        key as string,
+        (pairSeparator as string | undefined) || undefined,
+        (keyValueSeparator as string | undefined) || undefined
+      )
+  },
+  json: {
+    params: ['string', 'string'],
+    returns: 'string',
+    run: ([value, path]) => readJsonField(value as string, path as string)
+  },
+  year: utcPart((date) => date.getUTCFullYear()),
+  month: utcPart((date) => date.getUTCMonth() + 1),
+  day: utcPart((date) => date.getUTCDate()),
+  hour: utcPart((date) => date.getUTCHours()),
+  minute: utcPart((date) => date.getUTCMinutes()),
+  second: utcPart((date) => date.getUTCSeconds())
+};
+
+const readColumn = (name: string, type: ColumnType): Evaluator => {
+  switch (type) {
+    case 'number':
+      return (row) => {
+        const value = row[name];
+        return typeof value === 'number' && Number.isFinite(value) ? value : null;
+      };
+    case 'boolean':
+      return (row) => {
+        const value = row[name];
+        return typeof value === 'boolean' ? value : null;
+      };
+    case 'datetime':
+      return (row) => {
+        const value = row[name];
+        if (typeof value === 'number') {
+          return finiteOrNull(value);
+        }
+        return typeof value === 'string' && value.length > 0
+          ? finiteOrNull(parseDatetimeInZone(value))
+          : null;
+      };
+    default:
+      return (row) => {
+        const value = row[name];
+        return value == null ? null : String(value);
+      };
+  }
+};
+
+const compileComparison = (
+  operator: string,
+  left: Typed,
+  right: Typed,
+  position: number
+): Typed => {
+  // A string literal next to a datetime is read as a timestamp: `Time > '2024-03-01'`.
+  const coerce = (side: Typed, other: Typed): Typed => {
+    if (other.type !== 'datetime' || side.type !== 'string' || typeof side.literal !== 'string') {
+      return side;
+    }
+    const timestamp = parseDatetimeInZone(side.literal);
+    if (!Number.isFinite(timestamp)) {
+      throw new Error(`"${side.literal}" at position ${position} is not a date.`);
+    }
+    return { type: 'datetime', evaluate: () => timestamp };
+  };
+  const lhs = coerce(left, right);
+  const rhs = coerce(right, left);
+
+  if (lhs.type !== rhs.type && lhs.type !== 'null' && rhs.type !== 'null') {
+    throw new Error(`Cannot compare ${lhs.type} with ${rhs.type} at position ${position}.`);
+  }
+  if (lhs.type === 'list' || rhs.type === 'list') {
+    throw new Error(`Cannot compare lists at position ${position}.`);
+  }
+
+  const equality = operator === '=' || operator === '==';
+  const inequality = operator === '!=' || operator === '<>';
+  return {
+    type: 'boolean',
+    evaluate: (row) => {
+      const a = lhs.evaluate(row);
+      const b = rhs.evaluate(row);
+      if (equality || inequality) {
+        return (a === b) === equality;
+      }
+      if (a == null || b == null) {
+        return null;
+      }
+      switch (operator) {
+        case '<':
+          return a < b;
+        case '<=':
+          return a <= b;
+        case '>':
+          return a > b;
+        default:
+          return a >= b;
+      }
+    }
+  };
+};
+
+const ARITHMETIC: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b
+};
+
+const compileCall = (node: Extract<Node, { kind: 'call' }>, args: Typed[]): Typed => {
+  const definition = EXPRESSION_FUNCTIONS[node.name];
+  if (!definition) {
+    throw new Error(`Unknown function "${node.name}" at position ${node.position}.`);
+  }
+
+  const { params, optional = 0, variadic = false } = definition;
+  const minimum = params.length - optional;
+  if (args.length < minimum || (!variadic && args.length > params.length)) {
+    const expected = variadic
+      ? `at least ${minimum}`
+      : optional > 0
+        ? `${minimum} to ${params.length}`
+        : `${minimum}`;
+    throw new Error(
+      `${node.name}() takes ${expected} argument${expected === '1' ? '' : 's'}, got ${args.length}.`
+    );
+  }
+
+  const types = args.map((arg, index) => {
+    const expected = params[Math.min(index, params.length - 1)]!;
+    const mismatch = expected !== 'any' && arg.type !== expected && arg.type !== 'null';
+    if (arg.type === 'list' || mismatch) {
+      const wanted = expected === 'any' ? 'a single value' : `a ${expected}`;
+      throw new Error(
+        `Argument ${index + 1} of ${node.name}() must be ${wanted}, got a ${arg.type}.`
+      );
+    }
+    return arg.type;
+  });
+
+  const type =
+    typeof definition.returns === 'function'
+      ? definition.returns(types, node.position)
+      : definition.returns;
+  definition.validate?.(args.map((arg) => arg.literal), node.position);
+  const evaluators = args.map((arg) => arg.evaluate);
+  return {
+    type,
+    evaluate: (row) => {
+      const values = evaluators.map((evaluate) => evaluate(row));
+      if (!definition.acceptsNull && values.some((value) => value == null)) {
+        return null;
+      }
+      const result = definition.run(values, types);
+      return typeof result === 'number' ? finiteOrNull(result) : result;
+    }
+  };
+};
+
+const compileNode = (
+  node: Node,
+  columnTypes: Record<string, ColumnType>,
+  columns: Set<string>
+): Typed => {
+  switch (node.kind) {
+    case 'literal':
+      return { type: node.type, evaluate: () => node.value, literal: node.value };
+    case 'column': {
+      const type = columnTypes[node.name];
+      if (type == null) {
+        throw new Error(`Unknown column "${node.name}" at position ${node.position}.`);
+      }
+      columns.add(node.name);
+      return { type, evaluate: readColumn(node.name, type) };
+    }
+    case 'unary': {
+      const operand = compileNode(node.operand, columnTypes, columns);
+      const expected = node.operator === '-' ? 'number' : 'boolean';
+      if (operand.type !== expected && operand.type !== 'null') {
+        const name = node.operator === '-' ? '-' : 'not';
+        throw new Error(
+          `"${name}" needs a ${expected} at position ${node.position}, got ${operand.type}.`
+        );
+      }
+      return {
+        type: expected,
+        evaluate:
+          node.operator === '-'
+            ? (row) => {
+                const value = operand.evaluate(row);
+                return value == null ? null : -(value as number);
+              }
+            : (row) => operand.evaluate(row) !== true
+      };
+    }
+    case 'binary': {
+      const left = compileNode(node.left, columnTypes, columns);
+      const right = compileNode(node.right, columnTypes, columns);
+      if (COMPARISONS.has(node.operator)) {
+        return compileComparison(node.operator, left, right, node.position);
+      }
+
+      const logical = node.operator === '&&' || node.operator === '||';
+      const expected = logical ? 'boolean' : 'number';
+      for (const side of [left, right]) {
+        if (side.type !== expected && side.type !== 'null') {
+          const name = logical ? (node.operator === '&&' ? 'and' : 'or') : node.operator;
+          throw new Error(
+            `"${name}" needs ${expected} operands at position ${node.position}, ` +
+              `got ${left.type} and ${right.type}.`
+          );
+        }
+      }
+      if (logical) {
+        const isAnd = node.operator === '&&';
+        return {
+          type: 'boolean',
+          evaluate: (row) =>
+            isAnd
+              ? left.evaluate(row) === true && right.evaluate(row) === true
+              : left.evaluate(row) === true || right.evaluate(row) === true
+        };
+      }
+      const apply = ARITHMETIC[node.operator]!;
+      return {
+        type: 'number',
+        evaluate: (row) => {
+          const a = left.evaluate(row);
+          const b = right.evaluate(row);
+          return a == null || b == null ? null : finiteOrNull(apply(a as number, b as number));
+        }
+      };
+    }
+    case 'call':
+      return compileCall(
+        node,
+        node.args.map((arg) => compileNode(arg, columnTypes, columns))
+      );
+    case 'index': {
+      const target = compileNode(node.target, columnTypes, columns);
+      const index = compileNode(node.index, columnTypes, columns);
+      if (target.type !== 'list') {
+        throw new Error(
+          `Only lists can be indexed, at position ${node.position}; split() returns one.`
+        );
+      }
+      if (index.type !== 'number') {
+        throw new Error(`List indexes must be numbers, at position ${node.position}.`);
+      }
+      return {
+        type: 'string',
+        evaluate: (row) => {
+          const list = target.evaluate(row) as string[] | null;
+          const position = index.evaluate(row) as number | null;
+          if (list == null || position == null) {
+            return null;
+          }
+          // Negative indexes count from the end: [-1] is the last element.
+          return list.at(Math.trunc(position)) ?? null;
+        }
+      };
+    }
+  }
+};
+
+/** Writes text as a string literal that reads back unchanged. */
+export const quoteExpressionString = (value: string): string =>
+  `'${value.replace(/[\\']/g, (char) => `\\${char}`)}'`;
+
+/** References a column by name, whatever characters it holds besides backticks. */
+export const quoteExpressionColumn = (name: string): string => `\`${name}\``;
+
+/**
+ * Parses and type-checks `source` against `columnTypes`. Throws an `Error`
+ * naming the position of the first problem.
+ */
+export const compileExpression = (
+  source: string,
+  columnTypes: Record<string, ColumnType>
+): CompiledExpression => {
+  const columns = new Set<string>();
+  const { type, evaluate } = compileNode(parse(source), columnTypes, columns);
+
+  if (type === 'list') {
+    throw new Error("The expression returns a list; pick an element, e.g. split(Path, '\\')[-1].");
+  }
+  if (type === 'null') {
+    throw new Error('The expression is always null.');
+  }
+
+  return {
+    type,
+    columns: [...columns],
+    evaluate:
+      type === 'datetime'
+        ? (row) => {
+            const value = evaluate(row);
+            return value == null ? null : formatDatetime(value as number);
+          }
+        : evaluate
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { discoverFieldKeys, parseKeyValuePairs, readJsonPath } from './fieldTransforms';
+
+describe('fieldTransforms', () => {
+  it('parses key/value pairs, keeping separators inside values', () => {
+    const payload = 'Target: CORP\\bob, Details: a, b, LogonType: "3", Target: again';
+    expect([...parseKeyValuePairs(payload, ', ', ': ')]).toEqual([
+      ['Target', 'CORP\\bob'],
+      ['Details', 'a, b'],
+      ['LogonType', '3']
+    ]);
+    expect([...parseKeyValuePairs('a=1;;b==2;=x', ';', '=')]).toEqual([
+      ['a', '1'],
+      ['b', '=2;=x']
+    ]);
+  });
+
+  it('follows dotted JSON paths through objects and arrays', () => {
+    const document = { event: { data: [{ name: 'x' }] }, 'a.b': 1 };
+    expect(readJsonPath(document, 'event.data.0.name')).toBe('x');
+    expect(readJsonPath(document, 'event.data.1')).toBeUndefined();
+    expect(readJsonPath(document, 'toString')).toBeUndefined();
+  });
+
+  it('discovers keys with counts and examples in each mode', () => {
+    expect(discoverFieldKeys(['a, b', 'c,,d,e'], 'delimiter')).toEqual([
+      { key: '1', count: 2, example: 'a' },
+      { key: '2', count: 1, example: 'b' },
+      { key: '3', count: 1, example: 'd' },
+      { key: '4', count: 1, example: 'e' }
+    ]);
+    expect(
+      discoverFieldKeys(['Pid=4|User=bob', 'User=|Image=cmd.exe'], 'keyValue', {
+        pairSeparator: '|'
+      })
+    ).toEqual([
+      { key: 'Pid', count: 1, example: '4' },
+      { key: 'User', count: 1, example: 'bob' },
+      { key: 'Image', count: 1, example: 'cmd.exe' }
+    ]);
+    expect(
+      discoverFieldKeys(
+        ['{"proc":{"pid":4,"args":["ls"]},"meta":{}}', 'not json', '{"proc":{"pid":9}}'],
+        'json'
+      )
+    ).toEqual([
+      { key: 'proc.pid', count: 2, example: '4' },
+      { key: 'proc.args', count: 1, example: '["ls"]' },
+      { key: 'meta', count: 1, example: '{}' }
+    ]);
+  });
+});
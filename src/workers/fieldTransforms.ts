@@ -0,0 +1,195 @@
+import type { FieldTransformMode, FieldTransformOptions } from './types';
+
+/**
+ * Readers for cells that pack several values: delimited lists, `key=value`
+ * pairs (EvtxECmd `PayloadData`, Sysmon details) and JSON documents. The
+ * expression functions `split`, `kv` and `json` read one value each, and
+ * {@link discoverFieldKeys} samples a column for the keys worth a column.
+ */
+
+export const DEFAULT_DELIMITER = ',';
+export const DEFAULT_PAIR_SEPARATOR = ';';
+export const DEFAULT_KEY_VALUE_SEPARATOR = '=';
+
+/** Discovery stops collecting new keys past this many. */
+export const MAX_DISCOVERED_KEYS = 200;
+
+export interface DiscoveredFieldKey {
+  /** 1-based position, pair key or dotted JSON path. */
+  key: string;
+  /** Sampled cells holding a non-empty value for the key. */
+  count: number;
+  example: string;
+}
+
+const unquote = (value: string): string =>
+  value.length >= 2 && /^(["']).*\1$/s.test(value) ? value.slice(1, -1) : value;
+
+/**
+ * Pairs in cell order; the first occurrence of a key wins. A part without the
+ * key/value separator continues the previous value, so values may contain the
+ * pair separator (`Details: a, b` split on `, `).
+ */
+export const parseKeyValuePairs = (
+  text: string,
+  pairSeparator: string,
+  keyValueSeparator: string
+): Map<string, string> => {
+  const pairs = new Map<string, string>();
+  let lastKey: string | null = null;
+  for (const part of text.split(pairSeparator)) {
+    const index = keyValueSeparator ? part.indexOf(keyValueSeparator) : -1;
+    const key = index > 0 ? part.slice(0, index).trim() : '';
+    if (!key) {
+      if (lastKey != null && part.trim()) {
+        pairs.set(lastKey, `${pairs.get(lastKey)}${pairSeparator}${part}`.trim());
+      }
+      continue;
+    }
+    if (pairs.has(key)) {
+      lastKey = null;
+      continue;
+    }
+    pairs.set(key, part.slice(index + keyValueSeparator.length).trim());
+    lastKey = key;
+  }
+  for (const [key, value] of pairs) {
+    pairs.set(key, unquote(value));
+  }
+  return pairs;
+};
+
+/** The parsed document, or undefined for text that is not a JSON object or array. */
+export const parseJsonDocument = (text: string): unknown => {
+  const trimmed = text.trimStart();
+  if (trimmed[0] !== '{' && trimmed[0] !== '[') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+/** Follows a dotted path; numeric segments index arrays (`Hashes.0`). */
+export const readJsonPath = (document: unknown, path: string): unknown => {
+  let current = document;
+  for (const segment of path.split('.')) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)];
+    } else if (isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+};
+
+/** Cell text for a JSON value: strings as-is, objects and arrays re-serialised. */
+export const jsonCellText = (value: unknown): string | null => {
+  if (value == null) {
+    return null;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const collectJsonLeaves = (
+  value: unknown,
+  prefix: string,
+  visit: (path: string, value: unknown) => void
+): void => {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      collectJsonLeaves(child, prefix ? `${prefix}.${key}` : key, visit);
+    }
+    return;
+  }
+  // Arrays stay whole; `Hashes.0` can still be asked for by path.
+  if (prefix) {
+    visit(prefix, value);
+  }
+};
+
+// Derived columns evaluate cell by cell, so consecutive `kv`/`json` calls on
+// one row read the same text; keeping the last parse avoids repeating it.
+let lastPairsKey: string | null = null;
+let lastPairs = new Map<string, string>();
+let lastJsonText: string | null = null;
+let lastJson: unknown;
+
+export const readKeyValueField = (
+  text: string,
+  key: string,
+  pairSeparator = DEFAULT_PAIR_SEPARATOR,
+  keyValueSeparator = DEFAULT_KEY_VALUE_SEPARATOR
+): string | null => {
+  const cacheKey = `${pairSeparator}\u0000${keyValueSeparator}\u0000${text}`;
+  if (cacheKey !== lastPairsKey) {
+    lastPairs = parseKeyValuePairs(text, pairSeparator, keyValueSeparator);
+    lastPairsKey = cacheKey;
+  }
+  return lastPairs.get(key) ?? null;
+};
+
+export const readJsonField = (text: string, path: string): string | null => {
+  if (text !== lastJsonText) {
+    lastJson = parseJsonDocument(text);
+    lastJsonText = text;
+  }
+  return lastJson === undefined ? null : jsonCellText(readJsonPath(lastJson, path));
+};
+
+/**
+ * Keys found in the sampled cells, in order of first appearance, with how
+ * often each holds a value: list positions for `delimiter`, pair keys for
+ * `keyValue` and leaf paths for `json`.
+ */
+export const discoverFieldKeys = (
+  values: Iterable<string>,
+  mode: FieldTransformMode,
+  options: FieldTransformOptions = {}
+): DiscoveredFieldKey[] => {
+  const keys = new Map<string, DiscoveredFieldKey>();
+  const record = (key: string, value: string | null) => {
+    if (value == null || value === '') {
+      return;
+    }
+    const entry = keys.get(key);
+    if (entry) {
+      entry.count += 1;
+    } else if (keys.size < MAX_DISCOVERED_KEYS) {
+      keys.set(key, { key, count: 1, example: value });
+    }
+  };
+
+  for (const value of values) {
+    if (mode === 'delimiter') {
+      value
+        .split(options.delimiter || DEFAULT_DELIMITER)
+        .forEach((item, index) => record(String(index + 1), item.trim()));
+    } else if (mode === 'keyValue') {
+      const pairs = parseKeyValuePairs(
+        value,
+        options.pairSeparator || DEFAULT_PAIR_SEPARATOR,
+        options.keyValueSeparator || DEFAULT_KEY_VALUE_SEPARATOR
+      );
+      pairs.forEach((item, key) => record(key, item));
+    } else {
+      const document = parseJsonDocument(value);
+      if (document !== undefined) {
+        collectJsonLeaves(document, '', (path, leaf) => record(path, jsonCellText(leaf)));
+      }
+    }
+  }
+
+  const discovered = [...keys.values()];
+  // List positions read best in order even when a later one was seen first.
+  return mode === 'delimiter'
+    ? discovered.sort((left, right) => Number(left.key) - Number(right.key))
+    : discovered;
+};
@@ -301,6 +301,90 @@ describe('filterEngine', () => {
     expect(matchingIds).toEqual([0, 2]);
   });
 
+  it('evaluates endsWith, list, empty-value and length operators', () => {
+    const batch = buildRowBatch(
+      {
+        hash: stringColumn(['AA11', 'bb22', '', 'cc333']),
+        size: numberColumn([10, 20, null, 40])
+      },
+      { hash: 'string', size: 'number' }
+    );
+    const matches = (expression: FilterNode) =>
+      Array.from(evaluateFilter(batch, expression).matches);
+
+    expect(matches({ column: 'hash', operator: 'endsWith', value: '33' })).toEqual([0, 0, 0, 1]);
+    expect(matches({ column: 'hash', operator: 'in', value: ['aa11', 'CC333', ''] })).toEqual([
+      1, 0, 0, 1
+    ]);
+    expect(
+      matches({ column: 'hash', operator: 'in', value: ['aa11'], caseSensitive: true })
+    ).toEqual([0, 0, 0, 0]);
+    expect(matches({ column: 'hash', operator: 'notIn', value: ['bb22'] })).toEqual([
+      1, 0, 1, 1
+    ]);
+    expect(matches({ column: 'size', operator: 'in', value: ['20', 40] })).toEqual([0, 1, 0, 1]);
+    expect(matches({ column: 'hash', operator: 'isNull', value: null })).toEqual([0, 0, 1, 0]);
+    expect(matches({ column: 'size', operator: 'isNotNull', value: null })).toEqual([
+      1, 1, 0, 1
+    ]);
+    expect(matches({ column: 'hash', operator: 'lengthGt', value: '4' })).toEqual([0, 0, 0, 1]);
+    expect(matches({ column: 'hash', operator: 'lengthEq', value: 0 })).toEqual([0, 0, 1, 0]);
+  });
+
+  it('negates the conjunction of a not node', () => {
+    const batch = buildRowBatch(
+      {
+        image: stringColumn(['svchost.exe', 'svchost.exe', 'cmd.exe', 'cmd.exe']),
+        path: stringColumn(['C:/Windows/System32', 'C:/Temp', 'C:/Windows/System32', 'C:/Temp'])
+      },
+      { image: 'string', path: 'string' }
+    );
+
+    const result = evaluateFilter(batch, {
+      op: 'not',
+      predicates: [
+        { column: 'image', operator: 'eq', value: 'svchost.exe' },
+        { column: 'path', operator: 'contains', value: 'system32' }
+      ]
+    });
+
+    expect(Array.from(result.matches)).toEqual([0, 1, 1, 1]);
+    expect(result.matchedCount).toBe(3);
+  });
+
+  it('reports match counts for identified groups as well as predicates', () => {
+    const batch = buildRowBatch(
+      {
+        status: stringColumn(['Open', 'Closed', 'Open', 'Closed']),
+        amount: numberColumn([100, 50, 200, 30])
+      },
+      { status: 'string', amount: 'number' }
+    );
+    const counts: Record<string, number> = {};
+
+    evaluateFilter(
+      batch,
+      {
+        op: 'and',
+        predicates: [
+          { id: 'status', column: 'status', operator: 'eq', value: 'closed' },
+          {
+            id: 'group-1',
+            op: 'or',
+            predicates: [
+              { column: 'amount', operator: 'gt', value: 150 },
+              { column: 'amount', operator: 'lt', value: 40 }
+            ]
+          }
+        ]
+      },
+      {},
+      { collectPredicateMatch: (id, count) => (counts[id] = count) }
+    );
+
+    expect(counts).toEqual({ status: 2, 'group-1': 2 });
+  });
+
   it('supports datetime range comparisons', () => {
     const batch = buildRowBatch(
       {
@@ -92,6 +92,93 @@ const parseDateValue = (value: unknown): number | null => {
   return null;
 };
 
+const isEmptyValue = (value: unknown): boolean =>
+  value == null ||
+  (typeof value === 'number' && Number.isNaN(value)) ||
+  (typeof value === 'string' && value.trim().length === 0);
+
+/** Keys values the way `eq` compares them for the column type, so lists behave like ORed `eq`s. */
+const toMembershipKey = (
+  value: unknown,
+  columnType: ColumnType,
+  caseSensitive: boolean
+): string | number | boolean | null => {
+  if (isEmptyValue(value)) {
+    return null;
+  }
+  switch (columnType) {
+    case 'number':
+      return parseNumericValue(value);
+    case 'datetime':
+      return parseDateValue(value);
+    case 'boolean':
+      return parseBooleanValue(value);
+    default:
+      return normalizeString(String(value), caseSensitive);
+  }
+};
+
+/**
+ * Handles the operators that behave the same for every column type. Returns
+ * null for the rest so the type-specific evaluation runs.
+ */
+const evaluateGenericPredicate = (
+  values: unknown[],
+  columnType: ColumnType,
+  predicate: FilterPredicate
+): { matches: Uint8Array } | null => {
+  const result = new Uint8Array(values.length);
+
+  switch (predicate.operator) {
+    case 'isNull':
+    case 'isNotNull': {
+      const wantEmpty = predicate.operator === 'isNull';
+      for (let index = 0; index < values.length; index += 1) {
+        result[index] = isEmptyValue(values[index]) === wantEmpty ? 1 : 0;
+      }
+      return { matches: result };
+    }
+    case 'in':
+    case 'notIn': {
+      const caseSensitive = predicate.caseSensitive ?? false;
+      const list = Array.isArray(predicate.value) ? predicate.value : [predicate.value];
+      const accepted = new Set(
+        list
+          .map((entry) => toMembershipKey(entry, columnType, caseSensitive))
+          .filter((key) => key != null)
+      );
+      const include = predicate.operator === 'in';
+      for (let index = 0; index < values.length; index += 1) {
+        const key = toMembershipKey(values[index], columnType, caseSensitive);
+        const isMember = key != null && accepted.has(key);
+        result[index] = isMember === include ? 1 : 0;
+      }
+      return { matches: result };
+    }
+    case 'lengthGt':
+    case 'lengthLt':
+    case 'lengthEq': {
+      const target = parseNumericValue(predicate.value);
+      if (target == null) {
+        return { matches: result };
+      }
+      for (let index = 0; index < values.length; index += 1) {
+        const length = String(values[index] ?? '').length;
+        const matches =
+          predicate.operator === 'lengthGt'
+            ? length > target
+            : predicate.operator === 'lengthLt'
+              ? length < target
+              : length === target;
+        result[index] = matches ? 1 : 0;
+      }
+      return { matches: result };
+    }
+    default:
+      return null;
+  }
+};
+
 const createRegex = (pattern: string, caseSensitive?: boolean): RegExp | null => {
   try {
     const flags = caseSensitive ? 'u' : 'iu';
@@ -159,6 +246,11 @@ const evaluatePredicate = (
   const columnType = columnTypes[predicate.column] ?? 'string';
   const values = rows.map((row) => row[predicate.column]);
 
+  const genericResult = evaluateGenericPredicate(values, columnType, predicate);
+  if (genericResult) {
+    return genericResult;
+  }
+
   switch (columnType) {
     case 'string': {
       const targetValue =
@@ -193,6 +285,14 @@ const evaluatePredicate = (
         return { matches: result };
       }
 
+      if (predicate.operator === 'endsWith') {
+        for (let index = 0; index < rowCount; index += 1) {
+          const valueString = valuesNormalised[index];
+          result[index] = valueString.endsWith(targetNormalised) ? 1 : 0;
+        }
+        return { matches: result };
+      }
+
       if (
         (predicate.operator === 'regex' ||
           predicate.operator === 'matches' ||
@@ -356,6 +456,14 @@ const combineMasks = (
   return result;
 };
 
+const invertMask = (mask: Uint8Array): Uint8Array => {
+  const result = new Uint8Array(mask.length);
+  for (let index = 0; index < mask.length; index += 1) {
+    result[index] = mask[index] === 1 ? 0 : 1;
+  }
+  return result;
+};
+
 const evaluateNode = (
   rows: Array<Record<string, unknown>>,
   columnTypes: Record<string, ColumnType>,
@@ -364,19 +472,22 @@ const evaluateNode = (
   options?: FilterEvaluationOptions
 ): { matches: Uint8Array } => {
   if (isExpression(node)) {
-    if (!node.predicates.length) {
-      return { matches: new Uint8Array(rows.length).fill(1) };
-    }
-
-    let accumulator = evaluateNode(rows, columnTypes, node.predicates[0]!, context, options);
+    const combineOp = node.op === 'or' ? 'or' : 'and';
+    let accumulator: { matches: Uint8Array } = { matches: new Uint8Array(rows.length).fill(1) };
 
-    for (let index = 1; index < node.predicates.length; index += 1) {
+    for (let index = 0; index < node.predicates.length; index += 1) {
       const next = evaluateNode(rows, columnTypes, node.predicates[index]!, context, options);
-      accumulator = {
-        matches: combineMasks(accumulator.matches, next.matches, node.op)
-      };
+      accumulator =
+        index === 0 ? next : { matches: combineMasks(accumulator.matches, next.matches, combineOp) };
     }
 
+    if (node.op === 'not') {
+      accumulator = { matches: invertMask(accumulator.matches) };
+    }
+
+    if (options?.collectPredicateMatch && node.id) {
+      options.collectPredicateMatch(node.id, countMatches(accumulator.matches));
+    }
     return accumulator;
   }
 
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+
+import { JSON_LINES_RAW_COLUMN, flattenJsonRecord, parseJsonLinesStream } from './jsonLinesParser';
+import { materializeRowBatch } from './utils/materializeRowBatch';
+import type { RowBatch } from './types';
+
+const textEncoder = new TextEncoder();
+
+const iterableFromStrings = (chunks: string[]): AsyncIterable<Uint8Array> => ({
+  async *[Symbol.asyncIterator]() {
+    for (const chunk of chunks) {
+      yield textEncoder.encode(chunk);
+    }
+  }
+});
+
+const collect = async (
+  chunks: string[],
+  options?: Parameters<typeof parseJsonLinesStream>[2]
+): Promise<{
+  headers: string[][];
+  batches: RowBatch[];
+  checkpoints: Array<{ rowIndex: number; byteOffset: number }>;
+}> => {
+  const headers: string[][] = [];
+  const batches: RowBatch[] = [];
+  const checkpoints: Array<{ rowIndex: number; byteOffset: number }> = [];
+
+  await parseJsonLinesStream(
+    iterableFromStrings(chunks),
+    {
+      onHeader: (header) => {
+        headers.push(header);
+      },
+      onBatch: (batch) => {
+        batches.push(batch);
+      },
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(checkpoint);
+      }
+    },
+    options
+  );
+
+  return { headers, batches, checkpoints };
+};
+
+describe('flattenJsonRecord', () => {
+  it('flattens nested objects into dotted keys and keeps arrays as JSON', () => {
+    expect(
+      flattenJsonRecord({
+        EventID: 4624,
+        System: { Computer: 'DC01', Provider: { Name: 'Security' } },
+        Tags: ['a', 'b'],
+        Empty: null
+      })
+    ).toEqual({
+      EventID: '4624',
+      'System.Computer': 'DC01',
+      'System.Provider.Name': 'Security',
+      Tags: '["a","b"]',
+      Empty: ''
+    });
+  });
+});
+
+describe('parseJsonLinesStream', () => {
+  it('streams records split across chunks into typed column batches', async () => {
+    const { headers, batches } = await collect(
+      ['{"host":"ws1","bytes":10,"ok":true}\n{"host":"w', 's2","bytes":20,"ok":false}\r\n'],
+      { batchSize: 10 }
+    );
+
+    expect(headers).toEqual([['host', 'bytes', 'ok']]);
+    expect(batches).toHaveLength(1);
+
+    const batch = batches[0]!;
+    expect(batch.columnTypes).toEqual({ host: 'string', bytes: 'number', ok: 'boolean' });
+    expect(batch.stats.eof).toBe(true);
+
+    const rows = materializeRowBatch(batch).rows;
+    expect(rows.map((row) => row.host)).toEqual(['ws1', 'ws2']);
+    expect(rows.map((row) => row.bytes)).toEqual([10, 20]);
+    expect(rows.map((row) => row.ok)).toEqual([true, false]);
+  });
+
+  it('discovers keys as they appear and back-fills earlier rows in the batch', async () => {
+    const { headers, batches } = await collect(
+      ['{"a":"1x"}\n{"a":"2x","b":{"c":"deep"}}\n{"d":"late"}\n'],
+      { batchSize: 2 }
+    );
+
+    expect(headers).toEqual([['a', 'b.c'], ['a', 'b.c', 'd']]);
+    expect(batches).toHaveLength(2);
+
+    const firstRows = materializeRowBatch(batches[0]!).rows;
+    expect(firstRows.map((row) => row['b.c'])).toEqual(['', 'deep']);
+
+    const secondRows = materializeRowBatch(batches[1]!).rows;
+    expect(secondRows[0]).toMatchObject({ __rowId: 2, a: '', d: 'late' });
+  });
+
+  it('keeps malformed and non-object lines in the raw column and skips blank lines', async () => {
+    const { batches } = await collect(['{"a":"x"}\n\nnot json\n[1,2]\n']);
+
+    const rows = materializeRowBatch(batches[0]!).rows;
+    expect(rows).toHaveLength(3);
+    expect(rows.map((row) => row[JSON_LINES_RAW_COLUMN])).toEqual(['', 'not json', '[1,2]']);
+  });
+
+  it('records checkpoints at the byte offset of each record start', async () => {
+    const first = '{"city":"Montréal"}\n';
+    const second = '{"city":"東京"}\n';
+    const { checkpoints, batches } = await collect(['\uFEFF' + first + second], {
+      checkpointInterval: 1
+    });
+
+    expect(checkpoints).toEqual([
+      { rowIndex: 0, byteOffset: 3 },
+      { rowIndex: 1, byteOffset: 3 + textEncoder.encode(first).byteLength }
+    ]);
+    expect(batches[0]!.stats.bytesParsed).toBe(
+      textEncoder.encode('\uFEFF' + first + second).byteLength
+    );
+  });
+
+  it('splits UTF-16BE records on whole code units', async () => {
+    // U+0A0A contains line feed bytes but is not a line break in UTF-16.
+    const first = '{"city":"\u0A0A"}\r\n';
+    const text = `\uFEFF${first}{"city":"Montréal"}\n`;
+    const bytes = new Uint8Array(text.length * 2);
+    for (let index = 0; index < text.length; index += 1) {
+      bytes[index * 2] = text.charCodeAt(index) >> 8;
+      bytes[index * 2 + 1] = text.charCodeAt(index) & 0xff;
+    }
+    const checkpoints: Array<{ rowIndex: number; byteOffset: number }> = [];
+    const batches: RowBatch[] = [];
+
+    await parseJsonLinesStream(
+      {
+        async *[Symbol.asyncIterator]() {
+          for (let offset = 0; offset < bytes.byteLength; offset += 5) {
+            yield bytes.subarray(offset, offset + 5);
+          }
+        }
+      },
+      {
+        onBatch: (batch) => {
+          batches.push(batch);
+        },
+        onCheckpoint: (checkpoint) => {
+          checkpoints.push(checkpoint);
+        }
+      },
+      { checkpointInterval: 1 }
+    );
+
+    expect(materializeRowBatch(batches[0]!).rows.map((row) => row.city)).toEqual([
+      '\u0A0A',
+      'Montréal'
+    ]);
+    expect(checkpoints).toEqual([
+      { rowIndex: 0, byteOffset: 2 },
+      { rowIndex: 1, byteOffset: 2 + first.length * 2 }
+    ]);
+    expect(batches[0]!.stats.bytesParsed).toBe(bytes.byteLength);
+  });
+});
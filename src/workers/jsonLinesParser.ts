@@ -0,0 +1,87 @@
+import type { ParserCallbacks, ParserOptions } from './csvParser';
+import { createRecordBatcher } from './recordSource';
+import { resolveSourceEncoding } from './utils/detectEncoding';
+import { readSourceLines } from './utils/lineReader';
+
+export type JsonLinesParserOptions = Pick<
+  ParserOptions,
+  'batchSize' | 'encoding' | 'checkpointInterval' | 'sourceTimeZones'
+>;
+
+/** Column receiving lines that are not JSON objects so nothing is dropped silently. */
+export const JSON_LINES_RAW_COLUMN = '_raw';
+
+const stringifyJsonValue = (value: unknown): string => {
+  if (value == null) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Flattens nested objects into dotted column names (`{"a":{"b":1}}` → `a.b`).
+ * Arrays are kept as JSON text because their length varies between records.
+ */
+export const flattenJsonRecord = (
+  value: Record<string, unknown>,
+  prefix = '',
+  target: Record<string, string> = {}
+): Record<string, string> => {
+  for (const [key, child] of Object.entries(value)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child)) {
+      flattenJsonRecord(child, name, target);
+      continue;
+    }
+    target[name] = stringifyJsonValue(child);
+  }
+
+  return target;
+};
+
+/**
+ * Streams newline-delimited JSON into the same columnar {@link RowBatch} format
+ * produced by `parseDelimitedStream`. Lines are split on raw bytes so the
+ * checkpoint offsets point at the exact start of each record in the source.
+ */
+export const parseJsonLinesStream = async (
+  source: AsyncIterable<Uint8Array>,
+  callbacks: ParserCallbacks,
+  options: JsonLinesParserOptions = {}
+): Promise<void> => {
+  const { encoding, chunks } = await resolveSourceEncoding(source, options.encoding);
+  await callbacks.onEncoding?.(encoding);
+  const batcher = createRecordBatcher(callbacks, options);
+
+  const parseRecord = (text: string): Record<string, string> => {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (isPlainObject(parsed)) {
+        return flattenJsonRecord(parsed);
+      }
+    } catch {
+      // Fall through: malformed lines are preserved verbatim.
+    }
+
+    return { [JSON_LINES_RAW_COLUMN]: text };
+  };
+
+  for await (const line of readSourceLines(chunks, encoding)) {
+    batcher.setBytesParsed(line.bytesParsed);
+    const text = line.text.trim();
+    if (text.length > 0) {
+      await batcher.addRecord(parseRecord(text), line.byteOffset);
+    }
+  }
+
+  await batcher.finish();
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+
+import { LOG_FORMAT_PRESETS } from '@utils/logFormats';
+
+import { compileLogFormat, parseLogFormatStream } from './logFormatParser';
+import { materializeRowBatch } from './utils/materializeRowBatch';
+import type { LogFormat, ParseIssue, RowBatch } from './types';
+
+const textEncoder = new TextEncoder();
+
+const iterableFromStrings = (chunks: string[]): AsyncIterable<Uint8Array> => ({
+  async *[Symbol.asyncIterator]() {
+    for (const chunk of chunks) {
+      yield textEncoder.encode(chunk);
+    }
+  }
+});
+
+const preset = (name: string): LogFormat =>
+  LOG_FORMAT_PRESETS.find((format) => format.name === name)!;
+
+const collect = async (
+  chunks: string[],
+  options: Parameters<typeof parseLogFormatStream>[2]
+) => {
+  const headers: string[][] = [];
+  const batches: RowBatch[] = [];
+  const issues: ParseIssue[] = [];
+  const checkpoints: Array<{ rowIndex: number; byteOffset: number }> = [];
+
+  await parseLogFormatStream(
+    iterableFromStrings(chunks),
+    {
+      onHeader: (header) => {
+        headers.push(header);
+      },
+      onBatch: (batch) => {
+        batches.push(batch);
+      },
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(checkpoint);
+      },
+      onParseIssue: (issue) => {
+        issues.push(issue);
+      }
+    },
+    options
+  );
+
+  return {
+    headers,
+    batches,
+    issues,
+    checkpoints,
+    records: batches.flatMap((batch) => materializeRowBatch(batch).rows)
+  };
+};
+
+describe('compileLogFormat', () => {
+  it('names columns after named groups, or numbers positional groups', () => {
+    expect(compileLogFormat({ name: 'Named', pattern: '^(?<level>\\w+): (?<message>.*)$' }))
+      .toMatchObject({ columns: ['level', 'message'], named: true });
+    expect(compileLogFormat({ name: 'Positional', pattern: '^(\\w+) (?:at) (.*)$' }))
+      .toMatchObject({ columns: ['column_1', 'column_2'], named: false });
+  });
+
+  it('rejects invalid patterns and patterns without groups', () => {
+    expect(() => compileLogFormat({ name: 'Broken', pattern: '^(?<level>' })).toThrow(
+      'Log format "Broken" is not a valid regular expression:'
+    );
+    expect(() => compileLogFormat({ name: 'Flat', pattern: '^\\w+$' })).toThrow(
+      'Log format "Flat" has no capture groups.'
+    );
+  });
+});
+
+describe('parseLogFormatStream', () => {
+  it('splits syslog lines into typed columns and keeps unmatched lines in _raw', async () => {
+    const { headers, batches, issues, records } = await collect(
+      [
+        '<34>Oct 11 22:14:15 mymachine su[2301]: \'su root\' failed for lonvick\n',
+        'Oct 11 22:14:17 mym',
+        'achine sshd[812]: Accepted publickey for alice\r\n',
+        '\n',
+        '--- log rotated ---\n',
+        'Oct 11 22:15:02 mymachine cron[40]: (root) CMD (run-parts /etc/cron.hourly)'
+      ],
+      { logFormat: preset('Syslog (RFC 3164)') }
+    );
+
+    expect(headers.at(-1)).toEqual([
+      'priority',
+      'timestamp',
+      'host',
+      'program',
+      'pid',
+      'message',
+      '_raw'
+    ]);
+    expect(records).toMatchObject([
+      { priority: 34, host: 'mymachine', program: 'su', pid: 2301, _raw: '' },
+      { priority: null, program: 'sshd', message: 'Accepted publickey for alice' },
+      { host: '', message: '', _raw: '--- log rotated ---' },
+      { program: 'cron', pid: 40, message: '(root) CMD (run-parts /etc/cron.hourly)' }
+    ]);
+    expect(batches.at(-1)!.columnTypes).toMatchObject({ pid: 'number', host: 'string' });
+    expect(issues).toEqual([
+      {
+        kind: 'unmatchedLine',
+        rowIndex: 2,
+        byteOffset: 137,
+        expectedFields: 6,
+        actualFields: 0,
+        snippet: '--- log rotated ---'
+      }
+    ]);
+  });
+
+  it('skips comment lines and checkpoints line offsets', async () => {
+    const lines = [
+      '#Software: Microsoft Internet Information Services 10.0',
+      '#Fields: date time s-ip cs-method cs-uri-stem cs-uri-query s-port ...',
+      '2024-03-01 08:15:30 10.0.0.5 GET /index.html - 443 - 10.0.0.7 Mozilla/5.0 - 200 0 0 15',
+      '2024-03-01 08:15:31 10.0.0.5 POST /login q=1 443 alice 10.0.0.7 curl/8.0 - 302 0 0 42',
+      '2024-03-01 08:15:32 10.0.0.5 GET /admin - 443 - 10.0.0.9 curl/8.0 - 403 0 5 3'
+    ];
+    const { records, checkpoints } = await collect([`${lines.join('\n')}\n`], {
+      logFormat: preset('IIS W3C'),
+      checkpointInterval: 2
+    });
+
+    expect(records).toHaveLength(3);
+    expect(records[1]).toMatchObject({
+      method: 'POST',
+      uriQuery: 'q=1',
+      username: 'alice',
+      status: 302,
+      timeTaken: 42
+    });
+    const offsetOf = (line: number) =>
+      lines.slice(0, line).reduce((total, text) => total + text.length + 1, 0);
+    expect(checkpoints).toEqual([
+      { rowIndex: 0, byteOffset: offsetOf(2) },
+      { rowIndex: 2, byteOffset: offsetOf(4) }
+    ]);
+  });
+});
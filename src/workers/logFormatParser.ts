@@ -0,0 +1,106 @@
+import type { ParserCallbacks, ParserOptions } from './csvParser';
+import { createRecordBatcher } from './recordSource';
+import type { LogFormat } from './types';
+import { resolveSourceEncoding } from './utils/detectEncoding';
+import { readSourceLines } from './utils/lineReader';
+
+export type LogFormatParserOptions = Pick<
+  ParserOptions,
+  'batchSize' | 'encoding' | 'checkpointInterval' | 'sourceTimeZones'
+> & {
+  logFormat: LogFormat;
+};
+
+export interface CompiledLogFormat {
+  regex: RegExp;
+  /** One column per capture group, in pattern order. */
+  columns: string[];
+  /** Whether the columns come from named groups rather than positions. */
+  named: boolean;
+}
+
+/** Column receiving lines the format does not match so nothing is dropped silently. */
+export const LOG_FORMAT_RAW_COLUMN = '_raw';
+
+const ISSUE_SNIPPET_LENGTH = 120;
+
+/**
+ * Compiles a log format and lists its columns. The group names are read from
+ * a match of the empty alternative, which reports every group as undefined.
+ */
+export const compileLogFormat = ({ name, pattern }: LogFormat): CompiledLogFormat => {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Log format "${name}" is not a valid regular expression: ${reason}`);
+  }
+
+  const probe = new RegExp(`(?:${pattern})|`).exec('')!;
+  const groupNames = Object.keys(probe.groups ?? {});
+  if (groupNames.length > 0) {
+    return { regex, columns: groupNames, named: true };
+  }
+  if (probe.length === 1) {
+    throw new Error(`Log format "${name}" has no capture groups.`);
+  }
+  return {
+    regex,
+    columns: Array.from({ length: probe.length - 1 }, (_, index) => `column_${index + 1}`),
+    named: false
+  };
+};
+
+/**
+ * Streams a plain-text log through a {@link LogFormat}: each matching line
+ * becomes a row of its capture groups, typed by inference like delimited text.
+ * Lines the pattern does not match are kept whole in `_raw` and reported as
+ * parse issues; blank lines and comment lines are skipped.
+ */
+export const parseLogFormatStream = async (
+  source: AsyncIterable<Uint8Array>,
+  callbacks: ParserCallbacks,
+  options: LogFormatParserOptions
+): Promise<void> => {
+  const { regex, columns, named } = compileLogFormat(options.logFormat);
+  const { commentPrefix } = options.logFormat;
+  const { encoding, chunks } = await resolveSourceEncoding(source, options.encoding);
+  await callbacks.onEncoding?.(encoding);
+  const batcher = createRecordBatcher(callbacks, options);
+
+  for await (const { text, byteOffset, bytesParsed } of readSourceLines(chunks, encoding)) {
+    batcher.setBytesParsed(bytesParsed);
+    if (text.trim().length === 0 || (commentPrefix && text.startsWith(commentPrefix))) {
+      continue;
+    }
+
+    const match = regex.exec(text);
+    let values: Array<string | undefined> = [];
+    if (match) {
+      values = named ? columns.map((column) => match.groups?.[column]) : match.slice(1);
+    }
+    // Group columns come first even when the first line does not match.
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = values[index] ?? '';
+    });
+
+    if (!match) {
+      record[LOG_FORMAT_RAW_COLUMN] = text;
+      callbacks.onParseIssue?.({
+        kind: 'unmatchedLine',
+        rowIndex: batcher.rowCount(),
+        byteOffset,
+        expectedFields: columns.length,
+        actualFields: 0,
+        snippet:
+          text.length > ISSUE_SNIPPET_LENGTH ? `${text.slice(0, ISSUE_SNIPPET_LENGTH)}…` : text
+      });
+    }
+
+    await batcher.addRecord(record, byteOffset);
+  }
+
+  await batcher.finish();
+};
@@ -0,0 +1,214 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+
+import { parseParquetFile, type ParquetParserOptions } from './parquetParser';
+import {
+  buildParquetFixture,
+  PARQUET_TYPES,
+  type ParquetFixture,
+  type ParquetFixtureColumn
+} from './test/parquetFixture';
+import type { RowBatch } from './types';
+import { materializeRowBatch } from './utils/materializeRowBatch';
+
+const toBlob = (bytes: Uint8Array): Blob => new NodeBlob([bytes]) as unknown as Blob;
+
+const collect = async (file: Blob, options?: ParquetParserOptions) => {
+  const headers: string[][] = [];
+  const batches: RowBatch[] = [];
+  const rows: string[][] = [];
+  await parseParquetFile(
+    file,
+    {
+      onHeader: (header) => {
+        headers.push(header);
+      },
+      onBatch: (batch) => {
+        batches.push(batch);
+      },
+      onRow: (row) => {
+        rows.push(row);
+      }
+    },
+    options
+  );
+  return {
+    headers,
+    batches,
+    rows,
+    records: batches.flatMap((batch) => materializeRowBatch(batch).rows)
+  };
+};
+
+const EVENTS: ParquetFixtureColumn[] = [
+  {
+    name: 'time',
+    physicalType: PARQUET_TYPES.INT64,
+    optional: true,
+    // TIMESTAMP(isAdjustedToUTC = true, MICROS)
+    logicalType: { id: 8, fields: [[1, 'bool', true], [2, 'struct', [[2, 'struct', []]]]] },
+    values: [1_704_067_200_000_000n, 1_704_067_201_500_000n, null, 1_704_153_600_000_000n]
+  },
+  {
+    name: 'host',
+    physicalType: PARQUET_TYPES.BYTE_ARRAY,
+    logicalType: { id: 1 },
+    optional: true,
+    dictionary: true,
+    values: ['dc01', 'ws17', null, 'dc01']
+  },
+  {
+    name: 'event',
+    physicalType: PARQUET_TYPES.INT32,
+    values: [4624, 4625, 4688, 4624]
+  },
+  {
+    name: 'elevated',
+    physicalType: PARQUET_TYPES.BOOLEAN,
+    optional: true,
+    values: [true, false, null, true]
+  },
+  {
+    name: 'score',
+    physicalType: PARQUET_TYPES.DOUBLE,
+    optional: true,
+    values: [0.5, null, 2.25, -1]
+  }
+];
+
+const EXPECTED_EVENTS = [
+  { time: '2024-01-01T00:00:00Z', host: 'dc01', event: 4624, elevated: true, score: 0.5 },
+  { time: '2024-01-01T00:00:01.500Z', host: 'ws17', event: 4625, elevated: false, score: null },
+  { time: null, host: '', event: 4688, elevated: null, score: 2.25 },
+  { time: '2024-01-02T00:00:00Z', host: 'dc01', event: 4624, elevated: true, score: -1 }
+];
+
+describe('parquetParser', () => {
+  it.each<[string, Omit<ParquetFixture, 'columns'>]>([
+    ['uncompressed v1 pages', {}],
+    ['snappy v1 pages', { codec: 'snappy' }],
+    ['gzip v2 pages', { codec: 'gzip', pageVersion: 2 }],
+    ['several row groups', { rowGroupSize: 3, pageVersion: 2 }]
+  ])('reads %s with their declared types', async (_, options) => {
+    const { headers, batches, records } = await collect(
+      toBlob(buildParquetFixture({ columns: EVENTS, ...options }))
+    );
+
+    expect(headers).toEqual([['time', 'host', 'event', 'elevated', 'score']]);
+    expect(records).toMatchObject(EXPECTED_EVENTS);
+    expect(batches.at(-1)!.columnTypes).toEqual({
+      time: 'datetime',
+      host: 'string',
+      event: 'number',
+      elevated: 'boolean',
+      score: 'number'
+    });
+    expect(batches.at(-1)!.stats.eof).toBe(true);
+    expect(batches.at(-1)!.columnInference.host).toMatchObject({
+      type: 'string',
+      confidence: 1,
+      samples: 4,
+      nullCount: 1,
+      examples: ['dc01', 'ws17']
+    });
+  });
+
+  it('decodes dates, decimals, INT96 timestamps and raw bytes', async () => {
+    const { records, rows } = await collect(
+      toBlob(
+        buildParquetFixture({
+          columns: [
+            // DATE
+            { name: 'day', physicalType: PARQUET_TYPES.INT32, convertedType: 6, values: [19_723] },
+            {
+              name: 'amount',
+              physicalType: PARQUET_TYPES.INT64,
+              logicalType: { id: 5, fields: [[1, 'i32', 2], [2, 'i32', 10]] },
+              values: [-12_345n]
+            },
+            {
+              name: 'precise',
+              physicalType: PARQUET_TYPES.FIXED_LEN_BYTE_ARRAY,
+              typeLength: 4,
+              // DECIMAL(scale 0)
+              convertedType: 5,
+              values: [Uint8Array.of(0xff, 0xff, 0xfe, 0x0c)]
+            },
+            {
+              name: 'written',
+              physicalType: PARQUET_TYPES.INT96,
+              values: [Date.UTC(2024, 0, 1, 6, 30, 0, 250)]
+            },
+            {
+              name: 'hash',
+              physicalType: PARQUET_TYPES.BYTE_ARRAY,
+              values: [Uint8Array.of(0, 171)]
+            }
+          ]
+        })
+      )
+    );
+
+    expect(records).toMatchObject([
+      {
+        day: '2024-01-01T00:00:00Z',
+        amount: -123.45,
+        precise: -500,
+        written: '2024-01-01T06:30:00.250Z',
+        hash: '00ab'
+      }
+    ]);
+    expect(rows).toEqual([
+      ['2024-01-01T00:00:00Z', '-123.45', '-500', '2024-01-01T06:30:00.250Z', '00ab']
+    ]);
+  });
+
+  it('reads wall-clock timestamps in the configured source time zone', async () => {
+    const { records } = await collect(
+      toBlob(
+        buildParquetFixture({
+          columns: [
+            {
+              name: 'local',
+              physicalType: PARQUET_TYPES.INT64,
+              // TIMESTAMP(isAdjustedToUTC = false, MILLIS)
+              logicalType: {
+                id: 8,
+                fields: [[1, 'bool', false], [2, 'struct', [[1, 'struct', []]]]]
+              },
+              values: [Date.UTC(2024, 6, 1, 9)]
+            }
+          ]
+        })
+      ),
+      { sourceTimeZones: { local: 'Europe/Berlin' } }
+    );
+
+    expect(records).toMatchObject([{ local: '2024-07-01T07:00:00Z' }]);
+  });
+
+  it('stops after the row limit and cuts batches to the batch size', async () => {
+    const { batches, rows } = await collect(
+      toBlob(buildParquetFixture({ columns: EVENTS, rowGroupSize: 2 })),
+      { rowLimit: 3, batchSize: 2 }
+    );
+
+    expect(batches.map((batch) => Array.from(batch.rowIds))).toEqual([[0, 1], [2]]);
+    expect(rows).toHaveLength(3);
+  });
+
+  it('rejects files without the Parquet magic and nested columns', async () => {
+    await expect(collect(toBlob(new TextEncoder().encode('time,host\n')))).rejects.toThrow(
+      'Not a Parquet file: the PAR1 magic is missing.'
+    );
+
+    const nested = buildParquetFixture({
+      columns: [
+        { name: 'tags', physicalType: PARQUET_TYPES.BYTE_ARRAY, repeated: true, values: ['a'] }
+      ]
+    });
+    await expect(collect(toBlob(nested))).rejects.toThrow(
+      'Parquet column "tags" is nested or repeated; only flat columns are supported.'
+    );
+  });
+});
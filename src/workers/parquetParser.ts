@@ -0,0 +1,695 @@
+import type { ParserCallbacks } from './csvParser';
+import {
+  emitColumnarChunks,
+  type ColumnarChunk,
+  type ColumnarField,
+  type ColumnarParserOptions
+} from './columnarSource';
+import type { ColumnBatch, ColumnType } from './types';
+import { decompressStream } from './utils/decompressStream';
+import { decompressLz4Block } from './utils/lz4';
+import { decompressSnappy } from './utils/snappy';
+import {
+  readThriftStruct,
+  thriftBinary,
+  thriftList,
+  thriftNumber,
+  thriftStruct,
+  type ThriftStruct
+} from './utils/thriftCompact';
+import { ZstdDecoder } from './utils/zstd';
+
+/**
+ * Reader for Apache Parquet files. Row groups are read one at a time through
+ * the column chunk offsets in the footer, so the file is never loaded whole.
+ * Flat schemas with PLAIN or dictionary-encoded pages (v1 and v2) are
+ * supported, uncompressed or compressed with snappy, gzip, zstd or LZ4.
+ */
+
+export type ParquetParserOptions = ColumnarParserOptions;
+
+type ParquetValue = number | boolean | Uint8Array;
+
+interface ParquetColumn {
+  name: string;
+  physicalType: number;
+  /** Byte width of FIXED_LEN_BYTE_ARRAY values. */
+  typeLength: number;
+  /** 1 for optional columns, whose definition levels mark nulls. */
+  maxDefinitionLevel: number;
+  field: ColumnarField;
+  /** UTF-8 byte arrays, copied into string columns as they are. */
+  text: boolean;
+  /** Turns a decoded physical value into a cell of `field.type`. */
+  convert: (value: ParquetValue) => number | boolean | string;
+}
+
+const MAGIC = 'PAR1';
+/** Footer length and trailing magic. */
+const TRAILER_LENGTH = 8;
+const MS_PER_DAY = 86_400_000;
+/** Julian day number of 1970-01-01, the epoch of INT96 timestamps. */
+const UNIX_EPOCH_JULIAN_DAY = 2_440_588;
+
+const TYPE_BOOLEAN = 0;
+const TYPE_INT32 = 1;
+const TYPE_INT64 = 2;
+const TYPE_INT96 = 3;
+const TYPE_FLOAT = 4;
+const TYPE_DOUBLE = 5;
+const TYPE_BYTE_ARRAY = 6;
+const TYPE_FIXED_LEN_BYTE_ARRAY = 7;
+
+const REPETITION_OPTIONAL = 1;
+const REPETITION_REPEATED = 2;
+
+const PAGE_DATA = 0;
+const PAGE_DICTIONARY = 2;
+const PAGE_DATA_V2 = 3;
+
+const ENCODING_PLAIN = 0;
+const ENCODING_PLAIN_DICTIONARY = 2;
+const ENCODING_RLE = 3;
+const ENCODING_RLE_DICTIONARY = 8;
+const ENCODING_NAMES = [
+  'PLAIN', 'GROUP_VAR_INT', 'PLAIN_DICTIONARY', 'RLE', 'BIT_PACKED', 'DELTA_BINARY_PACKED',
+  'DELTA_LENGTH_BYTE_ARRAY', 'DELTA_BYTE_ARRAY', 'RLE_DICTIONARY', 'BYTE_STREAM_SPLIT'
+];
+
+const CODEC_UNCOMPRESSED = 0;
+const CODEC_SNAPPY = 1;
+const CODEC_GZIP = 2;
+const CODEC_ZSTD = 6;
+const CODEC_LZ4_RAW = 7;
+const CODEC_NAMES = ['UNCOMPRESSED', 'SNAPPY', 'GZIP', 'LZO', 'BROTLI', 'LZ4', 'ZSTD', 'LZ4_RAW'];
+
+/** `ConvertedType` values still written by older tools in place of logical types. */
+const CONVERTED_UTF8 = 0;
+const CONVERTED_ENUM = 4;
+const CONVERTED_DECIMAL = 5;
+const CONVERTED_DATE = 6;
+const CONVERTED_TIMESTAMP_MILLIS = 9;
+const CONVERTED_TIMESTAMP_MICROS = 10;
+const CONVERTED_UINT_32 = 13;
+const CONVERTED_UINT_64 = 14;
+const CONVERTED_JSON = 19;
+
+/** Field ids of the `LogicalType` union. */
+const LOGICAL_STRING = 1;
+const LOGICAL_ENUM = 4;
+const LOGICAL_DECIMAL = 5;
+const LOGICAL_DATE = 6;
+const LOGICAL_TIMESTAMP = 8;
+const LOGICAL_INTEGER = 10;
+const LOGICAL_JSON = 12;
+const LOGICAL_FLOAT16 = 15;
+/** Milliseconds per MILLIS, MICROS and NANOS, indexed by `TimeUnit` field id. */
+const TIME_UNIT_TO_MS = [0, 1, 1e-3, 1e-6];
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+const corrupt = (reason: string): Error => new Error(`Corrupt Parquet file: ${reason}.`);
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const toDataView = (bytes: Uint8Array): DataView =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/** Big-endian two's complement integer, as DECIMAL byte arrays are stored. */
+const readBigEndianInteger = (bytes: Uint8Array): bigint => {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return bytes.length > 0 && bytes[0]! & 0x80 ? value - (1n << BigInt(bytes.length * 8)) : value;
+};
+
+const decodeHalfFloat = (bits: number): number => {
+  const exponent = (bits >>> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (fraction / 1024);
+  }
+  if (exponent === 31) {
+    return fraction ? Number.NaN : sign * Number.POSITIVE_INFINITY;
+  }
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+};
+
+const logicalTypeId = (element: ThriftStruct): number | undefined => {
+  const logical = thriftStruct(element, 10);
+  return logical ? logical.keys().next().value : undefined;
+};
+
+/** Picks the column type and value conversion from the physical and annotated types. */
+const describeColumn = (element: ThriftStruct, name: string): ParquetColumn => {
+  const physicalType = thriftNumber(element, 1) ?? TYPE_BYTE_ARRAY;
+  const converted = thriftNumber(element, 6);
+  const logicalId = logicalTypeId(element);
+  const logical =
+    logicalId == null ? undefined : thriftStruct(thriftStruct(element, 10), logicalId);
+  const base = {
+    name,
+    physicalType,
+    typeLength: thriftNumber(element, 2) ?? 0,
+    maxDefinitionLevel: thriftNumber(element, 3) === REPETITION_OPTIONAL ? 1 : 0
+  };
+  const column = (
+    type: ColumnType,
+    convert: ParquetColumn['convert'],
+    naive = false
+  ): ParquetColumn => ({ ...base, field: { name, type, naive }, text: false, convert });
+
+  if (logicalId === LOGICAL_DECIMAL || converted === CONVERTED_DECIMAL) {
+    const scale = 10 ** (thriftNumber(logical, 1) ?? thriftNumber(element, 7) ?? 0);
+    return column('number', (value) =>
+      value instanceof Uint8Array
+        ? Number(readBigEndianInteger(value)) / scale
+        : Number(value) / scale
+    );
+  }
+
+  switch (physicalType) {
+    case TYPE_BOOLEAN:
+      return column('boolean', (value) => value === true);
+    case TYPE_INT32:
+      if (logicalId === LOGICAL_DATE || converted === CONVERTED_DATE) {
+        return column('datetime', (value) => Number(value) * MS_PER_DAY);
+      }
+      if (
+        converted === CONVERTED_UINT_32 ||
+        (logicalId === LOGICAL_INTEGER && logical?.get(2) === false)
+      ) {
+        return column('number', (value) => Number(value) >>> 0);
+      }
+      return column('number', Number);
+    case TYPE_INT64: {
+      if (logicalId === LOGICAL_TIMESTAMP) {
+        const unit = thriftStruct(logical, 2);
+        const unitMs = TIME_UNIT_TO_MS[unit ? unit.keys().next().value ?? 1 : 1] ?? 1;
+        // Timestamps not adjusted to UTC are wall-clock readings.
+        return column('datetime', (value) => Number(value) * unitMs, logical?.get(1) !== true);
+      }
+      if (converted === CONVERTED_TIMESTAMP_MILLIS || converted === CONVERTED_TIMESTAMP_MICROS) {
+        const unitMs = converted === CONVERTED_TIMESTAMP_MILLIS ? 1 : 1e-3;
+        return column('datetime', (value) => Number(value) * unitMs);
+      }
+      if (
+        converted === CONVERTED_UINT_64 ||
+        (logicalId === LOGICAL_INTEGER && logical?.get(2) === false)
+      ) {
+        return column('number', (value) =>
+          Number(value) < 0 ? Number(value) + 2 ** 64 : Number(value)
+        );
+      }
+      return column('number', Number);
+    }
+    case TYPE_INT96:
+      return column('datetime', Number);
+    case TYPE_FLOAT:
+    case TYPE_DOUBLE:
+      return column('number', Number);
+    case TYPE_FIXED_LEN_BYTE_ARRAY:
+      if (logicalId === LOGICAL_FLOAT16) {
+        return column('number', (value) =>
+          decodeHalfFloat(toDataView(value as Uint8Array).getUint16(0, true))
+        );
+      }
+      return column('string', (value) => toHex(value as Uint8Array));
+    default: {
+      const isText =
+        logicalId === LOGICAL_STRING ||
+        logicalId === LOGICAL_ENUM ||
+        logicalId === LOGICAL_JSON ||
+        converted === CONVERTED_UTF8 ||
+        converted === CONVERTED_ENUM ||
+        converted === CONVERTED_JSON;
+      if (isText) {
+        const decode = (value: ParquetValue) => textDecoder.decode(value as Uint8Array);
+        return { ...column('string', decode), text: true };
+      }
+      return column('string', (value) => toHex(value as Uint8Array));
+    }
+  }
+};
+
+const readSchema = (metadata: ThriftStruct): ParquetColumn[] => {
+  const [root, ...elements] = thriftList(metadata, 2) as ThriftStruct[];
+  if (!root) {
+    throw corrupt('the schema is missing');
+  }
+  return elements.map((element) => {
+    const name = textDecoder.decode(thriftBinary(element, 4));
+    if ((thriftNumber(element, 5) ?? 0) > 0 || thriftNumber(element, 3) === REPETITION_REPEATED) {
+      throw new Error(
+        `Parquet column "${name}" is nested or repeated; only flat columns are supported.`
+      );
+    }
+    return describeColumn(element, name);
+  });
+};
+
+/**
+ * Reads values packed with the RLE / bit-packing hybrid encoding, used for
+ * definition levels, dictionary indices and RLE booleans.
+ */
+const decodeHybrid = (
+  bytes: Uint8Array,
+  bitWidth: number,
+  count: number,
+  start = 0,
+  end = bytes.length
+): Uint32Array => {
+  const values = new Uint32Array(count);
+  const valueBytes = Math.ceil(bitWidth / 8);
+  const mask = bitWidth >= 32 ? 0xffffffff : (1 << bitWidth) - 1;
+  let position = start;
+  let index = 0;
+
+  const varint = (): number => {
+    let value = 0;
+    let shift = 0;
+    for (;;) {
+      if (position >= end) {
+        throw corrupt('an RLE run is truncated');
+      }
+      const byte = bytes[position++]!;
+      value |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return value >>> 0;
+      }
+      shift += 7;
+    }
+  };
+
+  while (index < count) {
+    const header = varint();
+    if (header & 1) {
+      // Bit-packed groups of eight values, least significant bit first.
+      const total = (header >>> 1) * 8;
+      let bitPosition = position * 8;
+      for (let item = 0; item < total; item += 1) {
+        let value = 0;
+        for (let bit = 0; bit < bitWidth; bit += 1) {
+          const absolute = bitPosition + bit;
+          value |= ((bytes[absolute >>> 3]! >>> (absolute & 7)) & 1) << bit;
+        }
+        bitPosition += bitWidth;
+        if (index < count) {
+          values[index++] = (value & mask) >>> 0;
+        }
+      }
+      position += (header >>> 1) * bitWidth;
+    } else {
+      const runLength = header >>> 1;
+      let value = 0;
+      for (let byte = 0; byte < valueBytes; byte += 1) {
+        value |= bytes[position + byte]! << (byte * 8);
+      }
+      position += valueBytes;
+      values.fill(value >>> 0, index, Math.min(count, index + runLength));
+      index += runLength;
+    }
+    if (position > end) {
+      throw corrupt('an RLE run is truncated');
+    }
+  }
+  return values;
+};
+
+/** Decodes `count` PLAIN-encoded values of a physical type. */
+const decodePlain = (bytes: Uint8Array, column: ParquetColumn, count: number): ParquetValue[] => {
+  const view = toDataView(bytes);
+  const values: ParquetValue[] = new Array(count);
+  let position = 0;
+  const ensure = (size: number) => {
+    if (position + size > bytes.length) {
+      throw corrupt(`page values of "${column.name}" are truncated`);
+    }
+  };
+
+  for (let index = 0; index < count; index += 1) {
+    switch (column.physicalType) {
+      case TYPE_BOOLEAN:
+        ensure(index % 8 === 0 ? 1 : 0);
+        values[index] = ((bytes[index >>> 3]! >>> (index & 7)) & 1) === 1;
+        continue;
+      case TYPE_INT32:
+        ensure(4);
+        values[index] = view.getInt32(position, true);
+        position += 4;
+        continue;
+      case TYPE_INT64:
+        ensure(8);
+        values[index] = Number(view.getBigInt64(position, true));
+        position += 8;
+        continue;
+      case TYPE_INT96: {
+        // Nanoseconds within the day, then the Julian day number.
+        ensure(12);
+        const nanos = view.getBigInt64(position, true);
+        const julianDay = view.getInt32(position + 8, true);
+        values[index] = (julianDay - UNIX_EPOCH_JULIAN_DAY) * MS_PER_DAY + Number(nanos) / 1e6;
+        position += 12;
+        continue;
+      }
+      case TYPE_FLOAT:
+        ensure(4);
+        values[index] = view.getFloat32(position, true);
+        position += 4;
+        continue;
+      case TYPE_DOUBLE:
+        ensure(8);
+        values[index] = view.getFloat64(position, true);
+        position += 8;
+        continue;
+      case TYPE_FIXED_LEN_BYTE_ARRAY:
+        ensure(column.typeLength);
+        values[index] = bytes.subarray(position, position + column.typeLength);
+        position += column.typeLength;
+        continue;
+      default: {
+        ensure(4);
+        const length = view.getUint32(position, true);
+        ensure(4 + length);
+        values[index] = bytes.subarray(position + 4, position + 4 + length);
+        position += 4 + length;
+      }
+    }
+  }
+  return values;
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const merged = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return merged;
+};
+
+const decompressPage = async (
+  bytes: Uint8Array,
+  codec: number,
+  uncompressedSize: number
+): Promise<Uint8Array> => {
+  switch (codec) {
+    case CODEC_UNCOMPRESSED:
+      return bytes;
+    case CODEC_SNAPPY:
+      return decompressSnappy(bytes);
+    case CODEC_GZIP: {
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(bytes);
+          controller.close();
+        }
+      });
+      return new Uint8Array(await new Response(decompressStream(stream, 'gzip')).arrayBuffer());
+    }
+    case CODEC_ZSTD: {
+      const decoder = new ZstdDecoder();
+      const blocks = decoder.push(bytes);
+      decoder.finish();
+      return concatBytes(blocks);
+    }
+    case CODEC_LZ4_RAW:
+      return decompressLz4Block(bytes, uncompressedSize);
+    default:
+      throw new Error(
+        `Parquet compression codec ${CODEC_NAMES[codec] ?? codec} is not supported.`
+      );
+  }
+};
+
+/** Decodes the non-null values of a data page section. */
+const decodeValues = (
+  bytes: Uint8Array,
+  encoding: number,
+  column: ParquetColumn,
+  count: number,
+  dictionary: ParquetValue[] | null
+): ParquetValue[] => {
+  if (encoding === ENCODING_PLAIN) {
+    return decodePlain(bytes, column, count);
+  }
+  if (encoding === ENCODING_PLAIN_DICTIONARY || encoding === ENCODING_RLE_DICTIONARY) {
+    if (!dictionary) {
+      throw corrupt(`"${column.name}" has dictionary-encoded pages but no dictionary`);
+    }
+    const indices = decodeHybrid(bytes, bytes[0] ?? 0, count, 1);
+    return Array.from(indices, (index) => {
+      const value = dictionary[index];
+      if (value === undefined) {
+        throw corrupt(`a dictionary index of "${column.name}" is out of range`);
+      }
+      return value;
+    });
+  }
+  if (encoding === ENCODING_RLE && column.physicalType === TYPE_BOOLEAN) {
+    // Length-prefixed like v1 definition levels.
+    return Array.from(decodeHybrid(bytes, 1, count, 4), (value) => value === 1);
+  }
+  throw new Error(
+    `Parquet column "${column.name}" uses the unsupported ${
+      ENCODING_NAMES[encoding] ?? encoding
+    } encoding.`
+  );
+};
+
+const buildColumn = (
+  column: ParquetColumn,
+  values: ParquetValue[],
+  definitions: Uint32Array[],
+  rowCount: number
+): ColumnBatch => {
+  const isNull = new Uint8Array(rowCount);
+  let row = 0;
+  for (const levels of definitions) {
+    for (const level of levels) {
+      isNull[row++] = level < column.maxDefinitionLevel ? 1 : 0;
+    }
+  }
+
+  if (column.field.type === 'string') {
+    const encoded = new Array<Uint8Array>(rowCount);
+    const offsets = new Uint32Array(rowCount + 1);
+    let valueIndex = 0;
+    for (let index = 0; index < rowCount; index += 1) {
+      if (isNull[index]) {
+        encoded[index] = new Uint8Array(0);
+      } else {
+        const value = values[valueIndex++]!;
+        encoded[index] = column.text
+          ? (value as Uint8Array)
+          : textEncoder.encode(String(column.convert(value)));
+      }
+      offsets[index + 1] = offsets[index]! + encoded[index]!.length;
+    }
+    const data = new Uint8Array(offsets[rowCount]!);
+    encoded.forEach((bytes, index) => data.set(bytes, offsets[index]!));
+    return { type: 'string', data: data.buffer, offsets };
+  }
+
+  const data =
+    column.field.type === 'boolean' ? new Uint8Array(rowCount) : new Float64Array(rowCount);
+  let valueIndex = 0;
+  for (let index = 0; index < rowCount; index += 1) {
+    if (!isNull[index]) {
+      data[index] = Number(column.convert(values[valueIndex++]!));
+    }
+  }
+  return {
+    type: column.field.type,
+    data,
+    nullMask: isNull.includes(1) ? isNull : undefined
+  } as ColumnBatch;
+};
+
+/** Pushes one at a time; spreading a large page into `push` would overflow the stack. */
+const appendValues = (target: ParquetValue[], source: ParquetValue[]) => {
+  for (const value of source) {
+    target.push(value);
+  }
+};
+
+const countPresent = (levels: Uint32Array, column: ParquetColumn): number =>
+  levels.reduce((total, level) => total + (level === column.maxDefinitionLevel ? 1 : 0), 0);
+
+/** Decodes every page of one column chunk into a column `rowCount` rows long. */
+const readColumnChunk = async (
+  bytes: Uint8Array,
+  column: ParquetColumn,
+  metadata: ThriftStruct,
+  rowCount: number
+): Promise<ColumnBatch> => {
+  const codec = thriftNumber(metadata, 4) ?? CODEC_UNCOMPRESSED;
+  const totalValues = thriftNumber(metadata, 5) ?? rowCount;
+  const values: ParquetValue[] = [];
+  const definitions: Uint32Array[] = [];
+  let dictionary: ParquetValue[] | null = null;
+  let valuesRead = 0;
+  let position = 0;
+
+  while (valuesRead < totalValues && position < bytes.length) {
+    const { struct: header, end } = readThriftStruct(bytes, position);
+    const pageType = thriftNumber(header, 1);
+    const uncompressedSize = thriftNumber(header, 2) ?? 0;
+    const compressedSize = thriftNumber(header, 3) ?? 0;
+    if (end + compressedSize > bytes.length) {
+      throw corrupt(`a page of "${column.name}" runs past its column chunk`);
+    }
+    const page = bytes.subarray(end, end + compressedSize);
+    position = end + compressedSize;
+
+    if (pageType === PAGE_DICTIONARY) {
+      const dictionaryHeader = thriftStruct(header, 7);
+      dictionary = decodePlain(
+        await decompressPage(page, codec, uncompressedSize),
+        column,
+        thriftNumber(dictionaryHeader, 1) ?? 0
+      );
+      continue;
+    }
+
+    if (pageType === PAGE_DATA) {
+      const dataHeader = thriftStruct(header, 5);
+      const count = thriftNumber(dataHeader, 1) ?? 0;
+      const content = await decompressPage(page, codec, uncompressedSize);
+      let levels: Uint32Array = new Uint32Array(count);
+      let offset = 0;
+      if (column.maxDefinitionLevel > 0) {
+        const length = toDataView(content).getUint32(0, true);
+        levels = decodeHybrid(content, 1, count, 4, 4 + length);
+        offset = 4 + length;
+      }
+      definitions.push(levels);
+      appendValues(
+        values,
+        decodeValues(
+          content.subarray(offset),
+          thriftNumber(dataHeader, 2) ?? ENCODING_PLAIN,
+          column,
+          countPresent(levels, column),
+          dictionary
+        )
+      );
+      valuesRead += count;
+      continue;
+    }
+
+    if (pageType === PAGE_DATA_V2) {
+      const dataHeader = thriftStruct(header, 8);
+      const count = thriftNumber(dataHeader, 1) ?? 0;
+      const definitionLength = thriftNumber(dataHeader, 5) ?? 0;
+      const repetitionLength = thriftNumber(dataHeader, 6) ?? 0;
+      // Levels are never compressed in v2 pages; only the values that follow are.
+      const levelsEnd = repetitionLength + definitionLength;
+      const levels =
+        column.maxDefinitionLevel > 0
+          ? decodeHybrid(page, 1, count, repetitionLength, levelsEnd)
+          : new Uint32Array(count);
+      const compressed = dataHeader?.get(7) !== false;
+      const content = compressed
+        ? await decompressPage(page.subarray(levelsEnd), codec, uncompressedSize - levelsEnd)
+        : page.subarray(levelsEnd);
+      definitions.push(levels);
+      appendValues(
+        values,
+        decodeValues(
+          content,
+          thriftNumber(dataHeader, 4) ?? ENCODING_PLAIN,
+          column,
+          countPresent(levels, column),
+          dictionary
+        )
+      );
+      valuesRead += count;
+    }
+    // Index pages and unknown page types carry no values.
+  }
+
+  if (valuesRead < rowCount) {
+    throw corrupt(`"${column.name}" has ${valuesRead} values for ${rowCount} rows`);
+  }
+  return buildColumn(column, values, definitions, rowCount);
+};
+
+const readFooter = async (file: Blob) => {
+  const head = await readBytes(file, 0, 4);
+  const tail = await readBytes(file, Math.max(0, file.size - TRAILER_LENGTH), file.size);
+  if (
+    file.size < 4 + TRAILER_LENGTH ||
+    textDecoder.decode(head) !== MAGIC ||
+    textDecoder.decode(tail.subarray(4)) !== MAGIC
+  ) {
+    throw new Error('Not a Parquet file: the PAR1 magic is missing.');
+  }
+  const footerLength = toDataView(tail).getUint32(0, true);
+  const footerStart = file.size - TRAILER_LENGTH - footerLength;
+  if (footerStart < 4) {
+    throw corrupt('the footer length is out of range');
+  }
+  const { struct: metadata } = readThriftStruct(
+    await readBytes(file, footerStart, footerStart + footerLength)
+  );
+  return { columns: readSchema(metadata), rowGroups: thriftList(metadata, 4) as ThriftStruct[] };
+};
+
+/**
+ * Streams the row groups of a Parquet file into row batches, keeping each
+ * column's declared type.
+ */
+export const parseParquetFile = async (
+  file: Blob,
+  callbacks: ParserCallbacks,
+  options: ParquetParserOptions = {}
+): Promise<void> => {
+  const { columns, rowGroups } = await readFooter(file);
+
+  async function* readRowGroups(): AsyncGenerator<ColumnarChunk> {
+    for (const rowGroup of rowGroups) {
+      const rowCount = thriftNumber(rowGroup, 3) ?? 0;
+      const chunks = thriftList(rowGroup, 1) as ThriftStruct[];
+      if (chunks.length !== columns.length) {
+        throw corrupt('a row group does not have one column chunk per column');
+      }
+      let byteOffset = Number.POSITIVE_INFINITY;
+      let bytesParsed = 0;
+      const batches: ColumnBatch[] = [];
+      for (const [index, chunk] of chunks.entries()) {
+        const metadata = thriftStruct(chunk, 3);
+        const dataOffset = thriftNumber(metadata, 9) ?? 0;
+        // Some writers record a zero dictionary offset for chunks without a dictionary.
+        const dictionaryOffset = thriftNumber(metadata, 11) || dataOffset;
+        const start = Math.min(dataOffset, dictionaryOffset);
+        const end = start + (thriftNumber(metadata, 7) ?? 0);
+        if (!metadata || end > file.size) {
+          throw corrupt('a column chunk lies outside the file');
+        }
+        byteOffset = Math.min(byteOffset, start);
+        bytesParsed = Math.max(bytesParsed, end);
+        const bytes = await readBytes(file, start, end);
+        batches.push(await readColumnChunk(bytes, columns[index]!, metadata, rowCount));
+      }
+      if (rowCount > 0) {
+        yield { rowCount, columns: batches, byteOffset, bytesParsed };
+      }
+    }
+  }
+
+  await emitColumnarChunks(
+    columns.map((column) => column.field),
+    readRowGroups(),
+    callbacks,
+    options
+  );
+};
@@ -0,0 +1,153 @@
+import type { ParserCallbacks, ParserOptions } from './csvParser';
+import type { RowBatch } from './types';
+import { TypeInferencer } from './typeInference';
+import { buildColumnsFromBuilders } from './utils/columnBatchBuilders';
+
+/**
+ * Shared tail of the JSON Lines and EVTX readers. Their records are flat
+ * name/value maps whose keys vary, so the header grows as new keys appear and
+ * values are typed by inference like delimited text.
+ */
+
+export type RecordBatcherOptions = Pick<
+  ParserOptions,
+  'batchSize' | 'checkpointInterval' | 'sourceTimeZones'
+>;
+
+export interface RecordBatcher {
+  /** Adds one record, flushing the pending batch first when it is full. */
+  addRecord: (record: Record<string, string>, byteOffset: number) => Promise<void>;
+  /** Source bytes read so far; reported with the next batch. */
+  setBytesParsed: (bytes: number) => void;
+  /** Flushes the pending rows as the final batch. */
+  finish: () => Promise<void>;
+  /** Rows added so far, flushed or not. */
+  rowCount: () => number;
+}
+
+const DEFAULT_BATCH_SIZE = 10_000;
+
+interface InternalState {
+  header: string[];
+  columnIndex: Map<string, number>;
+  headerChanged: boolean;
+  columnBuilders: string[][];
+  pendingRowCount: number;
+  totalRows: number;
+  bytesParsed: number;
+  inferencer: TypeInferencer;
+}
+
+export const createRecordBatcher = (
+  callbacks: ParserCallbacks,
+  options: RecordBatcherOptions = {}
+): RecordBatcher => {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const checkpointInterval = options.checkpointInterval ?? 50_000;
+  const state: InternalState = {
+    header: [],
+    columnIndex: new Map(),
+    headerChanged: false,
+    columnBuilders: [],
+    pendingRowCount: 0,
+    totalRows: 0,
+    bytesParsed: 0,
+    inferencer: new TypeInferencer([], { sourceTimeZones: options.sourceTimeZones })
+  };
+
+  const ensureColumn = (name: string): number => {
+    const existing = state.columnIndex.get(name);
+    if (existing != null) {
+      return existing;
+    }
+
+    const index = state.header.length;
+    state.header.push(name);
+    state.columnIndex.set(name, index);
+    state.inferencer.addColumn(name);
+    // Rows already buffered in this batch did not carry the key.
+    state.columnBuilders.push(new Array<string>(state.pendingRowCount).fill(''));
+    state.headerChanged = true;
+    return index;
+  };
+
+  const flushBatch = async (eof: boolean): Promise<void> => {
+    if (state.headerChanged) {
+      state.headerChanged = false;
+      if (callbacks.onHeader) {
+        await callbacks.onHeader(state.header.slice());
+      }
+    }
+
+    if (state.pendingRowCount === 0) {
+      return;
+    }
+
+    const rowCount = state.pendingRowCount;
+    const startId = state.totalRows;
+    const rowIds = new Uint32Array(rowCount);
+    for (let idx = 0; idx < rowCount; idx += 1) {
+      rowIds[idx] = startId + idx;
+    }
+
+    const { columns, columnTypes, columnInference } = buildColumnsFromBuilders(
+      state.header,
+      state.columnBuilders,
+      state.inferencer,
+      options.sourceTimeZones
+    );
+    state.totalRows += rowCount;
+
+    const batch: RowBatch = {
+      rowIds,
+      columns,
+      columnTypes,
+      columnInference,
+      stats: {
+        rowsParsed: state.totalRows,
+        bytesParsed: state.bytesParsed,
+        eof
+      }
+    };
+
+    state.columnBuilders = state.header.map(() => []);
+    state.pendingRowCount = 0;
+    await callbacks.onBatch(batch);
+  };
+
+  const addRecord = async (record: Record<string, string>, byteOffset: number): Promise<void> => {
+    if (state.pendingRowCount >= batchSize) {
+      await flushBatch(false);
+    }
+
+    for (const key of Object.keys(record)) {
+      ensureColumn(key);
+    }
+
+    const row = new Array<string>(state.header.length).fill('');
+    for (const [key, value] of Object.entries(record)) {
+      row[state.columnIndex.get(key)!] = value;
+    }
+
+    callbacks.onRow?.(row);
+    state.inferencer.updateRow(row);
+    for (let columnIndex = 0; columnIndex < row.length; columnIndex += 1) {
+      state.columnBuilders[columnIndex]!.push(row[columnIndex]!);
+    }
+    state.pendingRowCount += 1;
+
+    const rowIndex = state.totalRows + state.pendingRowCount - 1;
+    if (checkpointInterval > 0 && callbacks.onCheckpoint && rowIndex % checkpointInterval === 0) {
+      await callbacks.onCheckpoint({ rowIndex, byteOffset });
+    }
+  };
+
+  return {
+    addRecord,
+    setBytesParsed: (bytes) => {
+      state.bytesParsed = bytes;
+    },
+    finish: () => flushBatch(true),
+    rowCount: () => state.totalRows + state.pendingRowCount
+  };
+};
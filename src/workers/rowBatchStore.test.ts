@@ -3,6 +3,7 @@
 import { describe, expect, it } from 'vitest';
 
 import { RowBatchStore } from './rowBatchStore';
+import { coerceColumnBatch } from './utils/columnBatchBuilders';
 import type { RowBatch } from './types';
 
 const textEncoder = new TextEncoder();
@@ -29,9 +30,10 @@ class MockWritable {
 }
 
 class MockFileHandle {
-  public readonly writable = new MockWritable();
+  public writable = new MockWritable();
 
   async createWritable(): Promise<FileSystemWritableFileStream> {
+    this.writable = new MockWritable();
     return this.writable as unknown as FileSystemWritableFileStream;
   }
 
@@ -244,4 +246,32 @@ describe('RowBatchStore OPFS writes', () => {
     expect(rows.map((row) => row.__rowId)).toEqual([0, 1, 2, 3, 4]);
     expect(rows.map((row) => row.value)).toEqual(values);
   });
+
+  it('rewrites stored batches and keeps the source text of typed columns', async () => {
+    const store = await RowBatchStore.create('opfs-rewrite-dataset');
+    (store as unknown as { useMemoryFallback: boolean }).useMemoryFallback = false;
+    (store as unknown as { directoryHandle: FileSystemDirectoryHandle | null }).directoryHandle =
+      new MockDirectoryHandle() as unknown as FileSystemDirectoryHandle;
+
+    const values = ['0x1A', '007', 'n/a', '1e3', '42'];
+    for (let index = 0; index < values.length; index += 1) {
+      const batch = createStringBatch(index, values[index]!);
+      batch.columns.value = coerceColumnBatch(batch.columns.value!, { type: 'number' });
+      await store.storeBatch(batch);
+    }
+    const rowIds = [0, 1, 2, 3, 4];
+    expect((await store.materializeRows(rowIds)).map((row) => row.value)).toEqual([
+      26,
+      7,
+      null,
+      1000,
+      42
+    ]);
+
+    await store.rewriteBatches((batch) => ({
+      ...batch,
+      columns: { value: coerceColumnBatch(batch.columns.value!, { type: 'string' }) }
+    }));
+    expect((await store.materializeRows(rowIds)).map((row) => row.value)).toEqual(values);
+  });
 });
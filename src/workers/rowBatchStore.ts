@@ -1,6 +1,6 @@
 import { isDebugLoggingEnabled, logDebug } from '../utils/debugLog';
 import { materializeRowBatch, type MaterializedRow } from './utils/materializeRowBatch';
-import type { ColumnBatch, ColumnType, RowBatch } from './types';
+import type { ColumnBatch, ColumnType, RowBatch, StringColumnBatch } from './types';
 
 const BATCH_STORE_VERSION = 1;
 const MAX_IN_MEMORY_BATCHES = 4;
@@ -22,6 +22,9 @@ interface StoredColumnHeader {
   dataByteLength: number;
   offsetsByteLength?: number;
   nullMaskByteLength?: number;
+  /** Sizes of the kept source text of a typed column, written after its null mask. */
+  sourceTextOffsetsByteLength?: number;
+  sourceTextDataByteLength?: number;
 }
 
 interface StoredBatchHeader {
@@ -44,6 +47,41 @@ interface CachedBatch {
   batch: RowBatch;
 }
 
+const sourceTextHeader = (
+  column: Exclude<ColumnBatch, StringColumnBatch>
+): Pick<StoredColumnHeader, 'sourceTextOffsetsByteLength' | 'sourceTextDataByteLength'> =>
+  column.sourceText
+    ? {
+        sourceTextOffsetsByteLength: column.sourceText.offsets.byteLength,
+        sourceTextDataByteLength: column.sourceText.data.byteLength
+      }
+    : {};
+
+const sourceTextByteLength = (header: StoredColumnHeader): number =>
+  (header.sourceTextOffsetsByteLength ?? 0) + (header.sourceTextDataByteLength ?? 0);
+
+const readSourceText = (
+  buffer: ArrayBuffer,
+  offset: number,
+  header: StoredColumnHeader
+): StringColumnBatch | undefined => {
+  if (header.sourceTextOffsetsByteLength == null || header.sourceTextDataByteLength == null) {
+    return undefined;
+  }
+  const dataStart = offset + header.sourceTextOffsetsByteLength;
+  return {
+    type: 'string',
+    offsets: new Uint32Array(buffer.slice(offset, dataStart)),
+    data: buffer.slice(dataStart, dataStart + header.sourceTextDataByteLength)
+  };
+};
+
+/** A computed column added to every row as it is materialized. */
+export interface DerivedColumn {
+  name: string;
+  evaluate: (row: MaterializedRow) => unknown;
+}
+
 const supportsOpfs = (): boolean =>
   typeof navigator !== 'undefined' &&
   typeof navigator.storage !== 'undefined' &&
@@ -56,6 +94,7 @@ export class RowBatchStore {
   private cache: CachedBatch[] = [];
   private useMemoryFallback: boolean = false;
   private memoryStore: Map<number, RowBatch> = new Map();
+  private derivedColumns: DerivedColumn[] = [];
 
   private constructor(datasetKey: string) {
     this.datasetKey = datasetKey;
@@ -108,6 +147,26 @@ export class RowBatchStore {
     }
   }
 
+  /**
+   * Derived columns are evaluated in order on each materialization instead of
+   * being stored, so redefining them needs no rewrite of the batches.
+   */
+  setDerivedColumns(columns: DerivedColumn[]): void {
+    this.derivedColumns = columns;
+  }
+
+  private materialize(batch: RowBatch): MaterializedRow[] {
+    const rows = materializeRowBatch(batch).rows;
+    if (this.derivedColumns.length) {
+      for (const row of rows) {
+        for (const column of this.derivedColumns) {
+          row[column.name] = column.evaluate(row);
+        }
+      }
+    }
+    return rows;
+  }
+
   get batchCount(): number {
     return this.metas.length;
   }
@@ -143,6 +202,50 @@ export class RowBatchStore {
 
     const fileName = `batch-${String(batchIndex).padStart(6, '0')}.bin`;
     const fileHandle = await this.directoryHandle.getFileHandle(fileName, { create: true });
+    await this.writeBatchFile(fileHandle, batch, rowStart, rowCount);
+
+    this.metas.push({
+      index: batchIndex,
+      rowStart,
+      rowCount,
+      handle: fileHandle
+    });
+
+    this.cacheBatch({ index: batchIndex, batch });
+    if (isDebugLoggingEnabled()) {
+      logDebug('row-batch-store', 'Stored batch on disk', {
+        batchIndex,
+        rowStart,
+        rowCount,
+        cacheSize: this.cache.length
+      });
+    }
+  }
+
+  /**
+   * Replaces every stored batch with `transform(batch)`, in row order. Used to
+   * re-coerce columns in place; the row ids and counts must stay the same.
+   */
+  async rewriteBatches(transform: (batch: RowBatch) => RowBatch): Promise<void> {
+    for (const meta of this.metas) {
+      const batch = transform(await this.ensureBatch(meta.index));
+      if (meta.handle) {
+        await this.writeBatchFile(meta.handle, batch, meta.rowStart, meta.rowCount);
+      } else {
+        this.memoryStore.set(meta.index, batch);
+      }
+      if (this.cache.some((entry) => entry.index === meta.index)) {
+        this.cacheBatch({ index: meta.index, batch });
+      }
+    }
+  }
+
+  private async writeBatchFile(
+    fileHandle: FileSystemFileHandle,
+    batch: RowBatch,
+    rowStart: number,
+    rowCount: number
+  ): Promise<void> {
     const writable = await fileHandle.createWritable({ keepExistingData: false });
 
     const header: StoredBatchHeader = {
@@ -168,7 +271,8 @@ export class RowBatchStore {
               name,
               type: column.type,
               dataByteLength: numberColumn.data.byteLength,
-              nullMaskByteLength: numberColumn.nullMask?.byteLength
+              nullMaskByteLength: numberColumn.nullMask?.byteLength,
+              ...sourceTextHeader(numberColumn)
             };
           }
           case 'boolean': {
@@ -177,7 +281,8 @@ export class RowBatchStore {
               name,
               type: column.type,
               dataByteLength: booleanColumn.data.byteLength,
-              nullMaskByteLength: booleanColumn.nullMask?.byteLength
+              nullMaskByteLength: booleanColumn.nullMask?.byteLength,
+              ...sourceTextHeader(booleanColumn)
             };
           }
           case 'datetime': {
@@ -186,7 +291,8 @@ export class RowBatchStore {
               name,
               type: column.type,
               dataByteLength: datetimeColumn.data.byteLength,
-              nullMaskByteLength: datetimeColumn.nullMask?.byteLength
+              nullMaskByteLength: datetimeColumn.nullMask?.byteLength,
+              ...sourceTextHeader(datetimeColumn)
             };
           }
           default:
@@ -225,26 +331,15 @@ export class RowBatchStore {
       if ('nullMask' in column && column.nullMask) {
         await writable.write(toWritableData(column.nullMask) as FileSystemWriteChunkType);
       }
+
+      if (column.type !== 'string' && column.sourceText) {
+        const { offsets, data } = column.sourceText;
+        await writable.write(toWritableData(offsets) as FileSystemWriteChunkType);
+        await writable.write(toWritableData(data) as FileSystemWriteChunkType);
+      }
     }
 
     await writable.close();
-
-    this.metas.push({
-      index: batchIndex,
-      rowStart,
-      rowCount,
-      handle: fileHandle
-    });
-
-    this.cacheBatch({ index: batchIndex, batch });
-    if (isDebugLoggingEnabled()) {
-      logDebug('row-batch-store', 'Stored batch on disk', {
-        batchIndex,
-        rowStart,
-        rowCount,
-        cacheSize: this.cache.length
-      });
-    }
   }
 
   private cacheBatch(entry: CachedBatch): void {
@@ -309,10 +404,14 @@ export class RowBatchStore {
           offset += columnHeader.nullMaskByteLength ?? 0;
         }
 
+        const sourceText = readSourceText(buffer, offset, columnHeader);
+        offset += sourceTextByteLength(columnHeader);
+
         columns[columnHeader.name] = {
           type: 'number',
           data: new Float64Array(dataBuffer),
-          nullMask: nullMaskBuffer ? new Uint8Array(nullMaskBuffer) : undefined
+          nullMask: nullMaskBuffer ? new Uint8Array(nullMaskBuffer) : undefined,
+          ...(sourceText && { sourceText })
         };
       } else if (columnHeader.type === 'boolean') {
         const dataBuffer = buffer.slice(offset, offset + columnHeader.dataByteLength);
@@ -327,10 +426,14 @@ export class RowBatchStore {
           offset += columnHeader.nullMaskByteLength ?? 0;
         }
 
+        const sourceText = readSourceText(buffer, offset, columnHeader);
+        offset += sourceTextByteLength(columnHeader);
+
         columns[columnHeader.name] = {
           type: 'boolean',
           data: new Uint8Array(dataBuffer),
-          nullMask: nullMaskBuffer ? new Uint8Array(nullMaskBuffer) : undefined
+          nullMask: nullMaskBuffer ? new Uint8Array(nullMaskBuffer) : undefined,
+          ...(sourceText && { sourceText })
         };
       } else if (columnHeader.type === 'datetime') {
         const dataBuffer = buffer.slice(offset, offset + columnHeader.dataByteLength);
@@ -345,10 +448,14 @@ export class RowBatchStore {
           offset += columnHeader.nullMaskByteLength ?? 0;
         }
 
+        const sourceText = readSourceText(buffer, offset, columnHeader);
+        offset += sourceTextByteLength(columnHeader);
+
         columns[columnHeader.name] = {
           type: 'datetime',
           data: new Float64Array(dataBuffer),
-          nullMask: nullMaskBuffer ? new Uint8Array(nullMaskBuffer) : undefined
+          nullMask: nullMaskBuffer ? new Uint8Array(nullMaskBuffer) : undefined,
+          ...(sourceText && { sourceText })
         };
       }
     }
@@ -421,7 +528,7 @@ export class RowBatchStore {
 
     for (const [batchIndex, rowIdList] of batchesByIndex.entries()) {
       const batch = await this.ensureBatch(batchIndex);
-      const materialized = materializeRowBatch(batch).rows;
+      const materialized = this.materialize(batch);
 
       for (const rowId of rowIdList) {
         const idx = rowId - batch.rowIds[0]!;
@@ -451,7 +558,7 @@ export class RowBatchStore {
 
   async materializeBatch(index: number): Promise<MaterializedRow[]> {
     const batch = await this.ensureBatch(index);
-    return materializeRowBatch(batch).rows;
+    return this.materialize(batch);
   }
 
   async *iterateMaterializedBatches(): AsyncGenerator<{
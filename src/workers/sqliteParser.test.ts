@@ -0,0 +1,344 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+
+import {
+  listSqliteTables,
+  parseCreateTable,
+  parseSqliteDatabase,
+  type SqliteParserOptions
+} from './sqliteParser';
+import { buildSqliteFixture } from './test/sqliteFixture';
+import type { RowBatch } from './types';
+import { materializeRowBatch } from './utils/materializeRowBatch';
+
+const toBlob = (bytes: Uint8Array): Blob => new NodeBlob([bytes]) as unknown as Blob;
+
+const collect = async (file: Blob, options?: SqliteParserOptions) => {
+  const headers: string[][] = [];
+  const batches: RowBatch[] = [];
+  const checkpoints: Array<{ rowIndex: number; byteOffset: number }> = [];
+  let encoding = '';
+  await parseSqliteDatabase(
+    file,
+    {
+      onEncoding: (resolved) => {
+        encoding = resolved;
+      },
+      onHeader: (header) => {
+        headers.push(header);
+      },
+      onBatch: (batch) => {
+        batches.push(batch);
+      },
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(checkpoint);
+      }
+    },
+    options
+  );
+  return {
+    encoding,
+    headers,
+    batches,
+    checkpoints,
+    records: batches.flatMap((batch) => materializeRowBatch(batch).rows)
+  };
+};
+
+const URLS_SQL =
+  'CREATE TABLE urls(id INTEGER PRIMARY KEY AUTOINCREMENT, url LONGVARCHAR, ' +
+  'title LONGVARCHAR, visit_count INTEGER DEFAULT 0 NOT NULL, ' +
+  'last_visit_time INTEGER NOT NULL, hidden BOOLEAN DEFAULT FALSE NOT NULL)';
+// Windows Timeline keeps Unix seconds in DATETIME columns.
+const ACTIVITY_SQL =
+  'CREATE TABLE [Activity] ([Id] GUID NOT NULL, [AppId] TEXT, [StartTime] DATETIME, ' +
+  '[Payload] BLOB, CONSTRAINT [PK] PRIMARY KEY ([Id]))';
+const KV_SQL =
+  'CREATE TABLE meta(key LONGVARCHAR NOT NULL UNIQUE PRIMARY KEY, value) WITHOUT ROWID';
+
+const VISITED_AT = 13_353_000_000_000_000;
+const urlRows = Array.from({ length: 60 }, (_, index) => [
+  null,
+  `https://example.com/${index + 1}${index === 6 ? `?q=${'x'.repeat(3000)}` : ''}`,
+  `Page ${index + 1}`,
+  index % 7 === 3 ? -index * 100_000 : index,
+  VISITED_AT + index * 1_000_000,
+  index % 2
+]);
+
+const FIXTURE = buildSqliteFixture({
+  tables: [
+    { name: 'urls', sql: URLS_SQL, rows: urlRows },
+    {
+      name: 'Activity',
+      sql: ACTIVITY_SQL,
+      rows: [
+        [Uint8Array.of(0xde, 0xad, 0xbe, 0xef), 'Microsoft.Windows.Explorer', 1_709_280_930, null],
+        [Uint8Array.of(0x01), 'notepad.exe', '2024-03-01 08:16:00', Uint8Array.of(0x7b, 0x7d)],
+        // Written before a later ALTER TABLE ADD COLUMN: the record is short.
+        [Uint8Array.of(0x02), 'cmd.exe']
+      ]
+    },
+    { name: 'meta', sql: KV_SQL, rows: [] }
+  ],
+  views: [
+    {
+      name: 'recent',
+      sql: 'CREATE VIEW recent AS SELECT id, url, visit_count, hidden FROM urls WHERE id > 58'
+    }
+  ]
+});
+
+describe('parseCreateTable', () => {
+  it('reads quoted names, declared types and rowid aliases', () => {
+    expect(
+      parseCreateTable(
+        `CREATE TABLE "odd ""name""" (
+          -- the key, with a comma
+          "id" INTEGER PRIMARY KEY,
+          [first name] VARCHAR(40) DEFAULT 'NOT, NULL',
+          amount DECIMAL(10, 2),
+          doubled INTEGER GENERATED ALWAYS AS (amount * 2),
+          tripled INTEGER AS (amount * 3) STORED,
+          note
+        )`
+      )
+    ).toEqual({
+      columns: [
+        { name: 'id', declaredType: 'INTEGER', type: 'number', rowidAlias: true },
+        {
+          name: 'first name',
+          declaredType: 'VARCHAR(40)',
+          type: 'string',
+          rowidAlias: false,
+          defaultValue: 'NOT, NULL'
+        },
+        { name: 'amount', declaredType: 'DECIMAL(10, 2)', type: 'number', rowidAlias: false },
+        { name: 'tripled', declaredType: 'INTEGER', type: 'number', rowidAlias: false },
+        { name: 'note', declaredType: '', type: 'string', rowidAlias: false }
+      ],
+      withoutRowid: false
+    });
+
+    expect(
+      parseCreateTable('CREATE TABLE t(x INTEGER PRIMARY KEY DESC, y)').columns[0]!.rowidAlias
+    ).toBe(false);
+    expect(
+      parseCreateTable('CREATE TABLE t(x INTEGER, y, PRIMARY KEY(x DESC))').columns[0]!.rowidAlias
+    ).toBe(true);
+    expect(parseCreateTable(KV_SQL).withoutRowid).toBe(true);
+  });
+
+  it('reads literal defaults and leaves expressions out', () => {
+    const { columns } = parseCreateTable(
+      `CREATE TABLE t(a INTEGER DEFAULT -12, b REAL DEFAULT +1.5e2 NOT NULL, c DEFAULT 0x1F,
+        d TEXT DEFAULT 'it''s', e BLOB DEFAULT X'CAFE', f BOOLEAN DEFAULT TRUE,
+        g DEFAULT NULL, h DATETIME DEFAULT CURRENT_TIMESTAMP, i DEFAULT (1 + 1),
+        j TEXT CHECK (j <> 'DEFAULT 3'))`
+    );
+    expect(Object.fromEntries(columns.map(({ name, defaultValue }) => [name, defaultValue])))
+      .toEqual({
+        a: -12,
+        b: 150,
+        c: 31,
+        d: "it's",
+        e: Uint8Array.of(0xca, 0xfe),
+        f: 1,
+        g: null,
+        h: undefined,
+        i: undefined,
+        j: undefined
+      });
+  });
+});
+
+describe('sqliteParser', () => {
+  it('lists tables with their columns in schema order', async () => {
+    const tables = await listSqliteTables(toBlob(FIXTURE));
+    expect(tables.map(({ name, kind, withoutRowid }) => ({ name, kind, withoutRowid }))).toEqual([
+      { name: 'urls', kind: 'table', withoutRowid: false },
+      { name: 'Activity', kind: 'table', withoutRowid: false },
+      { name: 'meta', kind: 'table', withoutRowid: true },
+      { name: 'recent', kind: 'view', withoutRowid: false }
+    ]);
+    expect(tables[1]!.columns.map(({ name, type }) => [name, type])).toEqual([
+      ['Id', 'string'],
+      ['AppId', 'string'],
+      ['StartTime', 'datetime'],
+      ['Payload', 'string']
+    ]);
+    // View columns keep the declared types of the table columns they select.
+    expect(tables[3]!.columns.map(({ name, type }) => [name, type])).toEqual([
+      ['id', 'number'],
+      ['url', 'string'],
+      ['visit_count', 'number'],
+      ['hidden', 'boolean']
+    ]);
+  });
+
+  it('walks every leaf and overflow page with declared column types', async () => {
+    const { encoding, headers, batches, records } = await collect(toBlob(FIXTURE));
+
+    expect(encoding).toBe('utf-8');
+    expect(headers).toEqual([
+      ['id', 'url', 'title', 'visit_count', 'last_visit_time', 'hidden']
+    ]);
+    expect(records).toHaveLength(60);
+    expect(records.map((record) => record.id)).toEqual(urlRows.map((_, index) => index + 1));
+    expect(records[3]).toMatchObject({
+      title: 'Page 4',
+      visit_count: -300_000,
+      last_visit_time: VISITED_AT + 3_000_000,
+      hidden: true
+    });
+    expect(records[6]!.url).toBe(urlRows[6]![1]);
+    expect(batches.at(-1)!.columnTypes).toEqual({
+      id: 'number',
+      url: 'string',
+      title: 'string',
+      visit_count: 'number',
+      last_visit_time: 'number',
+      hidden: 'boolean'
+    });
+    expect(batches.at(-1)!.stats).toMatchObject({ rowsParsed: 60, eof: true });
+  });
+
+  it('reads blobs as hex and DATETIME numbers as Unix seconds', async () => {
+    const { records } = await collect(toBlob(FIXTURE), { table: 'Activity' });
+    expect(records).toEqual([
+      {
+        __rowId: 0,
+        Id: 'DEADBEEF',
+        AppId: 'Microsoft.Windows.Explorer',
+        StartTime: '2024-03-01T08:15:30Z',
+        Payload: ''
+      },
+      {
+        __rowId: 1,
+        Id: '01',
+        AppId: 'notepad.exe',
+        StartTime: '2024-03-01T08:16:00Z',
+        Payload: '7B7D'
+      },
+      { __rowId: 2, Id: '02', AppId: 'cmd.exe', StartTime: null, Payload: '' }
+    ]);
+  });
+
+  it('fills columns added by ALTER TABLE with their default in older records', async () => {
+    const database = buildSqliteFixture({
+      tables: [
+        {
+          name: 'visits',
+          // As SQLite rewrites the schema after `ALTER TABLE visits ADD COLUMN …`.
+          sql:
+            'CREATE TABLE visits(id INTEGER PRIMARY KEY, url TEXT, transition INTEGER ' +
+            "DEFAULT 805306368 NOT NULL, source TEXT DEFAULT 'synced', note TEXT)",
+          rows: [
+            [null, 'https://example.com/a'],
+            [null, 'https://example.com/b', 1, null],
+            [null, 'https://example.com/c', 7, 'local', 'kept']
+          ]
+        }
+      ]
+    });
+
+    const { records } = await collect(toBlob(database));
+    expect(records).toEqual([
+      {
+        __rowId: 0,
+        id: 1,
+        url: 'https://example.com/a',
+        transition: 805_306_368,
+        source: 'synced',
+        note: ''
+      },
+      { __rowId: 1, id: 2, url: 'https://example.com/b', transition: 1, source: '', note: '' },
+      {
+        __rowId: 2,
+        id: 3,
+        url: 'https://example.com/c',
+        transition: 7,
+        source: 'local',
+        note: 'kept'
+      }
+    ]);
+  });
+
+  it('reads views and SELECT queries through the SQL engine', async () => {
+    const view = await collect(toBlob(FIXTURE), { table: 'recent' });
+    expect(view.records).toEqual([
+      { __rowId: 0, id: 59, url: 'https://example.com/59', visit_count: 58, hidden: false },
+      { __rowId: 1, id: 60, url: 'https://example.com/60', visit_count: -5_900_000, hidden: true }
+    ]);
+    expect(view.batches.at(-1)!.stats).toMatchObject({ rowsParsed: 2, eof: true });
+
+    const query = await collect(toBlob(FIXTURE), {
+      query:
+        'SELECT AppId, StartTime, length(Payload) AS size FROM Activity ' +
+        'WHERE Payload IS NOT NULL ORDER BY AppId;',
+      rowLimit: 5
+    });
+    expect(query.headers).toEqual([['AppId', 'StartTime', 'size']]);
+    expect(query.batches[0]!.columnTypes).toEqual({
+      AppId: 'string',
+      StartTime: 'datetime',
+      size: 'string'
+    });
+    expect(query.records).toEqual([
+      { __rowId: 0, AppId: 'notepad.exe', StartTime: '2024-03-01T08:16:00Z', size: '2' }
+    ]);
+  });
+
+  it('rejects queries that are not a single SELECT', async () => {
+    await expect(collect(toBlob(FIXTURE), { query: 'DELETE FROM urls' })).rejects.toThrow(
+      'The query could not be run: near "DELETE": syntax error.'
+    );
+    await expect(
+      collect(toBlob(FIXTURE), { query: 'SELECT 1; SELECT 2' })
+    ).rejects.toThrow('The query could not be run: enter a single SELECT statement.');
+    await expect(collect(toBlob(FIXTURE), { query: 'SELECT * FROM visits' })).rejects.toThrow(
+      'The query could not be run: no such table: visits.'
+    );
+  });
+
+  it('decodes UTF-16 text and stops at the row limit', async () => {
+    const database = buildSqliteFixture({
+      encoding: 'utf-16be',
+      tables: [
+        {
+          name: 'messages',
+          sql: 'CREATE TABLE messages(sender TEXT, body TEXT)',
+          rows: [
+            ['Zoë', 'Grüße'],
+            ['Łukasz', 'cześć'],
+            ['Ana', 'olá']
+          ]
+        }
+      ]
+    });
+
+    const { encoding, records, checkpoints } = await collect(toBlob(database), { rowLimit: 2 });
+    expect(encoding).toBe('utf-16be');
+    expect(records).toEqual([
+      { __rowId: 0, sender: 'Zoë', body: 'Grüße' },
+      { __rowId: 1, sender: 'Łukasz', body: 'cześć' }
+    ]);
+    expect(checkpoints).toEqual([{ rowIndex: 0, byteOffset: 1024 }]);
+  });
+
+  it('rejects other files, unknown tables and WITHOUT ROWID tables', async () => {
+    await expect(collect(toBlob(new TextEncoder().encode('id,url\n')))).rejects.toThrow(
+      'Not a SQLite database: the "SQLite format 3" header is missing.'
+    );
+    await expect(collect(toBlob(FIXTURE), { table: 'visits' })).rejects.toThrow(
+      'Table "visits" was not found in the database.'
+    );
+    await expect(collect(toBlob(FIXTURE), { table: 'meta' })).rejects.toThrow(
+      'Table "meta" is declared WITHOUT ROWID, which is not supported.'
+    );
+
+    const damaged = FIXTURE.slice();
+    damaged[1024] = 0x02;
+    await expect(collect(toBlob(damaged))).rejects.toThrow('Corrupt SQLite database:');
+  });
+});
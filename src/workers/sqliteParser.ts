@@ -0,0 +1,820 @@
+import type { Database as SqlDatabase, SqlJsStatic, SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+
+import type { ParserCallbacks } from './csvParser';
+import {
+  emitColumnarChunks,
+  type ColumnarChunk,
+  type ColumnarField,
+  type ColumnarParserOptions
+} from './columnarSource';
+import type { ColumnBatch, ColumnType } from './types';
+import { analyzeValue } from './typeInference';
+import { createStringColumnBatch } from './utils/columnBatchBuilders';
+import type { SourceEncoding } from './utils/detectEncoding';
+
+/**
+ * Reader for SQLite database files (browser history, Windows Timeline, mobile
+ * app stores). Pages are read from the file on demand: the schema table on
+ * page 1 lists the tables, and a table's b-tree is walked in rowid order.
+ * Views and SQL queries need a query engine, so they run on the bundled
+ * SQLite WASM build over a copy of the file held in memory.
+ * Columns take their type from the declared column type instead of being
+ * inferred. Tables declared WITHOUT ROWID are not supported, and changes still
+ * held in a `-wal` file next to the database are not seen.
+ */
+
+export type SqliteParserOptions = ColumnarParserOptions & {
+  /** Table or view to read; the first readable one when omitted. */
+  table?: string;
+  /** SELECT statement to run instead of reading `table`. */
+  query?: string;
+};
+
+/** A stored value: NULL, INTEGER or REAL, TEXT, or BLOB. */
+export type SqliteValue = null | number | string | Uint8Array;
+
+export interface SqliteColumn {
+  name: string;
+  /** Type as written in `CREATE TABLE`, e.g. `VARCHAR(20)`; empty when none was given. */
+  declaredType: string;
+  type: ColumnType;
+  /** An `INTEGER PRIMARY KEY` column, stored as the rowid rather than in the record. */
+  rowidAlias: boolean;
+  /**
+   * Literal `DEFAULT` value, read for records written before the column was
+   * added by `ALTER TABLE … ADD COLUMN`; absent when there is none or it is an expression.
+   */
+  defaultValue?: SqliteValue;
+}
+
+export interface SqliteTable {
+  name: string;
+  kind: 'table' | 'view';
+  columns: SqliteColumn[];
+  /** First page of a table's b-tree; 0 for views. */
+  rootPage: number;
+  /** WITHOUT ROWID tables are stored as index b-trees, which are not read. */
+  withoutRowid: boolean;
+}
+
+interface Database {
+  file: Blob;
+  pageSize: number;
+  /** Page size less the bytes reserved at the end of each page. */
+  usableSize: number;
+  pageCount: number;
+  encoding: SourceEncoding;
+  decoder: TextDecoder;
+}
+
+/** A row to load, with the position of the page it was read from. */
+interface SqliteRow {
+  values: SqliteValue[];
+  /** Offset of the leaf page holding the row; 0 for query results. */
+  byteOffset: number;
+  /** Source bytes read once the row is. */
+  bytesParsed: number;
+}
+
+interface TableCell {
+  rowid: number;
+  payload: Uint8Array;
+  /** Offset of the leaf page holding the cell. */
+  byteOffset: number;
+}
+
+const MAGIC = 'SQLite format 3\0';
+const FILE_HEADER_SIZE = 100;
+const SCHEMA_ROOT_PAGE = 1;
+const PAGE_INTERIOR_TABLE = 0x05;
+const PAGE_LEAF_TABLE = 0x0d;
+const DEFAULT_CHUNK_ROWS = 10_000;
+/** Text encodings by the number stored at offset 56 of the file header. */
+const TEXT_ENCODINGS: Record<number, SourceEncoding> = {
+  1: 'utf-8',
+  2: 'utf-16le',
+  3: 'utf-16be'
+};
+const TABLE_CONSTRAINT = /^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN)\b/i;
+const COLUMN_CONSTRAINT =
+  /\b(CONSTRAINT|PRIMARY|NOT|NULL|UNIQUE|CHECK|DEFAULT|COLLATE|REFERENCES|GENERATED|AS)\b/i;
+const STRING_LITERAL = /'(?:[^']|'')*'/g;
+
+const corrupt = (detail: string): Error => new Error(`Corrupt SQLite database: ${detail}.`);
+
+const readVarint = (bytes: Uint8Array, offset: number): [value: number, length: number] => {
+  let value = 0;
+  for (let index = 0; index < 8; index += 1) {
+    const byte = bytes[offset + index];
+    if (byte === undefined) {
+      throw corrupt(`a varint runs past the end of its cell at byte ${offset}`);
+    }
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) {
+      return [value, index + 1];
+    }
+  }
+  value = value * 256 + (bytes[offset + 8] ?? 0);
+  // Nine-byte varints are 64-bit two's complement; negative rowids wrap.
+  return [value >= 2 ** 63 ? value - 2 ** 64 : value, 9];
+};
+
+const readUint16 = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset]! << 8) | bytes[offset + 1]!;
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  readUint16(bytes, offset) * 0x10000 + readUint16(bytes, offset + 2);
+
+const openDatabase = async (file: Blob): Promise<Database> => {
+  const header = new Uint8Array(await file.slice(0, FILE_HEADER_SIZE).arrayBuffer());
+  const magic = String.fromCharCode(...header.subarray(0, MAGIC.length));
+  if (header.byteLength < FILE_HEADER_SIZE || magic !== MAGIC) {
+    throw new Error('Not a SQLite database: the "SQLite format 3" header is missing.');
+  }
+
+  const storedPageSize = readUint16(header, 16);
+  const pageSize = storedPageSize === 1 ? 65_536 : storedPageSize;
+  if (pageSize < 512 || (pageSize & (pageSize - 1)) !== 0) {
+    throw corrupt(`invalid page size ${storedPageSize}`);
+  }
+  const encoding = TEXT_ENCODINGS[readUint32(header, 56)] ?? 'utf-8';
+  return {
+    file,
+    pageSize,
+    usableSize: pageSize - header[20]!,
+    pageCount: Math.floor(file.size / pageSize),
+    encoding,
+    decoder: new TextDecoder(encoding)
+  };
+};
+
+const readPage = async (db: Database, pageNumber: number): Promise<Uint8Array> => {
+  if (pageNumber < 1 || pageNumber > db.pageCount) {
+    throw corrupt(`page ${pageNumber} is outside the file`);
+  }
+  const offset = (pageNumber - 1) * db.pageSize;
+  return new Uint8Array(await db.file.slice(offset, offset + db.pageSize).arrayBuffer());
+};
+
+/** Bytes of a table leaf cell's payload stored on the page; the rest overflows. */
+const localPayloadSize = ({ usableSize }: Database, payloadSize: number): number => {
+  const maxLocal = usableSize - 35;
+  if (payloadSize <= maxLocal) {
+    return payloadSize;
+  }
+  const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+  const local = minLocal + ((payloadSize - minLocal) % (usableSize - 4));
+  return local <= maxLocal ? local : minLocal;
+};
+
+const readPayload = async (
+  db: Database,
+  page: Uint8Array,
+  offset: number,
+  payloadSize: number
+): Promise<Uint8Array> => {
+  const local = localPayloadSize(db, payloadSize);
+  if (offset + local > db.usableSize) {
+    throw corrupt(`a cell at byte ${offset} runs past the end of its page`);
+  }
+  if (local === payloadSize) {
+    return page.subarray(offset, offset + local);
+  }
+
+  const payload = new Uint8Array(payloadSize);
+  payload.set(page.subarray(offset, offset + local));
+  let written = local;
+  let next = readUint32(page, offset + local);
+  while (written < payloadSize) {
+    if (next === 0) {
+      throw corrupt('an overflow chain ends early');
+    }
+    const overflow = await readPage(db, next);
+    const size = Math.min(payloadSize - written, db.usableSize - 4);
+    payload.set(overflow.subarray(4, 4 + size), written);
+    written += size;
+    next = readUint32(overflow, 0);
+  }
+  return payload;
+};
+
+/** Yields a table b-tree's cells in rowid order. */
+async function* walkTable(
+  db: Database,
+  pageNumber: number,
+  visited = new Set<number>()
+): AsyncGenerator<TableCell> {
+  if (visited.has(pageNumber)) {
+    throw corrupt(`page ${pageNumber} is linked from two places`);
+  }
+  visited.add(pageNumber);
+
+  const page = await readPage(db, pageNumber);
+  const start = pageNumber === 1 ? FILE_HEADER_SIZE : 0;
+  const pageType = page[start];
+  const cellCount = readUint16(page, start + 3);
+
+  if (pageType === PAGE_INTERIOR_TABLE) {
+    for (let index = 0; index < cellCount; index += 1) {
+      const pointer = readUint16(page, start + 12 + index * 2);
+      yield* walkTable(db, readUint32(page, pointer), visited);
+    }
+    yield* walkTable(db, readUint32(page, start + 8), visited);
+    return;
+  }
+  if (pageType !== PAGE_LEAF_TABLE) {
+    throw corrupt(`page ${pageNumber} is not part of a table b-tree`);
+  }
+
+  const byteOffset = (pageNumber - 1) * db.pageSize;
+  for (let index = 0; index < cellCount; index += 1) {
+    let offset = readUint16(page, start + 8 + index * 2);
+    const [payloadSize, sizeLength] = readVarint(page, offset);
+    offset += sizeLength;
+    const [rowid, rowidLength] = readVarint(page, offset);
+    offset += rowidLength;
+    yield { rowid, payload: await readPayload(db, page, offset, payloadSize), byteOffset };
+  }
+}
+
+const readInteger = (bytes: Uint8Array, offset: number, size: number): number => {
+  // The first byte carries the sign; the rest are added as unsigned digits.
+  let value = (bytes[offset]! << 24) >> 24;
+  for (let index = 1; index < size; index += 1) {
+    value = value * 256 + bytes[offset + index]!;
+  }
+  return value;
+};
+
+const SERIAL_SIZES = [0, 1, 2, 3, 4, 6, 8, 8, 0, 0];
+
+const decodeRecord = (db: Database, payload: Uint8Array): SqliteValue[] => {
+  const [headerSize, headerSizeLength] = readVarint(payload, 0);
+  const values: SqliteValue[] = [];
+  let headerOffset = headerSizeLength;
+  let bodyOffset = headerSize;
+
+  while (headerOffset < headerSize) {
+    const [serialType, length] = readVarint(payload, headerOffset);
+    headerOffset += length;
+    if (serialType === 10 || serialType === 11) {
+      throw corrupt(`reserved serial type ${serialType} in a record`);
+    }
+    const size =
+      serialType < SERIAL_SIZES.length
+        ? SERIAL_SIZES[serialType]!
+        : Math.floor((serialType - 12) / 2);
+    if (bodyOffset + size > payload.byteLength) {
+      throw corrupt('a record is shorter than its header describes');
+    }
+
+    if (serialType === 0) {
+      values.push(null);
+    } else if (serialType <= 6) {
+      values.push(readInteger(payload, bodyOffset, size));
+    } else if (serialType === 7) {
+      values.push(new DataView(payload.buffer, payload.byteOffset + bodyOffset, 8).getFloat64(0));
+    } else if (serialType <= 9) {
+      values.push(serialType - 8);
+    } else if (serialType % 2 === 0) {
+      values.push(payload.slice(bodyOffset, bodyOffset + size));
+    } else {
+      values.push(db.decoder.decode(payload.subarray(bodyOffset, bodyOffset + size)));
+    }
+    bodyOffset += size;
+  }
+  return values;
+};
+
+/** Replaces SQL comments with spaces, leaving quoted text alone. */
+const stripComments = (sql: string): string => {
+  let result = '';
+  let index = 0;
+  while (index < sql.length) {
+    const char = sql[index]!;
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      let end = sql.indexOf(close, index + 1);
+      end = end < 0 ? sql.length : end + 1;
+      result += sql.slice(index, end);
+      index = end;
+    } else if (sql.startsWith('--', index)) {
+      const end = sql.indexOf('\n', index);
+      result += ' ';
+      index = end < 0 ? sql.length : end;
+    } else if (sql.startsWith('/*', index)) {
+      const end = sql.indexOf('*/', index + 2);
+      result += ' ';
+      index = end < 0 ? sql.length : end + 2;
+    } else {
+      result += char;
+      index += 1;
+    }
+  }
+  return result;
+};
+
+/** Splits the parenthesised body of a CREATE TABLE statement at its top-level commas. */
+const splitDefinitions = (sql: string): { definitions: string[]; tail: string } => {
+  const definitions: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = -1;
+
+  for (let index = 0; index < sql.length; index += 1) {
+    const char = sql[index]!;
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '[') {
+      quote = ']';
+    } else if (char === '(') {
+      depth += 1;
+      if (depth === 1) {
+        start = index + 1;
+      }
+    } else if (char === ')' || (char === ',' && depth === 1)) {
+      if (depth === 1) {
+        definitions.push(sql.slice(start, index).trim());
+        start = index + 1;
+      }
+      if (char === ')') {
+        depth -= 1;
+        if (depth === 0) {
+          return { definitions, tail: sql.slice(index + 1) };
+        }
+      }
+    }
+  }
+  throw new Error(`Unsupported table definition: ${sql}`);
+};
+
+/** Reads a leading identifier, unquoting `"x"`, `` `x` ``, `[x]` and `'x'` forms. */
+const readIdentifier = (text: string): [name: string, rest: string] => {
+  const open = text[0];
+  const close = open === '[' ? ']' : open;
+  if (open === '"' || open === '`' || open === "'" || open === '[') {
+    let name = '';
+    let index = 1;
+    while (index < text.length) {
+      if (text[index] === close) {
+        if (close !== ']' && text[index + 1] === close) {
+          name += close;
+          index += 2;
+          continue;
+        }
+        break;
+      }
+      name += text[index];
+      index += 1;
+    }
+    return [name, text.slice(index + 1).trim()];
+  }
+  const match = /^[^\s(,]+/.exec(text);
+  const name = match?.[0] ?? '';
+  return [name, text.slice(name.length).trim()];
+};
+
+/**
+ * Maps a declared type to a column type. Unlike SQLite's affinity rules,
+ * unfamiliar names such as `GUID` or `JSON` stay text, since applications
+ * often store blobs or strings under them.
+ */
+const columnTypeFor = (declaredType: string): ColumnType => {
+  const upper = declaredType.toUpperCase();
+  if (upper.includes('BOOL')) {
+    return 'boolean';
+  }
+  if (upper.includes('DATE') || upper.includes('TIME')) {
+    return 'datetime';
+  }
+  if (/INT|REAL|FLOA|DOUB|NUM|DEC/.test(upper)) {
+    return 'number';
+  }
+  return 'string';
+};
+
+const DEFAULT_CLAUSE = /\bDEFAULT\s*/i;
+const NUMERIC_LITERAL = /^([+-]?)\s*(0x[0-9a-f]+|(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?)(?!\w)/i;
+
+/**
+ * Reads the literal after `DEFAULT` in a column's constraints. Expressions in
+ * parentheses and `CURRENT_TIMESTAMP` and its kin are left out: `ALTER TABLE`
+ * cannot add a column with such a default, so every record stores its value.
+ */
+const parseDefaultValue = (constraints: string): SqliteValue | undefined => {
+  // Blank out string literals so a quoted "DEFAULT" is not taken for the keyword.
+  const masked = constraints.replace(STRING_LITERAL, (literal) =>
+    `'${' '.repeat(literal.length - 2)}'`
+  );
+  const clause = DEFAULT_CLAUSE.exec(masked);
+  if (!clause) {
+    return undefined;
+  }
+  const text = constraints.slice(clause.index + clause[0].length);
+
+  const string = /^'((?:[^']|'')*)'/.exec(text);
+  if (string) {
+    return string[1]!.replace(/''/g, "'");
+  }
+  const blob = /^x'([0-9a-f]*)'/i.exec(text);
+  if (blob) {
+    return Uint8Array.from(blob[1]!.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+  }
+  const numeric = NUMERIC_LITERAL.exec(text);
+  if (numeric) {
+    const magnitude = /^0x/i.test(numeric[2]!) ? parseInt(numeric[2]!, 16) : Number(numeric[2]);
+    return numeric[1] === '-' ? -magnitude : magnitude;
+  }
+  const keyword = /^(NULL|TRUE|FALSE)\b/i.exec(text)?.[1]?.toUpperCase();
+  if (keyword) {
+    return keyword === 'NULL' ? null : keyword === 'TRUE' ? 1 : 0;
+  }
+  return undefined;
+};
+
+/** Reads the stored columns of a CREATE TABLE statement. */
+export const parseCreateTable = (
+  sql: string
+): { columns: SqliteColumn[]; withoutRowid: boolean } => {
+  const { definitions, tail } = splitDefinitions(stripComments(sql));
+  const columns: SqliteColumn[] = [];
+  let primaryKey: string[] = [];
+
+  for (const definition of definitions) {
+    if (TABLE_CONSTRAINT.test(definition)) {
+      const key = /PRIMARY\s+KEY\s*\(([^)]*)\)/i.exec(definition);
+      if (key) {
+        primaryKey = key[1]!.split(',').map((part) => readIdentifier(part.trim())[0]);
+      }
+      continue;
+    }
+
+    const [name, rest] = readIdentifier(definition);
+    const constraintStart = rest.search(COLUMN_CONSTRAINT);
+    const declaredType = (constraintStart < 0 ? rest : rest.slice(0, constraintStart))
+      .trim()
+      .replace(/\s+/g, ' ');
+    const constraints = constraintStart < 0 ? '' : rest.slice(constraintStart);
+    const unquoted = constraints.replace(STRING_LITERAL, "''");
+    // Virtual generated columns are computed on read and have no stored value.
+    if (/\bAS\s*\(/i.test(unquoted) && !/\bSTORED\b/i.test(unquoted)) {
+      continue;
+    }
+    const defaultValue = parseDefaultValue(constraints);
+    columns.push({
+      name,
+      declaredType,
+      type: columnTypeFor(declaredType),
+      // `INTEGER PRIMARY KEY DESC` is the documented exception to the alias rule.
+      rowidAlias:
+        declaredType.toUpperCase() === 'INTEGER' &&
+        /\bPRIMARY\s+KEY\b(?!\s+DESC\b)/i.test(unquoted),
+      ...(defaultValue !== undefined && { defaultValue })
+    });
+  }
+
+  if (primaryKey.length === 1) {
+    const keyColumn = columns.find(
+      (column) => column.name.toLowerCase() === primaryKey[0]!.toLowerCase()
+    );
+    if (keyColumn && keyColumn.declaredType.toUpperCase() === 'INTEGER') {
+      keyColumn.rowidAlias = true;
+    }
+  }
+
+  return { columns, withoutRowid: /\bWITHOUT\s+ROWID\b/i.test(tail) };
+};
+
+const readTables = async (db: Database): Promise<SqliteTable[]> => {
+  const tables: SqliteTable[] = [];
+  for await (const { payload } of walkTable(db, SCHEMA_ROOT_PAGE)) {
+    const [type, name, , rootPage, sql] = decodeRecord(db, payload);
+    if (typeof name !== 'string' || name.startsWith('sqlite_') || typeof sql !== 'string') {
+      continue;
+    }
+    if (type === 'view') {
+      // A view's columns are only known once the engine compiles its SELECT.
+      tables.push({ name, kind: 'view', columns: [], rootPage: 0, withoutRowid: false });
+      continue;
+    }
+    // Virtual tables (root page 0) hold no analyst data.
+    if (type !== 'table' || typeof rootPage !== 'number' || rootPage <= 0) {
+      continue;
+    }
+    tables.push({ name, kind: 'table', rootPage, ...parseCreateTable(sql) });
+  }
+  return tables;
+};
+
+let sqlEngine: Promise<SqlJsStatic> | null = null;
+
+/** Loads the SQLite WASM build on first use; tables are read without it. */
+const loadSqlEngine = (): Promise<SqlJsStatic> => {
+  sqlEngine ??= import('sql.js')
+    .then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => sqlWasmUrl }))
+    .catch((error: unknown) => {
+      sqlEngine = null;
+      throw error;
+    });
+  return sqlEngine;
+};
+
+const openSqlDatabase = async (file: Blob): Promise<SqlDatabase> => {
+  const engine = await loadSqlEngine();
+  return new engine.Database(new Uint8Array(await file.arrayBuffer()));
+};
+
+const QUERY_VIEW = 'workbench_query';
+
+const selectAll = (name: string): string => `SELECT * FROM "${name.replace(/"/g, '""')}"`;
+
+/**
+ * Compiles `sql` as a temporary view, which only accepts a SELECT and gives
+ * each result column the declared type of the table column it comes from.
+ */
+const describeQuery = (database: SqlDatabase, sql: string): SqliteColumn[] => {
+  let info: SqlValue[][];
+  try {
+    database.run(`DROP VIEW IF EXISTS temp.${QUERY_VIEW}`);
+    const statements = database.iterateStatements(`CREATE TEMP VIEW ${QUERY_VIEW} AS ${sql}`);
+    // The iterator frees each statement when it moves to the next one.
+    statements.next().value.run();
+    const extra = statements.next();
+    if (!extra.done) {
+      extra.value.free();
+      throw new Error('enter a single SELECT statement');
+    }
+    // Resolving the columns binds the view's tables, so a missing one fails here.
+    info = database.exec(`PRAGMA temp.table_info(${QUERY_VIEW})`)[0]?.values ?? [];
+  } catch (error) {
+    throw new Error(
+      `The query could not be run: ${error instanceof Error ? error.message : String(error)}.`
+    );
+  }
+
+  return info.map(([, name, declared]) => {
+    const declaredType = typeof declared === 'string' ? declared : '';
+    return {
+      name: String(name),
+      declaredType,
+      type: columnTypeFor(declaredType),
+      rowidAlias: false
+    };
+  });
+};
+
+/** Tables and views of a database in schema order, internal `sqlite_` tables excluded. */
+export const listSqliteTables = async (file: Blob): Promise<SqliteTable[]> => {
+  const tables = await readTables(await openDatabase(file));
+  if (!tables.some((table) => table.kind === 'view')) {
+    return tables;
+  }
+
+  const database = await openSqlDatabase(file);
+  try {
+    return tables.map((table) => {
+      if (table.kind !== 'view') {
+        return table;
+      }
+      try {
+        return { ...table, columns: describeQuery(database, selectAll(table.name)) };
+      } catch {
+        // A view over a missing table still lists; loading it reports why it fails.
+        return table;
+      }
+    });
+  } finally {
+    database.close();
+  }
+};
+
+const HEX_DIGITS = '0123456789ABCDEF';
+
+const formatBlob = (bytes: Uint8Array): string => {
+  let hex = '';
+  for (const byte of bytes) {
+    hex += HEX_DIGITS[byte >> 4]! + HEX_DIGITS[byte & 0x0f]!;
+  }
+  return hex;
+};
+
+const formatValue = (value: SqliteValue): string => {
+  if (value == null) {
+    return '';
+  }
+  return value instanceof Uint8Array ? formatBlob(value) : String(value);
+};
+
+/**
+ * Converts one stored value to the column's type, or null when it does not
+ * fit. Numbers in date and time columns are read as Unix seconds.
+ */
+const convertValue = (value: SqliteValue, type: ColumnType, timeZone?: string): number | null => {
+  if (value == null || value instanceof Uint8Array) {
+    return null;
+  }
+  if (typeof value === 'number') {
+    if (type === 'boolean') {
+      return value === 0 ? 0 : 1;
+    }
+    return type === 'datetime' ? value * 1_000 : value;
+  }
+
+  const analysis = analyzeValue(value, { timeZone });
+  if (type === 'number' && analysis.kind === 'number') {
+    return analysis.numberValue ?? null;
+  }
+  if (type === 'boolean' && analysis.kind === 'boolean') {
+    return analysis.booleanValue ? 1 : 0;
+  }
+  if (type === 'datetime' && analysis.kind === 'datetime') {
+    return analysis.datetimeValue ?? null;
+  }
+  return null;
+};
+
+const buildColumn = (values: SqliteValue[], type: ColumnType, timeZone?: string): ColumnBatch => {
+  if (type === 'string') {
+    return createStringColumnBatch(values.map(formatValue));
+  }
+
+  const data =
+    type === 'boolean' ? new Uint8Array(values.length) : new Float64Array(values.length);
+  const nullMask = new Uint8Array(values.length);
+  let hasNull = false;
+  values.forEach((value, index) => {
+    const converted = convertValue(value, type, timeZone);
+    if (converted == null || Number.isNaN(converted)) {
+      nullMask[index] = 1;
+      hasNull = true;
+    } else {
+      data[index] = converted;
+    }
+  });
+
+  return type === 'boolean'
+    ? { type, data: data as Uint8Array, nullMask: hasNull ? nullMask : undefined }
+    : { type, data: data as Float64Array, nullMask: hasNull ? nullMask : undefined };
+};
+
+/** Columns and rows to load, read from a table's pages or produced by the SQL engine. */
+interface SqliteRowSource {
+  columns: SqliteColumn[];
+  rows: AsyncIterable<SqliteRow>;
+  close: () => void;
+}
+
+/** Yields a table's rows in rowid order. */
+async function* readTableRows(
+  db: Database,
+  { columns, rootPage }: SqliteTable
+): AsyncGenerator<SqliteRow> {
+  for await (const cell of walkTable(db, rootPage)) {
+    const record = decodeRecord(db, cell.payload);
+    yield {
+      // Columns added by ALTER TABLE are missing from older records and read as their default.
+      values: columns.map((column, index) =>
+        column.rowidAlias
+          ? cell.rowid
+          : index < record.length
+            ? record[index]!
+            : (column.defaultValue ?? null)
+      ),
+      byteOffset: cell.byteOffset,
+      bytesParsed: cell.byteOffset + db.pageSize
+    };
+  }
+}
+
+/** Yields the rows of the query compiled by {@link describeQuery}. */
+async function* readQueryRows(database: SqlDatabase, fileSize: number): AsyncGenerator<SqliteRow> {
+  const statement = database.prepare(`SELECT * FROM temp.${QUERY_VIEW}`);
+  try {
+    while (statement.step()) {
+      // The engine holds the whole file, so every row counts it as read.
+      yield { values: statement.get(), byteOffset: 0, bytesParsed: fileSize };
+    }
+  } finally {
+    statement.free();
+  }
+}
+
+/** Runs `sql` over an in-memory copy of the database. */
+const openQueryRows = async (file: Blob, sql: string): Promise<SqliteRowSource> => {
+  const database = await openSqlDatabase(file);
+  try {
+    const columns = describeQuery(database, sql);
+    return {
+      columns,
+      rows: readQueryRows(database, file.size),
+      close: () => database.close()
+    };
+  } catch (error) {
+    database.close();
+    throw error;
+  }
+};
+
+const openRowSource = async (
+  db: Database,
+  file: Blob,
+  options: SqliteParserOptions
+): Promise<SqliteRowSource> => {
+  if (options.query != null) {
+    return openQueryRows(file, options.query);
+  }
+
+  const tables = await readTables(db);
+  const table =
+    options.table != null
+      ? tables.find((candidate) => candidate.name === options.table)
+      : tables.find((candidate) => !candidate.withoutRowid);
+  if (!table) {
+    throw new Error(
+      options.table != null
+        ? `Table "${options.table}" was not found in the database.`
+        : 'The database has no tables to load.'
+    );
+  }
+  if (table.withoutRowid) {
+    throw new Error(`Table "${table.name}" is declared WITHOUT ROWID, which is not supported.`);
+  }
+  if (table.kind === 'view') {
+    return openQueryRows(file, selectAll(table.name));
+  }
+  return { columns: table.columns, rows: readTableRows(db, table), close: () => undefined };
+};
+
+export const parseSqliteDatabase = async (
+  file: Blob,
+  callbacks: ParserCallbacks,
+  options: SqliteParserOptions = {}
+): Promise<void> => {
+  const db = await openDatabase(file);
+  const { columns, rows, close } = await openRowSource(db, file, options);
+  const fields: ColumnarField[] = columns.map(({ name, type }) => ({ name, type }));
+  const sourceTimeZones = options.sourceTimeZones ?? {};
+  const rowLimit = options.rowLimit ?? Number.POSITIVE_INFINITY;
+  const chunkRows = Math.min(options.batchSize ?? DEFAULT_CHUNK_ROWS, rowLimit);
+
+  async function* readChunks(): AsyncGenerator<ColumnarChunk> {
+    let values: SqliteValue[][] = columns.map(() => []);
+    let rowCount = 0;
+    let totalRows = 0;
+    let byteOffset = 0;
+    let bytesParsed = 0;
+
+    const flush = (): ColumnarChunk => {
+      const chunk: ColumnarChunk = {
+        rowCount,
+        columns: columns.map(({ name, type }, index) =>
+          buildColumn(values[index]!, type, sourceTimeZones[name])
+        ),
+        byteOffset,
+        bytesParsed: Math.max(bytesParsed, byteOffset)
+      };
+      values = columns.map(() => []);
+      rowCount = 0;
+      return chunk;
+    };
+
+    for await (const row of rows) {
+      if (rowCount === 0) {
+        byteOffset = row.byteOffset;
+      }
+      bytesParsed = Math.max(bytesParsed, row.bytesParsed);
+      columns.forEach((_, index) => {
+        values[index]!.push(row.values[index] ?? null);
+      });
+      rowCount += 1;
+      totalRows += 1;
+
+      if (totalRows >= rowLimit) {
+        break;
+      }
+      if (rowCount >= chunkRows) {
+        yield flush();
+      }
+    }
+    if (rowCount > 0) {
+      yield flush();
+    }
+  }
+
+  try {
+    // The shared emitter assumes UTF-8; databases name their own text encoding.
+    await emitColumnarChunks(
+      fields,
+      readChunks(),
+      { ...callbacks, onEncoding: () => callbacks.onEncoding?.(db.encoding) },
+      options
+    );
+  } finally {
+    close();
+  }
+};
@@ -1,15 +1,27 @@
-import { TaggingStore } from '../taggingStore';
+import {
+  SegmentedTaggingStore,
+  TaggingStore,
+  type TaggingSnapshotStore,
+  type TaggingStoreSegment
+} from '../taggingStore';
 import type { DatasetFingerprint } from '../datasetFingerprint';
 import type {
   ColumnInference,
   ColumnType,
+  ColumnTypeOverride,
+  DerivedColumnDefinition,
   FilterNode,
   LabelDefinition,
+  ParseIssue,
   SortDefinition,
   TagRecord
 } from '../types';
 import type { RowBatchStore } from '../rowBatchStore';
-import type { ColumnValueDistributionResult } from '../workerApiTypes';
+import type {
+  ColumnValueDistributionResult,
+  DerivedColumnStatus,
+  LoadedSource
+} from '../workerApiTypes';
 import { normaliseLabelIds } from '../taggingHelpers';
 import { createDefaultMitreAttackTacticLabels } from '@constants/mitreAttackTactics';
 
@@ -41,6 +53,22 @@ export interface DatasetState {
   totalRows: number;
   bytesParsed: number;
   fileHandle: FileSystemFileHandle | null;
+  /** Row range of each file in a multi-file load; empty for single files. */
+  sources: LoadedSource[];
+  /** First structural anomalies met while parsing, capped to keep memory bounded. */
+  parseIssues: ParseIssue[];
+  /** Every anomaly found, including those beyond the stored cap. */
+  parseIssueCount: number;
+  /** Derived columns installed on the batch store; their types are in `columnTypes`. */
+  derivedColumns: DerivedColumnStatus[];
+  /** Definitions behind `derivedColumns`, recompiled when column types change. */
+  derivedColumnDefinitions: DerivedColumnDefinition[];
+  /** Source zone per column for naive timestamps, as given to the load. */
+  sourceTimeZones: Record<string, string>;
+  /** Types chosen by the analyst; `columnTypes` and `columnInference` reflect them. */
+  columnTypeOverrides: Record<string, ColumnTypeOverride>;
+  /** Inference of each overridden column as the parser made it, restored on reset. */
+  inferredColumnInference: Record<string, ColumnInference>;
   backgroundSortPromise: Promise<Uint32Array | void> | null;
   sortComplete: boolean;
   columnValueDistributionCache: Map<string, ColumnValueDistributionResult>;
@@ -50,7 +78,7 @@ export interface DatasetState {
 export interface TaggingState {
   labels: LabelDefinition[];
   tags: Record<number, TagRecord>;
-  store: TaggingStore | null;
+  store: TaggingSnapshotStore | null;
   dirty: boolean;
   persistTimer: number | null;
 }
@@ -70,7 +98,8 @@ export interface DataWorkerStateController {
   resetTagging(): void;
   updateTagging<T = void>(mutator: (tagging: TaggingState) => T): T;
   clearTaggingPersistTimer(): void;
-  hydrateTaggingStore(fingerprint: DatasetFingerprint | null): Promise<void>;
+  /** Pass one segment per file for multi-file loads so tags persist per file. */
+  hydrateTaggingStore(source: DatasetFingerprint | TaggingStoreSegment[] | null): Promise<void>;
   markTaggingDirty(): void;
   persistTaggingNow(): Promise<void>;
 }
@@ -89,6 +118,14 @@ const createEmptyDatasetState = (): DatasetState => ({
   totalRows: 0,
   bytesParsed: 0,
   fileHandle: null,
+  sources: [],
+  parseIssues: [],
+  parseIssueCount: 0,
+  derivedColumns: [],
+  derivedColumnDefinitions: [],
+  sourceTimeZones: {},
+  columnTypeOverrides: {},
+  inferredColumnInference: {},
   backgroundSortPromise: null,
   sortComplete: true,
   columnValueDistributionCache: new Map(),
@@ -177,16 +214,20 @@ class DataWorkerState implements DataWorkerStateController {
     }
   }
 
-  async hydrateTaggingStore(fingerprint: DatasetFingerprint | null): Promise<void> {
+  async hydrateTaggingStore(
+    source: DatasetFingerprint | TaggingStoreSegment[] | null
+  ): Promise<void> {
     this.clearTaggingPersistTimer();
 
-    if (!fingerprint) {
+    if (!source || (Array.isArray(source) && source.length === 0)) {
       this._tagging = createEmptyTaggingState();
       return;
     }
 
     try {
-      const store = await TaggingStore.create(fingerprint);
+      const store = Array.isArray(source)
+        ? await SegmentedTaggingStore.create(source)
+        : await TaggingStore.create(source);
       this._tagging.store = store;
       const snapshot = await store.load();
       const labels =
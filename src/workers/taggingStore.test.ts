@@ -1,7 +1,8 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 
 import type { DatasetFingerprint } from './datasetFingerprint';
-import { buildTaggingStoreKey } from './taggingStore';
+import { buildTaggingStoreKey, SegmentedTaggingStore, TaggingStore } from './taggingStore';
+import type { TaggingSnapshot } from './types';
 
 describe('buildTaggingStoreKey', () => {
   it('slugifies the file name and appends size + timestamp metadata', () => {
@@ -24,3 +25,48 @@ describe('buildTaggingStoreKey', () => {
     expect(buildTaggingStoreKey(fingerprint)).toBe('dataset-0-0');
   });
 });
+
+describe('SegmentedTaggingStore', () => {
+  const label = { id: 'l1', name: 'Seen', color: '#fff', createdAt: 1, updatedAt: 1 };
+  const fingerprint = (fileName: string): DatasetFingerprint => ({
+    fileName,
+    fileSize: 1,
+    lastModified: 1
+  });
+
+  it('keeps tags per file with file-local row ids', async () => {
+    const saved = new Map<string, TaggingSnapshot | null>([
+      ['a.csv', null],
+      ['b.csv', { labels: [label], tags: { 0: { labelIds: ['l1'], updatedAt: 1 } } }]
+    ]);
+    vi.spyOn(TaggingStore, 'create').mockImplementation(
+      async (source) =>
+        ({
+          load: async () => saved.get(source!.fileName) ?? null,
+          save: async (snapshot: TaggingSnapshot) => {
+            saved.set(source!.fileName, snapshot);
+          }
+        }) as unknown as TaggingStore
+    );
+
+    // b.csv was tagged on its own; here it follows a three-row a.csv.
+    const store = await SegmentedTaggingStore.create([
+      { fingerprint: fingerprint('a.csv'), rowStart: 0, rowCount: 3 },
+      { fingerprint: fingerprint('b.csv'), rowStart: 3, rowCount: 2 }
+    ]);
+
+    const loaded = await store.load();
+    expect(loaded).toEqual({ labels: [label], tags: { 3: { labelIds: ['l1'], updatedAt: 1 } } });
+
+    await store.save({
+      labels: [label],
+      tags: {
+        1: { labelIds: ['l1'], updatedAt: 2 },
+        4: { labelIds: [], note: 'check', updatedAt: 2 }
+      }
+    });
+    expect(saved.get('a.csv')?.tags).toEqual({ 1: { labelIds: ['l1'], updatedAt: 2 } });
+    expect(saved.get('b.csv')?.tags).toEqual({ 1: { labelIds: [], note: 'check', updatedAt: 2 } });
+    expect(saved.get('b.csv')?.labels).toEqual([label]);
+  });
+});
@@ -33,7 +33,13 @@ const buildFileNames = (key: string): { data: string; temp: string } => {
   };
 };
 
-export class TaggingStore {
+/** What the worker's tagging state needs from a persistence backend. */
+export interface TaggingSnapshotStore {
+  load(): Promise<TaggingSnapshot | null>;
+  save(snapshot: TaggingSnapshot): Promise<void>;
+}
+
+export class TaggingStore implements TaggingSnapshotStore {
   private readonly directory: FileSystemDirectoryHandle | null;
   private readonly handle: FileSystemFileHandle | null;
   private readonly fileName: string | null;
@@ -146,3 +152,80 @@ export class TaggingStore {
     }
   }
 }
+
+export interface TaggingStoreSegment {
+  fingerprint: DatasetFingerprint;
+  rowStart: number;
+  rowCount: number;
+}
+
+interface OpenSegment {
+  store: TaggingStore;
+  rowStart: number;
+  rowCount: number;
+}
+
+/**
+ * Tagging persistence for a multi-file load. Each file keeps its own snapshot
+ * keyed by its fingerprint with file-local row ids, so its tags come back
+ * whichever set of files it is loaded with, or when it is loaded alone.
+ */
+export class SegmentedTaggingStore implements TaggingSnapshotStore {
+  private readonly segments: OpenSegment[];
+
+  private constructor(segments: OpenSegment[]) {
+    this.segments = segments;
+  }
+
+  static async create(segments: TaggingStoreSegment[]): Promise<SegmentedTaggingStore> {
+    const opened = await Promise.all(
+      segments.map(async ({ fingerprint, rowStart, rowCount }) => ({
+        store: await TaggingStore.create(fingerprint),
+        rowStart,
+        rowCount
+      }))
+    );
+    return new SegmentedTaggingStore(opened);
+  }
+
+  async load(): Promise<TaggingSnapshot | null> {
+    const snapshots = await Promise.all(this.segments.map(({ store }) => store.load()));
+    if (snapshots.every((snapshot) => snapshot == null)) {
+      return null;
+    }
+
+    const labels = new Map<string, TaggingSnapshot['labels'][number]>();
+    const tags: TaggingSnapshot['tags'] = {};
+    snapshots.forEach((snapshot, index) => {
+      const { rowStart, rowCount } = this.segments[index]!;
+      for (const label of snapshot?.labels ?? []) {
+        if (!labels.has(label.id)) {
+          labels.set(label.id, label);
+        }
+      }
+      for (const [rowKey, record] of Object.entries(snapshot?.tags ?? {})) {
+        const rowId = Number(rowKey);
+        if (Number.isInteger(rowId) && rowId >= 0 && rowId < rowCount) {
+          tags[rowStart + rowId] = record;
+        }
+      }
+    });
+
+    return { labels: Array.from(labels.values()), tags };
+  }
+
+  async save(snapshot: TaggingSnapshot): Promise<void> {
+    await Promise.all(
+      this.segments.map(({ store, rowStart, rowCount }) => {
+        const tags: TaggingSnapshot['tags'] = {};
+        for (const [rowKey, record] of Object.entries(snapshot.tags)) {
+          const rowId = Number(rowKey) - rowStart;
+          if (rowId >= 0 && rowId < rowCount) {
+            tags[rowId] = record;
+          }
+        }
+        return store.save({ labels: snapshot.labels, tags });
+      })
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { encodeFlatBuffer, flatTable, scalar, type FlatTable } from '@utils/flatBuffers';
+
+export interface ArrowFixtureBatch {
+  length: number;
+  /** `[length, nullCount]` per field node. */
+  nodes: Array<[number, number]>;
+  buffers: Uint8Array[];
+}
+
+export interface ArrowFixture {
+  /** `Field` tables, built with the same helpers as the exporter. */
+  fields: FlatTable[];
+  dictionaries?: Array<{ id: number; batch: ArrowFixtureBatch; isDelta?: boolean }>;
+  batches: ArrowFixtureBatch[];
+  /** Wraps every buffer in a stored LZ4 frame and marks the body as compressed. */
+  lz4?: boolean;
+}
+
+const MESSAGE_SCHEMA = 1;
+const MESSAGE_DICTIONARY_BATCH = 2;
+const MESSAGE_RECORD_BATCH = 3;
+const VERSION_V5 = 4;
+const textEncoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const merged = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    merged.set(part, offset);
+    offset += part.length;
+  }
+  return merged;
+};
+
+const padTo8 = (bytes: Uint8Array): Uint8Array => {
+  const padded = new Uint8Array(Math.ceil(bytes.length / 8) * 8);
+  padded.set(bytes);
+  return padded;
+};
+
+const int64Pairs = (pairs: number[][]): { kind: 'structs'; bytes: Uint8Array; count: number } => {
+  const bytes = new Uint8Array(pairs.length * 16);
+  const view = new DataView(bytes.buffer);
+  pairs.forEach(([first, second], index) => {
+    view.setBigInt64(index * 16, BigInt(first!), true);
+    view.setBigInt64(index * 16 + 8, BigInt(second!), true);
+  });
+  return { kind: 'structs', bytes, count: pairs.length };
+};
+
+/** Uncompressed length prefix, then an LZ4 frame holding one stored block. */
+const storedLz4 = (bytes: Uint8Array): Uint8Array => {
+  const prefix = new Uint8Array(8);
+  new DataView(prefix.buffer).setBigInt64(0, BigInt(bytes.length), true);
+  const blockSize = new Uint8Array(4);
+  new DataView(blockSize.buffer).setUint32(0, (bytes.length | 0x80000000) >>> 0, true);
+  return concat([
+    prefix,
+    Uint8Array.of(0x04, 0x22, 0x4d, 0x18, 0x60, 0x40, 0x82),
+    blockSize,
+    bytes,
+    new Uint8Array(4)
+  ]);
+};
+
+const message = (headerType: number, header: FlatTable, bodyLength: number): Uint8Array => {
+  const metadata = encodeFlatBuffer(
+    flatTable(scalar(2, VERSION_V5), scalar(1, headerType), header, scalar(8, bodyLength))
+  );
+  const prefix = new Uint8Array(8);
+  new DataView(prefix.buffer).setUint32(0, 0xffffffff, true);
+  const padded = padTo8(concat([prefix, metadata]));
+  new DataView(padded.buffer).setInt32(4, padded.length - 8, true);
+  return padded;
+};
+
+const recordBatch = (batch: ArrowFixtureBatch, lz4: boolean) => {
+  const layout: number[][] = [];
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+  for (const buffer of batch.buffers) {
+    const stored = lz4 && buffer.length > 0 ? storedLz4(buffer) : buffer;
+    layout.push([offset, stored.length]);
+    parts.push(padTo8(stored));
+    offset += parts.at(-1)!.length;
+  }
+  return {
+    header: flatTable(
+      scalar(8, batch.length),
+      int64Pairs(batch.nodes),
+      int64Pairs(layout),
+      lz4 ? flatTable(scalar(1, 0), scalar(1, 0)) : null
+    ),
+    body: concat(parts)
+  };
+};
+
+/** Writes an Arrow IPC file in memory from hand-built schema fields and buffers. */
+export const buildArrowFixture = ({
+  fields,
+  dictionaries = [],
+  batches,
+  lz4 = false
+}: ArrowFixture): Uint8Array => {
+  const schema = flatTable(scalar(2, 0), { kind: 'tables', items: fields });
+  const parts: Uint8Array[] = [textEncoder.encode('ARROW1\0\0')];
+  let size = 8;
+  const push = (part: Uint8Array) => {
+    parts.push(part);
+    size += part.length;
+  };
+  push(message(MESSAGE_SCHEMA, schema, 0));
+
+  const writeBlocks = (entries: Array<{ header: FlatTable; body: Uint8Array }>, type: number) =>
+    entries.map(({ header, body }) => {
+      const offset = size;
+      const metadata = message(type, header, body.length);
+      push(metadata);
+      push(body);
+      return [offset, metadata.length, body.length];
+    });
+
+  const dictionaryBlocks = writeBlocks(
+    dictionaries.map(({ id, batch, isDelta }) => {
+      const { header, body } = recordBatch(batch, lz4);
+      return { header: flatTable(scalar(8, id), header, scalar(1, isDelta ? 1 : 0)), body };
+    }),
+    MESSAGE_DICTIONARY_BATCH
+  );
+  const batchBlocks = writeBlocks(
+    batches.map((batch) => recordBatch(batch, lz4)),
+    MESSAGE_RECORD_BATCH
+  );
+  push(Uint8Array.of(0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0));
+
+  const blocks = (entries: number[][]) => {
+    const bytes = new Uint8Array(entries.length * 24);
+    const view = new DataView(bytes.buffer);
+    entries.forEach(([offset, metaDataLength, bodyLength], index) => {
+      view.setBigInt64(index * 24, BigInt(offset!), true);
+      view.setInt32(index * 24 + 8, metaDataLength!, true);
+      view.setBigInt64(index * 24 + 16, BigInt(bodyLength!), true);
+    });
+    return { kind: 'structs' as const, bytes, count: entries.length };
+  };
+  const footer = encodeFlatBuffer(
+    flatTable(scalar(2, VERSION_V5), schema, blocks(dictionaryBlocks), blocks(batchBlocks))
+  );
+  const trailer = new Uint8Array(10);
+  new DataView(trailer.buffer).setInt32(0, footer.length, true);
+  trailer.set(textEncoder.encode('ARROW1'), 4);
+  return concat([...parts, footer, trailer]);
+};
@@ -0,0 +1,60 @@
+/**
+ * Small files compressed with the reference `bzip2`, `zstd -19` and `lz4 -9`
+ * tools, so the bundled decoders are checked against real encoder output.
+ */
+
+const EVENT_IDS = [4624, 4625, 4688, 4720];
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/** 200 rows of synthetic logon events; the plain text of the `EVENTS_*` fixtures. */
+export const EVENTS_CSV = [
+  'time,host,event',
+  ...Array.from(
+    { length: 200 },
+    (_, index) =>
+      `2024-01-01T00:${pad(Math.floor(index / 60))}:${pad(index % 60)}Z,` +
+      `WS0${((index * 7) % 4) + 1},${EVENT_IDS[(index * index + Math.floor(index / 3)) % 4]}`
+  )
+]
+  .join('\n')
+  .concat('\n');
+
+export const EVENTS_CSV_ZST = [
+  'KLUv/WRIF10JABbcMheAS9IYAL95WISRJLnfCCF7y5QcDKwxTj8AMAAdANMkPjYuLpPn9054aFhYJI6vSU50tGFMQYrk',
+  'OJ65EMkFQdhAAcKgBEqgCCzAAsgN4LBw8HCAcGhgQEAcKCQ4BJmZmZmZmZmZmZmZmZmZiXIUoxSlFFKmXCyVBDmIQQpS',
+  'CCFDJpJIYo4xppgyZGYeA3d3d3d3d3d3d3d3d2dmZmZmZmZmZmZmZmZmZmYG0zRN0zRN0zRN0zRN0zRNd3d3d3d3d3d3',
+  'd3d3d3d3d3cXgNWoIRi9/T8DwJUyjAEhCENIEOFESIiACI2QCPx6z6P1PFrPo/U8Ws+j9Zw/ulAZJYJRhtxJwx1rHFjX',
+  'ukID2NVg+m9mXKxd2WwIOG+ADbAcEswbGJa12bIsMFIF1sOFnw=='
+].join('');
+
+export const EVENTS_CSV_BZ2 = [
+  'QlpoOTFBWSZTWYY2/tMADCNbgAAQAAZ/8AyQAmONAFADeGq8HquceAqQ//VSPKBDIwCNVPf6qmo0yaaAGmGqf4qqaGgA',
+  'yAEVTTelR6mgMjQApSUwoTB6RGTP3v5nkm7iTRJok0SaJNEmiTRJok0SaJNEmiTRJok0SaJNEmiTRJok0SaJNEmiTRJo',
+  'k0SaJNEmiTRJmOV8gAAAAAABVVVVVUgAAAAAAAAAHBYAAAAAAAFVVVVVSAAAAAAAAAAZ3EXh8biLgRbwdyrrCrMKswmS',
+  'rui9hFoqwRYaRbCLQGkWCxFgv4IOba9LzvE3Sq4EwgaNra3tjixF1B7CLwLpBsItWkMq0K4DDhzDi4bCDQrkCWcgzbtB',
+  'TBDdFgi4R1UTLIMjV2Oagp4MEChWzcLsY0FlQSMCMYb1GrR2t7c6oPGg5ubk4uDlalqpVXl5aVJFsEqSBKkgSpQAAAAA',
+  'AAAAqqqqlVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVfnbcbcO24248NtZSlhbEgAAAAAAC2Jx1AAAAAAAERESAA',
+  'AAAAAKzMyAAAAAAANusaft/+/PPW1exdyRThQkIY2/tM'
+].join('');
+
+export const EVENTS_CSV_LZ4 = [
+  'BCJNGGxASBgAAAAAAABSegQAAPEPdGltZSxob3N0LGV2ZW50CjIwMjQtMDEtMDFUMDA6AwC/WixXUzAxLDQ2MjQfAAAR',
+  'MR8AEDQfAB81HwAAETIfAB8zPgAFETMfAG8yLDQ2ODgfAAAWNHwAD10AARU1fAAPPgACFTZ8AA8fAAIUN3wAPzcyMB8A',
+  'ABU4fAAPPgACFjn4AA/ZAAAkMTB8AA9dAAIlMTH4AA8+AAIfMnQBCi8xM3QBCi8xNHQBCi8xNXQBCi8xNnQBCi8xN3QB',
+  'Ci8xOHQBCi8xOXQBCi8yMHQBCi8yMXQBCi8yMnQBCi8yM3QBCi8yNHQBCi8yNXQBCi8yNnQBCi8yN3QBCi8yOHQBCi8y',
+  'OXQBCi8zMHQBCi8zMXQBCi8zMnQBCi8zM3QBCi8zNHQBCi8zNXQBCi8zNnQBCi8zN3QBCi8zOHQBCi8zOXQBCi80MHQB',
+  'Ci80MXQBCi80MnQBCi80M3QBCi80NHQBCi80NXQBCi80NnQBCi80N3QBCi80OHQBCi80OXQBCi81MHQBCi81MXQBCi81',
+  'MnQBCi81M3QBCi81NHQBCi81NXQBCi81NnQBCi81N3QBCi81OHQBCi81OXQBCB8xRAcLHzFEBwsfMUQHCx8xRAcLHzFE',
+  'BwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8x',
+  'RAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsf',
+  'MUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcL',
+  'HzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQHCx8xRAcLHzFEBwsfMUQH',
+  'Cx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJE',
+  'BwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8y',
+  'RAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsf',
+  'MkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8yRAcL',
+  'HzJEBwsfMkQHCx8yRAcLHzJEBwsfMkQHCx8zRAcLHzNEBwsfM0QHCx8zRAcLHzNEBwsfM0QHCx8zRAcLHzNEBwsfM0QH',
+  'Cx8zRAcLHzNEBwsfM0QHCx8zRAcLHzNEBwsfM0QHCx8zRAcLHzNEBwsfM0QHCx8zRAcLFjNEB1A0NzIwCgAAAADBZZHc'
+].join('');
+
+export const fromBase64 = (value: string): Uint8Array => new Uint8Array(Buffer.from(value, 'base64'));
@@ -0,0 +1,281 @@
+export interface EvtxFixtureElement {
+  name: string;
+  attributes?: Array<[string, EvtxFixtureContent]>;
+  children?: EvtxFixtureContent[];
+}
+
+/** Literal text, a nested element, or a placeholder for the record's n-th value. */
+export type EvtxFixtureContent = string | EvtxFixtureElement | { substitution: number };
+
+export type EvtxFixtureValue =
+  | { type: number; bytes: Uint8Array }
+  /** A BinXML value, written as elements without dependency identifiers. */
+  | { type: 'binxml'; element: EvtxFixtureElement };
+
+export interface EvtxFixtureRecord {
+  id: number;
+  /** Records sharing a template object reference its definition within a chunk. */
+  template: EvtxFixtureElement;
+  values: EvtxFixtureValue[];
+}
+
+export interface EvtxFixture {
+  /** `null` leaves a zero-filled chunk, like the unused tail of a pre-allocated log. */
+  chunks: Array<EvtxFixtureRecord[] | null>;
+}
+
+const CHUNK_SIZE = 0x10000;
+const CHUNK_HEADER_SIZE = 512;
+const FILE_HEADER_SIZE = 4096;
+const FILETIME_UNIX_EPOCH_MS = 11_644_473_600_000n;
+const textEncoder = new TextEncoder();
+
+const littleEndian = (size: number, value: bigint): Uint8Array => {
+  const bytes = new Uint8Array(size);
+  for (let index = 0; index < size; index += 1) {
+    bytes[index] = Number((value >> BigInt(index * 8)) & 0xffn);
+  }
+  return bytes;
+};
+
+const utf16 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let index = 0; index < text.length; index += 1) {
+    view.setUint16(index * 2, text.charCodeAt(index), true);
+  }
+  return bytes;
+};
+
+export const evtxString = (text: string): EvtxFixtureValue => ({
+  type: 0x01,
+  bytes: utf16(text)
+});
+export const evtxUInt8 = (value: number): EvtxFixtureValue => ({
+  type: 0x04,
+  bytes: littleEndian(1, BigInt(value))
+});
+export const evtxUInt16 = (value: number): EvtxFixtureValue => ({
+  type: 0x06,
+  bytes: littleEndian(2, BigInt(value))
+});
+export const evtxUInt32 = (value: number): EvtxFixtureValue => ({
+  type: 0x08,
+  bytes: littleEndian(4, BigInt(value))
+});
+export const evtxUInt64 = (value: bigint): EvtxFixtureValue => ({
+  type: 0x0a,
+  bytes: littleEndian(8, value)
+});
+export const evtxHexInt64 = (value: bigint): EvtxFixtureValue => ({
+  type: 0x15,
+  bytes: littleEndian(8, value)
+});
+/** FILETIME from epoch milliseconds plus extra 100 ns ticks. */
+export const evtxFiletime = (epochMs: number, extraTicks = 0): EvtxFixtureValue => ({
+  type: 0x11,
+  bytes: littleEndian(8, (BigInt(epochMs) + FILETIME_UNIX_EPOCH_MS) * 10_000n + BigInt(extraTicks))
+});
+export const evtxGuid = (bytes: Uint8Array): EvtxFixtureValue => ({ type: 0x0f, bytes });
+export const evtxSid = (sid: string): EvtxFixtureValue => {
+  const [, revision, authority, ...subAuthorities] = sid.split('-');
+  const bytes = new Uint8Array(8 + subAuthorities.length * 4);
+  bytes[0] = Number(revision);
+  bytes[1] = subAuthorities.length;
+  bytes[7] = Number(authority);
+  subAuthorities.forEach((value, index) => {
+    bytes.set(littleEndian(4, BigInt(value)), 8 + index * 4);
+  });
+  return { type: 0x13, bytes };
+};
+export const evtxStringArray = (items: string[]): EvtxFixtureValue => ({
+  type: 0x81,
+  bytes: utf16(items.map((item) => `${item}\0`).join(''))
+});
+export const evtxNull = (): EvtxFixtureValue => ({ type: 0x00, bytes: new Uint8Array(0) });
+export const evtxBinXml = (element: EvtxFixtureElement): EvtxFixtureValue => ({
+  type: 'binxml',
+  element
+});
+
+const createChunkWriter = () => {
+  const bytes: number[] = new Array<number>(CHUNK_HEADER_SIZE).fill(0);
+  const names = new Map<string, number>();
+  const templates = new Map<EvtxFixtureElement, number>();
+
+  const push = (...values: Array<number | Uint8Array>) => {
+    for (const value of values) {
+      if (typeof value === 'number') {
+        bytes.push(value);
+      } else {
+        bytes.push(...value);
+      }
+    }
+  };
+  const uint16 = (value: number) => push(littleEndian(2, BigInt(value)));
+  const uint32 = (value: number) => push(littleEndian(4, BigInt(value)));
+  const patch = (offset: number, size: number, value: number) => {
+    bytes.splice(offset, size, ...littleEndian(size, BigInt(value)));
+  };
+
+  /** Writes the name inline on first use; template names are referenced afterwards. */
+  const writeName = (name: string, shared: boolean) => {
+    const existing = shared ? names.get(name) : undefined;
+    if (existing != null) {
+      uint32(existing);
+      return;
+    }
+    const offset = bytes.length + 4;
+    uint32(offset);
+    uint32(0);
+    uint16(0);
+    uint16(name.length);
+    push(utf16(name));
+    uint16(0);
+    if (shared) {
+      names.set(name, offset);
+    }
+  };
+
+  const writeContent = (content: EvtxFixtureContent, embedded: boolean) => {
+    if (typeof content === 'string') {
+      push(0x05, 0x01);
+      uint16(content.length);
+      push(utf16(content));
+    } else if ('substitution' in content) {
+      push(0x0d);
+      uint16(content.substitution);
+      push(0x01);
+    } else {
+      writeElement(content, embedded);
+    }
+  };
+
+  const writeElement = (element: EvtxFixtureElement, embedded: boolean) => {
+    const attributes = element.attributes ?? [];
+    const children = element.children ?? [];
+    push(attributes.length > 0 ? 0x41 : 0x01);
+    if (!embedded) {
+      uint16(0xffff);
+    }
+    const sizeOffset = bytes.length;
+    uint32(0);
+    writeName(element.name, !embedded);
+    const attributeSizeOffset = bytes.length;
+    if (attributes.length > 0) {
+      uint32(0);
+    }
+    attributes.forEach(([name, value], index) => {
+      push(index < attributes.length - 1 ? 0x46 : 0x06);
+      writeName(name, !embedded);
+      writeContent(value, embedded);
+    });
+    if (attributes.length > 0) {
+      patch(attributeSizeOffset, 4, bytes.length - attributeSizeOffset - 4);
+    }
+    if (children.length === 0) {
+      push(0x03);
+    } else {
+      push(0x02);
+      children.forEach((child) => writeContent(child, embedded));
+      push(0x04);
+    }
+    patch(sizeOffset, 4, bytes.length - sizeOffset - 4);
+  };
+
+  const writeTemplateInstance = (template: EvtxFixtureElement, values: EvtxFixtureValue[]) => {
+    push(0x0c, 0x01);
+    uint32(0);
+    const existing = templates.get(template);
+    if (existing != null) {
+      uint32(existing);
+    } else {
+      const offset = bytes.length + 4;
+      templates.set(template, offset);
+      uint32(offset);
+      uint32(0);
+      push(new Uint8Array(16));
+      const sizeOffset = bytes.length;
+      uint32(0);
+      push(0x0f, 0x01, 0x01, 0x00);
+      writeElement(template, false);
+      push(0x00);
+      patch(sizeOffset, 4, bytes.length - sizeOffset - 4);
+    }
+
+    uint32(values.length);
+    const descriptorOffset = bytes.length;
+    for (const value of values) {
+      uint16(0);
+      push(value.type === 'binxml' ? 0x21 : value.type, 0);
+    }
+    values.forEach((value, index) => {
+      const start = bytes.length;
+      if (value.type === 'binxml') {
+        push(0x0f, 0x01, 0x01, 0x00);
+        writeElement(value.element, true);
+        push(0x00);
+      } else {
+        push(value.bytes);
+      }
+      patch(descriptorOffset + index * 4, 2, bytes.length - start);
+    });
+  };
+
+  const writeRecord = ({ id, template, values }: EvtxFixtureRecord) => {
+    const start = bytes.length;
+    uint32(0x2a2a);
+    uint32(0);
+    push(littleEndian(8, BigInt(id)), new Uint8Array(8));
+    push(0x0f, 0x01, 0x01, 0x00);
+    writeTemplateInstance(template, values);
+    push(0x00);
+    const size = bytes.length - start + 4;
+    uint32(size);
+    patch(start + 4, 4, size);
+  };
+
+  const finish = (records: EvtxFixtureRecord[]): Uint8Array => {
+    if (bytes.length > CHUNK_SIZE) {
+      throw new Error('EVTX fixture chunk overflows 64 KiB.');
+    }
+    const chunk = new Uint8Array(CHUNK_SIZE);
+    chunk.set(bytes);
+    chunk.set(textEncoder.encode('ElfChnk\0'), 0);
+    const view = new DataView(chunk.buffer);
+    const firstId = BigInt(records[0]?.id ?? 0);
+    const lastId = BigInt(records.at(-1)?.id ?? 0);
+    view.setBigUint64(8, firstId, true);
+    view.setBigUint64(16, lastId, true);
+    view.setBigUint64(24, firstId, true);
+    view.setBigUint64(32, lastId, true);
+    view.setUint32(40, 128, true);
+    view.setUint32(48, bytes.length, true);
+    return chunk;
+  };
+
+  return { writeRecord, finish };
+};
+
+/** Writes an EVTX file in memory: a file header and one 64 KiB chunk per entry. */
+export const buildEvtxFixture = ({ chunks }: EvtxFixture): Uint8Array => {
+  const file = new Uint8Array(FILE_HEADER_SIZE + chunks.length * CHUNK_SIZE);
+  file.set(textEncoder.encode('ElfFile\0'), 0);
+  const view = new DataView(file.buffer);
+  view.setBigUint64(16, BigInt(Math.max(chunks.length - 1, 0)), true);
+  view.setUint32(32, 128, true);
+  view.setUint16(36, 1, true);
+  view.setUint16(38, 3, true);
+  view.setUint16(40, FILE_HEADER_SIZE, true);
+  view.setUint16(42, chunks.length, true);
+
+  chunks.forEach((records, index) => {
+    if (!records) {
+      return;
+    }
+    const writer = createChunkWriter();
+    records.forEach(writer.writeRecord);
+    file.set(writer.finish(records), FILE_HEADER_SIZE + index * CHUNK_SIZE);
+  });
+  return file;
+};
@@ -1,3 +1,5 @@
+import { Blob as NodeBlob } from 'node:buffer';
+
 export interface MockFileHandleOptions {
   name?: string;
   type?: string;
@@ -7,15 +9,19 @@ export interface MockFileHandleOptions {
 /**
  * Builds a minimal FileSystemFileHandle compatible with the ingestion pipeline.
  * Backed by an in-memory File so worker tests can stream CSV data without OPFS.
+ * Slices use Node's Blob, since jsdom's lacks `arrayBuffer()` and `stream()`.
  */
 export const createMockFileHandle = (
-  contents: string,
+  contents: string | Uint8Array,
   { name = 'mock.csv', type = 'text/csv', lastModified = Date.now() }: MockFileHandleOptions = {}
 ): FileSystemFileHandle => {
-  const textEncoder = new TextEncoder();
-  const encoded = textEncoder.encode(contents);
+  const encoded = typeof contents === 'string' ? new TextEncoder().encode(contents) : contents;
 
-  const toBuffer = (): ArrayBuffer => encoded.buffer.slice(encoded.byteOffset, encoded.byteOffset + encoded.byteLength);
+  const toBuffer = (): ArrayBuffer =>
+    (encoded.buffer as ArrayBuffer).slice(
+      encoded.byteOffset,
+      encoded.byteOffset + encoded.byteLength
+    );
   const createStream = (): ReadableStream<Uint8Array> =>
     new ReadableStream<Uint8Array>({
       start(controller) {
@@ -31,8 +37,9 @@ export const createMockFileHandle = (
     size: encoded.byteLength,
     stream: createStream,
     arrayBuffer: async () => toBuffer(),
-    text: async () => contents,
-    slice: (...args: Parameters<Blob['slice']>) => new Blob([contents], { type }).slice(...args)
+    text: async () => new TextDecoder().decode(encoded),
+    slice: (...args: Parameters<Blob['slice']>) =>
+      new NodeBlob([encoded], { type }).slice(...args) as unknown as Blob
   } as File;
 
   const handle: Partial<FileSystemFileHandle> = {
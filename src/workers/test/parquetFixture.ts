@@ -0,0 +1,380 @@
+import { gzipSync } from 'node:zlib';
+
+/** Physical types from parquet.thrift. */
+export const PARQUET_TYPES = {
+  BOOLEAN: 0,
+  INT32: 1,
+  INT64: 2,
+  INT96: 3,
+  DOUBLE: 5,
+  BYTE_ARRAY: 6,
+  FIXED_LEN_BYTE_ARRAY: 7
+} as const;
+
+export type ParquetFixtureValue = number | bigint | boolean | string | Uint8Array | null;
+
+export interface ParquetFixtureColumn {
+  name: string;
+  physicalType: number;
+  typeLength?: number;
+  optional?: boolean;
+  /** Only written to the schema; the pages still hold one flat value per row. */
+  repeated?: boolean;
+  convertedType?: number;
+  /** `LogicalType` union member: field id plus the fields of its struct. */
+  logicalType?: { id: number; fields?: ThriftField[] };
+  /** INT96 values are given as epoch milliseconds. */
+  values: ParquetFixtureValue[];
+  dictionary?: boolean;
+}
+
+export interface ParquetFixture {
+  columns: ParquetFixtureColumn[];
+  rowGroupSize?: number;
+  codec?: 'uncompressed' | 'snappy' | 'gzip';
+  pageVersion?: 1 | 2;
+}
+
+type ThriftField =
+  | [id: number, type: 'bool', value: boolean]
+  | [id: number, type: 'i32' | 'i64', value: number]
+  | [id: number, type: 'binary', value: Uint8Array]
+  | [id: number, type: 'struct', value: ThriftField[]]
+  | [id: number, type: 'list<struct>', value: ThriftField[][]]
+  | [id: number, type: 'list<i32>', value: number[]]
+  | [id: number, type: 'list<binary>', value: Uint8Array[]];
+
+const CODECS = { uncompressed: 0, snappy: 1, gzip: 2 };
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const ENCODING_RLE_DICTIONARY = 8;
+const textEncoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const merged = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    merged.set(part, offset);
+    offset += part.length;
+  }
+  return merged;
+};
+
+const varint = (value: number): number[] => {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+  return bytes;
+};
+
+const zigzag = (value: number): number[] => varint(value >= 0 ? value * 2 : -value * 2 - 1);
+
+const THRIFT_TYPES = { i32: 5, i64: 6, binary: 8, list: 9, struct: 12 };
+
+/** Thrift compact protocol encoding of a struct. */
+const writeStruct = (fields: ThriftField[]): number[] => {
+  const bytes: number[] = [];
+  let lastId = 0;
+  const header = (id: number, type: number) => {
+    const delta = id - lastId;
+    bytes.push(...(delta > 0 && delta < 16 ? [(delta << 4) | type] : [type, ...zigzag(id)]));
+    lastId = id;
+  };
+  const listHeader = (size: number, type: number) =>
+    bytes.push(...(size < 15 ? [(size << 4) | type] : [0xf0 | type, ...varint(size)]));
+
+  for (const [id, type, value] of fields) {
+    switch (type) {
+      case 'bool':
+        header(id, value ? 1 : 2);
+        break;
+      case 'i32':
+      case 'i64':
+        header(id, THRIFT_TYPES[type]);
+        bytes.push(...zigzag(value));
+        break;
+      case 'binary':
+        header(id, THRIFT_TYPES.binary);
+        bytes.push(...varint(value.length), ...value);
+        break;
+      case 'struct':
+        header(id, THRIFT_TYPES.struct);
+        bytes.push(...writeStruct(value));
+        break;
+      case 'list<struct>':
+        header(id, THRIFT_TYPES.list);
+        listHeader(value.length, THRIFT_TYPES.struct);
+        value.forEach((item) => bytes.push(...writeStruct(item)));
+        break;
+      case 'list<i32>':
+        header(id, THRIFT_TYPES.list);
+        listHeader(value.length, THRIFT_TYPES.i32);
+        value.forEach((item) => bytes.push(...zigzag(item)));
+        break;
+      case 'list<binary>':
+        header(id, THRIFT_TYPES.list);
+        listHeader(value.length, THRIFT_TYPES.binary);
+        value.forEach((item) => bytes.push(...varint(item.length), ...item));
+        break;
+    }
+  }
+  bytes.push(0);
+  return bytes;
+};
+
+/** Every value as one bit-packed run of the RLE / bit-packing hybrid. */
+const bitPacked = (values: number[], bitWidth: number): Uint8Array => {
+  const groups = Math.ceil(values.length / 8);
+  const packed = new Uint8Array(groups * bitWidth);
+  values.forEach((value, index) => {
+    for (let bit = 0; bit < bitWidth; bit += 1) {
+      const position = index * bitWidth + bit;
+      packed[position >>> 3]! |= ((value >>> bit) & 1) << (position & 7);
+    }
+  });
+  return concat([Uint8Array.from(varint((groups << 1) | 1)), packed]);
+};
+
+/** Literal-only snappy encoding; valid input for any snappy decoder. */
+const snappyLiteral = (bytes: Uint8Array): Uint8Array => {
+  const parts: Uint8Array[] = [Uint8Array.from(varint(bytes.length))];
+  for (let start = 0; start < bytes.length; start += 65_536) {
+    const chunk = bytes.subarray(start, start + 65_536);
+    const length = chunk.length - 1;
+    parts.push(Uint8Array.of(61 << 2, length & 0xff, length >>> 8), chunk);
+  }
+  return concat(parts);
+};
+
+const compress = (bytes: Uint8Array, codec: ParquetFixture['codec']): Uint8Array => {
+  if (codec === 'snappy') {
+    return snappyLiteral(bytes);
+  }
+  return codec === 'gzip' ? new Uint8Array(gzipSync(bytes)) : bytes;
+};
+
+const plain = (column: ParquetFixtureColumn, values: ParquetFixtureValue[]): Uint8Array => {
+  if (column.physicalType === PARQUET_TYPES.BOOLEAN) {
+    const bits = new Uint8Array(Math.ceil(values.length / 8));
+    values.forEach((value, index) => {
+      bits[index >>> 3]! |= (value ? 1 : 0) << (index & 7);
+    });
+    return bits;
+  }
+  return concat(
+    values.map((value) => {
+      const bytes = new Uint8Array(column.physicalType === PARQUET_TYPES.INT96 ? 12 : 8);
+      const view = new DataView(bytes.buffer);
+      switch (column.physicalType) {
+        case PARQUET_TYPES.INT32:
+          view.setInt32(0, Number(value), true);
+          return bytes.subarray(0, 4);
+        case PARQUET_TYPES.INT64:
+          view.setBigInt64(0, BigInt(value as number | bigint), true);
+          return bytes;
+        case PARQUET_TYPES.INT96: {
+          const days = Math.floor(Number(value) / 86_400_000);
+          const nanos = (Number(value) - days * 86_400_000) * 1_000_000;
+          view.setBigInt64(0, BigInt(nanos), true);
+          view.setInt32(8, days + 2_440_588, true);
+          return bytes;
+        }
+        case PARQUET_TYPES.DOUBLE:
+          view.setFloat64(0, Number(value), true);
+          return bytes;
+        case PARQUET_TYPES.FIXED_LEN_BYTE_ARRAY:
+          return value as Uint8Array;
+        default: {
+          const encoded = typeof value === 'string' ? textEncoder.encode(value) : value;
+          const prefix = new Uint8Array(4);
+          new DataView(prefix.buffer).setUint32(0, (encoded as Uint8Array).length, true);
+          return concat([prefix, encoded as Uint8Array]);
+        }
+      }
+    })
+  );
+};
+
+const pageHeader = (fields: ThriftField[]): Uint8Array => Uint8Array.from(writeStruct(fields));
+
+/** Dictionary page (when requested) and one data page for a slice of a column. */
+const writeColumnChunk = (
+  column: ParquetFixtureColumn,
+  values: ParquetFixtureValue[],
+  { codec = 'uncompressed', pageVersion = 1 }: ParquetFixture
+): { pages: Uint8Array[]; dictionaryLength: number } => {
+  const present = values.filter((value) => value !== null);
+  const levels = values.map((value) => (value === null ? 0 : 1));
+  const pages: Uint8Array[] = [];
+  let dictionaryLength = 0;
+  let encoded = plain(column, present);
+  let encoding = ENCODING_PLAIN;
+
+  if (column.dictionary) {
+    const keys = present.map((value) =>
+      value instanceof Uint8Array ? Array.from(value).join(',') : String(value)
+    );
+    const distinct = [...new Set(keys)];
+    const dictionaryValues = distinct.map((key) => present[keys.indexOf(key)]!);
+    const raw = plain(column, dictionaryValues);
+    const body = compress(raw, codec);
+    const header = pageHeader([
+      [1, 'i32', 2],
+      [2, 'i32', raw.length],
+      [3, 'i32', body.length],
+      [7, 'struct', [[1, 'i32', distinct.length], [2, 'i32', ENCODING_PLAIN]]]
+    ]);
+    pages.push(header, body);
+    dictionaryLength = header.length + body.length;
+    const bitWidth = Math.max(1, Math.ceil(Math.log2(distinct.length)));
+    encoded = concat([
+      Uint8Array.of(bitWidth),
+      bitPacked(keys.map((key) => distinct.indexOf(key)), bitWidth)
+    ]);
+    encoding = ENCODING_RLE_DICTIONARY;
+  }
+
+  const definitionLevels = column.optional ? bitPacked(levels, 1) : new Uint8Array(0);
+  if (pageVersion === 2) {
+    const body = compress(encoded, codec);
+    pages.push(
+      pageHeader([
+        [1, 'i32', 3],
+        [2, 'i32', definitionLevels.length + encoded.length],
+        [3, 'i32', definitionLevels.length + body.length],
+        [
+          8,
+          'struct',
+          [
+            [1, 'i32', values.length],
+            [2, 'i32', values.length - present.length],
+            [3, 'i32', values.length],
+            [4, 'i32', encoding],
+            [5, 'i32', definitionLevels.length],
+            [6, 'i32', 0]
+          ]
+        ]
+      ]),
+      definitionLevels,
+      body
+    );
+    return { pages, dictionaryLength };
+  }
+
+  const prefix = new Uint8Array(4);
+  new DataView(prefix.buffer).setUint32(0, definitionLevels.length, true);
+  const raw = column.optional ? concat([prefix, definitionLevels, encoded]) : encoded;
+  const body = compress(raw, codec);
+  pages.push(
+    pageHeader([
+      [1, 'i32', 0],
+      [2, 'i32', raw.length],
+      [3, 'i32', body.length],
+      [
+        5,
+        'struct',
+        [
+          [1, 'i32', values.length],
+          [2, 'i32', encoding],
+          [3, 'i32', ENCODING_RLE],
+          [4, 'i32', ENCODING_RLE]
+        ]
+      ]
+    ]),
+    body
+  );
+  return { pages, dictionaryLength };
+};
+
+const schemaElement = (column: ParquetFixtureColumn): ThriftField[] => {
+  const fields: ThriftField[] = [[1, 'i32', column.physicalType]];
+  if (column.typeLength) {
+    fields.push([2, 'i32', column.typeLength]);
+  }
+  fields.push(
+    [3, 'i32', column.repeated ? 2 : column.optional ? 1 : 0],
+    [4, 'binary', textEncoder.encode(column.name)]
+  );
+  if (column.convertedType != null) {
+    fields.push([6, 'i32', column.convertedType]);
+  }
+  if (column.logicalType) {
+    const { id, fields: logicalFields = [] } = column.logicalType;
+    fields.push([10, 'struct', [[id, 'struct', logicalFields]]]);
+  }
+  return fields;
+};
+
+/** Writes a flat Parquet file in memory for reader and ingestion tests. */
+export const buildParquetFixture = (fixture: ParquetFixture): Uint8Array => {
+  const { columns, rowGroupSize = Number.POSITIVE_INFINITY, codec = 'uncompressed' } = fixture;
+  const rowCount = columns[0]?.values.length ?? 0;
+  const parts: Uint8Array[] = [textEncoder.encode('PAR1')];
+  let size = 4;
+  const rowGroups: ThriftField[][] = [];
+
+  for (let start = 0; start < rowCount; start += rowGroupSize) {
+    const end = Math.min(rowCount, start + rowGroupSize);
+    const chunks = columns.map((column): ThriftField[] => {
+      const offset = size;
+      const { pages, dictionaryLength } = writeColumnChunk(
+        column,
+        column.values.slice(start, end),
+        fixture
+      );
+      pages.forEach((page) => {
+        parts.push(page);
+        size += page.length;
+      });
+      const metadata: ThriftField[] = [
+        [1, 'i32', column.physicalType],
+        [2, 'list<i32>', [ENCODING_PLAIN, ENCODING_RLE]],
+        [3, 'list<binary>', [textEncoder.encode(column.name)]],
+        [4, 'i32', CODECS[codec]],
+        [5, 'i64', end - start],
+        [6, 'i64', size - offset],
+        [7, 'i64', size - offset],
+        [9, 'i64', offset + dictionaryLength]
+      ];
+      if (dictionaryLength) {
+        metadata.push([11, 'i64', offset]);
+      }
+      return [
+        [2, 'i64', offset],
+        [3, 'struct', metadata]
+      ];
+    });
+    rowGroups.push([
+      [1, 'list<struct>', chunks],
+      [2, 'i64', 0],
+      [3, 'i64', end - start]
+    ]);
+  }
+
+  const footer = Uint8Array.from(
+    writeStruct([
+      [1, 'i32', 2],
+      [
+        2,
+        'list<struct>',
+        [
+          [
+            [4, 'binary', textEncoder.encode('schema')],
+            [5, 'i32', columns.length]
+          ],
+          ...columns.map(schemaElement)
+        ]
+      ],
+      [3, 'i64', rowCount],
+      [4, 'list<struct>', rowGroups]
+    ])
+  );
+  const trailer = new Uint8Array(8);
+  new DataView(trailer.buffer).setUint32(0, footer.length, true);
+  trailer.set(textEncoder.encode('PAR1'), 4);
+  return concat([...parts, footer, trailer]);
+};
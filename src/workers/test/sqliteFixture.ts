@@ -0,0 +1,251 @@
+export type SqliteFixtureValue = null | number | bigint | string | Uint8Array;
+
+export interface SqliteFixtureTable {
+  name: string;
+  /** Stored in the schema table as written; the fixture does not check it against the rows. */
+  sql: string;
+  /** Record values in column order; give `null` for an `INTEGER PRIMARY KEY` column. */
+  rows: SqliteFixtureValue[][];
+  /** Defaults to 1, 2, 3, … */
+  rowids?: number[];
+}
+
+export interface SqliteFixture {
+  pageSize?: number;
+  encoding?: 'utf-8' | 'utf-16le' | 'utf-16be';
+  tables: SqliteFixtureTable[];
+  /** Listed in the schema table after the tables; a view has no pages of its own. */
+  views?: Array<{ name: string; sql: string }>;
+}
+
+const ENCODING_CODES = { 'utf-8': 1, 'utf-16le': 2, 'utf-16be': 3 };
+const PAGE_INTERIOR_TABLE = 0x05;
+const PAGE_LEAF_TABLE = 0x0d;
+const FILE_HEADER_SIZE = 100;
+const textEncoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const merged = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    merged.set(part, offset);
+    offset += part.length;
+  }
+  return merged;
+};
+
+const bigEndian = (size: number, value: bigint): Uint8Array => {
+  const bytes = new Uint8Array(size);
+  for (let index = 0; index < size; index += 1) {
+    bytes[size - 1 - index] = Number((value >> BigInt(index * 8)) & 0xffn);
+  }
+  return bytes;
+};
+
+const varint = (input: number | bigint): Uint8Array => {
+  let value = BigInt.asUintN(64, BigInt(input));
+  if (value >= 1n << 56n) {
+    const bytes = new Uint8Array(9);
+    bytes[8] = Number(value & 0xffn);
+    value >>= 8n;
+    for (let index = 7; index >= 0; index -= 1) {
+      bytes[index] = Number(value & 0x7fn) | 0x80;
+      value >>= 7n;
+    }
+    return bytes;
+  }
+  const groups: number[] = [Number(value & 0x7fn)];
+  value >>= 7n;
+  while (value > 0n) {
+    groups.unshift(Number(value & 0x7fn) | 0x80);
+    value >>= 7n;
+  }
+  return Uint8Array.from(groups);
+};
+
+const encodeText = (text: string, encoding: SqliteFixture['encoding']): Uint8Array => {
+  if (encoding === 'utf-8' || encoding == null) {
+    return textEncoder.encode(text);
+  }
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let index = 0; index < text.length; index += 1) {
+    view.setUint16(index * 2, text.charCodeAt(index), encoding === 'utf-16le');
+  }
+  return bytes;
+};
+
+/** Integer serial types 1–6 and their byte sizes, smallest first. */
+const INTEGER_SIZES: Array<[serialType: number, size: number]> = [
+  [1, 1],
+  [2, 2],
+  [3, 3],
+  [4, 4],
+  [5, 6],
+  [6, 8]
+];
+
+const encodeRecord = (values: SqliteFixtureValue[], encoding: SqliteFixture['encoding']) => {
+  const serialTypes: number[] = [];
+  const body: Uint8Array[] = [];
+  for (const value of values) {
+    if (value == null) {
+      serialTypes.push(0);
+    } else if (typeof value === 'string') {
+      const bytes = encodeText(value, encoding);
+      serialTypes.push(bytes.length * 2 + 13);
+      body.push(bytes);
+    } else if (value instanceof Uint8Array) {
+      serialTypes.push(value.length * 2 + 12);
+      body.push(value);
+    } else if (typeof value === 'number' && !Number.isInteger(value)) {
+      const bytes = new Uint8Array(8);
+      new DataView(bytes.buffer).setFloat64(0, value);
+      serialTypes.push(7);
+      body.push(bytes);
+    } else if (value === 0 || value === 1) {
+      serialTypes.push(value === 0 ? 8 : 9);
+    } else {
+      const integer = BigInt(value);
+      const [serialType, size] = INTEGER_SIZES.find(
+        ([, bytes]) => bytes === 8 || BigInt.asIntN(bytes * 8, integer) === integer
+      )!;
+      serialTypes.push(serialType);
+      body.push(bigEndian(size, BigInt.asUintN(size * 8, integer)));
+    }
+  }
+
+  const header = concat(serialTypes.map(varint));
+  // The header size counts itself; one byte covers every fixture.
+  return concat([varint(header.length + 1), header, ...body]);
+};
+
+/**
+ * Writes a SQLite database in memory: the schema table on page 1, then each
+ * table's leaf pages, its overflow pages and, when it needs more than one
+ * leaf, a single interior root page. The SQLite engine opens it as well.
+ */
+export const buildSqliteFixture = ({
+  pageSize = 1024,
+  encoding = 'utf-8',
+  tables,
+  views = []
+}: SqliteFixture): Uint8Array => {
+  const pages: Uint8Array[] = [new Uint8Array(pageSize)];
+  const allocate = (): number => {
+    pages.push(new Uint8Array(pageSize));
+    return pages.length;
+  };
+
+  /** Splits a cell so its payload follows SQLite's local/overflow rule. */
+  const buildCell = (rowid: number, payload: Uint8Array): Uint8Array => {
+    const maxLocal = pageSize - 35;
+    const prefix = concat([varint(payload.length), varint(rowid)]);
+    if (payload.length <= maxLocal) {
+      return concat([prefix, payload]);
+    }
+    const minLocal = Math.floor(((pageSize - 12) * 32) / 255) - 23;
+    let local = minLocal + ((payload.length - minLocal) % (pageSize - 4));
+    if (local > maxLocal) {
+      local = minLocal;
+    }
+
+    const overflowPages: number[] = [];
+    for (let offset = local; offset < payload.length; offset += pageSize - 4) {
+      overflowPages.push(allocate());
+    }
+    overflowPages.forEach((pageNumber, index) => {
+      const page = pages[pageNumber - 1]!;
+      page.set(bigEndian(4, BigInt(overflowPages[index + 1] ?? 0)), 0);
+      const start = local + index * (pageSize - 4);
+      page.set(payload.subarray(start, start + pageSize - 4), 4);
+    });
+    return concat([prefix, payload.subarray(0, local), bigEndian(4, BigInt(overflowPages[0]!))]);
+  };
+
+  const writePage = (
+    pageNumber: number,
+    pageType: number,
+    cells: Uint8Array[],
+    rightPointer?: number
+  ) => {
+    const page = pages[pageNumber - 1]!;
+    const start = pageNumber === 1 ? FILE_HEADER_SIZE : 0;
+    const headerSize = rightPointer != null ? 12 : 8;
+    const cellBytes = cells.reduce((total, cell) => total + cell.length + 2, 0);
+    if (start + headerSize + cellBytes > pageSize) {
+      throw new Error('SQLite fixture page overflows.');
+    }
+    let contentStart = pageSize;
+    cells.forEach((cell, index) => {
+      contentStart -= cell.length;
+      page.set(cell, contentStart);
+      page.set(bigEndian(2, BigInt(contentStart)), start + headerSize + index * 2);
+    });
+    page[start] = pageType;
+    page.set(bigEndian(2, BigInt(cells.length)), start + 3);
+    page.set(bigEndian(2, BigInt(contentStart % 65_536)), start + 5);
+    if (rightPointer != null) {
+      page.set(bigEndian(4, BigInt(rightPointer)), start + 8);
+    }
+  };
+
+  /** Packs cells into leaf pages and returns the table's root page. */
+  const writeTable = (cells: Array<{ rowid: number; cell: Uint8Array }>): number => {
+    const leaves: Array<typeof cells> = [[]];
+    let used = 8;
+    for (const entry of cells) {
+      if (used + entry.cell.length + 2 > pageSize && leaves.at(-1)!.length > 0) {
+        leaves.push([]);
+        used = 8;
+      }
+      leaves.at(-1)!.push(entry);
+      used += entry.cell.length + 2;
+    }
+
+    const leafPages = leaves.map((leaf) => {
+      const pageNumber = allocate();
+      writePage(pageNumber, PAGE_LEAF_TABLE, leaf.map(({ cell }) => cell));
+      return pageNumber;
+    });
+    if (leafPages.length === 1) {
+      return leafPages[0]!;
+    }
+
+    const root = allocate();
+    const dividers = leafPages.slice(0, -1).map((pageNumber, index) =>
+      concat([bigEndian(4, BigInt(pageNumber)), varint(leaves[index]!.at(-1)!.rowid)])
+    );
+    writePage(root, PAGE_INTERIOR_TABLE, dividers, leafPages.at(-1));
+    return root;
+  };
+
+  const schemaRows = tables.map(({ name, sql, rows, rowids }) => {
+    const rootPage = writeTable(
+      rows.map((values, index) => {
+        const rowid = rowids?.[index] ?? index + 1;
+        return { rowid, cell: buildCell(rowid, encodeRecord(values, encoding)) };
+      })
+    );
+    return ['table', name, name, rootPage, sql];
+  });
+  schemaRows.push(...views.map(({ name, sql }) => ['view', name, name, 0, sql]));
+  writePage(
+    1,
+    PAGE_LEAF_TABLE,
+    schemaRows.map((values, index) => buildCell(index + 1, encodeRecord(values, encoding)))
+  );
+
+  const file = concat(pages);
+  file.set(textEncoder.encode('SQLite format 3\0'), 0);
+  file.set(bigEndian(2, BigInt(pageSize === 65_536 ? 1 : pageSize)), 16);
+  file[18] = 1;
+  file[19] = 1;
+  file[21] = 64;
+  file[22] = 32;
+  file[23] = 32;
+  file.set(bigEndian(4, BigInt(pages.length)), 28);
+  file.set(bigEndian(4, 4n), 44);
+  file.set(bigEndian(4, BigInt(ENCODING_CODES[encoding])), 56);
+  return file;
+};
@@ -0,0 +1,73 @@
+import { buildZipFixture } from './zipFixture';
+
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export interface XlsxFixture {
+  /** Chart sheets are listed in the workbook but hold no cells. */
+  sheets: Array<{ name: string; xml: string; chart?: boolean }>;
+  /** Raw `<si>` elements of the shared strings part. */
+  sharedStrings?: string[];
+  styles?: string;
+  date1904?: boolean;
+}
+
+/** Wraps `<row>` elements in a worksheet part. */
+export const worksheetXml = (rows: string): string =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  `<dimension ref="A1:E5"/><sheetData>${rows}</sheetData><pageMargins left="0.7"/></worksheet>`;
+
+/** Writes a minimal `.xlsx` package in memory for reader and ingestion tests. */
+export const buildXlsxFixture = ({
+  sheets,
+  sharedStrings,
+  styles,
+  date1904
+}: XlsxFixture): Uint8Array => {
+  const sheetTags = sheets
+    .map(
+      ({ name }, index) => `<sheet name="${name}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    )
+    .join('');
+  const sheetRelationships = sheets
+    .map(
+      ({ chart }, index) =>
+        `<Relationship Id="rId${index + 1}" ` +
+        `Type="${RELATIONSHIP_TYPE}/${chart ? 'chartsheet' : 'worksheet'}" ` +
+        `Target="${chart ? 'chartsheets' : 'worksheets'}/sheet${index + 1}.xml"/>`
+    )
+    .join('');
+
+  return buildZipFixture([
+    {
+      path: '_rels/.rels',
+      contents:
+        `<Relationships><Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/officeDocument" ` +
+        'Target="xl/workbook.xml"/></Relationships>'
+    },
+    {
+      path: 'xl/workbook.xml',
+      contents:
+        `<workbook xmlns:r="${RELATIONSHIP_TYPE}">` +
+        `<workbookPr${date1904 ? ' date1904="1"' : ''}/>` +
+        `<sheets>${sheetTags}</sheets></workbook>`
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      contents: `<Relationships>${sheetRelationships}</Relationships>`
+    },
+    ...(sharedStrings
+      ? [
+          {
+            path: 'xl/sharedStrings.xml',
+            contents: `<sst count="${sharedStrings.length}">${sharedStrings.join('')}</sst>`
+          }
+        ]
+      : []),
+    ...(styles ? [{ path: 'xl/styles.xml', contents: styles }] : []),
+    ...sheets.map(({ xml, chart }, index) => ({
+      path: `xl/${chart ? 'chartsheets' : 'worksheets'}/sheet${index + 1}.xml`,
+      contents: xml
+    }))
+  ]);
+};
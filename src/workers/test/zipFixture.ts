@@ -0,0 +1,77 @@
+import { deflateRawSync } from 'node:zlib';
+
+export interface ZipFixtureEntry {
+  path: string;
+  contents?: string | Uint8Array;
+  /** Zip method id; 0 stores, 8 deflates, anything else is written as stored bytes. */
+  method?: number;
+  encrypted?: boolean;
+}
+
+const DOS_DATE_2024_01_01 = ((2024 - 1980) << 9) | (1 << 5) | 1;
+
+/**
+ * Writes a zip archive in memory for reader and ingestion tests. CRCs are
+ * left at zero because the reader never checks them.
+ */
+export const buildZipFixture = (entries: ZipFixtureEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { path, contents = '', method = 8, encrypted = false } of entries) {
+    const name = encoder.encode(path);
+    const data = typeof contents === 'string' ? encoder.encode(contents) : contents;
+    const payload = method === 8 ? new Uint8Array(deflateRawSync(data)) : data;
+    const flags = 0x800 | (encrypted ? 1 : 0);
+
+    const local = new Uint8Array(30 + name.length + payload.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, flags, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(12, DOS_DATE_2024_01_01, true);
+    localView.setUint32(18, payload.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(payload, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, flags, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(14, DOS_DATE_2024_01_01, true);
+    centralView.setUint32(20, payload.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = centrals.reduce((total, central) => total + central.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + directorySize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+};
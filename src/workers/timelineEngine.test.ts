@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  accumulateTimelineRows,
+  createTimelineAccumulator,
+  resolveTimelineLayout,
+  timelineBucketIndex
+} from './timelineEngine';
+
+const HOUR = 3_600_000;
+
+describe('resolveTimelineLayout', () => {
+  it('picks the finest bucket width that fits the target', () => {
+    const start = Date.UTC(2024, 0, 1, 0, 0, 0);
+    const layout = resolveTimelineLayout(start, start + 10 * HOUR, 24);
+
+    expect(layout.bucketSizeMs).toBe(30 * 60_000);
+    expect(layout.start).toBe(start);
+    expect(layout.bucketCount).toBe(21);
+  });
+
+  it('zooms into finer buckets for narrower windows', () => {
+    const start = Date.UTC(2024, 0, 1, 12, 0, 7);
+    const layout = resolveTimelineLayout(start, start + 90_000, 100);
+
+    expect(layout.bucketSizeMs).toBe(1_000);
+    expect(layout.start).toBe(start);
+    expect(timelineBucketIndex(layout, start + 90_000)).toBe(90);
+  });
+
+  it('handles a single instant', () => {
+    const instant = Date.UTC(2024, 5, 1);
+    const layout = resolveTimelineLayout(instant, instant);
+
+    expect(layout.bucketCount).toBe(1);
+    expect(timelineBucketIndex(layout, instant)).toBe(0);
+  });
+});
+
+describe('accumulateTimelineRows', () => {
+  it('counts rows per bucket and tracks nulls and out-of-range values', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const layout = resolveTimelineLayout(start, start + 2 * HOUR - 1, 2);
+    const accumulator = createTimelineAccumulator(layout);
+
+    accumulateTimelineRows(
+      accumulator,
+      [
+        { __rowId: 0, ts: '2024-01-01T00:15:00Z' },
+        { __rowId: 1, ts: start + HOUR + 5 },
+        { __rowId: 2, ts: null },
+        { __rowId: 3, ts: '2024-01-02T00:00:00Z' },
+        { __rowId: 4, ts: '2024-01-01T00:30:00Z' }
+      ],
+      'ts',
+      (row) => row.__rowId !== 4
+    );
+
+    expect(Array.from(accumulator.counts)).toEqual([1, 1]);
+    expect(accumulator.countedRows).toBe(2);
+    expect(accumulator.nullRows).toBe(1);
+    expect(accumulator.outOfRangeRows).toBe(1);
+  });
+});
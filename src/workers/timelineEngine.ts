@@ -0,0 +1,142 @@
+import type { MaterializedRow } from './utils/materializeRowBatch';
+
+const SECOND = 1_000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Bucket widths tried in order; the first that fits `targetBuckets` wins. */
+const BUCKET_SIZES_MS = [
+  SECOND,
+  5 * SECOND,
+  15 * SECOND,
+  30 * SECOND,
+  MINUTE,
+  5 * MINUTE,
+  15 * MINUTE,
+  30 * MINUTE,
+  HOUR,
+  3 * HOUR,
+  6 * HOUR,
+  12 * HOUR,
+  DAY,
+  7 * DAY,
+  30 * DAY,
+  365 * DAY
+];
+
+export const DEFAULT_TIMELINE_BUCKETS = 120;
+export const MAX_TIMELINE_BUCKETS = 2_000;
+
+export interface TimelineLayout {
+  /** Inclusive start of the first bucket, aligned to `bucketSizeMs`. */
+  start: number;
+  /** Exclusive end of the last bucket. */
+  end: number;
+  bucketSizeMs: number;
+  bucketCount: number;
+}
+
+/**
+ * Picks a human-friendly bucket width so the span from `rangeStart` to
+ * `rangeEnd` produces at most `targetBuckets` buckets, then aligns the
+ * layout to that width.
+ */
+export const resolveTimelineLayout = (
+  rangeStart: number,
+  rangeEnd: number,
+  targetBuckets: number = DEFAULT_TIMELINE_BUCKETS
+): TimelineLayout => {
+  const target = Math.min(MAX_TIMELINE_BUCKETS, Math.max(1, Math.floor(targetBuckets)));
+  const low = Math.min(rangeStart, rangeEnd);
+  const high = Math.max(rangeStart, rangeEnd);
+  const span = Math.max(1, high - low);
+
+  let bucketSizeMs = BUCKET_SIZES_MS[BUCKET_SIZES_MS.length - 1]!;
+  for (const size of BUCKET_SIZES_MS) {
+    if (span / size <= target) {
+      bucketSizeMs = size;
+      break;
+    }
+  }
+
+  if (span / bucketSizeMs > target) {
+    bucketSizeMs = Math.ceil(span / target / DAY) * DAY;
+  }
+
+  const start = Math.floor(low / bucketSizeMs) * bucketSizeMs;
+  // Include the upper bound itself, even when it falls exactly on a boundary.
+  const end = (Math.floor(high / bucketSizeMs) + 1) * bucketSizeMs;
+
+  return {
+    start,
+    end,
+    bucketSizeMs,
+    bucketCount: Math.round((end - start) / bucketSizeMs)
+  };
+};
+
+export const timelineBucketIndex = (layout: TimelineLayout, timestamp: number): number => {
+  if (!Number.isFinite(timestamp) || timestamp < layout.start || timestamp >= layout.end) {
+    return -1;
+  }
+
+  return Math.floor((timestamp - layout.start) / layout.bucketSizeMs);
+};
+
+const toTimestamp = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value === 'string' && value.length > 0) {
+    const parsed = Date.parse(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  return null;
+};
+
+export interface TimelineAccumulator {
+  readonly layout: TimelineLayout;
+  readonly counts: Uint32Array;
+  countedRows: number;
+  nullRows: number;
+  outOfRangeRows: number;
+}
+
+export const createTimelineAccumulator = (layout: TimelineLayout): TimelineAccumulator => ({
+  layout,
+  counts: new Uint32Array(layout.bucketCount),
+  countedRows: 0,
+  nullRows: 0,
+  outOfRangeRows: 0
+});
+
+export const accumulateTimelineRows = (
+  accumulator: TimelineAccumulator,
+  rows: MaterializedRow[],
+  column: string,
+  includeRow?: (row: MaterializedRow) => boolean
+): void => {
+  for (const row of rows) {
+    if (includeRow && !includeRow(row)) {
+      continue;
+    }
+
+    const timestamp = toTimestamp(row[column]);
+    if (timestamp == null) {
+      accumulator.nullRows += 1;
+      continue;
+    }
+
+    const index = timelineBucketIndex(accumulator.layout, timestamp);
+    if (index < 0) {
+      accumulator.outOfRangeRows += 1;
+      continue;
+    }
+
+    accumulator.counts[index] += 1;
+    accumulator.countedRows += 1;
+  }
+};
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { analyzeValue, TypeInferencer } from './typeInference';
+import { analyzeValue, mergeColumnInference, TypeInferencer } from './typeInference';
 
 describe('analyzeValue', () => {
   it('recognizes null for empty strings', () => {
@@ -10,20 +10,38 @@ describe('analyzeValue', () => {
 
   it('recognizes datetime for ISO formats', () => {
     expect(analyzeValue('2023-10-14')).toEqual({ kind: 'datetime', datetimeValue: Date.parse('2023-10-14') });
-    expect(analyzeValue('2023-10-14T12:34:56')).toEqual({ kind: 'datetime', datetimeValue: Date.parse('2023-10-14T12:34:56') });
+    expect(analyzeValue('2023-10-14T12:34:56')).toEqual({ kind: 'datetime', datetimeValue: Date.UTC(2023, 9, 14, 12, 34, 56) });
     expect(analyzeValue('2023-10-14T12:34:56Z')).toEqual({ kind: 'datetime', datetimeValue: Date.parse('2023-10-14T12:34:56Z') });
   });
 
+  it('reads naive timestamps in the requested source zone', () => {
+    expect(analyzeValue('2024-01-15 09:00:00', { timeZone: 'America/New_York' })).toEqual({
+      kind: 'datetime',
+      datetimeValue: Date.UTC(2024, 0, 15, 14, 0, 0)
+    });
+    expect(analyzeValue('2024-01-15T09:00:00Z', { timeZone: 'America/New_York' })).toEqual({
+      kind: 'datetime',
+      datetimeValue: Date.UTC(2024, 0, 15, 9, 0, 0)
+    });
+  });
+
   it('recognizes datetime for epoch timestamps', () => {
     expect(analyzeValue('1697126463')).toEqual({ kind: 'datetime', datetimeValue: 1697126463000 });
     expect(analyzeValue('1697126463000')).toEqual({ kind: 'datetime', datetimeValue: 1697126463000 });
   });
 
+  it('leaves long forensic encodings to column inference', () => {
+    expect(analyzeValue('133514298000000000')).toEqual({
+      kind: 'number',
+      numberValue: Number('133514298000000000')
+    });
+  });
+
   it('recognizes datetime for common formats', () => {
-    expect(analyzeValue('Oct 14 2025 01:44:33')).toEqual({ kind: 'datetime', datetimeValue: Date.parse('Oct 14 2025 01:44:33') });
-    expect(analyzeValue('10/14/2025')).toEqual({ kind: 'datetime', datetimeValue: Date.parse('10/14/2025') });
-    expect(analyzeValue('14-Oct-2025')).toEqual({ kind: 'datetime', datetimeValue: Date.parse('14-Oct-2025') });
-    expect(analyzeValue('October 14, 2025')).toEqual({ kind: 'datetime', datetimeValue: Date.parse('October 14, 2025') });
+    expect(analyzeValue('Oct 14 2025 01:44:33')).toEqual({ kind: 'datetime', datetimeValue: Date.UTC(2025, 9, 14, 1, 44, 33) });
+    expect(analyzeValue('10/14/2025')).toEqual({ kind: 'datetime', datetimeValue: Date.UTC(2025, 9, 14) });
+    expect(analyzeValue('14-Oct-2025')).toEqual({ kind: 'datetime', datetimeValue: Date.UTC(2025, 9, 14) });
+    expect(analyzeValue('October 14, 2025')).toEqual({ kind: 'datetime', datetimeValue: Date.UTC(2025, 9, 14) });
   });
 
   it('recognizes boolean values', () => {
@@ -85,4 +103,66 @@ describe('TypeInferencer', () => {
     expect(result.minDatetime).toBe(Date.parse('2023-10-13T12:00:00Z'));
     expect(result.maxDatetime).toBe(Date.parse('2023-10-15T12:00:00Z'));
   });
+
+  it('decodes forensic timestamps only in time-named columns that all decode', () => {
+    const time = Date.UTC(2024, 1, 3, 10, 30);
+    const inferencer = new TypeInferencer(['LastVisitTime', 'Created', 'tweet_id']);
+    inferencer.updateRow(['13351429800000000', '133514298000000000', '1706956200000000000']);
+    inferencer.updateRow(['', '9999999999999999', '1706956200000000000']);
+    inferencer.updateRow(['13351433400000000', '133514298000000000', '1706956200000000000']);
+
+    expect(inferencer.resolve('LastVisitTime')).toMatchObject({
+      type: 'datetime',
+      nullCount: 1,
+      minDatetime: time,
+      maxDatetime: time + 3_600_000,
+      timestampDecoder: 'webkit'
+    });
+    expect(inferencer.resolve('Created')).toMatchObject({ type: 'number' });
+    expect(inferencer.resolve('Created').timestampDecoder).toBeUndefined();
+    // Snowflake-style IDs have the digits of Unix nanoseconds but no time in the name.
+    expect(inferencer.resolve('tweet_id')).toMatchObject({ type: 'number' });
+  });
+});
+
+describe('mergeColumnInference', () => {
+  const inference = (type: 'string' | 'number' | 'datetime', samples: number, nullCount = 0) => ({
+    type,
+    confidence: 1,
+    samples,
+    nullCount,
+    examples: [`${type}-${samples}`]
+  });
+
+  it('counts rows of files without a column as nulls', () => {
+    const merged = mergeColumnInference(
+      { a: inference('number', 3) },
+      3,
+      { b: inference('string', 2) },
+      2
+    );
+
+    expect(merged.a).toMatchObject({ type: 'number', samples: 5, nullCount: 2 });
+    expect(merged.b).toMatchObject({ type: 'string', samples: 5, nullCount: 3 });
+  });
+
+  it('falls back to string on conflicts but ignores all-null sides', () => {
+    const merged = mergeColumnInference(
+      { id: inference('number', 2), when: { ...inference('datetime', 1), minDatetime: 5 } },
+      2,
+      {
+        id: inference('string', 2),
+        when: { ...inference('string', 4, 4), minDatetime: 2, maxDatetime: 9 }
+      },
+      4
+    );
+
+    expect(merged.id).toMatchObject({ type: 'string', examples: ['number-2', 'string-2'] });
+    expect(merged.when).toMatchObject({
+      type: 'datetime',
+      nullCount: 4,
+      minDatetime: 2,
+      maxDatetime: 9
+    });
+  });
 });
@@ -1,4 +1,6 @@
-import type { ColumnType } from './types';
+import type { ColumnInference, ColumnType } from './types';
+import { matchTimestampDecoder } from './utils/timestampDecoders';
+import { UTC_TIME_ZONE, parseDatetimeInZone } from './utils/timezone';
 
 const EPOCH_SECONDS_REGEX = /^-?\d{10}$/;
 const EPOCH_MILLIS_REGEX = /^-?\d{13}$/;
@@ -14,7 +16,12 @@ export interface AnalyzedValue {
   datetimeValue?: number;
 }
 
-export const analyzeValue = (raw: string): AnalyzedValue => {
+export interface AnalyzeValueOptions {
+  /** Zone used for timestamps without an explicit offset. Defaults to UTC. */
+  timeZone?: string;
+}
+
+export const analyzeValue = (raw: string, options: AnalyzeValueOptions = {}): AnalyzedValue => {
   const trimmed = raw.trim();
 
   if (trimmed.length === 0) {
@@ -44,7 +51,7 @@ export const analyzeValue = (raw: string): AnalyzedValue => {
   }
 
   // Try parsing as other datetime formats
-  const timestamp = Date.parse(trimmed);
+  const timestamp = parseDatetimeInZone(trimmed, options.timeZone ?? UTC_TIME_ZONE);
   if (Number.isFinite(timestamp)) {
     return { kind: 'datetime', datetimeValue: timestamp };
   }
@@ -52,6 +59,14 @@ export const analyzeValue = (raw: string): AnalyzedValue => {
   return { kind: 'string' };
 };
 
+/**
+ * Column names that suggest a time, e.g. `Created`, `last_visit_time` or `ts`.
+ * Only these columns are read with a forensic timestamp decoder, since the
+ * same digits are as likely to be IDs.
+ */
+const TIME_COLUMN_NAME_PATTERN =
+  /time|date|stamp|created|modified|changed|accessed|written|visit|seen|(?:^|[^a-z])ts$|_at$/i;
+
 const TYPE_THRESHOLDS: Record<Exclude<ColumnType, 'string'>, number> = {
   boolean: 0.9,
   number: 0.85,
@@ -65,6 +80,14 @@ export interface ColumnInferenceState {
   examples: string[];
   minDatetime?: number;
   maxDatetime?: number;
+  /**
+   * Forensic decoder that read every value so far, undefined before the first
+   * value and null once a value did not decode or the name suggests no time.
+   */
+  timestampDecoder?: string | null;
+  /** Range of the values `timestampDecoder` read. */
+  minDecoded?: number;
+  maxDecoded?: number;
 }
 
 export interface ColumnInferenceResult {
@@ -75,11 +98,12 @@ export interface ColumnInferenceResult {
   examples: string[];
   minDatetime?: number;
   maxDatetime?: number;
+  timestampDecoder?: string;
 }
 
 const MAX_EXAMPLES = 5;
 
-const createInitialState = (): ColumnInferenceState => ({
+const createInitialState = (column: string): ColumnInferenceState => ({
   samples: 0,
   nullCount: 0,
   typeCounts: {
@@ -88,20 +112,42 @@ const createInitialState = (): ColumnInferenceState => ({
     datetime: 0,
     boolean: 0
   },
-  examples: []
+  examples: [],
+  timestampDecoder: TIME_COLUMN_NAME_PATTERN.test(column) ? undefined : null
 });
 
+export interface TypeInferencerOptions {
+  /** Per-column source time zones for naive timestamps; unlisted columns use UTC. */
+  sourceTimeZones?: Record<string, string>;
+}
+
 export class TypeInferencer {
   private readonly state: Record<string, ColumnInferenceState> = {};
   private readonly columns: string[];
+  private readonly sourceTimeZones: Record<string, string>;
 
-  constructor(header: string[]) {
+  constructor(header: string[], options: TypeInferencerOptions = {}) {
     this.columns = header.slice();
+    this.sourceTimeZones = options.sourceTimeZones ?? {};
     for (const column of this.columns) {
-      this.state[column] = createInitialState();
+      this.state[column] = createInitialState(column);
     }
   }
 
+  /**
+   * Registers a column discovered after construction (e.g. a new key in a
+   * JSON Lines record). Values added to {@link updateRow} afterwards follow
+   * the extended column order.
+   */
+  addColumn(column: string): void {
+    if (this.state[column]) {
+      return;
+    }
+
+    this.columns.push(column);
+    this.state[column] = createInitialState(column);
+  }
+
   updateRow(row: string[]): void {
     for (let index = 0; index < this.columns.length; index += 1) {
       const column = this.columns[index]!;
@@ -116,7 +162,7 @@ export class TypeInferencer {
       return;
     }
 
-    const analysis = analyzeValue(rawValue);
+    const analysis = analyzeValue(rawValue, { timeZone: this.sourceTimeZones[column] });
     stats.samples += 1;
 
     if (analysis.kind === 'null') {
@@ -131,6 +177,17 @@ export class TypeInferencer {
       }
     }
 
+    if (stats.timestampDecoder !== null) {
+      const match = matchTimestampDecoder(rawValue.trim());
+      if (match && (stats.timestampDecoder ?? match.decoder) === match.decoder) {
+        stats.timestampDecoder = match.decoder;
+        stats.minDecoded = Math.min(stats.minDecoded ?? match.value, match.value);
+        stats.maxDecoded = Math.max(stats.maxDecoded ?? match.value, match.value);
+      } else {
+        stats.timestampDecoder = null;
+      }
+    }
+
     if (analysis.kind === 'string') {
       stats.typeCounts.string += 1;
     } else {
@@ -177,6 +234,20 @@ export class TypeInferencer {
       };
     }
 
+    // Every value read by one decoder of a time-named column.
+    if (stats.timestampDecoder) {
+      return {
+        type: 'datetime',
+        confidence: 1,
+        samples: stats.samples,
+        nullCount: stats.nullCount,
+        examples: stats.examples.slice(),
+        minDatetime: stats.minDecoded,
+        maxDatetime: stats.maxDecoded,
+        timestampDecoder: stats.timestampDecoder
+      };
+    }
+
     const ratios: Array<{ type: ColumnType; ratio: number }> = [
       { type: 'boolean', ratio: stats.typeCounts.boolean / nonNullSamples },
       { type: 'datetime', ratio: stats.typeCounts.datetime / nonNullSamples },
@@ -214,3 +285,62 @@ export class TypeInferencer {
     };
   }
 }
+
+const pickBound = (
+  left: number | undefined,
+  right: number | undefined,
+  pick: (a: number, b: number) => number
+): number | undefined => (left == null ? right : right == null ? left : pick(left, right));
+
+/**
+ * Combines the inference of two row sets stored one after the other, such as
+ * consecutive files of a multi-file load. Rows of a set without the column
+ * count as nulls, and columns inferred as different types fall back to string.
+ */
+export const mergeColumnInference = (
+  previous: Record<string, ColumnInference>,
+  previousRows: number,
+  next: Record<string, ColumnInference>,
+  nextRows: number
+): Record<string, ColumnInference> => {
+  const merged: Record<string, ColumnInference> = {};
+  const columns = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  for (const column of columns) {
+    const left = previous[column];
+    const right = next[column];
+    if (!left || !right) {
+      const present = (left ?? right)!;
+      const missingRows = left ? nextRows : previousRows;
+      merged[column] = {
+        ...present,
+        samples: present.samples + missingRows,
+        nullCount: present.nullCount + missingRows
+      };
+      continue;
+    }
+
+    // A side with nothing but nulls has no say in the type.
+    const leftEmpty = left.samples <= left.nullCount;
+    const rightEmpty = right.samples <= right.nullCount;
+    const type =
+      leftEmpty || left.type === right.type ? right.type : rightEmpty ? left.type : 'string';
+
+    merged[column] = {
+      type,
+      confidence: Math.min(left.confidence, right.confidence),
+      samples: left.samples + right.samples,
+      nullCount: left.nullCount + right.nullCount,
+      examples: Array.from(new Set([...left.examples, ...right.examples])).slice(0, MAX_EXAMPLES),
+      minDatetime: pickBound(left.minDatetime, right.minDatetime, Math.min),
+      maxDatetime: pickBound(left.maxDatetime, right.maxDatetime, Math.max),
+      timestampDecoder:
+        type === 'datetime' &&
+        (leftEmpty || rightEmpty || left.timestampDecoder === right.timestampDecoder)
+          ? (left.timestampDecoder ?? right.timestampDecoder)
+          : undefined
+    };
+  }
+
+  return merged;
+};
@@ -1,5 +1,63 @@
 export type ColumnType = 'string' | 'number' | 'datetime' | 'boolean';
-export type Delimiter = ',' | '\t' | ';';
+export type Delimiter = ',' | '\t' | ';' | '|';
+
+/** How delimited text is quoted, escaped and laid out; omitted fields keep the defaults. */
+export interface CsvDialect {
+  /** Detected from the header line (comma, tab or semicolon) when omitted. */
+  delimiter?: Delimiter;
+  /** Opens and closes quoted fields; defaults to `"`, and an empty string disables quoting. */
+  quoteChar?: string;
+  /**
+   * Makes the next character literal, e.g. `\\`. Defaults to the quote
+   * character, meaning quotes are escaped by doubling them.
+   */
+  escapeChar?: string;
+  /** Lines starting with this prefix (e.g. `#`) are skipped. */
+  commentPrefix?: string;
+  /** Preamble lines dropped before the header. */
+  skipLines?: number;
+  /** False for files without a header row; columns are then named `column_1..N`. */
+  hasHeader?: boolean;
+}
+
+/**
+ * A named regular expression that turns each line of a plain-text log into a
+ * row; every capture group becomes a column.
+ */
+export interface LogFormat {
+  name: string;
+  /**
+   * JavaScript regular expression source. Named groups (`(?<host>\S+)`) name
+   * their columns; without any, positional groups become `column_1..N`.
+   */
+  pattern: string;
+  /** Lines starting with this prefix are skipped, e.g. `#` for W3C directives. */
+  commentPrefix?: string;
+}
+
+export type ParseIssueKind =
+  | 'extraFields'
+  | 'missingFields'
+  | 'unterminatedQuote'
+  | 'unmatchedLine';
+
+/**
+ * A row whose structure did not match the header, or a log line its format did
+ * not match; the row is still loaded as parsed.
+ */
+export interface ParseIssue {
+  kind: ParseIssueKind;
+  /** Row id of the affected row, i.e. its position in the loaded dataset. */
+  rowIndex: number;
+  /** Offset of the row's first byte within its source file. */
+  byteOffset: number;
+  expectedFields: number;
+  actualFields: number;
+  /** Start of the row as parsed, cells re-joined with the delimiter. */
+  snippet: string;
+  /** File the row came from in a multi-file load. */
+  source?: string;
+}
 
 export interface ParseStats {
   rowsParsed: number;
@@ -23,15 +81,23 @@ export interface StringColumnBatch extends ColumnBatchBase<'string'> {
   offsets: Uint32Array;
 }
 
-export interface NumberColumnBatch extends ColumnBatchBase<'number'> {
+interface TypedColumnBatchBase<TType extends ColumnType> extends ColumnBatchBase<TType> {
+  /**
+   * Cells as read from a text source, kept so a type override can re-coerce
+   * them (`0x1A`, `007`) without re-reading the file. Absent for typed sources.
+   */
+  sourceText?: StringColumnBatch;
+}
+
+export interface NumberColumnBatch extends TypedColumnBatchBase<'number'> {
   data: Float64Array;
 }
 
-export interface BooleanColumnBatch extends ColumnBatchBase<'boolean'> {
+export interface BooleanColumnBatch extends TypedColumnBatchBase<'boolean'> {
   data: Uint8Array;
 }
 
-export interface DatetimeColumnBatch extends ColumnBatchBase<'datetime'> {
+export interface DatetimeColumnBatch extends TypedColumnBatchBase<'datetime'> {
   /** Milliseconds since epoch */
   data: Float64Array;
 }
@@ -44,6 +110,11 @@ export interface ColumnInference {
   examples: readonly string[];
   minDatetime?: number;
   maxDatetime?: number;
+  /**
+   * Forensic encoding every value of a `datetime` column was read with; see
+   * `utils/timestampDecoders.ts`.
+   */
+  timestampDecoder?: string;
 }
 
 export type FilterOperator =
@@ -51,13 +122,24 @@ export type FilterOperator =
   | 'neq'
   | 'contains'
   | 'startsWith'
+  | 'endsWith'
   | 'regex'
   | 'matches'
   | 'notMatches'
   | 'range'
   | 'gt'
   | 'lt'
-  | 'between';
+  | 'between'
+  /** `value` holds the list of accepted values. */
+  | 'in'
+  | 'notIn'
+  /** Null, undefined, NaN or a whitespace-only string. */
+  | 'isNull'
+  | 'isNotNull'
+  /** Compare the character length of the value's text against `value`. */
+  | 'lengthGt'
+  | 'lengthLt'
+  | 'lengthEq';
 
 export interface FilterPredicate {
   id?: string;
@@ -69,7 +151,10 @@ export interface FilterPredicate {
 }
 
 export interface FilterExpression {
-  op: 'and' | 'or';
+  /** Set on builder groups so the worker reports a match count for the group. */
+  id?: string;
+  /** `not` matches the rows that fail the AND of its predicates. */
+  op: 'and' | 'or' | 'not';
   predicates: FilterNode[];
 }
 
@@ -81,6 +166,42 @@ export type ColumnBatch =
   | BooleanColumnBatch
   | DatetimeColumnBatch;
 
+/**
+ * A column computed from the others by an expression such as `lower(User)`;
+ * see `expressionEngine.ts` for the language.
+ */
+export interface DerivedColumnDefinition {
+  name: string;
+  expression: string;
+}
+
+/** How a column packing several values into each cell is unpacked into new columns. */
+export type FieldTransformMode = 'delimiter' | 'keyValue' | 'json';
+
+export interface FieldTransformOptions {
+  /** Separates the items of a `delimiter` list; defaults to `,`. */
+  delimiter?: string;
+  /** Separates `keyValue` pairs; defaults to `;`. */
+  pairSeparator?: string;
+  /** Separates a key from its value; defaults to `=`. */
+  keyValueSeparator?: string;
+}
+
+/** A column type chosen by the analyst instead of the inferred one. */
+export interface ColumnTypeOverride {
+  type: ColumnType;
+  /**
+   * strftime-style layout for `datetime`, e.g. `%d/%b/%Y:%H:%M:%S %z`; see
+   * `utils/datetimeFormat.ts`. Omitted values are parsed like inferred ones.
+   */
+  datetimeFormat?: string;
+  /**
+   * Id of a numeric encoding for `datetime`, such as `filetime` or `webkit`;
+   * see `utils/timestampDecoders.ts`. Takes precedence over `datetimeFormat`.
+   */
+  timestampDecoder?: string;
+}
+
 export interface SortDefinition {
   column: string;
   direction: 'asc' | 'desc';
@@ -144,6 +265,9 @@ export const TAG_EXPORT_VERSION = 1 as const;
 export const TAG_COLUMN_ID = '__tag';
 export const TAG_NO_LABEL_FILTER_VALUE = '__tag:none';
 
+/** Synthetic column naming the originating file of each row in a multi-file load. */
+export const SOURCE_COLUMN_ID = '__source';
+
 export interface TagRowsRequest {
   rowIds: number[];
   labelIds?: string[] | null;
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import { EVENTS_CSV, EVENTS_CSV_BZ2, fromBase64 } from '../test/compressedFixtures';
+import { Bzip2Decoder, createBzip2DecompressionStream } from './bzip2';
+
+const decode = (input: Uint8Array, chunkSize = input.length): string => {
+  const decoder = new Bzip2Decoder();
+  const blocks: Uint8Array[] = [];
+  for (let offset = 0; offset < input.length; offset += chunkSize) {
+    blocks.push(...decoder.push(input.subarray(offset, offset + chunkSize)));
+  }
+  blocks.push(...decoder.finish());
+  return Buffer.concat(blocks).toString('utf8');
+};
+
+describe('Bzip2Decoder', () => {
+  const compressed = fromBase64(EVENTS_CSV_BZ2);
+
+  it('decodes reference bzip2 output however the input is chunked', () => {
+    expect(decode(compressed)).toBe(EVENTS_CSV);
+    expect(decode(compressed, 1)).toBe(EVENTS_CSV);
+    expect(decode(compressed, 100)).toBe(EVENTS_CSV);
+  });
+
+  it('decodes concatenated streams', () => {
+    const twice = new Uint8Array(compressed.length * 2);
+    twice.set(compressed);
+    twice.set(compressed, compressed.length);
+
+    expect(decode(twice, 64)).toBe(EVENTS_CSV + EVENTS_CSV);
+  });
+
+  it('rejects corrupt and truncated input', () => {
+    const corrupted = compressed.slice();
+    corrupted[200] ^= 0xff;
+
+    expect(() => decode(corrupted)).toThrow(/^Corrupt bzip2 data/);
+    expect(() => decode(compressed.subarray(0, 300))).toThrow('Unexpected end of bzip2 data.');
+    expect(() => decode(new TextEncoder().encode('a,b\n1,2\n'))).toThrow('Not a bzip2 stream.');
+  });
+
+  it('works as a TransformStream', async () => {
+    const source = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(compressed.subarray(0, 50));
+        controller.enqueue(compressed.subarray(50));
+        controller.close();
+      }
+    });
+    const reader = source.pipeThrough(createBzip2DecompressionStream()).getReader();
+    const blocks: Uint8Array[] = [];
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      blocks.push(result.value);
+    }
+
+    expect(Buffer.concat(blocks).toString('utf8')).toBe(EVENTS_CSV);
+  });
+});
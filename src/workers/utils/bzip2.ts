@@ -0,0 +1,432 @@
+/**
+ * Streaming bzip2 decompressor. `DecompressionStream` only covers gzip and
+ * deflate, so `.bz2` sources are decoded here one block at a time: input is
+ * buffered until a whole block is available, which keeps memory bounded by
+ * the block size (at most 900 kB of output) rather than the file size.
+ */
+
+const BLOCK_MAGIC = [0x314159, 0x265359];
+const END_MAGIC = [0x177245, 0x385090];
+const GROUP_SIZE = 50;
+const MAX_CODE_LENGTH = 20;
+const RUN_A = 0;
+const RUN_B = 1;
+
+/** Thrown by the bit reader when a block continues past the buffered input. */
+class NeedMoreInput extends Error {}
+
+class BitReader {
+  position = 0;
+
+  constructor(readonly data: Uint8Array) {}
+
+  get remainingBits(): number {
+    return this.data.length * 8 - this.position;
+  }
+
+  read(count: number): number {
+    if (count > this.remainingBits) {
+      throw new NeedMoreInput();
+    }
+
+    let value = 0;
+    let remaining = count;
+    while (remaining > 0) {
+      const offset = this.position & 7;
+      const take = Math.min(8 - offset, remaining);
+      const byte = this.data[this.position >>> 3]!;
+      value = (value << take) | ((byte >>> (8 - offset - take)) & ((1 << take) - 1));
+      this.position += take;
+      remaining -= take;
+    }
+    return value >>> 0;
+  }
+
+  read32(): number {
+    return ((this.read(16) << 16) | this.read(16)) >>> 0;
+  }
+
+  alignToByte(): void {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let crc = index << 24;
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[index] = crc >>> 0;
+  }
+  return table;
+})();
+
+const blockCrc = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index += 1) {
+    crc = (crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[index]!) & 0xff]!;
+  }
+  return ~crc >>> 0;
+};
+
+interface HuffmanTable {
+  minLength: number;
+  maxLength: number;
+  limit: Int32Array;
+  base: Int32Array;
+  symbols: Uint16Array;
+}
+
+const buildHuffmanTable = (lengths: Uint8Array): HuffmanTable => {
+  let minLength = MAX_CODE_LENGTH;
+  let maxLength = 0;
+  for (const length of lengths) {
+    minLength = Math.min(minLength, length);
+    maxLength = Math.max(maxLength, length);
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  const limit = new Int32Array(MAX_CODE_LENGTH + 2);
+  const base = new Int32Array(MAX_CODE_LENGTH + 2);
+  let code = 0;
+  let index = 0;
+  for (let length = minLength; length <= maxLength; length += 1) {
+    base[length] = code - index;
+    for (let symbol = 0; symbol < lengths.length; symbol += 1) {
+      if (lengths[symbol] === length) {
+        symbols[index] = symbol;
+        index += 1;
+        code += 1;
+      }
+    }
+    limit[length] = code - 1;
+    code <<= 1;
+  }
+
+  return { minLength, maxLength, limit, base, symbols };
+};
+
+const decodeSymbol = (reader: BitReader, table: HuffmanTable): number => {
+  let length = table.minLength;
+  let code = reader.read(length);
+  while (code > table.limit[length]!) {
+    length += 1;
+    if (length > table.maxLength) {
+      throw new Error('Corrupt bzip2 data: invalid Huffman code.');
+    }
+    code = (code << 1) | reader.read(1);
+  }
+  return table.symbols[code - table.base[length]!]!;
+};
+
+/** Decodes one block after its magic number into its bytes and checksum. */
+const decodeBlock = (
+  reader: BitReader,
+  maxBlockSize: number
+): { bytes: Uint8Array; crc: number } => {
+  const expectedCrc = reader.read32();
+  if (reader.read(1)) {
+    throw new Error('Randomised bzip2 blocks are not supported.');
+  }
+  const origin = reader.read(24);
+
+  const usedRanges = reader.read(16);
+  const byteValues: number[] = [];
+  for (let range = 0; range < 16; range += 1) {
+    if (usedRanges & (0x8000 >>> range)) {
+      const used = reader.read(16);
+      for (let bit = 0; bit < 16; bit += 1) {
+        if (used & (0x8000 >>> bit)) {
+          byteValues.push(range * 16 + bit);
+        }
+      }
+    }
+  }
+  if (!byteValues.length) {
+    throw new Error('Corrupt bzip2 data: block uses no symbols.');
+  }
+
+  const alphabetSize = byteValues.length + 2;
+  const groupCount = reader.read(3);
+  const selectorCount = reader.read(15);
+  if (groupCount < 2 || groupCount > 6 || selectorCount < 1) {
+    throw new Error('Corrupt bzip2 data: invalid Huffman group header.');
+  }
+
+  const groupOrder = Array.from({ length: groupCount }, (_, index) => index);
+  const selectors = new Uint8Array(selectorCount);
+  for (let index = 0; index < selectorCount; index += 1) {
+    let position = 0;
+    while (reader.read(1)) {
+      position += 1;
+      if (position >= groupCount) {
+        throw new Error('Corrupt bzip2 data: invalid selector.');
+      }
+    }
+    const group = groupOrder[position]!;
+    groupOrder.splice(position, 1);
+    groupOrder.unshift(group);
+    selectors[index] = group;
+  }
+
+  const tables: HuffmanTable[] = [];
+  for (let group = 0; group < groupCount; group += 1) {
+    const lengths = new Uint8Array(alphabetSize);
+    let length = reader.read(5);
+    for (let symbol = 0; symbol < alphabetSize; symbol += 1) {
+      if (length < 1 || length > MAX_CODE_LENGTH) {
+        throw new Error('Corrupt bzip2 data: invalid code length.');
+      }
+      while (reader.read(1)) {
+        length += reader.read(1) ? -1 : 1;
+        if (length < 1 || length > MAX_CODE_LENGTH) {
+          throw new Error('Corrupt bzip2 data: invalid code length.');
+        }
+      }
+      lengths[symbol] = length;
+    }
+    tables.push(buildHuffmanTable(lengths));
+  }
+
+  // Undo the run-length and move-to-front stages into the BWT vector.
+  const endOfBlock = alphabetSize - 1;
+  const moveToFront = Uint8Array.from(byteValues.keys());
+  const byteCounts = new Uint32Array(256);
+  const vector = new Uint32Array(maxBlockSize);
+  let size = 0;
+  let runLength = 0;
+  let runWeight = 1;
+  let selectorIndex = 0;
+  let groupRemaining = 0;
+  let table = tables[0]!;
+  let ended = false;
+
+  while (!ended) {
+    if (groupRemaining === 0) {
+      if (selectorIndex >= selectorCount) {
+        throw new Error('Corrupt bzip2 data: ran out of selectors.');
+      }
+      table = tables[selectors[selectorIndex]!]!;
+      selectorIndex += 1;
+      groupRemaining = GROUP_SIZE;
+    }
+    groupRemaining -= 1;
+
+    const symbol = decodeSymbol(reader, table);
+    if (symbol === RUN_A || symbol === RUN_B) {
+      runLength += (symbol + 1) * runWeight;
+      runWeight *= 2;
+      if (runLength > maxBlockSize) {
+        throw new Error('Corrupt bzip2 data: run exceeds the block size.');
+      }
+      continue;
+    }
+
+    if (runLength > 0) {
+      if (size + runLength > maxBlockSize) {
+        throw new Error('Corrupt bzip2 data: block exceeds its declared size.');
+      }
+      const value = byteValues[moveToFront[0]!]!;
+      byteCounts[value] += runLength;
+      vector.fill(value, size, size + runLength);
+      size += runLength;
+      runLength = 0;
+      runWeight = 1;
+    }
+
+    if (symbol === endOfBlock) {
+      ended = true;
+      continue;
+    }
+
+    if (size >= maxBlockSize) {
+      throw new Error('Corrupt bzip2 data: block exceeds its declared size.');
+    }
+    const position = symbol - 1;
+    const front = moveToFront[position]!;
+    moveToFront.copyWithin(1, 0, position);
+    moveToFront[0] = front;
+    const value = byteValues[front]!;
+    byteCounts[value] += 1;
+    vector[size] = value;
+    size += 1;
+  }
+
+  if (origin >= size) {
+    throw new Error('Corrupt bzip2 data: invalid block origin.');
+  }
+
+  // Inverse Burrows-Wheeler transform: link each byte to its successor.
+  let total = 0;
+  for (let value = 0; value < 256; value += 1) {
+    const count = byteCounts[value]!;
+    byteCounts[value] = total;
+    total += count;
+  }
+  for (let index = 0; index < size; index += 1) {
+    const value = vector[index]! & 0xff;
+    vector[byteCounts[value]!] |= index << 8;
+    byteCounts[value] += 1;
+  }
+
+  // Walk the chain and expand the initial run-length encoding (4 bytes + count).
+  let output = new Uint8Array(Math.max(size + (size >>> 2), 64));
+  let written = 0;
+  let pointer = vector[origin]! >>> 8;
+  let previous = -1;
+  let repeats = 0;
+  for (let step = 0; step < size; step += 1) {
+    const entry = vector[pointer]!;
+    const value = entry & 0xff;
+    pointer = entry >>> 8;
+
+    const needed = repeats === 4 ? value : 1;
+    if (written + needed > output.length) {
+      const grown = new Uint8Array(Math.max(output.length * 2, written + needed));
+      grown.set(output.subarray(0, written));
+      output = grown;
+    }
+
+    if (repeats === 4) {
+      output.fill(previous, written, written + value);
+      written += value;
+      repeats = 0;
+      continue;
+    }
+
+    repeats = value === previous ? repeats + 1 : 1;
+    previous = value;
+    output[written] = value;
+    written += 1;
+  }
+
+  const bytes = output.subarray(0, written);
+  if (blockCrc(bytes) !== expectedCrc) {
+    throw new Error('Corrupt bzip2 data: block checksum mismatch.');
+  }
+  return { bytes, crc: expectedCrc };
+};
+
+const matchesMagic = (reader: BitReader, magic: number[]): boolean => {
+  const start = reader.position;
+  const matched = magic.every((part) => reader.read(24) === part);
+  if (!matched) {
+    reader.position = start;
+  }
+  return matched;
+};
+
+/**
+ * Incremental decoder: `push` input as it arrives and collect whole blocks.
+ * Concatenated streams (as written by parallel compressors) are supported.
+ */
+export class Bzip2Decoder {
+  private pending = new Uint8Array(0);
+  private maxBlockSize = 0;
+  private streamCrc = 0;
+  // Blocks are not byte aligned; bits of the pending first byte already used.
+  private bitOffset = 0;
+  // Bytes to buffer before retrying a block that ran past the input.
+  private retryAt = 0;
+
+  push(chunk: Uint8Array): Uint8Array[] {
+    const merged = new Uint8Array(this.pending.length + chunk.length);
+    merged.set(this.pending);
+    merged.set(chunk, this.pending.length);
+    this.pending = merged;
+    return this.pending.length >= this.retryAt ? this.drain(false) : [];
+  }
+
+  finish(): Uint8Array[] {
+    const blocks = this.drain(true);
+    if (this.maxBlockSize) {
+      throw new Error('Unexpected end of bzip2 data.');
+    }
+    return blocks;
+  }
+
+  private drain(final: boolean): Uint8Array[] {
+    const blocks: Uint8Array[] = [];
+    while (this.pending.length) {
+      const reader = new BitReader(this.pending);
+      try {
+        const block = this.step(reader);
+        if (block) {
+          blocks.push(block);
+        }
+      } catch (error) {
+        if (!(error instanceof NeedMoreInput)) {
+          throw error;
+        }
+        if (final) {
+          throw new Error('Unexpected end of bzip2 data.');
+        }
+        this.retryAt = this.pending.length * 2;
+        return blocks;
+      }
+      this.pending = this.pending.slice(reader.position >>> 3);
+      this.retryAt = 0;
+    }
+    return blocks;
+  }
+
+  /**
+   * Consumes one unit (a stream header, a block or an end-of-stream marker)
+   * and leaves the reader on a byte boundary so the caller can drop the bytes
+   * before it. A partly used last byte is kept and skipped via `bitOffset`.
+   */
+  private step(reader: BitReader): Uint8Array | null {
+    if (!this.maxBlockSize) {
+      const signature = [reader.read(8), reader.read(8), reader.read(8)];
+      const level = reader.read(8) - 0x30;
+      if (signature[0] !== 0x42 || signature[1] !== 0x5a || signature[2] !== 0x68) {
+        throw new Error('Not a bzip2 stream.');
+      }
+      if (level < 1 || level > 9) {
+        throw new Error('Corrupt bzip2 data: invalid block size.');
+      }
+      this.maxBlockSize = level * 100_000;
+      this.streamCrc = 0;
+      this.bitOffset = 0;
+      return null;
+    }
+
+    reader.position = this.bitOffset;
+    if (matchesMagic(reader, END_MAGIC)) {
+      const expected = reader.read32();
+      if (expected !== this.streamCrc) {
+        throw new Error('Corrupt bzip2 data: stream checksum mismatch.');
+      }
+      reader.alignToByte();
+      this.maxBlockSize = 0;
+      return null;
+    }
+    if (!matchesMagic(reader, BLOCK_MAGIC)) {
+      throw new Error('Corrupt bzip2 data: missing block header.');
+    }
+
+    const { bytes, crc } = decodeBlock(reader, this.maxBlockSize);
+    this.streamCrc = (((this.streamCrc << 1) | (this.streamCrc >>> 31)) ^ crc) >>> 0;
+    this.bitOffset = reader.position & 7;
+    reader.position &= ~7;
+    return bytes;
+  }
+}
+
+export const createBzip2DecompressionStream = (): TransformStream<Uint8Array, Uint8Array> => {
+  const decoder = new Bzip2Decoder();
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      for (const block of decoder.push(chunk)) {
+        controller.enqueue(block);
+      }
+    },
+    flush(controller) {
+      for (const block of decoder.finish()) {
+        controller.enqueue(block);
+      }
+    }
+  });
+};
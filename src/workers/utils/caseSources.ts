@@ -0,0 +1,52 @@
+import type { DatasetFingerprint } from '../datasetFingerprint';
+import type { CaseFile } from '../workerApiTypes';
+
+const INGESTIBLE_FILE_PATTERN = /\.(csv|tsv|jsonl|ndjson)(\.(g?z(ip)?|bz2|zst))?$/i;
+
+export const isIngestibleFileName = (fileName: string): boolean =>
+  INGESTIBLE_FILE_PATTERN.test(fileName);
+
+/**
+ * Walk a directory (KAPE/EZ tools output trees nest one folder per artefact)
+ * and return every file the ingestion pipeline can parse, named by its path
+ * relative to the directory and sorted so repeated loads keep the same order.
+ */
+export const collectDirectoryFiles = async (
+  directory: FileSystemDirectoryHandle,
+  prefix = ''
+): Promise<CaseFile[]> => {
+  const files: CaseFile[] = [];
+  const entries = directory.entries?.();
+  if (!entries) {
+    return files;
+  }
+
+  for await (const [name, handle] of entries) {
+    const path = `${prefix}${name}`;
+    if (handle.kind === 'directory') {
+      files.push(
+        ...(await collectDirectoryFiles(handle as FileSystemDirectoryHandle, `${path}/`))
+      );
+    } else if (isIngestibleFileName(name)) {
+      files.push({ handle: handle as FileSystemFileHandle, name: path });
+    }
+  }
+
+  return files.sort((left, right) => (left.name! < right.name! ? -1 : 1));
+};
+
+/**
+ * Fingerprint for a whole multi-file load, used to key its row cache. Tags are
+ * keyed per file instead so they survive loading the same file in another set.
+ */
+export const buildCaseFingerprint = (fingerprints: DatasetFingerprint[]): DatasetFingerprint => {
+  const first = fingerprints[0]?.fileName ?? 'case';
+  return {
+    fileName: `case-${fingerprints.length}-${first}`,
+    fileSize: fingerprints.reduce((total, fingerprint) => total + fingerprint.fileSize, 0),
+    lastModified: fingerprints.reduce(
+      (latest, fingerprint) => Math.max(latest, fingerprint.lastModified),
+      0
+    )
+  };
+};
@@ -0,0 +1,382 @@
+import type {
+  BooleanColumnBatch,
+  ColumnBatch,
+  ColumnInference,
+  ColumnType,
+  ColumnTypeOverride,
+  DatetimeColumnBatch,
+  NumberColumnBatch,
+  StringColumnBatch
+} from '../types';
+import { analyzeValue, type TypeInferencer } from '../typeInference';
+import { compileDatetimeFormat, type DatetimeFormatParser } from './datetimeFormat';
+import { getTimestampDecoder } from './timestampDecoders';
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const createStringColumnBatch = (values: string[]): StringColumnBatch => {
+  const encodedValues: Uint8Array[] = new Array(values.length);
+  const offsets = new Uint32Array(values.length + 1);
+  let byteOffset = 0;
+
+  for (let index = 0; index < values.length; index += 1) {
+    const encoded = textEncoder.encode(values[index] ?? '');
+    encodedValues[index] = encoded;
+    byteOffset += encoded.byteLength;
+    offsets[index + 1] = byteOffset;
+  }
+
+  const data = new ArrayBuffer(byteOffset);
+  const dataView = new Uint8Array(data);
+
+  let writeOffset = 0;
+  for (const encoded of encodedValues) {
+    dataView.set(encoded, writeOffset);
+    writeOffset += encoded.byteLength;
+  }
+
+  return {
+    type: 'string',
+    data,
+    offsets
+  };
+};
+
+const createBooleanColumnBatch = (values: string[]): BooleanColumnBatch => {
+  const data = new Uint8Array(values.length);
+  const nullMask = new Uint8Array(values.length);
+  let hasNull = false;
+
+  for (let index = 0; index < values.length; index += 1) {
+    const analysis = analyzeValue(values[index] ?? '');
+    if (analysis.kind === 'null') {
+      nullMask[index] = 1;
+      hasNull = true;
+      continue;
+    }
+
+    if (analysis.kind === 'boolean') {
+      data[index] = analysis.booleanValue ? 1 : 0;
+    } else {
+      nullMask[index] = 1;
+      hasNull = true;
+    }
+  }
+
+  return {
+    type: 'boolean',
+    data,
+    nullMask: hasNull ? nullMask : undefined
+  };
+};
+
+const createNumberColumnBatch = (values: string[]): NumberColumnBatch => {
+  const data = new Float64Array(values.length);
+  const nullMask = new Uint8Array(values.length);
+  let hasNull = false;
+
+  for (let index = 0; index < values.length; index += 1) {
+    const analysis = analyzeValue(values[index] ?? '');
+    if (analysis.kind === 'null') {
+      nullMask[index] = 1;
+      hasNull = true;
+      continue;
+    }
+
+    if (analysis.kind === 'number') {
+      data[index] = analysis.numberValue ?? Number.NaN;
+    } else {
+      nullMask[index] = 1;
+      hasNull = true;
+    }
+  }
+
+  return {
+    type: 'number',
+    data,
+    nullMask: hasNull ? nullMask : undefined
+  };
+};
+
+/**
+ * Parser for the decoder or format an override names; null when it names
+ * neither. Throws an `Error` for an unknown decoder or format directive.
+ */
+export const createDatetimeParser = (
+  override: Pick<ColumnTypeOverride, 'datetimeFormat' | 'timestampDecoder'>
+): DatetimeFormatParser | null => {
+  if (override.timestampDecoder) {
+    const decoder = getTimestampDecoder(override.timestampDecoder);
+    if (!decoder) {
+      throw new Error(`Unknown timestamp decoder "${override.timestampDecoder}".`);
+    }
+    return decoder.decode;
+  }
+  return override.datetimeFormat ? compileDatetimeFormat(override.datetimeFormat) : null;
+};
+
+const createDatetimeColumnBatch = (
+  values: string[],
+  timeZone?: string,
+  parse: DatetimeFormatParser | null = null
+): DatetimeColumnBatch => {
+  const data = new Float64Array(values.length);
+  const nullMask = new Uint8Array(values.length);
+  let hasNull = false;
+
+  for (let index = 0; index < values.length; index += 1) {
+    if (parse) {
+      const value = parse(values[index] ?? '', timeZone);
+      data[index] = value;
+      if (Number.isNaN(value)) {
+        nullMask[index] = 1;
+        hasNull = true;
+      }
+      continue;
+    }
+
+    const analysis = analyzeValue(values[index] ?? '', { timeZone });
+    if (analysis.kind === 'null') {
+      nullMask[index] = 1;
+      hasNull = true;
+      continue;
+    }
+
+    if (analysis.kind === 'datetime') {
+      data[index] = analysis.datetimeValue ?? Number.NaN;
+    } else if (analysis.kind === 'number') {
+      data[index] = analysis.numberValue ?? Number.NaN;
+    } else {
+      nullMask[index] = 1;
+      hasNull = true;
+    }
+  }
+
+  return {
+    type: 'datetime',
+    data,
+    nullMask: hasNull ? nullMask : undefined
+  };
+};
+
+export const buildColumnsFromBuilders = (
+  header: string[],
+  columnValues: string[][],
+  inferencer: TypeInferencer | null,
+  sourceTimeZones: Record<string, string> = {}
+): {
+  columns: Record<string, ColumnBatch>;
+  columnTypes: Record<string, ColumnType>;
+  columnInference: Record<string, ColumnInference>;
+} => {
+  const columnTypes: Record<string, ColumnType> = {};
+  const columns: Record<string, ColumnBatch> = {};
+  const columnInference: Record<string, ColumnInference> = {};
+
+  for (let colIndex = 0; colIndex < header.length; colIndex += 1) {
+    const columnName = header[colIndex];
+    const values = columnValues[colIndex] ?? [];
+    const inference = inferencer ? inferencer.resolve(columnName) : null;
+    const targetType = inference?.type ?? 'string';
+
+    let column: ColumnBatch;
+    if (targetType === 'number') {
+      column = createNumberColumnBatch(values);
+    } else if (targetType === 'boolean') {
+      column = createBooleanColumnBatch(values);
+    } else if (targetType === 'datetime') {
+      column = createDatetimeColumnBatch(
+        values,
+        sourceTimeZones[columnName],
+        inference ? createDatetimeParser(inference) : null
+      );
+    } else {
+      column = createStringColumnBatch(values);
+    }
+    if (column.type !== 'string') {
+      column.sourceText = createStringColumnBatch(values);
+    }
+
+    columns[columnName] = column;
+    columnTypes[columnName] = targetType;
+    columnInference[columnName] =
+      inference ?? {
+        type: 'string',
+        confidence: targetType === 'string' ? 1 : 0,
+        samples: 0,
+        nullCount: 0,
+        examples: []
+      };
+  }
+
+  return { columns, columnTypes, columnInference };
+};
+
+/** Appends rows one at a time into a typed column; used by readers of typed sources. */
+export interface ColumnBatchBuilder {
+  appendNull(): void;
+  /** Copies row `index` of a batch of the same type. */
+  appendFrom(source: ColumnBatch, index: number): void;
+  finish(): ColumnBatch;
+}
+
+export const createColumnBatchBuilder = (
+  type: ColumnType,
+  capacity: number
+): ColumnBatchBuilder => {
+  let length = 0;
+
+  if (type === 'string') {
+    const offsets = new Uint32Array(capacity + 1);
+    let data = new Uint8Array(Math.max(64, capacity * 8));
+    let lastSource: StringColumnBatch | null = null;
+    let lastBytes = new Uint8Array(0);
+    return {
+      // The text parsers load empty cells as empty strings, so nulls do too.
+      appendNull() {
+        length += 1;
+        offsets[length] = offsets[length - 1]!;
+      },
+      appendFrom(source, index) {
+        const column = source as StringColumnBatch;
+        if (column !== lastSource) {
+          lastSource = column;
+          lastBytes = new Uint8Array(column.data);
+        }
+        const start = column.offsets[index]!;
+        const end = column.offsets[index + 1]!;
+        const size = offsets[length]!;
+        if (size + end - start > data.length) {
+          const grown = new Uint8Array(Math.max(size + end - start, data.length * 2));
+          grown.set(data.subarray(0, size));
+          data = grown;
+        }
+        data.set(lastBytes.subarray(start, end), size);
+        length += 1;
+        offsets[length] = size + end - start;
+      },
+      finish: () => ({
+        type: 'string',
+        data: data.buffer.slice(0, offsets[length]!),
+        offsets: offsets.slice(0, length + 1)
+      })
+    };
+  }
+
+  const data = type === 'boolean' ? new Uint8Array(capacity) : new Float64Array(capacity);
+  const nullMask = new Uint8Array(capacity);
+  let hasNull = false;
+  const appendNull = () => {
+    nullMask[length] = 1;
+    hasNull = true;
+    length += 1;
+  };
+  return {
+    appendNull,
+    appendFrom(source, index) {
+      if (source.nullMask?.[index] === 1) {
+        appendNull();
+        return;
+      }
+      data[length] = (source as NumberColumnBatch | BooleanColumnBatch).data[index]!;
+      length += 1;
+    },
+    finish: () =>
+      ({
+        type,
+        data: data.slice(0, length),
+        nullMask: hasNull ? nullMask.slice(0, length) : undefined
+      }) as ColumnBatch
+  };
+};
+
+/** Copies rows `start` (inclusive) to `end` (exclusive) into a standalone batch. */
+export const sliceColumnBatch = (column: ColumnBatch, start: number, end: number): ColumnBatch => {
+  if (column.type === 'string') {
+    const base = column.offsets[start]!;
+    return {
+      type: 'string',
+      data: column.data.slice(base, column.offsets[end]!),
+      offsets: column.offsets.slice(start, end + 1).map((offset) => offset - base)
+    };
+  }
+
+  const nullMask = column.nullMask?.slice(start, end);
+  const sliced = {
+    ...column,
+    data: column.data.slice(start, end),
+    nullMask: nullMask?.includes(1) ? nullMask : undefined
+  } as Exclude<ColumnBatch, StringColumnBatch>;
+  if (column.sourceText) {
+    sliced.sourceText = sliceColumnBatch(column.sourceText, start, end) as StringColumnBatch;
+  }
+  return sliced;
+};
+
+/** Text of one cell as the text parsers would have read it; nulls are empty. */
+export const formatColumnBatchCell = (column: ColumnBatch, index: number): string => {
+  if (column.nullMask?.[index] === 1) {
+    return '';
+  }
+  switch (column.type) {
+    case 'string': {
+      const start = column.offsets[index]!;
+      return textDecoder.decode(
+        new Uint8Array(column.data, start, column.offsets[index + 1]! - start)
+      );
+    }
+    case 'boolean':
+      return column.data[index] === 1 ? 'true' : 'false';
+    case 'datetime': {
+      const date = new Date(column.data[index]!);
+      return Number.isNaN(date.getTime()) ? '' : date.toISOString().replace('.000', '');
+    }
+    default:
+      return String(column.data[index]);
+  }
+};
+
+/** Cell text of every row: the source text where kept, else as {@link formatColumnBatchCell}. */
+export const readColumnBatchText = (column: ColumnBatch): string[] => {
+  const text = column.type === 'string' ? column : column.sourceText;
+  const rowCount = column.type === 'string' ? column.offsets.length - 1 : column.data.length;
+  const values = new Array<string>(rowCount);
+  for (let index = 0; index < rowCount; index += 1) {
+    values[index] = formatColumnBatchCell(text ?? column, index);
+  }
+  return values;
+};
+
+/**
+ * Rebuilds a stored column as `override.type` from its cell text, the way the
+ * text parsers would have stored it had inference picked that type. Cells
+ * that do not convert become nulls; the text stays available for the next
+ * override.
+ */
+export const coerceColumnBatch = (
+  column: ColumnBatch,
+  override: ColumnTypeOverride,
+  timeZone?: string
+): ColumnBatch => {
+  const values = readColumnBatchText(column);
+  const sourceText =
+    column.type === 'string' ? column : (column.sourceText ?? createStringColumnBatch(values));
+
+  let coerced: Exclude<ColumnBatch, StringColumnBatch>;
+  switch (override.type) {
+    case 'string':
+      return sourceText;
+    case 'number':
+      coerced = createNumberColumnBatch(values);
+      break;
+    case 'boolean':
+      coerced = createBooleanColumnBatch(values);
+      break;
+    case 'datetime':
+      coerced = createDatetimeColumnBatch(values, timeZone, createDatetimeParser(override));
+      break;
+  }
+  coerced.sourceText = sourceText;
+  return coerced;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+
+import { compileDatetimeFormat } from './datetimeFormat';
+
+describe('compileDatetimeFormat', () => {
+  it('reads common log timestamp layouts', () => {
+    const apache = compileDatetimeFormat('%d/%b/%Y:%H:%M:%S %z');
+    expect(apache('10/Oct/2023:13:55:36 -0700')).toBe(Date.UTC(2023, 9, 10, 20, 55, 36));
+
+    const us = compileDatetimeFormat('%m/%d/%Y %I:%M:%S %p');
+    expect(us('3/1/2024  12:05:09 AM')).toBe(Date.UTC(2024, 2, 1, 0, 5, 9));
+    expect(us('03/01/2024 1:05:09 pm')).toBe(Date.UTC(2024, 2, 1, 13, 5, 9));
+
+    const syslog = compileDatetimeFormat('%b %e %H:%M:%S');
+    expect(syslog('Mar  7 04:02:01')).toBe(Date.UTC(1970, 2, 7, 4, 2, 1));
+
+    const fraction = compileDatetimeFormat('%Y%m%d%H%M%S.%f');
+    expect(fraction('20240301081530.1234567')).toBe(Date.UTC(2024, 2, 1, 8, 15, 30, 123));
+    expect(compileDatetimeFormat('%s')('1700000000.5')).toBe(1_700_000_000_500);
+    expect(compileDatetimeFormat('%Q')('1700000000123')).toBe(1_700_000_000_123);
+  });
+
+  it('reads naive values in the source zone', () => {
+    const parse = compileDatetimeFormat('%Y-%m-%d %H:%M');
+    expect(parse('2024-07-15 09:00', 'Europe/Paris')).toBe(Date.UTC(2024, 6, 15, 7));
+  });
+
+  it('rejects values that do not fit and formats it cannot read', () => {
+    const parse = compileDatetimeFormat('%Y-%m-%d');
+    expect(parse('2024-04-31')).toBeNaN();
+    expect(parse('2024-13-01')).toBeNaN();
+    expect(parse('2024-01-01 extra')).toBeNaN();
+    expect(compileDatetimeFormat('%I %p')('13 PM')).toBeNaN();
+    expect(() => compileDatetimeFormat('%Y-%q')).toThrow('Unknown datetime format directive "%q".');
+    expect(() => compileDatetimeFormat('%Y%')).toThrow('lone "%"');
+  });
+});
@@ -0,0 +1,165 @@
+import { UTC_TIME_ZONE, zonedWallClockToEpoch } from './timezone';
+
+/**
+ * strftime-style formats for timestamps `Date.parse` cannot read, such as
+ * `%d/%b/%Y:%H:%M:%S %z` (Apache access logs) or `%m/%d/%Y %I:%M:%S %p`.
+ * A space matches any run of whitespace; other characters match themselves.
+ */
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+interface DatetimeFields {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  pm: boolean | null;
+  /** Offset from UTC in minutes; null reads the wall clock in the source zone. */
+  offset: number | null;
+  epoch: number | null;
+}
+
+interface Directive {
+  pattern: string;
+  assign?: (fields: DatetimeFields, text: string) => void;
+}
+
+const monthIndex = (text: string): number => MONTHS.indexOf(text.slice(0, 3).toLowerCase()) + 1;
+
+const DIRECTIVES: Record<string, Directive> = {
+  Y: { pattern: '\\d{4}', assign: (fields, text) => (fields.year = Number(text)) },
+  // Two-digit years pivot like POSIX: 69-99 are 19xx, 00-68 are 20xx.
+  y: {
+    pattern: '\\d{2}',
+    assign: (fields, text) => (fields.year = Number(text) + (Number(text) < 69 ? 2000 : 1900))
+  },
+  m: { pattern: '\\d{1,2}', assign: (fields, text) => (fields.month = Number(text)) },
+  b: { pattern: '[A-Za-z]{3}', assign: (fields, text) => (fields.month = monthIndex(text)) },
+  B: { pattern: '[A-Za-z]{3,9}', assign: (fields, text) => (fields.month = monthIndex(text)) },
+  d: { pattern: '\\d{1,2}', assign: (fields, text) => (fields.day = Number(text)) },
+  e: { pattern: ' ?\\d{1,2}', assign: (fields, text) => (fields.day = Number(text)) },
+  H: { pattern: '\\d{1,2}', assign: (fields, text) => (fields.hour = Number(text)) },
+  I: { pattern: '\\d{1,2}', assign: (fields, text) => (fields.hour = Number(text)) },
+  p: {
+    pattern: '[AaPp][Mm]',
+    assign: (fields, text) => (fields.pm = text.toLowerCase() === 'pm')
+  },
+  M: { pattern: '\\d{2}', assign: (fields, text) => (fields.minute = Number(text)) },
+  S: { pattern: '\\d{2}', assign: (fields, text) => (fields.second = Number(text)) },
+  f: {
+    pattern: '\\d{1,9}',
+    assign: (fields, text) => (fields.millisecond = Math.floor(Number(`0.${text}`) * 1_000))
+  },
+  z: {
+    pattern: 'Z|[+-]\\d{2}:?\\d{2}',
+    assign: (fields, text) => {
+      const digits = text.replace(':', '');
+      fields.offset =
+        text === 'Z'
+          ? 0
+          : (digits[0] === '-' ? -1 : 1) *
+            (Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5)));
+    }
+  },
+  a: { pattern: '[A-Za-z]{3}' },
+  A: { pattern: '[A-Za-z]{6,9}' },
+  s: {
+    pattern: '-?\\d+(?:\\.\\d+)?',
+    assign: (fields, text) => (fields.epoch = Number(text) * 1_000)
+  },
+  Q: { pattern: '-?\\d+', assign: (fields, text) => (fields.epoch = Number(text)) },
+  '%': { pattern: '%' }
+};
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Reads one value; returns `NaN` when it does not match the format. */
+export type DatetimeFormatParser = (raw: string, timeZone?: string) => number;
+
+const compiled = new Map<string, DatetimeFormatParser>();
+
+const buildParser = (format: string): DatetimeFormatParser => {
+  let source = '';
+  const assigners: NonNullable<Directive['assign']>[] = [];
+  for (let index = 0; index < format.length; index += 1) {
+    const char = format[index]!;
+    if (char !== '%') {
+      source += /\s/.test(char) ? '\\s+' : escapeRegex(char);
+      continue;
+    }
+    const name = format[index + 1];
+    const directive = name == null ? undefined : DIRECTIVES[name];
+    if (!directive) {
+      throw new Error(
+        name == null
+          ? 'The datetime format ends with a lone "%".'
+          : `Unknown datetime format directive "%${name}".`
+      );
+    }
+    index += 1;
+    if (directive.assign) {
+      source += `(${directive.pattern})`;
+      assigners.push(directive.assign);
+    } else {
+      source += `(?:${directive.pattern})`;
+    }
+  }
+  const pattern = new RegExp(`^${source.replace(/(?:\\s\+)+/g, '\\s+')}$`);
+
+  return (raw, timeZone = UTC_TIME_ZONE) => {
+    const match = pattern.exec(raw.trim());
+    if (!match) {
+      return Number.NaN;
+    }
+    const fields: DatetimeFields = {
+      year: 1970,
+      month: 1,
+      day: 1,
+      hour: 0,
+      minute: 0,
+      second: 0,
+      millisecond: 0,
+      pm: null,
+      offset: null,
+      epoch: null
+    };
+    assigners.forEach((assign, group) => assign(fields, match[group + 1]!.trim()));
+    if (fields.epoch != null) {
+      return fields.epoch;
+    }
+    if (fields.pm != null) {
+      if (fields.hour < 1 || fields.hour > 12) {
+        return Number.NaN;
+      }
+      fields.hour = (fields.hour % 12) + (fields.pm ? 12 : 0);
+    }
+    const { year, month, day, hour, minute, second } = fields;
+    if (month < 1 || month > 12 || hour > 23 || minute > 59 || second > 59) {
+      return Number.NaN;
+    }
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second, fields.millisecond);
+    // Date.UTC rolls 31 April over into May; such dates do not exist.
+    if (day < 1 || new Date(wallClock).getUTCDate() !== day) {
+      return Number.NaN;
+    }
+    return fields.offset != null
+      ? wallClock - fields.offset * 60_000
+      : zonedWallClockToEpoch(wallClock, timeZone);
+  };
+};
+
+/**
+ * Compiles `format` once; throws an `Error` naming an unknown directive. The
+ * parser reads naive timestamps in `timeZone` unless the format has `%z`.
+ */
+export const compileDatetimeFormat = (format: string): DatetimeFormatParser => {
+  let parser = compiled.get(format);
+  if (!parser) {
+    parser = buildParser(format);
+    compiled.set(format, parser);
+  }
+  return parser;
+};
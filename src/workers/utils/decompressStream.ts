@@ -0,0 +1,41 @@
+import { createBzip2DecompressionStream } from './bzip2';
+import { createZstdDecompressionStream } from './zstd';
+
+export type StreamCompression = 'gzip' | 'deflate-raw' | 'bzip2' | 'zstd';
+
+/**
+ * Pipe a byte stream through the matching decompressor. gzip and deflate use
+ * the browser's `DecompressionStream`; bzip2 and zstd have no native decoder,
+ * so they go through the bundled streaming implementations.
+ */
+export const decompressStream = (
+  stream: ReadableStream<Uint8Array>,
+  compression: StreamCompression
+): ReadableStream<Uint8Array> => {
+  if (compression === 'bzip2') {
+    return stream.pipeThrough(createBzip2DecompressionStream());
+  }
+  if (compression === 'zstd') {
+    return stream.pipeThrough(createZstdDecompressionStream());
+  }
+
+  const format = compression === 'deflate-raw' ? 'deflate' : compression;
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error(`This browser does not support ${format} decompression.`);
+  }
+
+  try {
+    // The DOM typings declare the writable side as BufferSource, which Uint8Array is.
+    const decompressor = new DecompressionStream(compression) as unknown as ReadableWritablePair<
+      Uint8Array,
+      Uint8Array
+    >;
+    return stream.pipeThrough(decompressor);
+  } catch (error) {
+    throw new Error(
+      error instanceof Error
+        ? `Failed to decompress ${format} stream: ${error.message}`
+        : `Failed to decompress ${format} stream`
+    );
+  }
+};
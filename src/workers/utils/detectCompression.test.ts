@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest';
 
-import { detectCompression } from './detectCompression';
+import { detectCompression, sniffCompression } from './detectCompression';
+
+const textEncoder = new TextEncoder();
 
 describe('detectCompression', () => {
   it('returns gzip for .csv.gz files', () => {
@@ -11,6 +13,10 @@ describe('detectCompression', () => {
     expect(detectCompression({ fileName: 'events.tsv.gzip' })).toBe('gzip');
   });
 
+  it('returns gzip for .jsonl.gz files', () => {
+    expect(detectCompression({ fileName: 'events.jsonl.gz' })).toBe('gzip');
+  });
+
   it('ignores gzip files without CSV or TSV base extension', () => {
     expect(detectCompression({ fileName: 'data.json.gz' })).toBeNull();
   });
@@ -24,4 +30,31 @@ describe('detectCompression', () => {
   it('returns null for plain csv files', () => {
     expect(detectCompression({ fileName: 'metrics.csv' })).toBeNull();
   });
+
+  it('recognises bzip2, zstd and zip archives by extension or MIME type', () => {
+    expect(detectCompression({ fileName: 'events.csv.bz2' })).toBe('bzip2');
+    expect(detectCompression({ fileName: 'events.ndjson.zst' })).toBe('zstd');
+    expect(detectCompression({ fileName: 'Collection.ZIP' })).toBe('zip');
+    expect(detectCompression({ fileName: 'export', mimeType: 'application/zstd' })).toBe('zstd');
+  });
+
+  it('lets magic bytes override a misleading name', () => {
+    const header = (...bytes: number[]) => Uint8Array.from(bytes);
+
+    expect(detectCompression({ fileName: 'events.csv', header: header(0x1f, 0x8b, 8, 0) })).toBe(
+      'gzip'
+    );
+    expect(
+      detectCompression({ fileName: 'events.csv.gz', header: header(0x74, 0x69, 0x6d, 0x65) })
+    ).toBeNull();
+    expect(sniffCompression(header(0x42, 0x5a, 0x68, 0x39))).toBe('bzip2');
+    expect(sniffCompression(header(0x42, 0x5a, 0x68, 0x31))).toBe('bzip2');
+    // "BZhost,user" is text: bzip2 needs a block size digit after "BZh".
+    expect(sniffCompression(textEncoder.encode('BZhost,user'))).toBeNull();
+    expect(sniffCompression(header(0x42, 0x5a, 0x68, 0x30))).toBeNull();
+    expect(sniffCompression(header(0x28, 0xb5, 0x2f, 0xfd))).toBe('zstd');
+    expect(sniffCompression(header(0x50, 0x4b, 0x03, 0x04))).toBe('zip');
+    // Too few bytes to decide, so the name is used.
+    expect(detectCompression({ fileName: 'a.csv.gz', header: header(0x61) })).toBe('gzip');
+  });
 });
@@ -1,26 +1,87 @@
-export type CompressionKind = 'gzip' | null;
+export type CompressionKind = 'gzip' | 'bzip2' | 'zstd' | 'zip' | null;
 
-const CSV_OR_TSV_GZIP_PATTERN = /\.(csv|tsv)\.g?z(ip)?$/i;
+const TEXT_GZIP_PATTERN = /\.(csv|tsv|jsonl|ndjson)\.g?z(ip)?$/i;
+const TEXT_BZIP2_PATTERN = /\.(csv|tsv|jsonl|ndjson)\.bz2$/i;
+const TEXT_ZSTD_PATTERN = /\.(csv|tsv|jsonl|ndjson)\.zst$/i;
+const ZIP_PATTERN = /\.zip$/i;
+
+const MIME_TYPES: Record<string, Exclude<CompressionKind, null>> = {
+  'application/gzip': 'gzip',
+  'application/x-gzip': 'gzip',
+  'application/x-bzip2': 'bzip2',
+  'application/zstd': 'zstd',
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip'
+};
+
+/** A byte, or the inclusive range a byte must fall in. */
+type MagicByte = number | [min: number, max: number];
+
+const MAGIC_BYTES: Array<[Exclude<CompressionKind, null>, MagicByte[]]> = [
+  ['gzip', [0x1f, 0x8b]],
+  // "BZh" and a block size level from '1' to '9'; plain text may well start with "BZh".
+  ['bzip2', [0x42, 0x5a, 0x68, [0x31, 0x39]]],
+  ['zstd', [0x28, 0xb5, 0x2f, 0xfd]],
+  ['zip', [0x50, 0x4b, 0x03, 0x04]],
+  // An archive with no entries only holds its end-of-central-directory record.
+  ['zip', [0x50, 0x4b, 0x05, 0x06]]
+];
+
+/** Number of leading bytes `sniffCompression` needs to recognise every format. */
+export const COMPRESSION_SNIFF_BYTES = 4;
+
+/** Recognise a compressed container from the first bytes of a file. */
+export const sniffCompression = (header: Uint8Array): CompressionKind => {
+  const match = MAGIC_BYTES.find(([, magic]) =>
+    magic.every((expected, index) => {
+      const byte = header[index];
+      if (byte === undefined) {
+        return false;
+      }
+      return typeof expected === 'number'
+        ? byte === expected
+        : byte >= expected[0] && byte <= expected[1];
+    })
+  );
+  return match ? match[0] : null;
+};
 
 /**
  * Determine whether a file should be decompressed before parsing.
- * The worker may receive files without type metadata, so we fall back to
- * filename heuristics that match the extensions listed in PRD §4.1.
+ * Magic bytes decide when the caller has read them, so misnamed files still
+ * open. Otherwise the worker may receive files without type metadata, so we
+ * fall back to filename heuristics that match the extensions listed in PRD §4.1.
  */
 export const detectCompression = (params: {
   fileName?: string;
   mimeType?: string;
+  header?: Uint8Array;
 }): CompressionKind => {
-  const { fileName, mimeType } = params;
+  const { fileName, mimeType, header } = params;
+
+  // Every supported format has a signature, so bytes without one are plain.
+  if (header && header.length >= COMPRESSION_SNIFF_BYTES) {
+    return sniffCompression(header);
+  }
 
-  if (mimeType && mimeType.toLowerCase() === 'application/gzip') {
-    return 'gzip';
+  const mimeCompression = mimeType ? MIME_TYPES[mimeType.toLowerCase()] : undefined;
+  if (mimeCompression) {
+    return mimeCompression;
   }
 
   if (fileName) {
-    if (CSV_OR_TSV_GZIP_PATTERN.test(fileName)) {
+    if (TEXT_GZIP_PATTERN.test(fileName)) {
       return 'gzip';
     }
+    if (TEXT_BZIP2_PATTERN.test(fileName)) {
+      return 'bzip2';
+    }
+    if (TEXT_ZSTD_PATTERN.test(fileName)) {
+      return 'zstd';
+    }
+    if (ZIP_PATTERN.test(fileName)) {
+      return 'zip';
+    }
   }
 
   return null;
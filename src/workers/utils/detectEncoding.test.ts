@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import { detectEncoding, encodedByteLength, resolveSourceEncoding } from './detectEncoding';
+
+const utf16 = (text: string, endianness: 'le' | 'be'): Uint8Array => {
+  const bytes = new Uint8Array(text.length * 2);
+  for (let index = 0; index < text.length; index += 1) {
+    const unit = text.charCodeAt(index);
+    bytes[index * 2 + (endianness === 'le' ? 0 : 1)] = unit & 0xff;
+    bytes[index * 2 + (endianness === 'le' ? 1 : 0)] = unit >> 8;
+  }
+  return bytes;
+};
+
+describe('detectEncoding', () => {
+  it('trusts byte order marks', () => {
+    expect(detectEncoding(Uint8Array.of(0xef, 0xbb, 0xbf, 0x61))).toBe('utf-8');
+    expect(detectEncoding(Uint8Array.of(0xff, 0xfe, 0x61, 0x00))).toBe('utf-16le');
+    expect(detectEncoding(Uint8Array.of(0xfe, 0xff, 0x00, 0x61))).toBe('utf-16be');
+  });
+
+  it('recognises UTF-16 without a BOM from its zero bytes', () => {
+    expect(detectEncoding(utf16('"Id","Name"\r\n"4","System"\r\n', 'le'))).toBe('utf-16le');
+    expect(detectEncoding(utf16('"Id","Name"\r\n"4","System"\r\n', 'be'))).toBe('utf-16be');
+  });
+
+  it('falls back to Windows-1252 when the bytes are not valid UTF-8', () => {
+    const utf8 = new TextEncoder().encode('user,city\nzoë,Montréal\n');
+    // "café" as written by a Windows-1252 export.
+    const legacy = Uint8Array.of(0x63, 0x61, 0x66, 0xe9, 0x0a);
+
+    expect(detectEncoding(utf8)).toBe('utf-8');
+    expect(detectEncoding(utf8.subarray(0, utf8.byteLength - 12))).toBe('utf-8');
+    expect(detectEncoding(legacy)).toBe('windows-1252');
+  });
+});
+
+describe('encodedByteLength', () => {
+  it('counts bytes per code point in each encoding', () => {
+    const emoji = '😀'.codePointAt(0)!;
+
+    expect([0x61, 0xe9, 0x6771, emoji].map((cp) => encodedByteLength(cp, 'utf-8'))).toEqual([
+      1, 2, 3, 4
+    ]);
+    expect([0x61, 0x6771, emoji].map((cp) => encodedByteLength(cp, 'utf-16be'))).toEqual([
+      2, 2, 4
+    ]);
+    expect(encodedByteLength(0x20ac, 'windows-1252')).toBe(1);
+  });
+});
+
+describe('resolveSourceEncoding', () => {
+  it('sniffs the head of a stream without consuming it', async () => {
+    const bytes = utf16('﻿a,b\r\n1,2\r\n', 'le');
+    const source = {
+      async *[Symbol.asyncIterator]() {
+        for (let offset = 0; offset < bytes.byteLength; offset += 3) {
+          yield bytes.subarray(offset, offset + 3);
+        }
+      }
+    };
+
+    const { encoding, chunks } = await resolveSourceEncoding(source);
+    const seen: number[] = [];
+    for await (const chunk of chunks) {
+      seen.push(...chunk);
+    }
+
+    expect(encoding).toBe('utf-16le');
+    expect(seen).toEqual(Array.from(bytes));
+    expect((await resolveSourceEncoding(source, 'windows-1252')).encoding).toBe('windows-1252');
+  });
+});
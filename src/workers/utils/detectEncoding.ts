@@ -0,0 +1,161 @@
+export type SourceEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export const SOURCE_ENCODINGS: readonly SourceEncoding[] = [
+  'utf-8',
+  'utf-16le',
+  'utf-16be',
+  'windows-1252'
+];
+
+export const ENCODING_LABELS: Record<SourceEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16LE',
+  'utf-16be': 'UTF-16BE',
+  'windows-1252': 'Windows-1252'
+};
+
+/** Bytes buffered from the start of a source before its encoding is guessed. */
+export const ENCODING_SNIFF_BYTES = 16 * 1024;
+
+/** Share of code units whose high byte is zero above which BOM-less text is read as UTF-16. */
+const UTF16_ZERO_RATIO = 0.3;
+
+/** Byte order mark of each encoding that has one. */
+export const BYTE_ORDER_MARKS: Partial<Record<SourceEncoding, readonly number[]>> = {
+  'utf-8': [0xef, 0xbb, 0xbf],
+  'utf-16le': [0xff, 0xfe],
+  'utf-16be': [0xfe, 0xff]
+};
+
+export const startsWithBytes = (bytes: Uint8Array, prefix: readonly number[]): boolean =>
+  bytes.byteLength >= prefix.length && prefix.every((value, index) => bytes[index] === value);
+
+const isValidUtf8 = (sample: Uint8Array): boolean => {
+  try {
+    // Streaming mode leaves a multi-byte sequence cut off by the sample end pending.
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Guesses the text encoding of a source from its first bytes. A byte order
+ * mark wins; otherwise text whose even or odd bytes are mostly zero is read as
+ * UTF-16, and anything that is not valid UTF-8 falls back to Windows-1252.
+ */
+export const detectEncoding = (sample: Uint8Array): SourceEncoding => {
+  for (const encoding of SOURCE_ENCODINGS) {
+    const bom = BYTE_ORDER_MARKS[encoding];
+    if (bom && startsWithBytes(sample, bom)) {
+      return encoding;
+    }
+  }
+
+  const units = Math.floor(sample.byteLength / 2);
+  if (units > 0) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let index = 0; index < units * 2; index += 2) {
+      if (sample[index] === 0) {
+        evenZeros += 1;
+      }
+      if (sample[index + 1] === 0) {
+        oddZeros += 1;
+      }
+    }
+    if (oddZeros / units >= UTF16_ZERO_RATIO && evenZeros < oddZeros / 4) {
+      return 'utf-16le';
+    }
+    if (evenZeros / units >= UTF16_ZERO_RATIO && oddZeros < evenZeros / 4) {
+      return 'utf-16be';
+    }
+  }
+
+  return isValidUtf8(sample) ? 'utf-8' : 'windows-1252';
+};
+
+/** Width of one line feed, and the alignment of every character boundary, in bytes. */
+export const encodingUnitSize = (encoding: SourceEncoding): number =>
+  encoding === 'utf-16le' || encoding === 'utf-16be' ? 2 : 1;
+
+/** Number of bytes `codePoint` occupies in the source encoding. */
+export const encodedByteLength = (codePoint: number, encoding: SourceEncoding): number => {
+  if (encoding === 'windows-1252') {
+    return 1;
+  }
+  if (encoding !== 'utf-8') {
+    return codePoint > 0xffff ? 4 : 2;
+  }
+  if (codePoint <= 0x7f) {
+    return 1;
+  }
+  if (codePoint <= 0x7ff) {
+    return 2;
+  }
+  if (codePoint <= 0xffff) {
+    return 3;
+  }
+  return 4;
+};
+
+/**
+ * Resolves the encoding of a byte stream, buffering its first
+ * {@link ENCODING_SNIFF_BYTES} when none is given, and returns the stream
+ * unchanged so parsers still see every byte.
+ */
+export const resolveSourceEncoding = async (
+  source: AsyncIterable<Uint8Array>,
+  encoding?: SourceEncoding
+): Promise<{ encoding: SourceEncoding; chunks: AsyncIterable<Uint8Array> }> => {
+  if (encoding) {
+    return { encoding, chunks: source };
+  }
+
+  const iterator = source[Symbol.asyncIterator]();
+  const head: Uint8Array[] = [];
+  let buffered = 0;
+  let exhausted = false;
+  while (buffered < ENCODING_SNIFF_BYTES) {
+    const { value, done } = await iterator.next();
+    if (done) {
+      exhausted = true;
+      break;
+    }
+    head.push(value);
+    buffered += value.byteLength;
+  }
+
+  const sample = new Uint8Array(buffered);
+  let offset = 0;
+  for (const chunk of head) {
+    sample.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return {
+    encoding: detectEncoding(sample.subarray(0, ENCODING_SNIFF_BYTES)),
+    chunks: {
+      async *[Symbol.asyncIterator]() {
+        try {
+          yield* head;
+          if (exhausted) {
+            return;
+          }
+          while (true) {
+            const { value, done } = await iterator.next();
+            if (done) {
+              return;
+            }
+            yield value;
+          }
+        } finally {
+          if (!exhausted) {
+            await iterator.return?.();
+          }
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import { detectSourceFormat } from './detectSourceFormat';
+
+describe('detectSourceFormat', () => {
+  it('detects JSON Lines by extension, including gzip variants', () => {
+    expect(detectSourceFormat({ fileName: 'hayabusa.jsonl' })).toBe('jsonl');
+    expect(detectSourceFormat({ fileName: 'velociraptor.NDJSON' })).toBe('jsonl');
+    expect(detectSourceFormat({ fileName: 'events.jsonl.gz' })).toBe('jsonl');
+  });
+
+  it('falls back to the MIME type when the extension is unknown', () => {
+    expect(detectSourceFormat({ fileName: 'export', mimeType: 'application/x-ndjson' })).toBe(
+      'jsonl'
+    );
+  });
+
+  it('detects Excel workbooks by extension or MIME type', () => {
+    expect(detectSourceFormat({ fileName: 'Prefetch.XLSX' })).toBe('xlsx');
+    expect(
+      detectSourceFormat({
+        fileName: 'export',
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      })
+    ).toBe('xlsx');
+  });
+
+  it('detects Arrow and Parquet files by extension, MIME type or signature', () => {
+    expect(detectSourceFormat({ fileName: 'mft.feather' })).toBe('arrow');
+    expect(detectSourceFormat({ fileName: 'mft.arrow.zst' })).toBe('arrow');
+    expect(detectSourceFormat({ fileName: 'events.PARQUET' })).toBe('parquet');
+    expect(
+      detectSourceFormat({ fileName: 'export', mimeType: 'application/vnd.apache.arrow.file' })
+    ).toBe('arrow');
+
+    const encoder = new TextEncoder();
+    expect(detectSourceFormat({ fileName: 'part-0000', header: encoder.encode('PAR1') })).toBe(
+      'parquet'
+    );
+    expect(detectSourceFormat({ fileName: 'dump.bin', header: encoder.encode('ARROW1') })).toBe(
+      'arrow'
+    );
+    expect(detectSourceFormat({ fileName: 'log.jsonl', header: encoder.encode('PAR1') })).toBe(
+      'jsonl'
+    );
+  });
+
+  it('detects Windows event logs by extension or signature', () => {
+    expect(detectSourceFormat({ fileName: 'Security.evtx' })).toBe('evtx');
+    expect(detectSourceFormat({ fileName: 'System.EVTX.gz' })).toBe('evtx');
+    const header = new TextEncoder().encode('ElfFile\0');
+    expect(detectSourceFormat({ fileName: 'recovered-0001', header })).toBe('evtx');
+  });
+
+  it('detects SQLite databases by extension or signature', () => {
+    expect(detectSourceFormat({ fileName: 'places.sqlite' })).toBe('sqlite');
+    expect(detectSourceFormat({ fileName: 'ActivitiesCache.db' })).toBe('sqlite');
+    const header = new TextEncoder().encode('SQLite format 3\0');
+    expect(detectSourceFormat({ fileName: 'History', header })).toBe('sqlite');
+  });
+
+  it('defaults to delimited text', () => {
+    expect(detectSourceFormat({ fileName: 'timeline.csv', mimeType: 'text/csv' })).toBe(
+      'delimited'
+    );
+    expect(detectSourceFormat({})).toBe('delimited');
+  });
+});
@@ -0,0 +1,109 @@
+export type SourceFormat =
+  | 'delimited'
+  | 'jsonl'
+  | 'xlsx'
+  | 'arrow'
+  | 'parquet'
+  | 'evtx'
+  | 'sqlite'
+  /** Plain-text lines split by a user-chosen log format; never detected. */
+  | 'log';
+
+const JSON_LINES_PATTERN = /\.(jsonl|ndjson)(\.(g?z(ip)?|bz2|zst))?$/i;
+const JSON_LINES_MIME_TYPES = new Set([
+  'application/x-ndjson',
+  'application/ndjson',
+  'application/jsonl',
+  'application/x-jsonlines',
+  'application/jsonlines'
+]);
+const XLSX_PATTERN = /\.xlsx$/i;
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const ARROW_PATTERN = /\.(arrow|feather)(\.(g?z(ip)?|bz2|zst))?$/i;
+const ARROW_MIME_TYPE = 'application/vnd.apache.arrow.file';
+const PARQUET_PATTERN = /\.(parquet|parq)(\.(g?z(ip)?|bz2|zst))?$/i;
+const EVTX_PATTERN = /\.evtx(\.(g?z(ip)?|bz2|zst))?$/i;
+const SQLITE_PATTERN = /\.(sqlite3?|db3?)(\.(g?z(ip)?|bz2|zst))?$/i;
+const ARROW_MAGIC = [0x41, 0x52, 0x52, 0x4f, 0x57, 0x31];
+const PARQUET_MAGIC = [0x50, 0x41, 0x52, 0x31];
+// "ElfFile\0"
+const EVTX_MAGIC = [0x45, 0x6c, 0x66, 0x46, 0x69, 0x6c, 0x65, 0x00];
+// "SQLite format 3\0"
+const SQLITE_MAGIC = [
+  0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66, 0x6f, 0x72, 0x6d, 0x61, 0x74, 0x20, 0x33, 0x00
+];
+
+/** Number of leading bytes `detectSourceFormat` needs to recognise binary formats. */
+export const FORMAT_SNIFF_BYTES = SQLITE_MAGIC.length;
+
+const startsWith = (header: Uint8Array | undefined, magic: number[]): boolean =>
+  header != null && magic.every((byte, index) => header[index] === byte);
+
+/**
+ * Pick the parser used for a file. Extensions win over MIME types because the
+ * File System Access API frequently reports an empty or generic type for
+ * `.jsonl`/`.ndjson` files. When the caller passes the first bytes of an
+ * uncompressed file, the Arrow, Parquet, EVTX and SQLite signatures are recognised as
+ * well, which catches databases saved without an extension such as Chrome's `History`.
+ */
+export const detectSourceFormat = (params: {
+  fileName?: string;
+  mimeType?: string;
+  header?: Uint8Array;
+}): SourceFormat => {
+  const { fileName, mimeType, header } = params;
+
+  if (fileName && JSON_LINES_PATTERN.test(fileName)) {
+    return 'jsonl';
+  }
+
+  if (fileName && XLSX_PATTERN.test(fileName)) {
+    return 'xlsx';
+  }
+
+  if (fileName && ARROW_PATTERN.test(fileName)) {
+    return 'arrow';
+  }
+
+  if (fileName && PARQUET_PATTERN.test(fileName)) {
+    return 'parquet';
+  }
+
+  if (fileName && EVTX_PATTERN.test(fileName)) {
+    return 'evtx';
+  }
+
+  if (fileName && SQLITE_PATTERN.test(fileName)) {
+    return 'sqlite';
+  }
+
+  if (startsWith(header, ARROW_MAGIC)) {
+    return 'arrow';
+  }
+
+  if (startsWith(header, PARQUET_MAGIC)) {
+    return 'parquet';
+  }
+
+  if (startsWith(header, EVTX_MAGIC)) {
+    return 'evtx';
+  }
+
+  if (startsWith(header, SQLITE_MAGIC)) {
+    return 'sqlite';
+  }
+
+  if (mimeType?.toLowerCase() === XLSX_MIME_TYPE) {
+    return 'xlsx';
+  }
+
+  if (mimeType?.toLowerCase() === ARROW_MIME_TYPE) {
+    return 'arrow';
+  }
+
+  if (mimeType && JSON_LINES_MIME_TYPES.has(mimeType.toLowerCase())) {
+    return 'jsonl';
+  }
+
+  return 'delimited';
+};
@@ -0,0 +1,130 @@
+import {
+  BYTE_ORDER_MARKS,
+  encodingUnitSize,
+  startsWithBytes,
+  type SourceEncoding
+} from './detectEncoding';
+
+export interface SourceLine {
+  /** Decoded line without its line break; the byte order mark is dropped from the first. */
+  text: string;
+  /** Offset of the line's first byte within the source. */
+  byteOffset: number;
+  /** Source bytes consumed through the end of the line and its line break. */
+  bytesParsed: number;
+}
+
+const LINE_FEED = 0x0a;
+const CARRIAGE_RETURN = 0x0d;
+
+const concatBytes = (left: Uint8Array, right: Uint8Array): Uint8Array => {
+  const merged = new Uint8Array(left.byteLength + right.byteLength);
+  merged.set(left, 0);
+  merged.set(right, left.byteLength);
+  return merged;
+};
+
+/**
+ * Re-chunks a UTF-16 stream so no chunk splits a code unit, which lets line
+ * feeds be matched one aligned unit at a time.
+ */
+async function* alignToUnits(
+  chunks: AsyncIterable<Uint8Array>,
+  unitSize: number
+): AsyncGenerator<Uint8Array> {
+  let pending: Uint8Array | null = null;
+  for await (const chunk of chunks) {
+    let bytes: Uint8Array = pending ? concatBytes(pending, chunk) : chunk;
+    pending = null;
+    const usable = bytes.byteLength - (bytes.byteLength % unitSize);
+    if (usable < bytes.byteLength) {
+      pending = bytes.slice(usable);
+      bytes = bytes.subarray(0, usable);
+    }
+    if (bytes.byteLength > 0) {
+      yield bytes;
+    }
+  }
+  if (pending) {
+    yield pending;
+  }
+}
+
+/**
+ * Splits a decoded-on-demand byte stream into lines. Line feeds are matched on
+ * raw bytes so every line carries the exact offset of its first byte, which
+ * the line-oriented parsers record as checkpoints. A trailing carriage return
+ * is dropped with the line feed.
+ */
+export async function* readSourceLines(
+  chunks: AsyncIterable<Uint8Array>,
+  encoding: SourceEncoding
+): AsyncGenerator<SourceLine> {
+  const decoder = new TextDecoder(encoding);
+  const unitSize = encodingUnitSize(encoding);
+  const byteOrderMark = BYTE_ORDER_MARKS[encoding];
+  // Position of the significant byte within a UTF-16 code unit.
+  const lowByte = encoding === 'utf-16be' ? 1 : 0;
+  const isUnit = (bytes: Uint8Array, index: number, value: number): boolean =>
+    unitSize === 1
+      ? bytes[index] === value
+      : bytes[index + lowByte] === value && bytes[index + 1 - lowByte] === 0;
+
+  const toLine = (lineBytes: Uint8Array, lineOffset: number, bytesParsed: number): SourceLine => {
+    let bytes = lineBytes;
+    let byteOffset = lineOffset;
+    if (byteOffset === 0 && byteOrderMark && startsWithBytes(bytes, byteOrderMark)) {
+      bytes = bytes.subarray(byteOrderMark.length);
+      byteOffset = byteOrderMark.length;
+    }
+
+    let end = bytes.byteLength;
+    if (end >= unitSize && isUnit(bytes, end - unitSize, CARRIAGE_RETURN)) {
+      end -= unitSize;
+    }
+
+    return { text: decoder.decode(bytes.subarray(0, end)), byteOffset, bytesParsed };
+  };
+
+  let carry: Uint8Array | null = null;
+  let carryOffset = 0;
+  let consumed = 0;
+
+  const alignedChunks = unitSize === 1 ? chunks : alignToUnits(chunks, unitSize);
+  for await (const chunk of alignedChunks) {
+    let lineStart = 0;
+
+    for (let index = 0; index + unitSize <= chunk.byteLength; index += unitSize) {
+      if (!isUnit(chunk, index, LINE_FEED)) {
+        continue;
+      }
+
+      let lineBytes = chunk.subarray(lineStart, index);
+      let lineOffset = consumed + lineStart;
+      if (carry) {
+        lineBytes = concatBytes(carry, lineBytes);
+        lineOffset = carryOffset;
+        carry = null;
+      }
+
+      yield toLine(lineBytes, lineOffset, consumed + index + unitSize);
+      lineStart = index + unitSize;
+    }
+
+    if (lineStart < chunk.byteLength) {
+      const rest = chunk.subarray(lineStart);
+      if (carry) {
+        carry = concatBytes(carry, rest);
+      } else {
+        carry = rest.slice();
+        carryOffset = consumed + lineStart;
+      }
+    }
+
+    consumed += chunk.byteLength;
+  }
+
+  if (carry) {
+    yield toLine(carry, carryOffset, consumed);
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { EVENTS_CSV, EVENTS_CSV_LZ4, fromBase64 } from '../test/compressedFixtures';
+import { decompressLz4Block, decompressLz4Frame } from './lz4';
+
+const text = (bytes: Uint8Array): string => new TextDecoder().decode(bytes);
+
+describe('decompressLz4Frame', () => {
+  it('decodes frames written by the reference encoder', () => {
+    expect(text(decompressLz4Frame(fromBase64(EVENTS_CSV_LZ4)))).toBe(EVENTS_CSV);
+    expect(text(decompressLz4Frame(fromBase64(EVENTS_CSV_LZ4), 16))).toBe(EVENTS_CSV);
+  });
+
+  it('skips skippable frames and keeps stored blocks verbatim', () => {
+    const input = Uint8Array.of(
+      // Skippable frame with two bytes of user data.
+      0x50, 0x2a, 0x4d, 0x18, 2, 0, 0, 0, 9, 9,
+      // Frame with independent blocks and no checksums, holding one stored block.
+      0x04, 0x22, 0x4d, 0x18, 0x60, 0x40, 0x82,
+      3, 0, 0, 0x80, 0x61, 0x62, 0x63,
+      0, 0, 0, 0
+    );
+
+    expect(text(decompressLz4Frame(input))).toBe('abc');
+  });
+
+  it('rejects foreign and truncated input', () => {
+    expect(() => decompressLz4Frame(Uint8Array.of(1, 2, 3, 4, 5))).toThrow(/missing frame magic/);
+    expect(() => decompressLz4Frame(fromBase64(EVENTS_CSV_LZ4).subarray(0, 100))).toThrow(
+      /Corrupt LZ4 data/
+    );
+  });
+});
+
+describe('decompressLz4Block', () => {
+  it('expands overlapping matches', () => {
+    // Literal "ab", then a 6-byte match one byte back, then literal "c".
+    const block = Uint8Array.of(0x22, 0x61, 0x62, 0x01, 0x00, 0x10, 0x63);
+
+    expect(text(decompressLz4Block(block, 9))).toBe('abbbbbbbc');
+    expect(() => decompressLz4Block(block, 10)).toThrow(/decoded to 9 bytes/);
+  });
+});
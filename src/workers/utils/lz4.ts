@@ -0,0 +1,172 @@
+/**
+ * LZ4 decoders for columnar sources: Arrow IPC bodies use the LZ4 frame format
+ * (Feather files written by pandas default to it) and Parquet's `LZ4_RAW`
+ * codec stores bare blocks. Buffers are decoded whole.
+ */
+
+const FRAME_MAGIC = 0x184d2204;
+const SKIPPABLE_MAGIC_MASK = 0xfffffff0;
+const SKIPPABLE_MAGIC = 0x184d2a50;
+const MIN_MATCH = 4;
+
+const corrupt = (reason: string): Error => new Error(`Corrupt LZ4 data: ${reason}.`);
+
+const readUint32 = (input: Uint8Array, position: number): number =>
+  (input[position]! |
+    (input[position + 1]! << 8) |
+    (input[position + 2]! << 16) |
+    (input[position + 3]! << 24)) >>>
+  0;
+
+/** Output buffer that grows on demand when the decoded size is not declared. */
+class Lz4Output {
+  bytes: Uint8Array;
+  length = 0;
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(Math.max(capacity, 64));
+  }
+
+  reserve(extra: number): void {
+    if (this.length + extra <= this.bytes.length) {
+      return;
+    }
+    const grown = new Uint8Array(Math.max(this.length + extra, this.bytes.length * 2));
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+}
+
+/** Reads the 255-continued length extension that follows a saturated nibble. */
+const readLengthExtension = (input: Uint8Array, state: { position: number }): number => {
+  let extra = 0;
+  let byte = 255;
+  while (byte === 255) {
+    if (state.position >= input.length) {
+      throw corrupt('length runs past the block');
+    }
+    byte = input[state.position++]!;
+    extra += byte;
+  }
+  return extra;
+};
+
+/** Appends one block to `output`; matches may reach back into earlier blocks. */
+const decodeBlock = (input: Uint8Array, output: Lz4Output): void => {
+  const state = { position: 0 };
+  while (state.position < input.length) {
+    const token = input[state.position++]!;
+
+    let literalLength = token >>> 4;
+    if (literalLength === 15) {
+      literalLength += readLengthExtension(input, state);
+    }
+    if (state.position + literalLength > input.length) {
+      throw corrupt('literals run past the block');
+    }
+    output.reserve(literalLength);
+    output.bytes.set(input.subarray(state.position, state.position + literalLength), output.length);
+    output.length += literalLength;
+    state.position += literalLength;
+
+    // The last sequence of a block carries literals only.
+    if (state.position >= input.length) {
+      break;
+    }
+
+    if (state.position + 2 > input.length) {
+      throw corrupt('match offset is truncated');
+    }
+    const offset = input[state.position]! | (input[state.position + 1]! << 8);
+    state.position += 2;
+    let matchLength = token & 15;
+    if (matchLength === 15) {
+      matchLength += readLengthExtension(input, state);
+    }
+    matchLength += MIN_MATCH;
+    if (offset === 0 || offset > output.length) {
+      throw corrupt('match points outside the output');
+    }
+
+    output.reserve(matchLength);
+    const bytes = output.bytes;
+    // Matches may overlap their own output, so go byte by byte.
+    for (let index = 0; index < matchLength; index += 1) {
+      bytes[output.length] = bytes[output.length - offset]!;
+      output.length += 1;
+    }
+  }
+};
+
+/** Decodes a bare LZ4 block whose decoded size is known. */
+export const decompressLz4Block = (input: Uint8Array, outputLength: number): Uint8Array => {
+  const output = new Lz4Output(outputLength);
+  decodeBlock(input, output);
+  if (output.length !== outputLength) {
+    throw corrupt(`block decoded to ${output.length} bytes instead of ${outputLength}`);
+  }
+  return output.bytes.subarray(0, output.length);
+};
+
+/**
+ * Decodes concatenated LZ4 frames. `sizeHint` presizes the output when the
+ * caller knows the decoded length. Checksums are skipped rather than verified.
+ */
+export const decompressLz4Frame = (input: Uint8Array, sizeHint = input.length * 4): Uint8Array => {
+  const output = new Lz4Output(sizeHint);
+  let position = 0;
+
+  while (position < input.length) {
+    if (position + 4 > input.length) {
+      throw corrupt('frame is truncated');
+    }
+    const magic = readUint32(input, position);
+    if ((magic & SKIPPABLE_MAGIC_MASK) >>> 0 === SKIPPABLE_MAGIC) {
+      position += 8 + readUint32(input, position + 4);
+      continue;
+    }
+    if (magic !== FRAME_MAGIC) {
+      throw corrupt('missing frame magic');
+    }
+
+    const flags = input[position + 4]!;
+    if (flags >>> 6 !== 1) {
+      throw corrupt('unsupported frame version');
+    }
+    const blockChecksums = (flags & 0x10) !== 0;
+    const contentSize = (flags & 0x08) !== 0;
+    const contentChecksum = (flags & 0x04) !== 0;
+    const dictionaryId = (flags & 0x01) !== 0;
+    // Magic, flags, block descriptor, optional size and dictionary id, header checksum.
+    position += 6 + (contentSize ? 8 : 0) + (dictionaryId ? 4 : 0) + 1;
+
+    let endMark = false;
+    while (!endMark) {
+      if (position + 4 > input.length) {
+        throw corrupt('block header is truncated');
+      }
+      const header = readUint32(input, position);
+      position += 4;
+      if (header === 0) {
+        endMark = true;
+        continue;
+      }
+      const size = header & 0x7fffffff;
+      if (position + size > input.length) {
+        throw corrupt('block runs past the input');
+      }
+      const block = input.subarray(position, position + size);
+      if (header & 0x80000000) {
+        output.reserve(size);
+        output.bytes.set(block, output.length);
+        output.length += size;
+      } else {
+        decodeBlock(block, output);
+      }
+      position += size + (blockChecksums ? 4 : 0);
+    }
+    position += contentChecksum ? 4 : 0;
+  }
+
+  return output.bytes.subarray(0, output.length);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { decompressSnappy } from './snappy';
+
+const text = (bytes: Uint8Array): string => new TextDecoder().decode(bytes);
+
+describe('decompressSnappy', () => {
+  it('decodes literals and every copy tag width', () => {
+    const block = Uint8Array.of(
+      // Decoded length 19.
+      19,
+      // Literal "abcd".
+      0x0c, 0x61, 0x62, 0x63, 0x64,
+      // 1-byte offset copy: 4 bytes from 4 back.
+      0x01, 0x04,
+      // 2-byte offset copy: 5 bytes from 2 back, overlapping its own output.
+      0x12, 0x02, 0x00,
+      // 4-byte offset copy: 2 bytes from 13 back.
+      0x07, 0x0d, 0x00, 0x00, 0x00,
+      // Literal "xyzw".
+      0x0c, 0x78, 0x79, 0x7a, 0x77
+    );
+
+    expect(text(decompressSnappy(block))).toBe('abcdabcdcdcdcabxyzw');
+  });
+
+  it('reads long literal lengths from the bytes after the tag', () => {
+    const payload = 'x'.repeat(100);
+    const block = Uint8Array.of(100, 0xf0, 99, ...new TextEncoder().encode(payload));
+
+    expect(text(decompressSnappy(block))).toBe(payload);
+  });
+
+  it('rejects copies before the start and short blocks', () => {
+    expect(() => decompressSnappy(Uint8Array.of(4, 0x01, 0x01))).toThrow(/outside the output/);
+    expect(() => decompressSnappy(Uint8Array.of(5, 0x04, 0x61, 0x62))).toThrow(/shorter/);
+  });
+});
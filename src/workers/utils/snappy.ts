@@ -0,0 +1,90 @@
+/**
+ * Decoder for raw (unframed) Snappy blocks, the codec Parquet writers use by
+ * default. Pages are small and decompressed whole, so there is no streaming
+ * variant.
+ */
+
+const corrupt = (reason: string): Error => new Error(`Corrupt snappy data: ${reason}.`);
+
+const TAG_LITERAL = 0;
+const TAG_COPY_1 = 1;
+const TAG_COPY_2 = 2;
+
+export const decompressSnappy = (input: Uint8Array): Uint8Array => {
+  let position = 0;
+  let outputLength = 0;
+  for (let shift = 0; ; shift += 7) {
+    if (position >= input.length || shift > 28) {
+      throw corrupt('bad length preamble');
+    }
+    const byte = input[position++]!;
+    outputLength += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) {
+      break;
+    }
+  }
+
+  const output = new Uint8Array(outputLength);
+  let written = 0;
+  while (position < input.length) {
+    const tag = input[position++]!;
+    const kind = tag & 3;
+
+    if (kind === TAG_LITERAL) {
+      let length = tag >>> 2;
+      if (length >= 60) {
+        // Lengths of 61+ bytes follow the tag in 1-4 little-endian bytes.
+        const byteCount = length - 59;
+        length = 0;
+        for (let index = 0; index < byteCount; index += 1) {
+          length += input[position + index]! * 2 ** (8 * index);
+        }
+        position += byteCount;
+      }
+      length += 1;
+      if (position + length > input.length || written + length > outputLength) {
+        throw corrupt('literal overruns the block');
+      }
+      output.set(input.subarray(position, position + length), written);
+      position += length;
+      written += length;
+      continue;
+    }
+
+    let length: number;
+    let offset: number;
+    if (kind === TAG_COPY_1) {
+      length = ((tag >>> 2) & 7) + 4;
+      offset = ((tag >>> 5) << 8) | input[position++]!;
+    } else if (kind === TAG_COPY_2) {
+      length = (tag >>> 2) + 1;
+      offset = input[position]! | (input[position + 1]! << 8);
+      position += 2;
+    } else {
+      length = (tag >>> 2) + 1;
+      offset =
+        (input[position]! |
+          (input[position + 1]! << 8) |
+          (input[position + 2]! << 16) |
+          (input[position + 3]! << 24)) >>>
+        0;
+      position += 4;
+    }
+    if (position > input.length) {
+      throw corrupt('copy tag is truncated');
+    }
+    if (offset === 0 || offset > written || written + length > outputLength) {
+      throw corrupt('copy points outside the output');
+    }
+    // Copies may overlap their own output, so go byte by byte.
+    for (let index = 0; index < length; index += 1) {
+      output[written] = output[written - offset]!;
+      written += 1;
+    }
+  }
+
+  if (written !== outputLength) {
+    throw corrupt('block is shorter than its declared length');
+  }
+  return output;
+};
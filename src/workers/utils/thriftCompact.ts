@@ -0,0 +1,198 @@
+/**
+ * Decoder for the Thrift compact protocol, which Parquet uses for its file
+ * metadata and page headers. Structs are decoded generically into maps keyed
+ * by field id; callers pick out the ids they know from the Thrift IDL.
+ */
+
+export type ThriftValue = number | boolean | Uint8Array | ThriftStruct | ThriftValue[];
+export type ThriftStruct = Map<number, ThriftValue>;
+
+const TYPE_STOP = 0;
+const TYPE_BOOL_TRUE = 1;
+const TYPE_BOOL_FALSE = 2;
+const TYPE_BYTE = 3;
+const TYPE_I16 = 4;
+const TYPE_I32 = 5;
+const TYPE_I64 = 6;
+const TYPE_DOUBLE = 7;
+const TYPE_BINARY = 8;
+const TYPE_LIST = 9;
+const TYPE_SET = 10;
+const TYPE_MAP = 11;
+const TYPE_STRUCT = 12;
+const MAX_DEPTH = 64;
+
+const corrupt = (reason: string): Error => new Error(`Corrupt Thrift metadata: ${reason}.`);
+
+class CompactReader {
+  position: number;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    offset: number
+  ) {
+    this.position = offset;
+  }
+
+  byte(): number {
+    if (this.position >= this.bytes.length) {
+      throw corrupt('unexpected end of data');
+    }
+    return this.bytes[this.position++]!;
+  }
+
+  /** Unsigned LEB128; values past 2^53 lose precision, which no field here reaches. */
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (let index = 0; index < 10; index += 1) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+      scale *= 128;
+    }
+    throw corrupt('varint is too long');
+  }
+
+  zigzag(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  binary(): Uint8Array {
+    const length = this.varint();
+    if (this.position + length > this.bytes.length) {
+      throw corrupt('binary field runs past the end of the data');
+    }
+    const value = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return value;
+  }
+
+  double(): number {
+    const value = new DataView(
+      this.bytes.buffer,
+      this.bytes.byteOffset + this.position,
+      8
+    ).getFloat64(0, true);
+    this.position += 8;
+    return value;
+  }
+
+  value(type: number, depth: number): ThriftValue {
+    if (depth > MAX_DEPTH) {
+      throw corrupt('structs are nested too deeply');
+    }
+    switch (type) {
+      case TYPE_BOOL_TRUE:
+        return true;
+      case TYPE_BOOL_FALSE:
+        return false;
+      case TYPE_BYTE:
+        return (this.byte() << 24) >> 24;
+      case TYPE_I16:
+      case TYPE_I32:
+      case TYPE_I64:
+        return this.zigzag();
+      case TYPE_DOUBLE:
+        return this.double();
+      case TYPE_BINARY:
+        return this.binary();
+      case TYPE_LIST:
+      case TYPE_SET:
+        return this.list(depth);
+      case TYPE_MAP:
+        return this.map(depth);
+      case TYPE_STRUCT:
+        return this.struct(depth);
+      default:
+        throw corrupt(`unknown field type ${type}`);
+    }
+  }
+
+  list(depth: number): ThriftValue[] {
+    const header = this.byte();
+    const size = header >>> 4 === 15 ? this.varint() : header >>> 4;
+    const elementType = header & 0x0f;
+    const items: ThriftValue[] = [];
+    for (let index = 0; index < size; index += 1) {
+      // Booleans inside collections take a whole byte each.
+      items.push(
+        elementType === TYPE_BOOL_TRUE || elementType === TYPE_BOOL_FALSE
+          ? this.byte() === 1
+          : this.value(elementType, depth + 1)
+      );
+    }
+    return items;
+  }
+
+  /** Maps do not occur in the Parquet IDL; they are read past and returned as key/value pairs. */
+  map(depth: number): ThriftValue[] {
+    const size = this.varint();
+    if (size === 0) {
+      return [];
+    }
+    const types = this.byte();
+    const items: ThriftValue[] = [];
+    for (let index = 0; index < size; index += 1) {
+      items.push([this.value(types >>> 4, depth + 1), this.value(types & 0x0f, depth + 1)]);
+    }
+    return items;
+  }
+
+  struct(depth: number): ThriftStruct {
+    const fields: ThriftStruct = new Map();
+    let fieldId = 0;
+    for (;;) {
+      const header = this.byte();
+      const type = header & 0x0f;
+      if (type === TYPE_STOP) {
+        return fields;
+      }
+      const delta = header >>> 4;
+      fieldId = delta === 0 ? this.zigzag() : fieldId + delta;
+      fields.set(fieldId, this.value(type, depth + 1));
+    }
+  }
+}
+
+/** Decodes the struct starting at `offset`; `end` is where the next object begins. */
+export const readThriftStruct = (
+  bytes: Uint8Array,
+  offset = 0
+): { struct: ThriftStruct; end: number } => {
+  const reader = new CompactReader(bytes, offset);
+  const struct = reader.struct(0);
+  return { struct, end: reader.position };
+};
+
+export const thriftNumber = (
+  struct: ThriftStruct | undefined,
+  field: number
+): number | undefined => {
+  const value = struct?.get(field);
+  return typeof value === 'number' ? value : undefined;
+};
+
+export const thriftStruct = (
+  struct: ThriftStruct | undefined,
+  field: number
+): ThriftStruct | undefined => {
+  const value = struct?.get(field);
+  return value instanceof Map ? value : undefined;
+};
+
+export const thriftList = (struct: ThriftStruct | undefined, field: number): ThriftValue[] => {
+  const value = struct?.get(field);
+  return Array.isArray(value) ? value : [];
+};
+
+export const thriftBinary = (
+  struct: ThriftStruct | undefined,
+  field: number
+): Uint8Array | undefined => {
+  const value = struct?.get(field);
+  return value instanceof Uint8Array ? value : undefined;
+};
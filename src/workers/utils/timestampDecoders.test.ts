@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getTimestampDecoder,
+  listTimestampDecoders,
+  matchTimestampDecoder,
+  registerTimestampDecoder
+} from './timestampDecoders';
+
+const EXAMPLE_TIME = Date.UTC(2024, 1, 3, 10, 30);
+
+describe('timestampDecoders', () => {
+  it('decodes the example of every built-in encoding', () => {
+    for (const decoder of listTimestampDecoders()) {
+      expect([decoder.id, decoder.decode(decoder.example)]).toEqual([decoder.id, EXAMPLE_TIME]);
+    }
+    expect(getTimestampDecoder('filetime')!.decode('0x01DA568BF0B9C400')).toBe(EXAMPLE_TIME);
+    expect(getTimestampDecoder('cocoa')!.decode('728649000.25')).toBe(EXAMPLE_TIME + 250);
+    // FAT stores local wall-clock time with two-second resolution.
+    const dos = getTimestampDecoder('dos')!;
+    expect(dos.decode('1480807370', 'Europe/Paris')).toBe(Date.UTC(2024, 1, 3, 9, 30, 20));
+    expect(dos.decode('0x584353C0x')).toBeNaN();
+    expect(dos.decode('0x585F53C0')).toBeNaN();
+    expect(getTimestampDecoder('webkit')!.decode('1e16')).toBeNaN();
+  });
+
+  it('matches only unambiguous encodings within a plausible range', () => {
+    expect(matchTimestampDecoder('133514298000000000')).toEqual({
+      decoder: 'filetime',
+      value: EXAMPLE_TIME
+    });
+    expect(matchTimestampDecoder('0x01DA568BF0B9C400')).toEqual({
+      decoder: 'filetime',
+      value: EXAMPLE_TIME
+    });
+    expect(matchTimestampDecoder('13351429800000000')).toEqual({
+      decoder: 'webkit',
+      value: EXAMPLE_TIME
+    });
+    expect(matchTimestampDecoder('1706956200000000')).toEqual({
+      decoder: 'unix-microseconds',
+      value: EXAMPLE_TIME
+    });
+    expect(matchTimestampDecoder('1706956200000000000')).toEqual({
+      decoder: 'unix-nanoseconds',
+      value: EXAMPLE_TIME
+    });
+    expect(matchTimestampDecoder('9999999999999999')).toBeUndefined();
+    expect(matchTimestampDecoder('0x8020000000000000')).toBeUndefined();
+    expect(matchTimestampDecoder('728649000')).toBeUndefined();
+  });
+
+  it('accepts additional decoders under new ids', () => {
+    registerTimestampDecoder({
+      id: 'test-minutes',
+      label: 'Minutes since 1970',
+      example: '28449270',
+      decode: (raw) => Number(raw) * 60_000
+    });
+    expect(getTimestampDecoder('test-minutes')!.decode('28449270')).toBe(EXAMPLE_TIME);
+    expect(() =>
+      registerTimestampDecoder({ id: 'filetime', label: '', example: '', decode: Number })
+    ).toThrow('A timestamp decoder named "filetime" is already registered.');
+  });
+});
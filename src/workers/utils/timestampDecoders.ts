@@ -0,0 +1,192 @@
+import type { DatetimeFormatParser } from './datetimeFormat';
+import { UTC_TIME_ZONE, zonedWallClockToEpoch } from './timezone';
+
+/**
+ * Numeric timestamp encodings found in forensic artefacts, by id. Type
+ * inference reads a time-named column with a decoder when every value matches
+ * its `inferPattern`; every decoder can also be chosen through a column type
+ * override.
+ */
+export interface TimestampDecoder {
+  id: string;
+  label: string;
+  /** Encoded value shown next to the label in the UI. */
+  example: string;
+  /** Returns epoch milliseconds, or `NaN` when the value is not in this encoding. */
+  decode: DatetimeFormatParser;
+  /**
+   * Values inference decodes with this decoder. Left out for encodings whose
+   * values look like ordinary numbers, such as Cocoa or HFS+ seconds.
+   */
+  inferPattern?: RegExp;
+}
+
+const WINDOWS_EPOCH_MS = Date.UTC(1601, 0, 1);
+const COCOA_EPOCH_MS = Date.UTC(2001, 0, 1);
+const HFS_EPOCH_MS = Date.UTC(1904, 0, 1);
+
+// Inference only accepts results in this window, so that a long ID that
+// happens to have the right number of digits is not read as a time.
+const INFER_MIN_MS = Date.UTC(1980, 0, 1);
+const INFER_MAX_MS = Date.UTC(2100, 0, 1);
+
+const INTEGER_PATTERN = /^-?\d+$/;
+const HEX_PATTERN = /^0x[0-9a-f]+$/i;
+const DECIMAL_PATTERN = /^-?\d+(?:\.\d+)?$/;
+
+const readInteger = (raw: string): number => {
+  const trimmed = raw.trim();
+  return INTEGER_PATTERN.test(trimmed) || HEX_PATTERN.test(trimmed)
+    ? Number(trimmed)
+    : Number.NaN;
+};
+
+/** Reads an integer exactly, since FILETIME and nanosecond values pass 2^53. */
+const readBigInt = (raw: string): bigint | null => {
+  const trimmed = raw.trim();
+  return INTEGER_PATTERN.test(trimmed) || HEX_PATTERN.test(trimmed) ? BigInt(trimmed) : null;
+};
+
+const readDecimal = (raw: string): number => {
+  const trimmed = raw.trim();
+  return DECIMAL_PATTERN.test(trimmed) ? Number(trimmed) : Number.NaN;
+};
+
+/** Decodes a count of seconds since `epochMs`. */
+const secondsSince =
+  (epochMs: number, read: (raw: string) => number): DatetimeFormatParser =>
+  (raw) =>
+    read(raw) * 1_000 + epochMs;
+
+/** Decodes an integer count of ticks since `epochMs`, `ticksPerMs` to the millisecond. */
+const ticksSince =
+  (epochMs: number, ticksPerMs: number): DatetimeFormatParser =>
+  (raw) => {
+    const ticks = readBigInt(raw);
+    if (ticks === null) {
+      return Number.NaN;
+    }
+    // Divide before leaving BigInt, so no digit is rounded away.
+    const perMs = BigInt(ticksPerMs);
+    return Number(ticks / perMs) + Number(ticks % perMs) / ticksPerMs + epochMs;
+  };
+
+/** FAT/DOS date in the high word and time in the low word, as local wall clock. */
+const decodeDosDatetime: DatetimeFormatParser = (raw, timeZone = UTC_TIME_ZONE) => {
+  const value = readInteger(raw);
+  if (!(value >= 0 && value <= 0xffff_ffff)) {
+    return Number.NaN;
+  }
+  const date = Math.floor(value / 0x1_0000);
+  const time = value % 0x1_0000;
+  const year = (date >> 9) + 1980;
+  const month = (date >> 5) & 0xf;
+  const day = date & 0x1f;
+  const hour = time >> 11;
+  const minute = (time >> 5) & 0x3f;
+  const second = (time & 0x1f) * 2;
+  if (month < 1 || month > 12 || day < 1 || hour > 23 || minute > 59 || second > 59) {
+    return Number.NaN;
+  }
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  if (new Date(wallClock).getUTCDate() !== day) {
+    return Number.NaN;
+  }
+  return zonedWallClockToEpoch(wallClock, timeZone);
+};
+
+const decoders = new Map<string, TimestampDecoder>();
+
+/** Adds a decoder; throws an `Error` when its id is taken. */
+export const registerTimestampDecoder = (decoder: TimestampDecoder): void => {
+  if (decoders.has(decoder.id)) {
+    throw new Error(`A timestamp decoder named "${decoder.id}" is already registered.`);
+  }
+  decoders.set(decoder.id, decoder);
+};
+
+export const getTimestampDecoder = (id: string): TimestampDecoder | undefined => decoders.get(id);
+
+export const listTimestampDecoders = (): TimestampDecoder[] => [...decoders.values()];
+
+/**
+ * The decoder whose `inferPattern` matches `raw` and reads it as a time
+ * between 1980 and 2100, with that time; undefined when none does.
+ */
+export const matchTimestampDecoder = (
+  raw: string
+): { decoder: string; value: number } | undefined => {
+  for (const decoder of decoders.values()) {
+    if (!decoder.inferPattern?.test(raw)) {
+      continue;
+    }
+    const value = decoder.decode(raw);
+    if (value >= INFER_MIN_MS && value < INFER_MAX_MS) {
+      return { decoder: decoder.id, value };
+    }
+  }
+  return undefined;
+};
+
+const BUILT_IN_DECODERS: TimestampDecoder[] = [
+  {
+    id: 'unix-seconds',
+    label: 'Unix seconds',
+    example: '1706956200',
+    decode: secondsSince(0, readDecimal)
+  },
+  {
+    id: 'unix-milliseconds',
+    label: 'Unix milliseconds',
+    example: '1706956200000',
+    decode: ticksSince(0, 1)
+  },
+  {
+    id: 'unix-microseconds',
+    label: 'Unix microseconds',
+    example: '1706956200000000',
+    decode: ticksSince(0, 1_000),
+    inferPattern: /^\d{16}$/
+  },
+  {
+    id: 'unix-nanoseconds',
+    label: 'Unix nanoseconds',
+    example: '1706956200000000000',
+    decode: ticksSince(0, 1_000_000),
+    inferPattern: /^\d{19}$/
+  },
+  {
+    id: 'filetime',
+    label: 'Windows FILETIME (100 ns since 1601)',
+    example: '133514298000000000',
+    decode: ticksSince(WINDOWS_EPOCH_MS, 10_000),
+    inferPattern: /^(?:\d{18}|0x0[0-9a-f]{15})$/i
+  },
+  {
+    id: 'webkit',
+    label: 'Chrome/WebKit (µs since 1601)',
+    example: '13351429800000000',
+    decode: ticksSince(WINDOWS_EPOCH_MS, 1_000),
+    inferPattern: /^\d{17}$/
+  },
+  {
+    id: 'cocoa',
+    label: 'Mac absolute time (seconds since 2001)',
+    example: '728649000',
+    decode: secondsSince(COCOA_EPOCH_MS, readDecimal)
+  },
+  {
+    id: 'hfs-plus',
+    label: 'HFS+ (seconds since 1904)',
+    example: '3789801000',
+    decode: secondsSince(HFS_EPOCH_MS, readInteger)
+  },
+  {
+    id: 'dos',
+    label: 'FAT/DOS date and time (local)',
+    example: '0x584353C0',
+    decode: decodeDosDatetime
+  }
+];
+
+BUILT_IN_DECODERS.forEach(registerTimestampDecoder);
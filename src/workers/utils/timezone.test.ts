@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatDatetimeInZone,
+  formatDatetimeValue,
+  getTimeZoneOffsetMs,
+  hasExplicitTimeZone,
+  isValidTimeZone,
+  parseDatetimeInZone
+} from './timezone';
+
+describe('parseDatetimeInZone', () => {
+  it('defaults naive timestamps to UTC', () => {
+    expect(parseDatetimeInZone('2024-03-01 12:00:00')).toBe(Date.UTC(2024, 2, 1, 12));
+    expect(parseDatetimeInZone('2024-03-01')).toBe(Date.UTC(2024, 2, 1));
+  });
+
+  it('interprets naive timestamps in the source zone across DST', () => {
+    expect(parseDatetimeInZone('2024-01-15T09:00:00', 'Europe/Paris')).toBe(
+      Date.UTC(2024, 0, 15, 8)
+    );
+    expect(parseDatetimeInZone('2024-07-15T09:00:00', 'Europe/Paris')).toBe(
+      Date.UTC(2024, 6, 15, 7)
+    );
+    expect(parseDatetimeInZone('2024-07-15T09:00:00.250', 'America/Los_Angeles')).toBe(
+      Date.UTC(2024, 6, 15, 16, 0, 0, 250)
+    );
+  });
+
+  it('reads naive fields without passing them through the local zone', () => {
+    const localZone = process.env.TZ;
+    process.env.TZ = 'Europe/Paris';
+    try {
+      // 02:30 does not exist in Paris on 31 March 2024, but is a valid UTC reading.
+      expect(parseDatetimeInZone('2024-03-31 02:30:00')).toBe(Date.UTC(2024, 2, 31, 2, 30));
+      expect(parseDatetimeInZone('2024/03/31 02:30', 'Asia/Tokyo')).toBe(
+        Date.UTC(2024, 2, 30, 17, 30)
+      );
+    } finally {
+      if (localZone === undefined) {
+        delete process.env.TZ;
+      } else {
+        process.env.TZ = localZone;
+      }
+    }
+    expect(parseDatetimeInZone('2024-02-30 10:00:00')).toBeNaN();
+  });
+
+  it('keeps explicit offsets regardless of the source zone', () => {
+    expect(parseDatetimeInZone('2024-07-15T09:00:00+02:00', 'America/New_York')).toBe(
+      Date.UTC(2024, 6, 15, 7)
+    );
+    expect(hasExplicitTimeZone('2024-07-15 09:00:00 UTC')).toBe(true);
+    expect(hasExplicitTimeZone('14-Oct-2025')).toBe(false);
+  });
+
+  it('returns NaN for unparseable input', () => {
+    expect(parseDatetimeInZone('not a date', 'Europe/Paris')).toBeNaN();
+  });
+});
+
+describe('formatDatetimeInZone', () => {
+  it('renders ISO text with the zone offset', () => {
+    const instant = Date.UTC(2024, 6, 15, 7, 30);
+    expect(formatDatetimeInZone(instant)).toBe('2024-07-15T07:30:00Z');
+    expect(formatDatetimeInZone(instant, 'Europe/Paris')).toBe('2024-07-15T09:30:00+02:00');
+    expect(formatDatetimeInZone(instant + 5, 'Asia/Kolkata')).toBe('2024-07-15T13:00:00.005+05:30');
+  });
+
+  it('re-renders materialized values and passes through non-dates', () => {
+    expect(formatDatetimeValue('2024-01-15T08:00:00Z', 'America/New_York')).toBe(
+      '2024-01-15T03:00:00-05:00'
+    );
+    expect(formatDatetimeValue('n/a', 'Europe/Paris')).toBe('n/a');
+    expect(formatDatetimeValue(null, 'Europe/Paris')).toBe('');
+  });
+});
+
+describe('time zone helpers', () => {
+  it('validates zone names and reports offsets', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(getTimeZoneOffsetMs('Asia/Tokyo', Date.UTC(2024, 0, 1))).toBe(9 * 3_600_000);
+  });
+});
@@ -0,0 +1,255 @@
+export const UTC_TIME_ZONE = 'UTC';
+
+/**
+ * Matches strings that already carry their own offset (`Z`, `+02:00`, `-0500`,
+ * `GMT+1`, `UTC`). Those are parsed as-is; only naive wall-clock timestamps
+ * are interpreted in the configured source time zone.
+ */
+const EXPLICIT_ZONE_PATTERN =
+  /(?:\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?\s*(?:Z|[+-]\d{2}(?::?\d{2})?)|\b(?:UTC|GMT)(?:[+-]\d{1,2}(?::?\d{2})?)?)$/i;
+/** Naive `YYYY-MM-DD[ T]HH:MM[:SS[.fff]]`, also with `/` between the date fields. */
+const NAIVE_DATETIME_PATTERN =
+  /^(\d{4})([-/])(\d{1,2})\2(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?$/i;
+const OFFSET_CACHE_BUCKET_MS = 15 * 60 * 1000;
+const MAX_OFFSET_CACHE_ENTRIES = 4_096;
+
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'America/Sao_Paulo',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles'
+];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+const offsetCache = new Map<string, number>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isUtcTimeZone = (timeZone: string | null | undefined): boolean =>
+  !timeZone || timeZone === UTC_TIME_ZONE || timeZone === 'Etc/UTC' || timeZone === 'GMT';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (isUtcTimeZone(timeZone)) {
+    return true;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const listTimeZones = (): string[] => {
+  const supportedValuesOf = (
+    Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] }
+  ).supportedValuesOf;
+  if (typeof supportedValuesOf === 'function') {
+    try {
+      const zones = supportedValuesOf('timeZone');
+      return zones.includes(UTC_TIME_ZONE) ? zones : [UTC_TIME_ZONE, ...zones];
+    } catch {
+      // Fall through to the static list.
+    }
+  }
+
+  return FALLBACK_TIME_ZONES.slice();
+};
+
+/** Offset of `timeZone` from UTC at the given instant, in milliseconds. */
+export const getTimeZoneOffsetMs = (timeZone: string, epochMs: number): number => {
+  if (isUtcTimeZone(timeZone) || !Number.isFinite(epochMs)) {
+    return 0;
+  }
+
+  const cacheKey = `${timeZone}|${Math.floor(epochMs / OFFSET_CACHE_BUCKET_MS)}`;
+  const cached = offsetCache.get(cacheKey);
+  if (cached != null) {
+    return cached;
+  }
+
+  const parts = getFormatter(timeZone).formatToParts(new Date(epochMs));
+  const lookup: Record<string, number> = {};
+  for (const part of parts) {
+    if (part.type !== 'literal') {
+      lookup[part.type] = Number(part.value);
+    }
+  }
+
+  const wallClockAsUtc = Date.UTC(
+    lookup.year ?? 1970,
+    (lookup.month ?? 1) - 1,
+    lookup.day ?? 1,
+    lookup.hour ?? 0,
+    lookup.minute ?? 0,
+    lookup.second ?? 0
+  );
+  const offset = wallClockAsUtc - (epochMs - (((epochMs % 1000) + 1000) % 1000));
+
+  if (offsetCache.size >= MAX_OFFSET_CACHE_ENTRIES) {
+    offsetCache.clear();
+  }
+  offsetCache.set(cacheKey, offset);
+  return offset;
+};
+
+/**
+ * Converts a wall-clock reading (expressed as if it were UTC) observed in
+ * `timeZone` into an epoch instant. Uses two passes so readings near DST
+ * transitions resolve against the offset in effect at the result.
+ */
+export const zonedWallClockToEpoch = (wallClockAsUtc: number, timeZone: string): number => {
+  if (isUtcTimeZone(timeZone)) {
+    return wallClockAsUtc;
+  }
+
+  const firstGuess = wallClockAsUtc - getTimeZoneOffsetMs(timeZone, wallClockAsUtc);
+  return wallClockAsUtc - getTimeZoneOffsetMs(timeZone, firstGuess);
+};
+
+export const hasExplicitTimeZone = (raw: string): boolean => EXPLICIT_ZONE_PATTERN.test(raw.trim());
+
+/**
+ * Reads the fields of a naive `NAIVE_DATETIME_PATTERN` timestamp as a
+ * wall-clock reading expressed as if it were UTC; `NaN` when one is out of range.
+ */
+const readNaiveWallClock = (fields: RegExpExecArray): number => {
+  const [, year, , month, day, hour = '0', minute = '0', second = '0', fraction = ''] = fields;
+  const wallClockAsUtc = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+    Number(fraction.slice(0, 3).padEnd(3, '0'))
+  );
+  const check = new Date(wallClockAsUtc);
+  return check.getUTCMonth() === Number(month) - 1 &&
+    check.getUTCDate() === Number(day) &&
+    check.getUTCHours() === Number(hour) &&
+    check.getUTCMinutes() === Number(minute) &&
+    check.getUTCSeconds() === Number(second)
+    ? wallClockAsUtc
+    : Number.NaN;
+};
+
+/**
+ * Parses a datetime string, interpreting naive timestamps in `timeZone`
+ * instead of the browser's local zone. Returns `NaN` when unparseable.
+ */
+export const parseDatetimeInZone = (raw: string, timeZone: string = UTC_TIME_ZONE): number => {
+  const trimmed = raw.trim();
+  if (hasExplicitTimeZone(trimmed)) {
+    return Date.parse(trimmed);
+  }
+
+  // Read ISO-style fields directly: going through the local zone would shift
+  // wall clocks that fall in the browser's own DST gap.
+  const fields = NAIVE_DATETIME_PATTERN.exec(trimmed);
+  if (fields) {
+    const wallClockAsUtc = readNaiveWallClock(fields);
+    return Number.isFinite(wallClockAsUtc)
+      ? zonedWallClockToEpoch(wallClockAsUtc, timeZone)
+      : wallClockAsUtc;
+  }
+
+  // Other naive forms are only understood by `Date.parse`, which reads them in
+  // the local zone, so read the local wall clock back out.
+  const parsed = Date.parse(trimmed);
+  if (!Number.isFinite(parsed)) {
+    return parsed;
+  }
+  const local = new Date(parsed);
+  const wallClockAsUtc = Date.UTC(
+    local.getFullYear(),
+    local.getMonth(),
+    local.getDate(),
+    local.getHours(),
+    local.getMinutes(),
+    local.getSeconds(),
+    local.getMilliseconds()
+  );
+  return zonedWallClockToEpoch(wallClockAsUtc, timeZone);
+};
+
+const pad = (value: number, length = 2): string => String(Math.abs(value)).padStart(length, '0');
+
+const formatOffset = (offsetMs: number): string => {
+  if (offsetMs === 0) {
+    return 'Z';
+  }
+
+  const totalMinutes = Math.round(Math.abs(offsetMs) / 60_000);
+  const sign = offsetMs < 0 ? '-' : '+';
+  return `${sign}${pad(Math.floor(totalMinutes / 60))}:${pad(totalMinutes % 60)}`;
+};
+
+/**
+ * Formats an instant as ISO-8601 in `timeZone` with an explicit offset,
+ * omitting milliseconds when they are zero (`2024-01-01T10:00:00+01:00`).
+ */
+export const formatDatetimeInZone = (epochMs: number, timeZone: string = UTC_TIME_ZONE): string => {
+  if (!Number.isFinite(epochMs)) {
+    return '';
+  }
+
+  const offset = getTimeZoneOffsetMs(timeZone, epochMs);
+  const shifted = new Date(epochMs + offset);
+  const milliseconds = shifted.getUTCMilliseconds();
+  const year = shifted.getUTCFullYear();
+  const yearText = year < 0 ? `-${pad(year, 6)}` : pad(year, 4);
+
+  return (
+    `${yearText}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}` +
+    `T${pad(shifted.getUTCHours())}:${pad(shifted.getUTCMinutes())}:${pad(shifted.getUTCSeconds())}` +
+    (milliseconds > 0 ? `.${pad(milliseconds, 3)}` : '') +
+    formatOffset(offset)
+  );
+};
+
+/**
+ * Re-renders a worker-materialized datetime (UTC ISO string or epoch millis)
+ * in the display zone. Values that do not parse are returned unchanged.
+ */
+export const formatDatetimeValue = (value: unknown, timeZone: string = UTC_TIME_ZONE): string => {
+  if (value == null) {
+    return '';
+  }
+
+  const epoch =
+    typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+  if (!Number.isFinite(epoch)) {
+    return String(value);
+  }
+
+  return formatDatetimeInZone(epoch, timeZone);
+};
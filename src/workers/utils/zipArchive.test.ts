@@ -0,0 +1,64 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+
+import { buildZipFixture } from '../test/zipFixture';
+import { isReadableZipEntry, openZipEntryStream, readZipEntries } from './zipArchive';
+
+const toBlob = (bytes: Uint8Array): Blob => new NodeBlob([bytes]) as unknown as Blob;
+
+const readText = async (stream: ReadableStream<Uint8Array>): Promise<string> => {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let text = '';
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    text += decoder.decode(result.value, { stream: true });
+  }
+  return text + decoder.decode();
+};
+
+describe('zipArchive', () => {
+  const archive = toBlob(
+    buildZipFixture([
+      { path: 'kape/', method: 0 },
+      { path: 'kape/EventLogs/logons.csv', contents: 'host,user\nWS01,alice\n' },
+      { path: 'procs.jsonl', contents: '{"pid":4}\n', method: 0 },
+      { path: 'secret.csv', contents: 'x', method: 0, encrypted: true },
+      { path: 'lzma.csv', contents: 'x', method: 14 }
+    ])
+  );
+
+  it('lists file entries from the central directory', async () => {
+    const entries = await readZipEntries(archive);
+
+    expect(entries.map((entry) => entry.path)).toEqual([
+      'kape/EventLogs/logons.csv',
+      'procs.jsonl',
+      'secret.csv',
+      'lzma.csv'
+    ]);
+    expect(entries[1]).toMatchObject({ size: 10, compressedSize: 10, method: 0 });
+    expect(entries[0]!.lastModified).toBe(new Date(2024, 0, 1).getTime());
+    expect(entries.map(isReadableZipEntry)).toEqual([true, true, false, false]);
+  });
+
+  it('streams stored and deflated entries without extracting the archive', async () => {
+    const [logons, procs, secret, lzma] = await readZipEntries(archive);
+
+    expect(await readText(await openZipEntryStream(archive, logons!))).toBe(
+      'host,user\nWS01,alice\n'
+    );
+    expect(await readText(await openZipEntryStream(archive, procs!))).toBe('{"pid":4}\n');
+    await expect(openZipEntryStream(archive, secret!)).rejects.toThrow(
+      '"secret.csv" is encrypted; encrypted zip entries are not supported.'
+    );
+    await expect(openZipEntryStream(archive, lzma!)).rejects.toThrow(
+      '"lzma.csv" uses unsupported zip compression method 14.'
+    );
+  });
+
+  it('rejects files without a central directory', async () => {
+    await expect(readZipEntries(toBlob(new TextEncoder().encode('a,b\n1,2\n')))).rejects.toThrow(
+      'Not a zip archive: the central directory is missing.'
+    );
+  });
+});
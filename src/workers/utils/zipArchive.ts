@@ -0,0 +1,189 @@
+import { decompressStream, type StreamCompression } from './decompressStream';
+
+/**
+ * Minimal zip reader for evidence bundles. Only the central directory is
+ * read up front; entry data is streamed straight from a slice of the archive,
+ * so nothing is extracted or copied before parsing.
+ */
+
+export interface ZipEntry {
+  path: string;
+  size: number;
+  compressedSize: number;
+  method: number;
+  encrypted: boolean;
+  lastModified: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_END_OF_DIRECTORY_SIGNATURE = 0x06064b50;
+const DIRECTORY_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const END_OF_DIRECTORY_SIZE = 22;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_COMMENT_SIZE = 0xffff;
+const LOCAL_HEADER_SIZE = 30;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+const METHOD_COMPRESSION: Record<number, StreamCompression | null> = {
+  0: null,
+  8: 'deflate-raw',
+  12: 'bzip2',
+  93: 'zstd'
+};
+
+export const isReadableZipEntry = (entry: ZipEntry): boolean =>
+  !entry.encrypted && entry.method in METHOD_COMPRESSION;
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<DataView> => {
+  const buffer = await blob.slice(start, end).arrayBuffer();
+  return new DataView(buffer);
+};
+
+const readUint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+
+const dosDateTimeToMs = (time: number, date: number): number =>
+  new Date(
+    1980 + (date >>> 9),
+    ((date >>> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >>> 11,
+    (time >>> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+
+/** Lists the file entries of a zip archive from its central directory. */
+export const readZipEntries = async (archive: Blob): Promise<ZipEntry[]> => {
+  const tailStart = Math.max(
+    0,
+    archive.size - END_OF_DIRECTORY_SIZE - MAX_COMMENT_SIZE - ZIP64_LOCATOR_SIZE
+  );
+  const tail = await readBytes(archive, tailStart, archive.size);
+
+  let endOffset = -1;
+  for (let offset = tail.byteLength - END_OF_DIRECTORY_SIZE; offset >= 0; offset -= 1) {
+    if (tail.getUint32(offset, true) === END_OF_DIRECTORY_SIGNATURE) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a zip archive: the central directory is missing.');
+  }
+
+  let entryCount = tail.getUint16(endOffset + 10, true);
+  let directorySize = tail.getUint32(endOffset + 12, true);
+  let directoryOffset = tail.getUint32(endOffset + 16, true);
+
+  const locatorOffset = endOffset - ZIP64_LOCATOR_SIZE;
+  if (locatorOffset >= 0 && tail.getUint32(locatorOffset, true) === ZIP64_LOCATOR_SIGNATURE) {
+    const recordOffset = readUint64(tail, locatorOffset + 8);
+    const record = await readBytes(archive, recordOffset, recordOffset + 56);
+    if (record.getUint32(0, true) !== ZIP64_END_OF_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupt zip archive: invalid zip64 directory record.');
+    }
+    entryCount = readUint64(record, 32);
+    directorySize = readUint64(record, 40);
+    directoryOffset = readUint64(record, 48);
+  }
+
+  const directory = await readBytes(archive, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (
+      offset + 46 > directory.byteLength ||
+      directory.getUint32(offset, true) !== DIRECTORY_ENTRY_SIGNATURE
+    ) {
+      throw new Error('Corrupt zip archive: invalid central directory entry.');
+    }
+
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const time = directory.getUint16(offset + 12, true);
+    const date = directory.getUint16(offset + 14, true);
+    let compressedSize = directory.getUint32(offset + 20, true);
+    let size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    let localHeaderOffset = directory.getUint32(offset + 42, true);
+
+    const nameStart = directory.byteOffset + offset + 46;
+    const path = decoder.decode(new Uint8Array(directory.buffer, nameStart, nameLength));
+
+    // Zip64 moves any field saturated at 0xffffffff into an extra field.
+    let extra = offset + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const fieldId = directory.getUint16(extra, true);
+      const fieldSize = directory.getUint16(extra + 2, true);
+      if (fieldId === ZIP64_EXTRA_FIELD) {
+        let field = extra + 4;
+        if (size === 0xffffffff) {
+          size = readUint64(directory, field);
+          field += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64(directory, field);
+          field += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = readUint64(directory, field);
+        }
+      }
+      extra += 4 + fieldSize;
+    }
+
+    if (!path.endsWith('/')) {
+      entries.push({
+        path,
+        size,
+        compressedSize,
+        method,
+        encrypted: (flags & 1) === 1,
+        lastModified: dosDateTimeToMs(time, date),
+        localHeaderOffset
+      });
+    }
+    offset = extraEnd + commentLength;
+  }
+
+  return entries;
+};
+
+/** Streams the decompressed contents of one entry. */
+export const openZipEntryStream = async (
+  archive: Blob,
+  entry: ZipEntry
+): Promise<ReadableStream<Uint8Array>> => {
+  if (entry.encrypted) {
+    throw new Error(`"${entry.path}" is encrypted; encrypted zip entries are not supported.`);
+  }
+  const compression = METHOD_COMPRESSION[entry.method];
+  if (compression === undefined) {
+    throw new Error(`"${entry.path}" uses unsupported zip compression method ${entry.method}.`);
+  }
+
+  const header = await readBytes(
+    archive,
+    entry.localHeaderOffset,
+    entry.localHeaderOffset + LOCAL_HEADER_SIZE
+  );
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt zip archive: invalid local header for "${entry.path}".`);
+  }
+  const dataStart =
+    entry.localHeaderOffset +
+    LOCAL_HEADER_SIZE +
+    header.getUint16(26, true) +
+    header.getUint16(28, true);
+
+  const stream = archive.slice(dataStart, dataStart + entry.compressedSize).stream();
+  return compression ? decompressStream(stream, compression) : stream;
+};
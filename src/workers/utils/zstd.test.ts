@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { EVENTS_CSV, EVENTS_CSV_ZST, fromBase64 } from '../test/compressedFixtures';
+import { ZstdDecoder } from './zstd';
+
+const decode = (input: Uint8Array, chunkSize = input.length): string => {
+  const decoder = new ZstdDecoder();
+  const blocks: Uint8Array[] = [];
+  for (let offset = 0; offset < input.length; offset += chunkSize) {
+    blocks.push(...decoder.push(input.subarray(offset, offset + chunkSize)));
+  }
+  decoder.finish();
+  return Buffer.concat(blocks).toString('utf8');
+};
+
+describe('ZstdDecoder', () => {
+  const compressed = fromBase64(EVENTS_CSV_ZST);
+
+  it('decodes Huffman literals and FSE sequences however the input is chunked', () => {
+    expect(decode(compressed)).toBe(EVENTS_CSV);
+    expect(decode(compressed, 1)).toBe(EVENTS_CSV);
+    expect(decode(compressed, 37)).toBe(EVENTS_CSV);
+  });
+
+  it('skips skippable frames and decodes concatenated frames', () => {
+    const skippable = Uint8Array.of(0x50, 0x2a, 0x4d, 0x18, 3, 0, 0, 0, 1, 2, 3);
+    // A raw block and an RLE block in a frame without a declared content size.
+    const handBuilt = Uint8Array.of(
+      0x28, 0xb5, 0x2f, 0xfd, 0x00, 0x00, 0x18, 0x00, 0x00, 0x61, 0x2c, 0x62,
+      0x0b, 0x00, 0x00, 0x0a
+    );
+    const input = new Uint8Array(skippable.length + compressed.length + handBuilt.length);
+    input.set(skippable);
+    input.set(compressed, skippable.length);
+    input.set(handBuilt, skippable.length + compressed.length);
+
+    expect(decode(input, 50)).toBe(`${EVENTS_CSV}a,b\n`);
+  });
+
+  it('rejects truncated and foreign input', () => {
+    expect(() => decode(compressed.subarray(0, 200))).toThrow('Unexpected end of zstd data.');
+    expect(() => decode(new TextEncoder().encode('a,b\n1,2\n'))).toThrow('Not a zstd stream.');
+  });
+});
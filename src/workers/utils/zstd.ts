@@ -0,0 +1,915 @@
+/**
+ * Streaming Zstandard decompressor (RFC 8878) for `.zst` sources, which
+ * `DecompressionStream` does not cover. Input is buffered one block at a time
+ * (at most 128 kB) and output is kept only as far back as the frame's window.
+ * Dictionaries are not supported and the optional content checksum is skipped.
+ */
+
+const FRAME_MAGIC = 0xfd2fb528;
+const SKIPPABLE_MAGIC = 0x184d2a50;
+const MAX_BLOCK_SIZE = 128 * 1024;
+const MAX_WINDOW_SIZE = 1 << 27;
+
+const readUint16 = (data: Uint8Array, offset: number): number =>
+  data[offset]! | (data[offset + 1]! << 8);
+
+const readUint24 = (data: Uint8Array, offset: number): number =>
+  readUint16(data, offset) | (data[offset + 2]! << 16);
+
+const readUint32 = (data: Uint8Array, offset: number): number =>
+  (readUint24(data, offset) | (data[offset + 3]! << 24)) >>> 0;
+
+const highBit = (value: number): number => 31 - Math.clz32(value);
+
+const corrupt = (detail: string): Error => new Error(`Corrupt zstd data: ${detail}.`);
+
+/** Little-endian bitstream read forwards, used by FSE table descriptions. */
+class ForwardBitReader {
+  private position: number;
+
+  constructor(
+    private readonly data: Uint8Array,
+    start: number,
+    private readonly end: number
+  ) {
+    this.position = start * 8;
+  }
+
+  get bytePosition(): number {
+    return Math.ceil(this.position / 8);
+  }
+
+  peek(count: number): number {
+    let value = 0;
+    for (let bit = 0; bit < count; bit += 1) {
+      const position = this.position + bit;
+      if (position >>> 3 >= this.end) {
+        throw corrupt('table description overruns its block');
+      }
+      value |= ((this.data[position >>> 3]! >>> (position & 7)) & 1) << bit;
+    }
+    return value;
+  }
+
+  read(count: number): number {
+    const value = this.peek(count);
+    this.position += count;
+    return value;
+  }
+
+  skip(count: number): void {
+    this.position += count;
+  }
+}
+
+/**
+ * Bitstream read backwards from its last byte, whose highest set bit marks
+ * where the data starts. Reads past the beginning yield zeros and leave
+ * `position` negative, which callers treat as overflow.
+ */
+class BackwardBitReader {
+  position: number;
+
+  constructor(
+    private readonly data: Uint8Array,
+    private readonly start: number,
+    end: number
+  ) {
+    const last = end > start ? data[end - 1]! : 0;
+    if (!last) {
+      throw corrupt('bitstream is missing its end marker');
+    }
+    this.position = (end - 1 - start) * 8 + highBit(last);
+  }
+
+  private bitsAt(position: number, count: number): number {
+    if (count <= 0) {
+      return 0;
+    }
+    if (position < 0) {
+      return this.bitsAt(0, count + position) * 2 ** -position;
+    }
+    if (count > 24) {
+      return this.bitsAt(position + 16, count - 16) * 0x10000 + this.bitsAt(position, 16);
+    }
+    const offset = this.start + (position >>> 3);
+    const data = this.data;
+    const word =
+      (data[offset] ?? 0) |
+      ((data[offset + 1] ?? 0) << 8) |
+      ((data[offset + 2] ?? 0) << 16) |
+      ((data[offset + 3] ?? 0) << 24);
+    return (word >>> (position & 7)) & ((1 << count) - 1);
+  }
+
+  peek(count: number): number {
+    return this.bitsAt(this.position - count, count);
+  }
+
+  read(count: number): number {
+    const value = this.peek(count);
+    this.position -= count;
+    return value;
+  }
+}
+
+interface FseTable {
+  accuracyLog: number;
+  symbols: Uint8Array;
+  bitCounts: Uint8Array;
+  baselines: Uint16Array;
+}
+
+const buildFseTable = (probabilities: number[], accuracyLog: number): FseTable => {
+  const size = 1 << accuracyLog;
+  const symbols = new Uint8Array(size);
+  const bitCounts = new Uint8Array(size);
+  const baselines = new Uint16Array(size);
+  const nextState = new Uint16Array(probabilities.length);
+
+  let highThreshold = size - 1;
+  probabilities.forEach((probability, symbol) => {
+    if (probability === -1) {
+      symbols[highThreshold] = symbol;
+      highThreshold -= 1;
+      nextState[symbol] = 1;
+    } else {
+      nextState[symbol] = probability;
+    }
+  });
+
+  const step = (size >>> 1) + (size >>> 3) + 3;
+  let position = 0;
+  probabilities.forEach((probability, symbol) => {
+    for (let count = 0; count < probability; count += 1) {
+      symbols[position] = symbol;
+      do {
+        position = (position + step) & (size - 1);
+      } while (position > highThreshold);
+    }
+  });
+  if (position !== 0) {
+    throw corrupt('invalid FSE distribution');
+  }
+
+  for (let state = 0; state < size; state += 1) {
+    const symbol = symbols[state]!;
+    const next = nextState[symbol]!;
+    nextState[symbol] = next + 1;
+    const bitCount = accuracyLog - highBit(next);
+    bitCounts[state] = bitCount;
+    baselines[state] = (next << bitCount) - size;
+  }
+
+  return { accuracyLog, symbols, bitCounts, baselines };
+};
+
+const readFseTable = (
+  data: Uint8Array,
+  start: number,
+  end: number,
+  maxAccuracyLog: number,
+  maxSymbol: number
+): { table: FseTable; size: number } => {
+  const reader = new ForwardBitReader(data, start, end);
+  const accuracyLog = reader.read(4) + 5;
+  if (accuracyLog > maxAccuracyLog) {
+    throw corrupt('FSE accuracy log too large');
+  }
+
+  const probabilities: number[] = [];
+  let remaining = (1 << accuracyLog) + 1;
+  let threshold = 1 << accuracyLog;
+  let bitCount = accuracyLog + 1;
+  let previousZero = false;
+
+  while (remaining > 1 && probabilities.length <= maxSymbol) {
+    if (previousZero) {
+      let repeat = reader.read(2);
+      let zeros = repeat;
+      while (repeat === 3) {
+        repeat = reader.read(2);
+        zeros += repeat;
+      }
+      for (let index = 0; index < zeros; index += 1) {
+        probabilities.push(0);
+      }
+      if (probabilities.length > maxSymbol) {
+        throw corrupt('FSE distribution has too many symbols');
+      }
+    }
+
+    const max = 2 * threshold - 1 - remaining;
+    let count = reader.peek(bitCount - 1);
+    if (count < max) {
+      reader.skip(bitCount - 1);
+    } else {
+      count = reader.peek(bitCount);
+      if (count >= threshold) {
+        count -= max;
+      }
+      reader.skip(bitCount);
+    }
+
+    count -= 1;
+    remaining -= Math.abs(count);
+    probabilities.push(count);
+    previousZero = count === 0;
+    while (remaining < threshold) {
+      bitCount -= 1;
+      threshold >>>= 1;
+    }
+  }
+
+  if (remaining !== 1) {
+    throw corrupt('invalid FSE distribution');
+  }
+
+  return {
+    table: buildFseTable(probabilities, accuracyLog),
+    size: reader.bytePosition - start
+  };
+};
+
+const rleTable = (symbol: number): FseTable => ({
+  accuracyLog: 0,
+  symbols: Uint8Array.of(symbol),
+  bitCounts: Uint8Array.of(0),
+  baselines: Uint16Array.of(0)
+});
+
+const LITERAL_LENGTH_DEFAULTS = [
+  4, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1, 1, 1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 1, 1, 1, 1,
+  1, -1, -1, -1, -1
+];
+const MATCH_LENGTH_DEFAULTS = [
+  1, 4, 3, 2, 2, 2, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1,
+  1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1, -1, -1
+];
+const OFFSET_DEFAULTS = [
+  1, 1, 1, 1, 1, 1, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1
+];
+
+const DEFAULT_TABLES = {
+  literalLength: buildFseTable(LITERAL_LENGTH_DEFAULTS, 6),
+  matchLength: buildFseTable(MATCH_LENGTH_DEFAULTS, 6),
+  offset: buildFseTable(OFFSET_DEFAULTS, 5)
+};
+
+const LITERAL_LENGTH_CODES = {
+  base: [
+    0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 18, 20, 22, 24, 28, 32, 40, 48, 64,
+    128, 256, 512, 1024, 2048, 4096, 8192, 16384, 32768, 65536
+  ],
+  bits: [
+    0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 3, 3, 4, 6, 7, 8, 9, 10, 11,
+    12, 13, 14, 15, 16
+  ]
+};
+
+const MATCH_LENGTH_CODES = {
+  base: [
+    3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27,
+    28, 29, 30, 31, 32, 33, 34, 35, 37, 39, 41, 43, 47, 51, 59, 67, 83, 99, 131, 259, 515, 1027,
+    2051, 4099, 8195, 16387, 32771, 65539
+  ],
+  bits: [
+    0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+    0, 1, 1, 1, 1, 2, 2, 3, 3, 4, 4, 5, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16
+  ]
+};
+
+interface HuffmanTable {
+  maxBits: number;
+  symbols: Uint8Array;
+  bitCounts: Uint8Array;
+}
+
+const buildHuffmanTable = (weights: number[]): HuffmanTable => {
+  let weightSum = 0;
+  for (const weight of weights) {
+    weightSum += weight ? 1 << (weight - 1) : 0;
+  }
+  if (!weightSum) {
+    throw corrupt('empty Huffman table');
+  }
+
+  const maxBits = highBit(weightSum) + 1;
+  const rest = (1 << maxBits) - weightSum;
+  if (maxBits > 11 || rest & (rest - 1)) {
+    throw corrupt('invalid Huffman weights');
+  }
+  const allWeights = [...weights, highBit(rest) + 1];
+
+  const size = 1 << maxBits;
+  const symbols = new Uint8Array(size);
+  const bitCounts = new Uint8Array(size);
+  let position = 0;
+  for (let weight = 1; weight <= maxBits; weight += 1) {
+    allWeights.forEach((symbolWeight, symbol) => {
+      if (symbolWeight !== weight) {
+        return;
+      }
+      const span = 1 << (weight - 1);
+      symbols.fill(symbol, position, position + span);
+      bitCounts.fill(maxBits + 1 - weight, position, position + span);
+      position += span;
+    });
+  }
+
+  return { maxBits, symbols, bitCounts };
+};
+
+const readHuffmanTable = (
+  data: Uint8Array,
+  start: number,
+  end: number
+): { table: HuffmanTable; size: number } => {
+  const header = data[start]!;
+  const weights: number[] = [];
+
+  if (header >= 128) {
+    const count = header - 127;
+    const size = 1 + Math.ceil(count / 2);
+    if (start + size > end) {
+      throw corrupt('Huffman table overruns its block');
+    }
+    for (let index = 0; index < count; index += 1) {
+      const byte = data[start + 1 + (index >>> 1)]!;
+      weights.push(index % 2 === 0 ? byte >>> 4 : byte & 0xf);
+    }
+    return { table: buildHuffmanTable(weights), size };
+  }
+
+  const streamEnd = start + 1 + header;
+  if (streamEnd > end) {
+    throw corrupt('Huffman table overruns its block');
+  }
+  const { table, size } = readFseTable(data, start + 1, streamEnd, 6, 255);
+  const reader = new BackwardBitReader(data, start + 1 + size, streamEnd);
+  let first = reader.read(table.accuracyLog);
+  let second = reader.read(table.accuracyLog);
+
+  // Two interleaved states; once the bits run out each state emits one more.
+  while (weights.length < 255) {
+    weights.push(table.symbols[first]!);
+    first = table.baselines[first]! + reader.read(table.bitCounts[first]!);
+    if (reader.position < 0) {
+      weights.push(table.symbols[second]!);
+      break;
+    }
+    weights.push(table.symbols[second]!);
+    second = table.baselines[second]! + reader.read(table.bitCounts[second]!);
+    if (reader.position < 0) {
+      weights.push(table.symbols[first]!);
+      break;
+    }
+  }
+
+  return { table: buildHuffmanTable(weights), size: 1 + header };
+};
+
+const decodeHuffmanStream = (
+  data: Uint8Array,
+  start: number,
+  end: number,
+  table: HuffmanTable,
+  output: Uint8Array,
+  outputStart: number,
+  count: number
+): void => {
+  const reader = new BackwardBitReader(data, start, end);
+  for (let index = 0; index < count; index += 1) {
+    const entry = reader.peek(table.maxBits);
+    output[outputStart + index] = table.symbols[entry]!;
+    reader.position -= table.bitCounts[entry]!;
+  }
+  if (reader.position !== 0) {
+    throw corrupt('Huffman stream length mismatch');
+  }
+};
+
+interface FrameState {
+  /** Decoded bytes; the last `windowSize` of them stay available for matches. */
+  history: Uint8Array;
+  written: number;
+  windowSize: number;
+  singleSegment: boolean;
+  hasChecksum: boolean;
+  repeatOffsets: [number, number, number];
+  huffman: HuffmanTable | null;
+  literalLengthTable: FseTable | null;
+  offsetTable: FseTable | null;
+  matchLengthTable: FseTable | null;
+}
+
+type DecoderStep =
+  | { kind: 'magic' }
+  | { kind: 'frameHeader' }
+  | { kind: 'block'; frame: FrameState }
+  | { kind: 'checksum' }
+  | { kind: 'skip'; remaining: number };
+
+/**
+ * Incremental decoder: `push` input as it arrives and collect decoded blocks.
+ * Concatenated and skippable frames are supported.
+ */
+export class ZstdDecoder {
+  private pending = new Uint8Array(0);
+  private step: DecoderStep = { kind: 'magic' };
+  private readonly literals = new Uint8Array(MAX_BLOCK_SIZE);
+
+  push(chunk: Uint8Array): Uint8Array[] {
+    const merged = new Uint8Array(this.pending.length + chunk.length);
+    merged.set(this.pending);
+    merged.set(chunk, this.pending.length);
+    this.pending = merged;
+
+    const output: Uint8Array[] = [];
+    let offset = 0;
+    let consumed = this.advance(this.pending, offset, output);
+    while (consumed > 0) {
+      offset += consumed;
+      consumed = this.advance(this.pending, offset, output);
+    }
+    this.pending = this.pending.slice(offset);
+    return output;
+  }
+
+  finish(): void {
+    if (this.step.kind !== 'magic' || this.pending.length) {
+      throw new Error('Unexpected end of zstd data.');
+    }
+  }
+
+  /** Consumes one unit from `data` at `offset`, or returns 0 if it is incomplete. */
+  private advance(data: Uint8Array, offset: number, output: Uint8Array[]): number {
+    const available = data.length - offset;
+    const step = this.step;
+
+    switch (step.kind) {
+      case 'magic': {
+        if (available < 4) {
+          return 0;
+        }
+        const magic = readUint32(data, offset);
+        if (magic === FRAME_MAGIC) {
+          this.step = { kind: 'frameHeader' };
+          return 4;
+        }
+        if ((magic & 0xfffffff0) >>> 0 === SKIPPABLE_MAGIC) {
+          if (available < 8) {
+            return 0;
+          }
+          const remaining = readUint32(data, offset + 4);
+          this.step = remaining ? { kind: 'skip', remaining } : { kind: 'magic' };
+          return 8;
+        }
+        throw new Error('Not a zstd stream.');
+      }
+      case 'skip': {
+        const skipped = Math.min(available, step.remaining);
+        step.remaining -= skipped;
+        if (step.remaining === 0) {
+          this.step = { kind: 'magic' };
+        }
+        return skipped;
+      }
+      case 'frameHeader':
+        return this.readFrameHeader(data, offset, available);
+      case 'block':
+        return this.readBlock(step.frame, data, offset, available, output);
+      case 'checksum':
+        if (available < 4) {
+          return 0;
+        }
+        this.step = { kind: 'magic' };
+        return 4;
+    }
+  }
+
+  private readFrameHeader(data: Uint8Array, offset: number, available: number): number {
+    if (available < 1) {
+      return 0;
+    }
+    const descriptor = data[offset]!;
+    const contentSizeFlag = descriptor >>> 6;
+    const singleSegment = (descriptor & 0x20) !== 0;
+    const hasChecksum = (descriptor & 0x04) !== 0;
+    const dictionaryIdBytes = [0, 1, 2, 4][descriptor & 3]!;
+    const contentSizeBytes = [singleSegment ? 1 : 0, 2, 4, 8][contentSizeFlag]!;
+    if (descriptor & 0x08) {
+      throw corrupt('reserved frame header bit is set');
+    }
+
+    const size = 1 + (singleSegment ? 0 : 1) + dictionaryIdBytes + contentSizeBytes;
+    if (available < size) {
+      return 0;
+    }
+
+    let position = offset + 1;
+    let windowSize = 0;
+    if (!singleSegment) {
+      const windowDescriptor = data[position]!;
+      const windowBase = 2 ** (10 + (windowDescriptor >>> 3));
+      windowSize = windowBase + (windowBase / 8) * (windowDescriptor & 7);
+      position += 1;
+    }
+
+    let dictionaryId = 0;
+    for (let index = dictionaryIdBytes - 1; index >= 0; index -= 1) {
+      dictionaryId = dictionaryId * 256 + data[position + index]!;
+    }
+    if (dictionaryId !== 0) {
+      throw new Error('Zstandard dictionaries are not supported.');
+    }
+    position += dictionaryIdBytes;
+
+    let contentSize: number | null = null;
+    if (contentSizeBytes) {
+      contentSize = 0;
+      for (let index = contentSizeBytes - 1; index >= 0; index -= 1) {
+        contentSize = contentSize * 256 + data[position + index]!;
+      }
+      if (contentSizeBytes === 2) {
+        contentSize += 256;
+      }
+    }
+
+    if (singleSegment) {
+      windowSize = contentSize ?? 0;
+    } else if (contentSize != null) {
+      windowSize = Math.min(windowSize, contentSize);
+    }
+    if (windowSize > MAX_WINDOW_SIZE) {
+      throw new Error('zstd frames with windows above 128 MiB are not supported.');
+    }
+
+    // A single-segment frame is decoded in place; otherwise keep room to
+    // append several blocks before sliding the window back to the start.
+    const capacity = singleSegment ? windowSize : 2 * windowSize + MAX_BLOCK_SIZE;
+    this.step = {
+      kind: 'block',
+      frame: {
+        history: new Uint8Array(capacity),
+        written: 0,
+        windowSize,
+        singleSegment,
+        hasChecksum,
+        repeatOffsets: [1, 4, 8],
+        huffman: null,
+        literalLengthTable: null,
+        offsetTable: null,
+        matchLengthTable: null
+      }
+    };
+    return size;
+  }
+
+  private readBlock(
+    frame: FrameState,
+    data: Uint8Array,
+    offset: number,
+    available: number,
+    output: Uint8Array[]
+  ): number {
+    if (available < 3) {
+      return 0;
+    }
+    const header = readUint24(data, offset);
+    const last = (header & 1) === 1;
+    const type = (header >>> 1) & 3;
+    const blockSize = header >>> 3;
+    const contentSize = type === 1 ? 1 : blockSize;
+    if (available < 3 + contentSize) {
+      return 0;
+    }
+    if (type === 3) {
+      throw corrupt('reserved block type');
+    }
+    if (blockSize > MAX_BLOCK_SIZE) {
+      throw corrupt('block exceeds 128 KiB');
+    }
+
+    if (!frame.singleSegment && frame.written + MAX_BLOCK_SIZE > frame.history.length) {
+      const keep = Math.min(frame.windowSize, frame.written);
+      frame.history.copyWithin(0, frame.written - keep, frame.written);
+      frame.written = keep;
+    }
+
+    const blockStart = frame.written;
+    const start = offset + 3;
+    if (type === 0) {
+      this.reserve(frame, blockSize);
+      frame.history.set(data.subarray(start, start + blockSize), frame.written);
+      frame.written += blockSize;
+    } else if (type === 1) {
+      this.reserve(frame, blockSize);
+      frame.history.fill(data[start]!, frame.written, frame.written + blockSize);
+      frame.written += blockSize;
+    } else {
+      this.decodeCompressedBlock(frame, data, start, start + blockSize);
+    }
+
+    if (frame.written > blockStart) {
+      output.push(frame.history.slice(blockStart, frame.written));
+    }
+    if (last) {
+      this.step = frame.hasChecksum ? { kind: 'checksum' } : { kind: 'magic' };
+    }
+    return 3 + contentSize;
+  }
+
+  private reserve(frame: FrameState, length: number): void {
+    if (frame.written + length > frame.history.length) {
+      throw corrupt('frame exceeds its declared size');
+    }
+  }
+
+  private decodeCompressedBlock(
+    frame: FrameState,
+    data: Uint8Array,
+    start: number,
+    end: number
+  ): void {
+    const { literals, size } = this.decodeLiterals(frame, data, start, end);
+    this.executeSequences(frame, data, start + size, end, literals);
+  }
+
+  private decodeLiterals(
+    frame: FrameState,
+    data: Uint8Array,
+    start: number,
+    end: number
+  ): { literals: Uint8Array; size: number } {
+    const first = data[start]!;
+    const type = first & 3;
+    const sizeFormat = (first >>> 2) & 3;
+
+    if (type === 0 || type === 1) {
+      let headerSize = 1;
+      let regenerated = first >>> 3;
+      if (sizeFormat === 1) {
+        headerSize = 2;
+        regenerated = (first >>> 4) | (data[start + 1]! << 4);
+      } else if (sizeFormat === 3) {
+        headerSize = 3;
+        regenerated = (first >>> 4) | (data[start + 1]! << 4) | (data[start + 2]! << 12);
+      }
+      const contentStart = start + headerSize;
+      if (type === 0) {
+        if (contentStart + regenerated > end) {
+          throw corrupt('literals overrun their block');
+        }
+        return {
+          literals: data.subarray(contentStart, contentStart + regenerated),
+          size: headerSize + regenerated
+        };
+      }
+      if (regenerated > MAX_BLOCK_SIZE) {
+        throw corrupt('literals exceed 128 KiB');
+      }
+      return {
+        literals: this.literals.fill(data[contentStart]!, 0, regenerated).subarray(0, regenerated),
+        size: headerSize + 1
+      };
+    }
+
+    const headerSize = sizeFormat < 2 ? 3 : sizeFormat + 2;
+    const fieldBits = [10, 10, 14, 18][sizeFormat]!;
+    let header = 0;
+    for (let index = headerSize - 1; index >= 0; index -= 1) {
+      header = header * 256 + data[start + index]!;
+    }
+    header = Math.floor(header / 16);
+    const regenerated = header % 2 ** fieldBits;
+    const compressed = Math.floor(header / 2 ** fieldBits) % 2 ** fieldBits;
+    const streamsStart = start + headerSize;
+    const streamsEnd = streamsStart + compressed;
+    if (streamsEnd > end || regenerated > MAX_BLOCK_SIZE) {
+      throw corrupt('literals overrun their block');
+    }
+
+    let tableEnd = streamsStart;
+    if (type === 2) {
+      const { table, size } = readHuffmanTable(data, streamsStart, streamsEnd);
+      frame.huffman = table;
+      tableEnd += size;
+    }
+    const table = frame.huffman;
+    if (!table) {
+      throw corrupt('literals reuse a missing Huffman table');
+    }
+
+    const literals = this.literals;
+    if (sizeFormat === 0) {
+      decodeHuffmanStream(data, tableEnd, streamsEnd, table, literals, 0, regenerated);
+    } else {
+      const segment = Math.ceil(regenerated / 4);
+      const lastSegment = regenerated - 3 * segment;
+      const sizes = [
+        readUint16(data, tableEnd),
+        readUint16(data, tableEnd + 2),
+        readUint16(data, tableEnd + 4)
+      ];
+      let streamStart = tableEnd + 6;
+      const lastSize = streamsEnd - streamStart - sizes[0]! - sizes[1]! - sizes[2]!;
+      if (lastSegment < 0 || lastSize < 0) {
+        throw corrupt('invalid literal stream sizes');
+      }
+      [...sizes, lastSize].forEach((streamSize, index) => {
+        const count = index === 3 ? lastSegment : segment;
+        decodeHuffmanStream(
+          data,
+          streamStart,
+          streamStart + streamSize,
+          table,
+          literals,
+          index * segment,
+          count
+        );
+        streamStart += streamSize;
+      });
+    }
+
+    return { literals: literals.subarray(0, regenerated), size: headerSize + compressed };
+  }
+
+  private executeSequences(
+    frame: FrameState,
+    data: Uint8Array,
+    start: number,
+    end: number,
+    literals: Uint8Array
+  ): void {
+    let position = start;
+    let sequenceCount = data[position]!;
+    position += 1;
+    if (sequenceCount >= 255) {
+      sequenceCount = readUint16(data, position) + 0x7f00;
+      position += 2;
+    } else if (sequenceCount >= 128) {
+      sequenceCount = ((sequenceCount - 128) << 8) + data[position]!;
+      position += 1;
+    }
+
+    const history = frame.history;
+    let literalPosition = 0;
+
+    if (sequenceCount > 0) {
+      const modes = data[position]!;
+      position += 1;
+      const selectTable = (
+        mode: number,
+        fallback: FseTable,
+        previous: FseTable | null,
+        maxAccuracyLog: number,
+        maxSymbol: number
+      ): FseTable => {
+        if (mode === 0) {
+          return fallback;
+        }
+        if (mode === 1) {
+          position += 1;
+          return rleTable(data[position - 1]!);
+        }
+        if (mode === 2) {
+          const { table, size } = readFseTable(data, position, end, maxAccuracyLog, maxSymbol);
+          position += size;
+          return table;
+        }
+        if (!previous) {
+          throw corrupt('sequences reuse a missing table');
+        }
+        return previous;
+      };
+
+      const literalLengthTable = selectTable(
+        modes >>> 6,
+        DEFAULT_TABLES.literalLength,
+        frame.literalLengthTable,
+        9,
+        35
+      );
+      const offsetTable = selectTable(
+        (modes >>> 4) & 3,
+        DEFAULT_TABLES.offset,
+        frame.offsetTable,
+        8,
+        31
+      );
+      const matchLengthTable = selectTable(
+        (modes >>> 2) & 3,
+        DEFAULT_TABLES.matchLength,
+        frame.matchLengthTable,
+        9,
+        52
+      );
+      frame.literalLengthTable = literalLengthTable;
+      frame.offsetTable = offsetTable;
+      frame.matchLengthTable = matchLengthTable;
+
+      const reader = new BackwardBitReader(data, position, end);
+      let literalLengthState = reader.read(literalLengthTable.accuracyLog);
+      let offsetState = reader.read(offsetTable.accuracyLog);
+      let matchLengthState = reader.read(matchLengthTable.accuracyLog);
+
+      for (let sequence = 0; sequence < sequenceCount; sequence += 1) {
+        const offsetCode = offsetTable.symbols[offsetState]!;
+        const matchLengthCode = matchLengthTable.symbols[matchLengthState]!;
+        const literalLengthCode = literalLengthTable.symbols[literalLengthState]!;
+        if (offsetCode > 31 || matchLengthCode > 52 || literalLengthCode > 35) {
+          throw corrupt('invalid sequence code');
+        }
+
+        const offsetValue = 2 ** offsetCode + reader.read(offsetCode);
+        const matchLength =
+          MATCH_LENGTH_CODES.base[matchLengthCode]! +
+          reader.read(MATCH_LENGTH_CODES.bits[matchLengthCode]!);
+        const literalLength =
+          LITERAL_LENGTH_CODES.base[literalLengthCode]! +
+          reader.read(LITERAL_LENGTH_CODES.bits[literalLengthCode]!);
+
+        // Values 1-3 pick a recent offset; a zero literal length shifts the pick by one.
+        const recent = frame.repeatOffsets;
+        let matchOffset: number;
+        if (offsetValue > 3) {
+          matchOffset = offsetValue - 3;
+          frame.repeatOffsets = [matchOffset, recent[0], recent[1]];
+        } else {
+          const index = offsetValue - 1 + (literalLength === 0 ? 1 : 0);
+          if (index === 0) {
+            matchOffset = recent[0];
+          } else {
+            matchOffset = index === 3 ? recent[0] - 1 : recent[index]!;
+            frame.repeatOffsets =
+              index === 1
+                ? [matchOffset, recent[0], recent[2]]
+                : [matchOffset, recent[0], recent[1]];
+          }
+        }
+
+        if (literalPosition + literalLength > literals.length) {
+          throw corrupt('sequence overruns its literals');
+        }
+        this.reserve(frame, literalLength + matchLength);
+        history.set(
+          literals.subarray(literalPosition, literalPosition + literalLength),
+          frame.written
+        );
+        literalPosition += literalLength;
+        frame.written += literalLength;
+
+        if (matchOffset <= 0 || matchOffset > frame.written) {
+          throw corrupt('match offset points before the frame');
+        }
+        let source = frame.written - matchOffset;
+        if (matchOffset >= matchLength) {
+          history.copyWithin(frame.written, source, source + matchLength);
+          frame.written += matchLength;
+        } else {
+          for (let index = 0; index < matchLength; index += 1) {
+            history[frame.written] = history[source]!;
+            frame.written += 1;
+            source += 1;
+          }
+        }
+
+        if (sequence < sequenceCount - 1) {
+          literalLengthState =
+            literalLengthTable.baselines[literalLengthState]! +
+            reader.read(literalLengthTable.bitCounts[literalLengthState]!);
+          matchLengthState =
+            matchLengthTable.baselines[matchLengthState]! +
+            reader.read(matchLengthTable.bitCounts[matchLengthState]!);
+          offsetState =
+            offsetTable.baselines[offsetState]! +
+            reader.read(offsetTable.bitCounts[offsetState]!);
+        }
+      }
+
+      if (reader.position !== 0) {
+        throw corrupt('sequence bitstream length mismatch');
+      }
+    }
+
+    const remaining = literals.length - literalPosition;
+    this.reserve(frame, remaining);
+    history.set(literals.subarray(literalPosition), frame.written);
+    frame.written += remaining;
+  }
+}
+
+export const createZstdDecompressionStream = (): TransformStream<Uint8Array, Uint8Array> => {
+  const decoder = new ZstdDecoder();
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      for (const block of decoder.push(chunk)) {
+        controller.enqueue(block);
+      }
+    },
+    flush() {
+      decoder.finish();
+    }
+  });
+};
@@ -3,11 +3,17 @@ import type { DidYouMeanInfo } from './didYouMean';
 import type {
   ColumnInference,
   ColumnType,
-  Delimiter,
+  ColumnTypeOverride,
+  CsvDialect,
+  DerivedColumnDefinition,
+  FieldTransformMode,
+  FieldTransformOptions,
   FilterNode,
   GroupingRequest,
   GroupingResult,
   LabelDefinition,
+  LogFormat,
+  ParseIssue,
   SortDefinition,
   TaggingSnapshot,
   TagRowsRequest,
@@ -19,6 +25,9 @@ import type {
   ImportTagsRequest
 } from './types';
 import type { RowIndexData } from './rowIndexStore';
+import type { DiscoveredFieldKey } from './fieldTransforms';
+import type { SourceFormat } from './utils/detectSourceFormat';
+import type { SourceEncoding } from './utils/detectEncoding';
 
 export interface WorkerInitOptions {
   chunkSize?: number;
@@ -26,20 +35,169 @@ export interface WorkerInitOptions {
   slowBatchThresholdMs?: number;
 }
 
-export interface LoadFileRequest {
+export interface CaseFile {
   handle: FileSystemFileHandle;
-  delimiter?: Delimiter;
+  /** Value written to the `__source` column; defaults to the file name. */
+  name?: string;
+  /** Path of the entry to read when `handle` is a zip archive. */
+  entry?: string;
+  /** Worksheet to read when `handle` is an Excel workbook; defaults to the first. */
+  sheet?: string;
+  /**
+   * Table or view to read when `handle` is a SQLite database; defaults to the
+   * first. With `query` it only names the result, as tables are named.
+   */
+  table?: string;
+  /** SELECT statement to run when `handle` is a SQLite database, instead of reading `table`. */
+  query?: string;
+}
+
+/** A file inside a zip archive, as listed by `listArchiveEntries`. */
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  compressedSize: number;
+  /** False for encrypted entries and compression methods that cannot be decoded. */
+  readable: boolean;
+}
+
+/** A table or view of a SQLite database, as listed by `listDatabaseTables`. */
+export interface DatabaseTable {
+  name: string;
+  kind: 'table' | 'view';
+  columns: string[];
+  /** False for WITHOUT ROWID tables, which cannot be read. */
+  readable: boolean;
+}
+
+export interface LoadFileRequest extends CsvDialect {
+  handle?: FileSystemFileHandle;
+  /**
+   * Zip entry to read from `handle`. May be omitted when the archive holds a
+   * single CSV or JSON Lines file.
+   */
+  entry?: string;
+  /** Worksheet to read when `handle` is an `.xlsx` workbook; defaults to the first. */
+  sheet?: string;
+  /** Table or view to read when `handle` is a SQLite database; see {@link CaseFile.table}. */
+  table?: string;
+  /** SELECT statement to run when `handle` is a SQLite database; see {@link CaseFile.query}. */
+  query?: string;
+  /**
+   * Loads several files into one dataset instead of `handle`. Headers are
+   * unified across files and every row carries its file in `__source`. A
+   * single file here loads like `handle`.
+   */
+  files?: CaseFile[];
+  /** Like `files`, with every supported file below the directory. */
+  directory?: FileSystemDirectoryHandle;
+  /** Overrides extension/MIME based detection of the source format. */
+  format?: SourceFormat;
+  /** Splits plain-text lines with this format; implies `format: 'log'` when that is omitted. */
+  logFormat?: LogFormat;
   batchSize?: number;
-  encoding?: string;
+  /** Overrides detection of the text encoding from each file's first bytes. */
+  encoding?: SourceEncoding;
   checkpointInterval?: number;
+  /** IANA zones for naive timestamps, keyed by column; unlisted columns use UTC. */
+  sourceTimeZones?: Record<string, string>;
+  /**
+   * Type overrides saved per dataset, keyed by the `datasetKey` reported on
+   * completion. Only the loaded dataset's entry applies, before `derivedColumns`.
+   */
+  columnTypeOverrides?: Record<string, Record<string, ColumnTypeOverride>>;
+  /** Installed once the column types are known, before `onComplete`; see `setDerivedColumns`. */
+  derivedColumns?: DerivedColumnDefinition[];
+}
+
+export interface PreviewFileRequest extends CsvDialect {
+  handle: FileSystemFileHandle;
+  /** Zip entry to preview; see {@link LoadFileRequest.entry}. */
+  entry?: string;
+  /** Worksheet to preview; see {@link LoadFileRequest.sheet}. */
+  sheet?: string;
+  /** Database table to preview; see {@link LoadFileRequest.table}. */
+  table?: string;
+  /** Database query to preview; see {@link LoadFileRequest.query}. */
+  query?: string;
+  format?: SourceFormat;
+  logFormat?: LogFormat;
+  encoding?: SourceEncoding;
+  /** Data rows to return; defaults to 20. */
+  rowLimit?: number;
+}
+
+/** The first rows of a file parsed with the requested options, as raw text. */
+export interface PreviewFileResult {
+  format: SourceFormat;
+  encoding: SourceEncoding;
+  columns: string[];
+  /** One array of cells per row, aligned with `columns`. */
+  rows: string[][];
+}
+
+export interface ParseIssueReport {
+  /** Issues in file order, capped at the first thousand. */
+  issues: ParseIssue[];
+  totalIssues: number;
 }
 
 export interface LoadCompleteSummary {
+  /** Stable for the same file (or files), so settings can be saved per dataset. */
+  datasetKey: string;
   rowsParsed: number;
   bytesParsed: number;
   durationMs: number;
   columnTypes: Record<string, ColumnType>;
   columnInference: Record<string, ColumnInference>;
+  /**
+   * Text encoding the data was read with; omitted when the files of a
+   * multi-file load differ (see `sources`).
+   */
+  encoding?: SourceEncoding;
+  /** Row ranges per file for multi-file loads; omitted for single files. */
+  sources?: LoadedSource[];
+  /** Rows with a structural anomaly; see `getParseIssues` for the details. */
+  parseIssueCount?: number;
+  /** Outcome of the request's derived columns; omitted when there were none. */
+  derivedColumns?: DerivedColumnStatus[];
+}
+
+/** A derived column checked against the loaded columns. */
+export interface DerivedColumnStatus {
+  name: string;
+  /** Result type; omitted when the definition was rejected. */
+  type?: ColumnType;
+  /** Why the definition was rejected; its column is left out of the dataset. */
+  error?: string;
+}
+
+export interface SetColumnTypeOverridesResult {
+  columnTypes: Record<string, ColumnType>;
+  columnInference: Record<string, ColumnInference>;
+  /** Derived columns recompiled against the new types. */
+  derivedColumns: DerivedColumnStatus[];
+}
+
+export interface DiscoverFieldKeysRequest extends FieldTransformOptions {
+  column: string;
+  mode: FieldTransformMode;
+  /** Rows read from the start of the dataset; defaults to 5,000. */
+  sampleRows?: number;
+}
+
+export interface DiscoverFieldKeysResult {
+  column: string;
+  sampledRows: number;
+  keys: DiscoveredFieldKey[];
+}
+
+export interface LoadedSource {
+  name: string;
+  rowStart: number;
+  rowCount: number;
+  bytesParsed: number;
+  encoding: SourceEncoding;
 }
 
 export interface SearchRequest {
@@ -128,6 +286,80 @@ export interface ColumnValueDistributionResult {
   items: ColumnValueDistributionItem[];
 }
 
+export interface TimelineHistogramRequest {
+  column: string;
+  /** Window start (epoch ms); defaults to the column's inferred minimum. */
+  start?: number;
+  /** Window end (epoch ms); defaults to the column's inferred maximum. */
+  end?: number;
+  targetBuckets?: number;
+}
+
+export interface TimelineHistogramResult {
+  column: string;
+  start: number;
+  end: number;
+  bucketSizeMs: number;
+  counts: number[];
+  /** Rows in the active filter/search set whose timestamp fell inside the window. */
+  countedRows: number;
+  nullRows: number;
+  outOfRangeRows: number;
+}
+
+export interface RulePackRule {
+  id: string;
+  name: string;
+  expression: FilterNode;
+  /** Label appended to every matching row; omit to only count hits. */
+  labelId?: string | null;
+}
+
+export interface RunRulePackRequest {
+  rules: RulePackRule[];
+}
+
+export interface RulePackRuleResult {
+  id: string;
+  name: string;
+  matchedRows: number;
+  labelId: string | null;
+}
+
+export interface RunRulePackResult {
+  totalRows: number;
+  rules: RulePackRuleResult[];
+  /** Tag records touched by the run, keyed by row id. */
+  updated: TagRowsResponse['updated'];
+}
+
+export interface MatchIocsRequest {
+  indicators: string[];
+  /** Columns compared against the indicators; omit or leave empty for every string column. */
+  columns?: string[];
+  /** Datetime column that supplies first/last seen. */
+  timeColumn?: string | null;
+  caseSensitive?: boolean;
+}
+
+export interface IocHit {
+  indicator: string;
+  matchedRows: number;
+  /** Columns the indicator was found in. */
+  columns: string[];
+  firstSeen: number | null;
+  lastSeen: number | null;
+}
+
+export interface MatchIocsResult {
+  totalRows: number;
+  scannedColumns: string[];
+  /** Rows containing at least one indicator. */
+  matchedRows: number;
+  /** Indicators with at least one hit, most rows first. */
+  hits: IocHit[];
+}
+
 export interface FetchRowsRequest {
   offset: number;
   limit: number;
@@ -143,6 +375,31 @@ export interface DataWorkerApi {
   init: (options: WorkerInitOptions) => Promise<void>;
   ping: () => Promise<string>;
   loadFile: (request: LoadFileRequest, callbacks: LoadFileCallbacks) => Promise<void>;
+  listArchiveEntries: (handle: FileSystemFileHandle) => Promise<ArchiveEntry[]>;
+  /** Worksheet names of an `.xlsx` workbook in tab order. */
+  listWorkbookSheets: (handle: FileSystemFileHandle) => Promise<string[]>;
+  /** Tables and views of a SQLite database in schema order. */
+  listDatabaseTables: (handle: FileSystemFileHandle) => Promise<DatabaseTable[]>;
+  previewFile: (request: PreviewFileRequest) => Promise<PreviewFileResult>;
+  /**
+   * Replaces the derived columns of the loaded dataset, in order, so later
+   * definitions may use earlier ones. Rejected definitions are reported and
+   * skipped. Filters, sorts and searches are not re-run.
+   */
+  setDerivedColumns: (definitions: DerivedColumnDefinition[]) => Promise<DerivedColumnStatus[]>;
+  /**
+   * Replaces the type overrides of the loaded dataset. Changed columns are
+   * re-coerced from their stored text without reading the file again; columns
+   * left out return to their inferred type. Filters and sorts are not re-run.
+   */
+  setColumnTypeOverrides: (
+    overrides: Record<string, ColumnTypeOverride>
+  ) => Promise<SetColumnTypeOverridesResult>;
+  /** Keys packed into a text column, for split, key-value and JSON columns. */
+  discoverFieldKeys: (request: DiscoverFieldKeysRequest) => Promise<DiscoverFieldKeysResult>;
+  getParseIssues: () => Promise<ParseIssueReport>;
+  /** Position of a row in the current filtered and sorted view, or null when hidden. */
+  locateRow: (rowId: number) => Promise<number | null>;
   loadRowIndex: (handle: FileSystemFileHandle) => Promise<RowIndexData | null>;
   seekRows: (request: SeekRowsRequest) => Promise<SeekRowsResult | null>;
   applySorts: (request: ApplySortRequest) => Promise<ApplySortResult>;
@@ -150,6 +407,9 @@ export interface DataWorkerApi {
   getColumnValueDistribution: (
     request: ColumnValueDistributionRequest
   ) => Promise<ColumnValueDistributionResult>;
+  getTimelineHistogram: (request: TimelineHistogramRequest) => Promise<TimelineHistogramResult>;
+  runRulePack: (request: RunRulePackRequest) => Promise<RunRulePackResult>;
+  matchIocs: (request: MatchIocsRequest) => Promise<MatchIocsResult>;
   fetchRows: (request: FetchRowsRequest) => Promise<FetchRowsResult>;
   groupBy: (request: GroupingRequest) => Promise<GroupingResult>;
   globalSearch: (request: SearchRequest) => Promise<GlobalSearchResult>;
@@ -0,0 +1,199 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+
+import { buildXlsxFixture, worksheetXml, type XlsxFixture } from './test/xlsxFixture';
+import { materializeRowBatch } from './utils/materializeRowBatch';
+import { listXlsxSheets, parseXlsxWorkbook, type XlsxParserOptions } from './xlsxParser';
+import type { RowBatch } from './types';
+
+const buildWorkbook = (fixture: XlsxFixture): Blob =>
+  new NodeBlob([buildXlsxFixture(fixture)]) as unknown as Blob;
+
+const STYLES =
+  '<styleSheet><numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd hh:mm"/>' +
+  '<numFmt numFmtId="165" formatCode="[h]:mm"/></numFmts>' +
+  '<cellXfs count="4"><xf numFmtId="0"/><xf numFmtId="14" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" applyNumberFormat="1"/><xf numFmtId="165"/></cellXfs></styleSheet>';
+
+const collect = async (
+  workbook: Blob,
+  options?: XlsxParserOptions
+): Promise<{
+  headers: string[][];
+  batches: RowBatch[];
+  rows: string[][];
+  checkpoints: Array<{ rowIndex: number; byteOffset: number }>;
+}> => {
+  const headers: string[][] = [];
+  const batches: RowBatch[] = [];
+  const rows: string[][] = [];
+  const checkpoints: Array<{ rowIndex: number; byteOffset: number }> = [];
+
+  await parseXlsxWorkbook(
+    workbook,
+    {
+      onHeader: (header) => {
+        headers.push(header);
+      },
+      onBatch: (batch) => {
+        batches.push(batch);
+      },
+      onRow: (row) => {
+        rows.push(row);
+      },
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(checkpoint);
+      }
+    },
+    options
+  );
+
+  return { headers, batches, rows, checkpoints };
+};
+
+describe('xlsxParser', () => {
+  const logons = buildWorkbook({
+    sharedStrings: [
+      '<si><t>host</t></si>',
+      '<si><r><t>co</t></r><r><rPr><b/></rPr><t xml:space="preserve">unt</t></r></si>',
+      '<si><t>dc01</t><rPh sb="0" eb="1"><t>DC</t></rPh></si>',
+      '<si><t>ws17 &amp; ws18</t></si>'
+    ],
+    styles: STYLES,
+    sheets: [
+      {
+        name: 'Logons',
+        xml: worksheetXml(
+          '<row r="1"><c r="A1" t="s"><v>0</v></c>' +
+            '<c r="B1" t="inlineStr"><is><t>when</t></is></c>' +
+            '<c r="C1" t="s"><v>1</v></c><c r="D1" t="str"><v>admin</v></c>' +
+            '<c r="E1" t="s"><v>99</v></c></row>' +
+            '<row r="2"><c r="A2" t="s"><v>0</v></c></row>' +
+            '<row r="3" spans="1:5"><c r="A3" t="s"><v>2</v></c>' +
+            '<c r="B3" s="2"><v>45292.5</v></c>' +
+            '<c r="C3"><v>3</v></c><c r="D3" t="b"><v>1</v></c></row>' +
+            '<row r="5"><c r="A5" s="1"/><c r="B5" s="1"/></row>' +
+            '<row r="6"><c r="A6" t="s"><v>3</v></c><c r="B6" s="1"><v>45293.25</v></c>' +
+            '<c r="C6" s="3"><v>1.5</v></c><c r="D6" t="b"><v>0</v></c>' +
+            '<c r="F6" t="e"><v>#N/A</v></c></row>'
+        )
+      },
+      { name: 'Chart1', xml: '<chartsheet/>', chart: true },
+      {
+        name: 'Notes',
+        xml: worksheetXml('<row r="1"><c r="A1" t="inlineStr"><is><t>note</t></is></c></row>')
+      }
+    ]
+  });
+
+  it('lists worksheets in tab order without chart sheets', async () => {
+    expect(await listXlsxSheets(logons)).toEqual([
+      { name: 'Logons', path: 'xl/worksheets/sheet1.xml' },
+      { name: 'Notes', path: 'xl/worksheets/sheet3.xml' }
+    ]);
+  });
+
+  it('reads shared strings, booleans and date-formatted cells into typed batches', async () => {
+    const { headers, batches } = await collect(logons, { skipLines: 1 });
+
+    // Sheet row 2 became the header; a column first seen on row 6 extends it.
+    expect(headers).toEqual([
+      ['host', 'column_2', 'column_3', 'column_4', 'column_5', 'column_6']
+    ]);
+
+    const { headers: defaultHeaders, batches: defaultBatches } = await collect(logons);
+    expect(defaultHeaders).toEqual([
+      ['host', 'when', 'count', 'admin', 'column_5', 'column_6']
+    ]);
+    const batch = defaultBatches[0]!;
+    expect(batch.columnTypes).toMatchObject({
+      host: 'string',
+      when: 'datetime',
+      count: 'number',
+      admin: 'boolean'
+    });
+    expect(materializeRowBatch(batch).rows).toMatchObject([
+      { host: 'host' },
+      {
+        host: 'dc01',
+        when: '2024-01-01T12:00:00Z',
+        count: 3,
+        admin: true
+      },
+      {
+        host: 'ws17 & ws18',
+        when: '2024-01-02T06:00:00Z',
+        // Elapsed-time formats stay numeric.
+        count: 1.5,
+        admin: false,
+        column_6: '#N/A'
+      }
+    ]);
+    expect(batches).toHaveLength(1);
+  });
+
+  it('picks sheets by name, honours header and row limits and uses the 1904 system', async () => {
+    const workbook = buildWorkbook({
+      date1904: true,
+      styles: STYLES,
+      sheets: [
+        { name: 'Empty', xml: worksheetXml('') },
+        {
+          name: 'Mac export',
+          xml: worksheetXml(
+            '<row><c t="inlineStr"><is><t>ws01</t></is></c><c s="2"><v>0</v></c></row>' +
+              '<row><c t="inlineStr"><is><t>ws02</t></is></c><c s="2"><v>1.5</v></c></row>' +
+              '<row><c t="inlineStr"><is><t>ws03</t></is></c></row>'
+          )
+        }
+      ]
+    });
+
+    const { headers, rows } = await collect(workbook, {
+      sheet: 'Mac export',
+      hasHeader: false,
+      rowLimit: 2
+    });
+
+    expect(headers).toEqual([['column_1', 'column_2']]);
+    expect(rows).toEqual([
+      ['ws01', '1904-01-01 00:00:00'],
+      ['ws02', '1904-01-02 12:00:00']
+    ]);
+
+    const empty = await collect(workbook);
+    expect(empty.headers).toEqual([[]]);
+    expect(empty.rows).toEqual([]);
+
+    await expect(collect(workbook, { sheet: 'Missing' })).rejects.toThrow(
+      'Sheet "Missing" was not found in the workbook.'
+    );
+  });
+
+  it('streams large sheets with checkpoints at row offsets in the sheet XML', async () => {
+    let rows = '<row r="1"><c r="A1" t="inlineStr"><is><t>id</t></is></c></row>';
+    for (let index = 1; index <= 3_000; index += 1) {
+      const ref = `A${index + 1}`;
+      rows +=
+        `<row r="${index + 1}"><c r="${ref}" t="inlineStr">` +
+        `<is><t>é${index}</t></is></c></row>`;
+    }
+    const xml = worksheetXml(rows);
+    const workbook = buildWorkbook({ sheets: [{ name: 'Sheet1', xml }] });
+
+    const { batches, checkpoints } = await collect(workbook, {
+      batchSize: 1_000,
+      checkpointInterval: 1_000
+    });
+
+    expect(batches.map((batch) => batch.rowIds.length)).toEqual([1_000, 1_000, 1_000]);
+    expect(batches.at(-1)!.stats.eof).toBe(true);
+    const bytes = new TextEncoder().encode(xml);
+    const decoder = new TextDecoder();
+    expect(checkpoints.map(({ rowIndex }) => rowIndex)).toEqual([0, 1_000, 2_000]);
+    for (const { rowIndex, byteOffset } of checkpoints) {
+      const rowTag = `<row r="${rowIndex + 2}">`;
+      expect(decoder.decode(bytes.subarray(byteOffset, byteOffset + rowTag.length))).toBe(rowTag);
+    }
+  });
+});
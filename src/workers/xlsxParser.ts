@@ -0,0 +1,541 @@
+import { dedupeHeader, type ParserCallbacks, type ParserOptions } from './csvParser';
+import type { RowBatch } from './types';
+import { TypeInferencer } from './typeInference';
+import { buildColumnsFromBuilders } from './utils/columnBatchBuilders';
+import { openZipEntryStream, readZipEntries, type ZipEntry } from './utils/zipArchive';
+
+/**
+ * Streaming reader for Office Open XML workbooks. The workbook, shared strings
+ * and styles parts are small enough to read whole; the worksheet itself is
+ * decoded row by row so large sheets never sit in memory as one string.
+ */
+
+export type XlsxParserOptions = Pick<
+  ParserOptions,
+  'batchSize' | 'checkpointInterval' | 'sourceTimeZones' | 'skipLines' | 'hasHeader'
+> & {
+  /** Worksheet to read; the first one when omitted. */
+  sheet?: string;
+  /** Stops after this many data rows; used for previews. */
+  rowLimit?: number;
+};
+
+export interface XlsxSheet {
+  name: string;
+  /** Path of the worksheet part inside the package. */
+  path: string;
+}
+
+interface WorkbookParts {
+  entries: Map<string, ZipEntry>;
+  sheets: XlsxSheet[];
+  /** Folder of the workbook part, with a trailing slash; usually `xl/`. */
+  folder: string;
+  date1904: boolean;
+}
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
+
+const DEFAULT_BATCH_SIZE = 10_000;
+const MS_PER_DAY = 86_400_000;
+/** Serial numbers of 1970-01-01 in the 1900 and 1904 date systems. */
+const UNIX_EPOCH_SERIAL_1900 = 25_569;
+const UNIX_EPOCH_SERIAL_1904 = 24_107;
+/** Built-in number formats that render dates or times. */
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50,
+  51, 52, 53, 54, 55, 56, 57, 58
+]);
+const WORKSHEET_RELATIONSHIP = /\/worksheet$/;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+const decodeXml = (text: string): string =>
+  text
+    .replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+      if (entity[0] === '#') {
+        const codePoint =
+          entity[1] === 'x' || entity[1] === 'X'
+            ? Number.parseInt(entity.slice(2), 16)
+            : Number.parseInt(entity.slice(1), 10);
+        return String.fromCodePoint(codePoint);
+      }
+      return XML_ENTITIES[entity.toLowerCase()] ?? '';
+    })
+    // Excel escapes control characters as _xHHHH_ (and a literal "_x" as _x005F_x).
+    .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) =>
+      String.fromCharCode(Number.parseInt(hex, 16))
+    );
+
+const readAttribute = (tag: string, name: string): string | undefined => {
+  const match = new RegExp(`\\s${name}=(["'])(.*?)\\1`).exec(tag);
+  return match ? decodeXml(match[2]!) : undefined;
+};
+
+const CELL_REF_ATTRIBUTE = /\sr=(["'])(.*?)\1/;
+const CELL_TYPE_ATTRIBUTE = /\st=(["'])(.*?)\1/;
+const CELL_STYLE_ATTRIBUTE = /\ss=(["'])(.*?)\1/;
+const CELL_PATTERN = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+const VALUE_PATTERN = /<v(?:\s[^>]*)?>([\s\S]*?)<\/v>/;
+const TEXT_PATTERN = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+const PHONETIC_PATTERN = /<rPh\b[\s\S]*?<\/rPh>/g;
+
+/** Concatenates the text runs of a string item, leaving out phonetic hints. */
+const collectText = (xml: string): string => {
+  let text = '';
+  for (const match of xml.replace(PHONETIC_PATTERN, '').matchAll(TEXT_PATTERN)) {
+    text += match[1]!;
+  }
+  return decodeXml(text);
+};
+
+const utf8ByteLength = (text: string): number => {
+  let length = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // A surrogate pair encodes one 4-byte code point.
+      length += 4;
+      index += 1;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+};
+
+/** Zero-based column of a cell reference such as `AB12`. */
+const columnIndexFromRef = (ref: string): number => {
+  let index = 0;
+  for (let position = 0; position < ref.length; position += 1) {
+    const code = ref.charCodeAt(position);
+    if (code < 65 || code > 90) {
+      break;
+    }
+    index = index * 26 + code - 64;
+  }
+  return index - 1;
+};
+
+const isDateFormatCode = (code: string): boolean => {
+  // Elapsed-time formats such as [h]:mm are durations, not points in time.
+  if (/\[(h+|m+|s+)\]/i.test(code)) {
+    return false;
+  }
+  const stripped = code
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/\[[^\]]*\]/g, '');
+  return /[dmyhs]/i.test(stripped);
+};
+
+/**
+ * Renders a date serial as a naive wall-clock timestamp so per-column source
+ * time zones apply to it like any other timestamp without an offset.
+ */
+const formatSerialDate = (raw: string, date1904: boolean): string => {
+  const serial = Number(raw);
+  if (!Number.isFinite(serial)) {
+    return raw;
+  }
+  // The 1900 system counts a 29 February 1900 that never existed.
+  const days = date1904
+    ? serial - UNIX_EPOCH_SERIAL_1904
+    : (serial < 60 ? serial + 1 : serial) - UNIX_EPOCH_SERIAL_1900;
+  const date = new Date(Math.round(days * MS_PER_DAY));
+  if (Number.isNaN(date.getTime())) {
+    return raw;
+  }
+  const iso = date.toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, date.getUTCMilliseconds() > 0 ? 23 : 19)}`;
+};
+
+async function* decodeText(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      const text = decoder.decode(value, { stream: true });
+      if (text) {
+        yield text;
+      }
+    }
+    const tail = decoder.decode();
+    if (tail) {
+      yield tail;
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
+
+const readPart = async (
+  workbook: Blob,
+  entries: Map<string, ZipEntry>,
+  path: string
+): Promise<string | null> => {
+  const entry = entries.get(path.toLowerCase());
+  if (!entry) {
+    return null;
+  }
+  let text = '';
+  for await (const chunk of decodeText(await openZipEntryStream(workbook, entry))) {
+    text += chunk;
+  }
+  return text;
+};
+
+/** Resolves a relationship target against the folder of the part that declares it. */
+const resolvePartPath = (baseFolder: string, target: string): string => {
+  const segments = target.startsWith('/') ? [] : baseFolder.split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+};
+
+const readRelationships = (xml: string | null): Relationship[] =>
+  Array.from((xml ?? '').matchAll(/<Relationship\b[^>]*>/g), ([tag]) => ({
+    id: readAttribute(tag, 'Id') ?? '',
+    type: readAttribute(tag, 'Type') ?? '',
+    target: readAttribute(tag, 'Target') ?? ''
+  }));
+
+const openWorkbook = async (workbook: Blob): Promise<WorkbookParts> => {
+  const entries = new Map(
+    (await readZipEntries(workbook)).map((entry) => [entry.path.toLowerCase(), entry] as const)
+  );
+  const officeDocument = readRelationships(await readPart(workbook, entries, '_rels/.rels')).find(
+    (relationship) => relationship.type.endsWith('/officeDocument')
+  );
+  const workbookPath = officeDocument
+    ? resolvePartPath('', officeDocument.target)
+    : 'xl/workbook.xml';
+  const workbookXml = await readPart(workbook, entries, workbookPath);
+  if (workbookXml == null) {
+    throw new Error('Not an Excel workbook: the workbook part is missing.');
+  }
+
+  const folder = workbookPath.slice(0, workbookPath.lastIndexOf('/') + 1);
+  const relationshipsPath = `${folder}_rels/${workbookPath.slice(folder.length)}.rels`;
+  const worksheetTargets = new Map(
+    readRelationships(await readPart(workbook, entries, relationshipsPath))
+      .filter((relationship) => WORKSHEET_RELATIONSHIP.test(relationship.type))
+      .map((relationship) => [relationship.id, resolvePartPath(folder, relationship.target)])
+  );
+
+  const sheets: XlsxSheet[] = [];
+  for (const [tag] of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+    const path = worksheetTargets.get(readAttribute(tag, 'r:id') ?? '');
+    if (path) {
+      sheets.push({ name: readAttribute(tag, 'name') ?? path, path });
+    }
+  }
+
+  return {
+    entries,
+    sheets,
+    folder,
+    date1904: /<workbookPr\b[^>]*\sdate1904=(["'])(1|true)\1/.test(workbookXml)
+  };
+};
+
+const readSharedStrings = (xml: string | null): string[] =>
+  Array.from((xml ?? '').matchAll(/<si\b[^>]*?(?:\/>|>([\s\S]*?)<\/si>)/g), (match) =>
+    collectText(match[1] ?? '')
+  );
+
+/** Flags, per cell style index, whether the style displays a date. */
+const readDateStyles = (xml: string | null): boolean[] => {
+  if (!xml) {
+    return [];
+  }
+  const customFormats = new Map<number, string>();
+  for (const [tag] of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const formatCode = readAttribute(tag, 'formatCode') ?? '';
+    customFormats.set(Number(readAttribute(tag, 'numFmtId')), formatCode);
+  }
+  const cellFormats = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(xml)?.[1] ?? '';
+  return Array.from(cellFormats.matchAll(/<xf\b[^>]*>/g), ([tag]) => {
+    const formatId = Number(readAttribute(tag, 'numFmtId') ?? 0);
+    const custom = customFormats.get(formatId);
+    return custom != null ? isDateFormatCode(custom) : BUILTIN_DATE_FORMATS.has(formatId);
+  });
+};
+
+/** Lists the worksheets of a workbook in tab order; chart sheets are left out. */
+export const listXlsxSheets = async (workbook: Blob): Promise<XlsxSheet[]> =>
+  (await openWorkbook(workbook)).sheets;
+
+/**
+ * Streams one worksheet into the same columnar {@link RowBatch} format as
+ * `parseDelimitedStream`. Date-formatted numbers become timestamps, and
+ * checkpoints point at each row's offset within the uncompressed sheet XML.
+ * Rows with no values are skipped; `skipLines` counts sheet row numbers.
+ */
+export const parseXlsxWorkbook = async (
+  workbook: Blob,
+  callbacks: ParserCallbacks,
+  options: XlsxParserOptions = {}
+): Promise<void> => {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const checkpointInterval = options.checkpointInterval ?? 50_000;
+  const hasHeader = options.hasHeader ?? true;
+  const skipLines = Math.max(0, Math.floor(options.skipLines ?? 0));
+  const rowLimit = options.rowLimit ?? Number.POSITIVE_INFINITY;
+
+  const { entries, sheets, folder, date1904 } = await openWorkbook(workbook);
+  const sheet =
+    options.sheet != null
+      ? sheets.find((candidate) => candidate.name === options.sheet)
+      : sheets[0];
+  if (!sheet) {
+    throw new Error(
+      options.sheet != null
+        ? `Sheet "${options.sheet}" was not found in the workbook.`
+        : 'The workbook has no worksheets.'
+    );
+  }
+  const sheetEntry = entries.get(sheet.path.toLowerCase());
+  if (!sheetEntry) {
+    throw new Error(`Corrupt workbook: the part for sheet "${sheet.name}" is missing.`);
+  }
+
+  const sharedStrings = readSharedStrings(
+    await readPart(workbook, entries, `${folder}sharedStrings.xml`)
+  );
+  const dateStyles = readDateStyles(await readPart(workbook, entries, `${folder}styles.xml`));
+  await callbacks.onEncoding?.('utf-8');
+
+  let header: string[] | null = null;
+  let headerChanged = false;
+  let columnBuilders: string[][] = [];
+  let pendingRowCount = 0;
+  let totalRows = 0;
+  let bytesParsed = 0;
+  let previousRowNumber = 0;
+  const inferencer = new TypeInferencer([], { sourceTimeZones: options.sourceTimeZones });
+
+  const ensureColumns = (width: number): string[] => {
+    const columns = header!;
+    while (columns.length < width) {
+      const name = `column_${columns.length + 1}`;
+      columns.push(name);
+      inferencer.addColumn(name);
+      // Rows already buffered in this batch did not reach this column.
+      columnBuilders.push(new Array<string>(pendingRowCount).fill(''));
+      headerChanged = true;
+    }
+    return columns;
+  };
+
+  const flushBatch = async (eof: boolean): Promise<void> => {
+    if (headerChanged && header) {
+      headerChanged = false;
+      await callbacks.onHeader?.(header.slice());
+    }
+    if (pendingRowCount === 0 || !header) {
+      return;
+    }
+
+    const rowCount = pendingRowCount;
+    const rowIds = new Uint32Array(rowCount);
+    for (let index = 0; index < rowCount; index += 1) {
+      rowIds[index] = totalRows + index;
+    }
+
+    const { columns, columnTypes, columnInference } = buildColumnsFromBuilders(
+      header,
+      columnBuilders,
+      inferencer,
+      options.sourceTimeZones
+    );
+    totalRows += rowCount;
+
+    const batch: RowBatch = {
+      rowIds,
+      columns,
+      columnTypes,
+      columnInference,
+      stats: {
+        rowsParsed: totalRows,
+        bytesParsed,
+        eof
+      }
+    };
+
+    columnBuilders = header.map(() => []);
+    pendingRowCount = 0;
+    await callbacks.onBatch(batch);
+  };
+
+  const readCellValue = (attributes: string, inner: string): string => {
+    const type = CELL_TYPE_ATTRIBUTE.exec(attributes)?.[2] ?? 'n';
+    if (type === 'inlineStr') {
+      return collectText(inner);
+    }
+    const value = VALUE_PATTERN.exec(inner)?.[1];
+    if (value == null) {
+      return '';
+    }
+    switch (type) {
+      case 's':
+        return sharedStrings[Number(value)] ?? '';
+      case 'b':
+        return value === '1' ? 'true' : 'false';
+      case 'str':
+      case 'e':
+      case 'd':
+        return decodeXml(value);
+      default: {
+        const style = Number(CELL_STYLE_ATTRIBUTE.exec(attributes)?.[2] ?? 0);
+        return dateStyles[style] ? formatSerialDate(value, date1904) : value;
+      }
+    }
+  };
+
+  /** Returns false once the row limit is reached. */
+  const handleRow = async (openTag: string, body: string, byteOffset: number): Promise<boolean> => {
+    const rowRef = readAttribute(openTag, 'r');
+    const rowNumber = rowRef ? Number(rowRef) : previousRowNumber + 1;
+    previousRowNumber = rowNumber;
+    if (rowNumber <= skipLines) {
+      return true;
+    }
+
+    const cells: string[] = [];
+    let nextColumn = 0;
+    for (const [, attributes = '', inner = ''] of body.matchAll(CELL_PATTERN)) {
+      const cellRef = CELL_REF_ATTRIBUTE.exec(attributes)?.[2];
+      const column = cellRef ? columnIndexFromRef(cellRef) : nextColumn;
+      nextColumn = column + 1;
+      cells[column] = readCellValue(attributes, inner);
+    }
+    const row = Array.from(cells, (cell) => cell ?? '');
+    if (row.every((cell) => cell === '')) {
+      return true;
+    }
+
+    if (!header) {
+      header = hasHeader
+        ? dedupeHeader(row)
+        : row.map((_, index) => `column_${index + 1}`);
+      for (const column of header) {
+        inferencer.addColumn(column);
+      }
+      columnBuilders = header.map(() => []);
+      headerChanged = true;
+      if (hasHeader) {
+        return true;
+      }
+    }
+
+    if (pendingRowCount >= batchSize) {
+      await flushBatch(false);
+    }
+
+    const width = ensureColumns(row.length).length;
+    while (row.length < width) {
+      row.push('');
+    }
+    callbacks.onRow?.(row);
+    inferencer.updateRow(row);
+    for (let column = 0; column < width; column += 1) {
+      columnBuilders[column]!.push(row[column]!);
+    }
+    pendingRowCount += 1;
+
+    const rowIndex = totalRows + pendingRowCount - 1;
+    if (checkpointInterval > 0 && callbacks.onCheckpoint && rowIndex % checkpointInterval === 0) {
+      await callbacks.onCheckpoint({ rowIndex, byteOffset });
+    }
+    return rowIndex + 1 < rowLimit;
+  };
+
+  let buffer = '';
+  let inSheetData = false;
+  let finished = false;
+  for await (const text of decodeText(await openZipEntryStream(workbook, sheetEntry))) {
+    buffer += text;
+    let position = 0;
+
+    if (!inSheetData) {
+      const dataStart = buffer.indexOf('<sheetData');
+      const openEnd = dataStart === -1 ? -1 : buffer.indexOf('>', dataStart);
+      if (openEnd === -1) {
+        continue;
+      }
+      if (buffer[openEnd - 1] === '/') {
+        break;
+      }
+      inSheetData = true;
+      position = openEnd + 1;
+      bytesParsed += utf8ByteLength(buffer.slice(0, position));
+    }
+
+    while (!finished) {
+      const rowStart = buffer.indexOf('<row', position);
+      const dataEnd = buffer.indexOf('</sheetData>', position);
+      if (dataEnd !== -1 && (rowStart === -1 || dataEnd < rowStart)) {
+        finished = true;
+        break;
+      }
+      const openEnd = rowStart === -1 ? -1 : buffer.indexOf('>', rowStart);
+      if (openEnd === -1) {
+        break;
+      }
+
+      let rowEnd = openEnd + 1;
+      let body = '';
+      if (buffer[openEnd - 1] !== '/') {
+        const close = buffer.indexOf('</row>', openEnd);
+        if (close === -1) {
+          break;
+        }
+        body = buffer.slice(openEnd + 1, close);
+        rowEnd = close + '</row>'.length;
+      }
+
+      const rowOffset = bytesParsed + utf8ByteLength(buffer.slice(position, rowStart));
+      bytesParsed = rowOffset + utf8ByteLength(buffer.slice(rowStart, rowEnd));
+      position = rowEnd;
+      if (!(await handleRow(buffer.slice(rowStart, openEnd + 1), body, rowOffset))) {
+        finished = true;
+      }
+    }
+
+    // bytesParsed now points at the start of the unparsed tail.
+    buffer = buffer.slice(position);
+    if (finished) {
+      break;
+    }
+  }
+
+  if (!header) {
+    header = [];
+    headerChanged = true;
+  }
+  await flushBatch(true);
+};
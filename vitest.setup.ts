@@ -1,6 +1,13 @@
 import '@testing-library/jest-dom/vitest';
+import { createRequire } from 'node:module';
 import { ReadableStream as NodeReadableStream } from 'node:stream/web';
 import { TextDecoder as NodeTextDecoder, TextEncoder as NodeTextEncoder } from 'node:util';
+import { vi } from 'vitest';
+
+// Vite serves the SQLite WASM build from a URL; under Node it is read from disk instead.
+vi.mock('sql.js/dist/sql-wasm.wasm?url', () => ({
+  default: createRequire(import.meta.url).resolve('sql.js/dist/sql-wasm.wasm')
+}));
 
 // Ensure worker-style globals exist so parser/type inference specs run consistently under Vitest.
 if (typeof globalThis.TextEncoder === 'undefined') {